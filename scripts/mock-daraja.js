@@ -0,0 +1,97 @@
+// Local stand-in for the Safaricom Daraja API.
+//
+// Point the edge functions at it with MPESA_DARAJA_BASE_URL=http://host.docker.internal:4010
+// (or wherever it is reachable from). Every STK push is "paid" after MOCK_DARAJA_DELAY_MS,
+// except phone numbers ending in 000 (cancelled by user) and 111 (insufficient funds).
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_DARAJA_PORT || 4010);
+const DELAY_MS = Number(process.env.MOCK_DARAJA_DELAY_MS || 3000);
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', (chunk) => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+});
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const buildCallback = (request, merchantRequestId, checkoutRequestId) => {
+  const phone = String(request.PhoneNumber);
+  const base = { MerchantRequestID: merchantRequestId, CheckoutRequestID: checkoutRequestId };
+
+  if (phone.endsWith('000')) {
+    return { ...base, ResultCode: 1032, ResultDesc: 'Request cancelled by user' };
+  }
+  if (phone.endsWith('111')) {
+    return { ...base, ResultCode: 1, ResultDesc: 'The balance is insufficient for the transaction' };
+  }
+
+  return {
+    ...base,
+    ResultCode: 0,
+    ResultDesc: 'The service request is processed successfully.',
+    CallbackMetadata: {
+      Item: [
+        { Name: 'Amount', Value: request.Amount },
+        { Name: 'MpesaReceiptNumber', Value: crypto.randomBytes(5).toString('hex').toUpperCase() },
+        { Name: 'TransactionDate', Value: Number(request.Timestamp) },
+        { Name: 'PhoneNumber', Value: Number(phone) },
+      ],
+    },
+  };
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === '/oauth/v1/generate') {
+    return send(res, 200, { access_token: crypto.randomUUID(), expires_in: '3599' });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/mpesa/stkpush/v1/processrequest') {
+    const request = await readJson(req);
+    if (!request.PhoneNumber || !request.Amount || !request.CallBackURL) {
+      return send(res, 400, { errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid request body' });
+    }
+
+    const merchantRequestId = `mock-${crypto.randomUUID()}`;
+    const checkoutRequestId = `ws_CO_${Date.now()}`;
+    const stkCallback = buildCallback(request, merchantRequestId, checkoutRequestId);
+
+    setTimeout(() => {
+      fetch(request.CallBackURL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ Body: { stkCallback } }),
+      })
+        .then((response) => console.log(`Callback for ${checkoutRequestId}: ${response.status}`))
+        .catch((error) => console.error(`Callback for ${checkoutRequestId} failed:`, error.message));
+    }, DELAY_MS);
+
+    return send(res, 200, {
+      MerchantRequestID: merchantRequestId,
+      CheckoutRequestID: checkoutRequestId,
+      ResponseCode: '0',
+      ResponseDescription: 'Success. Request accepted for processing',
+      CustomerMessage: 'Success. Request accepted for processing',
+    });
+  }
+
+  send(res, 404, { errorMessage: `No mock for ${req.method} ${url.pathname}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Daraja listening on http://localhost:${PORT}`);
+});
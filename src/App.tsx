@@ -20,7 +20,16 @@ import CreateBusinessPage from './pages/CreateBusiness';
 
 // Import Pages
 import Products from './pages/Products';
+import Suppliers from './pages/Suppliers';
+import PurchaseOrders from './pages/PurchaseOrders';
+import StockTakes from './pages/StockTakes';
+import Branches from './pages/Branches';
+import Promotions from './pages/Promotions';
+import Customers from './pages/Customers';
 import Sales from './pages/Sales';
+import PointOfSale from './pages/PointOfSale';
+import Layaways from './pages/Layaways';
+import Shifts from './pages/Shifts';
 import Students from './pages/Students';
 import Tenants from './pages/Tenants';
 import Rooms from './pages/Rooms';
@@ -121,6 +130,11 @@ function Dashboard() {
     );
   }
 
+  // The till runs full screen, without the sidebar and header
+  if (selectedBusiness && location.pathname === '/dashboard/pos') {
+    return <PointOfSale business={selectedBusiness} />;
+  }
+
   return (
     <DashboardLayout
       sidebar={
@@ -153,7 +167,15 @@ function Dashboard() {
         {selectedBusiness && (
           <>
             <Route path="/products" element={<Products businessId={selectedBusiness.id} />} />
-            <Route path="/sales" element={<Sales businessId={selectedBusiness.id} businessType={selectedBusiness.business_type} />} />
+            <Route path="/suppliers" element={<Suppliers businessId={selectedBusiness.id} />} />
+            <Route path="/purchase-orders" element={<PurchaseOrders businessId={selectedBusiness.id} />} />
+            <Route path="/stock-takes" element={<StockTakes businessId={selectedBusiness.id} />} />
+            <Route path="/branches" element={<Branches businessId={selectedBusiness.id} />} />
+            <Route path="/promotions" element={<Promotions businessId={selectedBusiness.id} />} />
+            <Route path="/customers" element={<Customers businessId={selectedBusiness.id} />} />
+            <Route path="/sales" element={<Sales businessId={selectedBusiness.id} businessType={selectedBusiness.business_type} taxSettings={selectedBusiness} scaleBarcodeFormats={selectedBusiness.scale_barcode_formats} />} />
+            <Route path="/layaways" element={<Layaways businessId={selectedBusiness.id} />} />
+            <Route path="/shifts" element={<Shifts businessId={selectedBusiness.id} />} />
             <Route path="/students" element={<Students businessId={selectedBusiness.id} />} />
             <Route path="/tenants" element={<Tenants businessId={selectedBusiness.id} />} />
             <Route path="/rooms" element={<Rooms businessId={selectedBusiness.id} />} />
@@ -0,0 +1,26 @@
+import { type Branch } from '../../lib/supabase';
+
+interface BranchSelectProps {
+  branches: Branch[];
+  value: string;
+  onChange: (branchId: string) => void;
+  // Label of an empty option, e.g. "All branches" on reports; omit to require a branch
+  emptyLabel?: string;
+  required?: boolean;
+  className?: string;
+}
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+export function BranchSelect({ branches, value, onChange, emptyLabel, required, className }: BranchSelectProps) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} required={required} className={className ?? selectClasses}>
+      {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+      {branches.map(branch => (
+        <option key={branch.id} value={branch.id}>
+          {branch.name}{branch.is_default ? ' (default)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
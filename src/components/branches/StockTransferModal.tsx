@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import { supabase, type Branch, type Product } from '../../lib/supabase';
+import { fetchBranchStock } from '../../lib/branches';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { BranchSelect } from './BranchSelect';
+
+interface StockTransferModalProps {
+  businessId: string;
+  branches: Branch[];
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+interface TransferLine {
+  product_id: string;
+  name: string;
+  unit: string;
+  is_weighed: boolean;
+  quantity: string;
+}
+
+// Weighed products move by weight, to the gram; everything else in whole units
+const parseQuantity = (line: TransferLine) => line.is_weighed
+  ? Math.round((parseFloat(line.quantity) || 0) * 1000) / 1000
+  : parseInt(line.quantity) || 0;
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+export function StockTransferModal({ businessId, branches, isOpen, onClose, onCreated }: StockTransferModalProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [fromBranchId, setFromBranchId] = useState('');
+  const [toBranchId, setToBranchId] = useState('');
+  const [available, setAvailable] = useState<Record<string, number>>({});
+  const [selectedProduct, setSelectedProduct] = useState('');
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFromBranchId('');
+    setToBranchId('');
+    setLines([]);
+    setNotes('');
+    supabase
+      .from('products')
+      .select('*')
+      .eq('business_id', businessId)
+      .eq('is_active', true)
+      .eq('is_bundle', false)
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching products:', error);
+          return;
+        }
+        setProducts(data || []);
+      });
+  }, [isOpen, businessId]);
+
+  useEffect(() => {
+    if (!fromBranchId) {
+      setAvailable({});
+      return;
+    }
+    fetchBranchStock(fromBranchId)
+      .then(setAvailable)
+      .catch(error => console.error('Error fetching branch stock:', error));
+  }, [fromBranchId]);
+
+  const handleAddLine = () => {
+    const product = products.find(p => p.id === selectedProduct);
+    if (!product || lines.some(line => line.product_id === product.id)) return;
+    setLines(prev => [...prev, { product_id: product.id, name: product.name, unit: product.unit, is_weighed: product.is_weighed, quantity: '1' }]);
+    setSelectedProduct('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fromBranchId || !toBranchId || lines.length === 0) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('create_stock_transfer', {
+        p_business_id: businessId,
+        p_from_branch_id: fromBranchId,
+        p_to_branch_id: toBranchId,
+        p_items: lines.map(line => ({ product_id: line.product_id, quantity: parseQuantity(line) })),
+        p_notes: notes || null,
+      });
+      if (error) throw error;
+      onCreated();
+      onClose();
+    } catch (error) {
+      console.error('Error creating stock transfer:', error);
+      alert(`Failed to create transfer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="New Stock Transfer">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+            <BranchSelect branches={branches} value={fromBranchId} onChange={setFromBranchId} emptyLabel="Select a branch" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+            <BranchSelect branches={branches.filter(b => b.id !== fromBranchId)} value={toBranchId} onChange={setToBranchId} emptyLabel="Select a branch" required />
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <select value={selectedProduct} onChange={(e) => setSelectedProduct(e.target.value)} className={selectClasses}>
+            <option value="" disabled>Select a product</option>
+            {products.map(p => (
+              <option key={p.id} value={p.id}>
+                {p.name}{fromBranchId && ` (${available[p.id] ?? 0} at branch)`}
+              </option>
+            ))}
+          </select>
+          <Button type="button" onClick={handleAddLine}>Add</Button>
+        </div>
+
+        {lines.length > 0 && (
+          <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
+            {lines.map(line => {
+              const short = fromBranchId && parseQuantity(line) > (available[line.product_id] ?? 0);
+              return (
+                <div key={line.product_id} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg">
+                  <div>
+                    <span className="text-sm font-medium">{line.name}</span>
+                    {short && <p className="text-xs text-amber-600 dark:text-amber-400">Only {available[line.product_id] ?? 0} {line.unit}(s) at the sending branch</p>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="number"
+                      min={line.is_weighed ? '0.001' : '1'}
+                      step={line.is_weighed ? '0.001' : '1'}
+                      value={line.quantity}
+                      onChange={(e) => setLines(prev => prev.map(l => l.product_id === line.product_id ? { ...l, quantity: e.target.value } : l))}
+                      className="w-20 text-center"
+                      required
+                    />
+                    <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => setLines(prev => prev.filter(l => l.product_id !== line.product_id))} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        <p className="text-xs text-gray-500 dark:text-gray-400">Nothing moves until the sending branch dispatches the transfer.</p>
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={!fromBranchId || !toBranchId || lines.length === 0 || submitting}>
+            {submitting ? 'Saving...' : 'Request Transfer'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, type StockTransfer, type StockTransferItem } from '../../lib/supabase';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../ui/Table';
+
+export type TransferRow = StockTransfer & {
+  stock_transfer_items: (StockTransferItem & { products: { name: string; unit: string; is_weighed: boolean } | null })[];
+};
+
+export type TransferStep = 'dispatch' | 'receive';
+
+interface TransferStepModalProps {
+  transfer: TransferRow | null;
+  step: TransferStep;
+  fromBranchName: string;
+  toBranchName: string;
+  onClose: () => void;
+  onDone: () => void;
+}
+
+// Confirms the quantities that leave the sending branch, or that arrive at the receiving one.
+export function TransferStepModal({ transfer, step, fromBranchName, toBranchName, onClose, onDone }: TransferStepModalProps) {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const lines = transfer?.stock_transfer_items.filter(line => step === 'dispatch' || line.quantity_dispatched > 0) ?? [];
+  const expected = (line: StockTransferItem) => step === 'dispatch' ? line.quantity_requested : line.quantity_dispatched;
+  // Weighed products move by weight, to the gram; everything else in whole units
+  const parseQuantity = (line: TransferRow['stock_transfer_items'][number]) => line.products?.is_weighed
+    ? Math.round((parseFloat(quantities[line.product_id]) || 0) * 1000) / 1000
+    : parseInt(quantities[line.product_id]) || 0;
+
+  useEffect(() => {
+    if (!transfer) return;
+    setQuantities(Object.fromEntries(transfer.stock_transfer_items.map(line => [
+      line.product_id,
+      String(step === 'dispatch' ? line.quantity_requested : line.quantity_dispatched),
+    ])));
+  }, [transfer, step]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transfer) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc(step === 'dispatch' ? 'dispatch_stock_transfer' : 'receive_stock_transfer', {
+        p_transfer_id: transfer.id,
+        p_items: lines.map(line => ({ product_id: line.product_id, quantity: parseQuantity(line) })),
+      });
+      if (error) throw error;
+      onDone();
+      onClose();
+    } catch (error) {
+      console.error(`Error during transfer ${step}:`, error);
+      alert(`Failed to ${step} transfer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const shortfall = lines.some(line => parseQuantity(line) < expected(line));
+
+  return (
+    <Modal
+      isOpen={!!transfer}
+      onClose={onClose}
+      title={`${step === 'dispatch' ? 'Dispatch' : 'Receive'} ${transfer?.transfer_number ?? ''}`}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {step === 'dispatch'
+            ? `Stock leaves ${fromBranchName} now and is in transit until ${toBranchName} receives it.`
+            : `Record what arrived at ${toBranchName}. Anything short is written off as lost in transit.`}
+        </p>
+        <Table>
+          <TableHeader>
+            <TableHead>Product</TableHead>
+            <TableHead>{step === 'dispatch' ? 'Requested' : 'Dispatched'}</TableHead>
+            <TableHead>{step === 'dispatch' ? 'Send' : 'Received'}</TableHead>
+          </TableHeader>
+          <TableBody>
+            {lines.map(line => (
+              <TableRow key={line.id}>
+                <TableCell>{line.products?.name ?? 'Unknown product'}</TableCell>
+                <TableCell>{expected(line)} {line.products?.unit}(s)</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={step === 'receive' ? line.quantity_dispatched : undefined}
+                    step={line.products?.is_weighed ? '0.001' : '1'}
+                    value={quantities[line.product_id] ?? ''}
+                    onChange={(e) => setQuantities(prev => ({ ...prev, [line.product_id]: e.target.value }))}
+                    className="w-20 text-center"
+                    required
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {shortfall && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            {step === 'dispatch' ? 'Some lines will be sent short of what was requested.' : 'Some lines arrived short of what was dispatched.'}
+          </p>
+        )}
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? 'Saving...' : step === 'dispatch' ? 'Dispatch' : 'Receive'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
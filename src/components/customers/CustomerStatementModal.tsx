@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { supabase, type Customer } from '../../lib/supabase';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { Printer } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+interface CustomerStatementModalProps {
+  customer: Customer | null;
+  businessName: string;
+  onClose: () => void;
+}
+
+interface LedgerEntry {
+  entry_date: string;
+  entry_type: 'sale' | 'return' | 'void' | 'payment';
+  reference: string;
+  debit: number;
+  credit: number;
+}
+
+const entryLabels: Record<LedgerEntry['entry_type'], string> = {
+  sale: 'Sale on account',
+  return: 'Return',
+  void: 'Void',
+  payment: 'Payment',
+};
+
+export function CustomerStatementModal({ customer, businessName, onClose }: CustomerStatementModalProps) {
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [startDate, setStartDate] = useState(format(startOfMonth(subMonths(new Date(), 2)), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!customer) return;
+    const fetchLedger = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('get_customer_ledger', { p_customer_id: customer.id });
+        if (error) throw error;
+        setEntries(data as LedgerEntry[] || []);
+      } catch (error) {
+        console.error('Error fetching customer ledger:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchLedger();
+  }, [customer]);
+
+  const entryDay = (entry: LedgerEntry) => format(new Date(entry.entry_date), 'yyyy-MM-dd');
+  const openingBalance = entries
+    .filter(entry => entryDay(entry) < startDate)
+    .reduce((acc, entry) => acc + entry.debit - entry.credit, 0);
+
+  let running = openingBalance;
+  const lines = entries
+    .filter(entry => entryDay(entry) >= startDate && entryDay(entry) <= endDate)
+    .map(entry => {
+      running += entry.debit - entry.credit;
+      return { ...entry, balance: running };
+    });
+  const closingBalance = running;
+
+  const printStatement = () => {
+    if (!customer) return;
+    const doc = new jsPDF();
+    doc.setFontSize(14);
+    doc.text(businessName, 14, 16);
+    doc.setFontSize(11);
+    doc.text('Customer Statement', 14, 23);
+    doc.setFontSize(10);
+    doc.text(`${customer.name || 'Customer'} - ${customer.phone}`, 14, 30);
+    doc.text(`${format(parseISO(startDate), 'dd MMM yyyy')} to ${format(parseISO(endDate), 'dd MMM yyyy')}`, 14, 36);
+
+    doc.autoTable({
+      head: [["Date", "Details", "Reference", "Debit", "Credit", "Balance"]],
+      body: [
+        ['', 'Opening balance', '', '', '', openingBalance.toLocaleString()],
+        ...lines.map(line => [
+          format(new Date(line.entry_date), 'dd MMM yyyy'),
+          entryLabels[line.entry_type],
+          line.reference,
+          line.debit ? line.debit.toLocaleString() : '',
+          line.credit ? line.credit.toLocaleString() : '',
+          line.balance.toLocaleString(),
+        ]),
+        ['', 'Closing balance', '', '', '', closingBalance.toLocaleString()],
+      ],
+      startY: 40,
+    });
+
+    doc.save(`statement_${customer.phone}_${endDate}.pdf`);
+  };
+
+  return (
+    <Modal isOpen={!!customer} onClose={onClose} title={`Statement - ${customer?.name || customer?.phone || ''}`}>
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <Input type="date" value={startDate} max={endDate} onChange={(e) => e.target.value && setStartDate(e.target.value)} />
+          <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+          <Input type="date" value={endDate} min={startDate} onChange={(e) => e.target.value && setEndDate(e.target.value)} />
+        </div>
+
+        {loading ? (
+          <p className="py-8 text-center">Loading statement...</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto pr-2 text-sm">
+            <div className="flex justify-between font-medium">
+              <span>Opening balance</span>
+              <span>KSh {openingBalance.toLocaleString()}</span>
+            </div>
+            {lines.map((line, index) => (
+              <div key={`${line.entry_date}-${index}`} className="bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg flex justify-between">
+                <div>
+                  <div className="font-medium">{entryLabels[line.entry_type]}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{format(new Date(line.entry_date), 'dd MMM yyyy')} · {line.reference}</div>
+                </div>
+                <div className="text-right">
+                  <div className={line.debit ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                    {line.debit ? `+${line.debit.toLocaleString()}` : `-${line.credit.toLocaleString()}`}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">KSh {line.balance.toLocaleString()}</div>
+                </div>
+              </div>
+            ))}
+            <div className="flex justify-between font-bold pt-2 border-t border-gray-200 dark:border-gray-700">
+              <span>Closing balance</span>
+              <span>KSh {closingBalance.toLocaleString()}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="secondary" onClick={onClose}>Close</Button>
+          <Button type="button" icon={<Printer />} onClick={printStatement} disabled={loading}>Print Statement</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -6,8 +6,11 @@ import {
   UsersIcon,
   ArrowTrendingUpIcon,
 } from '@heroicons/react/24/outline';
-import { supabase, type Business } from '../../lib/supabase';
+import { supabase, type Business, type PaymentMethod } from '../../lib/supabase';
+import { tenderLabels } from '../../lib/tenders';
 import { useAuth } from '../../contexts/AuthContext';
+import { useBranches } from '../../hooks/useBranches';
+import { BranchSelect } from '../branches/BranchSelect';
 import { startOfMonth, endOfMonth, subMonths } from 'date-fns';
 
 interface DashboardHomeProps {
@@ -21,6 +24,13 @@ interface DashboardStats {
   monthlyTransactions: number;
   totalCustomers: number;
   revenueGrowth: number;
+  monthlyRevenueByTender: Partial<Record<PaymentMethod, number>>;
+}
+
+interface TenderDatum {
+  method: PaymentMethod;
+  amount: number;
+  created_at: string;
 }
 
 export default function DashboardHome({ business }: DashboardHomeProps) {
@@ -32,14 +42,18 @@ export default function DashboardHome({ business }: DashboardHomeProps) {
     monthlyTransactions: 0,
     totalCustomers: 0,
     revenueGrowth: 0,
+    monthlyRevenueByTender: {},
   });
   const [loading, setLoading] = useState(true);
+  const { activeBranches, hasMultipleBranches } = useBranches(business.id);
+  // Empty consolidates every branch
+  const [branchId, setBranchId] = useState('');
 
   useEffect(() => {
     if (business?.id) {
       fetchDashboardStats();
     }
-  }, [business?.id]);
+  }, [business?.id, branchId]);
 
   const fetchDashboardStats = async () => {
     setLoading(true);
@@ -52,7 +66,8 @@ export default function DashboardHome({ business }: DashboardHomeProps) {
 
       // This logic can be moved to a Supabase function for efficiency
       const { data, error } = await supabase.rpc('get_dashboard_stats', {
-        p_business_id: business.id
+        p_business_id: business.id,
+        p_branch_id: branchId || null,
       });
       
       if (error) throw error;
@@ -75,6 +90,16 @@ export default function DashboardHome({ business }: DashboardHomeProps) {
         })
         .reduce((sum: number, item: any) => sum + (item.amount || 0), 0);
 
+      const monthlyRevenueByTender = ((data.tender_data || []) as TenderDatum[])
+        .filter(item => {
+          const date = new Date(item.created_at);
+          return date >= startOfCurrentMonth && date <= endOfCurrentMonth;
+        })
+        .reduce((acc, item) => {
+          acc[item.method] = (acc[item.method] || 0) + (item.amount || 0);
+          return acc;
+        }, {} as Partial<Record<PaymentMethod, number>>);
+
       const revenueGrowth = lastMonthRevenue > 0 
         ? ((currentMonthRevenue - lastMonthRevenue) / lastMonthRevenue) * 100 
         : currentMonthRevenue > 0 ? 100 : 0;
@@ -89,12 +114,13 @@ export default function DashboardHome({ business }: DashboardHomeProps) {
         }).length,
         totalCustomers: data.customer_count || 0,
         revenueGrowth,
+        monthlyRevenueByTender,
       });
 
     } catch (error) {
       console.error('Error fetching dashboard stats:', error);
       // Fallback to zeroed stats on error
-      setStats({ totalRevenue: 0, monthlyRevenue: 0, totalTransactions: 0, monthlyTransactions: 0, totalCustomers: 0, revenueGrowth: 0 });
+      setStats({ totalRevenue: 0, monthlyRevenue: 0, totalTransactions: 0, monthlyTransactions: 0, totalCustomers: 0, revenueGrowth: 0, monthlyRevenueByTender: {} });
     } finally {
       setLoading(false);
     }
@@ -144,13 +170,20 @@ export default function DashboardHome({ business }: DashboardHomeProps) {
   return (
     <div>
       {/* Header */}
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-          Karibu, {profile?.full_name || 'User'}!
-        </h1>
-        <p className="text-gray-600 dark:text-gray-400">
-          Here's what's happening with {business.name} today.
-        </p>
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Karibu, {profile?.full_name || 'User'}!
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Here's what's happening with {business.name} today.
+          </p>
+        </div>
+        {hasMultipleBranches && (
+          <div className="w-full md:w-56">
+            <BranchSelect branches={activeBranches} value={branchId} onChange={setBranchId} emptyLabel="All branches" />
+          </div>
+        )}
       </div>
 
       {/* Stats Grid */}
@@ -194,6 +227,25 @@ export default function DashboardHome({ business }: DashboardHomeProps) {
         ))}
       </div>
 
+      {/* Sales revenue by tender */}
+      {Object.keys(stats.monthlyRevenueByTender).length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Monthly Sales by Tender
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {(Object.keys(stats.monthlyRevenueByTender) as PaymentMethod[]).map(method => (
+              <div key={method} className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{tenderLabels[method]}</p>
+                <p className="text-xl font-bold text-gray-900 dark:text-white mt-1">
+                  KSh {(stats.monthlyRevenueByTender[method] || 0).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Business Type Specific Content */}
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
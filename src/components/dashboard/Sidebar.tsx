@@ -12,6 +12,15 @@ import {
   AcademicCapIcon,
   BuildingOfficeIcon,
   CreditCardIcon,
+  TruckIcon,
+  ClipboardDocumentListIcon,
+  ClipboardDocumentCheckIcon,
+  UserGroupIcon,
+  TagIcon,
+  BanknotesIcon,
+  MapPinIcon,
+  ComputerDesktopIcon,
+  ArchiveBoxIcon,
 } from '@heroicons/react/24/outline';
 import { type Business, type BusinessType } from '../../lib/supabase';
 import BusinessSelector from './BusinessSelector';
@@ -27,14 +36,31 @@ const navigationMap: Record<BusinessType, Array<{ name: string; href: string; ic
   hardware: [
     { name: 'Dashboard', href: '', icon: HomeIcon, end: true },
     { name: 'Products', href: 'products', icon: CubeIcon },
+    { name: 'Stock Takes', href: 'stock-takes', icon: ClipboardDocumentCheckIcon },
+    { name: 'Purchase Orders', href: 'purchase-orders', icon: ClipboardDocumentListIcon },
+    { name: 'Suppliers', href: 'suppliers', icon: TruckIcon },
+    { name: 'Branches', href: 'branches', icon: MapPinIcon },
     { name: 'Sales', href: 'sales', icon: ShoppingCartIcon },
+    { name: 'POS', href: 'pos', icon: ComputerDesktopIcon },
+    { name: 'Layaways', href: 'layaways', icon: ArchiveBoxIcon },
+    { name: 'Cash Shifts', href: 'shifts', icon: BanknotesIcon },
+    { name: 'Customers', href: 'customers', icon: UserGroupIcon },
+    { name: 'Promotions', href: 'promotions', icon: TagIcon },
     { name: 'Reports', href: 'reports', icon: ChartBarIcon },
     { name: 'Settings', href: 'settings', icon: CogIcon },
   ],
   supermarket: [
     { name: 'Dashboard', href: '', icon: HomeIcon, end: true },
     { name: 'Products', href: 'products', icon: CubeIcon },
+    { name: 'Stock Takes', href: 'stock-takes', icon: ClipboardDocumentCheckIcon },
+    { name: 'Purchase Orders', href: 'purchase-orders', icon: ClipboardDocumentListIcon },
+    { name: 'Suppliers', href: 'suppliers', icon: TruckIcon },
+    { name: 'Branches', href: 'branches', icon: MapPinIcon },
     { name: 'Sales', href: 'sales', icon: ShoppingCartIcon },
+    { name: 'POS', href: 'pos', icon: ComputerDesktopIcon },
+    { name: 'Cash Shifts', href: 'shifts', icon: BanknotesIcon },
+    { name: 'Customers', href: 'customers', icon: UserGroupIcon },
+    { name: 'Promotions', href: 'promotions', icon: TagIcon },
     { name: 'Staff', href: 'staff', icon: UsersIcon },
     { name: 'Reports', href: 'reports', icon: ChartBarIcon },
     { name: 'Settings', href: 'settings', icon: CogIcon },
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../../../lib/supabase';
+import PageHeader from '../../PageHeader';
+import { Card, CardContent } from '../../ui/Card';
+import { Button } from '../../ui/Button';
+import { Input } from '../../ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../../ui/Table';
+import { format } from 'date-fns';
+import { Printer } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+interface AgedDebtorsReportProps {
+  businessId: string;
+}
+
+interface AgedDebtor {
+  customer_id: string;
+  name: string | null;
+  phone: string;
+  credit_limit: number;
+  balance: number;
+  days_0_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+}
+
+type AgeBucket = 'days_0_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+const ageBuckets: { key: AgeBucket; label: string }[] = [
+  { key: 'days_0_30', label: '0-30 days' },
+  { key: 'days_31_60', label: '31-60 days' },
+  { key: 'days_61_90', label: '61-90 days' },
+  { key: 'days_over_90', label: '90+ days' },
+];
+
+export default function AgedDebtorsReport({ businessId }: AgedDebtorsReportProps) {
+  const [asOf, setAsOf] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [debtors, setDebtors] = useState<AgedDebtor[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDebtors = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_aged_debtors', { p_business_id: businessId, p_as_of: asOf });
+      if (error) throw error;
+      // Customers in credit are not debtors
+      setDebtors((data as AgedDebtor[] || []).filter(debtor => debtor.balance > 0));
+    } catch (error) {
+      console.error('Error fetching aged debtors:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, asOf]);
+
+  useEffect(() => {
+    fetchDebtors();
+  }, [fetchDebtors]);
+
+  const totals = ageBuckets.reduce((acc, bucket) => {
+    acc[bucket.key] = debtors.reduce((sum, debtor) => sum + debtor[bucket.key], 0);
+    return acc;
+  }, {} as Record<AgeBucket, number>);
+  const totalOutstanding = debtors.reduce((acc, debtor) => acc + debtor.balance, 0);
+
+  const printReport = () => {
+    const doc = new jsPDF();
+    doc.text(`Aged Debtors as of ${asOf}`, 14, 16);
+
+    doc.autoTable({
+      head: [["Customer", "Phone", ...ageBuckets.map(b => b.label), "Balance"]],
+      body: [
+        ...debtors.map(debtor => [
+          debtor.name || 'Unnamed',
+          debtor.phone,
+          ...ageBuckets.map(b => debtor[b.key].toLocaleString()),
+          debtor.balance.toLocaleString(),
+        ]),
+        ['Total', '', ...ageBuckets.map(b => totals[b.key].toLocaleString()), totalOutstanding.toLocaleString()],
+      ],
+      startY: 20,
+    });
+
+    doc.save(`aged_debtors_${asOf}.pdf`);
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Aged Debtors"
+        subtitle="What customers owe on account, by how long it has been outstanding."
+        actions={
+          <Button icon={<Printer />} onClick={printReport} disabled={debtors.length === 0}>
+            Print Report
+          </Button>
+        }
+      />
+      <div className="flex items-center gap-4 mb-6">
+        <span className="text-sm text-gray-500 dark:text-gray-400">As of</span>
+        <div className="w-44"><Input type="date" value={asOf} onChange={(e) => e.target.value && setAsOf(e.target.value)} /></div>
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+        {ageBuckets.map(bucket => (
+          <Card key={bucket.key}>
+            <CardContent>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{bucket.label}</p>
+              <p className="text-xl font-bold text-gray-900 dark:text-white mt-1">KSh {totals[bucket.key].toLocaleString()}</p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardContent>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total Outstanding</p>
+            <p className="text-xl font-bold text-gray-900 dark:text-white mt-1">KSh {totalOutstanding.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      </div>
+      <Card>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Generating aged debtors report...</div>
+          ) : debtors.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No Outstanding Balances</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">No customer owes anything on account.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Customer</TableHead>
+                {ageBuckets.map(bucket => <TableHead key={bucket.key}>{bucket.label}</TableHead>)}
+                <TableHead>Balance</TableHead>
+                <TableHead>Credit Limit</TableHead>
+              </TableHeader>
+              <TableBody>
+                {debtors.map(debtor => (
+                  <TableRow key={debtor.customer_id}>
+                    <TableCell>
+                      <div className="font-medium">{debtor.name || 'Unnamed'}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{debtor.phone}</div>
+                    </TableCell>
+                    {ageBuckets.map(bucket => (
+                      <TableCell key={bucket.key} className={bucket.key === 'days_over_90' && debtor[bucket.key] > 0 ? 'text-red-600 dark:text-red-400' : undefined}>
+                        KSh {debtor[bucket.key].toLocaleString()}
+                      </TableCell>
+                    ))}
+                    <TableCell className="font-medium">KSh {debtor.balance.toLocaleString()}</TableCell>
+                    <TableCell>KSh {debtor.credit_limit.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../../../lib/supabase';
+import PageHeader from '../../PageHeader';
+import { Card, CardContent, CardHeader } from '../../ui/Card';
+import { Button } from '../../ui/Button';
+import { Input } from '../../ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../../ui/Table';
+import { format, parseISO, subDays } from 'date-fns';
+import { Printer } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+interface CustomerReportProps {
+  businessId: string;
+}
+
+interface CustomerDemographics {
+  summary: {
+    sales_count: number;
+    revenue: number;
+    items: number;
+    identified_sales: number;
+    customers: number;
+    repeat_customers: number;
+    new_customers: number;
+  };
+  top_customers: {
+    id: string;
+    name: string | null;
+    phone: string;
+    visits: number;
+    spend: number;
+    first_visit: string;
+  }[];
+  weekly: {
+    week: string;
+    new_customers: number;
+    returning_customers: number;
+    anonymous_sales: number;
+  }[];
+}
+
+const emptyDemographics: CustomerDemographics = {
+  summary: { sales_count: 0, revenue: 0, items: 0, identified_sales: 0, customers: 0, repeat_customers: 0, new_customers: 0 },
+  top_customers: [],
+  weekly: [],
+};
+
+const percent = (part: number, whole: number) => (whole === 0 ? 0 : (part / whole) * 100);
+
+export default function CustomerReport({ businessId }: CustomerReportProps) {
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 89), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [report, setReport] = useState<CustomerDemographics>(emptyDemographics);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_customer_demographics', {
+        p_business_id: businessId,
+        p_start: startDate,
+        p_end: endDate,
+      });
+      if (error) throw error;
+      setReport(data as CustomerDemographics || emptyDemographics);
+    } catch (error) {
+      console.error('Error fetching customer report data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, startDate, endDate]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const { summary, top_customers: topCustomers, weekly } = report;
+  const repeatRate = percent(summary.repeat_customers, summary.customers);
+  const averageBasket = summary.sales_count === 0 ? 0 : summary.revenue / summary.sales_count;
+  const averageItems = summary.sales_count === 0 ? 0 : summary.items / summary.sales_count;
+  const weeklyMax = Math.max(...weekly.map(w => w.new_customers + w.returning_customers), 1);
+
+  const printReport = () => {
+    const doc = new jsPDF();
+    doc.text(`Customer Demographics (${startDate} to ${endDate})`, 14, 16);
+
+    doc.autoTable({
+      head: [["Metric", "Value"]],
+      body: [
+        ["Customers", summary.customers],
+        ["New customers", summary.new_customers],
+        ["Repeat-visit rate", `${repeatRate.toFixed(1)}%`],
+        ["Average basket (KSh)", averageBasket.toFixed(2)],
+        ["Average items per sale", averageItems.toFixed(1)],
+        ["Sales with a customer", `${summary.identified_sales} of ${summary.sales_count}`],
+      ],
+      startY: 20,
+    });
+
+    doc.autoTable({
+      head: [["Customer", "Phone", "Visits", "Spend (KSh)"]],
+      body: topCustomers.map(c => [c.name || 'Unnamed', c.phone, c.visits, c.spend.toLocaleString()]),
+    });
+
+    doc.save(`customer_report_${new Date().toISOString().split('T')[0]}.pdf`);
+  };
+
+  const stats = [
+    { label: 'Customers', value: summary.customers.toLocaleString(), detail: `${summary.new_customers} new in this period` },
+    { label: 'Repeat-Visit Rate', value: `${repeatRate.toFixed(1)}%`, detail: `${summary.repeat_customers} bought more than once` },
+    { label: 'Average Basket', value: `KSh ${averageBasket.toLocaleString(undefined, { maximumFractionDigits: 2 })}`, detail: `${averageItems.toFixed(1)} items per sale` },
+    { label: 'Identified Sales', value: `${percent(summary.identified_sales, summary.sales_count).toFixed(1)}%`, detail: `${summary.identified_sales} of ${summary.sales_count} sales` },
+  ];
+
+  return (
+    <div>
+      <PageHeader
+        title="Customer Demographics"
+        subtitle="Who buys from you, how often they come back and what they spend."
+        actions={
+          <Button icon={<Printer />} onClick={printReport} disabled={summary.sales_count === 0}>
+            Print Report
+          </Button>
+        }
+      />
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="w-44"><Input type="date" value={startDate} max={endDate} onChange={(e) => e.target.value && setStartDate(e.target.value)} /></div>
+        <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+        <div className="w-44"><Input type="date" value={endDate} min={startDate} onChange={(e) => e.target.value && setEndDate(e.target.value)} /></div>
+      </div>
+      {loading ? (
+        <div className="text-center py-12">Generating customer report...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            {stats.map(stat => (
+              <Card key={stat.label}>
+                <CardContent>
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{stat.label}</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{stat.value}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{stat.detail}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <h3 className="font-medium text-gray-900 dark:text-white">New vs Returning by Week</h3>
+              </CardHeader>
+              <CardContent>
+                {weekly.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">No sales in this period.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {weekly.map(week => (
+                      <div key={week.week} className="flex items-center space-x-2 text-sm">
+                        <span className="w-20 shrink-0 text-gray-500 dark:text-gray-400">{format(parseISO(week.week), 'dd MMM')}</span>
+                        <div className="flex-1 flex h-4 rounded overflow-hidden bg-gray-100 dark:bg-gray-700">
+                          <div className="bg-primary-500" style={{ width: `${(week.new_customers / weeklyMax) * 100}%` }} title={`${week.new_customers} new`} />
+                          <div className="bg-green-500" style={{ width: `${(week.returning_customers / weeklyMax) * 100}%` }} title={`${week.returning_customers} returning`} />
+                        </div>
+                        <span className="w-16 shrink-0 text-right">{week.new_customers} / {week.returning_customers}</span>
+                      </div>
+                    ))}
+                    <div className="flex items-center space-x-4 text-xs text-gray-500 dark:text-gray-400 pt-2">
+                      <span className="flex items-center"><span className="inline-block h-3 w-3 rounded-sm bg-primary-500 mr-1" />New</span>
+                      <span className="flex items-center"><span className="inline-block h-3 w-3 rounded-sm bg-green-500 mr-1" />Returning</span>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <h3 className="font-medium text-gray-900 dark:text-white">Top Customers by Spend</h3>
+              </CardHeader>
+              <CardContent>
+                {topCustomers.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">No sales were linked to a customer in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Visits</TableHead>
+                      <TableHead>Spend</TableHead>
+                    </TableHeader>
+                    <TableBody>
+                      {topCustomers.map(customer => (
+                        <TableRow key={customer.id}>
+                          <TableCell>
+                            <div className="font-medium">{customer.name || 'Unnamed'}</div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{customer.phone} · since {format(new Date(customer.first_visit), 'MMM yyyy')}</div>
+                          </TableCell>
+                          <TableCell>{customer.visits}</TableCell>
+                          <TableCell>KSh {customer.spend.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
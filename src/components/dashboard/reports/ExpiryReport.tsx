@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../../../lib/supabase';
+import { useStaffRole } from '../../../hooks/useStaffRole';
+import PageHeader from '../../PageHeader';
+import { Card, CardContent } from '../../ui/Card';
+import { Button } from '../../ui/Button';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../../ui/Table';
+import { Badge } from '../../ui/Badge';
+import { format } from 'date-fns';
+import { Printer, Trash2 } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+interface ExpiryReportProps {
+  businessId: string;
+  // Empty covers every branch
+  branchId?: string;
+}
+
+interface ExpiringBatch {
+  batch_id: string;
+  product_id: string;
+  product_name: string;
+  sku: string | null;
+  category: string | null;
+  unit: string;
+  branch_name: string | null;
+  batch_number: string | null;
+  expiry_date: string;
+  days_to_expiry: number;
+  quantity_remaining: number;
+  buying_price: number | null;
+  selling_price: number;
+}
+
+type ExpiryBucket = 'expired' | 'week' | 'month' | 'later';
+
+const expiryBuckets: { key: ExpiryBucket; label: string }[] = [
+  { key: 'expired', label: 'Expired' },
+  { key: 'week', label: 'Within 7 days' },
+  { key: 'month', label: 'Within 30 days' },
+  { key: 'later', label: 'Later' },
+];
+
+const horizons = [7, 14, 30, 60, 90];
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+const bucketFor = (days: number): ExpiryBucket => days < 0 ? 'expired' : days <= 7 ? 'week' : days <= 30 ? 'month' : 'later';
+
+const expiryText = (days: number) =>
+  days < 0 ? `Expired ${-days} day(s) ago` : days === 0 ? 'Expires today' : `${days} day(s) left`;
+
+export default function ExpiryReport({ businessId, branchId }: ExpiryReportProps) {
+  const { isManager } = useStaffRole(businessId);
+  const [horizon, setHorizon] = useState(30);
+  const [batches, setBatches] = useState<ExpiringBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [writingOff, setWritingOff] = useState<string | null>(null);
+
+  const fetchBatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_expiring_batches', { p_business_id: businessId, p_days: horizon, p_branch_id: branchId || null });
+      if (error) throw error;
+      setBatches(data as ExpiringBatch[] || []);
+    } catch (error) {
+      console.error('Error fetching expiring batches:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, branchId, horizon]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  const handleWriteOff = async (batch: ExpiringBatch) => {
+    if (!window.confirm(`Write off ${batch.quantity_remaining} ${batch.unit}(s) of ${batch.product_name}${batch.batch_number ? ` (batch ${batch.batch_number})` : ''} as expired?`)) return;
+
+    setWritingOff(batch.batch_id);
+    try {
+      const { error } = await supabase.rpc('write_off_batch', { p_batch_id: batch.batch_id });
+      if (error) throw error;
+      setBatches(prev => prev.filter(b => b.batch_id !== batch.batch_id));
+    } catch (error) {
+      console.error('Error writing off batch:', error);
+      alert(`Failed to write off batch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setWritingOff(null);
+    }
+  };
+
+  const totals = expiryBuckets.reduce((acc, bucket) => {
+    const inBucket = batches.filter(b => bucketFor(b.days_to_expiry) === bucket.key);
+    acc[bucket.key] = {
+      cost: inBucket.reduce((sum, b) => sum + b.quantity_remaining * (b.buying_price || 0), 0),
+      retail: inBucket.reduce((sum, b) => sum + b.quantity_remaining * b.selling_price, 0),
+    };
+    return acc;
+  }, {} as Record<ExpiryBucket, { cost: number; retail: number }>);
+
+  const printReport = () => {
+    const doc = new jsPDF();
+    doc.text(`Expiring Stock - next ${horizon} days, as of ${format(new Date(), 'dd MMM yyyy')}`, 14, 16);
+
+    doc.autoTable({
+      head: [["Product", "Batch", "Expiry", "Status", "Quantity", "Value at Cost", "Value at Retail"]],
+      body: batches.map(batch => [
+        batch.product_name,
+        batch.batch_number || '-',
+        format(new Date(batch.expiry_date), 'dd MMM yyyy'),
+        expiryText(batch.days_to_expiry),
+        `${batch.quantity_remaining} ${batch.unit}(s)`,
+        (batch.quantity_remaining * (batch.buying_price || 0)).toLocaleString(),
+        (batch.quantity_remaining * batch.selling_price).toLocaleString(),
+      ]),
+      startY: 20,
+    });
+
+    doc.autoTable({
+      head: [["", "Value at Cost", "Value at Retail"]],
+      body: expiryBuckets
+        .filter(bucket => bucket.key !== 'later' || horizon > 30)
+        .map(bucket => [bucket.label, totals[bucket.key].cost.toLocaleString(), totals[bucket.key].retail.toLocaleString()]),
+    });
+
+    doc.save(`expiring_stock_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Expiring Stock"
+        subtitle="Batches that have expired or expire soon, with the stock value at risk."
+        actions={
+          <Button icon={<Printer />} onClick={printReport} disabled={batches.length === 0}>
+            Print Report
+          </Button>
+        }
+      />
+      <div className="flex items-center gap-4 mb-6">
+        <span className="text-sm text-gray-500 dark:text-gray-400">Expiring within</span>
+        <div className="w-44">
+          <select value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} className={selectClasses}>
+            {horizons.map(days => <option key={days} value={days}>{days} days</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {expiryBuckets.filter(bucket => bucket.key !== 'later' || horizon > 30).map(bucket => (
+          <Card key={bucket.key}>
+            <CardContent>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{bucket.label}</p>
+              <p className={`text-xl font-bold mt-1 ${bucket.key === 'expired' && totals.expired.cost > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                KSh {totals[bucket.key].cost.toLocaleString()}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">at cost, KSh {totals[bucket.key].retail.toLocaleString()} at retail</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <Card>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Generating expiry report...</div>
+          ) : batches.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Nothing Expiring</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">No batch in stock expires within {horizon} days.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Product</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead>Quantity</TableHead>
+                <TableHead>Value at Cost</TableHead>
+                {isManager && <TableHead><span className="sr-only">Write off</span></TableHead>}
+              </TableHeader>
+              <TableBody>
+                {batches.map(batch => (
+                  <TableRow key={batch.batch_id}>
+                    <TableCell>
+                      <div className="font-medium">{batch.product_name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{batch.sku || batch.category || ''}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{batch.batch_number || '-'}</div>
+                      {!branchId && batch.branch_name && <div className="text-xs text-gray-500 dark:text-gray-400">{batch.branch_name}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div>{format(new Date(batch.expiry_date), 'dd MMM yyyy')}</div>
+                      <Badge variant={batch.days_to_expiry < 0 ? 'danger' : batch.days_to_expiry <= 7 ? 'warning' : 'default'}>
+                        {expiryText(batch.days_to_expiry)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{batch.quantity_remaining} {batch.unit}(s)</TableCell>
+                    <TableCell>KSh {(batch.quantity_remaining * (batch.buying_price || 0)).toLocaleString()}</TableCell>
+                    {isManager && (
+                      <TableCell className="text-right">
+                        {batch.days_to_expiry < 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={<Trash2 className="h-4 w-4" />}
+                            onClick={() => handleWriteOff(batch)}
+                            disabled={writingOff === batch.batch_id}
+                          >
+                            {writingOff === batch.batch_id ? 'Writing off...' : 'Write Off'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
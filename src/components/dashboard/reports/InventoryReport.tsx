@@ -1,16 +1,28 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { supabase, type Product } from '../../../lib/supabase';
+import { fetchIncomingStock, fetchReorderSuggestions, type ReorderSuggestion } from '../../../lib/purchasing';
+import { fetchBranchStock } from '../../../lib/branches';
+import { StockHistoryModal } from '../../inventory/StockHistoryModal';
 import PageHeader from '../../PageHeader';
 import { Card, CardContent } from '../../ui/Card';
 import { Button } from '../../ui/Button';
 import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../../ui/Table';
 import { Badge } from '../../ui/Badge';
-import { Printer } from 'lucide-react';
+import { Printer, History, AlertTriangle } from 'lucide-react';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 
 interface InventoryReportProps {
   businessId: string;
+  // Empty shows stock across every branch
+  branchId?: string;
+}
+
+interface StockDiscrepancy {
+  product_id: string;
+  name: string;
+  stock_quantity: number;
+  ledger_quantity: number;
 }
 
 declare module 'jspdf' {
@@ -19,8 +31,12 @@ declare module 'jspdf' {
   }
 }
 
-export default function InventoryReport({ businessId }: InventoryReportProps) {
+export default function InventoryReport({ businessId, branchId }: InventoryReportProps) {
   const [products, setProducts] = useState<Product[]>([]);
+  const [incomingStock, setIncomingStock] = useState<Record<string, number>>({});
+  const [velocity, setVelocity] = useState<Record<string, ReorderSuggestion>>({});
+  const [discrepancies, setDiscrepancies] = useState<StockDiscrepancy[]>([]);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
 
   const fetchProducts = useCallback(async () => {
@@ -30,41 +46,68 @@ export default function InventoryReport({ businessId }: InventoryReportProps) {
         .from('products')
         .select('*')
         .eq('business_id', businessId)
+        .eq('is_bundle', false)
         .order('name', { ascending: true });
 
       if (error) throw error;
-      setProducts(data || []);
+      if (branchId) {
+        // Sales rates and incoming orders are business-wide, so a single branch is judged on its minimum level
+        const branchStock = await fetchBranchStock(branchId);
+        setProducts((data || []).map(product => ({ ...product, stock_quantity: branchStock[product.id] ?? 0 })));
+        setIncomingStock({});
+        setVelocity({});
+      } else {
+        setProducts(data || []);
+        setIncomingStock(await fetchIncomingStock(businessId));
+        const suggestions = await fetchReorderSuggestions(businessId);
+        setVelocity(Object.fromEntries(suggestions.map(row => [row.product_id, row])));
+      }
+
+      const { data: discrepancyData, error: discrepancyError } = await supabase.rpc('get_stock_discrepancies', { p_business_id: businessId });
+      if (discrepancyError) throw discrepancyError;
+      setDiscrepancies(discrepancyData as StockDiscrepancy[] || []);
     } catch (error) {
       console.error('Error fetching inventory report data:', error);
     } finally {
       setLoading(false);
     }
-  }, [businessId]);
+  }, [businessId, branchId]);
 
   useEffect(() => {
     fetchProducts();
   }, [fetchProducts]);
 
-  const getStockStatus = (stock: number, minStock: number): { text: string; variant: 'success' | 'warning' | 'danger' } => {
+  // Products that sell are flagged from their sales rate; the manual minimum is a fallback for the rest
+  const getStockStatus = (product: Product): { text: string; variant: 'success' | 'warning' | 'danger' } => {
+    const stock = product.stock_quantity;
     if (stock <= 0) return { text: 'Out of Stock', variant: 'danger' };
-    if (stock <= minStock) return { text: 'Low Stock', variant: 'warning' };
+    if ((velocity[product.id]?.suggested_quantity ?? 0) > 0) return { text: 'Reorder', variant: 'warning' };
+    if (!velocity[product.id]?.avg_daily_sales && stock <= product.min_stock_level) return { text: 'Low Stock', variant: 'warning' };
     return { text: 'In Stock', variant: 'success' };
   };
 
+  // Negative stock carries no value; products without a buying price are counted separately
+  const valuedProducts = products.filter(p => p.stock_quantity > 0);
+  const valueAtCost = valuedProducts.reduce((acc, p) => acc + p.stock_quantity * (p.buying_price || 0), 0);
+  const valueAtRetail = valuedProducts.reduce((acc, p) => acc + p.stock_quantity * p.selling_price, 0);
+  const uncostedProducts = valuedProducts.filter(p => p.buying_price == null).length;
+
   const printReport = () => {
     const doc = new jsPDF();
     doc.text("Inventory Summary Report", 14, 16);
     
-    const tableColumn = ["Product Name", "Category", "Stock Quantity", "Unit", "Status"];
+    const tableColumn = ["Product Name", "Category", "Stock Quantity", "Incoming", "Unit", "Days of Cover", "Status"];
     const tableRows: (string | number)[][] = [];
 
     products.forEach(product => {
-      const status = getStockStatus(product.stock_quantity, product.min_stock_level);
+      const status = getStockStatus(product);
       const productData = [
         product.name,
         product.category || 'N/A',
         product.stock_quantity,
+        incomingStock[product.id] || 0,
         product.unit,
+        velocity[product.id]?.days_of_cover ?? '-',
         status.text,
       ];
       tableRows.push(productData);
@@ -75,6 +118,15 @@ export default function InventoryReport({ businessId }: InventoryReportProps) {
       body: tableRows,
       startY: 20,
     });
+
+    doc.autoTable({
+      head: [["Stock Valuation", "KSh"]],
+      body: [
+        ["At cost", valueAtCost.toLocaleString()],
+        ["At retail", valueAtRetail.toLocaleString()],
+        ["Potential margin", (valueAtRetail - valueAtCost).toLocaleString()],
+      ],
+    });
     
     doc.save(`inventory_report_${new Date().toISOString().split('T')[0]}.pdf`);
   };
@@ -94,6 +146,45 @@ export default function InventoryReport({ businessId }: InventoryReportProps) {
           </Button>
         }
       />
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Stock Value at Cost</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">KSh {valueAtCost.toLocaleString()}</p>
+            {uncostedProducts > 0 && <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">{uncostedProducts} product(s) have no buying price</p>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Stock Value at Retail</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">KSh {valueAtRetail.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Potential Margin</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">KSh {(valueAtRetail - valueAtCost).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      </div>
+      {discrepancies.length > 0 && (
+        <Card className="mb-6 border-red-200 dark:border-red-800">
+          <CardContent>
+            <div className="flex items-center space-x-2 text-red-700 dark:text-red-400 mb-3">
+              <AlertTriangle className="h-5 w-5" />
+              <h3 className="font-medium">Stock does not match the movement ledger</h3>
+            </div>
+            <div className="space-y-2">
+              {discrepancies.map(d => (
+                <div key={d.product_id} className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg flex justify-between text-sm">
+                  <span className="font-medium">{d.name}</span>
+                  <span>On hand {d.stock_quantity}, ledger {d.ledger_quantity}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
       <Card>
         <CardContent>
           {products.length === 0 ? (
@@ -107,12 +198,15 @@ export default function InventoryReport({ businessId }: InventoryReportProps) {
                 <TableHead>Product Name</TableHead>
                 <TableHead>Category</TableHead>
                 <TableHead>Stock Quantity</TableHead>
+                <TableHead>Incoming</TableHead>
+                <TableHead>Days of Cover</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Selling Price</TableHead>
+                <TableHead><span className="sr-only">History</span></TableHead>
               </TableHeader>
               <TableBody>
                 {products.map((product) => {
-                  const status = getStockStatus(product.stock_quantity, product.min_stock_level);
+                  const status = getStockStatus(product);
                   return (
                     <TableRow key={product.id}>
                       <TableCell>
@@ -120,8 +214,15 @@ export default function InventoryReport({ businessId }: InventoryReportProps) {
                       </TableCell>
                       <TableCell>{product.category || 'N/A'}</TableCell>
                       <TableCell>{product.stock_quantity} {product.unit}(s)</TableCell>
+                      <TableCell>{incomingStock[product.id] || 0} {product.unit}(s)</TableCell>
+                      <TableCell>{velocity[product.id]?.days_of_cover ?? '-'}</TableCell>
                       <TableCell><Badge variant={status.variant}>{status.text}</Badge></TableCell>
                       <TableCell>KSh {product.selling_price.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" icon={<History className="h-4 w-4" />} onClick={() => setHistoryProduct(product)}>
+                          History
+                        </Button>
+                      </TableCell>
                     </TableRow>
                   );
                 })}
@@ -130,6 +231,8 @@ export default function InventoryReport({ businessId }: InventoryReportProps) {
           )}
         </CardContent>
       </Card>
+
+      <StockHistoryModal product={historyProduct} onClose={() => setHistoryProduct(null)} />
     </div>
   );
 }
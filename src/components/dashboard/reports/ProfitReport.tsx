@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../../../lib/supabase';
+import PageHeader from '../../PageHeader';
+import { Card, CardContent } from '../../ui/Card';
+import { Button } from '../../ui/Button';
+import { Input } from '../../ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../../ui/Table';
+import { format, parseISO, subDays } from 'date-fns';
+import { Printer, AlertTriangle } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+interface ProfitReportProps {
+  businessId: string;
+  // Empty covers every branch
+  branchId?: string;
+}
+
+interface GrossProfitRow {
+  day: string;
+  product_id: string;
+  product_name: string;
+  category: string | null;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  uncosted_quantity: number | null;
+}
+
+type GroupBy = 'product' | 'category' | 'day';
+
+interface ProfitLine {
+  key: string;
+  label: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+}
+
+const groupByLabels: Record<GroupBy, string> = {
+  product: 'Product',
+  category: 'Category',
+  day: 'Day',
+};
+
+const marginPercent = (revenue: number, cost: number) => (revenue === 0 ? 0 : ((revenue - cost) / revenue) * 100);
+
+export default function ProfitReport({ businessId, branchId }: ProfitReportProps) {
+  const [rows, setRows] = useState<GrossProfitRow[]>([]);
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [groupBy, setGroupBy] = useState<GroupBy>('product');
+  const [loading, setLoading] = useState(true);
+
+  const fetchProfit = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_gross_profit', {
+        p_business_id: businessId,
+        p_branch_id: branchId || null,
+        p_start: startDate,
+        p_end: endDate,
+      });
+      if (error) throw error;
+      setRows(data as GrossProfitRow[] || []);
+    } catch (error) {
+      console.error('Error fetching gross profit report data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, branchId, startDate, endDate]);
+
+  useEffect(() => {
+    fetchProfit();
+  }, [fetchProfit]);
+
+  const lines: ProfitLine[] = Object.values(
+    rows.reduce((acc, row) => {
+      const key = groupBy === 'product' ? row.product_id : groupBy === 'category' ? row.category || 'Uncategorised' : row.day;
+      const label = groupBy === 'product' ? row.product_name : groupBy === 'category' ? key : format(parseISO(row.day), 'dd MMM yyyy');
+      acc[key] = acc[key] || { key, label, quantity: 0, revenue: 0, cost: 0 };
+      acc[key].quantity += row.quantity;
+      acc[key].revenue += row.revenue;
+      acc[key].cost += row.cost;
+      return acc;
+    }, {} as Record<string, ProfitLine>)
+  ).sort((a, b) => (groupBy === 'day' ? a.key.localeCompare(b.key) : (b.revenue - b.cost) - (a.revenue - a.cost)));
+
+  const totalRevenue = rows.reduce((acc, row) => acc + row.revenue, 0);
+  const totalCost = rows.reduce((acc, row) => acc + row.cost, 0);
+  const grossProfit = totalRevenue - totalCost;
+  const uncostedQuantity = rows.reduce((acc, row) => acc + (row.uncosted_quantity || 0), 0);
+
+  const printReport = () => {
+    const doc = new jsPDF();
+    doc.text(`Gross Profit by ${groupByLabels[groupBy]} (${startDate} to ${endDate})`, 14, 16);
+
+    const tableColumn = [groupByLabels[groupBy], "Qty", "Revenue (KSh)", "Cost (KSh)", "Profit (KSh)", "Margin"];
+    const tableRows: (string | number)[][] = lines.map(line => [
+      line.label,
+      line.quantity,
+      line.revenue.toLocaleString(),
+      line.cost.toLocaleString(),
+      (line.revenue - line.cost).toLocaleString(),
+      `${marginPercent(line.revenue, line.cost).toFixed(1)}%`,
+    ]);
+    tableRows.push(['Total', '', totalRevenue.toLocaleString(), totalCost.toLocaleString(), grossProfit.toLocaleString(), `${marginPercent(totalRevenue, totalCost).toFixed(1)}%`]);
+
+    doc.autoTable({
+      head: [tableColumn],
+      body: tableRows,
+      startY: 20,
+    });
+
+    doc.save(`profit_report_${new Date().toISOString().split('T')[0]}.pdf`);
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Gross Profit Report"
+        subtitle="Profit and margin using the buying price recorded at the time of each sale."
+        actions={
+          <Button icon={<Printer />} onClick={printReport} disabled={lines.length === 0}>
+            Print Report
+          </Button>
+        }
+      />
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="w-44"><Input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} /></div>
+        <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+        <div className="w-44"><Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} /></div>
+        <div className="flex space-x-2">
+          {(Object.keys(groupByLabels) as GroupBy[]).map(option => (
+            <Button key={option} size="sm" variant={groupBy === option ? 'primary' : 'secondary'} onClick={() => setGroupBy(option)}>
+              By {groupByLabels[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: 'Revenue', value: `KSh ${totalRevenue.toLocaleString()}` },
+          { label: 'Cost of Goods Sold', value: `KSh ${totalCost.toLocaleString()}` },
+          { label: 'Gross Profit', value: `KSh ${grossProfit.toLocaleString()}` },
+          { label: 'Gross Margin', value: `${marginPercent(totalRevenue, totalCost).toFixed(1)}%` },
+        ].map(stat => (
+          <Card key={stat.label}>
+            <CardContent>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{stat.label}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      {uncostedQuantity > 0 && (
+        <div className="flex items-center space-x-2 text-sm text-yellow-700 dark:text-yellow-400 mb-4">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{uncostedQuantity} unit(s) were sold without a buying price and are counted at zero cost.</span>
+        </div>
+      )}
+      <Card>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Generating profit report...</div>
+          ) : lines.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No Sales Data</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">There are no sales in this period.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>{groupByLabels[groupBy]}</TableHead>
+                <TableHead>Qty Sold</TableHead>
+                <TableHead>Revenue</TableHead>
+                <TableHead>Cost</TableHead>
+                <TableHead>Gross Profit</TableHead>
+                <TableHead>Margin</TableHead>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => {
+                  const profit = line.revenue - line.cost;
+                  return (
+                    <TableRow key={line.key}>
+                      <TableCell><div className="font-medium">{line.label}</div></TableCell>
+                      <TableCell>{line.quantity}</TableCell>
+                      <TableCell>KSh {line.revenue.toLocaleString()}</TableCell>
+                      <TableCell>KSh {line.cost.toLocaleString()}</TableCell>
+                      <TableCell className={profit < 0 ? 'text-red-600 dark:text-red-400' : undefined}>KSh {profit.toLocaleString()}</TableCell>
+                      <TableCell>{marginPercent(line.revenue, line.cost).toFixed(1)}%</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
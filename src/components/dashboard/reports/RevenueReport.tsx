@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../../../lib/supabase';
+import { downloadCsv } from '../../../lib/csv';
+import PageHeader from '../../PageHeader';
+import { Card, CardContent } from '../../ui/Card';
+import { Button } from '../../ui/Button';
+import { Input } from '../../ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../../ui/Table';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { Printer, Download } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+interface RevenueReportProps {
+  businessId: string;
+  // Empty covers every branch; a single branch has only sales revenue
+  branchId?: string;
+}
+
+type Bucket = 'day' | 'week' | 'month';
+
+interface RevenuePoint {
+  bucket: string;
+  sales_revenue: number;
+  rent_revenue: number;
+  fee_revenue: number;
+  booking_revenue: number;
+}
+
+type RevenueSource = Exclude<keyof RevenuePoint, 'bucket'>;
+
+const bucketLabels: Record<Bucket, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+const sourceLabels: Record<RevenueSource, string> = {
+  sales_revenue: 'Sales',
+  rent_revenue: 'Rent',
+  fee_revenue: 'Fees',
+  booking_revenue: 'Bookings',
+};
+
+const pointTotal = (point: RevenuePoint) =>
+  point.sales_revenue + point.rent_revenue + point.fee_revenue + point.booking_revenue;
+
+const percentChange = (current: number, previous: number) =>
+  previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null;
+
+const formatChange = (change: number | null) =>
+  change === null ? 'N/A' : `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
+
+export default function RevenueReport({ businessId, branchId }: RevenueReportProps) {
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [bucket, setBucket] = useState<Bucket>('day');
+  const [current, setCurrent] = useState<RevenuePoint[]>([]);
+  const [previous, setPrevious] = useState<RevenuePoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // The comparison period is the same number of days immediately before the selected range
+  const periodDays = differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1;
+  const previousEnd = format(subDays(parseISO(startDate), 1), 'yyyy-MM-dd');
+  const previousStart = format(subDays(parseISO(startDate), periodDays), 'yyyy-MM-dd');
+
+  const fetchRevenue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [currentResult, previousResult] = await Promise.all([
+        supabase.rpc('get_revenue_series', { p_business_id: businessId, p_start: startDate, p_end: endDate, p_bucket: bucket, p_branch_id: branchId || null }),
+        supabase.rpc('get_revenue_series', { p_business_id: businessId, p_start: previousStart, p_end: previousEnd, p_bucket: bucket, p_branch_id: branchId || null }),
+      ]);
+      if (currentResult.error) throw currentResult.error;
+      if (previousResult.error) throw previousResult.error;
+      setCurrent(currentResult.data as RevenuePoint[] || []);
+      setPrevious(previousResult.data as RevenuePoint[] || []);
+    } catch (error) {
+      console.error('Error fetching revenue report data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, branchId, startDate, endDate, previousStart, previousEnd, bucket]);
+
+  useEffect(() => {
+    fetchRevenue();
+  }, [fetchRevenue]);
+
+  const bucketLabel = (point: RevenuePoint) => {
+    const date = parseISO(point.bucket);
+    if (bucket === 'month') return format(date, 'MMM yyyy');
+    if (bucket === 'week') return `Week of ${format(date, 'dd MMM')}`;
+    return format(date, 'dd MMM');
+  };
+
+  const activeSources = (Object.keys(sourceLabels) as RevenueSource[]).filter(source =>
+    [...current, ...previous].some(point => point[source] !== 0)
+  );
+  const currentTotal = current.reduce((acc, point) => acc + pointTotal(point), 0);
+  const previousTotal = previous.reduce((acc, point) => acc + pointTotal(point), 0);
+  const chartMax = Math.max(...current.map(pointTotal), ...previous.map(pointTotal), 1);
+
+  // Buckets are compared by position, so the first day or week of each period line up
+  const rows = current.map((point, index) => {
+    const total = pointTotal(point);
+    const previousPoint = previous[index];
+    const previousValue = previousPoint ? pointTotal(previousPoint) : 0;
+    return { point, label: bucketLabel(point), total, previousValue, change: percentChange(total, previousValue) };
+  });
+
+  const exportHeader = ['Period', ...activeSources.map(source => sourceLabels[source]), 'Total', 'Previous Period', 'Change'];
+  const exportRows = rows.map(row => [
+    row.label,
+    ...activeSources.map(source => row.point[source]),
+    row.total,
+    row.previousValue,
+    formatChange(row.change),
+  ]);
+  const exportTotals = ['Total', ...activeSources.map(() => ''), currentTotal, previousTotal, formatChange(percentChange(currentTotal, previousTotal))];
+
+  const printReport = () => {
+    const doc = new jsPDF();
+    doc.text(`Revenue Growth (${startDate} to ${endDate})`, 14, 16);
+    doc.setFontSize(10);
+    doc.text(`Compared with ${previousStart} to ${previousEnd}`, 14, 22);
+
+    doc.autoTable({
+      head: [exportHeader],
+      body: [...exportRows, exportTotals].map(row => row.map(cell => (typeof cell === 'number' ? cell.toLocaleString() : cell))),
+      startY: 26,
+    });
+
+    doc.save(`revenue_report_${new Date().toISOString().split('T')[0]}.pdf`);
+  };
+
+  const exportCsv = () => {
+    downloadCsv(`revenue_report_${new Date().toISOString().split('T')[0]}.csv`, [exportHeader, ...exportRows, exportTotals]);
+  };
+
+  const totalChange = percentChange(currentTotal, previousTotal);
+
+  return (
+    <div>
+      <PageHeader
+        title="Revenue Growth"
+        subtitle="Revenue from every source over time, compared with the previous period."
+        actions={
+          <div className="flex space-x-2">
+            <Button variant="secondary" icon={<Download />} onClick={exportCsv} disabled={rows.length === 0}>
+              Export CSV
+            </Button>
+            <Button icon={<Printer />} onClick={printReport} disabled={rows.length === 0}>
+              Print Report
+            </Button>
+          </div>
+        }
+      />
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="w-44"><Input type="date" value={startDate} max={endDate} onChange={(e) => e.target.value && setStartDate(e.target.value)} /></div>
+        <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+        <div className="w-44"><Input type="date" value={endDate} min={startDate} onChange={(e) => e.target.value && setEndDate(e.target.value)} /></div>
+        <div className="flex space-x-2">
+          {(Object.keys(bucketLabels) as Bucket[]).map(option => (
+            <Button key={option} size="sm" variant={bucket === option ? 'primary' : 'secondary'} onClick={() => setBucket(option)}>
+              {bucketLabels[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">This Period</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">KSh {currentTotal.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Previous Period</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">KSh {previousTotal.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Growth</p>
+            <p className={`text-2xl font-bold mt-1 ${totalChange === null ? 'text-gray-900 dark:text-white' : totalChange >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {formatChange(totalChange)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+      {loading ? (
+        <div className="text-center py-12">Generating revenue report...</div>
+      ) : (
+        <>
+          <Card className="mb-6">
+            <CardContent>
+              <div className="flex items-center space-x-4 text-xs text-gray-500 dark:text-gray-400 mb-4">
+                <span className="flex items-center"><span className="inline-block h-3 w-3 rounded-sm bg-primary-500 mr-1" />This period</span>
+                <span className="flex items-center"><span className="inline-block h-3 w-3 rounded-sm bg-gray-300 dark:bg-gray-600 mr-1" />Previous period</span>
+              </div>
+              <div className="flex items-end h-48 gap-1 overflow-x-auto">
+                {rows.map(row => (
+                  <div key={row.point.bucket} className="flex-1 min-w-[12px] h-full flex items-end justify-center gap-px" title={`${row.label}: KSh ${row.total.toLocaleString()} (previous KSh ${row.previousValue.toLocaleString()})`}>
+                    <div className="w-1/2 bg-gray-300 dark:bg-gray-600 rounded-t" style={{ height: `${(Math.max(row.previousValue, 0) / chartMax) * 100}%` }} />
+                    <div className="w-1/2 bg-primary-500 rounded-t" style={{ height: `${(Math.max(row.total, 0) / chartMax) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              {rows.length > 0 && (
+                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  <span>{rows[0].label}</span>
+                  <span>{rows[rows.length - 1].label}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableHead>Period</TableHead>
+                  {activeSources.map(source => <TableHead key={source}>{sourceLabels[source]}</TableHead>)}
+                  <TableHead>Total</TableHead>
+                  <TableHead>Previous Period</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.point.bucket}>
+                      <TableCell><div className="font-medium">{row.label}</div></TableCell>
+                      {activeSources.map(source => <TableCell key={source}>KSh {row.point[source].toLocaleString()}</TableCell>)}
+                      <TableCell>KSh {row.total.toLocaleString()}</TableCell>
+                      <TableCell>KSh {row.previousValue.toLocaleString()}</TableCell>
+                      <TableCell className={row.change === null ? undefined : row.change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                        {formatChange(row.change)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { supabase, type Sale } from '../../../lib/supabase';
+import { supabase, type Sale, type SalePayment, type SaleReturn, type PaymentMethod } from '../../../lib/supabase';
+import { tenderLabels } from '../../../lib/tenders';
 import PageHeader from '../../PageHeader';
 import { Card, CardContent } from '../../ui/Card';
 import { Button } from '../../ui/Button';
@@ -12,69 +13,149 @@ import 'jspdf-autotable';
 
 interface SalesReportProps {
   businessId: string;
+  // Empty covers every branch
+  branchId?: string;
 }
 
 type SaleWithDetails = Sale & {
   sale_items: {
     quantity: number;
+    discount_amount: number;
     products: { name: string } | null;
   }[];
+  sale_payments: SalePayment[];
 };
 
+type ReturnWithDetails = SaleReturn & {
+  sales: { receipt_number: string } | null;
+  sale_return_items: { quantity: number }[];
+};
+
+// Sales and completed returns share one ledger; returns carry negative quantities and amounts.
+interface ReportRow {
+  id: string;
+  reference: string;
+  kind: 'sale' | 'return' | 'void';
+  created_at: string;
+  quantity: number;
+  discount: number;
+  amount: number;
+  payments: { id: string; method: PaymentMethod; amount: number }[];
+  fallbackPayment?: string;
+}
+
 declare module 'jspdf' {
   interface jsPDF {
     autoTable: (options: any) => jsPDF;
   }
 }
 
-export default function SalesReport({ businessId }: SalesReportProps) {
+export default function SalesReport({ businessId, branchId }: SalesReportProps) {
   const [sales, setSales] = useState<SaleWithDetails[]>([]);
+  const [returns, setReturns] = useState<ReturnWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
 
   const fetchSales = useCallback(async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
+      let salesQuery = supabase
         .from('sales')
-        .select('*, sale_items(*, products(name))')
+        .select('*, sale_items(*, products(name)), sale_payments(*)')
+        .eq('business_id', businessId);
+      let returnsQuery = supabase
+        .from('sale_returns')
+        .select('*, sales!inner(receipt_number, branch_id), sale_return_items(quantity)')
         .eq('business_id', businessId)
-        .order('created_at', { ascending: false });
+        .eq('status', 'completed');
+      if (branchId) {
+        salesQuery = salesQuery.eq('branch_id', branchId);
+        returnsQuery = returnsQuery.eq('sales.branch_id', branchId);
+      }
 
-      if (error) throw error;
-      setSales(data as SaleWithDetails[] || []);
+      const [salesResult, returnsResult] = await Promise.all([
+        salesQuery.order('created_at', { ascending: false }),
+        returnsQuery,
+      ]);
+
+      if (salesResult.error) throw salesResult.error;
+      if (returnsResult.error) throw returnsResult.error;
+      setSales(salesResult.data as SaleWithDetails[] || []);
+      setReturns(returnsResult.data as ReturnWithDetails[] || []);
     } catch (error) {
       console.error('Error fetching sales report data:', error);
     } finally {
       setLoading(false);
     }
-  }, [businessId]);
+  }, [businessId, branchId]);
 
   useEffect(() => {
     fetchSales();
   }, [fetchSales]);
 
+  const rows: ReportRow[] = [
+    ...sales.map(sale => ({
+      id: sale.id,
+      reference: sale.receipt_number,
+      kind: 'sale' as const,
+      created_at: sale.created_at,
+      quantity: sale.sale_items.reduce((acc, item) => acc + item.quantity, 0),
+      discount: sale.sale_items.reduce((acc, item) => acc + (item.discount_amount || 0), 0),
+      amount: sale.total_amount,
+      payments: sale.sale_payments,
+      fallbackPayment: sale.payment_method,
+    })),
+    ...returns.map(saleReturn => ({
+      id: saleReturn.id,
+      reference: `${saleReturn.return_number} (${saleReturn.sales?.receipt_number ?? ''})`,
+      kind: saleReturn.return_type,
+      created_at: saleReturn.created_at,
+      quantity: -saleReturn.sale_return_items.reduce((acc, item) => acc + item.quantity, 0),
+      discount: 0,
+      amount: -saleReturn.total_amount,
+      payments: [{ id: saleReturn.id, method: saleReturn.refund_method, amount: -saleReturn.total_amount }],
+    })),
+  ].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+  const netTotal = rows.reduce((acc, row) => acc + row.amount, 0);
+  const discountTotal = rows.reduce((acc, row) => acc + row.discount, 0);
+
+  const tenderTotals = rows
+    .flatMap(row => row.payments)
+    .reduce((acc, payment) => {
+      acc[payment.method] = (acc[payment.method] || 0) + payment.amount;
+      return acc;
+    }, {} as Partial<Record<PaymentMethod, number>>);
+  const tenderMethods = Object.keys(tenderTotals) as PaymentMethod[];
+
   const printReport = () => {
     const doc = new jsPDF();
     doc.text("Sales Report", 14, 16);
     
-    const tableColumn = ["Date", "Receipt No.", "Items", "Total (KSh)"];
+    const tableColumn = ["Date", "Receipt No.", "Items", "Discounts (KSh)", "Total (KSh)"];
     const tableRows: (string | number)[][] = [];
 
-    sales.forEach(sale => {
-      const saleData = [
-        format(new Date(sale.created_at), 'yyyy-MM-dd'),
-        sale.receipt_number,
-        sale.sale_items.reduce((acc, item) => acc + item.quantity, 0),
-        sale.total_amount.toLocaleString(),
+    rows.forEach(row => {
+      const rowData = [
+        format(new Date(row.created_at), 'yyyy-MM-dd'),
+        row.reference,
+        row.quantity,
+        row.discount.toLocaleString(),
+        row.amount.toLocaleString(),
       ];
-      tableRows.push(saleData);
+      tableRows.push(rowData);
     });
+    tableRows.push(['', 'Net Total', '', discountTotal.toLocaleString(), netTotal.toLocaleString()]);
 
     doc.autoTable({
       head: [tableColumn],
       body: tableRows,
       startY: 20,
     });
+
+    doc.autoTable({
+      head: [["Tender", "Total (KSh)"]],
+      body: tenderMethods.map(method => [tenderLabels[method], (tenderTotals[method] || 0).toLocaleString()]),
+    });
     
     doc.save(`sales_report_${new Date().toISOString().split('T')[0]}.pdf`);
   };
@@ -89,14 +170,32 @@ export default function SalesReport({ businessId }: SalesReportProps) {
         title="Sales Report"
         subtitle={`A detailed summary of all sales transactions for your business.`}
         actions={
-          <Button icon={<Printer />} onClick={printReport} disabled={sales.length === 0}>
+          <Button icon={<Printer />} onClick={printReport} disabled={rows.length === 0}>
             Print Report
           </Button>
         }
       />
+      {tenderMethods.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          <Card>
+            <CardContent>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Discounts Given</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">KSh {discountTotal.toLocaleString()}</p>
+            </CardContent>
+          </Card>
+          {tenderMethods.map(method => (
+            <Card key={method}>
+              <CardContent>
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{tenderLabels[method]}</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">KSh {(tenderTotals[method] || 0).toLocaleString()}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
       <Card>
         <CardContent>
-          {sales.length === 0 ? (
+          {rows.length === 0 ? (
             <div className="text-center py-12">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white">No Sales Data</h3>
               <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">There are no sales recorded for this business yet.</p>
@@ -108,20 +207,37 @@ export default function SalesReport({ businessId }: SalesReportProps) {
                 <TableHead>Date</TableHead>
                 <TableHead>Items Sold</TableHead>
                 <TableHead>Payment</TableHead>
+                <TableHead>Discounts</TableHead>
                 <TableHead>Total Amount</TableHead>
               </TableHeader>
               <TableBody>
-                {sales.map((sale) => (
-                  <TableRow key={sale.id}>
+                {rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      <div className={`font-medium ${row.kind === 'sale' ? 'text-primary-600 dark:text-primary-400' : 'text-red-600 dark:text-red-400'}`}>{row.reference}</div>
+                      {row.kind !== 'sale' && <Badge variant="danger">{row.kind === 'void' ? 'Void' : 'Return'}</Badge>}
+                    </TableCell>
+                    <TableCell>{format(new Date(row.created_at), 'MMM dd, yyyy, h:mm a')}</TableCell>
+                    <TableCell>{row.quantity}</TableCell>
                     <TableCell>
-                      <div className="font-medium text-primary-600 dark:text-primary-400">{sale.receipt_number}</div>
+                      <div className="flex flex-wrap gap-1">
+                        {row.payments.length > 0 ? row.payments.map(payment => (
+                          <Badge key={payment.id}>{tenderLabels[payment.method]} {payment.amount.toLocaleString()}</Badge>
+                        )) : <Badge>{row.fallbackPayment}</Badge>}
+                      </div>
                     </TableCell>
-                    <TableCell>{format(new Date(sale.created_at), 'MMM dd, yyyy, h:mm a')}</TableCell>
-                    <TableCell>{sale.sale_items.reduce((acc, item) => acc + item.quantity, 0)}</TableCell>
-                    <TableCell><Badge>{sale.payment_method}</Badge></TableCell>
-                    <TableCell>KSh {sale.total_amount.toLocaleString()}</TableCell>
+                    <TableCell>{row.discount > 0 ? `KSh ${row.discount.toLocaleString()}` : '-'}</TableCell>
+                    <TableCell className={row.amount < 0 ? 'text-red-600 dark:text-red-400' : undefined}>KSh {row.amount.toLocaleString()}</TableCell>
                   </TableRow>
                 ))}
+                <TableRow>
+                  <TableCell className="font-bold">Net Total</TableCell>
+                  <TableCell>{''}</TableCell>
+                  <TableCell>{''}</TableCell>
+                  <TableCell>{''}</TableCell>
+                  <TableCell className="font-bold">KSh {discountTotal.toLocaleString()}</TableCell>
+                  <TableCell className="font-bold">KSh {netTotal.toLocaleString()}</TableCell>
+                </TableRow>
               </TableBody>
             </Table>
           )}
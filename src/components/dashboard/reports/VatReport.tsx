@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, type TaxClass } from '../../../lib/supabase';
+import { taxClassLabels } from '../../../lib/tax';
+import PageHeader from '../../PageHeader';
+import { Card, CardContent } from '../../ui/Card';
+import { Button } from '../../ui/Button';
+import { Input } from '../../ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../../ui/Table';
+import { format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { Printer } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+interface VatReportProps {
+  businessId: string;
+}
+
+interface VatSummaryRow {
+  month: string;
+  tax_class: TaxClass | null;
+  tax_rate: number;
+  gross_sales: number;
+  gross_returns: number;
+  taxable_value: number;
+  output_vat: number;
+}
+
+const classLabel = (row: VatSummaryRow) => {
+  if (!row.tax_class) return 'Unclassified';
+  // Standard-rated lines sold before VAT registration carry no VAT
+  return row.tax_class === 'vat_standard' && row.tax_rate === 0 ? 'Standard (not registered)' : taxClassLabels[row.tax_class];
+};
+
+export default function VatReport({ businessId }: VatReportProps) {
+  const [rows, setRows] = useState<VatSummaryRow[]>([]);
+  const [startDate, setStartDate] = useState(format(startOfMonth(subMonths(new Date(), 2)), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(true);
+
+  const fetchSummary = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_vat_summary', {
+        p_business_id: businessId,
+        p_start: startDate,
+        p_end: endDate,
+      });
+      if (error) throw error;
+      setRows(data as VatSummaryRow[] || []);
+    } catch (error) {
+      console.error('Error fetching VAT summary:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, startDate, endDate]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      sales: acc.sales + row.gross_sales - row.gross_returns,
+      taxable: acc.taxable + row.taxable_value,
+      vat: acc.vat + row.output_vat,
+    }),
+    { sales: 0, taxable: 0, vat: 0 }
+  );
+
+  const printReport = () => {
+    const doc = new jsPDF();
+    doc.text(`VAT Summary (${startDate} to ${endDate})`, 14, 16);
+
+    const tableColumn = ["Month", "Class", "Sales (KSh)", "Returns (KSh)", "Taxable Value (KSh)", "Output VAT (KSh)"];
+    const tableRows: (string | number)[][] = rows.map(row => [
+      format(parseISO(row.month), 'MMM yyyy'),
+      classLabel(row),
+      row.gross_sales.toLocaleString(),
+      row.gross_returns.toLocaleString(),
+      row.taxable_value.toLocaleString(),
+      row.output_vat.toLocaleString(),
+    ]);
+    tableRows.push(['Total', '', '', '', totals.taxable.toLocaleString(), totals.vat.toLocaleString()]);
+
+    doc.autoTable({
+      head: [tableColumn],
+      body: tableRows,
+      startY: 20,
+    });
+
+    doc.save(`vat_summary_${new Date().toISOString().split('T')[0]}.pdf`);
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="VAT Summary"
+        subtitle="Output VAT by month and tax class, net of returns and voids, for your VAT return."
+        actions={
+          <Button icon={<Printer />} onClick={printReport} disabled={rows.length === 0}>
+            Print Report
+          </Button>
+        }
+      />
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="w-44"><Input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} /></div>
+        <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+        <div className="w-44"><Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} /></div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        {[
+          { label: 'Net Sales (incl. VAT)', value: `KSh ${totals.sales.toLocaleString()}` },
+          { label: 'Taxable Value', value: `KSh ${totals.taxable.toLocaleString()}` },
+          { label: 'Output VAT', value: `KSh ${totals.vat.toLocaleString()}` },
+        ].map(stat => (
+          <Card key={stat.label}>
+            <CardContent>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{stat.label}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <Card>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Generating VAT summary...</div>
+          ) : rows.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No Sales Data</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">There are no sales in this period.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Month</TableHead>
+                <TableHead>Class</TableHead>
+                <TableHead>Sales</TableHead>
+                <TableHead>Returns</TableHead>
+                <TableHead>Taxable Value</TableHead>
+                <TableHead>Output VAT</TableHead>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={`${row.month}:${row.tax_class}:${row.tax_rate}`}>
+                    <TableCell><div className="font-medium">{format(parseISO(row.month), 'MMM yyyy')}</div></TableCell>
+                    <TableCell>{classLabel(row)}</TableCell>
+                    <TableCell>KSh {row.gross_sales.toLocaleString()}</TableCell>
+                    <TableCell>{row.gross_returns > 0 ? `-KSh ${row.gross_returns.toLocaleString()}` : '-'}</TableCell>
+                    <TableCell>KSh {row.taxable_value.toLocaleString()}</TableCell>
+                    <TableCell>KSh {row.output_vat.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
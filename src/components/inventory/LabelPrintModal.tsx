@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { type Product } from '../../lib/supabase';
+import { labelTemplates, generateLabelsPdf, type LabelTemplateId } from '../../lib/labels';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../ui/Table';
+import { SearchIcon } from 'lucide-react';
+
+interface LabelPrintModalProps {
+  isOpen: boolean;
+  products: Product[];
+  // Products to start with one label each, e.g. when opened from a product's menu
+  initialProductIds?: string[];
+  onClose: () => void;
+}
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+export function LabelPrintModal({ isOpen, products, initialProductIds, onClose }: LabelPrintModalProps) {
+  const [templateId, setTemplateId] = useState<LabelTemplateId>('shelf_a4');
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [skipLabels, setSkipLabels] = useState('');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuantities(Object.fromEntries((initialProductIds ?? []).map(id => [id, '1'])));
+    setSkipLabels('');
+    setSearch('');
+  }, [isOpen, initialProductIds]);
+
+  const template = labelTemplates.find(t => t.id === templateId)!;
+  const perSheet = template.columns && template.rows ? template.columns * template.rows : null;
+
+  const requests = products
+    .map(product => ({ product, quantity: parseInt(quantities[product.id]) || 0 }))
+    .filter(r => r.quantity > 0);
+  const totalLabels = requests.reduce((acc, r) => acc + r.quantity, 0);
+
+  const term = search.trim().toLowerCase();
+  const visibleProducts = term
+    ? products.filter(p => p.name.toLowerCase().includes(term) || p.sku?.toLowerCase().includes(term))
+    : products;
+
+  const setAll = (value: (product: Product) => number) => {
+    setQuantities(prev => ({
+      ...prev,
+      ...Object.fromEntries(visibleProducts.map(p => [p.id, String(Math.max(value(p), 0))])),
+    }));
+  };
+
+  const handlePrint = () => {
+    try {
+      const skip = perSheet ? Math.min(parseInt(skipLabels) || 0, perSheet - 1) : 0;
+      const doc = generateLabelsPdf(requests, templateId, skip);
+      doc.save(`labels_${new Date().toISOString().split('T')[0]}.pdf`);
+    } catch (error) {
+      console.error('Error generating labels:', error);
+      alert(`Failed to generate labels: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Print Labels" size="4xl">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Template</label>
+            <select value={templateId} onChange={(e) => setTemplateId(e.target.value as LabelTemplateId)} className={selectClasses}>
+              {labelTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          </div>
+          {perSheet && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Skip used labels on first sheet</label>
+              <Input type="number" min="0" max={perSheet - 1} placeholder="0" value={skipLabels} onChange={(e) => setSkipLabels(e.target.value)} />
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <div className="flex-1">
+            <Input placeholder="Search products..." icon={<SearchIcon />} value={search} onChange={(e) => setSearch(e.target.value)} />
+          </div>
+          <Button type="button" variant="secondary" size="sm" onClick={() => setAll(() => 1)}>One each</Button>
+          <Button type="button" variant="secondary" size="sm" onClick={() => setAll(p => p.stock_quantity)}>One per item in stock</Button>
+          <Button type="button" variant="secondary" size="sm" onClick={() => setAll(() => 0)}>Clear</Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableHead>Product</TableHead>
+              <TableHead>Barcode</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Labels</TableHead>
+            </TableHeader>
+            <TableBody>
+              {visibleProducts.map(product => (
+                <TableRow key={product.id}>
+                  <TableCell><div className="font-medium">{product.name}</div></TableCell>
+                  <TableCell>{product.sku || 'N/A'}</TableCell>
+                  <TableCell>KSh {product.selling_price.toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-24"
+                      value={quantities[product.id] ?? ''}
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [product.id]: e.target.value }))}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <div className="flex justify-end items-center space-x-2 pt-4">
+          <span className="text-sm text-gray-500 dark:text-gray-400 mr-auto">
+            {totalLabels} label(s){perSheet && totalLabels > 0 ? ` on ${Math.ceil((totalLabels + Math.min(parseInt(skipLabels) || 0, perSheet - 1)) / perSheet)} sheet(s)` : ''}
+          </span>
+          <Button type="button" variant="secondary" onClick={onClose}>Close</Button>
+          <Button type="button" onClick={handlePrint} disabled={totalLabels === 0}>Download PDF</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { type Product } from '../../lib/supabase';
+import {
+  importFields,
+  guessColumnMapping,
+  readSpreadsheet,
+  validateImportRows,
+  importProducts,
+  exportProducts,
+  type ColumnMapping,
+} from '../../lib/productImport';
+import { fetchBranchStock } from '../../lib/branches';
+import { useBranches } from '../../hooks/useBranches';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../ui/Table';
+import { Upload } from 'lucide-react';
+
+interface ProductImportModalProps {
+  isOpen: boolean;
+  businessId: string;
+  products: Product[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+// Only the first rows are rendered in the preview; validation still covers every row.
+const PREVIEW_LIMIT = 200;
+
+export function ProductImportModal({ isOpen, businessId, products, onClose, onImported }: ProductImportModalProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [updateStock, setUpdateStock] = useState(true);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { activeBranches, defaultBranch, hasMultipleBranches } = useBranches(businessId);
+  const [branchId, setBranchId] = useState('');
+  const [branchStock, setBranchStock] = useState<Record<string, number> | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setBranchId('');
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setUpdateStock(true);
+    setShowErrorsOnly(false);
+    setProgress(0);
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const [headerRow, ...rows] = await readSpreadsheet(file);
+      if (!headerRow || rows.length === 0) {
+        alert('The file has no product rows under its header row.');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setDataRows(rows);
+      setMapping(guessColumnMapping(headerRow));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      alert(`Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  // Stock in the file is what is on hand at one branch, and is compared with that branch's stock
+  const stockBranchId = branchId || defaultBranch?.id || '';
+  useEffect(() => {
+    if (step !== 'preview' || !stockBranchId) return;
+    setBranchStock(null);
+    fetchBranchStock(stockBranchId)
+      .then(setBranchStock)
+      .catch(error => console.error('Error fetching branch stock:', error));
+  }, [step, stockBranchId]);
+
+  const effectiveMapping = useMemo(
+    () => mapping && (updateStock ? mapping : { ...mapping, stock_quantity: -1 }),
+    [mapping, updateStock],
+  );
+
+  const validated = useMemo(
+    () => step === 'preview' && effectiveMapping ? validateImportRows(dataRows, effectiveMapping, products) : [],
+    [step, dataRows, effectiveMapping, products],
+  );
+
+  const validRows = validated.filter(v => v.row);
+  const errorCount = validated.length - validRows.length;
+  const newCount = validRows.filter(v => !v.existing).length;
+  const visibleRows = (showErrorsOnly ? validated.filter(v => v.errors.length > 0) : validated).slice(0, PREVIEW_LIMIT);
+
+  const missingRequired = importFields.filter(f => f.required && mapping?.[f.field] === -1);
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    setImporting(true);
+    let done = 0;
+    try {
+      const result = await importProducts(businessId, validRows.map(v => v.row!), stockBranchId || null, (count) => {
+        done = count;
+        setProgress(count);
+      });
+      alert(`Import complete: ${result.created} product(s) added, ${result.updated} updated.${errorCount > 0 ? ` ${errorCount} row(s) with errors were skipped.` : ''}`);
+      onImported();
+      onClose();
+    } catch (error) {
+      console.error('Error importing products:', error);
+      alert(`Import stopped after ${done} row(s): ${error instanceof Error ? error.message : 'Unknown error'}`);
+      onImported();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const describeChange = (v: (typeof validated)[number]) => {
+    if (!v.row || !v.existing) return null;
+    const changes: string[] = [];
+    if (v.row.selling_price !== v.existing.selling_price) changes.push(`Price ${v.existing.selling_price} → ${v.row.selling_price}`);
+    const currentStock = branchStock ? branchStock[v.existing.id] ?? 0 : v.existing.stock_quantity;
+    if (v.row.stock_quantity != null && v.row.stock_quantity !== currentStock) changes.push(`Stock ${currentStock} → ${v.row.stock_quantity}`);
+    return changes.length > 0 ? changes.join(', ') : 'No price or stock change';
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={importing ? () => {} : onClose} title="Import Products" size="4xl">
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Upload a CSV or Excel (.xlsx) file with one product per row and a header row. Products are matched by SKU: existing
+            SKUs are updated and new SKUs are added. The easiest way to start is to export your products, edit the file and import it back.
+          </p>
+          <div className="flex space-x-2">
+            <Button type="button" variant="secondary" onClick={() => exportProducts([], 'xlsx')}>Download Excel template</Button>
+            <Button type="button" variant="secondary" onClick={() => exportProducts([], 'csv')}>Download CSV template</Button>
+          </div>
+          <label className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50">
+            <Upload className="h-8 w-8 text-gray-400 mb-2" />
+            <span className="text-sm text-gray-600 dark:text-gray-300">{reading ? 'Reading file...' : 'Choose a .csv or .xlsx file'}</span>
+            <input type="file" accept=".csv,.xlsx" className="hidden" onChange={handleFileChange} disabled={reading} />
+          </label>
+        </div>
+      )}
+
+      {step === 'map' && mapping && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {fileName}: {dataRows.length} row(s). Choose which column in your file holds each product field.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {importFields.map(({ field, label, required }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {label}{required && ' *'}
+                </label>
+                <select
+                  value={mapping[field]}
+                  onChange={(e) => setMapping(prev => prev && { ...prev, [field]: parseInt(e.target.value) })}
+                  className={selectClasses}
+                >
+                  <option value={-1}>{required ? 'Select a column' : 'Not in file'}</option>
+                  {headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+          {mapping.stock_quantity >= 0 && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={updateStock} onChange={(e) => setUpdateStock(e.target.checked)} />
+              <span>Set stock on hand to the quantities in the file (recorded in the stock ledger)</span>
+            </label>
+          )}
+          {hasMultipleBranches && mapping.stock_quantity >= 0 && updateStock && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Stock counted at</label>
+              <select value={stockBranchId} onChange={(e) => setBranchId(e.target.value)} className={selectClasses}>
+                {activeBranches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setStep('upload')}>Back</Button>
+            <Button type="button" disabled={missingRequired.length > 0} onClick={() => setStep('preview')}>
+              {missingRequired.length > 0 ? `Map ${missingRequired.map(f => f.label).join(', ')}` : 'Preview'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="success">{newCount} new</Badge>
+            <Badge>{validRows.length - newCount} to update</Badge>
+            {errorCount > 0 && <Badge variant="danger">{errorCount} with errors</Badge>}
+            {errorCount > 0 && (
+              <label className="flex items-center space-x-2 ml-auto text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={showErrorsOnly} onChange={(e) => setShowErrorsOnly(e.target.checked)} />
+                <span>Show errors only</span>
+              </label>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableHead>Row</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Result</TableHead>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map(v => (
+                  <TableRow key={v.line}>
+                    <TableCell>{v.line}</TableCell>
+                    <TableCell>{v.row?.sku ?? (dataRows[v.line - 2][mapping!.sku] || '-')}</TableCell>
+                    <TableCell>{v.row?.name ?? (dataRows[v.line - 2][mapping!.name] || '-')}</TableCell>
+                    <TableCell>{v.row ? `KSh ${v.row.selling_price.toLocaleString()}` : '-'}</TableCell>
+                    <TableCell>
+                      {v.errors.length > 0 ? (
+                        <span className="text-red-600 dark:text-red-400">{v.errors.join('; ')}</span>
+                      ) : v.existing ? (
+                        <span className="text-gray-600 dark:text-gray-300">Update: {describeChange(v)}</span>
+                      ) : (
+                        <span className="text-green-600 dark:text-green-400">New product</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {validated.length > PREVIEW_LIMIT && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Showing the first {PREVIEW_LIMIT} rows.</p>
+          )}
+          <div className="flex justify-end items-center space-x-2 pt-4">
+            {importing && <span className="text-sm text-gray-500 dark:text-gray-400 mr-auto">Imported {progress} of {validRows.length}...</span>}
+            <Button type="button" variant="secondary" onClick={() => setStep('map')} disabled={importing}>Back</Button>
+            <Button type="button" onClick={handleImport} disabled={validRows.length === 0 || importing}>
+              {importing ? 'Importing...' : `Import ${validRows.length} product(s)`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
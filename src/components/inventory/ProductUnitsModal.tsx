@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type Product, type ProductUnit } from '../../lib/supabase';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Trash2 } from 'lucide-react';
+
+interface ProductUnitsModalProps {
+  product: Product | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const emptyUnitForm = { name: '', conversion_factor: '', selling_price: '', barcode: '' };
+
+export function ProductUnitsModal({ product, onClose, onChanged }: ProductUnitsModalProps) {
+  const [units, setUnits] = useState<ProductUnit[]>([]);
+  const [unitForm, setUnitForm] = useState(emptyUnitForm);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchUnits = useCallback(async () => {
+    if (!product) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('product_units')
+        .select('*')
+        .eq('product_id', product.id)
+        .order('conversion_factor', { ascending: true });
+      if (error) throw error;
+      setUnits(data || []);
+    } catch (error) {
+      console.error('Error fetching selling units:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [product]);
+
+  useEffect(() => {
+    setUnitForm(emptyUnitForm);
+    fetchUnits();
+  }, [fetchUnits]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setUnitForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddUnit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from('product_units').insert({
+        business_id: product.business_id,
+        product_id: product.id,
+        name: unitForm.name,
+        conversion_factor: parseInt(unitForm.conversion_factor),
+        selling_price: parseFloat(unitForm.selling_price),
+        barcode: unitForm.barcode || null,
+      });
+      if (error) throw error;
+      setUnitForm(emptyUnitForm);
+      await fetchUnits();
+      onChanged();
+    } catch (error) {
+      console.error('Error adding selling unit:', error);
+      alert(`Failed to add selling unit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Units already used on sales are deactivated rather than deleted so old receipts keep their unit
+  const handleRemoveUnit = async (unit: ProductUnit) => {
+    try {
+      const { count, error: countError } = await supabase
+        .from('sale_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('product_unit_id', unit.id);
+      if (countError) throw countError;
+
+      const { error } = count
+        ? await supabase.from('product_units').update({ is_active: false }).eq('id', unit.id)
+        : await supabase.from('product_units').delete().eq('id', unit.id);
+      if (error) throw error;
+      await fetchUnits();
+      onChanged();
+    } catch (error) {
+      console.error('Error removing selling unit:', error);
+      alert(`Failed to remove selling unit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const suggestedPrice = product && unitForm.conversion_factor
+    ? product.selling_price * (parseInt(unitForm.conversion_factor) || 0)
+    : null;
+
+  return (
+    <Modal isOpen={!!product} onClose={onClose} title={`Selling Units - ${product?.name ?? ''}`}>
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Stock is counted in {product?.unit}s. Add the other units this product is sold in and how many {product?.unit}s each one holds.
+        </p>
+        {loading ? (
+          <p className="py-6 text-center">Loading units...</p>
+        ) : units.filter(unit => unit.is_active).length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Only sold by the {product?.unit}.</p>
+        ) : (
+          <div className="space-y-2">
+            {units.filter(unit => unit.is_active).map(unit => (
+              <div key={unit.id} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg">
+                <div>
+                  <div className="text-sm font-medium">{unit.name} = {unit.conversion_factor} {product?.unit}(s)</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    KSh {unit.selling_price.toLocaleString()}{unit.barcode ? ` · Barcode ${unit.barcode}` : ''}
+                  </div>
+                </div>
+                <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => handleRemoveUnit(unit)} />
+              </div>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleAddUnit} className="space-y-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="grid grid-cols-2 gap-4">
+            <Input name="name" placeholder="Unit (e.g., box, pallet)" value={unitForm.name} onChange={handleInputChange} required />
+            <Input name="conversion_factor" type="number" min="1" step="1" placeholder={`${product?.unit ?? 'Base unit'}s per unit`} value={unitForm.conversion_factor} onChange={handleInputChange} required />
+            <Input name="selling_price" type="number" min="0" step="0.01" placeholder={suggestedPrice ? `Price (KSh ${suggestedPrice.toLocaleString()} at unit price)` : 'Selling Price (KSh)'} value={unitForm.selling_price} onChange={handleInputChange} required />
+            <Input name="barcode" placeholder="Pack barcode (optional)" value={unitForm.barcode} onChange={handleInputChange} />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="secondary" onClick={onClose}>Close</Button>
+            <Button type="submit" disabled={submitting}>{submitting ? 'Saving...' : 'Add Unit'}</Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, type Product } from '../../lib/supabase';
+import { adjustmentReasons } from '../../lib/stock';
+import { useBranches } from '../../hooks/useBranches';
+import { BranchSelect } from '../branches/BranchSelect';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+
+interface StockAdjustmentModalProps {
+  product: Product | null;
+  onClose: () => void;
+  onAdjusted: () => void;
+}
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+export function StockAdjustmentModal({ product, onClose, onAdjusted }: StockAdjustmentModalProps) {
+  const [direction, setDirection] = useState<'add' | 'remove'>('remove');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState(adjustmentReasons[0].value);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { activeBranches, defaultBranch, hasMultipleBranches } = useBranches(product?.business_id ?? '');
+  const [branchId, setBranchId] = useState('');
+  const [branchStock, setBranchStock] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setDirection('remove');
+    setQuantity('');
+    setReason(adjustmentReasons[0].value);
+    setNotes('');
+    setBranchId(defaultBranch?.id ?? '');
+  }, [product, defaultBranch]);
+
+  useEffect(() => {
+    if (!product || !hasMultipleBranches) return;
+    supabase
+      .from('branch_stock')
+      .select('branch_id, quantity')
+      .eq('product_id', product.id)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching branch stock:', error);
+          return;
+        }
+        setBranchStock(Object.fromEntries((data || []).map(row => [row.branch_id, row.quantity])));
+      });
+  }, [product, hasMultipleBranches]);
+
+  // Weighed products are adjusted to the gram
+  const amount = product?.is_weighed ? Math.round((parseFloat(quantity) || 0) * 1000) / 1000 : parseInt(quantity) || 0;
+  const change = amount * (direction === 'add' ? 1 : -1);
+  const currentStock = hasMultipleBranches ? branchStock[branchId] ?? 0 : product?.stock_quantity ?? 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product || change === 0) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('adjust_stock', {
+        p_product_id: product.id,
+        p_quantity: change,
+        p_reason: reason,
+        p_notes: notes || null,
+        p_branch_id: branchId || null,
+      });
+      if (error) throw error;
+      onAdjusted();
+      onClose();
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      alert(`Failed to adjust stock: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!product} onClose={onClose} title={`Adjust Stock - ${product?.name ?? ''}`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {hasMultipleBranches && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Branch</label>
+            <BranchSelect branches={activeBranches} value={branchId} onChange={setBranchId} required />
+          </div>
+        )}
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Current stock{hasMultipleBranches && ' at this branch'}: {currentStock} {product?.unit}(s). New stock: {Math.round((currentStock + change) * 1000) / 1000}
+        </p>
+        <div className="flex space-x-2">
+          <select value={direction} onChange={(e) => setDirection(e.target.value as 'add' | 'remove')} className={selectClasses}>
+            <option value="remove">Remove stock</option>
+            <option value="add">Add stock</option>
+          </select>
+          <Input type="number" min={product?.is_weighed ? '0.001' : '1'} step={product?.is_weighed ? '0.001' : '1'} placeholder="Quantity" value={quantity} onChange={(e) => setQuantity(e.target.value)} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Reason</label>
+          <select value={reason} onChange={(e) => setReason(e.target.value)} className={selectClasses}>
+            {adjustmentReasons.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+          </select>
+        </div>
+        <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={change === 0 || submitting}>
+            {submitting ? 'Saving...' : 'Post Adjustment'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { supabase, type StockTake, type StockTakeItem } from '../../lib/supabase';
+import { adjustmentReasons } from '../../lib/stock';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+
+interface StockCountModalProps {
+  stockTake: StockTake | null;
+  isManager: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type CountLine = StockTakeItem & { products: { name: string; unit: string; is_weighed: boolean } | null };
+
+// Weighed products are counted to the gram, everything else in whole units
+const parseCount = (line: CountLine, value: string) => line.products?.is_weighed
+  ? Math.round(parseFloat(value) * 1000) / 1000
+  : parseInt(value);
+
+interface CountEntry {
+  counted: string;
+  reason: string;
+}
+
+export function StockCountModal({ stockTake, isManager, onClose, onChanged }: StockCountModalProps) {
+  const [lines, setLines] = useState<CountLine[]>([]);
+  const [entries, setEntries] = useState<Record<string, CountEntry>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!stockTake) return;
+    const fetchLines = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('stock_take_items')
+          .select('*, products(name, unit, is_weighed)')
+          .eq('stock_take_id', stockTake.id);
+        if (error) throw error;
+        const countLines = (data as CountLine[] || []).sort((a, b) => (a.products?.name ?? '').localeCompare(b.products?.name ?? ''));
+        setLines(countLines);
+        setEntries(Object.fromEntries(countLines.map(line => [line.product_id, {
+          counted: line.counted_quantity != null ? String(line.counted_quantity) : '',
+          reason: line.reason || '',
+        }])));
+      } catch (error) {
+        console.error('Error fetching stock count:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchLines();
+  }, [stockTake]);
+
+  const isCounting = stockTake?.status === 'counting';
+
+  const variance = (line: CountLine) => {
+    const counted = entries[line.product_id]?.counted;
+    return counted === '' || counted === undefined ? null : Math.round((parseCount(line, counted) - line.expected_quantity) * 1000) / 1000;
+  };
+
+  const missingReasons = lines.some(line => {
+    const lineVariance = variance(line);
+    return lineVariance !== null && lineVariance !== 0 && !entries[line.product_id]?.reason;
+  });
+
+  const handleEntryChange = (productId: string, changes: Partial<CountEntry>) => {
+    setEntries(prev => ({ ...prev, [productId]: { ...prev[productId], ...changes } }));
+  };
+
+  const saveCounts = async () => {
+    if (!stockTake) return;
+    const { error } = await supabase.rpc('record_stock_counts', {
+      p_stock_take_id: stockTake.id,
+      p_counts: lines.map(line => ({
+        product_id: line.product_id,
+        counted_quantity: entries[line.product_id]?.counted === '' ? null : parseCount(line, entries[line.product_id].counted),
+        reason: entries[line.product_id]?.reason || null,
+      })),
+    });
+    if (error) throw error;
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveCounts();
+      onChanged();
+    } catch (error) {
+      console.error('Error saving stock counts:', error);
+      alert(`Failed to save counts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!stockTake || !window.confirm('Post all variances to stock? This cannot be undone.')) return;
+    setSaving(true);
+    try {
+      await saveCounts();
+      const { error } = await supabase.rpc('post_stock_take', { p_stock_take_id: stockTake.id });
+      if (error) throw error;
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error('Error posting stock take:', error);
+      alert(`Failed to post stock take: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!stockTake} onClose={onClose} title={`Stock Take - ${stockTake?.stock_take_number ?? ''}`}>
+      {loading ? (
+        <p className="py-12 text-center">Loading count sheet...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2 max-h-96 overflow-y-auto pr-2">
+            {lines.map(line => {
+              const lineVariance = variance(line);
+              return (
+                <div key={line.id} className="bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="text-sm font-medium">{line.products?.name ?? 'Unknown product'}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">Expected {line.expected_quantity} {line.products?.unit}(s)</div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {lineVariance !== null && lineVariance !== 0 && (
+                        <span className={`text-sm font-medium ${lineVariance < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                          {lineVariance > 0 ? `+${lineVariance}` : lineVariance}
+                        </span>
+                      )}
+                      <Input
+                        type="number"
+                        min="0"
+                        step={line.products?.is_weighed ? '0.001' : '1'}
+                        placeholder="Count"
+                        value={entries[line.product_id]?.counted ?? ''}
+                        onChange={(e) => handleEntryChange(line.product_id, { counted: e.target.value })}
+                        disabled={!isCounting}
+                        className="w-20 text-center"
+                      />
+                    </div>
+                  </div>
+                  {lineVariance !== null && lineVariance !== 0 && (
+                    <select
+                      value={entries[line.product_id]?.reason ?? ''}
+                      onChange={(e) => handleEntryChange(line.product_id, { reason: e.target.value })}
+                      disabled={!isCounting}
+                      className="w-full px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                    >
+                      <option value="" disabled>Reason for variance</option>
+                      {adjustmentReasons.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                    </select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {isCounting && (
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="secondary" onClick={handleSave} disabled={saving}>Save Counts</Button>
+              {isManager && (
+                <Button type="button" onClick={handlePost} disabled={saving || missingReasons}>
+                  {saving ? 'Posting...' : 'Post Variances'}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase, type Product, type StockMovement } from '../../lib/supabase';
+import { movementTypeLabels, reasonLabel } from '../../lib/stock';
+import { Modal } from '../ui/Modal';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../ui/Table';
+
+interface StockHistoryModalProps {
+  product: Pick<Product, 'id' | 'name' | 'unit'> | null;
+  onClose: () => void;
+}
+
+export function StockHistoryModal({ product, onClose }: StockHistoryModalProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!product) return;
+    const fetchMovements = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('stock_movements')
+          .select('*')
+          .eq('product_id', product.id)
+          .order('created_at', { ascending: false })
+          .limit(200);
+        if (error) throw error;
+        setMovements(data || []);
+      } catch (error) {
+        console.error('Error fetching stock movements:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchMovements();
+  }, [product]);
+
+  return (
+    <Modal isOpen={!!product} onClose={onClose} title={`Stock History - ${product?.name ?? ''}`}>
+      {loading ? (
+        <p className="py-12 text-center">Loading history...</p>
+      ) : movements.length === 0 ? (
+        <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">No stock movements recorded.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Change</TableHead>
+              <TableHead>Balance</TableHead>
+            </TableHeader>
+            <TableBody>
+              {movements.map(movement => (
+                <TableRow key={movement.id}>
+                  <TableCell>{format(new Date(movement.created_at), 'dd MMM yyyy HH:mm')}</TableCell>
+                  <TableCell>
+                    <div>{movementTypeLabels[movement.movement_type]}</div>
+                    {movement.reason && <div className="text-xs text-gray-500 dark:text-gray-400">{reasonLabel(movement.reason)}</div>}
+                  </TableCell>
+                  <TableCell className={movement.quantity < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </TableCell>
+                  <TableCell>{movement.balance_after} {product?.unit}(s)</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Modal>
+  );
+}
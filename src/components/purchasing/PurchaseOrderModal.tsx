@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import { supabase, type Product, type Supplier } from '../../lib/supabase';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { BranchSelect } from '../branches/BranchSelect';
+import { useBranches } from '../../hooks/useBranches';
+import type { ReceivableOrder } from './ReceiveGoodsModal';
+
+interface PurchaseOrderModalProps {
+  businessId: string;
+  isOpen: boolean;
+  // A draft to edit; a new order is raised when omitted
+  draft?: ReceivableOrder | null;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+interface OrderLine {
+  product_id: string;
+  name: string;
+  is_weighed: boolean;
+  quantity: string;
+  unit_cost: string;
+}
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+export function PurchaseOrderModal({ businessId, isOpen, draft, onClose, onCreated }: PurchaseOrderModalProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const { activeBranches, hasMultipleBranches } = useBranches(businessId);
+  // Empty means the branch of whoever raises the order
+  const [branchId, setBranchId] = useState('');
+  const [selectedProduct, setSelectedProduct] = useState('');
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSupplierId(draft?.supplier_id ?? '');
+    setBranchId(draft?.branch_id ?? '');
+    setLines(draft?.purchase_order_items.map(line => ({
+      product_id: line.product_id,
+      name: line.products?.name ?? 'Unknown product',
+      is_weighed: !!line.products?.is_weighed,
+      quantity: String(line.quantity_ordered),
+      unit_cost: String(line.unit_cost),
+    })) ?? []);
+    setExpectedDate(draft?.expected_date ?? '');
+    setNotes(draft?.notes ?? '');
+    const fetchOptions = async () => {
+      try {
+        const [{ data: supplierData, error: supplierError }, { data: productData, error: productError }] = await Promise.all([
+          supabase.from('suppliers').select('*').eq('business_id', businessId).eq('is_active', true).order('name'),
+          supabase.from('products').select('*').eq('business_id', businessId).eq('is_bundle', false).order('name'),
+        ]);
+        if (supplierError) throw supplierError;
+        if (productError) throw productError;
+        setSuppliers(supplierData || []);
+        setProducts(productData || []);
+      } catch (error) {
+        console.error('Error fetching purchase order options:', error);
+      }
+    };
+    fetchOptions();
+  }, [isOpen, businessId, draft]);
+
+  const handleAddLine = () => {
+    const product = products.find(p => p.id === selectedProduct);
+    if (!product || lines.some(line => line.product_id === product.id)) return;
+    setLines(prev => [...prev, {
+      product_id: product.id,
+      name: product.name,
+      is_weighed: product.is_weighed,
+      quantity: '1',
+      unit_cost: product.buying_price != null ? String(product.buying_price) : '',
+    }]);
+    setSelectedProduct('');
+  };
+
+  const handleLineChange = (productId: string, changes: Partial<OrderLine>) => {
+    setLines(prev => prev.map(line => line.product_id === productId ? { ...line, ...changes } : line));
+  };
+
+  // Weighed products are ordered by weight, to the gram; everything else in whole units
+  const parseQuantity = (line: OrderLine) => line.is_weighed
+    ? Math.round((parseFloat(line.quantity) || 0) * 1000) / 1000
+    : parseInt(line.quantity) || 0;
+
+  const orderTotal = lines.reduce((acc, line) => acc + Math.round(parseQuantity(line) * (parseFloat(line.unit_cost) || 0) * 100) / 100, 0);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!supplierId || lines.length === 0) return;
+    const saveAsDraft = (e.nativeEvent as SubmitEvent).submitter?.getAttribute('value') === 'draft';
+
+    const items = lines.map(line => ({
+      product_id: line.product_id,
+      quantity: parseQuantity(line),
+      unit_cost: parseFloat(line.unit_cost),
+    }));
+
+    setSubmitting(true);
+    try {
+      const { error } = draft
+        ? await supabase.rpc('update_draft_purchase_order', {
+            p_purchase_order_id: draft.id,
+            p_supplier_id: supplierId,
+            p_items: items,
+            p_expected_date: expectedDate || null,
+            p_notes: notes || null,
+            p_branch_id: branchId || null,
+          })
+        : await supabase.rpc('create_purchase_order', {
+            p_business_id: businessId,
+            p_supplier_id: supplierId,
+            p_items: items,
+            p_expected_date: expectedDate || null,
+            p_notes: notes || null,
+            p_draft: saveAsDraft,
+            p_branch_id: branchId || null,
+          });
+      if (error) throw error;
+      onCreated();
+      onClose();
+    } catch (error) {
+      console.error('Error saving purchase order:', error);
+      alert(`Failed to save purchase order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={draft ? `Edit Draft - ${draft.po_number}` : 'New Purchase Order'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className={selectClasses} required>
+          <option value="" disabled>Select a supplier</option>
+          {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+
+        {hasMultipleBranches && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Deliver to</label>
+            <BranchSelect branches={activeBranches} value={branchId} onChange={setBranchId} emptyLabel="My branch" />
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <select value={selectedProduct} onChange={(e) => setSelectedProduct(e.target.value)} className={selectClasses}>
+            <option value="" disabled>Select a product</option>
+            {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <Button type="button" onClick={handleAddLine}>Add</Button>
+        </div>
+
+        {lines.length > 0 && (
+          <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
+            {lines.map(line => (
+              <div key={line.product_id} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg">
+                <span className="text-sm font-medium">{line.name}</span>
+                <div className="flex items-center space-x-2">
+                  <Input type="number" min={line.is_weighed ? '0.001' : '1'} step={line.is_weighed ? '0.001' : '1'} value={line.quantity} onChange={(e) => handleLineChange(line.product_id, { quantity: e.target.value })} className="w-16 text-center" required />
+                  <span className="text-sm">x KSh</span>
+                  <Input type="number" min="0" step="0.01" placeholder="Cost" value={line.unit_cost} onChange={(e) => handleLineChange(line.product_id, { unit_cost: e.target.value })} className="w-24 text-center" required />
+                  <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => setLines(prev => prev.filter(l => l.product_id !== line.product_id))} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Expected delivery</label>
+          <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+        </div>
+        <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <span className="text-lg font-bold">Total:</span>
+          <span className="text-lg font-bold">KSh {orderTotal.toLocaleString()}</span>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          {draft ? (
+            <Button type="submit" disabled={!supplierId || lines.length === 0 || submitting}>
+              {submitting ? 'Saving...' : 'Save Draft'}
+            </Button>
+          ) : (
+            <>
+              <Button type="submit" value="draft" variant="secondary" disabled={!supplierId || lines.length === 0 || submitting}>
+                Save as Draft
+              </Button>
+              <Button type="submit" disabled={!supplierId || lines.length === 0 || submitting}>
+                {submitting ? 'Saving...' : 'Create Order'}
+              </Button>
+            </>
+          )}
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, type PurchaseOrder, type PurchaseOrderItem } from '../../lib/supabase';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+
+export type ReceivableOrder = PurchaseOrder & {
+  suppliers: { name: string } | null;
+  purchase_order_items: (PurchaseOrderItem & { products: { name: string; unit: string; track_expiry: boolean; is_weighed: boolean } | null })[];
+};
+
+interface ReceiveGoodsModalProps {
+  order: ReceivableOrder | null;
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+type CostMethod = 'latest' | 'weighted_average';
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+export function ReceiveGoodsModal({ order, onClose, onReceived }: ReceiveGoodsModalProps) {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [costs, setCosts] = useState<Record<string, string>>({});
+  const [batches, setBatches] = useState<Record<string, { batch_number: string; expiry_date: string }>>({});
+  const [costMethod, setCostMethod] = useState<CostMethod>('weighted_average');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Default to receiving everything still outstanding at the ordered cost
+  useEffect(() => {
+    if (!order) return;
+    setQuantities(Object.fromEntries(order.purchase_order_items.map(line => [line.id, String(Math.round((line.quantity_ordered - line.quantity_received) * 1000) / 1000)])));
+    setCosts(Object.fromEntries(order.purchase_order_items.map(line => [line.id, String(line.unit_cost)])));
+    setBatches({});
+    setNotes('');
+  }, [order]);
+
+  // Weighed products are received by weight, to the gram; everything else in whole units
+  const parseQuantity = (line: ReceivableOrder['purchase_order_items'][number]) => line.products?.is_weighed
+    ? Math.round((parseFloat(quantities[line.id]) || 0) * 1000) / 1000
+    : parseInt(quantities[line.id]) || 0;
+
+  const receiptTotal = order?.purchase_order_items.reduce(
+    (acc, line) => acc + Math.round(parseQuantity(line) * (parseFloat(costs[line.id]) || 0) * 100) / 100,
+    0
+  ) || 0;
+  const updateBatch = (lineId: string, field: 'batch_number' | 'expiry_date', value: string) =>
+    setBatches(prev => ({ ...prev, [lineId]: { ...(prev[lineId] ?? { batch_number: '', expiry_date: '' }), [field]: value } }));
+
+  const hasQuantities = order?.purchase_order_items.some(line => parseQuantity(line) > 0) ?? false;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('receive_purchase_order', {
+        p_purchase_order_id: order.id,
+        p_items: order.purchase_order_items
+          .filter(line => parseQuantity(line) > 0)
+          .map(line => ({
+            purchase_order_item_id: line.id,
+            quantity: parseQuantity(line),
+            unit_cost: parseFloat(costs[line.id]),
+            batch_number: batches[line.id]?.batch_number || null,
+            expiry_date: batches[line.id]?.expiry_date || null,
+          })),
+        p_cost_method: costMethod,
+        p_notes: notes || null,
+      });
+      if (error) throw error;
+      onReceived();
+      onClose();
+    } catch (error) {
+      console.error('Error receiving goods:', error);
+      alert(`Failed to receive goods: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!order} onClose={onClose} title={`Receive Goods - ${order?.po_number ?? ''}`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">Supplier: {order?.suppliers?.name}</p>
+        <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
+          {order?.purchase_order_items.map(line => {
+            const outstanding = Math.round((line.quantity_ordered - line.quantity_received) * 1000) / 1000;
+            return (
+              <div key={line.id} className="bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium">{line.products?.name ?? 'Unknown product'}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{line.quantity_received} of {line.quantity_ordered} received</div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      max={outstanding}
+                      step={line.products?.is_weighed ? '0.001' : '1'}
+                      value={quantities[line.id] ?? ''}
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [line.id]: e.target.value }))}
+                      disabled={outstanding === 0}
+                      className="w-16 text-center"
+                    />
+                    <span className="text-sm">x KSh</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={costs[line.id] ?? ''}
+                      onChange={(e) => setCosts(prev => ({ ...prev, [line.id]: e.target.value }))}
+                      disabled={outstanding === 0}
+                      className="w-24 text-center"
+                    />
+                  </div>
+                </div>
+                {line.products?.track_expiry && outstanding > 0 && (
+                  <div className="flex items-center space-x-2 mt-2">
+                    <Input
+                      placeholder="Batch no."
+                      value={batches[line.id]?.batch_number ?? ''}
+                      onChange={(e) => updateBatch(line.id, 'batch_number', e.target.value)}
+                    />
+                    <Input
+                      type="date"
+                      title="Expiry date"
+                      value={batches[line.id]?.expiry_date ?? ''}
+                      onChange={(e) => updateBatch(line.id, 'expiry_date', e.target.value)}
+                      required={parseQuantity(line) > 0}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Update buying price using</label>
+          <select value={costMethod} onChange={(e) => setCostMethod(e.target.value as CostMethod)} className={selectClasses}>
+            <option value="weighted_average">Weighted average of stock on hand and this delivery</option>
+            <option value="latest">Cost on this delivery</option>
+          </select>
+        </div>
+
+        <Input placeholder="Delivery note / notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <span className="text-lg font-bold">Received value:</span>
+          <span className="text-lg font-bold">KSh {receiptTotal.toLocaleString()}</span>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={!hasQuantities || submitting}>
+            {submitting ? 'Receiving...' : 'Receive Goods'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, type Supplier } from '../../lib/supabase';
+import { fetchReorderSuggestions, defaultReorderSettings, type ReorderSuggestion, type ReorderSettings } from '../../lib/purchasing';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../ui/Table';
+import { RefreshCw } from 'lucide-react';
+
+interface ReorderSuggestionsModalProps {
+  businessId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+interface SuggestionLine {
+  selected: boolean;
+  quantity: string;
+  supplier_id: string;
+}
+
+const settingFields: { key: keyof ReorderSettings; label: string }[] = [
+  { key: 'lookbackDays', label: 'Sales over (days)' },
+  { key: 'leadTimeDays', label: 'Default lead time (days)' },
+  { key: 'safetyDays', label: 'Safety stock (days)' },
+  { key: 'coverDays', label: 'Order to cover (days)' },
+];
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+export function ReorderSuggestionsModal({ businessId, isOpen, onClose, onCreated }: ReorderSuggestionsModalProps) {
+  const [settings, setSettings] = useState<ReorderSettings>(defaultReorderSettings);
+  // Edits to the settings only apply when Recalculate is pressed
+  const [appliedSettings, setAppliedSettings] = useState<ReorderSettings>(defaultReorderSettings);
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [lines, setLines] = useState<Record<string, SuggestionLine>>({});
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchSuggestions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [rows, { data: supplierData, error: supplierError }] = await Promise.all([
+        fetchReorderSuggestions(businessId, appliedSettings),
+        supabase.from('suppliers').select('*').eq('business_id', businessId).eq('is_active', true).order('name'),
+      ]);
+      if (supplierError) throw supplierError;
+      const toReorder = rows.filter(row => row.suggested_quantity > 0);
+      setSuggestions(toReorder);
+      setSuppliers(supplierData || []);
+      setLines(Object.fromEntries(toReorder.map(row => [row.product_id, {
+        selected: !!row.supplier_id,
+        quantity: String(row.suggested_quantity),
+        supplier_id: row.supplier_id ?? '',
+      }])));
+    } catch (error) {
+      console.error('Error fetching reorder suggestions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, appliedSettings]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSuggestions();
+    }
+  }, [isOpen, fetchSuggestions]);
+
+  const updateLine = (productId: string, changes: Partial<SuggestionLine>) =>
+    setLines(prev => ({ ...prev, [productId]: { ...prev[productId], ...changes } }));
+
+  const selected = suggestions.filter(row => lines[row.product_id]?.selected && (parseInt(lines[row.product_id].quantity) || 0) > 0);
+  const missingSupplier = selected.some(row => !lines[row.product_id].supplier_id);
+  const supplierCount = new Set(selected.map(row => lines[row.product_id].supplier_id)).size;
+
+  const handleCreateDrafts = async () => {
+    if (selected.length === 0 || missingSupplier) return;
+
+    const bySupplier = selected.reduce<Record<string, ReorderSuggestion[]>>((acc, row) => {
+      const supplierId = lines[row.product_id].supplier_id;
+      (acc[supplierId] ||= []).push(row);
+      return acc;
+    }, {});
+
+    setSubmitting(true);
+    let created = 0;
+    try {
+      for (const [supplierId, rows] of Object.entries(bySupplier)) {
+        const { error } = await supabase.rpc('create_purchase_order', {
+          p_business_id: businessId,
+          p_supplier_id: supplierId,
+          p_items: rows.map(row => ({
+            product_id: row.product_id,
+            quantity: parseInt(lines[row.product_id].quantity),
+            unit_cost: row.unit_cost ?? 0,
+          })),
+          p_notes: 'Drafted from reorder suggestions',
+          p_draft: true,
+        });
+        if (error) throw error;
+        created++;
+      }
+      onCreated();
+      onClose();
+    } catch (error) {
+      console.error('Error creating draft purchase orders:', error);
+      alert(`Created ${created} of ${Object.keys(bySupplier).length} draft orders before failing: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (created > 0) onCreated();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Reorder Suggestions" size="4xl">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+          {settingFields.map(field => (
+            <div key={field.key}>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{field.label}</label>
+              <Input
+                type="number"
+                min={field.key === 'lookbackDays' ? 1 : 0}
+                value={settings[field.key]}
+                onChange={(e) => setSettings(prev => ({ ...prev, [field.key]: parseInt(e.target.value) || 0 }))}
+              />
+            </div>
+          ))}
+          <Button type="button" variant="secondary" icon={<RefreshCw />} onClick={() => setAppliedSettings({ ...settings })} disabled={loading || settings.lookbackDays < 1}>
+            Recalculate
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          A product is suggested when stock on hand plus stock on order would not last the supplier's lead time plus the safety stock, at its average daily sales. A supplier's own lead time is used when set.
+        </p>
+
+        {loading ? (
+          <p className="py-12 text-center">Calculating suggestions...</p>
+        ) : suggestions.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Nothing to reorder</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Every product that sells has enough stock on hand or on order.</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableHead><span className="sr-only">Select</span></TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>On Hand</TableHead>
+                <TableHead>Sells / Day</TableHead>
+                <TableHead>Days of Cover</TableHead>
+                <TableHead>Order Qty</TableHead>
+                <TableHead>Supplier</TableHead>
+              </TableHeader>
+              <TableBody>
+                {suggestions.map(row => {
+                  const line = lines[row.product_id];
+                  return (
+                    <TableRow key={row.product_id}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={line?.selected ?? false}
+                          onChange={(e) => updateLine(row.product_id, { selected: e.target.checked })}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.product_name}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          Reorder at {row.reorder_point}{row.on_order + row.on_draft > 0 && `, ${row.on_order + row.on_draft} already on order`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{row.stock_quantity} {row.unit}(s)</TableCell>
+                      <TableCell>{row.avg_daily_sales}</TableCell>
+                      <TableCell className={row.days_of_cover != null && row.days_of_cover < row.lead_time_days ? 'text-red-600 dark:text-red-400' : undefined}>
+                        {row.days_of_cover ?? '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line?.quantity ?? ''}
+                          onChange={(e) => updateLine(row.product_id, { quantity: e.target.value })}
+                          className="w-20 text-center"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <select value={line?.supplier_id ?? ''} onChange={(e) => updateLine(row.product_id, { supplier_id: e.target.value })} className={selectClasses}>
+                          <option value="">Choose supplier</option>
+                          {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {missingSupplier && <p className="text-sm text-red-600 dark:text-red-400">Choose a supplier for every selected product.</p>}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="button" onClick={handleCreateDrafts} disabled={selected.length === 0 || missingSupplier || submitting}>
+            {submitting ? 'Creating...' : `Create ${supplierCount || ''} Draft Order${supplierCount === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
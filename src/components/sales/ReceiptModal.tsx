@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Download, Printer, Share2, RefreshCw } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import {
+  fetchReceipt,
+  downloadReceiptPdf,
+  printThermalReceipt,
+  shareReceipt,
+  vatBreakdown,
+  type Receipt,
+  type ReceiptWidth,
+} from '../../lib/receipts';
+import { tenderLabels } from '../../lib/tenders';
+import { submitEtimsInvoice } from '../../lib/tax';
+
+interface ReceiptModalProps {
+  saleId: string | null;
+  onClose: () => void;
+}
+
+export function ReceiptModal({ saleId, onClose }: ReceiptModalProps) {
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [paperWidth, setPaperWidth] = useState<ReceiptWidth>(80);
+  const [signing, setSigning] = useState(false);
+
+  useEffect(() => {
+    if (!saleId) {
+      setReceipt(null);
+      return;
+    }
+    const loadReceipt = async () => {
+      setLoading(true);
+      try {
+        setReceipt(await fetchReceipt(saleId));
+      } catch (error) {
+        console.error('Error fetching receipt:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadReceipt();
+  }, [saleId]);
+
+  const signReceipt = useCallback(async (saleToSign: string) => {
+    setSigning(true);
+    try {
+      const invoice = await submitEtimsInvoice(saleToSign);
+      setReceipt(prev => prev && prev.sale.id === saleToSign ? { ...prev, etims: invoice } : prev);
+    } catch (error) {
+      console.error('Error submitting eTIMS invoice:', error);
+    } finally {
+      setSigning(false);
+    }
+  }, []);
+
+  // Sales are signed the first time their receipt is shown; failed submissions wait for a retry
+  const needsSigning = !!receipt && receipt.business.vat_registered && receipt.business.etims_enabled && !receipt.etims;
+  useEffect(() => {
+    if (needsSigning && receipt) signReceipt(receipt.sale.id);
+  }, [needsSigning, receipt, signReceipt]);
+
+  const handlePrint = () => {
+    if (!receipt) return;
+    try {
+      printThermalReceipt(receipt, paperWidth);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not print receipt');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!receipt) return;
+    try {
+      const result = await shareReceipt(receipt);
+      if (result === 'copied') alert('Receipt copied to clipboard.');
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+    }
+  };
+
+  const change = receipt?.payments.reduce((acc, payment) => acc + payment.change_amount, 0) || 0;
+
+  return (
+    <Modal isOpen={!!saleId} onClose={onClose} title="Receipt">
+      {loading || !receipt ? (
+        <p className="py-12 text-center">Loading receipt...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="font-mono text-sm text-gray-900 dark:text-gray-100 bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
+            <div className="text-center mb-3">
+              {receipt.business.logo_url && (
+                <img src={receipt.business.logo_url} alt={receipt.business.name} className="h-12 mx-auto mb-2 object-contain" />
+              )}
+              <div className="font-bold uppercase">{receipt.business.name}</div>
+              {receipt.business.location && <div className="text-xs">{receipt.business.location}</div>}
+              {receipt.business.phone && <div className="text-xs">Tel: {receipt.business.phone}</div>}
+              {receipt.business.kra_pin && <div className="text-xs">PIN: {receipt.business.kra_pin}</div>}
+            </div>
+            <div className="text-xs border-y border-dashed border-gray-300 dark:border-gray-600 py-2 mb-2">
+              <div>Receipt: {receipt.sale.receipt_number}</div>
+              <div>Date: {format(new Date(receipt.sale.created_at), 'dd/MM/yyyy HH:mm')}</div>
+              {receipt.cashier_name && <div>Cashier: {receipt.cashier_name}</div>}
+            </div>
+            {receipt.items.map((item, index) => (
+              <div key={index} className="mb-1">
+                <div>{item.name}</div>
+                <div className="flex justify-between text-xs">
+                  <span>{item.quantity}{item.unit_name ? ` ${item.unit_name}` : ''} x {item.unit_price.toLocaleString()}</span>
+                  <span>{(item.total_price + item.discount_amount).toLocaleString()}</span>
+                </div>
+                {item.discount_amount > 0 && (
+                  <div className="flex justify-between text-xs">
+                    <span>{item.promotion_name || 'Discount'}</span>
+                    <span>-{item.discount_amount.toLocaleString()}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+            <div className="border-t border-dashed border-gray-300 dark:border-gray-600 pt-2 mt-2 space-y-1">
+              <div className="flex justify-between font-bold">
+                <span>TOTAL</span>
+                <span>KSh {receipt.sale.total_amount.toLocaleString()}</span>
+              </div>
+              {receipt.business.vat_registered && (
+                <>
+                  {vatBreakdown(receipt.items).map(line => (
+                    <div key={line.label} className="flex justify-between text-xs">
+                      <span>{line.label} taxable{line.tax > 0 ? ` / VAT ${line.tax.toLocaleString()}` : ''}</span>
+                      <span>{line.taxable.toLocaleString()}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between text-xs">
+                    <span>Total VAT</span>
+                    <span>{receipt.sale.tax_amount.toLocaleString()}</span>
+                  </div>
+                </>
+              )}
+              {receipt.payments.map(payment => (
+                <div key={payment.id} className="flex justify-between text-xs">
+                  <span>{tenderLabels[payment.method]}{payment.reference ? ` (${payment.reference})` : ''}</span>
+                  <span>{(payment.tendered_amount ?? payment.amount).toLocaleString()}</span>
+                </div>
+              ))}
+              {change > 0 && (
+                <div className="flex justify-between text-xs">
+                  <span>Change</span>
+                  <span>{change.toLocaleString()}</span>
+                </div>
+              )}
+            </div>
+            {receipt.etims?.status === 'signed' && (
+              <div className="border-t border-dashed border-gray-300 dark:border-gray-600 pt-2 mt-2 text-xs break-all">
+                <div>CU Invoice No: {receipt.etims.cu_invoice_number}</div>
+                {receipt.etims.qr_data && (
+                  <a href={receipt.etims.qr_data} target="_blank" rel="noreferrer" className="text-primary-600 dark:text-primary-400 underline">
+                    Verify on KRA eTIMS
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+
+          {receipt.business.vat_registered && receipt.business.etims_enabled && receipt.etims?.status !== 'signed' && (
+            <div className="flex items-center justify-between text-sm text-amber-600 dark:text-amber-400">
+              <span>
+                {signing
+                  ? 'Submitting invoice to eTIMS...'
+                  : receipt.etims?.status === 'pending'
+                  ? 'eTIMS is still signing this invoice'
+                  : `Not signed by eTIMS${receipt.etims?.error ? `: ${receipt.etims.error}` : ''}`}
+              </span>
+              {!signing && (
+                <Button type="button" variant="secondary" size="sm" icon={<RefreshCw />} onClick={() => signReceipt(receipt.sale.id)}>
+                  Retry
+                </Button>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Paper width</label>
+            <select value={paperWidth} onChange={(e) => setPaperWidth(Number(e.target.value) as ReceiptWidth)} className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white">
+              <option value={58}>58mm</option>
+              <option value={80}>80mm</option>
+            </select>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="secondary" icon={<Share2 />} onClick={handleShare}>Share</Button>
+            <Button type="button" variant="secondary" icon={<Download />} onClick={() => downloadReceiptPdf(receipt, paperWidth)}>PDF</Button>
+            <Button type="button" icon={<Printer />} onClick={handlePrint}>Print</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
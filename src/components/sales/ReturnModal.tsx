@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, type PaymentMethod, type SaleReturnStatus } from '../../lib/supabase';
+import { tenderLabels } from '../../lib/tenders';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+
+interface ReturnModalProps {
+  sale: { id: string; receipt_number: string; customer_id?: string | null } | null;
+  isManager: boolean;
+  onClose: () => void;
+  onReturned: () => void;
+}
+
+interface ReturnableLine {
+  id: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  unit_name: string | null;
+  products: { name: string; is_weighed: boolean } | null;
+  sale_return_items: { quantity: number; sale_returns: { status: SaleReturnStatus } | null }[];
+}
+
+const reasonCodes = [
+  { value: 'damaged', label: 'Damaged / defective' },
+  { value: 'wrong_item', label: 'Wrong item' },
+  { value: 'changed_mind', label: 'Customer changed mind' },
+  { value: 'pricing_error', label: 'Pricing error' },
+  { value: 'cashier_error', label: 'Cashier error' },
+  { value: 'other', label: 'Other' },
+];
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+export function ReturnModal({ sale, isManager, onClose, onReturned }: ReturnModalProps) {
+  const [lines, setLines] = useState<ReturnableLine[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reasonCode, setReasonCode] = useState(reasonCodes[0].value);
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [notes, setNotes] = useState('');
+  const [isVoid, setIsVoid] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!sale) return;
+    const fetchLines = async () => {
+      setLoading(true);
+      setQuantities({});
+      setIsVoid(false);
+      setNotes('');
+      try {
+        const { data, error } = await supabase
+          .from('sale_items')
+          .select('id, quantity, unit_price, total_price, unit_name, products(name, is_weighed), sale_return_items(quantity, sale_returns(status))')
+          .eq('sale_id', sale.id);
+        if (error) throw error;
+        setLines(data as unknown as ReturnableLine[] || []);
+      } catch (error) {
+        console.error('Error fetching sale items:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchLines();
+  }, [sale]);
+
+  const returnable = (line: ReturnableLine) => Math.round((line.quantity - line.sale_return_items
+    .filter(item => item.sale_returns?.status !== 'rejected')
+    .reduce((acc, item) => acc + item.quantity, 0)) * 1000) / 1000;
+
+  // Weighed items sold loose can be returned in part, to the gram
+  const isWeighedLine = (line: ReturnableLine) => !!line.products?.is_weighed && !line.unit_name;
+  const parseReturnQuantity = (line: ReturnableLine, value: string) => isWeighedLine(line)
+    ? Math.round((parseFloat(value) || 0) * 1000) / 1000
+    : parseInt(value) || 0;
+
+  // Refunds are at the price actually paid, so discounts given at the till are not refunded
+  const paidPrice = (line: ReturnableLine) => line.total_price / line.quantity;
+
+  const refundTotal = lines.reduce((acc, line) => {
+    const quantity = isVoid ? returnable(line) : (quantities[line.id] || 0);
+    return acc + Math.round(quantity * line.total_price / line.quantity * 100) / 100;
+  }, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sale || refundTotal <= 0) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('create_sale_return', {
+        p_sale_id: sale.id,
+        p_items: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([sale_item_id, quantity]) => ({ sale_item_id, quantity })),
+        p_reason_code: reasonCode,
+        p_refund_method: refundMethod,
+        p_notes: notes || null,
+        p_is_void: isVoid,
+      });
+      if (error) throw error;
+
+      if (isVoid && !isManager) {
+        alert('Void request sent to a manager for approval.');
+      }
+      onReturned();
+      onClose();
+    } catch (error) {
+      console.error('Error processing return:', error);
+      alert(`Failed to process return: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!sale} onClose={onClose} title={`Return Items - ${sale?.receipt_number ?? ''}`}>
+      {loading ? (
+        <p className="py-12 text-center">Loading sale...</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={isVoid} onChange={(e) => setIsVoid(e.target.checked)} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+            <span>Void the entire sale{!isManager && ' (needs manager approval)'}</span>
+          </label>
+
+          <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
+            {lines.map(line => {
+              const remaining = returnable(line);
+              return (
+                <div key={line.id} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg">
+                  <div>
+                    <div className="text-sm font-medium">{line.products?.name ?? 'Unknown product'}{line.unit_name ? ` (${line.unit_name})` : ''}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{remaining} of {line.quantity} returnable at KSh {paidPrice(line).toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={remaining}
+                    step={isWeighedLine(line) ? '0.001' : '1'}
+                    value={isVoid ? remaining : (quantities[line.id] ?? 0)}
+                    onChange={(e) => setQuantities(prev => ({ ...prev, [line.id]: Math.min(Math.max(parseReturnQuantity(line, e.target.value), 0), remaining) }))}
+                    disabled={isVoid || remaining === 0}
+                    className="w-20 text-center"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Reason</label>
+            <select value={reasonCode} onChange={(e) => setReasonCode(e.target.value)} className={selectClasses}>
+              {reasonCodes.map(reason => <option key={reason.value} value={reason.value}>{reason.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Refund Method</label>
+            <select value={refundMethod} onChange={(e) => setRefundMethod(e.target.value as PaymentMethod)} className={selectClasses}>
+              {(Object.keys(tenderLabels) as PaymentMethod[])
+                .filter(method => method !== 'account' || sale?.customer_id)
+                .map(method => <option key={method} value={method}>{tenderLabels[method]}</option>)}
+            </select>
+          </div>
+
+          <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <span className="text-lg font-bold">Refund:</span>
+            <span className="text-lg font-bold">KSh {refundTotal.toLocaleString()}</span>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+            <Button type="submit" variant="danger" disabled={refundTotal <= 0 || submitting}>
+              {submitting ? 'Processing...' : isVoid ? 'Void Sale' : 'Process Return'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
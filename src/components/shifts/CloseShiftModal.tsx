@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, type CashShift } from '../../lib/supabase';
+import { denominations, countDenominations } from '../../lib/shifts';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+
+interface CloseShiftModalProps {
+  shift: CashShift | null;
+  onClose: () => void;
+  onClosed: (shiftId: string) => void;
+}
+
+export function CloseShiftModal({ shift, onClose, onClosed }: CloseShiftModalProps) {
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [counted, setCounted] = useState({ mpesa: '', card: '' });
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setCounts({});
+    setCounted({ mpesa: '', card: '' });
+    setNotes('');
+  }, [shift]);
+
+  const parsedCounts = Object.fromEntries(
+    Object.entries(counts)
+      .map(([value, count]) => [value, parseInt(count) || 0] as const)
+      .filter(([, count]) => count > 0),
+  );
+  const countedCash = countDenominations(parsedCounts);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shift) return;
+    if (!window.confirm(`Close shift ${shift.shift_number} with KSh ${countedCash.toLocaleString()} counted in the drawer? This cannot be undone.`)) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('close_cash_shift', {
+        p_shift_id: shift.id,
+        p_denominations: parsedCounts,
+        p_counted: {
+          ...(counted.mpesa !== '' && { mpesa: parseFloat(counted.mpesa) }),
+          ...(counted.card !== '' && { card: parseFloat(counted.card) }),
+        },
+        p_notes: notes || null,
+      });
+      if (error) throw error;
+      onClosed(shift.id);
+    } catch (error) {
+      console.error('Error closing shift:', error);
+      alert(`Failed to close shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!shift} onClose={onClose} title={`Close Shift - ${shift?.shift_number ?? ''}`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Count every note and coin in the drawer, including the float.
+        </p>
+        <div className="space-y-2">
+          {denominations.map(d => (
+            <div key={d.value} className="flex items-center justify-between space-x-4">
+              <span className="text-sm w-28">{d.label}</span>
+              <Input
+                type="number"
+                min="0"
+                step="1"
+                placeholder="0"
+                value={counts[d.value] ?? ''}
+                onChange={(e) => setCounts(prev => ({ ...prev, [d.value]: e.target.value }))}
+              />
+              <span className="text-sm text-right w-28 text-gray-500 dark:text-gray-400">
+                {((parseInt(counts[d.value]) || 0) * d.value).toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between font-medium border-t border-gray-200 dark:border-gray-700 pt-2">
+          <span>Cash counted</span>
+          <span>KSh {countedCash.toLocaleString()}</span>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <Input type="number" min="0" step="0.01" placeholder="M-Pesa total (statement)" value={counted.mpesa} onChange={(e) => setCounted(prev => ({ ...prev, mpesa: e.target.value }))} />
+          <Input type="number" min="0" step="0.01" placeholder="Card total (terminal batch)" value={counted.card} onChange={(e) => setCounted(prev => ({ ...prev, card: e.target.value }))} />
+        </div>
+        <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={submitting}>{submitting ? 'Closing...' : 'Close Shift'}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
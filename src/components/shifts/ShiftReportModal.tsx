@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { fetchShiftReport, printShiftReport, cashMovementLabels, type ShiftReport } from '../../lib/shifts';
+import { tenderLabels } from '../../lib/tenders';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../ui/Table';
+import { format } from 'date-fns';
+import { Printer } from 'lucide-react';
+
+interface ShiftReportModalProps {
+  shiftId: string | null;
+  businessName: string;
+  onClose: () => void;
+}
+
+const money = (value: number | null | undefined) => value == null ? '-' : `KSh ${value.toLocaleString()}`;
+
+const varianceClasses = (variance: number) =>
+  variance === 0 ? 'text-gray-900 dark:text-white' : variance > 0 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400';
+
+export function ShiftReportModal({ shiftId, businessName, onClose }: ShiftReportModalProps) {
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!shiftId) return;
+    setReport(null);
+    setLoading(true);
+    fetchShiftReport(shiftId)
+      .then(setReport)
+      .catch(error => console.error('Error fetching shift report:', error))
+      .finally(() => setLoading(false));
+  }, [shiftId]);
+
+  const isZ = report?.status === 'closed';
+
+  return (
+    <Modal isOpen={!!shiftId} onClose={onClose} title={report ? `${isZ ? 'Z' : 'X'} Report - ${report.shift_number}` : 'Shift Report'} size="4xl">
+      {loading || !report ? (
+        <p className="py-6 text-center">{loading ? 'Loading report...' : 'Report not available.'}</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {report.cashier_name || 'Unknown cashier'} · Opened {format(new Date(report.opened_at), 'dd MMM yyyy HH:mm')}
+            {report.closed_at && ` · Closed ${format(new Date(report.closed_at), 'dd MMM yyyy HH:mm')}`} · {report.sale_count} sale(s)
+          </div>
+          <Table>
+            <TableHeader>
+              <TableHead>Tender</TableHead>
+              <TableHead>Sales</TableHead>
+              <TableHead>Refunds</TableHead>
+              <TableHead>Repayments</TableHead>
+              <TableHead>Deposits</TableHead>
+              {report.can_see_variance && <TableHead>Expected</TableHead>}
+              <TableHead>Counted</TableHead>
+              {report.can_see_variance && <TableHead>Over / Short</TableHead>}
+            </TableHeader>
+            <TableBody>
+              {report.tenders.map(tender => (
+                <TableRow key={tender.method}>
+                  <TableCell><div className="font-medium">{tenderLabels[tender.method]}</div></TableCell>
+                  <TableCell>{money(tender.sales)}</TableCell>
+                  <TableCell>{money(tender.refunds)}</TableCell>
+                  <TableCell>{money(tender.repayments)}</TableCell>
+                  <TableCell>{money(tender.deposits)}</TableCell>
+                  {report.can_see_variance && <TableCell>{money(tender.expected)}</TableCell>}
+                  <TableCell>{money(tender.counted)}</TableCell>
+                  {report.can_see_variance && (
+                    <TableCell>
+                      {tender.variance == null ? '-' : (
+                        <span className={`font-medium ${varianceClasses(tender.variance)}`}>
+                          {tender.variance > 0 ? 'Over ' : tender.variance < 0 ? 'Short ' : ''}{money(Math.abs(tender.variance))}
+                        </span>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg">
+              <p className="text-gray-500 dark:text-gray-400">Opening float</p>
+              <p className="font-medium">{money(report.opening_float)}</p>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg">
+              <p className="text-gray-500 dark:text-gray-400">Paid in</p>
+              <p className="font-medium">{money(report.paid_in)}</p>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg">
+              <p className="text-gray-500 dark:text-gray-400">Paid out</p>
+              <p className="font-medium">{money(report.paid_out)}</p>
+            </div>
+          </div>
+          {report.movements.length > 0 && (
+            <div className="space-y-2">
+              {report.movements.map((movement, index) => (
+                <div key={index} className="flex justify-between text-sm bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg">
+                  <span>{format(new Date(movement.created_at), 'HH:mm')} · {cashMovementLabels[movement.movement_type]}: {movement.reason}</span>
+                  <span className="font-medium">{movement.movement_type === 'paid_out' ? '-' : ''}{money(movement.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {report.notes && <p className="text-sm text-gray-600 dark:text-gray-300">Notes: {report.notes}</p>}
+          {!report.can_see_variance && isZ && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Expected amounts and over/short are visible to managers.</p>
+          )}
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={onClose}>Close</Button>
+            <Button type="button" icon={<Printer />} onClick={() => printShiftReport(report, businessName)}>Print</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+
+// USB barcode scanners act as keyboards ("keyboard wedge"): they type the code far faster than a
+// person and finish with Enter. Keys typed into a form field are left to that field, so this only
+// catches scans made while focus is elsewhere on the page.
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+export function useBarcodeWedge(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const now = event.timeStamp;
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (event.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (event.key.length === 1 && !event.ctrlKey && !event.altKey && !event.metaKey) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, type Branch } from '../lib/supabase';
+
+// Loads a business's branches, default first. Most screens only offer a branch choice when there is more than one.
+export function useBranches(businessId: string) {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!businessId) return;
+    const { data, error } = await supabase
+      .from('branches')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('is_default', { ascending: false })
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching branches:', error);
+    } else {
+      setBranches(data || []);
+    }
+    setLoading(false);
+  }, [businessId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const activeBranches = branches.filter(branch => branch.is_active);
+
+  return {
+    branches,
+    activeBranches,
+    defaultBranch: branches.find(branch => branch.is_default) ?? null,
+    hasMultipleBranches: activeBranches.length > 1,
+    loading,
+    refresh,
+  };
+}
@@ -0,0 +1,558 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, type Customer, type LayawayPaymentMethod, type PaymentMethod, type Promotion, type ScaleBarcodeFormat } from '../lib/supabase';
+import { requestStkPush, waitForMpesaPayment } from '../lib/mpesa';
+import { summariseTenders, tenderLabels } from '../lib/tenders';
+import { cacheProducts, getCachedProducts, queueSale, offlineReceiptNumber, type CachedProduct, type CachedProductUnit } from '../lib/offlineStore';
+import { findCustomerByPhone, fetchCustomerBalance } from '../lib/customers';
+import { allocateBasketDiscount, bestPromotion, discountValue, fetchMaxDiscountPercent, fetchPromotions, type DiscountType } from '../lib/promotions';
+import { vatInclusivePrice, type TaxSettings } from '../lib/tax';
+import { bundleAvailability, bundleComponentsSelect } from '../lib/bundles';
+import { findByCode, type HeldBasket, type SaleItemInput } from '../lib/basket';
+import { fetchReservedStock } from '../lib/layaways';
+import { fetchBranchStock, fetchStaffBranchId } from '../lib/branches';
+import { normalizePlu, parseScaleBarcode } from '../lib/barcodes';
+import { parseSaleError, SaleValidationError, type SaleLineError } from '../lib/saleValidation';
+import { useAuth } from '../contexts/AuthContext';
+import { useOnlineStatus } from './useOnlineStatus';
+
+export interface TenderEntry {
+  method: PaymentMethod;
+  amount: string;
+  reference: string;
+}
+
+export interface LayawayDeposit {
+  method: LayawayPaymentMethod;
+  amount: number;
+  reference: string;
+}
+
+const emptyTenders: TenderEntry[] = [{ method: 'cash', amount: '', reference: '' }];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+// Weighed items are sold to the gram
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// Products with stock, and bundles whose components can still make up at least one
+const sellableProducts = (catalog: CachedProduct[]) => {
+  const stock = Object.fromEntries(catalog.map(product => [product.id, product.stock_quantity]));
+  return catalog.filter(product => product.is_bundle
+    ? bundleAvailability(product.product_bundle_components, stock) > 0
+    : product.stock_quantity > 0);
+};
+
+// Everything behind ringing up a sale, shared by the Sales page and the full-screen POS: the sellable
+// catalog (cached for offline use), the basket with promotions and discounts applied, tenders, the
+// customer, `completeSale`, which records the sale online, through M-Pesa, or in the offline outbox, and
+// `createLayaway`, which reserves the basket against a deposit instead.
+export function useSaleBasket(businessId: string, taxSettings: TaxSettings, scaleBarcodeFormats: ScaleBarcodeFormat[] = []) {
+  const { user } = useAuth();
+  const isOnline = useOnlineStatus();
+
+  const [products, setProducts] = useState<CachedProduct[]>([]);
+  const [saleItems, setSaleItems] = useState<SaleItemInput[]>([]);
+  const [tenders, setTenders] = useState<TenderEntry[]>(emptyTenders);
+  const [mpesaPhone, setMpesaPhone] = useState('');
+  const [mpesaStatus, setMpesaStatus] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [matchedCustomer, setMatchedCustomer] = useState<Customer | null>(null);
+  const [customerBalance, setCustomerBalance] = useState(0);
+  const [basketDiscountType, setBasketDiscountType] = useState<DiscountType>('percent');
+  const [basketDiscountValue, setBasketDiscountValue] = useState(0);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [maxDiscountPercent, setMaxDiscountPercent] = useState(0);
+  const [processing, setProcessing] = useState(false);
+  const [lineErrors, setLineErrors] = useState<SaleLineError[]>([]);
+  const mpesaAbort = useRef<AbortController | null>(null);
+
+  // Stock is what this cashier's branch holds, as checkout and offline sync check it, less goods held there for layaways
+  const fetchProducts = useCallback(async () => {
+    if (!user) return;
+    try {
+      const branchId = await fetchStaffBranchId(businessId, user.id);
+      const [{ data, error }, branchStock, reserved] = await Promise.all([
+        supabase
+          .from('products')
+          .select(`id, business_id, name, category, selling_price, tax_class, sku, stock_quantity, unit, is_bundle, is_quick_key, is_weighed, plu, product_units(id, name, conversion_factor, selling_price, barcode, is_active), ${bundleComponentsSelect}`)
+          .eq('business_id', businessId),
+        branchId ? fetchBranchStock(branchId) : Promise.resolve({} as Record<string, number>),
+        fetchReservedStock(businessId, branchId),
+      ]);
+      if (error) throw error;
+      // Goods held for layaways are on the shelf but not for sale, offline included
+      const catalog = (data || []).map(product => ({ ...product, stock_quantity: (branchStock[product.id] ?? 0) - (reserved[product.id] ?? 0) }));
+      setProducts(sellableProducts(catalog));
+      cacheProducts(businessId, catalog).catch(cacheError => console.error('Error caching products:', cacheError));
+    } catch (error) {
+      // Offline: ring up from the catalog cached on this device
+      console.error('Error fetching products:', error);
+      try {
+        const cached = await getCachedProducts(businessId);
+        setProducts(sellableProducts(cached));
+      } catch (cacheError) {
+        console.error('Error reading cached products:', cacheError);
+      }
+    }
+  }, [businessId, user]);
+
+  // Offline, the till keeps applying whatever rules it loaded last
+  const fetchPricingRules = useCallback(async () => {
+    if (!user) return;
+    try {
+      setPromotions(await fetchPromotions(businessId));
+      setMaxDiscountPercent(await fetchMaxDiscountPercent(businessId, user.id));
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+    }
+  }, [businessId, user]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchProducts();
+      fetchPricingRules();
+    }
+  }, [businessId, fetchProducts, fetchPricingRules]);
+
+  // Each price label is its own line, so the price printed on it stays the line total
+  const addProductToSale = (product: CachedProduct, unit: CachedProductUnit | null = null, quantity = 1, lineTotal: number | null = null) => {
+    const key = lineTotal == null ? `${product.id}:${unit?.id ?? ''}` : `${product.id}:label:${crypto.randomUUID()}`;
+    if (saleItems.find(item => item.key === key)) {
+      // If item exists, increment quantity
+      setSaleItems(prev => prev.map(item =>
+        item.key === key ? { ...item, quantity: round3(item.quantity + quantity) } : item
+      ));
+    } else {
+      // Otherwise, add new item
+      setSaleItems(prev => [...prev, {
+        key,
+        product_id: product.id,
+        product_unit_id: unit?.id ?? null,
+        unit_name: unit?.name ?? null,
+        name: product.name,
+        category: product.category,
+        is_weighed: product.is_weighed && !unit,
+        quantity,
+        unit_price: vatInclusivePrice(unit?.selling_price ?? product.selling_price, product.tax_class, taxSettings),
+        line_total: lineTotal,
+        discount_type: 'percent',
+        discount_value: 0,
+      }]);
+    }
+    return key;
+  };
+
+  // Only weighed items sold loose take fractions; everything else is sold in whole units
+  const setItemQuantity = (key: string, quantity: number) => {
+    const line = saleItems.find(item => item.key === key);
+    if (!line || isNaN(quantity)) return;
+    const allowed = line.is_weighed ? round3(quantity) : Math.floor(quantity);
+    if (allowed <= 0) return;
+    setSaleItems(prev => prev.map(item =>
+      item.key === key ? { ...item, quantity: allowed, line_total: null } : item
+    ));
+  };
+
+  // Scale labels resolve by PLU to the weight printed on them, or the weight their price works out to at the
+  // product's price per kilo, charged at the printed price; any other code is a SKU or pack barcode and rings up one of it
+  const lookupCode = (code: string): { product: CachedProduct; unit: CachedProductUnit | null; quantity: number; lineTotal: number | null } | null => {
+    const label = parseScaleBarcode(code, scaleBarcodeFormats);
+    const product = label && products.find(p => p.plu && normalizePlu(p.plu) === label.plu);
+    if (label && product) {
+      const price = vatInclusivePrice(product.selling_price, product.tax_class, taxSettings);
+      const quantity = label.embedded === 'weight' ? label.value : price > 0 ? label.value / price : 1;
+      if (!product.is_weighed) return { product, unit: null, quantity: Math.max(Math.round(quantity), 1), lineTotal: null };
+      const weight = round3(quantity);
+      return label.embedded === 'price' && weight >= 0.001
+        ? { product, unit: null, quantity: weight, lineTotal: round2(label.value) }
+        : { product, unit: null, quantity: Math.max(weight, 0.001), lineTotal: null };
+    }
+    const match = findByCode(products, code);
+    return match && { ...match, quantity: 1, lineTotal: null };
+  };
+
+  const setItemPrice = (key: string, unitPrice: number) => {
+    if (isNaN(unitPrice) || unitPrice < 0) return;
+    setSaleItems(prev => prev.map(item =>
+      item.key === key ? { ...item, unit_price: unitPrice, line_total: null } : item
+    ));
+  };
+
+  const setItemUnit = (key: string, unitId: string) => {
+    const line = saleItems.find(item => item.key === key);
+    const product = products.find(p => p.id === line?.product_id);
+    if (!line || !product) return;
+    const unit = product.product_units?.find(u => u.id === unitId) ?? null;
+    const newKey = `${product.id}:${unit?.id ?? ''}`;
+    setSaleItems(prev => {
+      const existing = prev.find(item => item.key === newKey);
+      if (existing && existing.key !== key) {
+        return prev
+          .filter(item => item.key !== key)
+          .map(item => item.key === newKey ? { ...item, quantity: item.quantity + line.quantity } : item);
+      }
+      return prev.map(item => item.key === key ? {
+        ...item,
+        key: newKey,
+        product_unit_id: unit?.id ?? null,
+        unit_name: unit?.name ?? null,
+        is_weighed: product.is_weighed && !unit,
+        quantity: product.is_weighed && !unit ? item.quantity : Math.max(1, Math.floor(item.quantity)),
+        unit_price: vatInclusivePrice(unit?.selling_price ?? product.selling_price, product.tax_class, taxSettings),
+        line_total: null,
+      } : item);
+    });
+  };
+
+  const setItemDiscount = (key: string, changes: Partial<Pick<SaleItemInput, 'discount_type' | 'discount_value'>>) => {
+    setSaleItems(prev => prev.map(item =>
+      item.key === key ? { ...item, ...changes } : item
+    ));
+  };
+
+  const removeItem = (key: string) => {
+    setSaleItems(prev => prev.filter(item => item.key !== key));
+  };
+
+  // Promotions come off first, then the cashier's line discount, then the basket discount spread over the lines
+  const pricedItems = saleItems.map(item => {
+    const gross = item.line_total ?? round2(item.unit_price * item.quantity);
+    const promotion = bestPromotion(promotions, { id: item.product_id, category: item.category }, item.quantity, item.unit_price);
+    const promotionDiscount = Math.min(promotion?.discount ?? 0, gross);
+    const lineDiscount = discountValue(item.discount_type, item.discount_value, gross - promotionDiscount);
+    return { ...item, gross, promotion: promotion?.promotion ?? null, promotionDiscount, lineDiscount };
+  });
+  const amountsAfterLineDiscounts = pricedItems.map(item => round2(item.gross - item.promotionDiscount - item.lineDiscount));
+  const basketDiscount = discountValue(basketDiscountType, basketDiscountValue, amountsAfterLineDiscounts.reduce((acc, amount) => acc + amount, 0));
+  const basketShares = allocateBasketDiscount(amountsAfterLineDiscounts, basketDiscount);
+  const discountedItems = pricedItems.map((item, index) => ({
+    ...item,
+    manualDiscount: round2(item.lineDiscount + basketShares[index]),
+    discountAmount: round2(item.promotionDiscount + item.lineDiscount + basketShares[index]),
+  }));
+  const subtotal = round2(discountedItems.reduce((acc, item) => acc + item.gross, 0));
+  const totalDiscount = round2(discountedItems.reduce((acc, item) => acc + item.discountAmount, 0));
+  const totalSaleAmount = round2(subtotal - totalDiscount);
+  const itemsOverDiscountLimit = discountedItems.filter(item => item.manualDiscount > round2(item.gross * maxDiscountPercent / 100));
+
+  const tenderSummary = summariseTenders(totalSaleAmount, tenders.map(t => ({
+    method: t.method,
+    amount: parseFloat(t.amount) || 0,
+    reference: t.reference,
+  })));
+  const hasMpesaTender = tenders.some(t => t.method === 'mpesa');
+  const hasAccountTender = tenders.some(t => t.method === 'account');
+  const unusedMethods = (Object.keys(tenderLabels) as PaymentMethod[]).filter(m => !tenders.some(t => t.method === m));
+
+  const setTender = (index: number, changes: Partial<TenderEntry>) => {
+    setTenders(prev => prev.map((t, i) => i === index ? { ...t, ...changes } : t));
+  };
+
+  const addTender = () => {
+    if (unusedMethods.length === 0) return;
+    setTenders(prev => [...prev, { method: unusedMethods[0], amount: tenderSummary.balance ? String(tenderSummary.balance) : '', reference: '' }]);
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const resetSaleForm = () => {
+    setSaleItems([]);
+    setTenders(emptyTenders);
+    setMpesaPhone('');
+    setMpesaStatus('');
+    setCustomerPhone('');
+    setCustomerName('');
+    setMatchedCustomer(null);
+    setCustomerBalance(0);
+    setBasketDiscountType('percent');
+    setBasketDiscountValue(0);
+    setLineErrors([]);
+  };
+
+  // The basket as it can be parked with `holdBasket`; tenders are taken again when it is recalled.
+  const basketToHold = (): Omit<HeldBasket, 'id' | 'held_at'> => ({
+    items: saleItems,
+    customer_name: customerName,
+    customer_phone: customerPhone,
+    basket_discount_type: basketDiscountType,
+    basket_discount_value: basketDiscountValue,
+  });
+
+  const restoreBasket = (basket: HeldBasket) => {
+    resetSaleForm();
+    setSaleItems(basket.items);
+    setCustomerName(basket.customer_name);
+    setCustomerPhone(basket.customer_phone);
+    setBasketDiscountType(basket.basket_discount_type);
+    setBasketDiscountValue(basket.basket_discount_value);
+  };
+
+  const lookupCustomer = async () => {
+    if (!customerPhone.trim()) {
+      setMatchedCustomer(null);
+      return;
+    }
+    try {
+      const customer = await findCustomerByPhone(businessId, customerPhone);
+      setMatchedCustomer(customer);
+      setCustomerBalance(customer ? await fetchCustomerBalance(customer.id) : 0);
+      if (customer?.name && !customerName) setCustomerName(customer.name);
+    } catch (error) {
+      // Lookup is a convenience; the sale still links the customer by phone when recorded
+      console.error('Error looking up customer:', error);
+    }
+  };
+
+  const cancelMpesa = () => {
+    mpesaAbort.current?.abort();
+  };
+
+  // Saves the sale in the device outbox with its own receipt number; `syncOutbox` uploads it later.
+  const queueOfflineSale = async () => {
+    const clientSaleId = crypto.randomUUID();
+    const soldAt = new Date();
+    const receiptNumber = offlineReceiptNumber(clientSaleId, soldAt);
+
+    await queueSale({
+      client_sale_id: clientSaleId,
+      business_id: businessId,
+      receipt_number: receiptNumber,
+      items: discountedItems.map(item => ({
+        product_id: item.product_id,
+        product_unit_id: item.product_unit_id,
+        name: item.name,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        line_total: item.line_total ?? null,
+        discount_amount: item.discountAmount,
+        promotion_id: item.promotion?.id ?? null,
+        promotion_discount: item.promotionDiscount,
+      })),
+      payments: tenderSummary.payments,
+      sold_at: soldAt.toISOString(),
+      customer_name: customerName || undefined,
+      customer_phone: customerPhone || undefined,
+    });
+    await fetchProducts();
+    resetSaleForm();
+    alert(`No connection. Sale saved on this device as ${receiptNumber} and will sync when you are back online.`);
+  };
+
+  const itemsForRpc = discountedItems.map(item => ({
+    product_id: item.product_id,
+    product_unit_id: item.product_unit_id,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    line_total: item.line_total ?? null,
+    discount_amount: item.discountAmount,
+    promotion_id: item.promotion?.id ?? null,
+    promotion_discount: item.promotionDiscount,
+  }));
+
+  // Records the basket. Returns null when the sale didn't go through: the cashier has been told why,
+  // and stock or price problems are left in `lineErrors` to show against each line.
+  const completeSale = async (): Promise<{ saleId: string | null; queued: boolean } | null> => {
+    if (!user || !businessId || saleItems.length === 0) return null;
+
+    if (itemsOverDiscountLimit.length > 0) {
+      alert(`Discounts are limited to ${maxDiscountPercent}% of each line for your role. Reduce the discount on: ${itemsOverDiscountLimit.map(item => item.name).join(', ')}.`);
+      return null;
+    }
+
+    if (!tenderSummary.isValid) {
+      alert(`Payments must cover the total of KSh ${totalSaleAmount.toLocaleString()}. Balance due: KSh ${tenderSummary.balance.toLocaleString()}.`);
+      return null;
+    }
+
+    if (!isOnline && hasMpesaTender) {
+      alert('M-Pesa payments need a connection. Take cash or card while offline.');
+      return null;
+    }
+
+    // Daraja charges whole shillings only, so the cents have to go on another tender
+    const mpesaPayment = tenderSummary.payments.find(p => p.method === 'mpesa');
+    if (mpesaPayment && !Number.isInteger(mpesaPayment.amount)) {
+      alert(`M-Pesa takes whole shillings. Push KSh ${Math.floor(mpesaPayment.amount).toLocaleString()} and take the rest in cash.`);
+      return null;
+    }
+
+    if (hasAccountTender) {
+      // The credit limit is checked on the server, so account sales can't be queued offline
+      if (!isOnline) {
+        alert('Sales on account need a connection to check the credit limit.');
+        return null;
+      }
+      if (hasMpesaTender) {
+        alert('An account sale cannot be combined with an M-Pesa prompt. Take the M-Pesa part as a repayment afterwards.');
+        return null;
+      }
+      if (!customerPhone.trim()) {
+        alert("Enter the customer's phone number to sell on account.");
+        return null;
+      }
+    }
+
+    setProcessing(true);
+    setLineErrors([]);
+    try {
+      let saleId: string | null = null;
+      if (!isOnline) {
+        await queueOfflineSale();
+        return { saleId: null, queued: true };
+      }
+      if (hasMpesaTender) {
+        // The sale is recorded server-side by the Daraja callback, not here.
+        const otherTenders = tenderSummary.payments.filter(p => p.method !== 'mpesa');
+        const { request_id, customer_message } = await requestStkPush(businessId, mpesaPhone, itemsForRpc, otherTenders, {
+          name: customerName || null,
+          phone: customerPhone || null,
+        });
+        setMpesaStatus(customer_message || 'Waiting for the customer to confirm on their phone...');
+
+        mpesaAbort.current = new AbortController();
+        const result = await waitForMpesaPayment(request_id, { signal: mpesaAbort.current.signal });
+        if (result.status !== 'completed') {
+          throw new Error(result.result_desc || `M-Pesa payment ${result.status}`);
+        }
+        saleId = result.sale_id || null;
+      } else {
+        const { data, error } = await supabase.rpc('create_sale_and_items', {
+          p_business_id: businessId,
+          p_cashier_id: user.id,
+          p_items: itemsForRpc,
+          p_payments: tenderSummary.payments,
+          p_customer_name: customerName || null,
+          p_customer_phone: customerPhone || null,
+        });
+
+        if (error) throw parseSaleError(error);
+        saleId = data;
+      }
+
+      await fetchProducts();
+      resetSaleForm();
+      return { saleId, queued: false };
+    } catch (error) {
+      console.error('Error creating sale:', error);
+      setMpesaStatus('');
+      if (error instanceof SaleValidationError) {
+        // Stock or prices changed since the basket was built; show the problems next to each line.
+        setLineErrors(error.lineErrors);
+        await fetchProducts();
+        return null;
+      }
+      alert(`Failed to create sale: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    } finally {
+      mpesaAbort.current = null;
+      setProcessing(false);
+    }
+  };
+
+  // Reserves the basket for the customer against a deposit instead of selling it. The goods stop being
+  // sellable at once but stay in stock until the layaway is paid off and recorded as a sale. Returns the
+  // layaway's id, or null when it wasn't created, with stock or price problems left in `lineErrors` as for a sale.
+  const createLayaway = async (deposit: LayawayDeposit): Promise<string | null> => {
+    if (!user || !businessId || saleItems.length === 0) return null;
+
+    if (!isOnline) {
+      alert('Layaways need a connection to reserve the stock.');
+      return null;
+    }
+
+    if (!customerName.trim() || !customerPhone.trim()) {
+      alert("Enter the customer's name and phone number to reserve goods for them.");
+      return null;
+    }
+
+    if (itemsOverDiscountLimit.length > 0) {
+      alert(`Discounts are limited to ${maxDiscountPercent}% of each line for your role. Reduce the discount on: ${itemsOverDiscountLimit.map(item => item.name).join(', ')}.`);
+      return null;
+    }
+
+    if (!(deposit.amount > 0) || deposit.amount >= totalSaleAmount) {
+      alert(`The deposit must be more than nothing and less than the total of KSh ${totalSaleAmount.toLocaleString()}.`);
+      return null;
+    }
+
+    setProcessing(true);
+    setLineErrors([]);
+    try {
+      const { data, error } = await supabase.rpc('create_layaway', {
+        p_business_id: businessId,
+        p_items: itemsForRpc,
+        p_customer_name: customerName,
+        p_customer_phone: customerPhone,
+        p_deposit: { method: deposit.method, amount: round2(deposit.amount), reference: deposit.reference || null },
+      });
+      if (error) throw parseSaleError(error);
+
+      await fetchProducts();
+      resetSaleForm();
+      return data;
+    } catch (error) {
+      console.error('Error creating layaway:', error);
+      if (error instanceof SaleValidationError) {
+        setLineErrors(error.lineErrors);
+        await fetchProducts();
+        return null;
+      }
+      alert(`Failed to reserve the goods: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return {
+    products,
+    fetchProducts,
+    saleItems,
+    addProductToSale,
+    lookupCode,
+    setItemQuantity,
+    setItemPrice,
+    setItemUnit,
+    setItemDiscount,
+    removeItem,
+    discountedItems,
+    subtotal,
+    totalDiscount,
+    totalSaleAmount,
+    itemsOverDiscountLimit,
+    maxDiscountPercent,
+    basketDiscountType,
+    setBasketDiscountType,
+    basketDiscountValue,
+    setBasketDiscountValue,
+    tenders,
+    setTender,
+    addTender,
+    removeTender,
+    tenderSummary,
+    hasMpesaTender,
+    hasAccountTender,
+    unusedMethods,
+    mpesaPhone,
+    setMpesaPhone,
+    mpesaStatus,
+    customerPhone,
+    setCustomerPhone,
+    customerName,
+    setCustomerName,
+    matchedCustomer,
+    setMatchedCustomer,
+    customerBalance,
+    lookupCustomer,
+    processing,
+    lineErrors,
+    resetSaleForm,
+    basketToHold,
+    restoreBasket,
+    cancelMpesa,
+    completeSale,
+    createLayaway,
+  };
+}
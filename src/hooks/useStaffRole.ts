@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+// Loads the signed-in user's role in a business so pages can gate manager-only actions.
+// The database functions enforce the same rules; this only drives what the UI offers.
+export function useStaffRole(businessId: string) {
+  const { user } = useAuth();
+  const [role, setRole] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<Record<string, unknown>>({});
+
+  useEffect(() => {
+    if (!user || !businessId) return;
+    const fetchRole = async () => {
+      const { data, error } = await supabase
+        .from('staff_roles')
+        .select('role, permissions')
+        .eq('business_id', businessId)
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching staff role:', error);
+        return;
+      }
+      setRole(data?.role ?? null);
+      setPermissions(data?.permissions ?? {});
+    };
+    fetchRole();
+  }, [businessId, user]);
+
+  return {
+    role,
+    permissions,
+    isManager: role === 'owner' || role === 'manager',
+  };
+}
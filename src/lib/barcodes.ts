@@ -0,0 +1,69 @@
+import JsBarcode from 'jsbarcode';
+import type jsPDF from 'jspdf';
+import type { ScaleBarcodeFormat } from './supabase';
+
+export type BarcodeFormat = 'EAN13' | 'CODE128';
+
+// Internal codes use the GS1 in-store prefix 200, so they never clash with manufacturer barcodes.
+// Mirrors `next_internal_barcode`, which assigns them when a product is saved without a SKU.
+export const INTERNAL_BARCODE_PREFIX = '200';
+
+export function ean13CheckDigit(first12: string): number {
+  const sum = first12.split('').reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(value: string): boolean {
+  return /^\d{13}$/.test(value) && ean13CheckDigit(value.slice(0, 12)) === Number(value[12]);
+}
+
+// Scale labels use the GS1 variable-measure prefixes 21-29; 20 is kept for internal barcodes.
+export const SCALE_BARCODE_PREFIXES = ['21', '22', '23', '24', '25', '26', '27', '28', '29'];
+
+export interface ScaleBarcode {
+  plu: string;
+  embedded: ScaleBarcodeFormat['embedded'];
+  // Kilograms for a weight label, shillings for a price label
+  value: number;
+}
+
+// Scales pad PLUs with leading zeros to the width of the layout
+export const normalizePlu = (plu: string) => plu.trim().replace(/^0+(?=\d)/, '');
+
+// Decodes a scale label against the business's layouts. Returns null for anything else, which is then looked up as an ordinary code.
+export function parseScaleBarcode(code: string, formats: ScaleBarcodeFormat[]): ScaleBarcode | null {
+  if (!isValidEan13(code)) return null;
+  const format = formats.find(f => code.startsWith(f.prefix));
+  if (!format) return null;
+  const valueStart = format.prefix.length + format.plu_length;
+  if (valueStart >= 12) return null;
+  return {
+    plu: normalizePlu(code.slice(format.prefix.length, valueStart)),
+    embedded: format.embedded,
+    value: Number(code.slice(valueStart, 12)) / 10 ** format.decimals,
+  };
+}
+
+export const barcodeFormatFor = (value: string): BarcodeFormat => isValidEan13(value) ? 'EAN13' : 'CODE128';
+
+// The bar pattern as a string of modules, '1' for black and '0' for white, including guard bars.
+export function barcodeModules(value: string): string {
+  const target: { encodings?: { data: string }[] } = {};
+  JsBarcode(target, value, { format: barcodeFormatFor(value), flat: true });
+  return (target.encodings ?? []).map(encoding => encoding.data).join('');
+}
+
+// Draws the barcode as vector bars so it stays sharp on thermal label printers.
+export function drawBarcode(doc: jsPDF, value: string, x: number, y: number, width: number, height: number) {
+  const modules = barcodeModules(value);
+  const moduleWidth = width / modules.length;
+  let run = 0;
+  for (let i = 0; i <= modules.length; i++) {
+    if (modules[i] === '1') {
+      run++;
+    } else if (run > 0) {
+      doc.rect(x + (i - run) * moduleWidth, y, run * moduleWidth, height, 'F');
+      run = 0;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { type DiscountType } from './promotions';
+import { type CachedProduct, type CachedProductUnit } from './offlineStore';
+
+// Lines are keyed by product and selling unit, so a box and a loose piece of the same product are separate lines
+export interface SaleItemInput {
+  key: string;
+  product_id: string;
+  product_unit_id: string | null;
+  unit_name: string | null;
+  name: string;
+  category?: string | null;
+  // Sold loose by weight, so the quantity may be a fraction of a kilo
+  is_weighed?: boolean;
+  quantity: number;
+  unit_price: number;
+  // Rung up from a price-embedded scale label: the printed price, charged as the line total
+  line_total?: number | null;
+  discount_type: DiscountType;
+  discount_value: number;
+}
+
+// A basket parked at the till so the next customer can be served; recalled later to finish the sale.
+export interface HeldBasket {
+  id: string;
+  held_at: string;
+  items: SaleItemInput[];
+  customer_name: string;
+  customer_phone: string;
+  basket_discount_type: DiscountType;
+  basket_discount_value: number;
+}
+
+// A scanned or typed code resolved to what it sells: a product's own SKU, or a pack barcode on one of its units.
+export function findByCode(products: CachedProduct[], code: string): { product: CachedProduct; unit: CachedProductUnit | null } | null {
+  const product = products.find(p => p.sku === code);
+  if (product) return { product, unit: null };
+  for (const packProduct of products) {
+    const unit = packProduct.product_units?.find(u => u.is_active && u.barcode === code);
+    if (unit) return { product: packProduct, unit };
+  }
+  return null;
+}
+
+// Held baskets stay on the device that parked them; prices are re-checked when the recalled sale is completed.
+const heldBasketsKey = (businessId: string) => `fedha-plus-held-baskets:${businessId}`;
+
+export function getHeldBaskets(businessId: string): HeldBasket[] {
+  try {
+    return JSON.parse(localStorage.getItem(heldBasketsKey(businessId)) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveHeldBaskets(businessId: string, baskets: HeldBasket[]) {
+  localStorage.setItem(heldBasketsKey(businessId), JSON.stringify(baskets));
+}
+
+export function holdBasket(businessId: string, basket: Omit<HeldBasket, 'id' | 'held_at'>): HeldBasket[] {
+  const baskets = [...getHeldBaskets(businessId), { ...basket, id: crypto.randomUUID(), held_at: new Date().toISOString() }];
+  saveHeldBaskets(businessId, baskets);
+  return baskets;
+}
+
+export function removeHeldBasket(businessId: string, id: string): HeldBasket[] {
+  const baskets = getHeldBaskets(businessId).filter(basket => basket.id !== id);
+  saveHeldBaskets(businessId, baskets);
+  return baskets;
+}
@@ -0,0 +1,26 @@
+import { supabase, type StockTransferStatus } from './supabase';
+
+export const stockTransferStatusLabels: Record<StockTransferStatus, string> = {
+  requested: 'Requested',
+  in_transit: 'In transit',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+// The branch a staff member sells from: their open shift's, else their home branch, else the business's default.
+export async function fetchStaffBranchId(businessId: string, userId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('staff_branch_id', { p_business_id: businessId, p_user_id: userId });
+  if (error) throw error;
+  return data;
+}
+
+// Stock on hand per product at one branch. Products with no row there have none.
+export async function fetchBranchStock(branchId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('branch_stock')
+    .select('product_id, quantity')
+    .eq('branch_id', branchId);
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map(row => [row.product_id, row.quantity]));
+}
@@ -0,0 +1,21 @@
+import { supabase, type ProductBundleComponent } from './supabase';
+
+export type BundleComponentLine = Pick<ProductBundleComponent, 'component_product_id' | 'quantity'>;
+
+// Embeds a bundle's components; the hint is needed because both columns reference products.
+export const bundleComponentsSelect = 'product_bundle_components!bundle_product_id(component_product_id, quantity)';
+
+// How many bundles the components' stock can make up; mirrors `bundle_available_quantity`.
+// Components missing from `stockByProduct` count as out of stock, and a bundle without components can't be sold.
+export function bundleAvailability(components: BundleComponentLine[] | undefined, stockByProduct: Record<string, number>): number {
+  if (!components || components.length === 0) return 0;
+  return Math.min(...components.map(component => Math.floor(Math.max(stockByProduct[component.component_product_id] ?? 0, 0) / component.quantity)));
+}
+
+export async function saveBundleComponents(bundleId: string, components: { product_id: string; quantity: number }[]): Promise<void> {
+  const { error } = await supabase.rpc('set_bundle_components', {
+    p_bundle_id: bundleId,
+    p_components: components,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,36 @@
+import { supabase, type Customer, type CustomerPaymentMethod } from './supabase';
+
+// Same rules as `normalize_phone` in the database, so lookups match the stored number.
+export function normalizePhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (!digits) return null;
+  if (digits.startsWith('254') && digits.length === 12) return digits;
+  if (digits.startsWith('0') && digits.length === 10) return `254${digits.slice(1)}`;
+  if (digits.length === 9) return `254${digits}`;
+  return digits;
+}
+
+export async function findCustomerByPhone(businessId: string, phone: string): Promise<Customer | null> {
+  const normalized = normalizePhone(phone);
+  if (!normalized) return null;
+
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('business_id', businessId)
+    .eq('phone', normalized)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export const customerPaymentMethodLabels: Record<CustomerPaymentMethod, string> = {
+  cash: 'Cash',
+  mpesa: 'M-Pesa',
+};
+
+export async function fetchCustomerBalance(customerId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('get_customer_balance', { p_customer_id: customerId });
+  if (error) throw error;
+  return data ?? 0;
+}
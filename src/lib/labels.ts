@@ -0,0 +1,101 @@
+import jsPDF from 'jspdf';
+import { type Product } from './supabase';
+import { drawBarcode } from './barcodes';
+
+export type LabelTemplateId = 'shelf_a4' | 'sticker_a4' | 'roll_50x30' | 'roll_38x25';
+
+interface LabelTemplate {
+  id: LabelTemplateId;
+  name: string;
+  // Label size in mm
+  width: number;
+  height: number;
+  // Sheets are A4 grids; rolls print one label per page sized to the label
+  columns?: number;
+  rows?: number;
+  marginX?: number;
+  marginY?: number;
+  style: 'shelf' | 'sticker';
+}
+
+export const labelTemplates: LabelTemplate[] = [
+  { id: 'shelf_a4', name: 'Shelf labels - A4, 24 per sheet (70 x 37 mm)', width: 70, height: 37, columns: 3, rows: 8, marginX: 0, marginY: 0.5, style: 'shelf' },
+  { id: 'sticker_a4', name: 'Stickers - A4, 40 per sheet (52.5 x 29.7 mm)', width: 52.5, height: 29.7, columns: 4, rows: 10, marginX: 0, marginY: 0, style: 'sticker' },
+  { id: 'roll_50x30', name: 'Label roll - 50 x 30 mm', width: 50, height: 30, style: 'sticker' },
+  { id: 'roll_38x25', name: 'Label roll - 38 x 25 mm', width: 38, height: 25, style: 'sticker' },
+];
+
+export interface LabelRequest {
+  product: Product;
+  quantity: number;
+}
+
+function drawLabel(doc: jsPDF, product: Product, template: LabelTemplate, x: number, y: number) {
+  const { width, height, style } = template;
+  const padding = 2;
+  const innerWidth = width - padding * 2;
+  const shelf = style === 'shelf';
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(shelf ? 9 : 7);
+  const nameLines = (doc.splitTextToSize(product.name, innerWidth) as string[]).slice(0, shelf ? 2 : 1);
+  const nameLineHeight = shelf ? 3.6 : 2.8;
+  let cursor = y + padding + nameLineHeight;
+  nameLines.forEach(line => {
+    doc.text(line, x + padding, cursor);
+    cursor += nameLineHeight;
+  });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(shelf ? 16 : 10);
+  const priceText = `KSh ${product.selling_price.toLocaleString()}`;
+  cursor += shelf ? 3.5 : 1.5;
+  doc.text(priceText, shelf ? x + width - padding : x + padding, cursor, { align: shelf ? 'right' : 'left' });
+  if (shelf) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.text(`per ${product.unit}`, x + padding, cursor);
+  }
+
+  if (!product.sku) return;
+  const codeTextHeight = 2.5;
+  const barcodeTop = cursor + 1.5;
+  const barcodeHeight = y + height - padding - codeTextHeight - barcodeTop;
+  if (barcodeHeight < 4) return;
+
+  const barcodeWidth = Math.min(innerWidth, shelf ? 45 : innerWidth);
+  const barcodeX = x + (width - barcodeWidth) / 2;
+  drawBarcode(doc, product.sku, barcodeX, barcodeTop, barcodeWidth, barcodeHeight);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(6);
+  doc.text(product.sku, x + width / 2, barcodeTop + barcodeHeight + codeTextHeight, { align: 'center' });
+}
+
+// Lays the requested labels out in order, skipping `skipLabels` positions on the first sheet so a
+// partly used sheet can be fed back through the printer.
+export function generateLabelsPdf(requests: LabelRequest[], templateId: LabelTemplateId, skipLabels = 0): jsPDF {
+  const template = labelTemplates.find(t => t.id === templateId) ?? labelTemplates[0];
+  const labels = requests.flatMap(r => Array.from({ length: r.quantity }, () => r.product));
+
+  if (!template.columns || !template.rows) {
+    const doc = new jsPDF({ unit: 'mm', format: [template.width, template.height], orientation: template.width > template.height ? 'landscape' : 'portrait' });
+    labels.forEach((product, index) => {
+      if (index > 0) doc.addPage([template.width, template.height], template.width > template.height ? 'landscape' : 'portrait');
+      drawLabel(doc, product, template, 0, 0);
+    });
+    return doc;
+  }
+
+  const { columns, rows } = template;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const perSheet = columns * rows;
+  labels.forEach((product, index) => {
+    const position = index + skipLabels;
+    if (position > 0 && position % perSheet === 0) doc.addPage();
+    const slot = position % perSheet;
+    const x = (template.marginX ?? 0) + (slot % columns) * template.width;
+    const y = (template.marginY ?? 0) + Math.floor(slot / columns) * template.height;
+    drawLabel(doc, product, template, x, y);
+  });
+  return doc;
+}
@@ -0,0 +1,28 @@
+import { supabase, type LayawayPaymentMethod, type LayawayStatus } from './supabase';
+
+export const layawayStatusLabels: Record<LayawayStatus, string> = {
+  active: 'Active',
+  completed: 'Collected',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+export const layawayPaymentMethodLabels: Record<LayawayPaymentMethod, string> = {
+  cash: 'Cash',
+  mpesa: 'M-Pesa',
+  card: 'Card',
+};
+
+// Base units held for active layaways per product, at one branch or across the business's branches. Reserved
+// goods stay in stock until they are collected, so the till takes them off what it offers for sale.
+export async function fetchReservedStock(businessId: string, branchId: string | null = null): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('layaway_reserved_stock', { p_business_id: businessId });
+  if (error) throw error;
+
+  const reserved: Record<string, number> = {};
+  for (const row of (data || []) as { branch_id: string; product_id: string; quantity: number }[]) {
+    if (branchId && row.branch_id !== branchId) continue;
+    reserved[row.product_id] = (reserved[row.product_id] ?? 0) + row.quantity;
+  }
+  return reserved;
+}
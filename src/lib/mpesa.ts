@@ -0,0 +1,67 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, type MpesaPaymentRequest } from './supabase';
+import { type TenderInput } from './tenders';
+import { SaleValidationError, type SaleLineError } from './saleValidation';
+
+export interface StkPushItem {
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  line_total?: number | null;
+  discount_amount?: number;
+  promotion_id?: string | null;
+  promotion_discount?: number;
+  product_unit_id?: string | null;
+}
+
+interface StkPushResult {
+  request_id: string;
+  customer_message: string;
+}
+
+// Asks the `mpesa-stk-push` edge function to prompt the customer's phone for payment.
+// `otherTenders` are the non-M-Pesa parts of a split payment; only the balance is pushed.
+// `customer` is who the sale is for, which need not be the phone that pays.
+// Baskets that fail stock or price checks are rejected with a `SaleValidationError`.
+export async function requestStkPush(
+  businessId: string,
+  phone: string,
+  items: StkPushItem[],
+  otherTenders: TenderInput[] = [],
+  customer: { name?: string | null; phone?: string | null } = {}
+): Promise<StkPushResult> {
+  const { data, error } = await supabase.functions.invoke<StkPushResult>('mpesa-stk-push', {
+    body: { business_id: businessId, phone, items, payments: otherTenders, customer_name: customer.name ?? null, customer_phone: customer.phone ?? null },
+  });
+  if (error instanceof FunctionsHttpError && error.context.status === 422) {
+    const body: { error: string; line_errors: SaleLineError[] } = await error.context.json();
+    throw new SaleValidationError(body.error, body.line_errors);
+  }
+  if (error) throw error;
+  if (!data) throw new Error('No response from M-Pesa service');
+  return data;
+}
+
+// Polls the request until the Daraja callback settles it, or gives up after `timeoutMs`.
+export async function waitForMpesaPayment(
+  requestId: string,
+  { timeoutMs = 120000, intervalMs = 3000, signal }: { timeoutMs?: number; intervalMs?: number; signal?: AbortSignal } = {}
+): Promise<MpesaPaymentRequest> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    if (signal?.aborted) throw new Error('M-Pesa payment check was cancelled');
+
+    const { data, error } = await supabase
+      .from('mpesa_payment_requests')
+      .select('*')
+      .eq('id', requestId)
+      .single();
+    if (error) throw error;
+    if (data.status !== 'pending') return data;
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  throw new Error('Timed out waiting for the customer to confirm the M-Pesa payment');
+}
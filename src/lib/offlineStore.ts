@@ -0,0 +1,140 @@
+import { type Product, type ProductUnit } from './supabase';
+import { type TenderInput } from './tenders';
+import { type BundleComponentLine } from './bundles';
+
+// IndexedDB storage for the POS: a copy of each business's catalog so products can be rung up
+// without a connection, and an outbox of sales waiting to be uploaded by `syncOutbox`.
+
+const DB_NAME = 'fedha-pos';
+const DB_VERSION = 1;
+const PRODUCTS_STORE = 'products';
+const OUTBOX_STORE = 'outbox';
+
+export type CachedProductUnit = Pick<ProductUnit, 'id' | 'name' | 'conversion_factor' | 'selling_price' | 'barcode' | 'is_active'>;
+
+export type CachedProduct = Pick<Product, 'id' | 'business_id' | 'name' | 'category' | 'selling_price' | 'tax_class' | 'sku' | 'stock_quantity' | 'unit' | 'is_bundle' | 'is_quick_key' | 'is_weighed' | 'plu'> & {
+  product_units?: CachedProductUnit[];
+  product_bundle_components?: BundleComponentLine[];
+};
+
+export interface QueuedSale {
+  client_sale_id: string;
+  business_id: string;
+  receipt_number: string;
+  items: { product_id: string; name: string; quantity: number; unit_price: number; line_total?: number | null; discount_amount?: number; promotion_id?: string | null; promotion_discount?: number; product_unit_id?: string | null }[];
+  payments: TenderInput[];
+  sold_at: string;
+  customer_name?: string;
+  customer_phone?: string;
+  last_error?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id' }).createIndex('business_id', 'business_id');
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'client_sale_id' }).createIndex('business_id', 'business_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Replaces the cached catalog for a business with the latest copy from the server.
+export async function cacheProducts(businessId: string, products: CachedProduct[]): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(PRODUCTS_STORE, 'readwrite');
+  const store = transaction.objectStore(PRODUCTS_STORE);
+
+  const keys = await promisify(store.index('business_id').getAllKeys(businessId));
+  keys.forEach(key => store.delete(key));
+  products.forEach(product => store.put({ ...product, business_id: businessId }));
+
+  await transactionDone(transaction);
+}
+
+export async function getCachedProducts(businessId: string): Promise<CachedProduct[]> {
+  const db = await openDb();
+  const store = db.transaction(PRODUCTS_STORE).objectStore(PRODUCTS_STORE);
+  return promisify(store.index('business_id').getAll(businessId));
+}
+
+// Adds a sale to the outbox and takes its quantities off the cached stock in the same transaction,
+// so the till does not keep offering items that have already been sold offline. Lines sold in another
+// unit take that unit's conversion factor in base units, and bundles take their components, as on the server.
+export async function queueSale(sale: QueuedSale): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([OUTBOX_STORE, PRODUCTS_STORE], 'readwrite');
+  const products = transaction.objectStore(PRODUCTS_STORE);
+
+  transaction.objectStore(OUTBOX_STORE).put(sale);
+  for (const item of sale.items) {
+    const product = await promisify<CachedProduct | undefined>(products.get(item.product_id));
+    const factor = product?.product_units?.find(unit => unit.id === item.product_unit_id)?.conversion_factor ?? 1;
+    const quantity = item.quantity * factor;
+    if (product?.is_bundle) {
+      for (const component of product.product_bundle_components ?? []) {
+        const part = await promisify<CachedProduct | undefined>(products.get(component.component_product_id));
+        if (part) {
+          products.put({ ...part, stock_quantity: part.stock_quantity - quantity * component.quantity });
+        }
+      }
+    } else if (product) {
+      products.put({ ...product, stock_quantity: product.stock_quantity - quantity });
+    }
+  }
+
+  await transactionDone(transaction);
+}
+
+export async function getQueuedSales(businessId: string): Promise<QueuedSale[]> {
+  const db = await openDb();
+  const store = db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE);
+  const sales = await promisify<QueuedSale[]>(store.index('business_id').getAll(businessId));
+  return sales.sort((a, b) => a.sold_at.localeCompare(b.sold_at));
+}
+
+export async function updateQueuedSale(sale: QueuedSale): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+  transaction.objectStore(OUTBOX_STORE).put(sale);
+  await transactionDone(transaction);
+}
+
+export async function removeQueuedSale(clientSaleId: string): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+  transaction.objectStore(OUTBOX_STORE).delete(clientSaleId);
+  await transactionDone(transaction);
+}
+
+// Offline receipts use their own prefix so they can never collide with server-generated `RCPT-` numbers.
+export function offlineReceiptNumber(clientSaleId: string, soldAt: Date): string {
+  const date = soldAt.toISOString().slice(0, 10).replace(/-/g, '');
+  return `OFF-${date}-${clientSaleId.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+}
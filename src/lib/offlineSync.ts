@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+import { getQueuedSales, removeQueuedSale, updateQueuedSale } from './offlineStore';
+import { describeLineError, parseSaleError, SaleValidationError, type SaleLineError } from './saleValidation';
+
+// A line the server recorded even though it broke a rule the till could not check offline,
+// with the fields `validate_sale_items` reports for it.
+export type SyncConflict = SaleLineError & {
+  receipt_number: string;
+  name: string;
+};
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  conflicts: SyncConflict[];
+}
+
+interface SyncOfflineSaleResponse {
+  sale_id: string;
+  receipt_number: string;
+  duplicate: boolean;
+  conflicts: Omit<SyncConflict, 'receipt_number'>[];
+}
+
+type SyncConflictSummary = Pick<SaleLineError, 'code' | 'unit_price' | 'selling_price' | 'discount_amount' | 'max_percent'> & {
+  requested?: number | null;
+  available?: number | null;
+};
+
+export function describeSyncConflict(conflict: SyncConflictSummary): string {
+  switch (conflict.code) {
+    case 'price_mismatch':
+      return `Sold offline at KSh ${(conflict.unit_price ?? 0).toLocaleString()} against a price of KSh ${(conflict.selling_price ?? 0).toLocaleString()}.`;
+    case 'discount_exceeds_limit':
+      return `Sold offline with a KSh ${(conflict.discount_amount ?? 0).toLocaleString()} discount, above the cashier's limit of ${conflict.max_percent ?? 0}%.`;
+    case 'promotion_not_applicable':
+      return 'Sold offline with a promotion that was not running.';
+    default:
+      return `Sold ${conflict.requested} offline with only ${conflict.available} in stock. Recount and adjust stock.`;
+  }
+}
+
+let inFlight: Promise<SyncResult> | null = null;
+
+// Uploads queued sales oldest first. Each sale carries its `client_sale_id`, so a sale whose
+// response was lost is recognised by the server and not recorded twice. Sales the server rejects
+// stay in the outbox with `last_error` set; a dropped connection stops the run until next time.
+export function syncOutbox(businessId: string): Promise<SyncResult> {
+  if (!inFlight) {
+    inFlight = runSync(businessId).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+async function runSync(businessId: string): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, failed: 0, conflicts: [] };
+
+  for (const sale of await getQueuedSales(businessId)) {
+    const { data, error } = await supabase.rpc('sync_offline_sale', {
+      p_business_id: sale.business_id,
+      p_client_sale_id: sale.client_sale_id,
+      p_receipt_number: sale.receipt_number,
+      p_items: sale.items.map(({ product_id, quantity, unit_price, line_total, discount_amount, promotion_id, promotion_discount, product_unit_id }) => ({ product_id, quantity, unit_price, line_total, discount_amount, promotion_id, promotion_discount, product_unit_id })),
+      p_payments: sale.payments,
+      p_sold_at: sale.sold_at,
+      p_customer_name: sale.customer_name ?? null,
+      p_customer_phone: sale.customer_phone ?? null,
+    });
+
+    if (error) {
+      // Network failures come back without a Postgres error code
+      if (!error.code) break;
+      const saleError = parseSaleError(error);
+      const lastError = saleError instanceof SaleValidationError
+        ? saleError.lineErrors.map(lineError => `${lineError.name ?? 'Item'}: ${describeLineError(lineError)}`).join('; ')
+        : error.message;
+      await updateQueuedSale({ ...sale, last_error: lastError });
+      result.failed++;
+      continue;
+    }
+
+    const response = data as SyncOfflineSaleResponse;
+    result.synced++;
+    result.conflicts.push(...response.conflicts.map(conflict => ({ ...conflict, receipt_number: response.receipt_number })));
+    await removeQueuedSale(sale.client_sale_id);
+  }
+
+  return result;
+}
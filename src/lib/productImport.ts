@@ -0,0 +1,188 @@
+import readXlsxFile from 'read-excel-file/browser';
+import writeXlsxFile from 'write-excel-file/browser';
+import { supabase, type Product } from './supabase';
+import { parseCsv, downloadCsv } from './csv';
+
+export type ImportField = 'sku' | 'name' | 'category' | 'unit' | 'buying_price' | 'selling_price' | 'stock_quantity' | 'min_stock_level';
+
+// The export writes these columns in this order, so an exported file re-imports without remapping.
+export const importFields: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'sku', label: 'SKU', required: true },
+  { field: 'name', label: 'Name', required: true },
+  { field: 'category', label: 'Category', required: false },
+  { field: 'unit', label: 'Unit', required: false },
+  { field: 'buying_price', label: 'Buying Price', required: false },
+  { field: 'selling_price', label: 'Selling Price', required: true },
+  { field: 'stock_quantity', label: 'Stock Quantity', required: false },
+  { field: 'min_stock_level', label: 'Min Stock Level', required: false },
+];
+
+// Column index in the file for each field; -1 when the file has no such column.
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ImportRow {
+  sku: string;
+  name: string;
+  category: string | null;
+  unit: string | null;
+  buying_price: number | null;
+  selling_price: number;
+  stock_quantity: number | null;
+  min_stock_level: number | null;
+}
+
+export interface ValidatedImportRow {
+  line: number;
+  row: ImportRow | null;
+  existing: Product | null;
+  errors: string[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const headerAliases: Record<ImportField, string[]> = {
+  sku: ['sku', 'code', 'barcode', 'itemcode', 'productcode'],
+  name: ['name', 'productname', 'item', 'itemname', 'description'],
+  category: ['category', 'department', 'group'],
+  unit: ['unit', 'uom', 'unitofmeasure'],
+  buying_price: ['buyingprice', 'cost', 'costprice', 'unitcost'],
+  selling_price: ['sellingprice', 'price', 'retailprice', 'unitprice'],
+  stock_quantity: ['stockquantity', 'stock', 'quantity', 'qty', 'onhand'],
+  min_stock_level: ['minstocklevel', 'minstock', 'reorderlevel', 'reorderpoint'],
+};
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  for (const { field } of importFields) {
+    mapping[field] = normalized.findIndex(header => headerAliases[field].includes(header));
+  }
+  return mapping;
+}
+
+// Reads the first sheet of an .xlsx file, or a .csv file, into rows of cell text with the header row first.
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readXlsxFile(file);
+    const data = rows[0]?.data ?? [];
+    return data
+      .map(row => row.map(cell => cell == null ? '' : cell instanceof Date ? cell.toISOString() : String(cell)))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+  }
+  return parseCsv(await file.text());
+}
+
+// Accepts "1,200" and "KSh 1200" as written by people editing prices by hand.
+const parseAmount = (text: string) => {
+  const cleaned = text.replace(/ksh/i, '').replace(/[,\s]/g, '');
+  return cleaned === '' ? null : Number(cleaned);
+};
+
+// Weighed products are stocked in kilograms to the gram, as elsewhere in the app.
+const hasAtMostThreeDecimals = (value: number) => Math.abs(Math.round(value * 1000) - value * 1000) < 1e-6;
+
+export function validateImportRows(rows: string[][], mapping: ColumnMapping, products: Product[]): ValidatedImportRow[] {
+  const cell = (row: string[], field: ImportField) => mapping[field] >= 0 ? (row[mapping[field]] ?? '').trim() : '';
+
+  const skuCounts = new Map<string, number>();
+  rows.forEach(row => {
+    const sku = cell(row, 'sku');
+    if (sku) skuCounts.set(sku, (skuCounts.get(sku) ?? 0) + 1);
+  });
+
+  const productsBySku = new Map<string, Product[]>();
+  products.forEach(product => {
+    if (product.sku) productsBySku.set(product.sku, [...(productsBySku.get(product.sku) ?? []), product]);
+  });
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const sku = cell(row, 'sku');
+    const name = cell(row, 'name');
+    const sellingPrice = parseAmount(cell(row, 'selling_price'));
+    const buyingPrice = parseAmount(cell(row, 'buying_price'));
+    const stockQuantity = parseAmount(cell(row, 'stock_quantity'));
+    const minStockLevel = parseAmount(cell(row, 'min_stock_level'));
+    const matches = sku ? productsBySku.get(sku) ?? [] : [];
+
+    if (!sku) errors.push('Missing SKU');
+    else if ((skuCounts.get(sku) ?? 0) > 1) errors.push(`Duplicate SKU ${sku} in file`);
+    if (matches.length > 1) errors.push(`SKU ${sku} matches ${matches.length} existing products`);
+    if (!name) errors.push('Missing name');
+    if (sellingPrice == null) errors.push('Missing selling price');
+    else if (isNaN(sellingPrice) || sellingPrice < 0) errors.push('Invalid selling price');
+    if (buyingPrice != null && (isNaN(buyingPrice) || buyingPrice < 0)) errors.push('Invalid buying price');
+    if (matches.length === 1 && matches[0].is_weighed) {
+      if (stockQuantity != null && (isNaN(stockQuantity) || !hasAtMostThreeDecimals(stockQuantity) || stockQuantity < 0)) errors.push('Stock must be a weight with at most 3 decimals');
+    } else if (stockQuantity != null && (!Number.isInteger(stockQuantity) || stockQuantity < 0)) {
+      errors.push('Stock must be a whole number');
+    }
+    if (minStockLevel != null && (!Number.isInteger(minStockLevel) || minStockLevel < 0)) errors.push('Min stock must be a whole number');
+
+    return {
+      // Line numbers as the user sees them in their spreadsheet, after the header row
+      line: index + 2,
+      existing: matches.length === 1 ? matches[0] : null,
+      errors,
+      row: errors.length > 0 ? null : {
+        sku,
+        name,
+        category: cell(row, 'category') || null,
+        unit: cell(row, 'unit') || null,
+        buying_price: buyingPrice,
+        selling_price: sellingPrice!,
+        stock_quantity: stockQuantity,
+        min_stock_level: minStockLevel,
+      },
+    };
+  });
+}
+
+const IMPORT_BATCH_SIZE = 500;
+
+// Upserts by SKU in batches. Each batch is applied atomically by `import_products`. Stock quantities are
+// what is on hand at `branchId`, or at the default branch when it is null.
+export async function importProducts(
+  businessId: string,
+  rows: ImportRow[],
+  branchId: string | null,
+  onProgress?: (done: number) => void,
+): Promise<{ created: number; updated: number }> {
+  const totals = { created: 0, updated: 0 };
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+    const { data, error } = await supabase.rpc('import_products', { p_business_id: businessId, p_rows: batch, p_branch_id: branchId });
+    if (error) throw error;
+    totals.created += data?.created ?? 0;
+    totals.updated += data?.updated ?? 0;
+    onProgress?.(start + batch.length);
+  }
+  return totals;
+}
+
+const exportRows = (products: Product[], branchStock?: Record<string, number>) => products.map(p => [
+  p.sku ?? '',
+  p.name,
+  p.category ?? '',
+  p.unit,
+  p.buying_price ?? null,
+  p.selling_price,
+  branchStock ? branchStock[p.id] ?? 0 : p.stock_quantity,
+  p.min_stock_level,
+]);
+
+// With more than one branch, pass the stock at one branch so the file imports back against that branch.
+export async function exportProducts(products: Product[], format: 'csv' | 'xlsx', branch?: { name: string; stock: Record<string, number> }) {
+  const suffix = branch ? `_${branch.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}` : '';
+  const filename = `products${suffix}_${new Date().toISOString().split('T')[0]}.${format}`;
+  const header = importFields.map(f => f.label);
+  if (format === 'csv') {
+    downloadCsv(filename, [header, ...exportRows(products, branch?.stock)]);
+    return;
+  }
+  await writeXlsxFile([header.map(value => ({ value, fontWeight: 'bold' as const })), ...exportRows(products, branch?.stock)], {
+    sheet: 'Products',
+    stickyRowsCount: 1,
+    columns: [{ width: 16 }, { width: 36 }, { width: 18 }, { width: 10 }, { width: 14 }, { width: 14 }, { width: 14 }, { width: 16 }],
+  }).toFile(filename);
+}
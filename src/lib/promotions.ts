@@ -0,0 +1,97 @@
+import { supabase, type Promotion, type PromotionType } from './supabase';
+
+export type DiscountType = 'percent' | 'amount';
+
+export const promotionTypeLabels: Record<PromotionType, string> = {
+  percent_off: 'Percentage off',
+  buy_x_get_y: 'Buy X get Y free',
+};
+
+export const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Nairobi is UTC+3 all year, which is what `promotion_is_live` uses for happy hours and weekdays.
+const NAIROBI_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+export function isPromotionLive(promotion: Promotion, at: Date = new Date()): boolean {
+  if (!promotion.is_active) return false;
+  if (promotion.starts_at && at < new Date(promotion.starts_at)) return false;
+  if (promotion.ends_at && at >= new Date(promotion.ends_at)) return false;
+
+  const local = new Date(at.getTime() + NAIROBI_OFFSET_MS);
+  if (promotion.days_of_week?.length && !promotion.days_of_week.includes(local.getUTCDay())) return false;
+  if (promotion.start_time && promotion.end_time) {
+    const time = local.toISOString().slice(11, 19);
+    if (time < promotion.start_time.slice(0, 8) || time >= promotion.end_time.slice(0, 8)) return false;
+  }
+  return true;
+}
+
+export function promotionApplies(promotion: Promotion, product: { id: string; category?: string | null }): boolean {
+  return (!promotion.product_id || promotion.product_id === product.id)
+    && (!promotion.category || promotion.category === product.category);
+}
+
+// Mirrors `promotion_line_discount`: the most a promotion can take off a line.
+export function promotionLineDiscount(promotion: Promotion, quantity: number, unitPrice: number): number {
+  if (promotion.promotion_type === 'percent_off') {
+    return round2(quantity * unitPrice * (promotion.percent ?? 0) / 100);
+  }
+  const buy = promotion.buy_quantity ?? 0;
+  const free = promotion.free_quantity ?? 0;
+  if (buy + free === 0) return 0;
+  return Math.floor(quantity / (buy + free)) * free * unitPrice;
+}
+
+// Promotions don't stack: a line gets whichever running promotion saves the customer the most.
+export function bestPromotion(
+  promotions: Promotion[],
+  product: { id: string; category?: string | null },
+  quantity: number,
+  unitPrice: number,
+): { promotion: Promotion; discount: number } | null {
+  const now = new Date();
+  let best: { promotion: Promotion; discount: number } | null = null;
+  for (const promotion of promotions) {
+    if (!isPromotionLive(promotion, now) || !promotionApplies(promotion, product)) continue;
+    const discount = promotionLineDiscount(promotion, quantity, unitPrice);
+    if (discount > 0 && (!best || discount > best.discount)) best = { promotion, discount };
+  }
+  return best;
+}
+
+export function discountValue(type: DiscountType, value: number, base: number): number {
+  if (!value || value < 0) return 0;
+  return round2(Math.min(type === 'percent' ? base * value / 100 : value, base));
+}
+
+// Spreads a basket discount over the lines in proportion to what each line still costs, so returns
+// of a single item refund its share of the discount. Rounding pennies land on the last line.
+export function allocateBasketDiscount(lineAmounts: number[], discount: number): number[] {
+  const total = lineAmounts.reduce((acc, amount) => acc + amount, 0);
+  if (discount <= 0 || total <= 0) return lineAmounts.map(() => 0);
+
+  let remaining = round2(Math.min(discount, total));
+  return lineAmounts.map((amount, index) => {
+    const share = index === lineAmounts.length - 1 ? remaining : Math.min(round2(discount * amount / total), remaining, amount);
+    remaining = round2(remaining - share);
+    return share;
+  });
+}
+
+export async function fetchPromotions(businessId: string): Promise<Promotion[]> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchMaxDiscountPercent(businessId: string, userId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('max_discount_percent', { p_business_id: businessId, p_user_id: userId });
+  if (error) throw error;
+  return data ?? 0;
+}
@@ -0,0 +1,71 @@
+import { supabase, type PurchaseOrderStatus } from './supabase';
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+interface OutstandingLine {
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+}
+
+// Quantity per product that is on open purchase orders but has not been delivered yet.
+export async function fetchIncomingStock(businessId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('purchase_order_items')
+    .select('product_id, quantity_ordered, quantity_received, purchase_orders!inner(business_id, status)')
+    .eq('purchase_orders.business_id', businessId)
+    .in('purchase_orders.status', ['ordered', 'partially_received']);
+  if (error) throw error;
+
+  return (data as OutstandingLine[] || []).reduce<Record<string, number>>((acc, line) => {
+    acc[line.product_id] = (acc[line.product_id] || 0) + line.quantity_ordered - line.quantity_received;
+    return acc;
+  }, {});
+}
+
+// One row of get_reorder_suggestions. Quantities are in stock units.
+export interface ReorderSuggestion {
+  product_id: string;
+  product_name: string;
+  sku: string | null;
+  unit: string;
+  stock_quantity: number;
+  on_order: number;
+  on_draft: number;
+  units_sold: number;
+  avg_daily_sales: number;
+  days_of_cover: number | null;
+  lead_time_days: number;
+  reorder_point: number;
+  suggested_quantity: number;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  unit_cost: number | null;
+}
+
+export interface ReorderSettings {
+  lookbackDays: number;
+  leadTimeDays: number;
+  safetyDays: number;
+  coverDays: number;
+}
+
+export const defaultReorderSettings: ReorderSettings = { lookbackDays: 30, leadTimeDays: 7, safetyDays: 3, coverDays: 14 };
+
+export async function fetchReorderSuggestions(businessId: string, settings: ReorderSettings = defaultReorderSettings): Promise<ReorderSuggestion[]> {
+  const { data, error } = await supabase.rpc('get_reorder_suggestions', {
+    p_business_id: businessId,
+    p_lookback_days: settings.lookbackDays,
+    p_lead_time_days: settings.leadTimeDays,
+    p_safety_days: settings.safetyDays,
+    p_cover_days: settings.coverDays,
+  });
+  if (error) throw error;
+  return data as ReorderSuggestion[] || [];
+}
@@ -0,0 +1,193 @@
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import { supabase, type Business, type EtimsInvoice, type Sale, type SalePayment, type TaxClass } from './supabase';
+import { tenderLabels } from './tenders';
+import { taxClassLabels } from './tax';
+
+export type ReceiptWidth = 58 | 80;
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  unit_name: string | null;
+  unit_price: number;
+  discount_amount: number;
+  promotion_name: string | null;
+  total_price: number;
+  tax_class: TaxClass | null;
+  tax_rate: number;
+  tax_amount: number;
+}
+
+export interface Receipt {
+  sale: Sale;
+  business: Pick<Business, 'name' | 'logo_url' | 'phone' | 'location' | 'kra_pin' | 'vat_registered' | 'etims_enabled'>;
+  items: ReceiptLine[];
+  payments: SalePayment[];
+  cashier_name: string | null;
+  etims: EtimsInvoice | null;
+}
+
+export interface VatBreakdownLine {
+  tax_class: TaxClass | null;
+  label: string;
+  taxable: number;
+  tax: number;
+}
+
+// Characters per line on common thermal printers using the default font.
+const lineWidths: Record<ReceiptWidth, number> = { 58: 32, 80: 48 };
+
+export async function fetchReceipt(saleId: string): Promise<Receipt> {
+  const { data, error } = await supabase.rpc('get_sale_receipt', { p_sale_id: saleId });
+  if (error) throw error;
+  return data as Receipt;
+}
+
+const money = (amount: number) => amount.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const center = (text: string, width: number) => {
+  const trimmed = text.slice(0, width);
+  return ' '.repeat(Math.floor((width - trimmed.length) / 2)) + trimmed;
+};
+
+const columns = (left: string, right: string, width: number) => {
+  const space = Math.max(width - left.length - right.length, 1);
+  return `${left}${' '.repeat(space)}${right}`;
+};
+
+// Taxable value and VAT per class, as printed under the total on VAT invoices.
+export function vatBreakdown(items: ReceiptLine[]): VatBreakdownLine[] {
+  const lines = items.reduce((acc, item) => {
+    const key = item.tax_class ?? 'none';
+    acc[key] = acc[key] || { tax_class: item.tax_class, label: item.tax_class ? taxClassLabels[item.tax_class] : 'Unclassified', taxable: 0, tax: 0 };
+    acc[key].taxable += item.total_price - item.tax_amount;
+    acc[key].tax += item.tax_amount;
+    return acc;
+  }, {} as Record<string, VatBreakdownLine>);
+  return Object.values(lines);
+}
+
+// Long values such as the eTIMS QR link are broken across lines rather than cut off.
+const wrap = (text: string, width: number) => text.match(new RegExp(`.{1,${width}}`, 'g')) ?? [];
+
+// Plain-text layout for 58mm/80mm ESC/POS printers and for sharing as a message.
+export function formatThermalReceipt(receipt: Receipt, paperWidth: ReceiptWidth = 80): string {
+  const width = lineWidths[paperWidth];
+  const rule = '-'.repeat(width);
+  const { sale, business, items, payments } = receipt;
+  const lines: string[] = [];
+
+  lines.push(center(business.name.toUpperCase(), width));
+  if (business.location) lines.push(center(business.location, width));
+  if (business.phone) lines.push(center(`Tel: ${business.phone}`, width));
+  if (business.kra_pin) lines.push(center(`PIN: ${business.kra_pin}`, width));
+  lines.push(rule);
+  lines.push(`Receipt: ${sale.receipt_number}`);
+  lines.push(`Date: ${format(new Date(sale.created_at), 'dd/MM/yyyy HH:mm')}`);
+  if (receipt.cashier_name) lines.push(`Cashier: ${receipt.cashier_name}`);
+  if (sale.customer_name || sale.customer_phone) lines.push(`Customer: ${sale.customer_name || sale.customer_phone}`);
+  lines.push(rule);
+
+  items.forEach(item => {
+    lines.push(item.name.slice(0, width));
+    lines.push(columns(`  ${item.quantity}${item.unit_name ? ` ${item.unit_name}` : ''} x ${money(item.unit_price)}`, money(item.total_price + item.discount_amount), width));
+    if (item.discount_amount > 0) {
+      lines.push(columns(`  ${(item.promotion_name || 'Discount').slice(0, width - 14)}`, `-${money(item.discount_amount)}`, width));
+    }
+  });
+
+  lines.push(rule);
+  lines.push(columns('TOTAL', `KSh ${money(sale.total_amount)}`, width));
+  if (business.vat_registered) {
+    vatBreakdown(items).forEach(line => {
+      lines.push(columns(`  ${line.label} taxable`, money(line.taxable), width));
+      if (line.tax > 0) lines.push(columns(`  ${line.label} VAT`, money(line.tax), width));
+    });
+    lines.push(columns('TOTAL VAT', money(sale.tax_amount), width));
+  }
+  payments.forEach(payment => {
+    lines.push(columns(tenderLabels[payment.method], money(payment.tendered_amount ?? payment.amount), width));
+    if (payment.reference) lines.push(`  Ref: ${payment.reference}`);
+  });
+  const change = payments.reduce((acc, payment) => acc + payment.change_amount, 0);
+  if (change > 0) lines.push(columns('Change', money(change), width));
+  if (receipt.etims?.status === 'signed' && receipt.etims.cu_invoice_number) {
+    lines.push(rule);
+    lines.push('CU Invoice No:');
+    lines.push(receipt.etims.cu_invoice_number);
+    if (receipt.etims.qr_data) {
+      lines.push('Verify on KRA eTIMS:');
+      lines.push(...wrap(receipt.etims.qr_data, width));
+    }
+  }
+  lines.push(rule);
+  lines.push(center('Thank you for your business!', width));
+
+  return lines.join('\n');
+}
+
+async function loadImage(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+export async function downloadReceiptPdf(receipt: Receipt, paperWidth: ReceiptWidth = 80) {
+  const text = formatThermalReceipt(receipt, paperWidth);
+  const lines = text.split('\n');
+  const logo = receipt.business.logo_url ? await loadImage(receipt.business.logo_url) : null;
+
+  const lineHeight = 4;
+  const logoHeight = logo ? 20 : 0;
+  const doc = new jsPDF({ unit: 'mm', format: [paperWidth, lines.length * lineHeight + logoHeight + 16] });
+  doc.setFont('courier', 'normal');
+  doc.setFontSize(paperWidth === 58 ? 7.5 : 8);
+
+  let y = 8;
+  if (logo) {
+    doc.addImage(logo, (paperWidth - 18) / 2, y - 4, 18, 18);
+    y += logoHeight;
+  }
+  lines.forEach(line => {
+    doc.text(line, 3, y);
+    y += lineHeight;
+  });
+
+  doc.save(`${receipt.sale.receipt_number}.pdf`);
+}
+
+export function printThermalReceipt(receipt: Receipt, paperWidth: ReceiptWidth = 80) {
+  const printWindow = window.open('', '_blank', 'width=400,height=600');
+  if (!printWindow) throw new Error('Allow pop-ups to print receipts');
+
+  const pre = printWindow.document.createElement('pre');
+  pre.textContent = formatThermalReceipt(receipt, paperWidth);
+  pre.style.cssText = `font-family: monospace; font-size: 12px; margin: 0; width: ${paperWidth}mm;`;
+  printWindow.document.title = receipt.sale.receipt_number;
+  printWindow.document.body.style.margin = '0';
+  printWindow.document.body.appendChild(pre);
+  printWindow.focus();
+  printWindow.print();
+  printWindow.close();
+}
+
+// Uses the native share sheet (WhatsApp, SMS...) where available, otherwise copies the text.
+export async function shareReceipt(receipt: Receipt): Promise<'shared' | 'copied'> {
+  const text = formatThermalReceipt(receipt, 58);
+  if (navigator.share) {
+    await navigator.share({ title: `Receipt ${receipt.sale.receipt_number}`, text });
+    return 'shared';
+  }
+  await navigator.clipboard.writeText(text);
+  return 'copied';
+}
@@ -0,0 +1,83 @@
+export type SaleLineErrorCode =
+  | 'product_not_found'
+  | 'invalid_quantity'
+  | 'fractional_quantity'
+  | 'invalid_line_total'
+  | 'insufficient_stock'
+  | 'price_mismatch'
+  | 'unit_not_found'
+  | 'invalid_discount'
+  | 'discount_exceeds_limit'
+  | 'promotion_not_applicable';
+
+// One offending line, as reported by the `validate_sale_items` database function.
+export interface SaleLineError {
+  product_id: string;
+  name?: string;
+  code: SaleLineErrorCode;
+  requested?: number;
+  available?: number;
+  unit_price?: number;
+  selling_price?: number;
+  discount_amount?: number;
+  max_percent?: number;
+  line_total?: number;
+  // Set when the product is short as a component of these bundles in the basket
+  bundle_ids?: string[];
+}
+
+export class SaleValidationError extends Error {
+  lineErrors: SaleLineError[];
+
+  constructor(message: string, lineErrors: SaleLineError[]) {
+    super(message);
+    this.name = 'SaleValidationError';
+    this.lineErrors = lineErrors;
+  }
+}
+
+interface PostgrestLikeError {
+  message: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+// `create_sale_and_items` raises with HINT `sale_validation_failed` and the line errors as JSON in DETAIL.
+// Anything else is returned unchanged so callers can keep their usual error handling.
+export function parseSaleError(error: unknown): unknown {
+  const postgrestError = error as PostgrestLikeError | null;
+  if (postgrestError?.hint !== 'sale_validation_failed' || !postgrestError.details) return error;
+
+  try {
+    return new SaleValidationError(postgrestError.message, JSON.parse(postgrestError.details) as SaleLineError[]);
+  } catch {
+    return error;
+  }
+}
+
+export function describeLineError(lineError: SaleLineError): string {
+  switch (lineError.code) {
+    case 'product_not_found':
+      return 'No longer available';
+    case 'invalid_quantity':
+      return 'Quantity must be more than 0';
+    case 'fractional_quantity':
+      return `Sold in whole units, not ${lineError.requested}`;
+    case 'invalid_line_total':
+      return 'Label price does not match the weight';
+    case 'insufficient_stock':
+      return lineError.bundle_ids?.length
+        ? `Only ${lineError.available ?? 0} of ${lineError.name ?? 'a component'} in stock`
+        : `Only ${lineError.available ?? 0} in stock`;
+    case 'price_mismatch':
+      return `Price must be KSh ${(lineError.selling_price ?? 0).toLocaleString()}`;
+    case 'unit_not_found':
+      return 'This selling unit is no longer available';
+    case 'invalid_discount':
+      return 'Discount cannot be more than the line total';
+    case 'discount_exceeds_limit':
+      return `Discount is above your limit of ${lineError.max_percent ?? 0}%`;
+    case 'promotion_not_applicable':
+      return 'Promotion is no longer running';
+  }
+}
@@ -0,0 +1,132 @@
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { format } from 'date-fns';
+import { supabase, type CashShift, type CashShiftStatus, type CashMovementType, type PaymentMethod } from './supabase';
+import { tenderLabels } from './tenders';
+
+// Kenyan notes and coins, largest first, as counted into the drawer at cash-up.
+export const denominations = [
+  { value: 1000, label: 'KSh 1,000' },
+  { value: 500, label: 'KSh 500' },
+  { value: 200, label: 'KSh 200' },
+  { value: 100, label: 'KSh 100' },
+  { value: 50, label: 'KSh 50' },
+  { value: 20, label: 'KSh 20 coin' },
+  { value: 10, label: 'KSh 10 coin' },
+  { value: 5, label: 'KSh 5 coin' },
+  { value: 1, label: 'KSh 1 coin' },
+];
+
+export const cashMovementLabels: Record<CashMovementType, string> = {
+  paid_in: 'Paid in',
+  paid_out: 'Paid out',
+};
+
+export interface ShiftTenderLine {
+  method: PaymentMethod;
+  sales: number;
+  refunds: number;
+  repayments: number;
+  deposits: number;
+  counted: number | null;
+  // Only returned to owners and managers
+  expected?: number;
+  variance?: number | null;
+}
+
+export interface ShiftReport {
+  shift_id: string;
+  shift_number: string;
+  status: CashShiftStatus;
+  cashier_name: string | null;
+  opened_at: string;
+  closed_at: string | null;
+  opening_float: number;
+  paid_in: number;
+  paid_out: number;
+  sale_count: number;
+  denomination_counts: Record<string, number> | null;
+  notes: string | null;
+  can_see_variance: boolean;
+  tenders: ShiftTenderLine[];
+  movements: { movement_type: CashMovementType; amount: number; reason: string; created_at: string }[];
+}
+
+export const countDenominations = (counts: Record<string, number>) =>
+  Object.entries(counts).reduce((acc, [value, count]) => acc + Number(value) * (count || 0), 0);
+
+export async function fetchOpenShift(businessId: string, cashierId: string): Promise<CashShift | null> {
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .select('*')
+    .eq('business_id', businessId)
+    .eq('cashier_id', cashierId)
+    .eq('status', 'open')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchShiftReport(shiftId: string): Promise<ShiftReport> {
+  const { data, error } = await supabase.rpc('get_cash_shift_report', { p_shift_id: shiftId });
+  if (error) throw error;
+  return data as ShiftReport;
+}
+
+const amount = (value: number | null | undefined) => value == null ? '-' : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// An X report while the shift is open, a Z report once it has closed.
+export function printShiftReport(report: ShiftReport, businessName: string) {
+  const isZ = report.status === 'closed';
+  const doc = new jsPDF();
+  doc.setFontSize(14);
+  doc.text(businessName, 14, 16);
+  doc.setFontSize(11);
+  doc.text(`${isZ ? 'Z' : 'X'} Report - ${report.shift_number}`, 14, 23);
+  doc.setFontSize(10);
+  doc.text(`Cashier: ${report.cashier_name || 'Unknown'}`, 14, 30);
+  doc.text(
+    `Opened ${format(new Date(report.opened_at), 'dd MMM yyyy HH:mm')}${report.closed_at ? `, closed ${format(new Date(report.closed_at), 'dd MMM yyyy HH:mm')}` : `, printed ${format(new Date(), 'dd MMM yyyy HH:mm')}`}`,
+    14,
+    36,
+  );
+
+  const head = ['Tender', 'Sales', 'Refunds', 'Repayments', 'Deposits'];
+  if (report.can_see_variance) head.push('Expected');
+  head.push('Counted');
+  if (report.can_see_variance) head.push('Over / Short');
+
+  doc.autoTable({
+    head: [head],
+    body: report.tenders.map(t => {
+      const row = [tenderLabels[t.method], amount(t.sales), amount(t.refunds), amount(t.repayments), amount(t.deposits)];
+      if (report.can_see_variance) row.push(amount(t.expected));
+      row.push(amount(t.counted));
+      if (report.can_see_variance) row.push(amount(t.variance));
+      return row;
+    }),
+    startY: 42,
+  });
+
+  doc.autoTable({
+    head: [['Cash drawer', 'KSh']],
+    body: [
+      ['Opening float', amount(report.opening_float)],
+      ['Paid in', amount(report.paid_in)],
+      ['Paid out', amount(report.paid_out)],
+      ['Number of sales', String(report.sale_count)],
+      ...report.movements.map(m => [`${cashMovementLabels[m.movement_type]}: ${m.reason}`, amount(m.amount)]),
+    ],
+  });
+
+  if (report.denomination_counts) {
+    doc.autoTable({
+      head: [['Denomination', 'Count', 'KSh']],
+      body: denominations
+        .filter(d => report.denomination_counts![String(d.value)])
+        .map(d => [d.label, String(report.denomination_counts![String(d.value)]), amount(d.value * report.denomination_counts![String(d.value)])]),
+    });
+  }
+
+  doc.save(`${isZ ? 'z' : 'x'}_report_${report.shift_number}.pdf`);
+}
@@ -0,0 +1,25 @@
+import { type StockMovementType } from './supabase';
+
+export const movementTypeLabels: Record<StockMovementType, string> = {
+  opening: 'Opening',
+  sale: 'Sale',
+  return: 'Return',
+  receipt: 'Goods received',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer',
+  stock_take: 'Stock take',
+};
+
+// Reasons offered for adjustments and stock-take variances; stored as the movement's reason.
+export const adjustmentReasons = [
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'theft', label: 'Theft / loss' },
+  { value: 'miscount', label: 'Previous miscount' },
+  { value: 'found', label: 'Found stock' },
+  { value: 'internal_use', label: 'Internal use' },
+  { value: 'other', label: 'Other' },
+];
+
+export const reasonLabel = (reason?: string) =>
+  adjustmentReasons.find(r => r.value === reason)?.label ?? reason ?? '';
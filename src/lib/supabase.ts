@@ -11,9 +11,26 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 // Database types
 export type BusinessType = 'hardware' | 'supermarket' | 'rentals' | 'airbnb' | 'hotel' | 'school';
-export type StaffRole = 'owner' | 'manager' | 'cashier' | 'accountant' | 'teacher' | 'front_desk' | 'housekeeper';
+export type StaffRoleName = 'owner' | 'manager' | 'cashier' | 'accountant' | 'teacher' | 'front_desk' | 'housekeeper';
 export type PaymentStatus = 'pending' | 'paid' | 'overdue' | 'cancelled';
 export type SubscriptionStatus = 'trial' | 'active' | 'cancelled' | 'expired';
+export type PaymentMethod = 'cash' | 'mpesa' | 'card' | 'account';
+export type MpesaRequestStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+export type SaleReturnType = 'return' | 'void';
+export type SaleReturnStatus = 'pending_approval' | 'completed' | 'rejected';
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+export type SupplierPaymentMethod = 'cash' | 'mpesa' | 'card' | 'bank';
+export type CustomerPaymentMethod = 'cash' | 'mpesa';
+export type StockMovementType = 'opening' | 'sale' | 'return' | 'receipt' | 'adjustment' | 'transfer' | 'stock_take';
+export type StockTakeStatus = 'counting' | 'posted' | 'cancelled';
+export type CashShiftStatus = 'open' | 'closed';
+export type CashMovementType = 'paid_in' | 'paid_out';
+export type StockTransferStatus = 'requested' | 'in_transit' | 'received' | 'cancelled';
+export type TaxClass = 'vat_standard' | 'zero_rated' | 'exempt';
+export type EtimsInvoiceStatus = 'pending' | 'signed' | 'failed';
+export type ScaleBarcodeEmbedded = 'weight' | 'price';
+export type LayawayStatus = 'active' | 'completed' | 'cancelled' | 'expired';
+export type LayawayPaymentMethod = 'cash' | 'mpesa' | 'card';
 
 export interface Profile {
   id: string;
@@ -34,10 +51,24 @@ export interface Business {
   location?: string;
   logo_url?: string;
   settings: Record<string, any>;
+  vat_registered: boolean;
+  kra_pin?: string | null;
+  prices_include_vat: boolean;
+  etims_enabled: boolean;
+  scale_barcode_formats: ScaleBarcodeFormat[];
+  layaway_days: number;
   created_at: string;
   updated_at: string;
 }
 
+// One label layout printed by the business's scales: `prefix`, then the PLU, then the weight or price, then a check digit.
+export interface ScaleBarcodeFormat {
+  prefix: string;
+  embedded: ScaleBarcodeEmbedded;
+  plu_length: number;
+  decimals: number;
+}
+
 export interface Subscription {
   id: string;
   business_id: string;
@@ -50,11 +81,34 @@ export interface StaffRole {
   id: string;
   business_id: string;
   user_id: string;
-  role: StaffRole;
+  role: StaffRoleName;
   permissions: Record<string, any>;
   invited_by: string;
   invited_at: string;
   is_active: boolean;
+  branch_id?: string | null;
+}
+
+// An outlet of a business. Stock, sales, shifts and purchase orders each belong to one branch.
+export interface Branch {
+  id: string;
+  business_id: string;
+  name: string;
+  code?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Stock on hand of a product at one branch. Product.stock_quantity is the total across branches.
+export interface BranchStock {
+  branch_id: string;
+  product_id: string;
+  business_id: string;
+  quantity: number;
 }
 
 export interface Product {
@@ -71,10 +125,39 @@ export interface Product {
   unit: string;
   image_url?: string;
   is_active: boolean;
+  parent_product_id?: string | null;
+  variant_name?: string | null;
+  track_expiry: boolean;
+  tax_class: TaxClass;
+  is_bundle: boolean;
+  is_quick_key: boolean;
+  is_weighed: boolean;
+  plu?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// One product in a bundle (kit or hamper) and how many of it each bundle takes.
+export interface ProductBundleComponent {
+  id: string;
+  bundle_product_id: string;
+  component_product_id: string;
+  quantity: number;
+}
+
+// An alternative way of selling a product, e.g. a box of 100 when stock is counted in pieces.
+export interface ProductUnit {
+  id: string;
+  business_id: string;
+  product_id: string;
+  name: string;
+  conversion_factor: number;
+  selling_price: number;
+  barcode?: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
 export interface Sale {
   id: string;
   business_id: string;
@@ -86,6 +169,36 @@ export interface Sale {
   mpesa_code?: string;
   notes?: string;
   receipt_number: string;
+  client_sale_id?: string;
+  customer_id?: string | null;
+  shift_id?: string | null;
+  branch_id?: string | null;
+  tax_amount: number;
+  net_amount: number;
+  created_at: string;
+}
+
+export interface Customer {
+  id: string;
+  business_id: string;
+  phone: string;
+  name?: string;
+  email?: string;
+  notes?: string;
+  credit_limit: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerPayment {
+  id: string;
+  business_id: string;
+  customer_id: string;
+  amount: number;
+  method: CustomerPaymentMethod;
+  reference?: string;
+  notes?: string;
+  received_by?: string;
   created_at: string;
 }
 
@@ -96,6 +209,343 @@ export interface SaleItem {
   quantity: number;
   unit_price: number;
   total_price: number;
+  unit_cost?: number | null;
+  discount_amount: number;
+  promotion_id?: string | null;
+  product_unit_id?: string | null;
+  unit_name?: string | null;
+  conversion_factor: number;
+  tax_class?: TaxClass | null;
+  tax_rate: number;
+  tax_amount: number;
+}
+
+export type PromotionType = 'percent_off' | 'buy_x_get_y';
+
+export interface Promotion {
+  id: string;
+  business_id: string;
+  name: string;
+  promotion_type: PromotionType;
+  product_id?: string | null;
+  category?: string | null;
+  percent?: number | null;
+  buy_quantity?: number | null;
+  free_quantity?: number | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  days_of_week?: number[] | null;
+  is_active: boolean;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface DiscountLimit {
+  id: string;
+  business_id: string;
+  role: StaffRoleName;
+  max_percent: number;
+  updated_at: string;
+}
+
+export interface SalePayment {
+  id: string;
+  sale_id: string;
+  method: PaymentMethod;
+  amount: number;
+  tendered_amount?: number;
+  change_amount: number;
+  reference?: string;
+  created_at: string;
+}
+
+export interface SaleReturn {
+  id: string;
+  business_id: string;
+  sale_id: string;
+  return_number: string;
+  return_type: SaleReturnType;
+  status: SaleReturnStatus;
+  reason_code: string;
+  notes?: string;
+  total_amount: number;
+  refund_method: PaymentMethod;
+  processed_by: string;
+  approved_by?: string;
+  approved_at?: string;
+  created_at: string;
+}
+
+export interface SaleReturnItem {
+  id: string;
+  return_id: string;
+  sale_item_id: string;
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+export type OfflineSaleConflictCode = 'insufficient_stock' | 'price_mismatch' | 'discount_exceeds_limit' | 'promotion_not_applicable';
+
+export interface OfflineSaleConflict {
+  id: string;
+  business_id: string;
+  sale_id: string;
+  product_id: string;
+  code: OfflineSaleConflictCode;
+  requested: number | null;
+  available: number | null;
+  // The line as `validate_sale_items` reported it, e.g. `unit_price` and `selling_price` for a price mismatch
+  details?: { unit_price?: number; selling_price?: number; discount_amount?: number; max_percent?: number } | null;
+  resolved_by?: string;
+  resolved_at?: string;
+  created_at: string;
+}
+
+export interface Supplier {
+  id: string;
+  business_id: string;
+  name: string;
+  contact_person?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  lead_time_days?: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  business_id: string;
+  supplier_id: string;
+  branch_id?: string | null;
+  po_number: string;
+  status: PurchaseOrderStatus;
+  expected_date?: string;
+  notes?: string;
+  total_amount: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface GoodsReceivedNote {
+  id: string;
+  business_id: string;
+  purchase_order_id: string;
+  supplier_id: string;
+  grn_number: string;
+  total_amount: number;
+  notes?: string;
+  received_by: string;
+  created_at: string;
+}
+
+export interface SupplierPayment {
+  id: string;
+  business_id: string;
+  supplier_id: string;
+  amount: number;
+  method: SupplierPaymentMethod;
+  reference?: string;
+  notes?: string;
+  paid_by: string;
+  created_at: string;
+}
+
+// Stock received together with one expiry date. Stock leaves batches first-expiry-first-out.
+export interface ProductBatch {
+  id: string;
+  business_id: string;
+  product_id: string;
+  branch_id?: string | null;
+  batch_number: string | null;
+  expiry_date: string | null;
+  quantity_received: number;
+  quantity_remaining: number;
+  stock_movement_id: string | null;
+  received_at: string;
+  created_by: string | null;
+}
+
+export interface StockMovement {
+  id: string;
+  business_id: string;
+  product_id: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  balance_after: number;
+  branch_id?: string | null;
+  branch_balance_after?: number | null;
+  reference_type?: string;
+  reference_id?: string;
+  reason?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface StockTake {
+  id: string;
+  business_id: string;
+  branch_id?: string | null;
+  stock_take_number: string;
+  status: StockTakeStatus;
+  category?: string;
+  notes?: string;
+  created_by: string;
+  posted_by?: string;
+  posted_at?: string;
+  created_at: string;
+}
+
+export interface StockTakeItem {
+  id: string;
+  stock_take_id: string;
+  product_id: string;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  reason?: string;
+}
+
+export interface CashShift {
+  id: string;
+  business_id: string;
+  shift_number: string;
+  branch_id?: string | null;
+  cashier_id: string;
+  status: CashShiftStatus;
+  opening_float: number;
+  denomination_counts?: Record<string, number> | null;
+  notes?: string;
+  opened_at: string;
+  closed_at?: string;
+  closed_by?: string;
+}
+
+export interface CashMovement {
+  id: string;
+  shift_id: string;
+  movement_type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface StockTransfer {
+  id: string;
+  business_id: string;
+  transfer_number: string;
+  from_branch_id: string;
+  to_branch_id: string;
+  status: StockTransferStatus;
+  notes?: string;
+  requested_by?: string;
+  dispatched_by?: string;
+  dispatched_at?: string;
+  received_by?: string;
+  received_at?: string;
+  created_at: string;
+}
+
+export interface StockTransferItem {
+  id: string;
+  transfer_id: string;
+  product_id: string;
+  quantity_requested: number;
+  quantity_dispatched: number;
+  quantity_received: number;
+}
+
+export interface LayawayOrder {
+  id: string;
+  business_id: string;
+  branch_id: string;
+  layaway_number: string;
+  status: LayawayStatus;
+  customer_name: string;
+  customer_phone: string;
+  total_amount: number;
+  paid_amount: number;
+  expires_at: string;
+  sale_id?: string | null;
+  created_by?: string;
+  created_at: string;
+  closed_at?: string | null;
+}
+
+export interface LayawayItem {
+  id: string;
+  layaway_id: string;
+  product_id: string;
+  product_unit_id?: string | null;
+  conversion_factor: number;
+  quantity: number;
+  unit_price: number;
+  discount_amount: number;
+  promotion_id?: string | null;
+  total_price: number;
+}
+
+// A negative amount is a refund made when the order was cancelled
+export interface LayawayPayment {
+  id: string;
+  layaway_id: string;
+  business_id: string;
+  method: LayawayPaymentMethod;
+  amount: number;
+  reference?: string | null;
+  received_by?: string;
+  shift_id?: string | null;
+  created_at: string;
+}
+
+export interface EtimsInvoice {
+  id: string;
+  business_id: string;
+  sale_id: string;
+  status: EtimsInvoiceStatus;
+  adapter: string;
+  cu_invoice_number?: string | null;
+  qr_data?: string | null;
+  error?: string | null;
+  submitted_at: string;
+}
+
+export interface MpesaPaymentRequest {
+  id: string;
+  business_id: string;
+  cashier_id: string;
+  phone: string;
+  amount: number;
+  items: { product_id: string; quantity: number; unit_price: number }[];
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  payments: { method: PaymentMethod; amount: number; tendered?: number; reference?: string }[];
+  merchant_request_id?: string;
+  checkout_request_id?: string;
+  status: MpesaRequestStatus;
+  result_code?: number;
+  result_desc?: string;
+  mpesa_receipt_number?: string;
+  sale_id?: string;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Tenant {
@@ -0,0 +1,40 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, type Business, type EtimsInvoice, type TaxClass } from './supabase';
+
+export type TaxSettings = Pick<Business, 'vat_registered' | 'prices_include_vat'>;
+
+export const taxClassLabels: Record<TaxClass, string> = {
+  vat_standard: 'VAT 16%',
+  zero_rated: 'Zero rated',
+  exempt: 'Exempt',
+};
+
+// Mirrors `tax_class_rate` in the database.
+export const taxClassRates: Record<TaxClass, number> = {
+  vat_standard: 16,
+  zero_rated: 0,
+  exempt: 0,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// What the customer pays for a shelf price; mirrors `vat_inclusive_price`.
+export function vatInclusivePrice(price: number, taxClass: TaxClass | undefined, settings: TaxSettings): number {
+  if (!settings.vat_registered || settings.prices_include_vat) return price;
+  return round2(price * (100 + taxClassRates[taxClass ?? 'vat_standard']) / 100);
+}
+
+// Asks the `etims-submit` edge function to sign a sale. A rejected submission is stored too,
+// so the returned invoice may have `status: 'failed'` with the reason in `error`, or
+// `status: 'pending'` while another submission of the same sale is still with eTIMS.
+export async function submitEtimsInvoice(saleId: string): Promise<EtimsInvoice> {
+  const { data, error } = await supabase.functions.invoke<EtimsInvoice>('etims-submit', {
+    body: { sale_id: saleId },
+  });
+  if (error instanceof FunctionsHttpError && (error.context.status === 502 || error.context.status === 409)) {
+    return await error.context.json();
+  }
+  if (error) throw error;
+  if (!data) throw new Error('No response from eTIMS service');
+  return data;
+}
@@ -0,0 +1,51 @@
+import { type PaymentMethod } from './supabase';
+
+export interface TenderInput {
+  method: PaymentMethod;
+  amount: number;
+  tendered?: number;
+  reference?: string;
+}
+
+export interface TenderSummary {
+  payments: TenderInput[];
+  balance: number;
+  change: number;
+  isValid: boolean;
+}
+
+export const tenderLabels: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  mpesa: 'M-Pesa',
+  card: 'Card',
+  account: 'On Account',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Turns what the cashier entered per tender into the payments sent to `create_sale_and_items`.
+// Cash covers whatever the other tenders leave unpaid; anything handed over beyond that is change.
+export function summariseTenders(total: number, entered: { method: PaymentMethod; amount: number; reference?: string }[]): TenderSummary {
+  const nonCash = entered.filter(t => t.method !== 'cash' && t.amount > 0);
+  const cash = entered.find(t => t.method === 'cash');
+
+  const nonCashTotal = round2(nonCash.reduce((acc, t) => acc + t.amount, 0));
+  const cashDue = round2(total - nonCashTotal);
+  const cashTendered = cash ? round2(cash.amount || 0) : 0;
+
+  const payments: TenderInput[] = nonCash.map(t => ({ method: t.method, amount: round2(t.amount), reference: t.reference || undefined }));
+  if (cash && cashDue > 0) {
+    payments.push({ method: 'cash', amount: cashDue, tendered: cashTendered });
+  }
+
+  const paid = round2(nonCashTotal + cashTendered);
+  const balance = Math.max(round2(total - paid), 0);
+  const change = cash ? Math.max(round2(paid - total), 0) : 0;
+
+  return {
+    payments,
+    balance,
+    change,
+    isValid: total > 0 && balance === 0 && nonCashTotal <= total && (cash !== undefined || nonCashTotal === total),
+  };
+}
@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type Branch, type StockTransferStatus } from '../lib/supabase';
+import { stockTransferStatusLabels, fetchStaffBranchId } from '../lib/branches';
+import { useAuth } from '../contexts/AuthContext';
+import { useStaffRole } from '../hooks/useStaffRole';
+import { useBranches } from '../hooks/useBranches';
+import PageHeader from '../components/PageHeader';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
+import { Badge } from '../components/ui/Badge';
+import { Modal } from '../components/ui/Modal';
+import { PlusIcon, MoreVertical, Pencil, Star, ToggleLeft, ToggleRight, ArrowRightLeft, Truck, PackageCheck, XCircle } from 'lucide-react';
+import { Menu, Transition } from '@headlessui/react';
+import { format } from 'date-fns';
+import { StockTransferModal } from '../components/branches/StockTransferModal';
+import { TransferStepModal, type TransferRow, type TransferStep } from '../components/branches/TransferStepModal';
+
+interface BranchesPageProps {
+  businessId: string;
+}
+
+const transferStatusVariants: Record<StockTransferStatus, 'default' | 'success' | 'warning' | 'danger'> = {
+  requested: 'default',
+  in_transit: 'warning',
+  received: 'success',
+  cancelled: 'danger',
+};
+
+const emptyBranchForm = { name: '', code: '', address: '', phone: '' };
+
+const menuItemClasses = (active: boolean) =>
+  `${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`;
+
+export default function Branches({ businessId }: BranchesPageProps) {
+  const { user } = useAuth();
+  const { isManager } = useStaffRole(businessId);
+  const { branches, activeBranches, loading, refresh } = useBranches(businessId);
+  // Other staff only dispatch from, and receive at, the branch they work at
+  const [staffBranchId, setStaffBranchId] = useState<string | null>(null);
+  const [transfers, setTransfers] = useState<TransferRow[]>([]);
+  const [transfersLoading, setTransfersLoading] = useState(true);
+
+  const [isBranchModalOpen, setIsBranchModalOpen] = useState(false);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [branchForm, setBranchForm] = useState(emptyBranchForm);
+
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [stepTransfer, setStepTransfer] = useState<TransferRow | null>(null);
+  const [step, setStep] = useState<TransferStep>('dispatch');
+
+  const fetchTransfers = useCallback(async () => {
+    setTransfersLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('stock_transfers')
+        .select('*, stock_transfer_items(*, products(name, unit, is_weighed))')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      setTransfers(data as TransferRow[] || []);
+    } catch (error) {
+      console.error('Error fetching stock transfers:', error);
+    } finally {
+      setTransfersLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchTransfers();
+    }
+  }, [businessId, fetchTransfers]);
+
+  useEffect(() => {
+    if (!businessId || !user) return;
+    fetchStaffBranchId(businessId, user.id)
+      .then(setStaffBranchId)
+      .catch(error => console.error('Error fetching staff branch:', error));
+  }, [businessId, user]);
+
+  const canHandleAt = (branchId: string) => isManager || staffBranchId === branchId;
+
+  const branchName = (branchId: string) => branches.find(b => b.id === branchId)?.name ?? 'Unknown branch';
+
+  const openAddModal = () => {
+    setEditingBranch(null);
+    setBranchForm(emptyBranchForm);
+    setIsBranchModalOpen(true);
+  };
+
+  const openEditModal = (branch: Branch) => {
+    setEditingBranch(branch);
+    setBranchForm({ name: branch.name, code: branch.code || '', address: branch.address || '', phone: branch.phone || '' });
+    setIsBranchModalOpen(true);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setBranchForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSaveBranch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const branchData = {
+      name: branchForm.name,
+      code: branchForm.code || null,
+      address: branchForm.address || null,
+      phone: branchForm.phone || null,
+    };
+    try {
+      if (editingBranch) {
+        const { error } = await supabase
+          .from('branches')
+          .update({ ...branchData, updated_at: new Date().toISOString() })
+          .eq('id', editingBranch.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('branches').insert({ ...branchData, business_id: businessId });
+        if (error) throw error;
+      }
+      await refresh();
+      setIsBranchModalOpen(false);
+    } catch (error) {
+      console.error('Error saving branch:', error);
+      alert(`Failed to save branch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleMakeDefault = async (branch: Branch) => {
+    try {
+      const { error } = await supabase.rpc('set_default_branch', { p_branch_id: branch.id });
+      if (error) throw error;
+      await refresh();
+    } catch (error) {
+      console.error('Error setting default branch:', error);
+      alert(`Failed to set default branch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleToggleActive = async (branch: Branch) => {
+    try {
+      const { error } = await supabase
+        .from('branches')
+        .update({ is_active: !branch.is_active, updated_at: new Date().toISOString() })
+        .eq('id', branch.id);
+      if (error) throw error;
+      await refresh();
+    } catch (error) {
+      console.error('Error updating branch:', error);
+      alert(`Failed to update branch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCancelTransfer = async (transfer: TransferRow) => {
+    if (!window.confirm(`Cancel ${transfer.transfer_number}?`)) return;
+    try {
+      const { error } = await supabase.rpc('cancel_stock_transfer', { p_transfer_id: transfer.id });
+      if (error) throw error;
+      await fetchTransfers();
+    } catch (error) {
+      console.error('Error cancelling stock transfer:', error);
+      alert(`Failed to cancel transfer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const openStep = (transfer: TransferRow, nextStep: TransferStep) => {
+    setStep(nextStep);
+    setStepTransfer(transfer);
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Branches"
+        subtitle="Your outlets, each with its own stock, and transfers of stock between them."
+        actions={
+          <div className="flex space-x-2">
+            <Button variant="secondary" icon={<ArrowRightLeft />} onClick={() => setIsTransferModalOpen(true)} disabled={activeBranches.length < 2}>
+              New Transfer
+            </Button>
+            {isManager && (
+              <Button icon={<PlusIcon />} onClick={openAddModal}>
+                Add Branch
+              </Button>
+            )}
+          </div>
+        }
+      />
+
+      <Card className="mb-6">
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Loading branches...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Name</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Status</TableHead>
+                {isManager && <TableHead><span className="sr-only">Actions</span></TableHead>}
+              </TableHeader>
+              <TableBody>
+                {branches.map(branch => (
+                  <TableRow key={branch.id}>
+                    <TableCell>
+                      <div className="font-medium">{branch.name}</div>
+                      {branch.is_default && <div className="text-xs text-gray-500 dark:text-gray-400">Default branch</div>}
+                    </TableCell>
+                    <TableCell>{branch.code || '-'}</TableCell>
+                    <TableCell>{branch.address || '-'}</TableCell>
+                    <TableCell>{branch.phone || '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={branch.is_active ? 'success' : 'danger'}>{branch.is_active ? 'Active' : 'Inactive'}</Badge>
+                    </TableCell>
+                    {isManager && (
+                      <TableCell className="text-right">
+                        <Menu as="div" className="relative inline-block text-left">
+                          <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
+                          <Transition
+                            as={React.Fragment}
+                            enter="transition ease-out duration-100"
+                            enterFrom="transform opacity-0 scale-95"
+                            enterTo="transform opacity-100 scale-100"
+                            leave="transition ease-in duration-75"
+                            leaveFrom="transform opacity-100 scale-100"
+                            leaveTo="transform opacity-0 scale-95"
+                          >
+                            <Menu.Items className="absolute right-0 z-10 mt-2 w-44 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                              <div className="px-1 py-1">
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button onClick={() => openEditModal(branch)} className={menuItemClasses(active)}>
+                                      <Pencil className="mr-2 h-4 w-4" />
+                                      Edit
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                {!branch.is_default && branch.is_active && (
+                                  <Menu.Item>
+                                    {({ active }) => (
+                                      <button onClick={() => handleMakeDefault(branch)} className={menuItemClasses(active)}>
+                                        <Star className="mr-2 h-4 w-4" />
+                                        Make Default
+                                      </button>
+                                    )}
+                                  </Menu.Item>
+                                )}
+                                {!branch.is_default && (
+                                  <Menu.Item>
+                                    {({ active }) => (
+                                      <button onClick={() => handleToggleActive(branch)} className={menuItemClasses(active)}>
+                                        {branch.is_active ? <ToggleLeft className="mr-2 h-4 w-4 text-red-500" /> : <ToggleRight className="mr-2 h-4 w-4 text-green-500" />}
+                                        {branch.is_active ? 'Deactivate' : 'Activate'}
+                                      </button>
+                                    )}
+                                  </Menu.Item>
+                                )}
+                              </div>
+                            </Menu.Items>
+                          </Transition>
+                        </Menu>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Stock Transfers</h3>
+          {transfersLoading ? (
+            <div className="text-center py-12">Loading transfers...</div>
+          ) : transfers.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No transfers yet</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Request stock from another branch and it appears here until it is received.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Number</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Lines</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead><span className="sr-only">Actions</span></TableHead>
+              </TableHeader>
+              <TableBody>
+                {transfers.map(transfer => (
+                  <TableRow key={transfer.id}>
+                    <TableCell>
+                      <div className="font-medium">{transfer.transfer_number}</div>
+                      {transfer.notes && <div className="text-xs text-gray-500 dark:text-gray-400">{transfer.notes}</div>}
+                    </TableCell>
+                    <TableCell>{format(new Date(transfer.created_at), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>{branchName(transfer.from_branch_id)}</TableCell>
+                    <TableCell>{branchName(transfer.to_branch_id)}</TableCell>
+                    <TableCell>{transfer.stock_transfer_items.length}</TableCell>
+                    <TableCell><Badge variant={transferStatusVariants[transfer.status]}>{stockTransferStatusLabels[transfer.status]}</Badge></TableCell>
+                    <TableCell className="text-right">
+                      {transfer.status === 'requested' && (
+                        <div className="flex justify-end space-x-2">
+                          {canHandleAt(transfer.from_branch_id) && (
+                            <Button variant="ghost" size="sm" icon={<Truck className="h-4 w-4" />} onClick={() => openStep(transfer, 'dispatch')}>Dispatch</Button>
+                          )}
+                          <Button variant="ghost" size="sm" icon={<XCircle className="h-4 w-4" />} onClick={() => handleCancelTransfer(transfer)}>Cancel</Button>
+                        </div>
+                      )}
+                      {transfer.status === 'in_transit' && canHandleAt(transfer.to_branch_id) && (
+                        <Button variant="ghost" size="sm" icon={<PackageCheck className="h-4 w-4" />} onClick={() => openStep(transfer, 'receive')}>Receive</Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={isBranchModalOpen} onClose={() => setIsBranchModalOpen(false)} title={editingBranch ? 'Edit Branch' : 'Add Branch'}>
+        <form onSubmit={handleSaveBranch} className="space-y-4">
+          <Input name="name" placeholder="Branch name" value={branchForm.name} onChange={handleInputChange} required />
+          <Input name="code" placeholder="Short code, e.g. TWN (optional)" value={branchForm.code} onChange={handleInputChange} />
+          <Input name="address" placeholder="Address (optional)" value={branchForm.address} onChange={handleInputChange} />
+          <Input name="phone" placeholder="Phone (optional)" value={branchForm.phone} onChange={handleInputChange} />
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setIsBranchModalOpen(false)}>Cancel</Button>
+            <Button type="submit">{editingBranch ? 'Save Changes' : 'Add Branch'}</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <StockTransferModal
+        businessId={businessId}
+        branches={activeBranches}
+        isOpen={isTransferModalOpen}
+        onClose={() => setIsTransferModalOpen(false)}
+        onCreated={fetchTransfers}
+      />
+      <TransferStepModal
+        transfer={stepTransfer}
+        step={step}
+        fromBranchName={stepTransfer ? branchName(stepTransfer.from_branch_id) : ''}
+        toBranchName={stepTransfer ? branchName(stepTransfer.to_branch_id) : ''}
+        onClose={() => setStepTransfer(null)}
+        onDone={fetchTransfers}
+      />
+    </div>
+  );
+}
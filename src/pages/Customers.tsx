@@ -0,0 +1,311 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type Customer, type CustomerPaymentMethod } from '../lib/supabase';
+import { normalizePhone, customerPaymentMethodLabels } from '../lib/customers';
+import { useAuth } from '../contexts/AuthContext';
+import { useStaffRole } from '../hooks/useStaffRole';
+import PageHeader from '../components/PageHeader';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
+import { Badge } from '../components/ui/Badge';
+import { Modal } from '../components/ui/Modal';
+import { PlusIcon, MoreVertical, Pencil, Banknote, FileText, Search } from 'lucide-react';
+import { Menu, Transition } from '@headlessui/react';
+import { CustomerStatementModal } from '../components/customers/CustomerStatementModal';
+
+interface CustomersPageProps {
+  businessId: string;
+}
+
+const emptyCustomerForm = { name: '', phone: '', email: '', notes: '', credit_limit: '0' };
+const emptyPaymentForm = { amount: '', method: 'cash' as CustomerPaymentMethod, reference: '', notes: '' };
+
+export default function Customers({ businessId }: CustomersPageProps) {
+  const { user } = useAuth();
+  const { isManager } = useStaffRole(businessId);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [balances, setBalances] = useState<Record<string, number>>({});
+  const [businessName, setBusinessName] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [customerForm, setCustomerForm] = useState(emptyCustomerForm);
+
+  const [payingCustomer, setPayingCustomer] = useState<Customer | null>(null);
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm);
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
+
+  const fetchCustomers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [{ data, error }, { data: debtorData, error: debtorError }, { data: business }] = await Promise.all([
+        supabase.from('customers').select('*').eq('business_id', businessId).order('name', { ascending: true }),
+        supabase.rpc('get_aged_debtors', { p_business_id: businessId }),
+        supabase.from('businesses').select('name').eq('id', businessId).single(),
+      ]);
+      if (error) throw error;
+      if (debtorError) throw debtorError;
+
+      setCustomers(data || []);
+      setBalances(Object.fromEntries((debtorData as { customer_id: string; balance: number }[] || []).map(d => [d.customer_id, d.balance])));
+      setBusinessName(business?.name || '');
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchCustomers();
+    }
+  }, [businessId, fetchCustomers]);
+
+  const openAddModal = () => {
+    setEditingCustomer(null);
+    setCustomerForm(emptyCustomerForm);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (customer: Customer) => {
+    setEditingCustomer(customer);
+    setCustomerForm({
+      name: customer.name || '',
+      phone: customer.phone,
+      email: customer.email || '',
+      notes: customer.notes || '',
+      credit_limit: String(customer.credit_limit),
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setCustomerForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSaveCustomer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const phone = normalizePhone(customerForm.phone);
+    if (!phone) {
+      alert('Enter a phone number for the customer.');
+      return;
+    }
+    const customerData = {
+      name: customerForm.name || null,
+      phone,
+      email: customerForm.email || null,
+      notes: customerForm.notes || null,
+      credit_limit: parseFloat(customerForm.credit_limit) || 0,
+    };
+    try {
+      if (editingCustomer) {
+        const { error } = await supabase
+          .from('customers')
+          .update({ ...customerData, updated_at: new Date().toISOString() })
+          .eq('id', editingCustomer.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('customers')
+          .insert({ ...customerData, business_id: businessId });
+        if (error) throw error;
+      }
+      await fetchCustomers();
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error saving customer:', error);
+      alert(`Failed to save customer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingCustomer || !user) return;
+    try {
+      const { error } = await supabase.from('customer_payments').insert({
+        business_id: businessId,
+        customer_id: payingCustomer.id,
+        amount: parseFloat(paymentForm.amount),
+        method: paymentForm.method,
+        reference: paymentForm.reference || null,
+        notes: paymentForm.notes || null,
+        received_by: user.id,
+      });
+      if (error) throw error;
+      await fetchCustomers();
+      setPayingCustomer(null);
+      setPaymentForm(emptyPaymentForm);
+    } catch (error) {
+      console.error('Error recording customer payment:', error);
+      alert(`Failed to record payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Repayments cannot be more than what is owed; the database refuses them too
+  const payingBalance = payingCustomer ? Math.max(balances[payingCustomer.id] || 0, 0) : 0;
+
+  const totalReceivable = Object.values(balances).reduce((acc, balance) => acc + Math.max(balance, 0), 0);
+  const searchText = searchTerm.trim().toLowerCase();
+  // Stored numbers start 254, so match typed numbers without their leading zero
+  const searchDigits = searchText.replace(/\D/g, '').replace(/^0/, '');
+  const filteredCustomers = customers.filter(customer =>
+    !searchText || (customer.name || '').toLowerCase().includes(searchText) || (searchDigits !== '' && customer.phone.includes(searchDigits))
+  );
+
+  return (
+    <div>
+      <PageHeader
+        title="Customers"
+        subtitle={`Customer accounts and what they owe. Total receivable: KSh ${totalReceivable.toLocaleString()}`}
+        actions={
+          <Button icon={<PlusIcon />} onClick={openAddModal}>
+            Add Customer
+          </Button>
+        }
+      />
+      <Card>
+        <CardContent>
+          <div className="mb-4">
+            <Input
+              placeholder="Search by name or phone..."
+              icon={<Search />}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          {loading ? (
+            <div className="text-center py-12">Loading customers...</div>
+          ) : filteredCustomers.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No customers found</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Customers are added automatically when a phone number is taken at checkout.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Customer</TableHead>
+                <TableHead>Credit Limit</TableHead>
+                <TableHead>Balance</TableHead>
+                <TableHead>Available Credit</TableHead>
+                <TableHead><span className="sr-only">Actions</span></TableHead>
+              </TableHeader>
+              <TableBody>
+                {filteredCustomers.map(customer => {
+                  const balance = balances[customer.id] || 0;
+                  return (
+                    <TableRow key={customer.id}>
+                      <TableCell>
+                        <div className="font-medium">{customer.name || 'Unnamed'}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{customer.phone}</div>
+                      </TableCell>
+                      <TableCell>{customer.credit_limit > 0 ? `KSh ${customer.credit_limit.toLocaleString()}` : 'No credit'}</TableCell>
+                      <TableCell>
+                        <Badge variant={balance > customer.credit_limit ? 'danger' : balance > 0 ? 'warning' : 'success'}>KSh {balance.toLocaleString()}</Badge>
+                      </TableCell>
+                      <TableCell>KSh {Math.max(customer.credit_limit - balance, 0).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Menu as="div" className="relative inline-block text-left">
+                          <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
+                          <Transition
+                            as={React.Fragment}
+                            enter="transition ease-out duration-100"
+                            enterFrom="transform opacity-0 scale-95"
+                            enterTo="transform opacity-100 scale-100"
+                            leave="transition ease-in duration-75"
+                            leaveFrom="transform opacity-100 scale-100"
+                            leaveTo="transform opacity-0 scale-95"
+                          >
+                            <Menu.Items className="absolute right-0 z-10 mt-2 w-44 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                              <div className="px-1 py-1">
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => openEditModal(customer)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Pencil className="mr-2 h-4 w-4" />
+                                      Edit
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => setPayingCustomer(customer)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Banknote className="mr-2 h-4 w-4" />
+                                      Record Payment
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => setStatementCustomer(customer)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <FileText className="mr-2 h-4 w-4" />
+                                      Statement
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                              </div>
+                            </Menu.Items>
+                          </Transition>
+                        </Menu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingCustomer ? 'Edit Customer' : 'Add Customer'}>
+        <form onSubmit={handleSaveCustomer} className="space-y-4">
+          <Input name="name" placeholder="Customer Name" value={customerForm.name} onChange={handleInputChange} />
+          <Input name="phone" type="tel" placeholder="Phone (e.g., 0712345678)" value={customerForm.phone} onChange={handleInputChange} required />
+          <Input name="email" type="email" placeholder="Email" value={customerForm.email} onChange={handleInputChange} />
+          <Input name="notes" placeholder="Notes" value={customerForm.notes} onChange={handleInputChange} />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Credit Limit (KSh)</label>
+            <Input name="credit_limit" type="number" min="0" step="0.01" value={customerForm.credit_limit} onChange={handleInputChange} disabled={!isManager} />
+            {!isManager && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Only owners and managers can change credit limits.</p>}
+          </div>
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button type="submit">{editingCustomer ? 'Save Changes' : 'Add Customer'}</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!payingCustomer} onClose={() => setPayingCustomer(null)} title={`Payment from ${payingCustomer?.name || payingCustomer?.phone || 'Customer'}`}>
+        <form onSubmit={handleRecordPayment} className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {payingBalance > 0 ? `Outstanding: KSh ${payingBalance.toLocaleString()}` : 'Nothing is owed on this account.'}
+          </p>
+          <Input type="number" min="0.01" max={payingBalance} step="0.01" placeholder="Amount (KSh)" value={paymentForm.amount} onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))} required />
+          <select value={paymentForm.method} onChange={(e) => setPaymentForm(prev => ({ ...prev, method: e.target.value as CustomerPaymentMethod }))} className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white">
+            {(Object.keys(customerPaymentMethodLabels) as CustomerPaymentMethod[]).map(method => <option key={method} value={method}>{customerPaymentMethodLabels[method]}</option>)}
+          </select>
+          <Input placeholder={paymentForm.method === 'mpesa' ? 'M-Pesa code' : 'Reference (optional)'} value={paymentForm.reference} onChange={(e) => setPaymentForm(prev => ({ ...prev, reference: e.target.value }))} required={paymentForm.method === 'mpesa'} />
+          <Input placeholder="Notes (optional)" value={paymentForm.notes} onChange={(e) => setPaymentForm(prev => ({ ...prev, notes: e.target.value }))} />
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setPayingCustomer(null)}>Cancel</Button>
+            <Button type="submit" disabled={payingBalance <= 0}>Record Payment</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <CustomerStatementModal customer={statementCustomer} businessName={businessName} onClose={() => setStatementCustomer(null)} />
+    </div>
+  );
+}
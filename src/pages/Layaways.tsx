@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type LayawayOrder, type LayawayItem, type LayawayPayment, type LayawayPaymentMethod, type LayawayStatus } from '../lib/supabase';
+import { layawayPaymentMethodLabels, layawayStatusLabels } from '../lib/layaways';
+import { useStaffRole } from '../hooks/useStaffRole';
+import PageHeader from '../components/PageHeader';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
+import { Badge } from '../components/ui/Badge';
+import { Modal } from '../components/ui/Modal';
+import { MoreVertical, Banknote, ReceiptText, XCircle, Search } from 'lucide-react';
+import { Menu, Transition } from '@headlessui/react';
+import { format } from 'date-fns';
+import { ReceiptModal } from '../components/sales/ReceiptModal';
+
+interface LayawaysPageProps {
+  businessId: string;
+}
+
+type LayawayRow = LayawayOrder & {
+  layaway_items: (LayawayItem & { products: { name: string } | null; product_units: { name: string } | null })[];
+  layaway_payments: LayawayPayment[];
+};
+
+const statusVariants: Record<LayawayStatus, 'default' | 'success' | 'warning' | 'danger'> = {
+  active: 'warning',
+  completed: 'success',
+  cancelled: 'default',
+  expired: 'danger',
+};
+
+const emptyPaymentForm = { amount: '', method: 'cash' as LayawayPaymentMethod, reference: '' };
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+const menuItemClasses = (active: boolean) =>
+  `${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`;
+
+export default function Layaways({ businessId }: LayawaysPageProps) {
+  const { isManager } = useStaffRole(businessId);
+  const [layaways, setLayaways] = useState<LayawayRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<LayawayStatus | ''>('active');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const [payingLayaway, setPayingLayaway] = useState<LayawayRow | null>(null);
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm);
+  const [cancellingLayaway, setCancellingLayaway] = useState<LayawayRow | null>(null);
+  const [refundMethod, setRefundMethod] = useState<LayawayPaymentMethod | ''>('cash');
+  const [processing, setProcessing] = useState(false);
+  const [receiptSaleId, setReceiptSaleId] = useState<string | null>(null);
+
+  // Orders past their expiry are closed first, so their goods are back on sale before anyone looks
+  const fetchLayaways = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { error: expireError } = await supabase.rpc('expire_layaway_orders', { p_business_id: businessId });
+      if (expireError) throw expireError;
+
+      let query = supabase
+        .from('layaway_orders')
+        .select('*, layaway_items(*, products(name), product_units(name)), layaway_payments(*)')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false })
+        .limit(200);
+      if (statusFilter) query = query.eq('status', statusFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setLayaways(data as LayawayRow[] || []);
+    } catch (error) {
+      console.error('Error fetching layaways:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, statusFilter]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchLayaways();
+    }
+  }, [businessId, fetchLayaways]);
+
+  const openPayment = (layaway: LayawayRow) => {
+    setPaymentForm({ ...emptyPaymentForm, amount: String(layaway.total_amount - layaway.paid_amount) });
+    setPayingLayaway(layaway);
+  };
+
+  const openCancel = (layaway: LayawayRow) => {
+    setRefundMethod(layaway.paid_amount > 0 ? 'cash' : '');
+    setCancellingLayaway(layaway);
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingLayaway) return;
+    setProcessing(true);
+    try {
+      const { data, error } = await supabase.rpc('record_layaway_payment', {
+        p_layaway_id: payingLayaway.id,
+        p_method: paymentForm.method,
+        p_amount: parseFloat(paymentForm.amount),
+        p_reference: paymentForm.reference || null,
+      });
+      if (error) throw error;
+      setPayingLayaway(null);
+      setPaymentForm(emptyPaymentForm);
+      await fetchLayaways();
+      // Paid off: the goods can be handed over against the sale's receipt
+      if (data?.sale_id) setReceiptSaleId(data.sale_id);
+    } catch (error) {
+      console.error('Error recording layaway payment:', error);
+      alert(`Failed to record payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCancel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cancellingLayaway) return;
+    setProcessing(true);
+    try {
+      const { error } = await supabase.rpc('cancel_layaway', {
+        p_layaway_id: cancellingLayaway.id,
+        p_refund_method: refundMethod || null,
+      });
+      if (error) throw error;
+      setCancellingLayaway(null);
+      await fetchLayaways();
+    } catch (error) {
+      console.error('Error cancelling layaway:', error);
+      alert(`Failed to cancel layaway: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const searchText = searchTerm.trim().toLowerCase();
+  const filteredLayaways = layaways.filter(layaway =>
+    !searchText
+    || layaway.layaway_number.toLowerCase().includes(searchText)
+    || layaway.customer_name.toLowerCase().includes(searchText)
+    || layaway.customer_phone.includes(searchText)
+  );
+  const outstanding = layaways
+    .filter(layaway => layaway.status === 'active')
+    .reduce((acc, layaway) => acc + layaway.total_amount - layaway.paid_amount, 0);
+
+  return (
+    <div>
+      <PageHeader
+        title="Layaways"
+        subtitle={`Goods reserved against a deposit. Still to collect on active layaways: KSh ${outstanding.toLocaleString()}`}
+      />
+      <Card>
+        <CardContent>
+          <div className="mb-4 flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Search by number, name or phone..."
+              icon={<Search />}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as LayawayStatus | '')} className={`${selectClasses} sm:w-48`}>
+              <option value="">All statuses</option>
+              {(Object.keys(layawayStatusLabels) as LayawayStatus[]).map(status => <option key={status} value={status}>{layawayStatusLabels[status]}</option>)}
+            </select>
+          </div>
+          {loading ? (
+            <div className="text-center py-12">Loading layaways...</div>
+          ) : filteredLayaways.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No layaways found</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Reserve goods from a new sale by ticking "Reserve as layaway" and taking a deposit.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Layaway</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Paid</TableHead>
+                <TableHead>Balance</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead><span className="sr-only">Actions</span></TableHead>
+              </TableHeader>
+              <TableBody>
+                {filteredLayaways.map(layaway => {
+                  const canCancel = isManager && (layaway.status === 'active' || layaway.status === 'expired');
+                  return (
+                    <TableRow key={layaway.id}>
+                      <TableCell>
+                        <div className="font-medium">{layaway.layaway_number}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{format(new Date(layaway.created_at), 'dd MMM yyyy')}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{layaway.customer_name}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{layaway.customer_phone}</div>
+                      </TableCell>
+                      <TableCell>KSh {layaway.total_amount.toLocaleString()}</TableCell>
+                      <TableCell>KSh {layaway.paid_amount.toLocaleString()}</TableCell>
+                      <TableCell>{layaway.status === 'active' ? `KSh ${(layaway.total_amount - layaway.paid_amount).toLocaleString()}` : '-'}</TableCell>
+                      <TableCell>{layaway.status === 'active' ? format(new Date(layaway.expires_at), 'dd MMM yyyy') : '-'}</TableCell>
+                      <TableCell><Badge variant={statusVariants[layaway.status]}>{layawayStatusLabels[layaway.status]}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        {(layaway.status === 'active' || layaway.sale_id || canCancel) && (
+                          <Menu as="div" className="relative inline-block text-left">
+                            <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
+                            <Transition
+                              as={React.Fragment}
+                              enter="transition ease-out duration-100"
+                              enterFrom="transform opacity-0 scale-95"
+                              enterTo="transform opacity-100 scale-100"
+                              leave="transition ease-in duration-75"
+                              leaveFrom="transform opacity-100 scale-100"
+                              leaveTo="transform opacity-0 scale-95"
+                            >
+                              <Menu.Items className="absolute right-0 z-10 mt-2 w-44 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                                <div className="px-1 py-1">
+                                  {layaway.status === 'active' && (
+                                    <Menu.Item>
+                                      {({ active }) => (
+                                        <button onClick={() => openPayment(layaway)} className={menuItemClasses(active)}>
+                                          <Banknote className="mr-2 h-4 w-4" />
+                                          Take Payment
+                                        </button>
+                                      )}
+                                    </Menu.Item>
+                                  )}
+                                  {layaway.sale_id && (
+                                    <Menu.Item>
+                                      {({ active }) => (
+                                        <button onClick={() => setReceiptSaleId(layaway.sale_id ?? null)} className={menuItemClasses(active)}>
+                                          <ReceiptText className="mr-2 h-4 w-4" />
+                                          View Receipt
+                                        </button>
+                                      )}
+                                    </Menu.Item>
+                                  )}
+                                  {canCancel && (
+                                    <Menu.Item>
+                                      {({ active }) => (
+                                        <button onClick={() => openCancel(layaway)} className={menuItemClasses(active)}>
+                                          <XCircle className="mr-2 h-4 w-4" />
+                                          Cancel
+                                        </button>
+                                      )}
+                                    </Menu.Item>
+                                  )}
+                                </div>
+                              </Menu.Items>
+                            </Transition>
+                          </Menu>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={!!payingLayaway} onClose={() => setPayingLayaway(null)} title={`Payment on ${payingLayaway?.layaway_number ?? 'Layaway'}`}>
+        {payingLayaway && (
+          <form onSubmit={handleRecordPayment} className="space-y-4">
+            <div className="text-sm space-y-1">
+              {payingLayaway.layaway_items.map(item => (
+                <div key={item.id} className="flex justify-between">
+                  <span>{item.quantity} {item.product_units?.name ?? ''} {item.products?.name ?? 'Unknown product'}</span>
+                  <span>KSh {item.total_price.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+            <div className="pt-2 border-t border-gray-200 dark:border-gray-700 text-sm space-y-1">
+              {[...payingLayaway.layaway_payments].sort((a, b) => a.created_at.localeCompare(b.created_at)).map(payment => (
+                <div key={payment.id} className="flex justify-between text-gray-500 dark:text-gray-400">
+                  <span>{format(new Date(payment.created_at), 'dd MMM yyyy')} · {layawayPaymentMethodLabels[payment.method]}{payment.reference ? ` · ${payment.reference}` : ''}</span>
+                  <span>KSh {payment.amount.toLocaleString()}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-medium">
+                <span>Balance</span>
+                <span>KSh {(payingLayaway.total_amount - payingLayaway.paid_amount).toLocaleString()}</span>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Expires {format(new Date(payingLayaway.expires_at), 'dd MMM yyyy')}. The goods are handed over once the balance is cleared.</p>
+            </div>
+            <Input type="number" min="0.01" max={payingLayaway.total_amount - payingLayaway.paid_amount} step="0.01" placeholder="Amount (KSh)" value={paymentForm.amount} onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))} required />
+            <select value={paymentForm.method} onChange={(e) => setPaymentForm(prev => ({ ...prev, method: e.target.value as LayawayPaymentMethod }))} className={selectClasses}>
+              {(Object.keys(layawayPaymentMethodLabels) as LayawayPaymentMethod[]).map(method => <option key={method} value={method}>{layawayPaymentMethodLabels[method]}</option>)}
+            </select>
+            <Input placeholder={paymentForm.method === 'mpesa' ? 'M-Pesa code' : 'Reference (optional)'} value={paymentForm.reference} onChange={(e) => setPaymentForm(prev => ({ ...prev, reference: e.target.value }))} required={paymentForm.method === 'mpesa'} />
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="secondary" onClick={() => setPayingLayaway(null)}>Cancel</Button>
+              <Button type="submit" disabled={processing}>{processing ? 'Processing...' : 'Record Payment'}</Button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!cancellingLayaway} onClose={() => setCancellingLayaway(null)} title={`Cancel ${cancellingLayaway?.layaway_number ?? 'Layaway'}`}>
+        {cancellingLayaway && (
+          <form onSubmit={handleCancel} className="space-y-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {cancellingLayaway.status === 'active' ? 'The reserved goods go back on sale. ' : ''}
+              {cancellingLayaway.customer_name} has paid KSh {cancellingLayaway.paid_amount.toLocaleString()}.
+            </p>
+            {cancellingLayaway.paid_amount > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Refund</label>
+                <select value={refundMethod} onChange={(e) => setRefundMethod(e.target.value as LayawayPaymentMethod | '')} className={selectClasses}>
+                  {(Object.keys(layawayPaymentMethodLabels) as LayawayPaymentMethod[]).map(method => (
+                    <option key={method} value={method}>Refund KSh {cancellingLayaway.paid_amount.toLocaleString()} by {layawayPaymentMethodLabels[method]}</option>
+                  ))}
+                  <option value="">Keep the deposit</option>
+                </select>
+              </div>
+            )}
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="secondary" onClick={() => setCancellingLayaway(null)}>Back</Button>
+              <Button type="submit" variant="danger" disabled={processing}>{processing ? 'Processing...' : 'Cancel Layaway'}</Button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      <ReceiptModal saleId={receiptSaleId} onClose={() => setReceiptSaleId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,612 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { type Business, type PaymentMethod } from '../lib/supabase';
+import { tenderLabels } from '../lib/tenders';
+import { getQueuedSales, type CachedProduct, type CachedProductUnit } from '../lib/offlineStore';
+import { syncOutbox } from '../lib/offlineSync';
+import { fetchOpenShift } from '../lib/shifts';
+import { vatInclusivePrice } from '../lib/tax';
+import { getHeldBaskets, holdBasket, removeHeldBasket, type HeldBasket } from '../lib/basket';
+import { describeLineError } from '../lib/saleValidation';
+import { useAuth } from '../contexts/AuthContext';
+import { useSaleBasket } from '../hooks/useSaleBasket';
+import { useBarcodeWedge } from '../hooks/useBarcodeWedge';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { ReceiptModal } from '../components/sales/ReceiptModal';
+import { ArrowLeft, Lock, PauseCircle, PlayCircle, SearchIcon, Tag, Trash2, WifiOff } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface PointOfSaleProps {
+  business: Business;
+}
+
+// A quantity, line discount or basket discount being typed in after its hotkey
+type Entry = { kind: 'quantity' | 'discount' | 'basket_discount'; value: string };
+
+const MAX_SEARCH_RESULTS = 8;
+
+const entryLabels: Record<Entry['kind'], string> = {
+  quantity: 'Quantity',
+  discount: 'Line discount %',
+  basket_discount: 'Basket discount %',
+};
+
+const hotkeys = [
+  ['F1', 'Search'],
+  ['F2', 'Quantity'],
+  ['F3', 'Discount'],
+  ['Shift+F3', 'Basket discount'],
+  ['F4', 'Tender'],
+  ['F7', 'Hold'],
+  ['F8', 'Recall'],
+  ['F9', 'Complete sale'],
+  ['Del', 'Remove line'],
+  ['Alt+1-9', 'Quick keys'],
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Full-screen till for busy checkouts. The search box keeps focus so a USB scanner can type straight
+// into it; "3*" before a code or search rings up three. Everything else is on the hotkeys above.
+export default function PointOfSale({ business }: PointOfSaleProps) {
+  const businessId = business.id;
+  const { user } = useAuth();
+  const isOnline = useOnlineStatus();
+  const {
+    products, fetchProducts, saleItems, addProductToSale, lookupCode, setItemQuantity, setItemDiscount, removeItem,
+    discountedItems, subtotal, totalDiscount, totalSaleAmount, itemsOverDiscountLimit, maxDiscountPercent,
+    setBasketDiscountType, setBasketDiscountValue,
+    tenders, setTender, addTender, removeTender, tenderSummary, hasMpesaTender, hasAccountTender, unusedMethods,
+    mpesaPhone, setMpesaPhone, mpesaStatus, customerPhone, setCustomerPhone, customerName, setCustomerName,
+    matchedCustomer, setMatchedCustomer, lookupCustomer, processing, lineErrors, resetSaleForm, basketToHold, restoreBasket,
+    cancelMpesa, completeSale,
+  } = useSaleBasket(businessId, business, business.scale_barcode_formats);
+
+  const [search, setSearch] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [entry, setEntry] = useState<Entry | null>(null);
+  const [heldBaskets, setHeldBaskets] = useState<HeldBasket[]>([]);
+  const [isRecallOpen, setIsRecallOpen] = useState(false);
+  const [receiptSaleId, setReceiptSaleId] = useState<string | null>(null);
+  const [lastChange, setLastChange] = useState<number | null>(null);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [hasOpenShift, setHasOpenShift] = useState<boolean | null>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const tenderRef = useRef<HTMLInputElement>(null);
+
+  const focusSearch = () => searchRef.current?.focus();
+
+  useEffect(() => {
+    setHeldBaskets(getHeldBaskets(businessId));
+    getQueuedSales(businessId)
+      .then(queued => setQueuedCount(queued.length))
+      .catch(error => console.error('Error reading offline sales:', error));
+  }, [businessId]);
+
+  // Upload anything rung up offline as soon as the connection comes back
+  useEffect(() => {
+    if (!businessId || !isOnline) return;
+    syncOutbox(businessId)
+      .then(async result => {
+        setQueuedCount((await getQueuedSales(businessId)).length);
+        if (result.synced > 0) await fetchProducts();
+      })
+      .catch(error => console.error('Error syncing offline sales:', error));
+  }, [businessId, isOnline, fetchProducts]);
+
+  useEffect(() => {
+    if (!businessId || !user || !isOnline) return;
+    fetchOpenShift(businessId, user.id)
+      .then(shift => setHasOpenShift(!!shift))
+      .catch(error => console.error('Error checking open shift:', error));
+  }, [businessId, user, isOnline]);
+
+  const quickKeys = products.filter(product => product.is_quick_key);
+
+  // "3*" in front of a code or search term sets the quantity rung up
+  const multiplier = search.match(/^(\d+)\*(.*)$/);
+  const searchQuantity = multiplier ? parseInt(multiplier[1], 10) || 1 : 1;
+  const searchTerm = (multiplier ? multiplier[2] : search).trim().toLowerCase();
+  const searchResults = searchTerm
+    ? products.filter(p => p.name.toLowerCase().includes(searchTerm) || p.sku?.toLowerCase().startsWith(searchTerm)).slice(0, MAX_SEARCH_RESULTS)
+    : [];
+  const selectedItem = discountedItems.find(item => item.key === selectedKey) ?? discountedItems[discountedItems.length - 1];
+
+  const ringUp = (product: CachedProduct, unit: CachedProductUnit | null = null, quantity = 1, lineTotal: number | null = null) => {
+    setSelectedKey(addProductToSale(product, unit, quantity, lineTotal));
+    setLastChange(null);
+  };
+
+  const handleCode = (code: string, quantity = 1) => {
+    const match = lookupCode(code);
+    if (!match) return false;
+    // A price label keeps its printed price only when scanned once; a multiple is charged by weight
+    ringUp(match.product, match.unit, match.quantity * quantity, quantity === 1 ? match.lineTotal : null);
+    return true;
+  };
+
+  useBarcodeWedge(code => {
+    if (!handleCode(code)) alert(`Product with SKU "${code}" not found.`);
+    focusSearch();
+  }, !processing && !receiptSaleId && !isRecallOpen);
+
+  const handleSearchSubmit = () => {
+    if (!searchTerm) return;
+    const code = (multiplier ? multiplier[2] : search).trim();
+    if (handleCode(code, searchQuantity)) {
+      setSearch('');
+      return;
+    }
+    const product = searchResults[highlighted] ?? searchResults[0];
+    if (product) {
+      ringUp(product, null, searchQuantity);
+      setSearch('');
+    } else {
+      alert(`No product matches "${code}".`);
+    }
+  };
+
+  const moveSelection = (step: number) => {
+    if (discountedItems.length === 0) return;
+    const index = discountedItems.findIndex(item => item.key === selectedItem?.key);
+    const next = Math.min(Math.max(index + step, 0), discountedItems.length - 1);
+    setSelectedKey(discountedItems[next].key);
+  };
+
+  const handleRemoveLine = (key: string) => {
+    const index = discountedItems.findIndex(item => item.key === key);
+    const remaining = discountedItems.filter(item => item.key !== key);
+    removeItem(key);
+    setSelectedKey(remaining[Math.min(index, remaining.length - 1)]?.key ?? null);
+  };
+
+  const openEntry = (kind: Entry['kind']) => {
+    if (kind !== 'basket_discount' && !selectedItem) return;
+    if (kind !== 'quantity' && maxDiscountPercent <= 0) {
+      alert('Your role cannot give discounts.');
+      return;
+    }
+    setEntry({ kind, value: '' });
+  };
+
+  const applyEntry = () => {
+    if (!entry) return;
+    const value = parseFloat(entry.value);
+    if (!isNaN(value)) {
+      if (entry.kind === 'quantity' && selectedItem) {
+        setItemQuantity(selectedItem.key, value);
+      } else if (entry.kind === 'discount' && selectedItem) {
+        setItemDiscount(selectedItem.key, { discount_type: 'percent', discount_value: Math.max(value, 0) });
+      } else if (entry.kind === 'basket_discount') {
+        setBasketDiscountType('percent');
+        setBasketDiscountValue(Math.max(value, 0));
+      }
+    }
+    setEntry(null);
+    focusSearch();
+  };
+
+  const handleHold = () => {
+    if (saleItems.length === 0) return;
+    setHeldBaskets(holdBasket(businessId, basketToHold()));
+    resetSaleForm();
+    setSelectedKey(null);
+    focusSearch();
+  };
+
+  const handleRecall = (basket: HeldBasket) => {
+    if (saleItems.length > 0) {
+      alert('Hold or finish the current sale before recalling another.');
+      return;
+    }
+    restoreBasket(basket);
+    setHeldBaskets(removeHeldBasket(businessId, basket.id));
+    setIsRecallOpen(false);
+    setSelectedKey(null);
+  };
+
+  const handleDiscardHeld = (basket: HeldBasket) => {
+    if (!window.confirm(`Discard the basket held at ${format(new Date(basket.held_at), 'HH:mm')}?`)) return;
+    setHeldBaskets(removeHeldBasket(businessId, basket.id));
+  };
+
+  const handleComplete = async () => {
+    if (saleItems.length === 0 || processing) return;
+    const change = tenderSummary.change;
+    const result = await completeSale();
+    if (!result) return;
+    setSelectedKey(null);
+    setLastChange(change);
+    if (result.queued) {
+      setQueuedCount((await getQueuedSales(businessId)).length);
+      focusSearch();
+      return;
+    }
+    setReceiptSaleId(result.saleId);
+  };
+
+  const handleExactTender = (index: number) => {
+    const amount = parseFloat(tenders[index].amount) || 0;
+    setTender(index, { amount: String(round2(amount + tenderSummary.balance)) });
+  };
+
+  // Hotkeys work from anywhere on the screen, including while typing in the search box
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (receiptSaleId || isRecallOpen) return;
+      if (event.key === 'Escape') {
+        if (entry) setEntry(null);
+        else if (processing && hasMpesaTender) cancelMpesa();
+        else setSearch('');
+        focusSearch();
+        return;
+      }
+      if (processing || entry) return;
+
+      const target = event.target as HTMLElement | null;
+      const inSearch = target === searchRef.current;
+      const inOtherField = !inSearch && !!target?.closest('input, textarea, select');
+
+      if (event.altKey && /^[1-9]$/.test(event.key)) {
+        const product = quickKeys[Number(event.key) - 1];
+        if (product) {
+          event.preventDefault();
+          ringUp(product);
+        }
+        return;
+      }
+
+      switch (event.key) {
+        case 'F1':
+          event.preventDefault();
+          focusSearch();
+          break;
+        case 'F2':
+          event.preventDefault();
+          openEntry('quantity');
+          break;
+        case 'F3':
+          event.preventDefault();
+          openEntry(event.shiftKey ? 'basket_discount' : 'discount');
+          break;
+        case 'F4':
+          event.preventDefault();
+          tenderRef.current?.focus();
+          tenderRef.current?.select();
+          break;
+        case 'F7':
+          event.preventDefault();
+          handleHold();
+          break;
+        case 'F8':
+          event.preventDefault();
+          setIsRecallOpen(true);
+          break;
+        case 'F9':
+          event.preventDefault();
+          handleComplete();
+          break;
+        case 'ArrowUp':
+        case 'ArrowDown': {
+          if (inOtherField) return;
+          event.preventDefault();
+          const step = event.key === 'ArrowUp' ? -1 : 1;
+          if (searchResults.length > 0) {
+            setHighlighted(prev => Math.min(Math.max(prev + step, 0), searchResults.length - 1));
+          } else {
+            moveSelection(step);
+          }
+          break;
+        }
+        case 'Delete':
+          if (inOtherField || (inSearch && search) || !selectedItem) return;
+          event.preventDefault();
+          handleRemoveLine(selectedItem.key);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-white">
+      <header className="flex items-center justify-between px-4 py-2 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-3">
+          <Link to="/dashboard/sales" className="p-1 rounded-full text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700" title="Back to Sales">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <span className="font-semibold">{business.name}</span>
+          <span className="text-sm text-gray-500 dark:text-gray-400">Point of Sale</span>
+        </div>
+        <div className="flex items-center space-x-4 text-sm">
+          {hasOpenShift === false && (
+            <Link to="/dashboard/shifts" className="flex items-center text-yellow-600 dark:text-yellow-400">
+              <Lock className="mr-1 h-4 w-4" />
+              No open cash shift
+            </Link>
+          )}
+          {(!isOnline || queuedCount > 0) && (
+            <span className={`flex items-center ${isOnline ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+              <WifiOff className="mr-1 h-4 w-4" />
+              {isOnline ? 'Syncing' : 'Offline'} - {queuedCount} sale(s) waiting
+            </span>
+          )}
+          <button type="button" onClick={() => setIsRecallOpen(true)} className="flex items-center text-gray-700 dark:text-gray-300 hover:text-primary-600">
+            <PlayCircle className="mr-1 h-4 w-4" />
+            {heldBaskets.length} held
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-1 min-h-0">
+        <section className="flex flex-col flex-1 min-w-0 p-4 space-y-4">
+          <div className="relative">
+            {entry ? (
+              <div className="flex items-center space-x-2">
+                <span className="w-48 text-sm font-medium">
+                  {entryLabels[entry.kind]}{entry.kind !== 'basket_discount' && selectedItem ? ` - ${selectedItem.name}` : ''}
+                </span>
+                <Input
+                  autoFocus
+                  type="number"
+                  min="0"
+                  step={entry.kind === 'quantity' ? (selectedItem?.is_weighed ? '0.001' : '1') : '0.01'}
+                  value={entry.value}
+                  onChange={(e) => setEntry({ ...entry, value: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      applyEntry();
+                    }
+                  }}
+                  className="text-lg"
+                />
+              </div>
+            ) : (
+              <Input
+                ref={searchRef}
+                autoFocus
+                icon={<SearchIcon />}
+                placeholder="Scan a barcode or search by name or SKU"
+                value={search}
+                onChange={(e) => { setSearch(e.target.value); setHighlighted(0); }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSearchSubmit();
+                  }
+                }}
+                disabled={processing}
+                className="text-lg"
+              />
+            )}
+            {!entry && searchResults.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full rounded-lg bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 overflow-hidden">
+                {searchResults.map((product, index) => (
+                  <li key={product.id}>
+                    <button
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => { ringUp(product, null, searchQuantity); setSearch(''); focusSearch(); }}
+                      className={`flex w-full items-center justify-between px-4 py-2 text-left ${index === highlighted ? 'bg-primary-100 dark:bg-gray-700' : ''}`}
+                    >
+                      <span>
+                        {product.name}{product.is_bundle ? ' (bundle)' : ''}
+                        {product.sku && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{product.sku}</span>}
+                      </span>
+                      <span className="text-sm">KSh {vatInclusivePrice(product.selling_price, product.tax_class, business).toLocaleString()}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {quickKeys.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+                Mark favourite products as quick keys on the Products page to show them here.
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
+                {quickKeys.map((product, index) => (
+                  <button
+                    key={product.id}
+                    type="button"
+                    onClick={() => { ringUp(product); focusSearch(); }}
+                    disabled={processing}
+                    className="relative h-24 rounded-lg bg-white dark:bg-gray-800 shadow-sm ring-1 ring-gray-200 dark:ring-gray-700 hover:ring-primary-500 p-3 text-left disabled:opacity-50"
+                  >
+                    {index < 9 && <span className="absolute top-1 right-2 text-xs text-gray-400">Alt+{index + 1}</span>}
+                    <div className="font-medium line-clamp-2">{product.name}</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">KSh {vatInclusivePrice(product.selling_price, product.tax_class, business).toLocaleString()}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+
+        <aside className="flex flex-col w-full max-w-md bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700">
+          <div className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {discountedItems.length === 0 ? (
+              <div className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+                {lastChange !== null ? (
+                  <p className="text-2xl font-bold text-green-600 dark:text-green-400">Change: KSh {lastChange.toLocaleString()}</p>
+                ) : 'Scan or search for a product to start a sale.'}
+              </div>
+            ) : discountedItems.map(item => {
+              const itemErrors = lineErrors.filter(lineError => lineError.product_id === item.product_id || lineError.bundle_ids?.includes(item.product_id));
+              return (
+                <div
+                  key={item.key}
+                  onClick={() => setSelectedKey(item.key)}
+                  className={`px-4 py-2 cursor-pointer ${item.key === selectedItem?.key ? 'bg-primary-50 dark:bg-gray-700' : ''} ${itemErrors.length > 0 ? 'ring-1 ring-inset ring-red-500' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{item.name}{item.unit_name ? ` (${item.unit_name})` : ''}</div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">{item.quantity} x KSh {item.unit_price.toLocaleString()}</div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">KSh {round2(item.gross - item.discountAmount).toLocaleString()}</span>
+                      <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={(e) => { e.stopPropagation(); handleRemoveLine(item.key); }} disabled={processing} />
+                    </div>
+                  </div>
+                  {item.promotion && (
+                    <div className="flex items-center text-xs text-green-600 dark:text-green-400">
+                      <Tag className="mr-1 h-3 w-3" />
+                      {item.promotion.name}: -KSh {item.promotionDiscount.toLocaleString()}
+                    </div>
+                  )}
+                  {item.manualDiscount > 0 && (
+                    <div className="text-xs text-green-600 dark:text-green-400">Discount: -KSh {item.manualDiscount.toLocaleString()}</div>
+                  )}
+                  {itemsOverDiscountLimit.includes(item) && (
+                    <p className="text-xs text-red-600 dark:text-red-400">Discount is above your limit of {maxDiscountPercent}%</p>
+                  )}
+                  {itemErrors.map(lineError => (
+                    <p key={`${lineError.code}:${lineError.product_id}`} className="text-xs text-red-600 dark:text-red-400">{describeLineError(lineError)}</p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="p-4 space-y-3 border-t border-gray-200 dark:border-gray-700">
+            {totalDiscount > 0 && (
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-500 dark:text-gray-400">Subtotal</span>
+                  <span>KSh {subtotal.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between text-green-600 dark:text-green-400">
+                  <span>Discounts</span>
+                  <span>-KSh {totalDiscount.toLocaleString()}</span>
+                </div>
+              </div>
+            )}
+            <div className="flex justify-between items-center">
+              <span className="text-xl font-bold">Total</span>
+              <span className="text-3xl font-bold">KSh {totalSaleAmount.toLocaleString()}</span>
+            </div>
+
+            <div className="flex space-x-2">
+              <Input type="tel" placeholder={hasAccountTender ? 'Customer phone' : 'Customer phone (optional)'} value={customerPhone} onChange={(e) => { setCustomerPhone(e.target.value); setMatchedCustomer(null); }} onBlur={lookupCustomer} disabled={processing} />
+              <Input placeholder="Name" value={customerName} onChange={(e) => setCustomerName(e.target.value)} disabled={processing} />
+            </div>
+            {matchedCustomer && (
+              <p className="text-xs text-green-600 dark:text-green-400">Returning customer{matchedCustomer.name ? `: ${matchedCustomer.name}` : ''}</p>
+            )}
+
+            {tenders.map((tender, index) => (
+              <div key={tender.method} className="flex items-center space-x-2">
+                <select value={tender.method} onChange={(e) => setTender(index, { method: e.target.value as PaymentMethod })} disabled={processing} className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white">
+                  {(Object.keys(tenderLabels) as PaymentMethod[])
+                    .filter(m => m === tender.method || unusedMethods.includes(m))
+                    .map(m => <option key={m} value={m}>{tenderLabels[m]}</option>)}
+                </select>
+                <Input
+                  ref={index === 0 ? tenderRef : undefined}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={tender.method === 'cash' ? 'Cash received' : 'Amount'}
+                  value={tender.amount}
+                  onChange={(e) => setTender(index, { amount: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleComplete();
+                    }
+                  }}
+                  disabled={processing}
+                />
+                <Button type="button" variant="secondary" size="sm" onClick={() => handleExactTender(index)} disabled={processing || tenderSummary.balance <= 0}>Exact</Button>
+                {tenders.length > 1 && (
+                  <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => removeTender(index)} disabled={processing} />
+                )}
+              </div>
+            ))}
+            {unusedMethods.length > 0 && (
+              <Button type="button" variant="ghost" size="sm" onClick={addTender} disabled={processing}>Add Tender</Button>
+            )}
+            {hasMpesaTender && isOnline && (
+              <Input type="tel" placeholder="Customer M-Pesa number (e.g., 0712345678)" value={mpesaPhone} onChange={(e) => setMpesaPhone(e.target.value)} disabled={processing} />
+            )}
+            {!isOnline && hasMpesaTender && (
+              <p className="text-sm text-red-600 dark:text-red-400">M-Pesa is unavailable offline. Take cash or card instead.</p>
+            )}
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500 dark:text-gray-400">Balance due</span>
+              <span className={tenderSummary.balance > 0 ? 'font-medium text-red-600 dark:text-red-400' : ''}>KSh {tenderSummary.balance.toLocaleString()}</span>
+            </div>
+            {tenderSummary.change > 0 && (
+              <div className="flex justify-between text-lg font-bold text-green-600 dark:text-green-400">
+                <span>Change</span>
+                <span>KSh {tenderSummary.change.toLocaleString()}</span>
+              </div>
+            )}
+            {mpesaStatus && (
+              <p className="text-sm text-center text-primary-600 dark:text-primary-400">{mpesaStatus} (Esc to cancel)</p>
+            )}
+
+            <div className="flex space-x-2">
+              <Button type="button" variant="secondary" icon={<PauseCircle />} onClick={handleHold} disabled={processing || saleItems.length === 0}>Hold</Button>
+              <Button
+                type="button"
+                size="lg"
+                className="flex-1"
+                onClick={handleComplete}
+                disabled={saleItems.length === 0 || processing || !tenderSummary.isValid || itemsOverDiscountLimit.length > 0}
+              >
+                {processing ? (hasMpesaTender ? 'Awaiting M-Pesa...' : 'Processing...') : 'Complete Sale (F9)'}
+              </Button>
+            </div>
+          </div>
+        </aside>
+      </div>
+
+      <footer className="flex flex-wrap gap-x-4 gap-y-1 px-4 py-2 text-xs text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
+        {hotkeys.map(([key, label]) => (
+          <span key={key}>
+            <kbd className="px-1.5 py-0.5 mr-1 rounded border border-gray-300 dark:border-gray-600 font-mono">{key}</kbd>
+            {label}
+          </span>
+        ))}
+      </footer>
+
+      <Modal isOpen={isRecallOpen} onClose={() => { setIsRecallOpen(false); focusSearch(); }} title="Held Baskets">
+        {heldBaskets.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No baskets are on hold.</p>
+        ) : (
+          <div className="space-y-2">
+            {heldBaskets.map(basket => (
+              <div key={basket.id} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg">
+                <div>
+                  <div className="text-sm font-medium">
+                    {format(new Date(basket.held_at), 'HH:mm')} - {basket.items.length} item(s)
+                    {basket.customer_name || basket.customer_phone ? ` - ${basket.customer_name || basket.customer_phone}` : ''}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs">{basket.items.map(item => `${item.quantity} x ${item.name}`).join(', ')}</div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button size="sm" variant="ghost" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => handleDiscardHeld(basket)} />
+                  <Button size="sm" onClick={() => handleRecall(basket)}>Recall</Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Modal>
+
+      <ReceiptModal saleId={receiptSaleId} onClose={() => { setReceiptSaleId(null); focusSearch(); }} />
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { supabase, type Product } from '../lib/supabase';
+import { supabase, type Branch, type Product, type ProductUnit, type TaxClass } from '../lib/supabase';
+import { fetchIncomingStock } from '../lib/purchasing';
+import { taxClassLabels } from '../lib/tax';
+import { bundleAvailability, bundleComponentsSelect, saveBundleComponents, type BundleComponentLine } from '../lib/bundles';
+import { useStaffRole } from '../hooks/useStaffRole';
+import { useBranches } from '../hooks/useBranches';
 import PageHeader from '../components/PageHeader';
 import { Card, CardContent } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
@@ -8,42 +13,68 @@ import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '.
 import { Badge } from '../components/ui/Badge';
 import { Modal } from '../components/ui/Modal';
 import { ConfirmDeleteModal } from '../components/ui/ConfirmDeleteModal';
-import { PlusIcon, SearchIcon, MoreVertical, Pencil, Trash2 } from 'lucide-react';
+import { StockAdjustmentModal } from '../components/inventory/StockAdjustmentModal';
+import { StockHistoryModal } from '../components/inventory/StockHistoryModal';
+import { ProductUnitsModal } from '../components/inventory/ProductUnitsModal';
+import { ProductImportModal } from '../components/inventory/ProductImportModal';
+import { LabelPrintModal } from '../components/inventory/LabelPrintModal';
+import { exportProducts } from '../lib/productImport';
+import { fetchBranchStock } from '../lib/branches';
+import { PlusIcon, SearchIcon, MoreVertical, Pencil, Trash2, SlidersHorizontal, History, Layers, Boxes, Upload, Download, Printer, Star } from 'lucide-react';
 import { Menu, Transition } from '@headlessui/react';
 
 interface ProductsPageProps {
   businessId: string;
 }
 
+type ProductWithUnits = Product & {
+  product_units?: Pick<ProductUnit, 'name' | 'conversion_factor' | 'is_active'>[];
+  product_bundle_components?: BundleComponentLine[];
+};
+
+interface ComponentInput {
+  product_id: string;
+  quantity: string;
+}
+
+const emptyProductForm = { name: '', sku: '', selling_price: '', stock_quantity: '', category: '', unit: 'piece', parent_product_id: '', variant_name: '', track_expiry: false, tax_class: 'vat_standard' as TaxClass, is_bundle: false, is_weighed: false, plu: '' };
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
 export default function Products({ businessId }: ProductsPageProps) {
-  const [products, setProducts] = useState<Product[]>([]);
+  const { isManager } = useStaffRole(businessId);
+  const { activeBranches, hasMultipleBranches } = useBranches(businessId);
+  const [products, setProducts] = useState<ProductWithUnits[]>([]);
+  const [incomingStock, setIncomingStock] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
-  const [productForm, setProductForm] = useState({
-    name: '',
-    sku: '',
-    selling_price: '',
-    stock_quantity: '',
-    category: '',
-    unit: 'piece',
-  });
+  const [productForm, setProductForm] = useState(emptyProductForm);
+  const [components, setComponents] = useState<ComponentInput[]>([]);
+  const [componentToAdd, setComponentToAdd] = useState('');
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
 
   const [deletingProduct, setDeletingProduct] = useState<Product | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [unitsProduct, setUnitsProduct] = useState<Product | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [labelProductIds, setLabelProductIds] = useState<string[] | null>(null);
 
   const fetchProducts = useCallback(async () => {
     setLoading(true);
     try {
       const { data, error } = await supabase
         .from('products')
-        .select('*')
+        .select(`*, product_units(name, conversion_factor, is_active), ${bundleComponentsSelect}`)
         .eq('business_id', businessId)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       setProducts(data || []);
+      setIncomingStock(await fetchIncomingStock(businessId));
     } catch (error) {
       console.error('Error fetching products:', error);
     } finally {
@@ -66,41 +97,89 @@ export default function Products({ businessId }: ProductsPageProps) {
         stock_quantity: String(editingProduct.stock_quantity),
         category: editingProduct.category || '',
         unit: editingProduct.unit,
+        parent_product_id: editingProduct.parent_product_id || '',
+        variant_name: editingProduct.variant_name || '',
+        track_expiry: editingProduct.track_expiry,
+        tax_class: editingProduct.tax_class,
+        is_bundle: editingProduct.is_bundle,
+        is_weighed: editingProduct.is_weighed,
+        plu: editingProduct.plu || '',
+      });
+    } else if (variantParent) {
+      // A new variant starts as a copy of its parent, stocked and priced separately
+      setProductForm({
+        ...emptyProductForm,
+        name: `${variantParent.name} - `,
+        selling_price: String(variantParent.selling_price),
+        category: variantParent.category || '',
+        unit: variantParent.unit,
+        parent_product_id: variantParent.id,
+        track_expiry: variantParent.track_expiry,
+        tax_class: variantParent.tax_class,
+        is_weighed: variantParent.is_weighed,
       });
     } else {
-      setProductForm({ name: '', sku: '', selling_price: '', stock_quantity: '', category: '', unit: 'piece' });
+      setProductForm(emptyProductForm);
     }
-  }, [editingProduct, isModalOpen]);
+  }, [editingProduct, variantParent, isModalOpen]);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setProductForm(prev => ({ ...prev, [name]: value }));
   };
 
   const openAddModal = () => {
     setEditingProduct(null);
+    setVariantParent(null);
+    setComponents([]);
+    setIsModalOpen(true);
+  };
+
+  const openAddVariantModal = (product: Product) => {
+    setEditingProduct(null);
+    setVariantParent(product);
+    setComponents([]);
     setIsModalOpen(true);
   };
 
-  const openEditModal = (product: Product) => {
+  const openEditModal = (product: ProductWithUnits) => {
+    setVariantParent(null);
     setEditingProduct(product);
+    setComponents((product.product_bundle_components ?? []).map(c => ({ product_id: c.component_product_id, quantity: String(c.quantity) })));
     setIsModalOpen(true);
   };
+
+  const handleAddComponent = () => {
+    if (!componentToAdd || components.some(c => c.product_id === componentToAdd)) return;
+    setComponents(prev => [...prev, { product_id: componentToAdd, quantity: '1' }]);
+    setComponentToAdd('');
+  };
   
   const closeModal = () => {
     setIsModalOpen(false);
     setEditingProduct(null);
+    setVariantParent(null);
   };
 
   const handleSaveProduct = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!businessId) return;
+    if (productForm.is_bundle && components.length === 0) {
+      alert('Add at least one product to the bundle.');
+      return;
+    }
 
+    // Stock on hand only changes through adjustments, receipts and sales so the ledger stays complete;
+    // the form's quantity is used as opening stock for new products.
+    const { stock_quantity: openingStock, ...productFields } = productForm;
     const productData = {
-      ...productForm,
+      ...productFields,
+      parent_product_id: productForm.parent_product_id || null,
+      variant_name: productForm.parent_product_id ? productForm.variant_name || null : null,
+      is_weighed: !productForm.is_bundle && productForm.is_weighed,
+      plu: productForm.plu.trim() || null,
       business_id: businessId,
       selling_price: parseFloat(productForm.selling_price),
-      stock_quantity: parseInt(productForm.stock_quantity, 10),
       min_stock_level: 10,
       is_active: true,
     };
@@ -116,17 +195,22 @@ export default function Products({ businessId }: ProductsPageProps) {
           .single();
         if (error) throw error;
         savedProduct = data;
-        setProducts(prev => prev.map(p => p.id === savedProduct!.id ? savedProduct! : p));
+        setProducts(prev => prev.map(p => p.id === savedProduct!.id ? { ...p, ...savedProduct! } : p));
       } else {
+        // A bundle's stock is whatever its components can make up
         const { data, error } = await supabase
           .from('products')
-          .insert(productData)
+          .insert({ ...productData, stock_quantity: productForm.is_bundle ? 0 : productForm.is_weighed ? parseFloat(openingStock) : parseInt(openingStock, 10) })
           .select()
           .single();
         if (error) throw error;
         savedProduct = data;
         setProducts(prev => [savedProduct!, ...prev]);
       }
+      if (savedProduct?.is_bundle) {
+        await saveBundleComponents(savedProduct.id, components.map(c => ({ product_id: c.product_id, quantity: parseInt(c.quantity, 10) })));
+        await fetchProducts();
+      }
       closeModal();
     } catch (error) {
       console.error('Error saving product:', error);
@@ -134,6 +218,30 @@ export default function Products({ businessId }: ProductsPageProps) {
     }
   };
 
+  // With several branches each export holds one branch's stock, so it imports back against that branch
+  const handleExport = async (format: 'csv' | 'xlsx', branch: Branch | null) => {
+    try {
+      await exportProducts(products, format, branch ? { name: branch.name, stock: await fetchBranchStock(branch.id) } : undefined);
+    } catch (error) {
+      console.error('Error exporting products:', error);
+      alert(`Failed to export products: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleToggleQuickKey = async (product: Product) => {
+    try {
+      const { error } = await supabase
+        .from('products')
+        .update({ is_quick_key: !product.is_quick_key })
+        .eq('id', product.id);
+      if (error) throw error;
+      setProducts(prev => prev.map(p => p.id === product.id ? { ...p, is_quick_key: !product.is_quick_key } : p));
+    } catch (error) {
+      console.error('Error updating quick key:', error);
+      alert(`Failed to update quick key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleDeleteProduct = async () => {
     if (!deletingProduct) return;
     setDeleteLoading(true);
@@ -159,15 +267,59 @@ export default function Products({ businessId }: ProductsPageProps) {
     return { text: 'In Stock', variant: 'success' };
   };
 
+  const stockByProduct = Object.fromEntries(products.map(p => [p.id, p.stock_quantity]));
+  const productName = (id: string) => products.find(p => p.id === id)?.name ?? 'Unknown product';
+
   return (
     <div>
       <PageHeader
         title="Products"
         subtitle="Manage all products in your inventory."
         actions={
-          <Button icon={<PlusIcon />} onClick={openAddModal}>
-            Add Product
-          </Button>
+          <div className="flex space-x-2">
+            <Menu as="div" className="relative inline-block text-left">
+              <Menu.Button as={Button} variant="secondary" icon={<Download />} disabled={products.length === 0}>
+                Export
+              </Menu.Button>
+              <Transition
+                as={React.Fragment}
+                enter="transition ease-out duration-100"
+                enterFrom="transform opacity-0 scale-95"
+                enterTo="transform opacity-100 scale-100"
+                leave="transition ease-in duration-75"
+                leaveFrom="transform opacity-100 scale-100"
+                leaveTo="transform opacity-0 scale-95"
+              >
+                <Menu.Items className="absolute right-0 z-10 mt-2 w-56 origin-top-right divide-y divide-gray-100 dark:divide-gray-700 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                  <div className="px-1 py-1">
+                    {(['xlsx', 'csv'] as const).flatMap(format => (hasMultipleBranches ? activeBranches : [null]).map(branch => (
+                      <Menu.Item key={`${format}:${branch?.id ?? ''}`}>
+                        {({ active }) => (
+                          <button
+                            onClick={() => handleExport(format, branch)}
+                            className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                          >
+                            {format === 'xlsx' ? 'Excel (.xlsx)' : 'CSV'}{branch && ` - ${branch.name}`}
+                          </button>
+                        )}
+                      </Menu.Item>
+                    )))}
+                  </div>
+                </Menu.Items>
+              </Transition>
+            </Menu>
+            <Button variant="secondary" icon={<Printer />} onClick={() => setLabelProductIds([])} disabled={products.length === 0}>
+              Labels
+            </Button>
+            {isManager && (
+              <Button variant="secondary" icon={<Upload />} onClick={() => setIsImportOpen(true)}>
+                Import
+              </Button>
+            )}
+            <Button icon={<PlusIcon />} onClick={openAddModal}>
+              Add Product
+            </Button>
+          </div>
         }
       />
       <Card>
@@ -194,6 +346,7 @@ export default function Products({ businessId }: ProductsPageProps) {
               <TableHeader>
                 <TableHead>Product Name</TableHead>
                 <TableHead>SKU</TableHead>
+                <TableHead>Cost</TableHead>
                 <TableHead>Price</TableHead>
                 <TableHead>Stock</TableHead>
                 <TableHead>Status</TableHead>
@@ -201,13 +354,37 @@ export default function Products({ businessId }: ProductsPageProps) {
               </TableHeader>
               <TableBody>
                 {products.map((product) => {
-                  const status = getStockStatus(product.stock_quantity, product.min_stock_level);
+                  const available = product.is_bundle ? bundleAvailability(product.product_bundle_components, stockByProduct) : product.stock_quantity;
+                  const status = getStockStatus(available, product.min_stock_level);
                   return (
                     <TableRow key={product.id}>
-                      <TableCell><div className="font-medium">{product.name}</div></TableCell>
+                      <TableCell>
+                        <div className="font-medium">{product.name}</div>
+                        {product.parent_product_id && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            Variant{product.variant_name ? ` "${product.variant_name}"` : ''} of {products.find(p => p.id === product.parent_product_id)?.name ?? 'another product'}
+                          </div>
+                        )}
+                        {product.is_bundle && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            Bundle: {(product.product_bundle_components ?? []).map(c => `${c.quantity} x ${productName(c.component_product_id)}`).join(', ') || 'no products yet'}
+                          </div>
+                        )}
+                        {product.product_units?.some(u => u.is_active) && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            Also sold by {product.product_units.filter(u => u.is_active).map(u => `${u.name} (${u.conversion_factor})`).join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>{product.sku || 'N/A'}</TableCell>
+                      <TableCell>{product.buying_price != null ? `KSh ${product.buying_price.toLocaleString()}` : 'N/A'}</TableCell>
                       <TableCell>KSh {product.selling_price.toLocaleString()}</TableCell>
-                      <TableCell>{product.stock_quantity} {product.unit}(s)</TableCell>
+                      <TableCell>
+                        <div>{available} {product.unit}(s){product.is_bundle && <span className="text-xs text-gray-500 dark:text-gray-400"> available</span>}</div>
+                        {incomingStock[product.id] > 0 && (
+                          <div className="text-xs text-primary-600 dark:text-primary-400">+{incomingStock[product.id]} incoming</div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge variant={status.variant}>{status.text}</Badge>
                       </TableCell>
@@ -223,7 +400,7 @@ export default function Products({ businessId }: ProductsPageProps) {
                             leaveFrom="transform opacity-100 scale-100"
                             leaveTo="transform opacity-0 scale-95"
                           >
-                            <Menu.Items className="absolute right-0 z-10 mt-2 w-32 origin-top-right divide-y divide-gray-100 dark:divide-gray-700 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                            <Menu.Items className="absolute right-0 z-10 mt-2 w-44 origin-top-right divide-y divide-gray-100 dark:divide-gray-700 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
                               <div className="px-1 py-1">
                                 <Menu.Item>
                                   {({ active }) => (
@@ -236,6 +413,76 @@ export default function Products({ businessId }: ProductsPageProps) {
                                     </button>
                                   )}
                                 </Menu.Item>
+                                {!product.parent_product_id && !product.is_bundle && (
+                                  <Menu.Item>
+                                    {({ active }) => (
+                                      <button
+                                        onClick={() => openAddVariantModal(product)}
+                                        className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                      >
+                                        <Layers className="mr-2 h-4 w-4" />
+                                        Add Variant
+                                      </button>
+                                    )}
+                                  </Menu.Item>
+                                )}
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => setUnitsProduct(product)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Boxes className="mr-2 h-4 w-4" />
+                                      Selling Units
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => setLabelProductIds([product.id])}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Printer className="mr-2 h-4 w-4" />
+                                      Print Labels
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => handleToggleQuickKey(product)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Star className="mr-2 h-4 w-4" />
+                                      {product.is_quick_key ? 'Remove from Quick Keys' : 'Add to Quick Keys'}
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => setHistoryProduct(product)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <History className="mr-2 h-4 w-4" />
+                                      Stock History
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                {isManager && !product.is_bundle && (
+                                  <Menu.Item>
+                                    {({ active }) => (
+                                      <button
+                                        onClick={() => setAdjustingProduct(product)}
+                                        className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                      >
+                                        <SlidersHorizontal className="mr-2 h-4 w-4" />
+                                        Adjust Stock
+                                      </button>
+                                    )}
+                                  </Menu.Item>
+                                )}
                                 <Menu.Item>
                                   {({ active }) => (
                                     <button
@@ -261,14 +508,80 @@ export default function Products({ businessId }: ProductsPageProps) {
         </CardContent>
       </Card>
 
-      <Modal isOpen={isModalOpen} onClose={closeModal} title={editingProduct ? "Edit Product" : "Add New Product"}>
+      <Modal isOpen={isModalOpen} onClose={closeModal} title={editingProduct ? "Edit Product" : variantParent ? `Add Variant of ${variantParent.name}` : "Add New Product"}>
         <form onSubmit={handleSaveProduct} className="space-y-4">
           <Input name="name" placeholder="Product Name" value={productForm.name} onChange={handleInputChange} required />
-          <Input name="sku" placeholder="SKU / Barcode" value={productForm.sku} onChange={handleInputChange} />
+          <Input name="sku" placeholder="SKU / Barcode (blank to generate one)" value={productForm.sku} onChange={handleInputChange} />
           <Input name="category" placeholder="Category (e.g., Cement)" value={productForm.category} onChange={handleInputChange} />
           <Input name="selling_price" type="number" placeholder="Selling Price (KSh)" value={productForm.selling_price} onChange={handleInputChange} required />
-          <Input name="stock_quantity" type="number" placeholder="Stock Quantity" value={productForm.stock_quantity} onChange={handleInputChange} required />
+          {!editingProduct && !variantParent && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={productForm.is_bundle} onChange={(e) => setProductForm(prev => ({ ...prev, is_bundle: e.target.checked, parent_product_id: '' }))} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+              <span>Bundle / kit (sold as one item, stock is taken from the products it contains)</span>
+            </label>
+          )}
+          {!editingProduct && !productForm.is_bundle && (
+            <Input name="stock_quantity" type="number" min="0" step={productForm.is_weighed ? '0.001' : '1'} placeholder="Opening Stock Quantity" value={productForm.stock_quantity} onChange={handleInputChange} required />
+          )}
+          {productForm.is_bundle && (
+            <div className="space-y-2 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Products in this bundle</p>
+              {components.map(component => (
+                <div key={component.product_id} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-gray-900 dark:text-white">{productName(component.product_id)}</span>
+                  <div className="w-24">
+                    <Input
+                      type="number"
+                      min="1"
+                      value={component.quantity}
+                      onChange={(e) => setComponents(prev => prev.map(c => c.product_id === component.product_id ? { ...c, quantity: e.target.value } : c))}
+                      required
+                    />
+                  </div>
+                  <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4" />} onClick={() => setComponents(prev => prev.filter(c => c.product_id !== component.product_id))} />
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <select value={componentToAdd} onChange={(e) => setComponentToAdd(e.target.value)} className={selectClasses}>
+                  <option value="">Select a product...</option>
+                  {products
+                    .filter(p => !p.is_bundle && p.id !== editingProduct?.id && !components.some(c => c.product_id === p.id))
+                    .map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <Button type="button" variant="secondary" onClick={handleAddComponent} disabled={!componentToAdd}>Add</Button>
+              </div>
+            </div>
+          )}
           <Input name="unit" placeholder="Unit (e.g., bag, piece)" value={productForm.unit} onChange={handleInputChange} required />
+          {!productForm.is_bundle && (
+            <>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={productForm.is_weighed} onChange={(e) => setProductForm(prev => ({ ...prev, is_weighed: e.target.checked }))} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+                <span>Sold by weight (priced per {productForm.unit || 'kg'} and sold in fractions, e.g. 0.25)</span>
+              </label>
+              <Input name="plu" placeholder="PLU (item number on scale labels)" value={productForm.plu} onChange={handleInputChange} />
+            </>
+          )}
+          {!productForm.is_bundle && (
+            <select name="parent_product_id" value={productForm.parent_product_id} onChange={handleInputChange} className={selectClasses}>
+              <option value="">Not a variant</option>
+              {products
+                .filter(p => !p.parent_product_id && !p.is_bundle && p.id !== editingProduct?.id)
+                .map(p => <option key={p.id} value={p.id}>Variant of {p.name}</option>)}
+            </select>
+          )}
+          <select name="tax_class" value={productForm.tax_class} onChange={handleInputChange} className={selectClasses}>
+            {(Object.keys(taxClassLabels) as TaxClass[]).map(taxClass => (
+              <option key={taxClass} value={taxClass}>{taxClassLabels[taxClass]}</option>
+            ))}
+          </select>
+          {productForm.parent_product_id && (
+            <Input name="variant_name" placeholder="Variant (e.g., Red, 5 Litre)" value={productForm.variant_name} onChange={handleInputChange} />
+          )}
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={productForm.track_expiry} onChange={(e) => setProductForm(prev => ({ ...prev, track_expiry: e.target.checked }))} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+            <span>Track batches and expiry dates (an expiry date is required when receiving stock)</span>
+          </label>
           <div className="flex justify-end space-x-2 pt-4">
             <Button type="button" variant="secondary" onClick={closeModal}>Cancel</Button>
             <Button type="submit">{editingProduct ? 'Save Changes' : 'Add Product'}</Button>
@@ -276,6 +589,23 @@ export default function Products({ businessId }: ProductsPageProps) {
         </form>
       </Modal>
 
+      <StockAdjustmentModal product={adjustingProduct} onClose={() => setAdjustingProduct(null)} onAdjusted={fetchProducts} />
+      <StockHistoryModal product={historyProduct} onClose={() => setHistoryProduct(null)} />
+      <ProductUnitsModal product={unitsProduct} onClose={() => setUnitsProduct(null)} onChanged={fetchProducts} />
+      <ProductImportModal
+        isOpen={isImportOpen}
+        businessId={businessId}
+        products={products}
+        onClose={() => setIsImportOpen(false)}
+        onImported={fetchProducts}
+      />
+      <LabelPrintModal
+        isOpen={labelProductIds !== null}
+        products={products}
+        initialProductIds={labelProductIds ?? undefined}
+        onClose={() => setLabelProductIds(null)}
+      />
+
       {deletingProduct && (
         <ConfirmDeleteModal
           isOpen={!!deletingProduct}
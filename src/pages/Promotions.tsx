@@ -0,0 +1,425 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type Promotion, type PromotionType, type DiscountLimit, type StaffRoleName } from '../lib/supabase';
+import { isPromotionLive, promotionTypeLabels, weekdayLabels } from '../lib/promotions';
+import { useAuth } from '../contexts/AuthContext';
+import { useStaffRole } from '../hooks/useStaffRole';
+import PageHeader from '../components/PageHeader';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
+import { Badge } from '../components/ui/Badge';
+import { Modal } from '../components/ui/Modal';
+import { PlusIcon, MoreVertical, Pencil, Power, Trash2 } from 'lucide-react';
+import { Menu, Transition } from '@headlessui/react';
+import { format } from 'date-fns';
+
+interface PromotionsPageProps {
+  businessId: string;
+}
+
+type PromotionRow = Promotion & {
+  products: { name: string } | null;
+};
+
+// Owners are never limited, so only these roles get a configurable discount limit
+const limitedRoles: { role: StaffRoleName; label: string; fallback: number }[] = [
+  { role: 'manager', label: 'Manager', fallback: 100 },
+  { role: 'cashier', label: 'Cashier', fallback: 0 },
+  { role: 'accountant', label: 'Accountant', fallback: 0 },
+];
+
+const emptyPromotionForm = {
+  name: '',
+  promotion_type: 'percent_off' as PromotionType,
+  product_id: '',
+  category: '',
+  percent: '',
+  buy_quantity: '2',
+  free_quantity: '1',
+  starts_at: '',
+  ends_at: '',
+  start_time: '',
+  end_time: '',
+  days_of_week: [] as number[],
+};
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
+
+const toLocalInput = (value?: string | null) => value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+const describePromotion = (promotion: PromotionRow) => {
+  const target = promotion.products?.name || promotion.category || 'all products';
+  return promotion.promotion_type === 'percent_off'
+    ? `${promotion.percent}% off ${target}`
+    : `Buy ${promotion.buy_quantity} get ${promotion.free_quantity} free on ${target}`;
+};
+
+const describeSchedule = (promotion: Promotion) => {
+  const parts: string[] = [];
+  if (promotion.starts_at || promotion.ends_at) {
+    parts.push(`${promotion.starts_at ? format(new Date(promotion.starts_at), 'dd MMM yyyy') : 'Now'} - ${promotion.ends_at ? format(new Date(promotion.ends_at), 'dd MMM yyyy') : 'No end'}`);
+  }
+  if (promotion.days_of_week?.length) parts.push(promotion.days_of_week.map(day => weekdayLabels[day]).join(', '));
+  if (promotion.start_time && promotion.end_time) parts.push(`${promotion.start_time.slice(0, 5)}-${promotion.end_time.slice(0, 5)}`);
+  return parts.length > 0 ? parts.join(' · ') : 'Always';
+};
+
+export default function Promotions({ businessId }: PromotionsPageProps) {
+  const { user } = useAuth();
+  const { isManager } = useStaffRole(businessId);
+  const [promotions, setPromotions] = useState<PromotionRow[]>([]);
+  const [products, setProducts] = useState<{ id: string; name: string; category: string | null }[]>([]);
+  const [limits, setLimits] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<PromotionRow | null>(null);
+  const [promotionForm, setPromotionForm] = useState(emptyPromotionForm);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [{ data: promotionData, error: promotionError }, { data: productData, error: productError }, { data: limitData, error: limitError }] = await Promise.all([
+        supabase.from('promotions').select('*, products(name)').eq('business_id', businessId).order('created_at', { ascending: false }),
+        supabase.from('products').select('id, name, category').eq('business_id', businessId).order('name', { ascending: true }),
+        supabase.from('discount_limits').select('*').eq('business_id', businessId),
+      ]);
+      if (promotionError) throw promotionError;
+      if (productError) throw productError;
+      if (limitError) throw limitError;
+
+      setPromotions(promotionData as PromotionRow[] || []);
+      setProducts(productData || []);
+      setLimits(Object.fromEntries(limitedRoles.map(({ role, fallback }) => {
+        const limit = (limitData as DiscountLimit[] || []).find(l => l.role === role);
+        return [role, String(limit?.max_percent ?? fallback)];
+      })));
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchData();
+    }
+  }, [businessId, fetchData]);
+
+  const categories = Array.from(new Set(products.map(product => product.category).filter((category): category is string => !!category))).sort();
+
+  const openAddModal = () => {
+    setEditingPromotion(null);
+    setPromotionForm(emptyPromotionForm);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (promotion: PromotionRow) => {
+    setEditingPromotion(promotion);
+    setPromotionForm({
+      name: promotion.name,
+      promotion_type: promotion.promotion_type,
+      product_id: promotion.product_id || '',
+      category: promotion.category || '',
+      percent: promotion.percent != null ? String(promotion.percent) : '',
+      buy_quantity: String(promotion.buy_quantity ?? 2),
+      free_quantity: String(promotion.free_quantity ?? 1),
+      starts_at: toLocalInput(promotion.starts_at),
+      ends_at: toLocalInput(promotion.ends_at),
+      start_time: promotion.start_time?.slice(0, 5) || '',
+      end_time: promotion.end_time?.slice(0, 5) || '',
+      days_of_week: promotion.days_of_week || [],
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setPromotionForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const toggleDay = (day: number) => {
+    setPromotionForm(prev => ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day) ? prev.days_of_week.filter(d => d !== day) : [...prev.days_of_week, day].sort(),
+    }));
+  };
+
+  const handleSavePromotion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isPercent = promotionForm.promotion_type === 'percent_off';
+    if (!isPercent && !promotionForm.product_id) {
+      alert('Buy X get Y promotions need a product.');
+      return;
+    }
+    if ((promotionForm.start_time === '') !== (promotionForm.end_time === '')) {
+      alert('Enter both a start and an end time for a happy hour, or neither.');
+      return;
+    }
+
+    const promotionData = {
+      name: promotionForm.name,
+      promotion_type: promotionForm.promotion_type,
+      product_id: promotionForm.product_id || null,
+      category: isPercent && !promotionForm.product_id ? promotionForm.category || null : null,
+      percent: isPercent ? parseFloat(promotionForm.percent) : null,
+      buy_quantity: isPercent ? null : parseInt(promotionForm.buy_quantity),
+      free_quantity: isPercent ? null : parseInt(promotionForm.free_quantity),
+      starts_at: promotionForm.starts_at ? new Date(promotionForm.starts_at).toISOString() : null,
+      ends_at: promotionForm.ends_at ? new Date(promotionForm.ends_at).toISOString() : null,
+      start_time: promotionForm.start_time || null,
+      end_time: promotionForm.end_time || null,
+      days_of_week: promotionForm.days_of_week.length > 0 ? promotionForm.days_of_week : null,
+    };
+    try {
+      if (editingPromotion) {
+        const { error } = await supabase.from('promotions').update(promotionData).eq('id', editingPromotion.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('promotions').insert({ ...promotionData, business_id: businessId, created_by: user?.id });
+        if (error) throw error;
+      }
+      await fetchData();
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error saving promotion:', error);
+      alert(`Failed to save promotion: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleToggleActive = async (promotion: PromotionRow) => {
+    try {
+      const { error } = await supabase.from('promotions').update({ is_active: !promotion.is_active }).eq('id', promotion.id);
+      if (error) throw error;
+      await fetchData();
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      alert(`Failed to update promotion: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDeletePromotion = async (promotion: PromotionRow) => {
+    if (!window.confirm(`Delete ${promotion.name}? Past sales keep their discounts.`)) return;
+    try {
+      const { error } = await supabase.from('promotions').delete().eq('id', promotion.id);
+      if (error) throw error;
+      await fetchData();
+    } catch (error) {
+      console.error('Error deleting promotion:', error);
+      alert(`Failed to delete promotion: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleSaveLimits = async () => {
+    try {
+      const { error } = await supabase.from('discount_limits').upsert(
+        limitedRoles.map(({ role }) => ({
+          business_id: businessId,
+          role,
+          max_percent: Math.min(Math.max(parseFloat(limits[role]) || 0, 0), 100),
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'business_id,role' },
+      );
+      if (error) throw error;
+      await fetchData();
+    } catch (error) {
+      console.error('Error saving discount limits:', error);
+      alert(`Failed to save discount limits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const statusBadge = (promotion: Promotion) => {
+    if (!promotion.is_active) return <Badge variant="danger">Inactive</Badge>;
+    if (promotion.ends_at && new Date(promotion.ends_at) <= new Date()) return <Badge>Ended</Badge>;
+    if (isPromotionLive(promotion)) return <Badge variant="success">Running</Badge>;
+    return <Badge variant="warning">Scheduled</Badge>;
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Promotions"
+        subtitle="Scheduled offers the till applies automatically, and how much each role may discount by hand."
+        actions={isManager && (
+          <Button icon={<PlusIcon />} onClick={openAddModal}>
+            New Promotion
+          </Button>
+        )}
+      />
+      <Card className="mb-6">
+        <CardContent>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Discount Limits</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">The largest manual discount, as a percentage of each line, that staff in each role can give. Owners have no limit.</p>
+          <div className="flex flex-wrap items-end gap-4">
+            {limitedRoles.map(({ role, label }) => (
+              <div key={role} className="w-32">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label} (%)</label>
+                <Input type="number" min="0" max="100" step="0.5" value={limits[role] ?? ''} onChange={(e) => setLimits(prev => ({ ...prev, [role]: e.target.value }))} disabled={!isManager} />
+              </div>
+            ))}
+            {isManager && <Button variant="secondary" onClick={handleSaveLimits}>Save Limits</Button>}
+          </div>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Loading promotions...</div>
+          ) : promotions.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No promotions yet</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Set up a percentage off, a buy X get Y offer or a happy hour.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Promotion</TableHead>
+                <TableHead>Offer</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead><span className="sr-only">Actions</span></TableHead>
+              </TableHeader>
+              <TableBody>
+                {promotions.map(promotion => (
+                  <TableRow key={promotion.id}>
+                    <TableCell>
+                      <div className="font-medium">{promotion.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{promotionTypeLabels[promotion.promotion_type]}</div>
+                    </TableCell>
+                    <TableCell>{describePromotion(promotion)}</TableCell>
+                    <TableCell>{describeSchedule(promotion)}</TableCell>
+                    <TableCell>{statusBadge(promotion)}</TableCell>
+                    <TableCell className="text-right">
+                      {isManager && (
+                        <Menu as="div" className="relative inline-block text-left">
+                          <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
+                          <Transition
+                            as={React.Fragment}
+                            enter="transition ease-out duration-100"
+                            enterFrom="transform opacity-0 scale-95"
+                            enterTo="transform opacity-100 scale-100"
+                            leave="transition ease-in duration-75"
+                            leaveFrom="transform opacity-100 scale-100"
+                            leaveTo="transform opacity-0 scale-95"
+                          >
+                            <Menu.Items className="absolute right-0 z-10 mt-2 w-44 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                              <div className="px-1 py-1">
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => openEditModal(promotion)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Pencil className="mr-2 h-4 w-4" />
+                                      Edit
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => handleToggleActive(promotion)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Power className="mr-2 h-4 w-4" />
+                                      {promotion.is_active ? 'Deactivate' : 'Activate'}
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => handleDeletePromotion(promotion)}
+                                      className={`${active ? 'bg-red-100 dark:bg-red-700' : ''} text-red-700 dark:text-red-400 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Trash2 className="mr-2 h-4 w-4" />
+                                      Delete
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                              </div>
+                            </Menu.Items>
+                          </Transition>
+                        </Menu>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingPromotion ? 'Edit Promotion' : 'New Promotion'}>
+        <form onSubmit={handleSavePromotion} className="space-y-4">
+          <Input name="name" placeholder="Promotion name (e.g., Friday Happy Hour)" value={promotionForm.name} onChange={handleInputChange} required />
+          <select name="promotion_type" value={promotionForm.promotion_type} onChange={handleInputChange} className={selectClasses}>
+            {(Object.keys(promotionTypeLabels) as PromotionType[]).map(type => <option key={type} value={type}>{promotionTypeLabels[type]}</option>)}
+          </select>
+          <select name="product_id" value={promotionForm.product_id} onChange={handleInputChange} className={selectClasses} required={promotionForm.promotion_type === 'buy_x_get_y'}>
+            <option value="">{promotionForm.promotion_type === 'percent_off' ? 'Any product' : 'Select a product'}</option>
+            {products.map(product => <option key={product.id} value={product.id}>{product.name}</option>)}
+          </select>
+          {promotionForm.promotion_type === 'percent_off' ? (
+            <>
+              {!promotionForm.product_id && (
+                <select name="category" value={promotionForm.category} onChange={handleInputChange} className={selectClasses}>
+                  <option value="">All categories</option>
+                  {categories.map(category => <option key={category} value={category}>{category}</option>)}
+                </select>
+              )}
+              <Input name="percent" type="number" min="0.01" max="100" step="0.01" placeholder="Percentage off" value={promotionForm.percent} onChange={handleInputChange} required />
+            </>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Buy</label>
+                <Input name="buy_quantity" type="number" min="1" value={promotionForm.buy_quantity} onChange={handleInputChange} required />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Get free</label>
+                <Input name="free_quantity" type="number" min="1" value={promotionForm.free_quantity} onChange={handleInputChange} required />
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Starts</label>
+              <Input name="starts_at" type="datetime-local" value={promotionForm.starts_at} onChange={handleInputChange} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Ends</label>
+              <Input name="ends_at" type="datetime-local" value={promotionForm.ends_at} onChange={handleInputChange} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Happy hour (optional)</label>
+            <div className="grid grid-cols-2 gap-4">
+              <Input name="start_time" type="time" value={promotionForm.start_time} onChange={handleInputChange} />
+              <Input name="end_time" type="time" value={promotionForm.end_time} onChange={handleInputChange} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Days (none selected means every day)</label>
+            <div className="flex flex-wrap gap-3">
+              {weekdayLabels.map((label, day) => (
+                <label key={label} className="flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={promotionForm.days_of_week.includes(day)} onChange={() => toggleDay(day)} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button type="submit">{editingPromotion ? 'Save Changes' : 'Create Promotion'}</Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type PurchaseOrderStatus } from '../lib/supabase';
+import { purchaseOrderStatusLabels } from '../lib/purchasing';
+import { useBranches } from '../hooks/useBranches';
+import PageHeader from '../components/PageHeader';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
+import { Badge } from '../components/ui/Badge';
+import { PlusIcon, MoreVertical, PackageCheck, XCircle, Edit, Send, Lightbulb } from 'lucide-react';
+import { Menu, Transition } from '@headlessui/react';
+import { format } from 'date-fns';
+import { PurchaseOrderModal } from '../components/purchasing/PurchaseOrderModal';
+import { ReceiveGoodsModal, type ReceivableOrder } from '../components/purchasing/ReceiveGoodsModal';
+import { ReorderSuggestionsModal } from '../components/purchasing/ReorderSuggestionsModal';
+
+interface PurchaseOrdersPageProps {
+  businessId: string;
+}
+
+const statusVariants: Record<PurchaseOrderStatus, 'default' | 'success' | 'warning' | 'danger'> = {
+  draft: 'default',
+  ordered: 'default',
+  partially_received: 'warning',
+  received: 'success',
+  cancelled: 'danger',
+};
+
+const isOpenOrder = (status: PurchaseOrderStatus) => status === 'ordered' || status === 'partially_received';
+
+export default function PurchaseOrders({ businessId }: PurchaseOrdersPageProps) {
+  const { branches, hasMultipleBranches } = useBranches(businessId);
+  const [orders, setOrders] = useState<ReceivableOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<ReceivableOrder | null>(null);
+  const [editingDraft, setEditingDraft] = useState<ReceivableOrder | null>(null);
+  const [isReorderOpen, setIsReorderOpen] = useState(false);
+
+  const fetchOrders = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, suppliers(name), purchase_order_items(*, products(name, unit, track_expiry, is_weighed))')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setOrders(data as ReceivableOrder[] || []);
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchOrders();
+    }
+  }, [businessId, fetchOrders]);
+
+  const handlePlaceOrder = async (order: ReceivableOrder) => {
+    if (!window.confirm(`Place ${order.po_number} with ${order.suppliers?.name ?? 'the supplier'} for KSh ${order.total_amount.toLocaleString()}?`)) return;
+    try {
+      const { error } = await supabase.rpc('place_purchase_order', { p_purchase_order_id: order.id });
+      if (error) throw error;
+      await fetchOrders();
+    } catch (error) {
+      console.error('Error placing purchase order:', error);
+      alert(`Failed to place purchase order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCancelOrder = async (order: ReceivableOrder) => {
+    if (!window.confirm(order.status === 'draft' ? `Cancel draft ${order.po_number}?` : `Cancel ${order.po_number}? Anything already received stays in stock.`)) return;
+    try {
+      const { error } = await supabase.rpc('cancel_purchase_order', { p_purchase_order_id: order.id });
+      if (error) throw error;
+      await fetchOrders();
+    } catch (error) {
+      console.error('Error cancelling purchase order:', error);
+      alert(`Failed to cancel purchase order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Purchase Orders"
+        subtitle="Order stock from suppliers and receive deliveries."
+        actions={
+          <div className="flex space-x-2">
+            <Button variant="secondary" icon={<Lightbulb />} onClick={() => setIsReorderOpen(true)}>
+              Reorder Suggestions
+            </Button>
+            <Button icon={<PlusIcon />} onClick={() => setIsModalOpen(true)}>
+              New Purchase Order
+            </Button>
+          </div>
+        }
+      />
+      <Card>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Loading purchase orders...</div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No purchase orders yet</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Raise a purchase order to restock from a supplier.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Supplier</TableHead>
+                {hasMultipleBranches && <TableHead>Deliver To</TableHead>}
+                <TableHead>Date</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead><span className="sr-only">Actions</span></TableHead>
+              </TableHeader>
+              <TableBody>
+                {orders.map(order => {
+                  const ordered = Math.round(order.purchase_order_items.reduce((acc, line) => acc + line.quantity_ordered, 0) * 1000) / 1000;
+                  const received = Math.round(order.purchase_order_items.reduce((acc, line) => acc + line.quantity_received, 0) * 1000) / 1000;
+                  return (
+                    <TableRow key={order.id}>
+                      <TableCell><div className="font-medium">{order.po_number}</div></TableCell>
+                      <TableCell>{order.suppliers?.name ?? 'N/A'}</TableCell>
+                      {hasMultipleBranches && <TableCell>{branches.find(b => b.id === order.branch_id)?.name ?? 'N/A'}</TableCell>}
+                      <TableCell>{format(new Date(order.created_at), 'dd MMM yyyy')}</TableCell>
+                      <TableCell>{order.expected_date ? format(new Date(order.expected_date), 'dd MMM yyyy') : 'N/A'}</TableCell>
+                      <TableCell>{received} / {ordered}</TableCell>
+                      <TableCell>KSh {order.total_amount.toLocaleString()}</TableCell>
+                      <TableCell><Badge variant={statusVariants[order.status]}>{purchaseOrderStatusLabels[order.status]}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        {(order.status === 'draft' || isOpenOrder(order.status)) && (
+                          <Menu as="div" className="relative inline-block text-left">
+                            <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
+                            <Transition
+                              as={React.Fragment}
+                              enter="transition ease-out duration-100"
+                              enterFrom="transform opacity-0 scale-95"
+                              enterTo="transform opacity-100 scale-100"
+                              leave="transition ease-in duration-75"
+                              leaveFrom="transform opacity-100 scale-100"
+                              leaveTo="transform opacity-0 scale-95"
+                            >
+                              <Menu.Items className="absolute right-0 z-10 mt-2 w-44 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                                <div className="px-1 py-1">
+                                  {order.status === 'draft' ? (
+                                    <>
+                                      <Menu.Item>
+                                        {({ active }) => (
+                                          <button
+                                            onClick={() => setEditingDraft(order)}
+                                            className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                          >
+                                            <Edit className="mr-2 h-4 w-4" />
+                                            Edit Draft
+                                          </button>
+                                        )}
+                                      </Menu.Item>
+                                      <Menu.Item>
+                                        {({ active }) => (
+                                          <button
+                                            onClick={() => handlePlaceOrder(order)}
+                                            className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                          >
+                                            <Send className="mr-2 h-4 w-4" />
+                                            Place Order
+                                          </button>
+                                        )}
+                                      </Menu.Item>
+                                    </>
+                                  ) : (
+                                    <Menu.Item>
+                                      {({ active }) => (
+                                        <button
+                                          onClick={() => setReceivingOrder(order)}
+                                          className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                        >
+                                          <PackageCheck className="mr-2 h-4 w-4" />
+                                          Receive Goods
+                                        </button>
+                                      )}
+                                    </Menu.Item>
+                                  )}
+                                  <Menu.Item>
+                                    {({ active }) => (
+                                      <button
+                                        onClick={() => handleCancelOrder(order)}
+                                        className={`${active ? 'bg-red-100 dark:bg-red-700' : ''} text-red-700 dark:text-red-400 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                      >
+                                        <XCircle className="mr-2 h-4 w-4" />
+                                        Cancel Order
+                                      </button>
+                                    )}
+                                  </Menu.Item>
+                                </div>
+                              </Menu.Items>
+                            </Transition>
+                          </Menu>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PurchaseOrderModal businessId={businessId} isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onCreated={fetchOrders} />
+      <PurchaseOrderModal businessId={businessId} isOpen={!!editingDraft} draft={editingDraft} onClose={() => setEditingDraft(null)} onCreated={fetchOrders} />
+      <ReorderSuggestionsModal businessId={businessId} isOpen={isReorderOpen} onClose={() => setIsReorderOpen(false)} onCreated={fetchOrders} />
+      <ReceiveGoodsModal order={receivingOrder} onClose={() => setReceivingOrder(null)} onReceived={fetchOrders} />
+    </div>
+  );
+}
@@ -2,22 +2,37 @@ import React, { useState, useEffect } from 'react';
 import PageHeader from '../components/PageHeader';
 import { Card, CardContent } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
-import { BarChart2, TrendingUp, Users, FileText, ArrowLeft } from 'lucide-react';
+import { BarChart2, TrendingUp, Users, FileText, ArrowLeft, PiggyBank, Hourglass, CalendarClock, Landmark } from 'lucide-react';
 import SalesReport from '../components/dashboard/reports/SalesReport';
 import FeeReport from '../components/dashboard/reports/FeeReport';
 import RentReport from '../components/dashboard/reports/RentReport';
 import InventoryReport from '../components/dashboard/reports/InventoryReport';
+import ProfitReport from '../components/dashboard/reports/ProfitReport';
+import RevenueReport from '../components/dashboard/reports/RevenueReport';
+import CustomerReport from '../components/dashboard/reports/CustomerReport';
+import AgedDebtorsReport from '../components/dashboard/reports/AgedDebtorsReport';
+import ExpiryReport from '../components/dashboard/reports/ExpiryReport';
+import VatReport from '../components/dashboard/reports/VatReport';
+import { BranchSelect } from '../components/branches/BranchSelect';
+import { useBranches } from '../hooks/useBranches';
 import { supabase, type Business } from '../lib/supabase';
 
 interface ReportsPageProps {
   businessId: string;
 }
 
-type ReportType = 'sales' | 'revenue' | 'customers' | 'inventory' | 'fees' | 'rent';
+type ReportType = 'sales' | 'profit' | 'vat' | 'debtors' | 'revenue' | 'customers' | 'inventory' | 'expiry' | 'fees' | 'rent';
+
+// Reports that can be run for one branch; the rest always cover the whole business
+const branchReports: ReportType[] = ['sales', 'profit', 'inventory', 'expiry', 'revenue'];
 
 const allReportTypes: { id: ReportType, title: string; icon: React.ElementType; description: string; business_types: Business['business_type'][] }[] = [
   { id: 'sales', title: 'Sales Report', icon: BarChart2, description: 'Daily, weekly, and monthly sales performance.', business_types: ['hardware', 'supermarket'] },
+  { id: 'profit', title: 'Gross Profit', icon: PiggyBank, description: 'Profit and margin by product, category and day.', business_types: ['hardware', 'supermarket'] },
+  { id: 'vat', title: 'VAT Summary', icon: Landmark, description: 'Monthly output VAT by tax class for KRA returns.', business_types: ['hardware', 'supermarket'] },
+  { id: 'debtors', title: 'Aged Debtors', icon: Hourglass, description: 'Customer balances on account by age.', business_types: ['hardware', 'supermarket'] },
   { id: 'inventory', title: 'Inventory Summary', icon: FileText, description: 'Stock levels and product performance.', business_types: ['hardware', 'supermarket'] },
+  { id: 'expiry', title: 'Expiring Stock', icon: CalendarClock, description: 'Batches expired or close to expiry, and their value.', business_types: ['supermarket', 'hardware'] },
   { id: 'fees', title: 'Fee Collection Report', icon: BarChart2, description: 'Track student fee payments.', business_types: ['school'] },
   { id: 'rent', title: 'Rent Roll', icon: FileText, description: 'Summary of all tenant rent payments.', business_types: ['rentals'] },
   { id: 'revenue', title: 'Revenue Growth', icon: TrendingUp, description: 'Track revenue trends over time.', business_types: ['hardware', 'supermarket', 'rentals', 'airbnb', 'hotel', 'school'] },
@@ -28,6 +43,9 @@ export default function Reports({ businessId }: ReportsPageProps) {
   const [activeReport, setActiveReport] = useState<ReportType | null>(null);
   const [business, setBusiness] = useState<Business | null>(null);
   const [loading, setLoading] = useState(true);
+  const { activeBranches, hasMultipleBranches } = useBranches(businessId);
+  // Empty consolidates every branch
+  const [branchId, setBranchId] = useState('');
 
   useEffect(() => {
     const fetchBusiness = async () => {
@@ -50,7 +68,7 @@ export default function Reports({ businessId }: ReportsPageProps) {
     : [];
 
   // Currently enabled reports
-  const enabledReports: ReportType[] = ['sales', 'fees', 'rent', 'inventory'];
+  const enabledReports: ReportType[] = ['sales', 'profit', 'fees', 'rent', 'inventory', 'revenue', 'customers', 'debtors', 'expiry', 'vat'];
 
   if (loading) {
     return <div className="text-center py-12">Loading reports...</div>;
@@ -59,14 +77,27 @@ export default function Reports({ businessId }: ReportsPageProps) {
   if (activeReport) {
     return (
       <div>
-        <Button variant="ghost" onClick={() => setActiveReport(null)} className="mb-4">
-          <ArrowLeft className="h-4 w-4 mr-2" />
-          Back to Reports
-        </Button>
-        {activeReport === 'sales' && <SalesReport businessId={businessId} />}
+        <div className="flex items-center justify-between mb-4">
+          <Button variant="ghost" onClick={() => setActiveReport(null)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Reports
+          </Button>
+          {hasMultipleBranches && branchReports.includes(activeReport) && (
+            <div className="w-56">
+              <BranchSelect branches={activeBranches} value={branchId} onChange={setBranchId} emptyLabel="All branches" />
+            </div>
+          )}
+        </div>
+        {activeReport === 'sales' && <SalesReport businessId={businessId} branchId={branchId} />}
+        {activeReport === 'profit' && <ProfitReport businessId={businessId} branchId={branchId} />}
         {activeReport === 'fees' && <FeeReport businessId={businessId} />}
         {activeReport === 'rent' && <RentReport businessId={businessId} />}
-        {activeReport === 'inventory' && <InventoryReport businessId={businessId} />}
+        {activeReport === 'inventory' && <InventoryReport businessId={businessId} branchId={branchId} />}
+        {activeReport === 'revenue' && <RevenueReport businessId={businessId} branchId={branchId} />}
+        {activeReport === 'customers' && <CustomerReport businessId={businessId} />}
+        {activeReport === 'debtors' && <AgedDebtorsReport businessId={businessId} />}
+        {activeReport === 'vat' && <VatReport businessId={businessId} />}
+        {activeReport === 'expiry' && <ExpiryReport businessId={businessId} branchId={branchId} />}
       </div>
     );
   }
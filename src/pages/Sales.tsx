@@ -1,28 +1,55 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { supabase, type Sale, type Product, type Business } from '../lib/supabase';
+import { supabase, type Sale, type SalePayment, type SaleReturn, type OfflineSaleConflict, type Business, type PaymentMethod, type ScaleBarcodeFormat, type LayawayPaymentMethod } from '../lib/supabase';
+import { tenderLabels } from '../lib/tenders';
+import { layawayPaymentMethodLabels } from '../lib/layaways';
+import { getQueuedSales, type QueuedSale } from '../lib/offlineStore';
+import { syncOutbox, describeSyncConflict } from '../lib/offlineSync';
+import { type DiscountType } from '../lib/promotions';
+import { fetchOpenShift } from '../lib/shifts';
+import { type TaxSettings } from '../lib/tax';
+import { describeLineError } from '../lib/saleValidation';
 import { useAuth } from '../contexts/AuthContext';
+import { Link, useNavigate } from 'react-router-dom';
 import PageHeader from '../components/PageHeader';
 import { Card, CardContent } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
 import { Badge } from '../components/ui/Badge';
-import { PlusIcon, MoreVertical, Trash2, ScanBarcode } from 'lucide-react';
+import { PlusIcon, MoreVertical, Trash2, ScanBarcode, ReceiptText, Undo2, WifiOff, RefreshCw, Tag, Lock } from 'lucide-react';
+import { Menu, Transition } from '@headlessui/react';
 import { format } from 'date-fns';
 import { Modal } from '../components/ui/Modal';
 import { Input } from '../components/ui/Input';
 import { useZxing } from 'react-zxing';
+import { ReceiptModal } from '../components/sales/ReceiptModal';
+import { ReturnModal } from '../components/sales/ReturnModal';
+import { useStaffRole } from '../hooks/useStaffRole';
+import { useBranches } from '../hooks/useBranches';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useSaleBasket } from '../hooks/useSaleBasket';
 
 interface SalesPageProps {
   businessId: string;
   businessType: Business['business_type'];
+  taxSettings: TaxSettings;
+  scaleBarcodeFormats: ScaleBarcodeFormat[];
 }
 
-interface SaleItemInput {
-  product_id: string;
-  name: string;
-  quantity: number;
-  unit_price: number;
-}
+type SaleWithPayments = Sale & {
+  sale_payments: SalePayment[];
+  sale_returns: Pick<SaleReturn, 'id' | 'return_type' | 'status' | 'total_amount'>[];
+};
+
+type PendingVoid = SaleReturn & {
+  sales: { receipt_number: string } | null;
+};
+
+type StockConflict = OfflineSaleConflict & {
+  products: { name: string } | null;
+  sales: { receipt_number: string } | null;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
 
 const BarcodeScanner = ({ onScanSuccess }: { onScanSuccess: (text: string) => void }) => {
   const { ref } = useZxing({
@@ -40,29 +67,50 @@ const BarcodeScanner = ({ onScanSuccess }: { onScanSuccess: (text: string) => vo
   );
 };
 
-export default function Sales({ businessId, businessType }: SalesPageProps) {
+export default function Sales({ businessId, businessType, taxSettings, scaleBarcodeFormats }: SalesPageProps) {
   const { user } = useAuth();
-  
-  const [sales, setSales] = useState<Sale[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
+  const { isManager, permissions } = useStaffRole(businessId);
+  const { branches, hasMultipleBranches } = useBranches(businessId);
+  const canOverridePrice = isManager || permissions.price_override === true;
+  const isOnline = useOnlineStatus();
+  const {
+    products, fetchProducts, saleItems, addProductToSale, lookupCode, setItemQuantity, setItemPrice, setItemUnit, setItemDiscount, removeItem,
+    discountedItems, subtotal, totalDiscount, totalSaleAmount, itemsOverDiscountLimit, maxDiscountPercent,
+    basketDiscountType, setBasketDiscountType, basketDiscountValue, setBasketDiscountValue,
+    tenders, setTender, addTender, removeTender, tenderSummary, hasMpesaTender, hasAccountTender, unusedMethods,
+    mpesaPhone, setMpesaPhone, mpesaStatus, customerPhone, setCustomerPhone, customerName, setCustomerName,
+    matchedCustomer, setMatchedCustomer, customerBalance, lookupCustomer, processing, lineErrors, cancelMpesa, completeSale, createLayaway,
+  } = useSaleBasket(businessId, taxSettings, scaleBarcodeFormats);
+
+  const [sales, setSales] = useState<SaleWithPayments[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
 
-  const [saleItems, setSaleItems] = useState<SaleItemInput[]>([]);
   const [selectedProduct, setSelectedProduct] = useState('');
+  const [receiptSaleId, setReceiptSaleId] = useState<string | null>(null);
+  const [returningSale, setReturningSale] = useState<SaleWithPayments | null>(null);
+  const [pendingVoids, setPendingVoids] = useState<PendingVoid[]>([]);
+  const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([]);
+  const [stockConflicts, setStockConflicts] = useState<StockConflict[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [hasOpenShift, setHasOpenShift] = useState<boolean | null>(null);
+  // Hardware customers can reserve goods with a deposit and pay the rest later
+  const [isLayaway, setIsLayaway] = useState(false);
+  const [deposit, setDeposit] = useState<{ method: LayawayPaymentMethod; amount: string; reference: string }>({ method: 'cash', amount: '', reference: '' });
+  const navigate = useNavigate();
 
   const fetchSales = useCallback(async () => {
     setLoading(true);
     try {
       const { data, error } = await supabase
         .from('sales')
-        .select('*')
+        .select('*, sale_payments(*), sale_returns(id, return_type, status, total_amount)')
         .eq('business_id', businessId)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setSales(data || []);
+      setSales(data as SaleWithPayments[] || []);
     } catch (error) {
       console.error('Error fetching sales:', error);
     } finally {
@@ -70,41 +118,115 @@ export default function Sales({ businessId, businessType }: SalesPageProps) {
     }
   }, [businessId]);
 
-  const fetchProducts = useCallback(async () => {
+  const fetchQueuedSales = useCallback(async () => {
+    try {
+      setQueuedSales(await getQueuedSales(businessId));
+    } catch (error) {
+      console.error('Error reading offline sales:', error);
+    }
+  }, [businessId]);
+
+  const fetchStockConflicts = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('offline_sale_conflicts')
+        .select('*, products(name), sales(receipt_number)')
+        .eq('business_id', businessId)
+        .is('resolved_at', null)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      setStockConflicts(data as StockConflict[] || []);
+    } catch (error) {
+      console.error('Error fetching stock conflicts:', error);
+    }
+  }, [businessId]);
+
+  const fetchPendingVoids = useCallback(async () => {
     try {
       const { data, error } = await supabase
-        .from('products')
-        .select('id, name, selling_price, sku')
+        .from('sale_returns')
+        .select('*, sales(receipt_number)')
         .eq('business_id', businessId)
-        .gt('stock_quantity', 0);
+        .eq('status', 'pending_approval')
+        .order('created_at', { ascending: true });
       if (error) throw error;
-      setProducts(data || []);
+      setPendingVoids(data as PendingVoid[] || []);
     } catch (error) {
-      console.error('Error fetching products:', error);
+      console.error('Error fetching pending voids:', error);
     }
   }, [businessId]);
 
   useEffect(() => {
     if (businessId) {
       fetchSales();
-      fetchProducts();
+      fetchPendingVoids();
+      fetchQueuedSales();
+      fetchStockConflicts();
+    }
+  }, [businessId, fetchSales, fetchPendingVoids, fetchQueuedSales, fetchStockConflicts]);
+
+  const handleSync = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const result = await syncOutbox(businessId);
+      await fetchQueuedSales();
+      if (result.synced > 0) {
+        await fetchSales();
+        await fetchProducts();
+        await fetchStockConflicts();
+      }
+      if (result.conflicts.length > 0) {
+        alert(`Synced ${result.synced} offline sale(s). These need a manager to review:\n${result.conflicts
+          .map(c => `${c.receipt_number}: ${c.name}. ${describeSyncConflict(c)}`)
+          .join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Error syncing offline sales:', error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [businessId, fetchQueuedSales, fetchSales, fetchProducts, fetchStockConflicts]);
+
+  // Upload anything rung up offline as soon as the connection comes back
+  useEffect(() => {
+    if (businessId && isOnline) {
+      handleSync();
+    }
+  }, [businessId, isOnline, handleSync]);
+
+  // Sales still go through without a shift, but they can't be reconciled against a drawer
+  useEffect(() => {
+    if (!businessId || !user || !isOnline) return;
+    fetchOpenShift(businessId, user.id)
+      .then(shift => setHasOpenShift(!!shift))
+      .catch(error => console.error('Error checking open shift:', error));
+  }, [businessId, user, isOnline]);
+
+  const handleResolveConflict = async (conflictId: string) => {
+    try {
+      const { error } = await supabase.rpc('resolve_offline_sale_conflict', { p_conflict_id: conflictId });
+      if (error) throw error;
+      setStockConflicts(prev => prev.filter(conflict => conflict.id !== conflictId));
+    } catch (error) {
+      console.error('Error resolving stock conflict:', error);
+      alert(`Failed to resolve conflict: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [businessId, fetchSales, fetchProducts]);
-
-  const addProductToSale = (product: Product) => {
-    if (saleItems.find(item => item.product_id === product.id)) {
-      // If item exists, increment quantity
-      setSaleItems(prev => prev.map(item => 
-        item.product_id === product.id ? { ...item, quantity: item.quantity + 1 } : item
-      ));
-    } else {
-      // Otherwise, add new item
-      setSaleItems(prev => [...prev, {
-        product_id: product.id,
-        name: product.name,
-        quantity: 1,
-        unit_price: product.selling_price
-      }]);
+  };
+
+  const handleReturned = async () => {
+    await fetchSales();
+    await fetchProducts();
+    await fetchPendingVoids();
+  };
+
+  const handleReviewVoid = async (returnId: string, approve: boolean) => {
+    try {
+      const { error } = await supabase.rpc('review_sale_void', { p_return_id: returnId, p_approve: approve });
+      if (error) throw error;
+      await handleReturned();
+    } catch (error) {
+      console.error('Error reviewing void:', error);
+      alert(`Failed to review void: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -116,56 +238,43 @@ export default function Sales({ businessId, businessType }: SalesPageProps) {
     setSelectedProduct('');
   };
 
-  const handleScanSuccess = (scannedSku: string) => {
-    const product = products.find(p => p.sku === scannedSku);
-    if (product) {
-      addProductToSale(product);
+  // Variants carry their own SKU; pack barcodes resolve to the product and the unit they are sold in, and scale labels to a weight
+  const handleScanSuccess = (scannedCode: string) => {
+    const match = lookupCode(scannedCode);
+    if (match) {
+      addProductToSale(match.product, match.unit, match.quantity, match.lineTotal);
       setIsScannerOpen(false); // Close scanner on successful scan
-    } else {
-      alert(`Product with SKU "${scannedSku}" not found.`);
+      return;
     }
+    alert(`Product with SKU "${scannedCode}" not found.`);
   };
 
-  const handleItemQuantityChange = (productId: string, quantity: number) => {
-    if (quantity < 1) return;
-    setSaleItems(prev => prev.map(item =>
-      item.product_id === productId ? { ...item, quantity } : item
-    ));
-  };
-  
-  const handleRemoveItem = (productId: string) => {
-    setSaleItems(prev => prev.filter(item => item.product_id !== productId));
+  const closeSaleModal = () => {
+    cancelMpesa();
+    setIsModalOpen(false);
   };
 
-  const totalSaleAmount = saleItems.reduce((acc, item) => acc + (item.unit_price * item.quantity), 0);
-
   const handleCreateSale = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !businessId || saleItems.length === 0) return;
-
-    const itemsForRpc = saleItems.map(item => ({
-      product_id: item.product_id,
-      quantity: item.quantity,
-      unit_price: item.unit_price,
-    }));
-
-    try {
-      const { error } = await supabase.rpc('create_sale_and_items', {
-        p_business_id: businessId,
-        p_cashier_id: user.id,
-        p_items: itemsForRpc,
-      });
-
-      if (error) throw error;
-
-      await fetchSales();
-      await fetchProducts();
-      setIsModalOpen(false);
-      setSaleItems([]);
-    } catch (error) {
-      console.error('Error creating sale:', error);
-      alert(`Failed to create sale: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const result = await completeSale();
+    if (!result) return;
+    setIsModalOpen(false);
+    if (result.queued) {
+      await fetchQueuedSales();
+      return;
     }
+    await fetchSales();
+    setReceiptSaleId(result.saleId);
+  };
+
+  const handleCreateLayaway = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const layawayId = await createLayaway({ ...deposit, amount: parseFloat(deposit.amount) || 0 });
+    if (!layawayId) return;
+    setIsModalOpen(false);
+    setIsLayaway(false);
+    setDeposit({ method: 'cash', amount: '', reference: '' });
+    navigate('/dashboard/layaways');
   };
 
   return (
@@ -179,6 +288,90 @@ export default function Sales({ businessId, businessType }: SalesPageProps) {
           </Button>
         }
       />
+      {hasOpenShift === false && (
+        <Card className="mb-6">
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Lock className="h-5 w-5 text-yellow-500" />
+                <div>
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">No open cash shift</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Open a shift with your float so your sales can be cashed up at the end of the day.</div>
+                </div>
+              </div>
+              <Link to="/dashboard/shifts" className="text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400">
+                Open Shift
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      {(!isOnline || queuedSales.length > 0) && (
+        <Card className="mb-6">
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <WifiOff className={`h-5 w-5 ${isOnline ? 'text-gray-400' : 'text-red-500'}`} />
+                <div>
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">
+                    {isOnline ? 'Back online' : 'Offline - sales are saved on this device'}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{queuedSales.length} sale(s) waiting to sync</div>
+                </div>
+              </div>
+              <Button size="sm" variant="secondary" icon={<RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />} onClick={handleSync} disabled={!isOnline || syncing || queuedSales.length === 0}>
+                Sync now
+              </Button>
+            </div>
+            {queuedSales.some(queued => queued.last_error) && (
+              <div className="mt-4 space-y-1">
+                {queuedSales.filter(queued => queued.last_error).map(queued => (
+                  <p key={queued.client_sale_id} className="text-xs text-red-600 dark:text-red-400">{queued.receipt_number}: {queued.last_error}</p>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+      {isManager && stockConflicts.length > 0 && (
+        <Card className="mb-6">
+          <CardContent>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Offline Sales Conflicts</h3>
+            <div className="space-y-2">
+              {stockConflicts.map(conflict => (
+                <div key={conflict.id} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg">
+                  <div>
+                    <div className="text-sm font-medium">{conflict.products?.name} - {conflict.sales?.receipt_number}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{describeSyncConflict({ ...conflict.details, code: conflict.code, requested: conflict.requested, available: conflict.available })}</div>
+                  </div>
+                  <Button size="sm" variant="secondary" onClick={() => handleResolveConflict(conflict.id)}>Resolve</Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      {isManager && pendingVoids.length > 0 && (
+        <Card className="mb-6">
+          <CardContent>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Voids Awaiting Approval</h3>
+            <div className="space-y-2">
+              {pendingVoids.map(pending => (
+                <div key={pending.id} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg">
+                  <div>
+                    <div className="text-sm font-medium">{pending.sales?.receipt_number} - KSh {pending.total_amount.toLocaleString()}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{pending.reason_code.replace(/_/g, ' ')}{pending.notes ? ` - ${pending.notes}` : ''}</div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button size="sm" variant="secondary" onClick={() => handleReviewVoid(pending.id, false)}>Reject</Button>
+                    <Button size="sm" variant="danger" onClick={() => handleReviewVoid(pending.id, true)}>Approve</Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
       <Card>
         <CardContent>
           {loading ? <p className="py-12 text-center">Loading sales...</p> : sales.length === 0 ? (
@@ -203,12 +396,70 @@ export default function Sales({ businessId, businessType }: SalesPageProps) {
                   <TableRow key={sale.id}>
                     <TableCell>
                       <div className="font-medium text-primary-600 dark:text-primary-400">{sale.receipt_number}</div>
+                      {(sale.customer_name || sale.customer_phone) && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{sale.customer_name || sale.customer_phone}</div>
+                      )}
+                      {sale.sale_returns.some(r => r.return_type === 'void' && r.status === 'completed') ? (
+                        <Badge variant="danger">Voided</Badge>
+                      ) : sale.sale_returns.some(r => r.status === 'pending_approval') ? (
+                        <Badge variant="warning">Void pending</Badge>
+                      ) : sale.sale_returns.some(r => r.status === 'completed') && (
+                        <Badge variant="warning">Returned KSh {sale.sale_returns.filter(r => r.status === 'completed').reduce((acc, r) => acc + r.total_amount, 0).toLocaleString()}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{format(new Date(sale.created_at), 'MMM dd, yyyy')}</div>
+                      {hasMultipleBranches && <div className="text-xs text-gray-500 dark:text-gray-400">{branches.find(b => b.id === sale.branch_id)?.name}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {sale.sale_payments.length > 0 ? sale.sale_payments.map(payment => (
+                          <Badge key={payment.id}>{tenderLabels[payment.method]} {payment.amount.toLocaleString()}</Badge>
+                        )) : <Badge>{sale.payment_method}</Badge>}
+                      </div>
+                      {sale.mpesa_code && <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{sale.mpesa_code}</div>}
                     </TableCell>
-                    <TableCell>{format(new Date(sale.created_at), 'MMM dd, yyyy')}</TableCell>
-                    <TableCell><Badge>{sale.payment_method}</Badge></TableCell>
                     <TableCell>KSh {sale.total_amount.toLocaleString()}</TableCell>
                     <TableCell className="text-right">
-                      <Button variant="ghost" size="sm" icon={<MoreVertical />} />
+                      <Menu as="div" className="relative inline-block text-left">
+                        <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
+                        <Transition
+                          as={React.Fragment}
+                          enter="transition ease-out duration-100"
+                          enterFrom="transform opacity-0 scale-95"
+                          enterTo="transform opacity-100 scale-100"
+                          leave="transition ease-in duration-75"
+                          leaveFrom="transform opacity-100 scale-100"
+                          leaveTo="transform opacity-0 scale-95"
+                        >
+                          <Menu.Items className="absolute right-0 z-10 mt-2 w-40 origin-top-right divide-y divide-gray-100 dark:divide-gray-700 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                            <div className="px-1 py-1">
+                              <Menu.Item>
+                                {({ active }) => (
+                                  <button
+                                    onClick={() => setReceiptSaleId(sale.id)}
+                                    className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                  >
+                                    <ReceiptText className="mr-2 h-4 w-4" />
+                                    View Receipt
+                                  </button>
+                                )}
+                              </Menu.Item>
+                              <Menu.Item>
+                                {({ active }) => (
+                                  <button
+                                    onClick={() => setReturningSale(sale)}
+                                    className={`${active ? 'bg-red-100 dark:bg-red-700' : ''} text-red-700 dark:text-red-400 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                  >
+                                    <Undo2 className="mr-2 h-4 w-4" />
+                                    Return / Void
+                                  </button>
+                                )}
+                              </Menu.Item>
+                            </div>
+                          </Menu.Items>
+                        </Transition>
+                      </Menu>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -218,8 +469,8 @@ export default function Sales({ businessId, businessType }: SalesPageProps) {
         </CardContent>
       </Card>
 
-      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title="Record New Sale">
-        <form onSubmit={handleCreateSale} className="space-y-4">
+      <Modal isOpen={isModalOpen} onClose={closeSaleModal} title="Record New Sale">
+        <form onSubmit={isLayaway ? handleCreateLayaway : handleCreateSale} className="space-y-4">
           {isScannerOpen ? (
             <div>
               <BarcodeScanner onScanSuccess={handleScanSuccess} />
@@ -231,7 +482,7 @@ export default function Sales({ businessId, businessType }: SalesPageProps) {
               <div className="flex space-x-2">
                 <select value={selectedProduct} onChange={(e) => setSelectedProduct(e.target.value)} className="flex-grow px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white">
                   <option value="" disabled>Select a product</option>
-                  {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  {products.map(p => <option key={p.id} value={p.id}>{p.name}{p.is_bundle ? ' (bundle)' : ''}</option>)}
                 </select>
                 <Button type="button" onClick={handleSelectProduct}>Add</Button>
                 {businessType === 'supermarket' && (
@@ -243,16 +494,114 @@ export default function Sales({ businessId, businessType }: SalesPageProps) {
           
           {saleItems.length > 0 && (
             <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
-              {saleItems.map(item => (
-                <div key={item.product_id} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg">
-                  <span className="text-sm font-medium">{item.name}</span>
-                  <div className="flex items-center space-x-2">
-                    <Input type="number" value={item.quantity} onChange={(e) => handleItemQuantityChange(item.product_id, parseInt(e.target.value))} className="w-16 text-center" />
-                    <span className="text-sm">x KSh {item.unit_price.toLocaleString()}</span>
-                    <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => handleRemoveItem(item.product_id)} />
+              {discountedItems.map(item => {
+                const itemErrors = lineErrors.filter(lineError => lineError.product_id === item.product_id || lineError.bundle_ids?.includes(item.product_id));
+                const units = products.find(p => p.id === item.product_id)?.product_units?.filter(u => u.is_active) ?? [];
+                return (
+                  <div key={item.key} className={`bg-gray-50 dark:bg-gray-700/50 p-2 rounded-lg ${itemErrors.length > 0 ? 'ring-1 ring-red-500' : ''}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">{item.name}</span>
+                      <div className="flex items-center space-x-2">
+                        <Input type="number" min="0" step={item.is_weighed ? '0.001' : '1'} value={item.quantity} onChange={(e) => setItemQuantity(item.key, parseFloat(e.target.value))} className="w-20 text-center" />
+                        {units.length > 0 && (
+                          <select value={item.product_unit_id ?? ''} onChange={(e) => setItemUnit(item.key, e.target.value)} className="px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white">
+                            <option value="">{products.find(p => p.id === item.product_id)?.unit || 'unit'}</option>
+                            {units.map(u => <option key={u.id} value={u.id}>{u.name} ({u.conversion_factor})</option>)}
+                          </select>
+                        )}
+                        {canOverridePrice ? (
+                          <>
+                            <span className="text-sm">x KSh</span>
+                            <Input type="number" min="0" step="0.01" value={item.unit_price} onChange={(e) => setItemPrice(item.key, parseFloat(e.target.value))} className="w-24 text-center" />
+                          </>
+                        ) : (
+                          <span className="text-sm">x KSh {item.unit_price.toLocaleString()}</span>
+                        )}
+                        <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => removeItem(item.key)} />
+                      </div>
+                    </div>
+                    {(item.promotion || maxDiscountPercent > 0) && (
+                      <div className="mt-1 flex items-center justify-between text-xs">
+                        <span className="flex items-center text-green-600 dark:text-green-400">
+                          {item.promotion && (
+                            <>
+                              <Tag className="mr-1 h-3 w-3" />
+                              {item.promotion.name}: -KSh {item.promotionDiscount.toLocaleString()}
+                            </>
+                          )}
+                        </span>
+                        {maxDiscountPercent > 0 && (
+                          <div className="flex items-center space-x-1">
+                            <span className="text-gray-500 dark:text-gray-400">Discount</span>
+                            <Input type="number" min="0" step="0.01" value={item.discount_value || ''} onChange={(e) => setItemDiscount(item.key, { discount_value: parseFloat(e.target.value) || 0 })} className="w-20 text-center" />
+                            <select value={item.discount_type} onChange={(e) => setItemDiscount(item.key, { discount_type: e.target.value as DiscountType })} className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white">
+                              <option value="percent">%</option>
+                              <option value="amount">KSh</option>
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {item.discountAmount > 0 && (
+                      <div className="mt-1 flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                        <span>KSh {item.gross.toLocaleString()} less KSh {item.discountAmount.toLocaleString()}</span>
+                        <span className="font-medium text-gray-900 dark:text-white">KSh {round2(item.gross - item.discountAmount).toLocaleString()}</span>
+                      </div>
+                    )}
+                    {itemsOverDiscountLimit.includes(item) && (
+                      <p className="mt-1 text-xs text-red-600 dark:text-red-400">Discount is above your limit of {maxDiscountPercent}%</p>
+                    )}
+                    {itemErrors.map(lineError => (
+                      <p key={`${lineError.code}:${lineError.product_id}`} className="mt-1 text-xs text-red-600 dark:text-red-400">{describeLineError(lineError)}</p>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Customer{hasAccountTender || isLayaway ? '' : ' (optional)'}</label>
+            <div className="flex space-x-2">
+              <Input type="tel" placeholder="Phone number" value={customerPhone} onChange={(e) => { setCustomerPhone(e.target.value); setMatchedCustomer(null); }} onBlur={lookupCustomer} disabled={processing} />
+              <Input placeholder="Name" value={customerName} onChange={(e) => setCustomerName(e.target.value)} disabled={processing} />
+            </div>
+            {matchedCustomer && (
+              <p className="text-xs text-green-600 dark:text-green-400">Returning customer{matchedCustomer.name ? `: ${matchedCustomer.name}` : ''}</p>
+            )}
+            {hasAccountTender && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {matchedCustomer
+                  ? `Owes KSh ${customerBalance.toLocaleString()}. Credit available: KSh ${Math.max(matchedCustomer.credit_limit - customerBalance, 0).toLocaleString()}`
+                  : 'Sales on account need a customer with a credit limit.'}
+              </p>
+            )}
+          </div>
+
+          {saleItems.length > 0 && (maxDiscountPercent > 0 || totalDiscount > 0) && (
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500 dark:text-gray-400">Subtotal</span>
+                <span>KSh {subtotal.toLocaleString()}</span>
+              </div>
+              {maxDiscountPercent > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-500 dark:text-gray-400">Basket discount</span>
+                  <div className="flex items-center space-x-1">
+                    <Input type="number" min="0" step="0.01" value={basketDiscountValue || ''} onChange={(e) => setBasketDiscountValue(parseFloat(e.target.value) || 0)} disabled={processing} className="w-24 text-center" />
+                    <select value={basketDiscountType} onChange={(e) => setBasketDiscountType(e.target.value as DiscountType)} disabled={processing} className="px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white">
+                      <option value="percent">%</option>
+                      <option value="amount">KSh</option>
+                    </select>
                   </div>
                 </div>
-              ))}
+              )}
+              {totalDiscount > 0 && (
+                <div className="flex justify-between text-green-600 dark:text-green-400">
+                  <span>Discounts</span>
+                  <span>-KSh {totalDiscount.toLocaleString()}</span>
+                </div>
+              )}
             </div>
           )}
 
@@ -261,12 +610,96 @@ export default function Sales({ businessId, businessType }: SalesPageProps) {
             <span className="text-lg font-bold">KSh {totalSaleAmount.toLocaleString()}</span>
           </div>
 
+          {businessType === 'hardware' && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={isLayaway} onChange={(e) => setIsLayaway(e.target.checked)} disabled={processing} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+              <span>Reserve as layaway: take a deposit now and hand over the goods once paid in full</span>
+            </label>
+          )}
+
+          {isLayaway ? (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Deposit</label>
+              <div className="flex items-center space-x-2">
+                <select value={deposit.method} onChange={(e) => setDeposit({ ...deposit, method: e.target.value as LayawayPaymentMethod })} disabled={processing} className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white">
+                  {(Object.keys(layawayPaymentMethodLabels) as LayawayPaymentMethod[]).map(m => <option key={m} value={m}>{layawayPaymentMethodLabels[m]}</option>)}
+                </select>
+                <Input type="number" min="0.01" step="0.01" placeholder="Amount" value={deposit.amount} onChange={(e) => setDeposit({ ...deposit, amount: e.target.value })} disabled={processing} required />
+                {deposit.method !== 'cash' && (
+                  <Input placeholder={deposit.method === 'mpesa' ? 'M-Pesa code' : 'Card ref.'} value={deposit.reference} onChange={(e) => setDeposit({ ...deposit, reference: e.target.value })} disabled={processing} required={deposit.method === 'mpesa'} />
+                )}
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500 dark:text-gray-400">Balance to pay before collection</span>
+                <span>KSh {Math.max(round2(totalSaleAmount - (parseFloat(deposit.amount) || 0)), 0).toLocaleString()}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Payment</label>
+                {unusedMethods.length > 0 && (
+                  <Button type="button" variant="ghost" size="sm" onClick={addTender} disabled={processing}>Add Tender</Button>
+                )}
+              </div>
+              {tenders.map((tender, index) => (
+                <div key={tender.method} className="flex items-center space-x-2">
+                  <select value={tender.method} onChange={(e) => setTender(index, { method: e.target.value as PaymentMethod })} disabled={processing} className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white">
+                    {(Object.keys(tenderLabels) as PaymentMethod[])
+                      .filter(m => m === tender.method || unusedMethods.includes(m))
+                      .map(m => <option key={m} value={m}>{tenderLabels[m]}</option>)}
+                  </select>
+                  <Input type="number" min="0" step="0.01" placeholder={tender.method === 'cash' ? 'Cash received' : 'Amount'} value={tender.amount} onChange={(e) => setTender(index, { amount: e.target.value })} disabled={processing} />
+                  {tender.method === 'card' && (
+                    <Input placeholder="Card ref." value={tender.reference} onChange={(e) => setTender(index, { reference: e.target.value })} disabled={processing} />
+                  )}
+                  {tenders.length > 1 && (
+                    <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => removeTender(index)} disabled={processing} />
+                  )}
+                </div>
+              ))}
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500 dark:text-gray-400">Balance due</span>
+                <span className={tenderSummary.balance > 0 ? 'font-medium text-red-600 dark:text-red-400' : ''}>KSh {tenderSummary.balance.toLocaleString()}</span>
+              </div>
+              {tenderSummary.change > 0 && (
+                <div className="flex justify-between text-sm font-medium text-green-600 dark:text-green-400">
+                  <span>Change</span>
+                  <span>KSh {tenderSummary.change.toLocaleString()}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {!isLayaway && !isOnline && hasMpesaTender && (
+            <p className="text-sm text-red-600 dark:text-red-400">M-Pesa is unavailable offline. Take cash or card instead.</p>
+          )}
+
+          {!isLayaway && hasMpesaTender && isOnline && (
+            <Input type="tel" placeholder="Customer M-Pesa number (e.g., 0712345678)" value={mpesaPhone} onChange={(e) => setMpesaPhone(e.target.value)} disabled={processing} required />
+          )}
+
+          {mpesaStatus && (
+            <p className="text-sm text-center text-primary-600 dark:text-primary-400">{mpesaStatus}</p>
+          )}
+
           <div className="flex justify-end space-x-2 pt-4">
-            <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)}>Cancel</Button>
-            <Button type="submit" disabled={saleItems.length === 0}>Complete Sale</Button>
+            <Button type="button" variant="secondary" onClick={closeSaleModal}>Cancel</Button>
+            {isLayaway ? (
+              <Button type="submit" disabled={saleItems.length === 0 || processing || !isOnline || itemsOverDiscountLimit.length > 0}>
+                {processing ? 'Processing...' : 'Reserve Goods'}
+              </Button>
+            ) : (
+              <Button type="submit" disabled={saleItems.length === 0 || processing || !tenderSummary.isValid || itemsOverDiscountLimit.length > 0}>
+                {processing ? (hasMpesaTender ? 'Awaiting M-Pesa...' : 'Processing...') : 'Complete Sale'}
+              </Button>
+            )}
           </div>
         </form>
       </Modal>
+
+      <ReceiptModal saleId={receiptSaleId} onClose={() => setReceiptSaleId(null)} />
+      <ReturnModal sale={returningSale} isManager={isManager} onClose={() => setReturningSale(null)} onReturned={handleReturned} />
     </div>
   );
 }
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, type Business, type Profile } from '../lib/supabase';
+import { supabase, type Business, type Profile, type ScaleBarcodeFormat } from '../lib/supabase';
+import { SCALE_BARCODE_PREFIXES } from '../lib/barcodes';
 import PageHeader from '../components/PageHeader';
 import { Card, CardHeader, CardContent, CardFooter } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
+import { Trash2 } from 'lucide-react';
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white';
 
 interface SettingsPageProps {
   business: Business | null;
@@ -14,12 +18,28 @@ interface SettingsPageProps {
 export default function Settings({ business, onBusinessUpdate }: SettingsPageProps) {
   const { user, profile, loading: authLoading } = useAuth();
   const [businessDetails, setBusinessDetails] = useState<Partial<Business>>({});
+  const [taxDetails, setTaxDetails] = useState<Pick<Business, 'vat_registered' | 'kra_pin' | 'prices_include_vat' | 'etims_enabled'>>({
+    vat_registered: false,
+    kra_pin: '',
+    prices_include_vat: true,
+    etims_enabled: false,
+  });
+  const [scaleFormats, setScaleFormats] = useState<ScaleBarcodeFormat[]>([]);
+  const [layawayDays, setLayawayDays] = useState('30');
   const [profileDetails, setProfileDetails] = useState<Partial<Profile>>({});
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     if (business) {
       setBusinessDetails({ name: business.name, phone: business.phone });
+      setTaxDetails({
+        vat_registered: business.vat_registered,
+        kra_pin: business.kra_pin || '',
+        prices_include_vat: business.prices_include_vat,
+        etims_enabled: business.etims_enabled,
+      });
+      setScaleFormats(business.scale_barcode_formats ?? []);
+      setLayawayDays(String(business.layaway_days ?? 30));
     }
     if (profile) {
       setProfileDetails({ full_name: profile.full_name, email: profile.email });
@@ -53,6 +73,96 @@ export default function Settings({ business, onBusinessUpdate }: SettingsPagePro
     }
   };
 
+  const handleTaxSave = async () => {
+    if (!business) return;
+    if (taxDetails.vat_registered && !taxDetails.kra_pin?.trim()) {
+      alert('Enter the KRA PIN of a VAT-registered business.');
+      return;
+    }
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('businesses')
+        .update({
+          vat_registered: taxDetails.vat_registered,
+          kra_pin: taxDetails.kra_pin?.trim().toUpperCase() || null,
+          prices_include_vat: taxDetails.prices_include_vat,
+          etims_enabled: taxDetails.vat_registered && taxDetails.etims_enabled,
+        })
+        .eq('id', business.id);
+      if (error) throw error;
+      onBusinessUpdate();
+      alert('Tax settings updated!');
+    } catch (error) {
+      console.error(error);
+      alert('Failed to update tax settings.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateScaleFormat = (index: number, changes: Partial<ScaleBarcodeFormat>) => {
+    setScaleFormats(prev => prev.map((format, i) => i === index ? { ...format, ...changes } : format));
+  };
+
+  const addScaleFormat = () => {
+    const prefix = SCALE_BARCODE_PREFIXES.find(p => !scaleFormats.some(format => format.prefix === p));
+    if (!prefix) return;
+    setScaleFormats(prev => [...prev, { prefix, embedded: 'weight', plu_length: 5, decimals: 3 }]);
+  };
+
+  // Prefix, PLU and value share the 12 digits before the check digit, so the value needs at least one of them
+  const handleScaleFormatsSave = async () => {
+    if (!business) return;
+    if (new Set(scaleFormats.map(format => format.prefix)).size !== scaleFormats.length) {
+      alert('Each label prefix can only be used once.');
+      return;
+    }
+    if (scaleFormats.some(format => format.plu_length < 1 || format.prefix.length + format.plu_length > 11 || format.decimals < 0 || format.decimals > 3)) {
+      alert('PLUs need 1 to 9 digits, and values 0 to 3 decimal places.');
+      return;
+    }
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('businesses')
+        .update({ scale_barcode_formats: scaleFormats })
+        .eq('id', business.id);
+      if (error) throw error;
+      onBusinessUpdate();
+      alert('Scale label settings updated!');
+    } catch (error) {
+      console.error(error);
+      alert('Failed to update scale label settings.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLayawaySave = async () => {
+    if (!business) return;
+    const days = parseInt(layawayDays);
+    if (!(days > 0)) {
+      alert('The layaway period must be at least one day.');
+      return;
+    }
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('businesses')
+        .update({ layaway_days: days })
+        .eq('id', business.id);
+      if (error) throw error;
+      onBusinessUpdate();
+      alert('Layaway settings updated!');
+    } catch (error) {
+      console.error(error);
+      alert('Failed to update layaway settings.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleProfileSave = async () => {
     if (!user) return;
     setLoading(true);
@@ -103,6 +213,109 @@ export default function Settings({ business, onBusinessUpdate }: SettingsPagePro
           </CardFooter>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">VAT &amp; eTIMS</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">How VAT is charged at the till and reported to KRA.</p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={taxDetails.vat_registered} onChange={(e) => setTaxDetails(prev => ({ ...prev, vat_registered: e.target.checked }))} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+              <span>Registered for VAT</span>
+            </label>
+            {taxDetails.vat_registered && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">KRA PIN</label>
+                  <Input value={taxDetails.kra_pin || ''} onChange={(e) => setTaxDetails(prev => ({ ...prev, kra_pin: e.target.value }))} placeholder="P051234567X" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Selling prices</label>
+                  <select
+                    value={taxDetails.prices_include_vat ? 'inclusive' : 'exclusive'}
+                    onChange={(e) => setTaxDetails(prev => ({ ...prev, prices_include_vat: e.target.value === 'inclusive' }))}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                  >
+                    <option value="inclusive">Include VAT</option>
+                    <option value="exclusive">Exclude VAT (VAT is added at the till)</option>
+                  </select>
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={taxDetails.etims_enabled} onChange={(e) => setTaxDetails(prev => ({ ...prev, etims_enabled: e.target.checked }))} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+                  <span>Sign receipts with KRA eTIMS</span>
+                </label>
+              </>
+            )}
+          </CardContent>
+          <CardFooter>
+            <Button onClick={handleTaxSave} disabled={loading}>{loading ? 'Saving...' : 'Save Changes'}</Button>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Scale Labels</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">The barcodes your weighing scales print: a prefix, the product's PLU, then the weight in kilos or the price.</p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {scaleFormats.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No scale labels set up. Weighed items can still be rung up by typing their weight.</p>
+            )}
+            {scaleFormats.map((format, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Prefix</label>
+                  <select value={format.prefix} onChange={(e) => updateScaleFormat(index, { prefix: e.target.value })} className={selectClasses}>
+                    {SCALE_BARCODE_PREFIXES.map(prefix => <option key={prefix} value={prefix}>{prefix}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Carries</label>
+                  <select value={format.embedded} onChange={(e) => updateScaleFormat(index, { embedded: e.target.value as ScaleBarcodeFormat['embedded'] })} className={selectClasses}>
+                    <option value="weight">Weight</option>
+                    <option value="price">Price</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">PLU digits</label>
+                  <Input type="number" min="1" max="9" value={format.plu_length} onChange={(e) => updateScaleFormat(index, { plu_length: parseInt(e.target.value) || 0 })} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Decimal places</label>
+                  <Input type="number" min="0" max="3" value={format.decimals} onChange={(e) => updateScaleFormat(index, { decimals: parseInt(e.target.value) || 0 })} />
+                </div>
+                <div className="flex items-center justify-between md:justify-end gap-2">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{format.prefix}{'P'.repeat(Math.max(format.plu_length, 0))}{'V'.repeat(Math.max(12 - format.prefix.length - format.plu_length, 0))}C</span>
+                  <Button type="button" variant="ghost" size="sm" icon={<Trash2 className="h-4 w-4 text-red-500" />} onClick={() => setScaleFormats(prev => prev.filter((_, i) => i !== index))} />
+                </div>
+              </div>
+            ))}
+            {scaleFormats.length < SCALE_BARCODE_PREFIXES.length && (
+              <Button type="button" variant="secondary" size="sm" onClick={addScaleFormat}>Add Label Layout</Button>
+            )}
+          </CardContent>
+          <CardFooter>
+            <Button onClick={handleScaleFormatsSave} disabled={loading}>{loading ? 'Saving...' : 'Save Changes'}</Button>
+          </CardFooter>
+        </Card>
+
+        {business?.business_type === 'hardware' && (
+          <Card>
+            <CardHeader>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Layaways</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">How long customers have to pay off goods reserved with a deposit. Unpaid layaways then expire and the goods go back on sale.</p>
+            </CardHeader>
+            <CardContent>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Layaway period (days)</label>
+              <Input type="number" min="1" step="1" value={layawayDays} onChange={(e) => setLayawayDays(e.target.value)} />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Applies to layaways taken from now on.</p>
+            </CardContent>
+            <CardFooter>
+              <Button onClick={handleLayawaySave} disabled={loading}>{loading ? 'Saving...' : 'Save Changes'}</Button>
+            </CardFooter>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Account Settings</h3>
@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type CashShift, type CashMovementType } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useStaffRole } from '../hooks/useStaffRole';
+import { useBranches } from '../hooks/useBranches';
+import { cashMovementLabels } from '../lib/shifts';
+import PageHeader from '../components/PageHeader';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
+import { Badge } from '../components/ui/Badge';
+import { Modal } from '../components/ui/Modal';
+import { ShiftReportModal } from '../components/shifts/ShiftReportModal';
+import { CloseShiftModal } from '../components/shifts/CloseShiftModal';
+import { BranchSelect } from '../components/branches/BranchSelect';
+import { FileText, Lock, ArrowDownCircle, ArrowUpCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ShiftsPageProps {
+  businessId: string;
+}
+
+// Closing counts are only readable by managers, so cashiers get an empty cash_shift_tenders list
+type ShiftRow = CashShift & {
+  profiles: { full_name: string | null; email: string } | null;
+  cash_shift_tenders: { method: string; expected_amount: number; counted_amount: number | null }[];
+};
+
+export default function Shifts({ businessId }: ShiftsPageProps) {
+  const { user } = useAuth();
+  const { isManager } = useStaffRole(businessId);
+  const { branches, activeBranches, hasMultipleBranches } = useBranches(businessId);
+  const [shifts, setShifts] = useState<ShiftRow[]>([]);
+  const [businessName, setBusinessName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [openingFloat, setOpeningFloat] = useState('');
+  // Empty means the staff member's home branch
+  const [shiftBranchId, setShiftBranchId] = useState('');
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+  const [movementForm, setMovementForm] = useState({ amount: '', reason: '' });
+  const [closingShift, setClosingShift] = useState<CashShift | null>(null);
+  const [reportShiftId, setReportShiftId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchShifts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [{ data, error }, { data: business }] = await Promise.all([
+        supabase
+          .from('cash_shifts')
+          .select('*, profiles(full_name, email), cash_shift_tenders(method, expected_amount, counted_amount)')
+          .eq('business_id', businessId)
+          .order('opened_at', { ascending: false })
+          .limit(100),
+        supabase.from('businesses').select('name').eq('id', businessId).single(),
+      ]);
+      if (error) throw error;
+      setShifts(data as ShiftRow[] || []);
+      setBusinessName(business?.name || '');
+    } catch (error) {
+      console.error('Error fetching shifts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchShifts();
+    }
+  }, [businessId, fetchShifts]);
+
+  const myOpenShift = shifts.find(s => s.cashier_id === user?.id && s.status === 'open') ?? null;
+
+  const handleOpenShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('open_cash_shift', {
+        p_business_id: businessId,
+        p_opening_float: parseFloat(openingFloat) || 0,
+        p_branch_id: shiftBranchId || null,
+      });
+      if (error) throw error;
+      setOpeningFloat('');
+      await fetchShifts();
+    } catch (error) {
+      console.error('Error opening shift:', error);
+      alert(`Failed to open shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRecordMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!myOpenShift || !movementType) return;
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('record_cash_movement', {
+        p_shift_id: myOpenShift.id,
+        p_movement_type: movementType,
+        p_amount: parseFloat(movementForm.amount),
+        p_reason: movementForm.reason,
+      });
+      if (error) throw error;
+      setMovementType(null);
+      setMovementForm({ amount: '', reason: '' });
+    } catch (error) {
+      console.error('Error recording cash movement:', error);
+      alert(`Failed to record ${movementType === 'paid_in' ? 'paid-in' : 'paid-out'}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const branchName = (branchId?: string | null) => branches.find(b => b.id === branchId)?.name ?? '-';
+
+  const cashVariance = (shift: ShiftRow) => {
+    const cash = shift.cash_shift_tenders.find(t => t.method === 'cash');
+    return cash && cash.counted_amount != null ? cash.counted_amount - cash.expected_amount : null;
+  };
+
+  return (
+    <div>
+      <PageHeader title="Cash Shifts" subtitle="Open a till with a float, record cash in and out, and cash up at the end of the shift." />
+
+      <Card className="mb-6">
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-6">Loading shift...</div>
+          ) : myOpenShift ? (
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">{myOpenShift.shift_number}</h3>
+                  <Badge variant="success">Open</Badge>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  Opened {format(new Date(myOpenShift.opened_at), 'dd MMM yyyy HH:mm')}{hasMultipleBranches && ` at ${branchName(myOpenShift.branch_id)}`} with a float of KSh {myOpenShift.opening_float.toLocaleString()}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="secondary" icon={<ArrowDownCircle />} onClick={() => setMovementType('paid_in')}>Paid In</Button>
+                <Button variant="secondary" icon={<ArrowUpCircle />} onClick={() => setMovementType('paid_out')}>Paid Out</Button>
+                <Button variant="secondary" icon={<FileText />} onClick={() => setReportShiftId(myOpenShift.id)}>X Report</Button>
+                <Button icon={<Lock />} onClick={() => setClosingShift(myOpenShift)}>Close Shift</Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleOpenShift} className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="flex-1">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">You have no open shift</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Count the float into the drawer and open a shift before you start selling.</p>
+              </div>
+              {hasMultipleBranches && (
+                <div className="w-full md:w-56">
+                  <BranchSelect branches={activeBranches} value={shiftBranchId} onChange={setShiftBranchId} emptyLabel="My home branch" />
+                </div>
+              )}
+              <div className="w-full md:w-48">
+                <Input type="number" min="0" step="0.01" placeholder="Opening float (KSh)" value={openingFloat} onChange={(e) => setOpeningFloat(e.target.value)} required />
+              </div>
+              <Button type="submit" disabled={submitting}>{submitting ? 'Opening...' : 'Open Shift'}</Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{isManager ? 'All Shifts' : 'My Shifts'}</h3>
+          {loading ? (
+            <div className="text-center py-12">Loading shifts...</div>
+          ) : shifts.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No shifts yet</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Shifts appear here once a cashier opens one.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Shift</TableHead>
+                <TableHead>Cashier</TableHead>
+                {hasMultipleBranches && <TableHead>Branch</TableHead>}
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Status</TableHead>
+                {isManager && <TableHead>Cash Over / Short</TableHead>}
+                <TableHead><span className="sr-only">Report</span></TableHead>
+              </TableHeader>
+              <TableBody>
+                {shifts.map(shift => {
+                  const variance = cashVariance(shift);
+                  return (
+                    <TableRow key={shift.id}>
+                      <TableCell><div className="font-medium">{shift.shift_number}</div></TableCell>
+                      <TableCell>{shift.profiles?.full_name || shift.profiles?.email || 'Unknown'}</TableCell>
+                      {hasMultipleBranches && <TableCell>{branchName(shift.branch_id)}</TableCell>}
+                      <TableCell>{format(new Date(shift.opened_at), 'dd MMM yyyy HH:mm')}</TableCell>
+                      <TableCell>{shift.closed_at ? format(new Date(shift.closed_at), 'dd MMM yyyy HH:mm') : '-'}</TableCell>
+                      <TableCell><Badge variant={shift.status === 'open' ? 'success' : 'default'}>{shift.status === 'open' ? 'Open' : 'Closed'}</Badge></TableCell>
+                      {isManager && (
+                        <TableCell>
+                          {variance == null ? '-' : (
+                            <Badge variant={variance === 0 ? 'success' : variance > 0 ? 'warning' : 'danger'}>
+                              {variance === 0 ? 'Balanced' : `${variance > 0 ? 'Over' : 'Short'} KSh ${Math.abs(variance).toLocaleString()}`}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      )}
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" icon={<FileText className="h-4 w-4" />} onClick={() => setReportShiftId(shift.id)}>
+                          {shift.status === 'open' ? 'X Report' : 'Z Report'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={!!movementType} onClose={() => setMovementType(null)} title={movementType ? cashMovementLabels[movementType] : ''}>
+        <form onSubmit={handleRecordMovement} className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {movementType === 'paid_in' ? 'Cash put into the drawer that is not a sale, e.g. extra change.' : 'Cash taken out of the drawer that is not a refund, e.g. a supplier paid in cash or a cash drop to the safe.'}
+          </p>
+          <Input type="number" min="0.01" step="0.01" placeholder="Amount (KSh)" value={movementForm.amount} onChange={(e) => setMovementForm(prev => ({ ...prev, amount: e.target.value }))} required />
+          <Input placeholder="Reason" value={movementForm.reason} onChange={(e) => setMovementForm(prev => ({ ...prev, reason: e.target.value }))} required />
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setMovementType(null)}>Cancel</Button>
+            <Button type="submit" disabled={submitting}>{submitting ? 'Saving...' : 'Record'}</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <CloseShiftModal
+        shift={closingShift}
+        onClose={() => setClosingShift(null)}
+        onClosed={(shiftId) => {
+          setClosingShift(null);
+          fetchShifts();
+          setReportShiftId(shiftId);
+        }}
+      />
+      <ShiftReportModal shiftId={reportShiftId} businessName={businessName} onClose={() => setReportShiftId(null)} />
+    </div>
+  );
+}
@@ -6,9 +6,11 @@ import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
 import { Modal } from '../components/ui/Modal';
 import { Input } from '../components/ui/Input';
-import { PlusIcon, UserCircle, MoreVertical, ToggleLeft, ToggleRight } from 'lucide-react';
+import { PlusIcon, UserCircle, MoreVertical, ToggleLeft, ToggleRight, Tag } from 'lucide-react';
 import { Menu, Transition } from '@headlessui/react';
 import { ConfirmDeleteModal } from '../components/ui/ConfirmDeleteModal';
+import { BranchSelect } from '../components/branches/BranchSelect';
+import { useBranches } from '../hooks/useBranches';
 
 interface StaffPageProps {
   businessId: string;
@@ -19,6 +21,7 @@ type StaffMember = StaffRoleType & {
 };
 
 export default function Staff({ businessId }: StaffPageProps) {
+  const { activeBranches, hasMultipleBranches } = useBranches(businessId);
   const [staff, setStaff] = useState<StaffMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
@@ -96,6 +99,39 @@ export default function Staff({ businessId }: StaffPageProps) {
     }
   };
 
+  // Owners and managers can always change prices at checkout; other staff need this permission.
+  const handleTogglePriceOverride = async (staffMember: StaffMember) => {
+    try {
+      const permissions = { ...staffMember.permissions, price_override: !staffMember.permissions?.price_override };
+      const { error } = await supabase
+        .from('staff_roles')
+        .update({ permissions })
+        .eq('id', staffMember.id);
+
+      if (error) throw error;
+      setStaff(prev => prev.map(s => s.id === staffMember.id ? { ...s, permissions } : s));
+    } catch (error) {
+      console.error('Error updating staff permissions:', error);
+      alert(`Failed to update permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Sales and shifts fall back to a staff member's home branch when they have no open shift elsewhere.
+  const handleHomeBranchChange = async (staffMember: StaffMember, branchId: string) => {
+    try {
+      const { error } = await supabase
+        .from('staff_roles')
+        .update({ branch_id: branchId || null })
+        .eq('id', staffMember.id);
+
+      if (error) throw error;
+      setStaff(prev => prev.map(s => s.id === staffMember.id ? { ...s, branch_id: branchId || null } : s));
+    } catch (error) {
+      console.error('Error updating home branch:', error);
+      alert(`Failed to update home branch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const staffRoles: StaffRoleType['role'][] = ['manager', 'cashier', 'accountant', 'teacher', 'front_desk', 'housekeeper'];
 
   return (
@@ -135,14 +171,25 @@ export default function Staff({ businessId }: StaffPageProps) {
                     </div>
                   </div>
                   <div className="flex items-center space-x-4">
+                    {hasMultipleBranches && (
+                      <div className="w-44">
+                        <BranchSelect
+                          branches={activeBranches}
+                          value={staffMember.branch_id ?? ''}
+                          onChange={(branchId) => handleHomeBranchChange(staffMember, branchId)}
+                          emptyLabel="Default branch"
+                        />
+                      </div>
+                    )}
                     <Badge>{staffMember.role}</Badge>
+                    {staffMember.permissions?.price_override && <Badge variant="warning">Price override</Badge>}
                     <Badge variant={staffMember.is_active ? 'success' : 'danger'}>
                       {staffMember.is_active ? 'Active' : 'Inactive'}
                     </Badge>
                      <Menu as="div" className="relative inline-block text-left">
                         <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
                         <Transition as={React.Fragment} enter="transition ease-out duration-100" enterFrom="transform opacity-0 scale-95" enterTo="transform opacity-100 scale-100" leave="transition ease-in duration-75" leaveFrom="transform opacity-100 scale-100" leaveTo="transform opacity-0 scale-95">
-                          <Menu.Items className="absolute right-0 z-10 mt-2 w-40 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                          <Menu.Items className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
                             <div className="px-1 py-1">
                               <Menu.Item>
                                 {({ active }) => (
@@ -152,6 +199,16 @@ export default function Staff({ businessId }: StaffPageProps) {
                                   </button>
                                 )}
                               </Menu.Item>
+                              {staffMember.role !== 'owner' && staffMember.role !== 'manager' && (
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button onClick={() => handleTogglePriceOverride(staffMember)} className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}>
+                                      <Tag className="mr-2 h-4 w-4" />
+                                      {staffMember.permissions?.price_override ? 'Revoke price override' : 'Allow price override'}
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                              )}
                             </div>
                           </Menu.Items>
                         </Transition>
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type StockTake, type StockTakeStatus } from '../lib/supabase';
+import { useStaffRole } from '../hooks/useStaffRole';
+import { useBranches } from '../hooks/useBranches';
+import PageHeader from '../components/PageHeader';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
+import { Badge } from '../components/ui/Badge';
+import { Modal } from '../components/ui/Modal';
+import { PlusIcon, MoreVertical, ClipboardCheck, XCircle } from 'lucide-react';
+import { Menu, Transition } from '@headlessui/react';
+import { format } from 'date-fns';
+import { StockCountModal } from '../components/inventory/StockCountModal';
+import { BranchSelect } from '../components/branches/BranchSelect';
+
+interface StockTakesPageProps {
+  businessId: string;
+}
+
+type StockTakeRow = StockTake & { stock_take_items: { counted_quantity: number | null }[] };
+
+const statusVariants: Record<StockTakeStatus, 'default' | 'success' | 'danger'> = {
+  counting: 'default',
+  posted: 'success',
+  cancelled: 'danger',
+};
+
+const statusLabels: Record<StockTakeStatus, string> = {
+  counting: 'Counting',
+  posted: 'Posted',
+  cancelled: 'Cancelled',
+};
+
+export default function StockTakes({ businessId }: StockTakesPageProps) {
+  const { isManager } = useStaffRole(businessId);
+  const { branches, activeBranches, hasMultipleBranches } = useBranches(businessId);
+  const [stockTakes, setStockTakes] = useState<StockTakeRow[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isStartModalOpen, setIsStartModalOpen] = useState(false);
+  const [startForm, setStartForm] = useState({ category: '', notes: '', branch_id: '' });
+  const [countingTake, setCountingTake] = useState<StockTake | null>(null);
+
+  const fetchStockTakes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [{ data, error }, { data: productData, error: productError }] = await Promise.all([
+        supabase
+          .from('stock_takes')
+          .select('*, stock_take_items(counted_quantity)')
+          .eq('business_id', businessId)
+          .order('created_at', { ascending: false }),
+        supabase.from('products').select('category').eq('business_id', businessId).eq('is_active', true),
+      ]);
+      if (error) throw error;
+      if (productError) throw productError;
+
+      setStockTakes(data as StockTakeRow[] || []);
+      setCategories([...new Set((productData || []).map(p => p.category).filter((c): c is string => !!c))].sort());
+    } catch (error) {
+      console.error('Error fetching stock takes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchStockTakes();
+    }
+  }, [businessId, fetchStockTakes]);
+
+  const handleStartStockTake = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { data, error } = await supabase.rpc('start_stock_take', {
+        p_business_id: businessId,
+        p_category: startForm.category || null,
+        p_notes: startForm.notes || null,
+        p_branch_id: startForm.branch_id || null,
+      });
+      if (error) throw error;
+      setIsStartModalOpen(false);
+      setStartForm({ category: '', notes: '', branch_id: '' });
+      await fetchStockTakes();
+      const { data: created } = await supabase.from('stock_takes').select('*').eq('id', data).single();
+      if (created) setCountingTake(created);
+    } catch (error) {
+      console.error('Error starting stock take:', error);
+      alert(`Failed to start stock take: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCancelStockTake = async (stockTake: StockTake) => {
+    if (!window.confirm(`Cancel ${stockTake.stock_take_number}? Counts recorded so far will not be posted.`)) return;
+    try {
+      const { error } = await supabase.rpc('cancel_stock_take', { p_stock_take_id: stockTake.id });
+      if (error) throw error;
+      await fetchStockTakes();
+    } catch (error) {
+      console.error('Error cancelling stock take:', error);
+      alert(`Failed to cancel stock take: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Stock Takes"
+        subtitle="Count what is on the shelf and post the variances to stock."
+        actions={
+          <Button icon={<PlusIcon />} onClick={() => setIsStartModalOpen(true)}>
+            Start Stock Take
+          </Button>
+        }
+      />
+      <Card>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Loading stock takes...</div>
+          ) : stockTakes.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No stock takes yet</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Start a stock take to reconcile your shelves with the system.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Number</TableHead>
+                <TableHead>Date</TableHead>
+                {hasMultipleBranches && <TableHead>Branch</TableHead>}
+                <TableHead>Category</TableHead>
+                <TableHead>Counted</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead><span className="sr-only">Actions</span></TableHead>
+              </TableHeader>
+              <TableBody>
+                {stockTakes.map(stockTake => {
+                  const counted = stockTake.stock_take_items.filter(item => item.counted_quantity !== null).length;
+                  return (
+                    <TableRow key={stockTake.id}>
+                      <TableCell><div className="font-medium">{stockTake.stock_take_number}</div></TableCell>
+                      <TableCell>{format(new Date(stockTake.created_at), 'dd MMM yyyy')}</TableCell>
+                      {hasMultipleBranches && <TableCell>{branches.find(b => b.id === stockTake.branch_id)?.name ?? '-'}</TableCell>}
+                      <TableCell>{stockTake.category || 'All products'}</TableCell>
+                      <TableCell>{counted} / {stockTake.stock_take_items.length}</TableCell>
+                      <TableCell><Badge variant={statusVariants[stockTake.status]}>{statusLabels[stockTake.status]}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        <Menu as="div" className="relative inline-block text-left">
+                          <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
+                          <Transition
+                            as={React.Fragment}
+                            enter="transition ease-out duration-100"
+                            enterFrom="transform opacity-0 scale-95"
+                            enterTo="transform opacity-100 scale-100"
+                            leave="transition ease-in duration-75"
+                            leaveFrom="transform opacity-100 scale-100"
+                            leaveTo="transform opacity-0 scale-95"
+                          >
+                            <Menu.Items className="absolute right-0 z-10 mt-2 w-44 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                              <div className="px-1 py-1">
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => setCountingTake(stockTake)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <ClipboardCheck className="mr-2 h-4 w-4" />
+                                      {stockTake.status === 'counting' ? 'Count Sheet' : 'View Counts'}
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                {stockTake.status === 'counting' && (
+                                  <Menu.Item>
+                                    {({ active }) => (
+                                      <button
+                                        onClick={() => handleCancelStockTake(stockTake)}
+                                        className={`${active ? 'bg-red-100 dark:bg-red-700' : ''} text-red-700 dark:text-red-400 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                      >
+                                        <XCircle className="mr-2 h-4 w-4" />
+                                        Cancel Stock Take
+                                      </button>
+                                    )}
+                                  </Menu.Item>
+                                )}
+                              </div>
+                            </Menu.Items>
+                          </Transition>
+                        </Menu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={isStartModalOpen} onClose={() => setIsStartModalOpen(false)} title="Start Stock Take">
+        <form onSubmit={handleStartStockTake} className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Expected quantities are captured now. Sales made while you count are kept when the variances are posted.
+          </p>
+          {hasMultipleBranches && (
+            <BranchSelect
+              branches={activeBranches}
+              value={startForm.branch_id}
+              onChange={(branchId) => setStartForm(prev => ({ ...prev, branch_id: branchId }))}
+              emptyLabel="My branch"
+            />
+          )}
+          <select
+            value={startForm.category}
+            onChange={(e) => setStartForm(prev => ({ ...prev, category: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+          >
+            <option value="">All products</option>
+            {categories.map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+          <Input placeholder="Notes (optional)" value={startForm.notes} onChange={(e) => setStartForm(prev => ({ ...prev, notes: e.target.value }))} />
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setIsStartModalOpen(false)}>Cancel</Button>
+            <Button type="submit">Start Counting</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <StockCountModal stockTake={countingTake} isManager={isManager} onClose={() => setCountingTake(null)} onChanged={fetchStockTakes} />
+    </div>
+  );
+}
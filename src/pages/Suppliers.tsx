@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, type Supplier, type SupplierPaymentMethod } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import PageHeader from '../components/PageHeader';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '../components/ui/Table';
+import { Badge } from '../components/ui/Badge';
+import { Modal } from '../components/ui/Modal';
+import { PlusIcon, MoreVertical, Pencil, Banknote } from 'lucide-react';
+import { Menu, Transition } from '@headlessui/react';
+
+interface SuppliersPageProps {
+  businessId: string;
+}
+
+interface SupplierBalance {
+  supplier_id: string;
+  received_total: number;
+  paid_total: number;
+  balance: number;
+}
+
+const paymentMethodLabels: Record<SupplierPaymentMethod, string> = {
+  cash: 'Cash',
+  mpesa: 'M-Pesa',
+  card: 'Card',
+  bank: 'Bank transfer',
+};
+
+const emptySupplierForm = { name: '', contact_person: '', phone: '', email: '', address: '', lead_time_days: '' };
+const emptyPaymentForm = { amount: '', method: 'bank' as SupplierPaymentMethod, reference: '', notes: '' };
+
+export default function Suppliers({ businessId }: SuppliersPageProps) {
+  const { user } = useAuth();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [balances, setBalances] = useState<Record<string, SupplierBalance>>({});
+  const [loading, setLoading] = useState(true);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [supplierForm, setSupplierForm] = useState(emptySupplierForm);
+
+  const [payingSupplier, setPayingSupplier] = useState<Supplier | null>(null);
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm);
+
+  const fetchSuppliers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [{ data, error }, { data: balanceData, error: balanceError }] = await Promise.all([
+        supabase.from('suppliers').select('*').eq('business_id', businessId).order('name', { ascending: true }),
+        supabase.rpc('get_supplier_balances', { p_business_id: businessId }),
+      ]);
+      if (error) throw error;
+      if (balanceError) throw balanceError;
+
+      setSuppliers(data || []);
+      setBalances(Object.fromEntries((balanceData as SupplierBalance[] || []).map(b => [b.supplier_id, b])));
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (businessId) {
+      fetchSuppliers();
+    }
+  }, [businessId, fetchSuppliers]);
+
+  const openAddModal = () => {
+    setEditingSupplier(null);
+    setSupplierForm(emptySupplierForm);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setSupplierForm({
+      name: supplier.name,
+      contact_person: supplier.contact_person || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      lead_time_days: supplier.lead_time_days != null ? String(supplier.lead_time_days) : '',
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setSupplierForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSaveSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const supplierData = { ...supplierForm, lead_time_days: supplierForm.lead_time_days === '' ? null : parseInt(supplierForm.lead_time_days) };
+    try {
+      if (editingSupplier) {
+        const { error } = await supabase
+          .from('suppliers')
+          .update({ ...supplierData, updated_at: new Date().toISOString() })
+          .eq('id', editingSupplier.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('suppliers')
+          .insert({ ...supplierData, business_id: businessId });
+        if (error) throw error;
+      }
+      await fetchSuppliers();
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      alert(`Failed to save supplier: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingSupplier || !user) return;
+    try {
+      const { error } = await supabase.from('supplier_payments').insert({
+        business_id: businessId,
+        supplier_id: payingSupplier.id,
+        amount: parseFloat(paymentForm.amount),
+        method: paymentForm.method,
+        reference: paymentForm.reference || null,
+        notes: paymentForm.notes || null,
+        paid_by: user.id,
+      });
+      if (error) throw error;
+      await fetchSuppliers();
+      setPayingSupplier(null);
+      setPaymentForm(emptyPaymentForm);
+    } catch (error) {
+      console.error('Error recording supplier payment:', error);
+      alert(`Failed to record payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const totalPayable = Object.values(balances).reduce((acc, b) => acc + b.balance, 0);
+
+  return (
+    <div>
+      <PageHeader
+        title="Suppliers"
+        subtitle={`Manage suppliers and what you owe them. Total payable: KSh ${totalPayable.toLocaleString()}`}
+        actions={
+          <Button icon={<PlusIcon />} onClick={openAddModal}>
+            Add Supplier
+          </Button>
+        }
+      />
+      <Card>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">Loading suppliers...</div>
+          ) : suppliers.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">No suppliers found</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Add a supplier before raising purchase orders.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Paid</TableHead>
+                <TableHead>Balance</TableHead>
+                <TableHead><span className="sr-only">Actions</span></TableHead>
+              </TableHeader>
+              <TableBody>
+                {suppliers.map(supplier => {
+                  const balance = balances[supplier.id];
+                  return (
+                    <TableRow key={supplier.id}>
+                      <TableCell>
+                        <div className="font-medium">{supplier.name}</div>
+                        {!supplier.is_active && <Badge variant="danger">Inactive</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <div>{supplier.contact_person || 'N/A'}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{supplier.phone}</div>
+                      </TableCell>
+                      <TableCell>KSh {(balance?.received_total || 0).toLocaleString()}</TableCell>
+                      <TableCell>KSh {(balance?.paid_total || 0).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Badge variant={(balance?.balance || 0) > 0 ? 'warning' : 'success'}>KSh {(balance?.balance || 0).toLocaleString()}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Menu as="div" className="relative inline-block text-left">
+                          <Menu.Button as={Button} variant="ghost" size="sm" icon={<MoreVertical className="h-4 w-4" />} />
+                          <Transition
+                            as={React.Fragment}
+                            enter="transition ease-out duration-100"
+                            enterFrom="transform opacity-0 scale-95"
+                            enterTo="transform opacity-100 scale-100"
+                            leave="transition ease-in duration-75"
+                            leaveFrom="transform opacity-100 scale-100"
+                            leaveTo="transform opacity-0 scale-95"
+                          >
+                            <Menu.Items className="absolute right-0 z-10 mt-2 w-44 origin-top-right rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black/5 focus:outline-none">
+                              <div className="px-1 py-1">
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => openEditModal(supplier)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Pencil className="mr-2 h-4 w-4" />
+                                      Edit
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => setPayingSupplier(supplier)}
+                                      className={`${active ? 'bg-primary-100 dark:bg-gray-700' : ''} text-gray-900 dark:text-gray-100 group flex w-full items-center rounded-md px-2 py-2 text-sm`}
+                                    >
+                                      <Banknote className="mr-2 h-4 w-4" />
+                                      Record Payment
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                              </div>
+                            </Menu.Items>
+                          </Transition>
+                        </Menu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingSupplier ? 'Edit Supplier' : 'Add Supplier'}>
+        <form onSubmit={handleSaveSupplier} className="space-y-4">
+          <Input name="name" placeholder="Supplier Name" value={supplierForm.name} onChange={handleInputChange} required />
+          <Input name="contact_person" placeholder="Contact Person" value={supplierForm.contact_person} onChange={handleInputChange} />
+          <Input name="phone" type="tel" placeholder="Phone" value={supplierForm.phone} onChange={handleInputChange} />
+          <Input name="email" type="email" placeholder="Email" value={supplierForm.email} onChange={handleInputChange} />
+          <Input name="address" placeholder="Address" value={supplierForm.address} onChange={handleInputChange} />
+          <Input name="lead_time_days" type="number" min="0" placeholder="Lead time in days (order to delivery)" value={supplierForm.lead_time_days} onChange={handleInputChange} />
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button type="submit">{editingSupplier ? 'Save Changes' : 'Add Supplier'}</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!payingSupplier} onClose={() => setPayingSupplier(null)} title={`Pay ${payingSupplier?.name ?? 'Supplier'}`}>
+        <form onSubmit={handleRecordPayment} className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Outstanding: KSh {(payingSupplier ? balances[payingSupplier.id]?.balance || 0 : 0).toLocaleString()}
+          </p>
+          <Input type="number" min="0.01" step="0.01" placeholder="Amount (KSh)" value={paymentForm.amount} onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))} required />
+          <select value={paymentForm.method} onChange={(e) => setPaymentForm(prev => ({ ...prev, method: e.target.value as SupplierPaymentMethod }))} className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-gray-800 dark:text-white">
+            {(Object.keys(paymentMethodLabels) as SupplierPaymentMethod[]).map(method => <option key={method} value={method}>{paymentMethodLabels[method]}</option>)}
+          </select>
+          <Input placeholder="Reference (optional)" value={paymentForm.reference} onChange={(e) => setPaymentForm(prev => ({ ...prev, reference: e.target.value }))} />
+          <Input placeholder="Notes (optional)" value={paymentForm.notes} onChange={(e) => setPaymentForm(prev => ({ ...prev, notes: e.target.value }))} />
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setPayingSupplier(null)}>Cancel</Button>
+            <Button type="submit">Record Payment</Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
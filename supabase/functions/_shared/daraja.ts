@@ -0,0 +1,126 @@
+// Daraja (Safaricom M-Pesa API) client used by the M-Pesa edge functions.
+//
+// The client talks to whatever host `MPESA_DARAJA_BASE_URL` points at, so the
+// local mock in `scripts/mock-daraja.js` can stand in for Safaricom during
+// development and tests.
+
+export interface StkPushRequest {
+  phone: string;
+  amount: number;
+  accountReference: string;
+  description: string;
+  callbackUrl: string;
+}
+
+export interface StkPushResponse {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  responseCode: string;
+  responseDescription: string;
+  customerMessage: string;
+}
+
+export interface DarajaClient {
+  stkPush(request: StkPushRequest): Promise<StkPushResponse>;
+}
+
+export interface DarajaConfig {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  shortCode: string;
+  passkey: string;
+}
+
+export const DARAJA_SANDBOX_URL = 'https://sandbox.safaricom.co.ke';
+
+// Converts 07XXXXXXXX, 7XXXXXXXX and +2547XXXXXXXX into the 2547XXXXXXXX form Daraja expects.
+export function normalizeMsisdn(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('254') && digits.length === 12) return digits;
+  if (digits.startsWith('0') && digits.length === 10) return `254${digits.slice(1)}`;
+  if (digits.length === 9) return `254${digits}`;
+  throw new Error(`Invalid M-Pesa phone number: ${phone}`);
+}
+
+// Daraja timestamps are YYYYMMDDHHmmss in East Africa Time (UTC+3).
+function darajaTimestamp(date = new Date()): string {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:TZ]/g, '').slice(0, 14);
+}
+
+export class HttpDarajaClient implements DarajaClient {
+  constructor(private readonly config: DarajaConfig) {}
+
+  private async getAccessToken(): Promise<string> {
+    const credentials = btoa(`${this.config.consumerKey}:${this.config.consumerSecret}`);
+    const response = await fetch(`${this.config.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+      headers: { Authorization: `Basic ${credentials}` },
+    });
+    if (!response.ok) {
+      throw new Error(`Daraja authentication failed (${response.status})`);
+    }
+    const { access_token } = await response.json();
+    return access_token;
+  }
+
+  async stkPush(request: StkPushRequest): Promise<StkPushResponse> {
+    // Daraja only takes whole shillings; rounding here would charge more than the sale records
+    if (!Number.isInteger(request.amount)) {
+      throw new Error(`M-Pesa amounts must be whole shillings, not ${request.amount}`);
+    }
+    const token = await this.getAccessToken();
+    const timestamp = darajaTimestamp();
+    const msisdn = normalizeMsisdn(request.phone);
+
+    const response = await fetch(`${this.config.baseUrl}/mpesa/stkpush/v1/processrequest`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        BusinessShortCode: this.config.shortCode,
+        Password: btoa(`${this.config.shortCode}${this.config.passkey}${timestamp}`),
+        Timestamp: timestamp,
+        TransactionType: 'CustomerPayBillOnline',
+        Amount: request.amount,
+        PartyA: msisdn,
+        PartyB: this.config.shortCode,
+        PhoneNumber: msisdn,
+        CallBackURL: request.callbackUrl,
+        AccountReference: request.accountReference.slice(0, 12),
+        TransactionDesc: request.description.slice(0, 13),
+      }),
+    });
+
+    const body = await response.json();
+    if (!response.ok || body.ResponseCode !== '0') {
+      throw new Error(body.errorMessage || body.ResponseDescription || `STK push failed (${response.status})`);
+    }
+
+    return {
+      merchantRequestId: body.MerchantRequestID,
+      checkoutRequestId: body.CheckoutRequestID,
+      responseCode: body.ResponseCode,
+      responseDescription: body.ResponseDescription,
+      customerMessage: body.CustomerMessage,
+    };
+  }
+}
+
+export function createDarajaClient(): DarajaClient {
+  const env = (name: string) => {
+    const value = Deno.env.get(name);
+    if (!value) throw new Error(`Missing ${name} environment variable`);
+    return value;
+  };
+
+  return new HttpDarajaClient({
+    baseUrl: Deno.env.get('MPESA_DARAJA_BASE_URL') || DARAJA_SANDBOX_URL,
+    consumerKey: env('MPESA_CONSUMER_KEY'),
+    consumerSecret: env('MPESA_CONSUMER_SECRET'),
+    shortCode: env('MPESA_SHORTCODE'),
+    passkey: env('MPESA_PASSKEY'),
+  });
+}
@@ -0,0 +1,83 @@
+// KRA eTIMS adapters used by the `etims-submit` edge function.
+//
+// `ETIMS_ADAPTER` picks the adapter and must be set. Only `mock` ships today: it signs
+// every invoice locally so receipts, reports and the retry flow can be exercised without
+// a KRA control unit, and has to be chosen explicitly so a deployment never signs real
+// sales with it by accident. A VSCU/OSCU integration plugs in by implementing `EtimsClient`.
+
+export type EtimsTaxClass = 'vat_standard' | 'zero_rated' | 'exempt';
+
+export interface EtimsInvoiceLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  discountAmount: number;
+  total: number;
+  taxClass: EtimsTaxClass;
+  taxRate: number;
+  taxAmount: number;
+}
+
+export interface EtimsInvoiceRequest {
+  kraPin: string;
+  invoiceNumber: string;
+  issuedAt: string;
+  customerName?: string | null;
+  lines: EtimsInvoiceLine[];
+  totalAmount: number;
+  taxAmount: number;
+}
+
+export interface EtimsInvoiceResponse {
+  cuInvoiceNumber: string;
+  qrData: string;
+}
+
+export interface EtimsClient {
+  readonly adapter: string;
+  submitInvoice(request: EtimsInvoiceRequest): Promise<EtimsInvoiceResponse>;
+}
+
+const MOCK_CU_SERIAL = 'KRAMOCK0000000001';
+const MOCK_VERIFY_URL = 'https://etims-sbx.kra.go.ke/common/link/etims/receipt/indexEtimsReceiptData';
+
+// Stable digits from the receipt number, so resubmitting a sale gets the same invoice number.
+function digest(text: string, length: number): string {
+  let hash = 2166136261;
+  for (const char of text) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619) >>> 0;
+  }
+  return String(hash).padStart(length, '0').slice(-length);
+}
+
+export class MockEtimsClient implements EtimsClient {
+  readonly adapter = 'mock';
+
+  submitInvoice(request: EtimsInvoiceRequest): Promise<EtimsInvoiceResponse> {
+    if (!request.kraPin) {
+      return Promise.reject(new Error('The business has no KRA PIN'));
+    }
+    if (request.lines.length === 0) {
+      return Promise.reject(new Error('An invoice needs at least one line'));
+    }
+
+    const sequence = digest(request.invoiceNumber, 8);
+    const signature = digest(`${request.kraPin}:${request.invoiceNumber}:${request.totalAmount}`, 10);
+    return Promise.resolve({
+      cuInvoiceNumber: `${MOCK_CU_SERIAL}/${sequence}`,
+      qrData: `${MOCK_VERIFY_URL}?Data=${request.kraPin}00${sequence}${signature}`,
+    });
+  }
+}
+
+export function createEtimsClient(): EtimsClient {
+  const adapter = Deno.env.get('ETIMS_ADAPTER');
+  if (!adapter) throw new Error('Missing ETIMS_ADAPTER environment variable');
+
+  switch (adapter) {
+    case 'mock':
+      return new MockEtimsClient();
+    default:
+      throw new Error(`Unknown ETIMS_ADAPTER: ${adapter}`);
+  }
+}
@@ -0,0 +1,128 @@
+// Signs a sale with KRA eTIMS and stores the control unit invoice number and QR data for the receipt.
+//
+// Called by the receipt screen for any sale of an eTIMS-enabled business that has no signed
+// invoice yet, so sales rung up offline or while eTIMS was unreachable are signed on retry.
+// A sale is only ever signed once: each call claims the sale before reaching eTIMS, later calls
+// return the stored invoice, and a call made while another is still signing gets the pending one.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createEtimsClient, type EtimsClient, type EtimsTaxClass } from '../_shared/etims.ts';
+
+interface SaleLine {
+  quantity: number;
+  unit_price: number;
+  discount_amount: number;
+  total_price: number;
+  tax_class: EtimsTaxClass | null;
+  tax_rate: number;
+  tax_amount: number;
+  products: { name: string } | null;
+}
+
+async function handleSubmit(req: Request, makeEtimsClient: () => EtimsClient): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let etims: EtimsClient;
+  try {
+    etims = makeEtimsClient();
+  } catch (error) {
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  const { sale_id }: { sale_id: string } = await req.json();
+  if (!sale_id) {
+    return jsonResponse({ error: 'sale_id is required' }, 400);
+  }
+
+  const { data: sale } = await adminClient
+    .from('sales')
+    .select('*, businesses(kra_pin, vat_registered, etims_enabled), sale_items(quantity, unit_price, discount_amount, total_price, tax_class, tax_rate, tax_amount, products(name))')
+    .eq('id', sale_id)
+    .single();
+  if (!sale) {
+    return jsonResponse({ error: 'Sale not found' }, 404);
+  }
+
+  const { data: isMember } = await adminClient.rpc('is_business_member', {
+    p_business_id: sale.business_id,
+    p_user_id: user.id,
+  });
+  if (!isMember) {
+    return jsonResponse({ error: 'Sale not found' }, 404);
+  }
+
+  const business = sale.businesses;
+  if (!business?.vat_registered || !business.etims_enabled) {
+    return jsonResponse({ error: 'eTIMS is not enabled for this business' }, 400);
+  }
+
+  const { data: claimed, error: claimError } = await adminClient.rpc('claim_etims_submission', {
+    p_business_id: sale.business_id,
+    p_sale_id: sale_id,
+    p_adapter: etims.adapter,
+  });
+  if (claimError) {
+    return jsonResponse({ error: claimError.message }, 500);
+  }
+  if (!claimed) {
+    const { data: current } = await adminClient
+      .from('etims_invoices')
+      .select('*')
+      .eq('sale_id', sale_id)
+      .single();
+    return jsonResponse(current, current?.status === 'signed' ? 200 : 409);
+  }
+
+  let result: Record<string, unknown>;
+  try {
+    const signed = await etims.submitInvoice({
+      kraPin: business.kra_pin ?? '',
+      invoiceNumber: sale.receipt_number,
+      issuedAt: sale.created_at,
+      customerName: sale.customer_name,
+      lines: (sale.sale_items as SaleLine[]).map(line => ({
+        name: line.products?.name ?? 'Item',
+        quantity: line.quantity,
+        unitPrice: line.unit_price,
+        discountAmount: line.discount_amount,
+        total: line.total_price,
+        taxClass: line.tax_class ?? 'vat_standard',
+        taxRate: line.tax_rate,
+        taxAmount: line.tax_amount,
+      })),
+      totalAmount: sale.total_amount,
+      taxAmount: sale.tax_amount,
+    });
+    result = { status: 'signed', cu_invoice_number: signed.cuInvoiceNumber, qr_data: signed.qrData, error: null };
+  } catch (error) {
+    result = { status: 'failed', cu_invoice_number: null, qr_data: null, error: (error as Error).message };
+  }
+
+  const { data: invoice, error: saveError } = await adminClient
+    .from('etims_invoices')
+    .update({ submitted_at: new Date().toISOString(), ...result })
+    .eq('sale_id', sale_id)
+    .select()
+    .single();
+  if (saveError) {
+    return jsonResponse({ error: saveError.message }, 500);
+  }
+
+  return jsonResponse(invoice, invoice.status === 'signed' ? 200 : 502);
+}
+
+Deno.serve((req) => handleSubmit(req, createEtimsClient));
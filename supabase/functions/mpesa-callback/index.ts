@@ -0,0 +1,47 @@
+// Receives Daraja STK push results and settles the matching `mpesa_payment_requests` row.
+//
+// Safaricom cannot send a Supabase JWT, so deploy with `--no-verify-jwt`; requests are
+// authenticated by the `token` query parameter instead.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { jsonResponse } from '../_shared/cors.ts';
+
+interface StkCallback {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: number;
+  ResultDesc: string;
+  CallbackMetadata?: {
+    Item: { Name: string; Value?: string | number }[];
+  };
+}
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token || token !== Deno.env.get('MPESA_CALLBACK_SECRET')) {
+    return jsonResponse({ ResultCode: 1, ResultDesc: 'Rejected' }, 401);
+  }
+
+  const { Body } = await req.json();
+  const callback: StkCallback | undefined = Body?.stkCallback;
+  if (!callback) {
+    return jsonResponse({ ResultCode: 1, ResultDesc: 'Malformed callback' }, 400);
+  }
+
+  const receiptNumber = callback.CallbackMetadata?.Item.find(item => item.Name === 'MpesaReceiptNumber')?.Value;
+
+  const adminClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { error } = await adminClient.rpc('complete_mpesa_payment', {
+    p_checkout_request_id: callback.CheckoutRequestID,
+    p_result_code: callback.ResultCode,
+    p_result_desc: callback.ResultDesc,
+    p_mpesa_receipt_number: receiptNumber ? String(receiptNumber) : null,
+  });
+
+  if (error) {
+    console.error('Error settling M-Pesa payment:', error);
+    return jsonResponse({ ResultCode: 1, ResultDesc: error.message }, 500);
+  }
+
+  return jsonResponse({ ResultCode: 0, ResultDesc: 'Accepted' });
+});
@@ -0,0 +1,124 @@
+// Starts a Lipa na M-Pesa Online (STK push) payment for a sale rung up on the Sales page.
+//
+// The sale is not recorded here: a pending `mpesa_payment_requests` row is stored with the
+// basket, and `mpesa-callback` turns it into a sale once Safaricom confirms the payment.
+// For split-tender sales `payments` carries the other tenders and only the balance is pushed.
+// The basket is checked against stock and prices before the customer is prompted, so a
+// payment is never taken for a sale that `create_sale_and_items` would reject.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createDarajaClient, normalizeMsisdn, type DarajaClient } from '../_shared/daraja.ts';
+
+interface StkPushBody {
+  business_id: string;
+  phone: string;
+  items: { product_id: string; quantity: number; unit_price: number; line_total?: number | null; discount_amount?: number; promotion_id?: string | null; promotion_discount?: number; product_unit_id?: string | null }[];
+  payments?: { method: string; amount: number; tendered?: number; reference?: string }[];
+  // The customer entered at checkout; the sale falls back to the paying phone without one
+  customer_name?: string | null;
+  customer_phone?: string | null;
+}
+
+async function handleStkPush(req: Request, daraja: DarajaClient): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  const { business_id, phone, items, payments = [], customer_name = null, customer_phone = null }: StkPushBody = await req.json();
+  if (!business_id || !phone || !Array.isArray(items) || items.length === 0) {
+    return jsonResponse({ error: 'business_id, phone and at least one item are required' }, 400);
+  }
+
+  const { data: isMember } = await adminClient.rpc('is_business_member', {
+    p_business_id: business_id,
+    p_user_id: user.id,
+  });
+  if (!isMember) {
+    return jsonResponse({ error: 'User is not a member of this business' }, 403);
+  }
+
+  const { data: lineErrors, error: validationError } = await adminClient.rpc('validate_sale_items', {
+    p_business_id: business_id,
+    p_cashier_id: user.id,
+    p_items: items,
+  });
+  if (validationError) {
+    return jsonResponse({ error: validationError.message }, 500);
+  }
+  if (lineErrors.length > 0) {
+    return jsonResponse({ error: 'Some items in this sale cannot be sold as entered', line_errors: lineErrors }, 422);
+  }
+
+  let msisdn: string;
+  try {
+    msisdn = normalizeMsisdn(phone);
+  } catch (error) {
+    return jsonResponse({ error: (error as Error).message }, 400);
+  }
+
+  // Lines are rounded to the cent as create_sale_and_items does, since weighed quantities can leave fractions,
+  // and lines from price labels charge the printed price
+  const total = items.reduce((acc, item) => acc + (item.line_total ?? Math.round(item.unit_price * item.quantity * 100) / 100) - (item.discount_amount ?? 0), 0);
+  const balance = total - payments.reduce((acc, payment) => acc + payment.amount, 0);
+  if (balance <= 0) {
+    return jsonResponse({ error: 'Nothing left to pay by M-Pesa' }, 400);
+  }
+  // The amount stored is the amount pushed, so the sale records exactly what the customer is charged
+  const amount = Math.round(balance);
+  if (Math.abs(balance - amount) > 0.001) {
+    return jsonResponse({ error: 'M-Pesa takes whole shillings. Take the cents on another tender.' }, 400);
+  }
+
+  const { data: request, error: insertError } = await adminClient
+    .from('mpesa_payment_requests')
+    .insert({ business_id, cashier_id: user.id, phone: msisdn, amount, items, payments, customer_name, customer_phone })
+    .select()
+    .single();
+  if (insertError) {
+    return jsonResponse({ error: insertError.message }, 500);
+  }
+
+  const callbackUrl = `${supabaseUrl}/functions/v1/mpesa-callback?token=${Deno.env.get('MPESA_CALLBACK_SECRET')}`;
+
+  try {
+    const result = await daraja.stkPush({
+      phone: msisdn,
+      amount,
+      accountReference: 'FedhaPlus',
+      description: 'Sale payment',
+      callbackUrl: Deno.env.get('MPESA_CALLBACK_URL') || callbackUrl,
+    });
+
+    await adminClient
+      .from('mpesa_payment_requests')
+      .update({
+        merchant_request_id: result.merchantRequestId,
+        checkout_request_id: result.checkoutRequestId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', request.id);
+
+    return jsonResponse({ request_id: request.id, customer_message: result.customerMessage });
+  } catch (error) {
+    await adminClient
+      .from('mpesa_payment_requests')
+      .update({ status: 'failed', result_desc: (error as Error).message, updated_at: new Date().toISOString() })
+      .eq('id', request.id);
+
+    return jsonResponse({ error: (error as Error).message }, 502);
+  }
+}
+
+Deno.serve((req) => handleStkPush(req, createDarajaClient()));
@@ -0,0 +1,187 @@
+/*
+# [M-Pesa STK Push Checkout]
+Adds the `mpesa_payment_requests` table that tracks Lipa na M-Pesa Online (STK push) requests raised from the Sales page, and extends `create_sale_and_items` so a sale can be recorded with its payment method and M-Pesa confirmation code.
+
+## Query Description:
+A pending request is stored when the cashier starts an STK push. The sale itself is only created by `complete_mpesa_payment`, which the `mpesa-callback` edge function calls once Safaricom confirms the payment. No existing sales data is modified.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates enum `mpesa_request_status_enum`.
+- Creates table `mpesa_payment_requests`.
+- Recreates `create_sale_and_items` with `p_payment_method` and `p_mpesa_code` parameters.
+- Creates function `complete_mpesa_payment`.
+
+## Security Implications:
+- RLS Status: Enabled on `mpesa_payment_requests` (read-only for business members).
+- Policy Changes: Yes, new SELECT policy.
+- Auth Requirements: `complete_mpesa_payment` is only executable by the service role used by the edge functions.
+
+## Performance Impact:
+- Indexes: Unique index on `checkout_request_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'mpesa_request_status_enum') THEN
+        CREATE TYPE public.mpesa_request_status_enum AS ENUM ('pending', 'completed', 'failed', 'cancelled');
+    END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.mpesa_payment_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  cashier_id uuid REFERENCES auth.users(id),
+  phone text NOT NULL,
+  amount numeric NOT NULL,
+  items jsonb NOT NULL,
+  merchant_request_id text,
+  checkout_request_id text UNIQUE,
+  status public.mpesa_request_status_enum NOT NULL DEFAULT 'pending',
+  result_code integer,
+  result_desc text,
+  mpesa_receipt_number text,
+  sale_id uuid REFERENCES public.sales(id),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Requests are written by the edge functions with the service role; staff can only watch their progress.
+ALTER TABLE public.mpesa_payment_requests ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view mpesa requests" ON public.mpesa_payment_requests;
+CREATE POLICY "Allow business members to view mpesa requests" ON public.mpesa_payment_requests FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+-- Drop every known signature so only the new definition remains.
+DROP FUNCTION IF EXISTS public.create_sale_and_items(uuid, uuid, jsonb);
+DROP FUNCTION IF EXISTS public.create_sale_and_items(uuid, uuid, jsonb, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.create_sale_and_items(
+    p_business_id uuid,
+    p_cashier_id uuid,
+    p_items jsonb,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_payment_method text DEFAULT 'cash',
+    p_mpesa_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_receipt_number text;
+    item jsonb;
+    v_product_id uuid;
+    v_quantity int;
+    v_unit_price numeric;
+BEGIN
+    -- Calculate total amount from the items JSON
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int);
+    END LOOP;
+
+    -- Generate a unique receipt number
+    v_receipt_number := 'RCPT-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6);
+
+    -- Insert the main sale record
+    INSERT INTO public.sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number)
+    VALUES (p_business_id, p_cashier_id, p_customer_name, p_customer_phone, v_total_amount, p_payment_method, p_mpesa_code, v_receipt_number)
+    RETURNING id INTO v_sale_id;
+
+    -- Insert sale items and update product stock
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_product_id := (item->>'product_id')::uuid;
+        v_quantity := (item->>'quantity')::int;
+        v_unit_price := (item->>'unit_price')::numeric;
+
+        INSERT INTO public.sale_items (sale_id, product_id, quantity, unit_price, total_price)
+        VALUES (v_sale_id, v_product_id, v_quantity, v_unit_price, v_quantity * v_unit_price);
+
+        UPDATE public.products
+        SET stock_quantity = stock_quantity - v_quantity
+        WHERE id = v_product_id;
+    END LOOP;
+
+    RETURN v_sale_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_sale_and_items(uuid, uuid, jsonb, text, text, text, text) TO authenticated;
+
+/*
+  Settles a pending STK push request from the Daraja callback.
+  Daraja retries callbacks, so an already-settled request simply returns its sale.
+*/
+CREATE OR REPLACE FUNCTION public.complete_mpesa_payment(
+    p_checkout_request_id text,
+    p_result_code integer,
+    p_result_desc text,
+    p_mpesa_receipt_number text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_request public.mpesa_payment_requests%ROWTYPE;
+    v_sale_id uuid;
+BEGIN
+    SELECT * INTO v_request
+    FROM public.mpesa_payment_requests
+    WHERE checkout_request_id = p_checkout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No M-Pesa request found for checkout request %', p_checkout_request_id;
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RETURN v_request.sale_id;
+    END IF;
+
+    IF p_result_code = 0 THEN
+        v_sale_id := public.create_sale_and_items(
+            v_request.business_id,
+            v_request.cashier_id,
+            v_request.items,
+            NULL,
+            v_request.phone,
+            'mpesa',
+            p_mpesa_receipt_number
+        );
+
+        UPDATE public.mpesa_payment_requests
+        SET status = 'completed',
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            mpesa_receipt_number = p_mpesa_receipt_number,
+            sale_id = v_sale_id,
+            updated_at = now()
+        WHERE id = v_request.id;
+    ELSE
+        -- 1032 is Daraja's "request cancelled by user" result code.
+        UPDATE public.mpesa_payment_requests
+        SET status = CASE WHEN p_result_code = 1032 THEN 'cancelled'::public.mpesa_request_status_enum ELSE 'failed'::public.mpesa_request_status_enum END,
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            updated_at = now()
+        WHERE id = v_request.id;
+    END IF;
+
+    RETURN v_sale_id;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.complete_mpesa_payment(text, integer, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_mpesa_payment(text, integer, text, text) TO service_role;
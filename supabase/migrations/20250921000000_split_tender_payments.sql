@@ -0,0 +1,309 @@
+/*
+# [Split Tender Payments]
+Adds the `sale_payments` child table so a single sale can be settled with several tenders (cash, M-Pesa and card), and teaches `create_sale_and_items`, `complete_mpesa_payment` and `get_dashboard_stats` about it.
+
+## Query Description:
+Existing sales are backfilled with one payment row for their full total, so reports stay consistent. `create_sale_and_items` now rejects baskets whose tenders do not add up to the sale total and stores the change given on the cash part. No existing sales are modified.
+
+## Metadata:
+- Schema-Category: ["Structural", "Data"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates table `sale_payments`.
+- Adds column `mpesa_payment_requests.payments`.
+- Recreates `create_sale_and_items` with a `p_payments` parameter.
+- Recreates `complete_mpesa_payment` and `get_dashboard_stats`.
+
+## Security Implications:
+- RLS Status: Enabled on `sale_payments`.
+- Policy Changes: Yes, business members get full access through the parent sale.
+- Auth Requirements: None
+
+## Performance Impact:
+- Indexes: Adds index on `sale_payments.sale_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+CREATE TABLE IF NOT EXISTS public.sale_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  method text NOT NULL CHECK (method IN ('cash', 'mpesa', 'card')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  tendered_amount numeric,
+  change_amount numeric NOT NULL DEFAULT 0,
+  reference text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS sale_payments_sale_id_idx ON public.sale_payments(sale_id);
+
+ALTER TABLE public.sale_payments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow full access to business members on sale_payments" ON public.sale_payments;
+CREATE POLICY "Allow full access to business members on sale_payments" ON public.sale_payments FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM sales s
+        WHERE s.id = sale_payments.sale_id AND is_business_member(s.business_id, auth.uid())
+    )
+) WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM sales s
+        WHERE s.id = sale_payments.sale_id AND is_business_member(s.business_id, auth.uid())
+    )
+);
+
+-- Backfill one tender per historical sale.
+INSERT INTO public.sale_payments (sale_id, method, amount, tendered_amount, reference, created_at)
+SELECT s.id,
+       CASE WHEN lower(s.payment_method) IN ('mpesa', 'card') THEN lower(s.payment_method) ELSE 'cash' END,
+       s.total_amount,
+       s.total_amount,
+       s.mpesa_code,
+       s.created_at
+FROM public.sales s
+WHERE s.total_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM public.sale_payments sp WHERE sp.sale_id = s.id);
+
+-- The non-M-Pesa tenders of a split sale wait here until the STK push is confirmed.
+ALTER TABLE public.mpesa_payment_requests ADD COLUMN IF NOT EXISTS payments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+DROP FUNCTION IF EXISTS public.create_sale_and_items(uuid, uuid, jsonb, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.create_sale_and_items(
+    p_business_id uuid,
+    p_cashier_id uuid,
+    p_items jsonb,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_payment_method text DEFAULT 'cash',
+    p_mpesa_code text DEFAULT NULL,
+    p_payments jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_receipt_number text;
+    v_payments jsonb;
+    v_payment_method text;
+    v_mpesa_code text;
+    item jsonb;
+    payment jsonb;
+    v_product_id uuid;
+    v_quantity int;
+    v_unit_price numeric;
+    v_amount numeric;
+    v_tendered numeric;
+BEGIN
+    -- Calculate total amount from the items JSON
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int);
+    END LOOP;
+
+    -- Callers that pass a single payment method pay the whole total with it
+    v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+        'method', lower(p_payment_method),
+        'amount', v_total_amount,
+        'tendered', v_total_amount,
+        'reference', p_mpesa_code
+    )));
+
+    IF jsonb_array_length(v_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required';
+    END IF;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero';
+        END IF;
+        IF payment->>'method' = 'cash' AND COALESCE((payment->>'tendered')::numeric, v_amount) < v_amount THEN
+            RAISE EXCEPTION 'Cash tendered (%) is less than the cash amount due (%)', payment->>'tendered', v_amount;
+        END IF;
+        v_paid_amount := v_paid_amount + v_amount;
+    END LOOP;
+
+    IF round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(v_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := v_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(v_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    -- Generate a unique receipt number
+    v_receipt_number := 'RCPT-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6);
+
+    -- Insert the main sale record
+    INSERT INTO public.sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number)
+    VALUES (p_business_id, p_cashier_id, p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, v_receipt_number)
+    RETURNING id INTO v_sale_id;
+
+    -- Record each tender, with change only ever given on cash
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO public.sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    -- Insert sale items and update product stock
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_product_id := (item->>'product_id')::uuid;
+        v_quantity := (item->>'quantity')::int;
+        v_unit_price := (item->>'unit_price')::numeric;
+
+        INSERT INTO public.sale_items (sale_id, product_id, quantity, unit_price, total_price)
+        VALUES (v_sale_id, v_product_id, v_quantity, v_unit_price, v_quantity * v_unit_price);
+
+        UPDATE public.products
+        SET stock_quantity = stock_quantity - v_quantity
+        WHERE id = v_product_id;
+    END LOOP;
+
+    RETURN v_sale_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_sale_and_items(uuid, uuid, jsonb, text, text, text, text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.complete_mpesa_payment(
+    p_checkout_request_id text,
+    p_result_code integer,
+    p_result_desc text,
+    p_mpesa_receipt_number text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_request public.mpesa_payment_requests%ROWTYPE;
+    v_sale_id uuid;
+BEGIN
+    SELECT * INTO v_request
+    FROM public.mpesa_payment_requests
+    WHERE checkout_request_id = p_checkout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No M-Pesa request found for checkout request %', p_checkout_request_id;
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RETURN v_request.sale_id;
+    END IF;
+
+    IF p_result_code = 0 THEN
+        v_sale_id := public.create_sale_and_items(
+            p_business_id => v_request.business_id,
+            p_cashier_id => v_request.cashier_id,
+            p_items => v_request.items,
+            p_customer_phone => v_request.phone,
+            p_payments => v_request.payments || jsonb_build_array(jsonb_build_object(
+                'method', 'mpesa',
+                'amount', v_request.amount,
+                'reference', p_mpesa_receipt_number
+            ))
+        );
+
+        UPDATE public.mpesa_payment_requests
+        SET status = 'completed',
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            mpesa_receipt_number = p_mpesa_receipt_number,
+            sale_id = v_sale_id,
+            updated_at = now()
+        WHERE id = v_request.id;
+    ELSE
+        -- 1032 is Daraja's "request cancelled by user" result code.
+        UPDATE public.mpesa_payment_requests
+        SET status = CASE WHEN p_result_code = 1032 THEN 'cancelled'::public.mpesa_request_status_enum ELSE 'failed'::public.mpesa_request_status_enum END,
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            updated_at = now()
+        WHERE id = v_request.id;
+    END IF;
+
+    RETURN v_sale_id;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.complete_mpesa_payment(text, integer, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_mpesa_payment(text, integer, text, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.get_dashboard_stats(p_business_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    revenue_data jsonb;
+    tender_data jsonb;
+    customer_count int;
+BEGIN
+    -- Aggregate revenue data
+    SELECT jsonb_agg(jsonb_build_object('amount', amount, 'created_at', created_at))
+    INTO revenue_data
+    FROM (
+        SELECT total_amount AS amount, created_at FROM sales WHERE business_id = p_business_id
+        UNION ALL
+        SELECT amount, created_at FROM rent_payments WHERE business_id = p_business_id
+        UNION ALL
+        SELECT amount, created_at FROM fee_payments WHERE business_id = p_business_id
+        UNION ALL
+        SELECT total_amount AS amount, created_at FROM bookings WHERE business_id = p_business_id
+    ) AS all_revenue;
+
+    -- Break sales revenue down by tender
+    SELECT jsonb_agg(jsonb_build_object('method', method, 'amount', amount, 'created_at', created_at))
+    INTO tender_data
+    FROM (
+        SELECT sp.method, sp.amount, s.created_at
+        FROM sale_payments sp
+        JOIN sales s ON s.id = sp.sale_id
+        WHERE s.business_id = p_business_id
+    ) AS all_tenders;
+
+    -- Aggregate customer count
+    SELECT SUM(count) INTO customer_count FROM (
+        SELECT COUNT(DISTINCT id) FROM tenants WHERE business_id = p_business_id
+        UNION ALL
+        SELECT COUNT(DISTINCT id) FROM students WHERE business_id = p_business_id
+        UNION ALL
+        SELECT COUNT(DISTINCT guest_phone) FROM bookings WHERE business_id = p_business_id
+    ) AS counts;
+
+    RETURN jsonb_build_object(
+        'revenue_data', COALESCE(revenue_data, '[]'::jsonb),
+        'tender_data', COALESCE(tender_data, '[]'::jsonb),
+        'customer_count', COALESCE(customer_count, 0)
+    );
+END;
+$$;
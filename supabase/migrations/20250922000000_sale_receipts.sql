@@ -0,0 +1,72 @@
+/*
+# [Sale Receipts]
+Adds `get_sale_receipt`, which gathers everything needed to print or reprint a customer receipt for a sale in a single call.
+
+## Query Description:
+Read-only function. Returns the sale, the business name and logo, the line items with product names, the tenders and the cashier's name as one JSON document. No data is modified.
+
+## Metadata:
+- Schema-Category: ["Safe"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates function `get_sale_receipt(uuid)`.
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: Caller must be a member of the sale's business.
+
+## Performance Impact:
+- Indexes: None
+- Triggers: None
+- Estimated Impact: Negligible.
+*/
+
+CREATE OR REPLACE FUNCTION public.get_sale_receipt(p_sale_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale public.sales%ROWTYPE;
+    v_result jsonb;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id;
+
+    IF NOT FOUND OR NOT is_business_member(v_sale.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'sale', to_jsonb(v_sale),
+        'business', (
+            SELECT jsonb_build_object('name', b.name, 'logo_url', b.logo_url, 'phone', b.phone, 'location', b.location)
+            FROM businesses b WHERE b.id = v_sale.business_id
+        ),
+        'items', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'name', p.name,
+                'quantity', si.quantity,
+                'unit_price', si.unit_price,
+                'total_price', si.total_price
+            ) ORDER BY p.name)
+            FROM sale_items si
+            JOIN products p ON p.id = si.product_id
+            WHERE si.sale_id = v_sale.id
+        ), '[]'::jsonb),
+        'payments', COALESCE((
+            SELECT jsonb_agg(to_jsonb(sp) ORDER BY sp.created_at)
+            FROM sale_payments sp
+            WHERE sp.sale_id = v_sale.id
+        ), '[]'::jsonb),
+        'cashier_name', (SELECT pr.full_name FROM profiles pr WHERE pr.id = v_sale.cashier_id)
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_sale_receipt(uuid) TO authenticated;
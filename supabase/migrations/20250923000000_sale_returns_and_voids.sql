@@ -0,0 +1,325 @@
+/*
+# [Sales Returns, Refunds and Voids]
+Adds full and partial returns against an existing receipt, and voids that need manager approval. Returned goods are put back into stock and the refund is recorded against the original sale, which itself is never changed.
+
+## Query Description:
+Creates the `sale_returns` and `sale_return_items` tables and the `create_sale_return` and `review_sale_void` functions. Sales and sale items become insert-only for staff, and an update trigger keeps recorded sales immutable. `get_dashboard_stats` now subtracts completed returns from revenue. Existing sales data is not modified.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates enums `sale_return_type_enum` and `sale_return_status_enum`.
+- Creates tables `sale_returns` and `sale_return_items`.
+- Creates functions `create_sale_return`, `review_sale_void` and trigger function `prevent_sale_mutation`.
+- Replaces the RLS policies on `sales` and `sale_items`.
+- Recreates `get_dashboard_stats`.
+
+## Security Implications:
+- RLS Status: Enabled on the new tables.
+- Policy Changes: Yes. Staff can no longer update or delete sales and sale items directly.
+- Auth Requirements: Voids are completed immediately for owners and managers; other staff create a void request that an owner or manager must approve.
+
+## Performance Impact:
+- Indexes: Adds indexes on `sale_returns.sale_id` and `sale_return_items.sale_item_id`.
+- Triggers: Adds BEFORE UPDATE triggers on `sales` and `sale_items`.
+- Estimated Impact: Low.
+*/
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'sale_return_type_enum') THEN
+        CREATE TYPE public.sale_return_type_enum AS ENUM ('return', 'void');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'sale_return_status_enum') THEN
+        CREATE TYPE public.sale_return_status_enum AS ENUM ('pending_approval', 'completed', 'rejected');
+    END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.sale_returns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  sale_id uuid NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  return_number text UNIQUE NOT NULL,
+  return_type public.sale_return_type_enum NOT NULL DEFAULT 'return',
+  status public.sale_return_status_enum NOT NULL DEFAULT 'completed',
+  reason_code text NOT NULL,
+  notes text,
+  total_amount numeric NOT NULL,
+  refund_method text NOT NULL CHECK (refund_method IN ('cash', 'mpesa', 'card')),
+  processed_by uuid REFERENCES auth.users(id),
+  approved_by uuid REFERENCES auth.users(id),
+  approved_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS sale_returns_sale_id_idx ON public.sale_returns(sale_id);
+
+CREATE TABLE IF NOT EXISTS public.sale_return_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id uuid NOT NULL REFERENCES public.sale_returns(id) ON DELETE CASCADE,
+  sale_item_id uuid NOT NULL REFERENCES public.sale_items(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price numeric NOT NULL,
+  total_price numeric NOT NULL
+);
+CREATE INDEX IF NOT EXISTS sale_return_items_sale_item_id_idx ON public.sale_return_items(sale_item_id);
+
+-- Returns are only ever written through the functions below.
+ALTER TABLE public.sale_returns ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view sale_returns" ON public.sale_returns;
+CREATE POLICY "Allow business members to view sale_returns" ON public.sale_returns FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.sale_return_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view sale_return_items" ON public.sale_return_items;
+CREATE POLICY "Allow business members to view sale_return_items" ON public.sale_return_items FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM sale_returns r
+        WHERE r.id = sale_return_items.return_id AND is_business_member(r.business_id, auth.uid())
+    )
+);
+
+-- Sales and their lines are insert-only; corrections go through returns.
+DROP POLICY IF EXISTS "Allow full access to business members on sales" ON public.sales;
+DROP POLICY IF EXISTS "Allow business members to view sales" ON public.sales;
+DROP POLICY IF EXISTS "Allow business members to record sales" ON public.sales;
+CREATE POLICY "Allow business members to view sales" ON public.sales FOR SELECT USING (is_business_member(business_id, auth.uid()));
+CREATE POLICY "Allow business members to record sales" ON public.sales FOR INSERT WITH CHECK (is_business_member(business_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Allow full access to business members on sale_items" ON public.sale_items;
+DROP POLICY IF EXISTS "Allow business members to view sale_items" ON public.sale_items;
+DROP POLICY IF EXISTS "Allow business members to record sale_items" ON public.sale_items;
+CREATE POLICY "Allow business members to view sale_items" ON public.sale_items FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM sales s
+        WHERE s.id = sale_items.sale_id AND is_business_member(s.business_id, auth.uid())
+    )
+);
+CREATE POLICY "Allow business members to record sale_items" ON public.sale_items FOR INSERT WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM sales s
+        WHERE s.id = sale_items.sale_id AND is_business_member(s.business_id, auth.uid())
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.prevent_sale_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    RAISE EXCEPTION 'Recorded sales cannot be changed. Process a return or void instead.';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_sales_update ON public.sales;
+CREATE TRIGGER prevent_sales_update BEFORE UPDATE ON public.sales
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_sale_mutation();
+
+DROP TRIGGER IF EXISTS prevent_sale_items_update ON public.sale_items;
+CREATE TRIGGER prevent_sale_items_update BEFORE UPDATE ON public.sale_items
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_sale_mutation();
+
+/*
+  Records a return against a sale.
+  p_items: [{ "sale_item_id": uuid, "quantity": int }]; ignored for voids, which always take back everything not yet returned.
+*/
+CREATE OR REPLACE FUNCTION public.create_sale_return(
+    p_sale_id uuid,
+    p_items jsonb,
+    p_reason_code text,
+    p_refund_method text DEFAULT 'cash',
+    p_notes text DEFAULT NULL,
+    p_is_void boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale public.sales%ROWTYPE;
+    v_user_id uuid := auth.uid();
+    v_is_manager boolean;
+    v_return_id uuid;
+    v_status public.sale_return_status_enum;
+    v_total numeric := 0;
+    v_line record;
+    v_requested int;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_sale.business_id, v_user_id) THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM sale_returns WHERE sale_id = p_sale_id AND return_type = 'void' AND status <> 'rejected') THEN
+        RAISE EXCEPTION 'Sale % has already been voided', v_sale.receipt_number;
+    END IF;
+
+    SELECT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_sale.business_id AND user_id = v_user_id AND is_active = true AND role IN ('owner', 'manager')
+    ) INTO v_is_manager;
+
+    v_status := CASE WHEN p_is_void AND NOT v_is_manager THEN 'pending_approval' ELSE 'completed' END;
+
+    INSERT INTO sale_returns (business_id, sale_id, return_number, return_type, status, reason_code, notes, total_amount, refund_method, processed_by, approved_by, approved_at)
+    VALUES (
+        v_sale.business_id,
+        p_sale_id,
+        'RTN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        CASE WHEN p_is_void THEN 'void' ELSE 'return' END::public.sale_return_type_enum,
+        v_status,
+        p_reason_code,
+        p_notes,
+        0,
+        p_refund_method,
+        v_user_id,
+        CASE WHEN p_is_void AND v_is_manager THEN v_user_id END,
+        CASE WHEN p_is_void AND v_is_manager THEN now() END
+    )
+    RETURNING id INTO v_return_id;
+
+    -- Quantities still returnable per line exclude completed and pending returns
+    FOR v_line IN
+        SELECT si.id, si.product_id, si.unit_price,
+               si.quantity - COALESCE((
+                   SELECT SUM(ri.quantity) FROM sale_return_items ri
+                   JOIN sale_returns r ON r.id = ri.return_id
+                   WHERE ri.sale_item_id = si.id AND r.status <> 'rejected' AND r.id <> v_return_id
+               ), 0) AS returnable
+        FROM sale_items si
+        WHERE si.sale_id = p_sale_id
+    LOOP
+        IF p_is_void THEN
+            v_requested := v_line.returnable;
+        ELSE
+            SELECT COALESCE(SUM((x->>'quantity')::int), 0) INTO v_requested
+            FROM jsonb_array_elements(p_items) x
+            WHERE (x->>'sale_item_id')::uuid = v_line.id;
+        END IF;
+
+        IF v_requested > v_line.returnable THEN
+            RAISE EXCEPTION 'Cannot return % of a line that only has % left to return', v_requested, v_line.returnable;
+        END IF;
+
+        IF v_requested > 0 THEN
+            INSERT INTO sale_return_items (return_id, sale_item_id, product_id, quantity, unit_price, total_price)
+            VALUES (v_return_id, v_line.id, v_line.product_id, v_requested, v_line.unit_price, v_requested * v_line.unit_price);
+            v_total := v_total + v_requested * v_line.unit_price;
+
+            IF v_status = 'completed' THEN
+                UPDATE products SET stock_quantity = stock_quantity + v_requested WHERE id = v_line.product_id;
+            END IF;
+        END IF;
+    END LOOP;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION 'Nothing to return on sale %', v_sale.receipt_number;
+    END IF;
+
+    UPDATE sale_returns SET total_amount = v_total WHERE id = v_return_id;
+
+    RETURN v_return_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_sale_return(uuid, jsonb, text, text, text, boolean) TO authenticated;
+
+-- Lets an owner or manager approve or reject a void requested by other staff.
+CREATE OR REPLACE FUNCTION public.review_sale_void(p_return_id uuid, p_approve boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_return public.sale_returns%ROWTYPE;
+    v_item record;
+BEGIN
+    SELECT * INTO v_return FROM sale_returns WHERE id = p_return_id FOR UPDATE;
+    IF NOT FOUND OR v_return.status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Void request not found or already reviewed';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_return.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can review voids';
+    END IF;
+
+    UPDATE sale_returns
+    SET status = CASE WHEN p_approve THEN 'completed' ELSE 'rejected' END::public.sale_return_status_enum,
+        approved_by = auth.uid(),
+        approved_at = now()
+    WHERE id = p_return_id;
+
+    IF p_approve THEN
+        FOR v_item IN SELECT product_id, quantity FROM sale_return_items WHERE return_id = p_return_id
+        LOOP
+            UPDATE products SET stock_quantity = stock_quantity + v_item.quantity WHERE id = v_item.product_id;
+        END LOOP;
+    END IF;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.review_sale_void(uuid, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_dashboard_stats(p_business_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    revenue_data jsonb;
+    tender_data jsonb;
+    customer_count int;
+BEGIN
+    -- Aggregate revenue data, with completed returns as negative entries
+    SELECT jsonb_agg(jsonb_build_object('amount', amount, 'created_at', created_at))
+    INTO revenue_data
+    FROM (
+        SELECT total_amount AS amount, created_at FROM sales WHERE business_id = p_business_id
+        UNION ALL
+        SELECT -total_amount AS amount, created_at FROM sale_returns WHERE business_id = p_business_id AND status = 'completed'
+        UNION ALL
+        SELECT amount, created_at FROM rent_payments WHERE business_id = p_business_id
+        UNION ALL
+        SELECT amount, created_at FROM fee_payments WHERE business_id = p_business_id
+        UNION ALL
+        SELECT total_amount AS amount, created_at FROM bookings WHERE business_id = p_business_id
+    ) AS all_revenue;
+
+    -- Break sales revenue down by tender, net of refunds
+    SELECT jsonb_agg(jsonb_build_object('method', method, 'amount', amount, 'created_at', created_at))
+    INTO tender_data
+    FROM (
+        SELECT sp.method, sp.amount, s.created_at
+        FROM sale_payments sp
+        JOIN sales s ON s.id = sp.sale_id
+        WHERE s.business_id = p_business_id
+        UNION ALL
+        SELECT refund_method AS method, -total_amount AS amount, created_at
+        FROM sale_returns
+        WHERE business_id = p_business_id AND status = 'completed'
+    ) AS all_tenders;
+
+    -- Aggregate customer count
+    SELECT SUM(count) INTO customer_count FROM (
+        SELECT COUNT(DISTINCT id) FROM tenants WHERE business_id = p_business_id
+        UNION ALL
+        SELECT COUNT(DISTINCT id) FROM students WHERE business_id = p_business_id
+        UNION ALL
+        SELECT COUNT(DISTINCT guest_phone) FROM bookings WHERE business_id = p_business_id
+    ) AS counts;
+
+    RETURN jsonb_build_object(
+        'revenue_data', COALESCE(revenue_data, '[]'::jsonb),
+        'tender_data', COALESCE(tender_data, '[]'::jsonb),
+        'customer_count', COALESCE(customer_count, 0)
+    );
+END;
+$$;
@@ -0,0 +1,327 @@
+/*
+# [Sale Stock Validation and Row Locking]
+Makes `create_sale_and_items` lock the product rows it sells and reject lines that exceed available stock or that are not sold at the product's selling price, instead of blindly decrementing stock.
+
+## Query Description:
+Two cashiers selling the last unit at the same time are now serialised on the product row, and the second sale fails with a structured error. Errors are raised with HINT `sale_validation_failed` and a JSON array of offending lines in DETAIL, so the Sales page can show them next to each line. Owners, managers and staff with the `price_override` permission may still change unit prices. No data is modified.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates functions `can_override_price` and `validate_sale_items`.
+- Recreates `create_sale_and_items` and `complete_mpesa_payment`.
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: Signed-in callers can only record sales as themselves, in businesses they belong to.
+
+## Performance Impact:
+- Indexes: None
+- Triggers: None
+- Estimated Impact: Low. Concurrent sales of the same product now wait for each other.
+*/
+
+CREATE OR REPLACE FUNCTION public.can_override_price(p_business_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM staff_roles
+    WHERE business_id = p_business_id
+      AND user_id = p_user_id
+      AND is_active = true
+      AND (role IN ('owner', 'manager') OR COALESCE((permissions->>'price_override')::boolean, false))
+  );
+$$;
+GRANT EXECUTE ON FUNCTION public.can_override_price(uuid, uuid) TO authenticated;
+
+/*
+  Returns the problems with a basket as a JSON array (empty when the sale can go ahead):
+  [{ "product_id", "name", "code": "product_not_found" | "invalid_quantity" | "insufficient_stock" | "price_mismatch", ... }]
+*/
+CREATE OR REPLACE FUNCTION public.validate_sale_items(p_business_id uuid, p_cashier_id uuid, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_errors jsonb := '[]'::jsonb;
+    v_line record;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- Stock is checked against the total quantity of each product across all lines
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, p.stock_quantity
+        FROM (
+            SELECT (x->>'product_id')::uuid AS product_id, SUM((x->>'quantity')::int) AS quantity
+            FROM jsonb_array_elements(p_items) x
+            GROUP BY 1
+        ) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id AND COALESCE(p.is_active, true)
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'code', 'product_not_found');
+        ELSIF v_line.quantity <= 0 THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_quantity', 'requested', v_line.quantity);
+        ELSIF v_line.quantity > v_line.stock_quantity THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'insufficient_stock',
+                'requested', v_line.quantity,
+                'available', GREATEST(v_line.stock_quantity, 0)
+            );
+        END IF;
+    END LOOP;
+
+    IF NOT can_override_price(p_business_id, p_cashier_id) THEN
+        FOR v_line IN
+            SELECT p.id AS product_id, p.name, (x->>'unit_price')::numeric AS unit_price, p.selling_price
+            FROM jsonb_array_elements(p_items) x
+            JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+            WHERE round((x->>'unit_price')::numeric, 2) <> round(p.selling_price, 2)
+        LOOP
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'price_mismatch',
+                'unit_price', v_line.unit_price,
+                'selling_price', v_line.selling_price
+            );
+        END LOOP;
+    END IF;
+
+    RETURN v_errors;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.validate_sale_items(uuid, uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_sale_and_items(
+    p_business_id uuid,
+    p_cashier_id uuid,
+    p_items jsonb,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_payment_method text DEFAULT 'cash',
+    p_mpesa_code text DEFAULT NULL,
+    p_payments jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_receipt_number text;
+    v_payments jsonb;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_errors jsonb;
+    item jsonb;
+    payment jsonb;
+    v_product_id uuid;
+    v_quantity int;
+    v_unit_price numeric;
+    v_amount numeric;
+    v_tendered numeric;
+BEGIN
+    -- Signed-in callers record sales as themselves; the M-Pesa callback runs without a user
+    IF auth.uid() IS NOT NULL AND (p_cashier_id IS DISTINCT FROM auth.uid() OR NOT is_business_member(p_business_id, auth.uid())) THEN
+        RAISE EXCEPTION 'Not allowed to record sales for this business';
+    END IF;
+
+    -- Lock the products in a consistent order so concurrent checkouts queue instead of overselling
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT (x->>'product_id')::uuid FROM jsonb_array_elements(p_items) x)
+    ORDER BY id
+    FOR UPDATE;
+
+    v_errors := public.validate_sale_items(p_business_id, p_cashier_id, p_items);
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION USING
+            MESSAGE = 'Some items in this sale cannot be sold as entered',
+            DETAIL = v_errors::text,
+            HINT = 'sale_validation_failed';
+    END IF;
+
+    -- Calculate total amount from the items JSON
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int);
+    END LOOP;
+
+    -- Callers that pass a single payment method pay the whole total with it
+    v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+        'method', lower(p_payment_method),
+        'amount', v_total_amount,
+        'tendered', v_total_amount,
+        'reference', p_mpesa_code
+    )));
+
+    IF jsonb_array_length(v_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required';
+    END IF;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero';
+        END IF;
+        IF payment->>'method' = 'cash' AND COALESCE((payment->>'tendered')::numeric, v_amount) < v_amount THEN
+            RAISE EXCEPTION 'Cash tendered (%) is less than the cash amount due (%)', payment->>'tendered', v_amount;
+        END IF;
+        v_paid_amount := v_paid_amount + v_amount;
+    END LOOP;
+
+    IF round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(v_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := v_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(v_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    -- Generate a unique receipt number
+    v_receipt_number := 'RCPT-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6);
+
+    -- Insert the main sale record
+    INSERT INTO public.sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number)
+    VALUES (p_business_id, p_cashier_id, p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, v_receipt_number)
+    RETURNING id INTO v_sale_id;
+
+    -- Record each tender, with change only ever given on cash
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO public.sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    -- Insert sale items and update product stock
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_product_id := (item->>'product_id')::uuid;
+        v_quantity := (item->>'quantity')::int;
+        v_unit_price := (item->>'unit_price')::numeric;
+
+        INSERT INTO public.sale_items (sale_id, product_id, quantity, unit_price, total_price)
+        VALUES (v_sale_id, v_product_id, v_quantity, v_unit_price, v_quantity * v_unit_price);
+
+        UPDATE public.products
+        SET stock_quantity = stock_quantity - v_quantity
+        WHERE id = v_product_id;
+    END LOOP;
+
+    RETURN v_sale_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_mpesa_payment(
+    p_checkout_request_id text,
+    p_result_code integer,
+    p_result_desc text,
+    p_mpesa_receipt_number text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_request public.mpesa_payment_requests%ROWTYPE;
+    v_sale_id uuid;
+BEGIN
+    SELECT * INTO v_request
+    FROM public.mpesa_payment_requests
+    WHERE checkout_request_id = p_checkout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No M-Pesa request found for checkout request %', p_checkout_request_id;
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RETURN v_request.sale_id;
+    END IF;
+
+    IF p_result_code = 0 THEN
+        BEGIN
+            v_sale_id := public.create_sale_and_items(
+                p_business_id => v_request.business_id,
+                p_cashier_id => v_request.cashier_id,
+                p_items => v_request.items,
+                p_customer_phone => v_request.phone,
+                p_payments => v_request.payments || jsonb_build_array(jsonb_build_object(
+                    'method', 'mpesa',
+                    'amount', v_request.amount,
+                    'reference', p_mpesa_receipt_number
+                ))
+            );
+        EXCEPTION WHEN OTHERS THEN
+            -- The customer has paid but stock ran out meanwhile; keep the receipt so it can be refunded.
+            UPDATE public.mpesa_payment_requests
+            SET status = 'failed',
+                result_code = p_result_code,
+                result_desc = 'Paid but the sale could not be recorded: ' || SQLERRM,
+                mpesa_receipt_number = p_mpesa_receipt_number,
+                updated_at = now()
+            WHERE id = v_request.id;
+            RETURN NULL;
+        END;
+
+        UPDATE public.mpesa_payment_requests
+        SET status = 'completed',
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            mpesa_receipt_number = p_mpesa_receipt_number,
+            sale_id = v_sale_id,
+            updated_at = now()
+        WHERE id = v_request.id;
+    ELSE
+        -- 1032 is Daraja's "request cancelled by user" result code.
+        UPDATE public.mpesa_payment_requests
+        SET status = CASE WHEN p_result_code = 1032 THEN 'cancelled'::public.mpesa_request_status_enum ELSE 'failed'::public.mpesa_request_status_enum END,
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            updated_at = now()
+        WHERE id = v_request.id;
+    END IF;
+
+    RETURN v_sale_id;
+END;
+$$;
@@ -0,0 +1,226 @@
+/*
+# [Offline Sale Sync]
+Lets the POS keep selling while a branch is offline and upload the queued sales when the connection returns.
+
+## Query Description:
+Sales rung up offline already happened at the till, so `sync_offline_sale` records them even when stock has since run out. Instead of rejecting the sale, it lets stock go negative and logs an `offline_sale_conflicts` row for each short product so a manager can recount. Every queued sale carries a client-generated `client_sale_id` and receipt number, so uploading the same sale twice returns the first result instead of creating a duplicate. Existing sales are not modified.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds `sales.client_sale_id` (unique).
+- Creates table `offline_sale_conflicts`.
+- Creates functions `sync_offline_sale` and `resolve_offline_sale_conflict`.
+
+## Security Implications:
+- RLS Status: Enabled on the new table.
+- Policy Changes: No
+- Auth Requirements: Cashiers sync their own sales; only owners and managers can resolve conflicts.
+
+## Performance Impact:
+- Indexes: Adds a unique index on `sales.client_sale_id` and an index on `offline_sale_conflicts.business_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS client_sale_id uuid;
+CREATE UNIQUE INDEX IF NOT EXISTS sales_client_sale_id_key ON public.sales(client_sale_id);
+
+CREATE TABLE IF NOT EXISTS public.offline_sale_conflicts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  sale_id uuid NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  requested integer NOT NULL,
+  available integer NOT NULL,
+  resolved_by uuid REFERENCES auth.users(id),
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS offline_sale_conflicts_business_id_idx ON public.offline_sale_conflicts(business_id);
+
+ALTER TABLE public.offline_sale_conflicts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view offline_sale_conflicts" ON public.offline_sale_conflicts;
+CREATE POLICY "Allow business members to view offline_sale_conflicts" ON public.offline_sale_conflicts FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+/*
+  Records a sale that was queued offline. Returns
+  { "sale_id", "receipt_number", "duplicate": bool, "conflicts": [{ "product_id", "name", "requested", "available" }] }
+*/
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+    p_business_id uuid,
+    p_client_sale_id uuid,
+    p_receipt_number text,
+    p_items jsonb,
+    p_payments jsonb,
+    p_sold_at timestamptz,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_existing public.sales%ROWTYPE;
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_conflicts jsonb := '[]'::jsonb;
+    v_line record;
+    item jsonb;
+    payment jsonb;
+    v_amount numeric;
+    v_tendered numeric;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- A retry after a dropped response must not record the sale twice
+    SELECT * INTO v_existing FROM sales WHERE client_sale_id = p_client_sale_id;
+    IF FOUND THEN
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'product_id', c.product_id, 'name', p.name, 'requested', c.requested, 'available', c.available
+        )), '[]'::jsonb)
+        INTO v_conflicts
+        FROM offline_sale_conflicts c
+        JOIN products p ON p.id = c.product_id
+        WHERE c.sale_id = v_existing.id;
+
+        RETURN jsonb_build_object('sale_id', v_existing.id, 'receipt_number', v_existing.receipt_number, 'duplicate', true, 'conflicts', v_conflicts);
+    END IF;
+
+    PERFORM 1
+    FROM products
+    WHERE id IN (SELECT (x->>'product_id')::uuid FROM jsonb_array_elements(p_items) x)
+    ORDER BY id
+    FOR UPDATE;
+
+    -- Stock shortfalls are reported rather than rejected: the goods have already left the shop
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, p.stock_quantity
+        FROM (
+            SELECT (x->>'product_id')::uuid AS product_id, SUM((x->>'quantity')::int) AS quantity
+            FROM jsonb_array_elements(p_items) x
+            GROUP BY 1
+        ) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            RAISE EXCEPTION 'Product % no longer exists in this business', v_line.product_id;
+        END IF;
+        IF v_line.quantity > v_line.stock_quantity THEN
+            v_conflicts := v_conflicts || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'requested', v_line.quantity,
+                'available', v_line.stock_quantity
+            );
+        END IF;
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int);
+    END LOOP;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_paid_amount := v_paid_amount + (payment->>'amount')::numeric;
+    END LOOP;
+
+    IF jsonb_array_length(p_payments) = 0 OR round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(p_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := p_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(p_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    INSERT INTO sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number, client_sale_id, created_at)
+    VALUES (p_business_id, auth.uid(), p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, p_receipt_number, p_client_sale_id, p_sold_at)
+    RETURNING id INTO v_sale_id;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        INSERT INTO sale_items (sale_id, product_id, quantity, unit_price, total_price)
+        VALUES (
+            v_sale_id,
+            (item->>'product_id')::uuid,
+            (item->>'quantity')::int,
+            (item->>'unit_price')::numeric,
+            (item->>'quantity')::int * (item->>'unit_price')::numeric
+        );
+
+        UPDATE products
+        SET stock_quantity = stock_quantity - (item->>'quantity')::int
+        WHERE id = (item->>'product_id')::uuid;
+    END LOOP;
+
+    INSERT INTO offline_sale_conflicts (business_id, sale_id, product_id, requested, available)
+    SELECT p_business_id, v_sale_id, (c->>'product_id')::uuid, (c->>'requested')::int, (c->>'available')::int
+    FROM jsonb_array_elements(v_conflicts) c;
+
+    RETURN jsonb_build_object('sale_id', v_sale_id, 'receipt_number', p_receipt_number, 'duplicate', false, 'conflicts', v_conflicts);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.sync_offline_sale(uuid, uuid, text, jsonb, jsonb, timestamptz, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.resolve_offline_sale_conflict(p_conflict_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_business_id uuid;
+BEGIN
+    SELECT business_id INTO v_business_id FROM offline_sale_conflicts WHERE id = p_conflict_id AND resolved_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conflict not found or already resolved';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can resolve stock conflicts';
+    END IF;
+
+    UPDATE offline_sale_conflicts
+    SET resolved_by = auth.uid(), resolved_at = now()
+    WHERE id = p_conflict_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.resolve_offline_sale_conflict(uuid) TO authenticated;
@@ -0,0 +1,366 @@
+/*
+# [Suppliers, Purchase Orders and Goods Received Notes]
+Adds a restocking flow: suppliers, purchase orders with lines, goods received notes (GRNs) for full or partial deliveries, and supplier payments so each supplier has a payable balance.
+
+## Query Description:
+Stock is no longer only added by editing a product. Receiving a delivery against a purchase order creates a GRN, increments product stock and updates `buying_price` in one transaction. The new buying price is either the latest unit cost or the weighted average of the stock on hand and the delivery. A supplier's payable balance is the total of their GRNs less payments recorded against them. Existing data is not modified.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates enum `purchase_order_status_enum`.
+- Creates tables `suppliers`, `purchase_orders`, `purchase_order_items`, `goods_received_notes`, `goods_received_items` and `supplier_payments`.
+- Creates functions `create_purchase_order`, `receive_purchase_order`, `cancel_purchase_order` and `get_supplier_balances`.
+
+## Security Implications:
+- RLS Status: Enabled on all new tables.
+- Policy Changes: Yes, new policies for the new tables.
+- Auth Requirements: Business members. Purchase orders and GRNs are only written through the functions above.
+
+## Performance Impact:
+- Indexes: Adds indexes on the foreign keys used for lookups.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'purchase_order_status_enum') THEN
+        CREATE TYPE public.purchase_order_status_enum AS ENUM ('ordered', 'partially_received', 'received', 'cancelled');
+    END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  contact_person text,
+  phone text,
+  email text,
+  address text,
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS suppliers_business_id_idx ON public.suppliers(business_id);
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id),
+  po_number text UNIQUE NOT NULL,
+  status public.purchase_order_status_enum NOT NULL DEFAULT 'ordered',
+  expected_date date,
+  notes text,
+  total_amount numeric NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS purchase_orders_business_id_idx ON public.purchase_orders(business_id);
+CREATE INDEX IF NOT EXISTS purchase_orders_supplier_id_idx ON public.purchase_orders(supplier_id);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id),
+  quantity_ordered integer NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost numeric NOT NULL CHECK (unit_cost >= 0)
+);
+CREATE INDEX IF NOT EXISTS purchase_order_items_purchase_order_id_idx ON public.purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS purchase_order_items_product_id_idx ON public.purchase_order_items(product_id);
+
+CREATE TABLE IF NOT EXISTS public.goods_received_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id),
+  grn_number text UNIQUE NOT NULL,
+  total_amount numeric NOT NULL,
+  notes text,
+  received_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS goods_received_notes_purchase_order_id_idx ON public.goods_received_notes(purchase_order_id);
+CREATE INDEX IF NOT EXISTS goods_received_notes_supplier_id_idx ON public.goods_received_notes(supplier_id);
+
+CREATE TABLE IF NOT EXISTS public.goods_received_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_id uuid NOT NULL REFERENCES public.goods_received_notes(id) ON DELETE CASCADE,
+  purchase_order_item_id uuid NOT NULL REFERENCES public.purchase_order_items(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_cost numeric NOT NULL,
+  total_cost numeric NOT NULL
+);
+CREATE INDEX IF NOT EXISTS goods_received_items_grn_id_idx ON public.goods_received_items(grn_id);
+
+CREATE TABLE IF NOT EXISTS public.supplier_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('cash', 'mpesa', 'card', 'bank')),
+  reference text,
+  notes text,
+  paid_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS supplier_payments_supplier_id_idx ON public.supplier_payments(supplier_id);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow full access to business members on suppliers" ON public.suppliers;
+CREATE POLICY "Allow full access to business members on suppliers" ON public.suppliers FOR ALL USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.supplier_payments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view supplier_payments" ON public.supplier_payments;
+DROP POLICY IF EXISTS "Allow business members to record supplier_payments" ON public.supplier_payments;
+CREATE POLICY "Allow business members to view supplier_payments" ON public.supplier_payments FOR SELECT USING (is_business_member(business_id, auth.uid()));
+CREATE POLICY "Allow business members to record supplier_payments" ON public.supplier_payments FOR INSERT WITH CHECK (is_business_member(business_id, auth.uid()));
+
+-- Orders and deliveries are only ever written through the functions below.
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view purchase_orders" ON public.purchase_orders;
+CREATE POLICY "Allow business members to view purchase_orders" ON public.purchase_orders FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view purchase_order_items" ON public.purchase_order_items;
+CREATE POLICY "Allow business members to view purchase_order_items" ON public.purchase_order_items FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM purchase_orders po
+        WHERE po.id = purchase_order_items.purchase_order_id AND is_business_member(po.business_id, auth.uid())
+    )
+);
+
+ALTER TABLE public.goods_received_notes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view goods_received_notes" ON public.goods_received_notes;
+CREATE POLICY "Allow business members to view goods_received_notes" ON public.goods_received_notes FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.goods_received_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view goods_received_items" ON public.goods_received_items;
+CREATE POLICY "Allow business members to view goods_received_items" ON public.goods_received_items FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM goods_received_notes g
+        WHERE g.id = goods_received_items.grn_id AND is_business_member(g.business_id, auth.uid())
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+    p_business_id uuid,
+    p_supplier_id uuid,
+    p_items jsonb,
+    p_expected_date date DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order_id uuid;
+    v_total numeric := 0;
+    item jsonb;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Supplier not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A purchase order needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        IF NOT EXISTS (SELECT 1 FROM products WHERE id = (item->>'product_id')::uuid AND business_id = p_business_id) THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        v_total := v_total + (item->>'quantity')::int * (item->>'unit_cost')::numeric;
+    END LOOP;
+
+    INSERT INTO purchase_orders (business_id, supplier_id, po_number, expected_date, notes, total_amount, created_by)
+    VALUES (
+        p_business_id,
+        p_supplier_id,
+        'PO-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        p_expected_date,
+        p_notes,
+        v_total,
+        auth.uid()
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    SELECT v_order_id, (x->>'product_id')::uuid, (x->>'quantity')::int, (x->>'unit_cost')::numeric
+    FROM jsonb_array_elements(p_items) x;
+
+    RETURN v_order_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(uuid, uuid, jsonb, date, text) TO authenticated;
+
+/*
+  Receives a full or partial delivery. p_items: [{ "purchase_order_item_id", "quantity", "unit_cost" }], where
+  unit_cost defaults to the ordered cost. p_cost_method is 'latest' or 'weighted_average'.
+*/
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+    p_purchase_order_id uuid,
+    p_items jsonb,
+    p_cost_method text DEFAULT 'latest',
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+    v_line public.purchase_order_items%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_grn_id uuid;
+    v_total numeric := 0;
+    v_quantity int;
+    v_unit_cost numeric;
+    item jsonb;
+BEGIN
+    IF p_cost_method NOT IN ('latest', 'weighted_average') THEN
+        RAISE EXCEPTION 'Unknown cost method %', p_cost_method;
+    END IF;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is %', v_order.po_number, v_order.status;
+    END IF;
+
+    INSERT INTO goods_received_notes (business_id, purchase_order_id, supplier_id, grn_number, total_amount, notes, received_by)
+    VALUES (
+        v_order.business_id,
+        v_order.id,
+        v_order.supplier_id,
+        'GRN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        0,
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_grn_id;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_quantity := (item->>'quantity')::int;
+        CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+        SELECT * INTO v_line
+        FROM purchase_order_items
+        WHERE id = (item->>'purchase_order_item_id')::uuid AND purchase_order_id = v_order.id
+        FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is not on purchase order %', item->>'purchase_order_item_id', v_order.po_number;
+        END IF;
+        IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity_ordered THEN
+            RAISE EXCEPTION 'Cannot receive % more of a line with % outstanding', v_quantity, v_line.quantity_ordered - v_line.quantity_received;
+        END IF;
+
+        v_unit_cost := COALESCE((item->>'unit_cost')::numeric, v_line.unit_cost);
+
+        SELECT * INTO v_product FROM products WHERE id = v_line.product_id FOR UPDATE;
+
+        UPDATE products
+        SET stock_quantity = stock_quantity + v_quantity,
+            buying_price = CASE
+                WHEN p_cost_method = 'weighted_average' AND v_product.buying_price IS NOT NULL AND GREATEST(v_product.stock_quantity, 0) > 0 THEN
+                    round((GREATEST(v_product.stock_quantity, 0) * v_product.buying_price + v_quantity * v_unit_cost) / (GREATEST(v_product.stock_quantity, 0) + v_quantity), 2)
+                ELSE v_unit_cost
+            END,
+            updated_at = now()
+        WHERE id = v_line.product_id;
+
+        UPDATE purchase_order_items
+        SET quantity_received = quantity_received + v_quantity
+        WHERE id = v_line.id;
+
+        INSERT INTO goods_received_items (grn_id, purchase_order_item_id, product_id, quantity, unit_cost, total_cost)
+        VALUES (v_grn_id, v_line.id, v_line.product_id, v_quantity, v_unit_cost, v_quantity * v_unit_cost);
+
+        v_total := v_total + v_quantity * v_unit_cost;
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM goods_received_items WHERE grn_id = v_grn_id) THEN
+        RAISE EXCEPTION 'Enter a quantity for at least one line';
+    END IF;
+
+    UPDATE goods_received_notes SET total_amount = v_total WHERE id = v_grn_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+            WHEN EXISTS (SELECT 1 FROM purchase_order_items WHERE purchase_order_id = v_order.id AND quantity_received < quantity_ordered)
+            THEN 'partially_received'::public.purchase_order_status_enum
+            ELSE 'received'::public.purchase_order_status_enum
+        END,
+        updated_at = now()
+    WHERE id = v_order.id;
+
+    RETURN v_grn_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(uuid, jsonb, text, text) TO authenticated;
+
+-- Stock already received stays received; cancelling only closes whatever is still outstanding.
+CREATE OR REPLACE FUNCTION public.cancel_purchase_order(p_purchase_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is already %', v_order.po_number, v_order.status;
+    END IF;
+
+    UPDATE purchase_orders SET status = 'cancelled', updated_at = now() WHERE id = p_purchase_order_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.cancel_purchase_order(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_supplier_balances(p_business_id uuid)
+RETURNS TABLE (supplier_id uuid, received_total numeric, paid_total numeric, balance numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    SELECT s.id,
+           COALESCE(g.total, 0),
+           COALESCE(p.total, 0),
+           COALESCE(g.total, 0) - COALESCE(p.total, 0)
+    FROM suppliers s
+    LEFT JOIN (SELECT gr.supplier_id, SUM(gr.total_amount) AS total FROM goods_received_notes gr GROUP BY gr.supplier_id) g ON g.supplier_id = s.id
+    LEFT JOIN (SELECT sp.supplier_id, SUM(sp.amount) AS total FROM supplier_payments sp GROUP BY sp.supplier_id) p ON p.supplier_id = s.id
+    WHERE s.business_id = p_business_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_supplier_balances(uuid) TO authenticated;
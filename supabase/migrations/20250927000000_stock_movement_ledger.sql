@@ -0,0 +1,919 @@
+/*
+# [Stock Movement Ledger and Stock Takes]
+Adds an append-only `stock_movements` ledger so every change to `products.stock_quantity` is explained, plus a stock-take workflow that posts counted variances as ledger entries.
+
+## Query Description:
+All stock changes now go through `apply_stock_movement`, which updates the product and writes a ledger row with the resulting balance in one statement. Sales, offline sales, returns, approved voids and goods received are redefined to use it. Any other direct change to `stock_quantity` is still allowed but is logged as an adjustment by a trigger, so the ledger always sums to the stock on hand. Existing stock is carried into the ledger as an opening balance per product.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates enums `stock_movement_type_enum` and `stock_take_status_enum`.
+- Creates tables `stock_movements`, `stock_takes` and `stock_take_items`.
+- Creates functions `apply_stock_movement`, `adjust_stock`, `start_stock_take`, `record_stock_counts`, `post_stock_take`, `cancel_stock_take` and `get_stock_discrepancies`.
+- Recreates `create_sale_and_items`, `sync_offline_sale`, `create_sale_return`, `review_sale_void` and `receive_purchase_order`.
+
+## Security Implications:
+- RLS Status: Enabled on the new tables.
+- Policy Changes: Yes, read-only policies for business members on the new tables.
+- Auth Requirements: Adjustments and posting a stock take are limited to owners and managers. Any member can count.
+
+## Performance Impact:
+- Indexes: Adds indexes on `stock_movements(product_id, created_at)` and `stock_take_items.stock_take_id`.
+- Triggers: Adds an AFTER INSERT OR UPDATE trigger on `products` and a BEFORE UPDATE trigger on `stock_movements`.
+- Estimated Impact: Low. One extra insert per stock change.
+*/
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'stock_movement_type_enum') THEN
+        CREATE TYPE public.stock_movement_type_enum AS ENUM ('opening', 'sale', 'return', 'receipt', 'adjustment', 'transfer', 'stock_take');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'stock_take_status_enum') THEN
+        CREATE TYPE public.stock_take_status_enum AS ENUM ('counting', 'posted', 'cancelled');
+    END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  movement_type public.stock_movement_type_enum NOT NULL,
+  quantity integer NOT NULL,
+  balance_after integer NOT NULL,
+  reference_type text,
+  reference_id uuid,
+  reason text,
+  notes text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS stock_movements_product_id_created_at_idx ON public.stock_movements(product_id, created_at);
+CREATE INDEX IF NOT EXISTS stock_movements_business_id_idx ON public.stock_movements(business_id);
+
+CREATE TABLE IF NOT EXISTS public.stock_takes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  stock_take_number text UNIQUE NOT NULL,
+  status public.stock_take_status_enum NOT NULL DEFAULT 'counting',
+  category text,
+  notes text,
+  created_by uuid REFERENCES auth.users(id),
+  posted_by uuid REFERENCES auth.users(id),
+  posted_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS stock_takes_business_id_idx ON public.stock_takes(business_id);
+
+CREATE TABLE IF NOT EXISTS public.stock_take_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_id uuid NOT NULL REFERENCES public.stock_takes(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  expected_quantity integer NOT NULL,
+  counted_quantity integer CHECK (counted_quantity >= 0),
+  reason text,
+  UNIQUE (stock_take_id, product_id)
+);
+CREATE INDEX IF NOT EXISTS stock_take_items_stock_take_id_idx ON public.stock_take_items(stock_take_id);
+
+-- The ledger and stock takes are only ever written through the functions below.
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view stock_movements" ON public.stock_movements;
+CREATE POLICY "Allow business members to view stock_movements" ON public.stock_movements FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.stock_takes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view stock_takes" ON public.stock_takes;
+CREATE POLICY "Allow business members to view stock_takes" ON public.stock_takes FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.stock_take_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view stock_take_items" ON public.stock_take_items;
+CREATE POLICY "Allow business members to view stock_take_items" ON public.stock_take_items FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM stock_takes st
+        WHERE st.id = stock_take_items.stock_take_id AND is_business_member(st.business_id, auth.uid())
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.prevent_stock_movement_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    RAISE EXCEPTION 'Stock movements cannot be changed. Post a correcting adjustment instead.';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_stock_movements_update ON public.stock_movements;
+CREATE TRIGGER prevent_stock_movements_update BEFORE UPDATE ON public.stock_movements
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_stock_movement_mutation();
+
+/*
+  The single way stock should change: moves a product's stock by p_quantity (negative for stock going out)
+  and records the movement with the resulting balance. Returns the new balance.
+*/
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+    p_business_id uuid,
+    p_product_id uuid,
+    p_movement_type public.stock_movement_type_enum,
+    p_quantity integer,
+    p_reference_type text DEFAULT NULL,
+    p_reference_id uuid DEFAULT NULL,
+    p_reason text DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_balance integer;
+BEGIN
+    -- Tells log_direct_stock_change that this update is already being recorded
+    PERFORM set_config('app.stock_movement', 'on', true);
+
+    UPDATE products
+    SET stock_quantity = stock_quantity + p_quantity,
+        updated_at = now()
+    WHERE id = p_product_id AND business_id = p_business_id
+    RETURNING stock_quantity INTO v_balance;
+
+    PERFORM set_config('app.stock_movement', 'off', true);
+
+    IF v_balance IS NULL THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+
+    INSERT INTO stock_movements (business_id, product_id, movement_type, quantity, balance_after, reference_type, reference_id, reason, notes, created_by)
+    VALUES (p_business_id, p_product_id, p_movement_type, p_quantity, v_balance, p_reference_type, p_reference_id, p_reason, p_notes, auth.uid());
+
+    RETURN v_balance;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(uuid, uuid, public.stock_movement_type_enum, integer, text, uuid, text, text) FROM PUBLIC;
+
+-- Catches stock set outside apply_stock_movement (new products, product edits) so the ledger still balances.
+CREATE OR REPLACE FUNCTION public.log_direct_stock_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF current_setting('app.stock_movement', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF COALESCE(NEW.stock_quantity, 0) <> 0 THEN
+            INSERT INTO stock_movements (business_id, product_id, movement_type, quantity, balance_after, reason, created_by)
+            VALUES (NEW.business_id, NEW.id, 'opening', NEW.stock_quantity, NEW.stock_quantity, 'Opening stock', auth.uid());
+        END IF;
+    ELSIF NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+        INSERT INTO stock_movements (business_id, product_id, movement_type, quantity, balance_after, reason, created_by)
+        VALUES (NEW.business_id, NEW.id, 'adjustment', COALESCE(NEW.stock_quantity, 0) - COALESCE(OLD.stock_quantity, 0), COALESCE(NEW.stock_quantity, 0), 'Direct edit', auth.uid());
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_products_stock_change ON public.products;
+CREATE TRIGGER log_products_stock_change AFTER INSERT OR UPDATE OF stock_quantity ON public.products
+    FOR EACH ROW EXECUTE FUNCTION public.log_direct_stock_change();
+
+-- Carry today's stock into the ledger
+INSERT INTO public.stock_movements (business_id, product_id, movement_type, quantity, balance_after, reason)
+SELECT p.business_id, p.id, 'opening', p.stock_quantity, p.stock_quantity, 'Opening balance'
+FROM public.products p
+WHERE COALESCE(p.stock_quantity, 0) <> 0
+  AND NOT EXISTS (SELECT 1 FROM public.stock_movements m WHERE m.product_id = p.id);
+
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+    p_product_id uuid,
+    p_quantity integer,
+    p_reason text,
+    p_notes text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_business_id uuid;
+BEGIN
+    SELECT business_id INTO v_business_id FROM products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can adjust stock';
+    END IF;
+
+    IF p_quantity = 0 OR COALESCE(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'An adjustment needs a non-zero quantity and a reason';
+    END IF;
+
+    RETURN apply_stock_movement(v_business_id, p_product_id, 'adjustment', p_quantity, NULL, NULL, p_reason, p_notes);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.adjust_stock(uuid, integer, text, text) TO authenticated;
+
+-- Snapshots the expected quantity of every active product (optionally one category) to count against.
+CREATE OR REPLACE FUNCTION public.start_stock_take(
+    p_business_id uuid,
+    p_category text DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stock_take_id uuid;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    INSERT INTO stock_takes (business_id, stock_take_number, category, notes, created_by)
+    VALUES (
+        p_business_id,
+        'ST-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        NULLIF(p_category, ''),
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_stock_take_id;
+
+    INSERT INTO stock_take_items (stock_take_id, product_id, expected_quantity)
+    SELECT v_stock_take_id, id, stock_quantity
+    FROM products
+    WHERE business_id = p_business_id
+      AND COALESCE(is_active, true)
+      AND (NULLIF(p_category, '') IS NULL OR category = p_category);
+
+    RETURN v_stock_take_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.start_stock_take(uuid, text, text) TO authenticated;
+
+-- p_counts: [{ "product_id", "counted_quantity", "reason" }]; a null count clears the line.
+CREATE OR REPLACE FUNCTION public.record_stock_counts(p_stock_take_id uuid, p_counts jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stock_take public.stock_takes%ROWTYPE;
+BEGIN
+    SELECT * INTO v_stock_take FROM stock_takes WHERE id = p_stock_take_id;
+    IF NOT FOUND OR NOT is_business_member(v_stock_take.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock take not found';
+    END IF;
+    IF v_stock_take.status <> 'counting' THEN
+        RAISE EXCEPTION 'Stock take % is %', v_stock_take.stock_take_number, v_stock_take.status;
+    END IF;
+
+    UPDATE stock_take_items sti
+    SET counted_quantity = (c->>'counted_quantity')::int,
+        reason = NULLIF(c->>'reason', '')
+    FROM jsonb_array_elements(p_counts) c
+    WHERE sti.stock_take_id = p_stock_take_id
+      AND sti.product_id = (c->>'product_id')::uuid;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.record_stock_counts(uuid, jsonb) TO authenticated;
+
+/*
+  Posts each counted line's variance (counted - expected) as a stock_take movement. Applying the variance
+  rather than overwriting stock keeps any sales made while counting.
+*/
+CREATE OR REPLACE FUNCTION public.post_stock_take(p_stock_take_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stock_take public.stock_takes%ROWTYPE;
+    v_item record;
+BEGIN
+    SELECT * INTO v_stock_take FROM stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+    IF NOT FOUND OR v_stock_take.status <> 'counting' THEN
+        RAISE EXCEPTION 'Stock take not found or already closed';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_stock_take.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can post a stock take';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM stock_take_items
+        WHERE stock_take_id = p_stock_take_id
+          AND counted_quantity IS NOT NULL
+          AND counted_quantity <> expected_quantity
+          AND COALESCE(trim(reason), '') = ''
+    ) THEN
+        RAISE EXCEPTION 'Every variance needs a reason before the stock take can be posted';
+    END IF;
+
+    FOR v_item IN
+        SELECT product_id, counted_quantity - expected_quantity AS variance, reason
+        FROM stock_take_items
+        WHERE stock_take_id = p_stock_take_id
+          AND counted_quantity IS NOT NULL
+          AND counted_quantity <> expected_quantity
+        ORDER BY product_id
+    LOOP
+        PERFORM apply_stock_movement(v_stock_take.business_id, v_item.product_id, 'stock_take', v_item.variance, 'stock_take', p_stock_take_id, v_item.reason);
+    END LOOP;
+
+    UPDATE stock_takes
+    SET status = 'posted', posted_by = auth.uid(), posted_at = now()
+    WHERE id = p_stock_take_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.post_stock_take(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_stock_take(p_stock_take_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stock_take public.stock_takes%ROWTYPE;
+BEGIN
+    SELECT * INTO v_stock_take FROM stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_stock_take.business_id, auth.uid()) OR v_stock_take.status <> 'counting' THEN
+        RAISE EXCEPTION 'Stock take not found or already closed';
+    END IF;
+
+    UPDATE stock_takes SET status = 'cancelled' WHERE id = p_stock_take_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.cancel_stock_take(uuid) TO authenticated;
+
+-- Products whose stock on hand no longer matches the sum of their ledger entries.
+CREATE OR REPLACE FUNCTION public.get_stock_discrepancies(p_business_id uuid)
+RETURNS TABLE (product_id uuid, name text, stock_quantity integer, ledger_quantity integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.id, p.name::text, p.stock_quantity::integer, COALESCE(SUM(m.quantity), 0)::integer
+    FROM products p
+    LEFT JOIN stock_movements m ON m.product_id = p.id
+    WHERE p.business_id = p_business_id
+    GROUP BY p.id, p.name, p.stock_quantity
+    HAVING COALESCE(SUM(m.quantity), 0) <> COALESCE(p.stock_quantity, 0);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_stock_discrepancies(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_sale_and_items(
+    p_business_id uuid,
+    p_cashier_id uuid,
+    p_items jsonb,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_payment_method text DEFAULT 'cash',
+    p_mpesa_code text DEFAULT NULL,
+    p_payments jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_receipt_number text;
+    v_payments jsonb;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_errors jsonb;
+    item jsonb;
+    payment jsonb;
+    v_product_id uuid;
+    v_quantity int;
+    v_unit_price numeric;
+    v_amount numeric;
+    v_tendered numeric;
+BEGIN
+    -- Signed-in callers record sales as themselves; the M-Pesa callback runs without a user
+    IF auth.uid() IS NOT NULL AND (p_cashier_id IS DISTINCT FROM auth.uid() OR NOT is_business_member(p_business_id, auth.uid())) THEN
+        RAISE EXCEPTION 'Not allowed to record sales for this business';
+    END IF;
+
+    -- Lock the products in a consistent order so concurrent checkouts queue instead of overselling
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT (x->>'product_id')::uuid FROM jsonb_array_elements(p_items) x)
+    ORDER BY id
+    FOR UPDATE;
+
+    v_errors := public.validate_sale_items(p_business_id, p_cashier_id, p_items);
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION USING
+            MESSAGE = 'Some items in this sale cannot be sold as entered',
+            DETAIL = v_errors::text,
+            HINT = 'sale_validation_failed';
+    END IF;
+
+    -- Calculate total amount from the items JSON
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int);
+    END LOOP;
+
+    -- Callers that pass a single payment method pay the whole total with it
+    v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+        'method', lower(p_payment_method),
+        'amount', v_total_amount,
+        'tendered', v_total_amount,
+        'reference', p_mpesa_code
+    )));
+
+    IF jsonb_array_length(v_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required';
+    END IF;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero';
+        END IF;
+        IF payment->>'method' = 'cash' AND COALESCE((payment->>'tendered')::numeric, v_amount) < v_amount THEN
+            RAISE EXCEPTION 'Cash tendered (%) is less than the cash amount due (%)', payment->>'tendered', v_amount;
+        END IF;
+        v_paid_amount := v_paid_amount + v_amount;
+    END LOOP;
+
+    IF round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(v_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := v_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(v_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    -- Generate a unique receipt number
+    v_receipt_number := 'RCPT-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6);
+
+    -- Insert the main sale record
+    INSERT INTO public.sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number)
+    VALUES (p_business_id, p_cashier_id, p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, v_receipt_number)
+    RETURNING id INTO v_sale_id;
+
+    -- Record each tender, with change only ever given on cash
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO public.sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    -- Insert sale items and post each line to the stock ledger
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_product_id := (item->>'product_id')::uuid;
+        v_quantity := (item->>'quantity')::int;
+        v_unit_price := (item->>'unit_price')::numeric;
+
+        INSERT INTO public.sale_items (sale_id, product_id, quantity, unit_price, total_price)
+        VALUES (v_sale_id, v_product_id, v_quantity, v_unit_price, v_quantity * v_unit_price);
+
+        PERFORM public.apply_stock_movement(p_business_id, v_product_id, 'sale', -v_quantity, 'sale', v_sale_id);
+    END LOOP;
+
+    RETURN v_sale_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+    p_business_id uuid,
+    p_client_sale_id uuid,
+    p_receipt_number text,
+    p_items jsonb,
+    p_payments jsonb,
+    p_sold_at timestamptz,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_existing public.sales%ROWTYPE;
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_conflicts jsonb := '[]'::jsonb;
+    v_line record;
+    item jsonb;
+    payment jsonb;
+    v_amount numeric;
+    v_tendered numeric;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- A retry after a dropped response must not record the sale twice
+    SELECT * INTO v_existing FROM sales WHERE client_sale_id = p_client_sale_id;
+    IF FOUND THEN
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'product_id', c.product_id, 'name', p.name, 'requested', c.requested, 'available', c.available
+        )), '[]'::jsonb)
+        INTO v_conflicts
+        FROM offline_sale_conflicts c
+        JOIN products p ON p.id = c.product_id
+        WHERE c.sale_id = v_existing.id;
+
+        RETURN jsonb_build_object('sale_id', v_existing.id, 'receipt_number', v_existing.receipt_number, 'duplicate', true, 'conflicts', v_conflicts);
+    END IF;
+
+    PERFORM 1
+    FROM products
+    WHERE id IN (SELECT (x->>'product_id')::uuid FROM jsonb_array_elements(p_items) x)
+    ORDER BY id
+    FOR UPDATE;
+
+    -- Stock shortfalls are reported rather than rejected: the goods have already left the shop
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, p.stock_quantity
+        FROM (
+            SELECT (x->>'product_id')::uuid AS product_id, SUM((x->>'quantity')::int) AS quantity
+            FROM jsonb_array_elements(p_items) x
+            GROUP BY 1
+        ) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            RAISE EXCEPTION 'Product % no longer exists in this business', v_line.product_id;
+        END IF;
+        IF v_line.quantity > v_line.stock_quantity THEN
+            v_conflicts := v_conflicts || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'requested', v_line.quantity,
+                'available', v_line.stock_quantity
+            );
+        END IF;
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int);
+    END LOOP;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_paid_amount := v_paid_amount + (payment->>'amount')::numeric;
+    END LOOP;
+
+    IF jsonb_array_length(p_payments) = 0 OR round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(p_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := p_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(p_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    INSERT INTO sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number, client_sale_id, created_at)
+    VALUES (p_business_id, auth.uid(), p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, p_receipt_number, p_client_sale_id, p_sold_at)
+    RETURNING id INTO v_sale_id;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        INSERT INTO sale_items (sale_id, product_id, quantity, unit_price, total_price)
+        VALUES (
+            v_sale_id,
+            (item->>'product_id')::uuid,
+            (item->>'quantity')::int,
+            (item->>'unit_price')::numeric,
+            (item->>'quantity')::int * (item->>'unit_price')::numeric
+        );
+
+        PERFORM apply_stock_movement(p_business_id, (item->>'product_id')::uuid, 'sale', -(item->>'quantity')::int, 'sale', v_sale_id, 'Offline sale');
+    END LOOP;
+
+    INSERT INTO offline_sale_conflicts (business_id, sale_id, product_id, requested, available)
+    SELECT p_business_id, v_sale_id, (c->>'product_id')::uuid, (c->>'requested')::int, (c->>'available')::int
+    FROM jsonb_array_elements(v_conflicts) c;
+
+    RETURN jsonb_build_object('sale_id', v_sale_id, 'receipt_number', p_receipt_number, 'duplicate', false, 'conflicts', v_conflicts);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_sale_return(
+    p_sale_id uuid,
+    p_items jsonb,
+    p_reason_code text,
+    p_refund_method text DEFAULT 'cash',
+    p_notes text DEFAULT NULL,
+    p_is_void boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale public.sales%ROWTYPE;
+    v_user_id uuid := auth.uid();
+    v_is_manager boolean;
+    v_return_id uuid;
+    v_status public.sale_return_status_enum;
+    v_total numeric := 0;
+    v_line record;
+    v_requested int;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_sale.business_id, v_user_id) THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM sale_returns WHERE sale_id = p_sale_id AND return_type = 'void' AND status <> 'rejected') THEN
+        RAISE EXCEPTION 'Sale % has already been voided', v_sale.receipt_number;
+    END IF;
+
+    SELECT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_sale.business_id AND user_id = v_user_id AND is_active = true AND role IN ('owner', 'manager')
+    ) INTO v_is_manager;
+
+    v_status := CASE WHEN p_is_void AND NOT v_is_manager THEN 'pending_approval' ELSE 'completed' END;
+
+    INSERT INTO sale_returns (business_id, sale_id, return_number, return_type, status, reason_code, notes, total_amount, refund_method, processed_by, approved_by, approved_at)
+    VALUES (
+        v_sale.business_id,
+        p_sale_id,
+        'RTN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        CASE WHEN p_is_void THEN 'void' ELSE 'return' END::public.sale_return_type_enum,
+        v_status,
+        p_reason_code,
+        p_notes,
+        0,
+        p_refund_method,
+        v_user_id,
+        CASE WHEN p_is_void AND v_is_manager THEN v_user_id END,
+        CASE WHEN p_is_void AND v_is_manager THEN now() END
+    )
+    RETURNING id INTO v_return_id;
+
+    -- Quantities still returnable per line exclude completed and pending returns
+    FOR v_line IN
+        SELECT si.id, si.product_id, si.unit_price,
+               si.quantity - COALESCE((
+                   SELECT SUM(ri.quantity) FROM sale_return_items ri
+                   JOIN sale_returns r ON r.id = ri.return_id
+                   WHERE ri.sale_item_id = si.id AND r.status <> 'rejected' AND r.id <> v_return_id
+               ), 0) AS returnable
+        FROM sale_items si
+        WHERE si.sale_id = p_sale_id
+    LOOP
+        IF p_is_void THEN
+            v_requested := v_line.returnable;
+        ELSE
+            SELECT COALESCE(SUM((x->>'quantity')::int), 0) INTO v_requested
+            FROM jsonb_array_elements(p_items) x
+            WHERE (x->>'sale_item_id')::uuid = v_line.id;
+        END IF;
+
+        IF v_requested > v_line.returnable THEN
+            RAISE EXCEPTION 'Cannot return % of a line that only has % left to return', v_requested, v_line.returnable;
+        END IF;
+
+        IF v_requested > 0 THEN
+            INSERT INTO sale_return_items (return_id, sale_item_id, product_id, quantity, unit_price, total_price)
+            VALUES (v_return_id, v_line.id, v_line.product_id, v_requested, v_line.unit_price, v_requested * v_line.unit_price);
+            v_total := v_total + v_requested * v_line.unit_price;
+
+            IF v_status = 'completed' THEN
+                PERFORM apply_stock_movement(v_sale.business_id, v_line.product_id, 'return', v_requested, 'sale_return', v_return_id, p_reason_code);
+            END IF;
+        END IF;
+    END LOOP;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION 'Nothing to return on sale %', v_sale.receipt_number;
+    END IF;
+
+    UPDATE sale_returns SET total_amount = v_total WHERE id = v_return_id;
+
+    RETURN v_return_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_sale_void(p_return_id uuid, p_approve boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_return public.sale_returns%ROWTYPE;
+    v_item record;
+BEGIN
+    SELECT * INTO v_return FROM sale_returns WHERE id = p_return_id FOR UPDATE;
+    IF NOT FOUND OR v_return.status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Void request not found or already reviewed';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_return.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can review voids';
+    END IF;
+
+    UPDATE sale_returns
+    SET status = CASE WHEN p_approve THEN 'completed' ELSE 'rejected' END::public.sale_return_status_enum,
+        approved_by = auth.uid(),
+        approved_at = now()
+    WHERE id = p_return_id;
+
+    IF p_approve THEN
+        FOR v_item IN SELECT product_id, quantity FROM sale_return_items WHERE return_id = p_return_id
+        LOOP
+            PERFORM apply_stock_movement(v_return.business_id, v_item.product_id, 'return', v_item.quantity, 'sale_return', p_return_id, v_return.reason_code);
+        END LOOP;
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+    p_purchase_order_id uuid,
+    p_items jsonb,
+    p_cost_method text DEFAULT 'latest',
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+    v_line public.purchase_order_items%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_grn_id uuid;
+    v_total numeric := 0;
+    v_quantity int;
+    v_unit_cost numeric;
+    item jsonb;
+BEGIN
+    IF p_cost_method NOT IN ('latest', 'weighted_average') THEN
+        RAISE EXCEPTION 'Unknown cost method %', p_cost_method;
+    END IF;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is %', v_order.po_number, v_order.status;
+    END IF;
+
+    INSERT INTO goods_received_notes (business_id, purchase_order_id, supplier_id, grn_number, total_amount, notes, received_by)
+    VALUES (
+        v_order.business_id,
+        v_order.id,
+        v_order.supplier_id,
+        'GRN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        0,
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_grn_id;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_quantity := (item->>'quantity')::int;
+        CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+        SELECT * INTO v_line
+        FROM purchase_order_items
+        WHERE id = (item->>'purchase_order_item_id')::uuid AND purchase_order_id = v_order.id
+        FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is not on purchase order %', item->>'purchase_order_item_id', v_order.po_number;
+        END IF;
+        IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity_ordered THEN
+            RAISE EXCEPTION 'Cannot receive % more of a line with % outstanding', v_quantity, v_line.quantity_ordered - v_line.quantity_received;
+        END IF;
+
+        v_unit_cost := COALESCE((item->>'unit_cost')::numeric, v_line.unit_cost);
+
+        SELECT * INTO v_product FROM products WHERE id = v_line.product_id FOR UPDATE;
+
+        UPDATE products
+        SET buying_price = CASE
+                WHEN p_cost_method = 'weighted_average' AND v_product.buying_price IS NOT NULL AND GREATEST(v_product.stock_quantity, 0) > 0 THEN
+                    round((GREATEST(v_product.stock_quantity, 0) * v_product.buying_price + v_quantity * v_unit_cost) / (GREATEST(v_product.stock_quantity, 0) + v_quantity), 2)
+                ELSE v_unit_cost
+            END,
+            updated_at = now()
+        WHERE id = v_line.product_id;
+
+        PERFORM apply_stock_movement(v_order.business_id, v_line.product_id, 'receipt', v_quantity, 'goods_received_note', v_grn_id);
+
+        UPDATE purchase_order_items
+        SET quantity_received = quantity_received + v_quantity
+        WHERE id = v_line.id;
+
+        INSERT INTO goods_received_items (grn_id, purchase_order_item_id, product_id, quantity, unit_cost, total_cost)
+        VALUES (v_grn_id, v_line.id, v_line.product_id, v_quantity, v_unit_cost, v_quantity * v_unit_cost);
+
+        v_total := v_total + v_quantity * v_unit_cost;
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM goods_received_items WHERE grn_id = v_grn_id) THEN
+        RAISE EXCEPTION 'Enter a quantity for at least one line';
+    END IF;
+
+    UPDATE goods_received_notes SET total_amount = v_total WHERE id = v_grn_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+            WHEN EXISTS (SELECT 1 FROM purchase_order_items WHERE purchase_order_id = v_order.id AND quantity_received < quantity_ordered)
+            THEN 'partially_received'::public.purchase_order_status_enum
+            ELSE 'received'::public.purchase_order_status_enum
+        END,
+        updated_at = now()
+    WHERE id = v_order.id;
+
+    RETURN v_grn_id;
+END;
+$$;
@@ -0,0 +1,114 @@
+/*
+# [Cost at Time of Sale]
+Captures the product's buying price on every sale line so gross profit stays correct after buying prices change, and adds a gross profit reporting function.
+
+## Query Description:
+Adds `sale_items.unit_cost`. A BEFORE INSERT trigger copies the product's current `buying_price` onto each new line unless the caller supplies a cost, so online sales, offline syncs and M-Pesa sales all capture it without changes to their functions. Lines recorded before this migration are backfilled with today's buying price, which is the best estimate available for them.
+
+## Metadata:
+- Schema-Category: ["Structural", "Data"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds column `unit_cost` to `sale_items`.
+- Creates trigger function `set_sale_item_cost` and trigger `set_sale_item_cost` on `sale_items`.
+- Creates function `get_gross_profit`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: `get_gross_profit` is limited to business members.
+
+## Performance Impact:
+- Indexes: None.
+- Triggers: Adds a BEFORE INSERT trigger on `sale_items`.
+- Estimated Impact: Low. One primary key lookup per sale line.
+*/
+
+ALTER TABLE public.sale_items ADD COLUMN IF NOT EXISTS unit_cost numeric(10, 2);
+
+-- Historical lines are otherwise immutable; lift the guard just for the backfill
+ALTER TABLE public.sale_items DISABLE TRIGGER prevent_sale_items_update;
+UPDATE public.sale_items si
+SET unit_cost = p.buying_price
+FROM public.products p
+WHERE p.id = si.product_id AND si.unit_cost IS NULL;
+ALTER TABLE public.sale_items ENABLE TRIGGER prevent_sale_items_update;
+
+CREATE OR REPLACE FUNCTION public.set_sale_item_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.unit_cost IS NULL THEN
+        SELECT buying_price INTO NEW.unit_cost FROM products WHERE id = NEW.product_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_sale_item_cost ON public.sale_items;
+CREATE TRIGGER set_sale_item_cost BEFORE INSERT ON public.sale_items
+    FOR EACH ROW EXECUTE FUNCTION public.set_sale_item_cost();
+
+/*
+  Returns one row per product per day with net quantity, revenue and cost. Completed returns and approved
+  voids are subtracted on the day they happened, at the cost recorded on the original sale line.
+  Lines with no recorded cost contribute to revenue with zero cost and are counted in uncosted_quantity.
+*/
+CREATE OR REPLACE FUNCTION public.get_gross_profit(p_business_id uuid, p_start date, p_end date)
+RETURNS TABLE(
+    day date,
+    product_id uuid,
+    product_name text,
+    category text,
+    quantity bigint,
+    revenue numeric,
+    cost numeric,
+    uncosted_quantity bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    WITH lines AS (
+        SELECT s.created_at::date AS day, si.product_id, si.quantity, si.total_price AS revenue, si.unit_cost
+        FROM sales s
+        JOIN sale_items si ON si.sale_id = s.id
+        WHERE s.business_id = p_business_id
+          AND s.created_at::date BETWEEN p_start AND p_end
+        UNION ALL
+        SELECT r.created_at::date, ri.product_id, -ri.quantity, -ri.total_price, si.unit_cost
+        FROM sale_returns r
+        JOIN sale_return_items ri ON ri.return_id = r.id
+        JOIN sale_items si ON si.id = ri.sale_item_id
+        WHERE r.business_id = p_business_id
+          AND r.status = 'completed'
+          AND r.created_at::date BETWEEN p_start AND p_end
+    )
+    SELECT
+        l.day,
+        l.product_id,
+        p.name,
+        p.category,
+        SUM(l.quantity)::bigint,
+        SUM(l.revenue),
+        SUM(l.quantity * COALESCE(l.unit_cost, 0)),
+        (SUM(l.quantity) FILTER (WHERE l.unit_cost IS NULL))::bigint
+    FROM lines l
+    JOIN products p ON p.id = l.product_id
+    GROUP BY l.day, l.product_id, p.name, p.category
+    ORDER BY l.day, p.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_gross_profit(uuid, date, date) TO authenticated;
@@ -0,0 +1,83 @@
+/*
+# [Revenue Growth Report]
+Adds a function that buckets revenue by day, week or month across every revenue source, for the Revenue Growth report.
+
+## Query Description:
+`get_revenue_series` uses the same sources as `get_dashboard_stats`: sales net of completed returns, rent payments, fee payments and bookings. Every bucket in the range is returned, including empty ones, so charts and period comparisons line up. Read-only; no data is changed.
+
+## Metadata:
+- Schema-Category: ["Safe"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates function `get_revenue_series`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Limited to business members.
+
+## Performance Impact:
+- Indexes: None.
+- Triggers: None.
+- Estimated Impact: Low. Scans each source table once for the business and range.
+*/
+
+CREATE OR REPLACE FUNCTION public.get_revenue_series(p_business_id uuid, p_start date, p_end date, p_bucket text DEFAULT 'day')
+RETURNS TABLE(
+    bucket date,
+    sales_revenue numeric,
+    rent_revenue numeric,
+    fee_revenue numeric,
+    booking_revenue numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF p_bucket NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Unknown bucket %, expected day, week or month', p_bucket;
+    END IF;
+
+    RETURN QUERY
+    WITH revenue AS (
+        SELECT 'sales' AS source, s.total_amount AS amount, s.created_at FROM sales s WHERE s.business_id = p_business_id
+        UNION ALL
+        SELECT 'sales', -r.total_amount, r.created_at FROM sale_returns r WHERE r.business_id = p_business_id AND r.status = 'completed'
+        UNION ALL
+        SELECT 'rent', rp.amount, rp.created_at FROM rent_payments rp WHERE rp.business_id = p_business_id
+        UNION ALL
+        SELECT 'fees', fp.amount, fp.created_at FROM fee_payments fp WHERE fp.business_id = p_business_id
+        UNION ALL
+        SELECT 'bookings', b.total_amount, b.created_at FROM bookings b WHERE b.business_id = p_business_id
+    ),
+    buckets AS (
+        SELECT generate_series(
+            date_trunc(p_bucket, p_start::timestamp),
+            date_trunc(p_bucket, p_end::timestamp),
+            ('1 ' || p_bucket)::interval
+        )::date AS bucket_start
+    )
+    SELECT
+        bk.bucket_start,
+        COALESCE(SUM(rv.amount) FILTER (WHERE rv.source = 'sales'), 0),
+        COALESCE(SUM(rv.amount) FILTER (WHERE rv.source = 'rent'), 0),
+        COALESCE(SUM(rv.amount) FILTER (WHERE rv.source = 'fees'), 0),
+        COALESCE(SUM(rv.amount) FILTER (WHERE rv.source = 'bookings'), 0)
+    FROM buckets bk
+    LEFT JOIN revenue rv
+        ON date_trunc(p_bucket, rv.created_at)::date = bk.bucket_start
+       AND rv.created_at::date BETWEEN p_start AND p_end
+    GROUP BY bk.bucket_start
+    ORDER BY bk.bucket_start;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_revenue_series(uuid, date, date, text) TO authenticated;
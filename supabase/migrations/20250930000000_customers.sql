@@ -0,0 +1,194 @@
+/*
+# [Retail Customers]
+Adds a `customers` table keyed by phone number, links sales to it, and adds the data function behind the Customer Demographics report.
+
+## Query Description:
+A BEFORE INSERT trigger on `sales` finds or creates the customer whenever a sale carries a phone number, so checkout, offline sync and M-Pesa sales (which pass the paying number) are all linked without changes to their functions. Phone numbers are normalised to 2547XXXXXXXX so the same customer is recognised however the number was typed. Existing sales with a phone number are backfilled.
+
+## Metadata:
+- Schema-Category: ["Structural", "Data"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates table `customers`.
+- Adds column `customer_id` to `sales`.
+- Creates functions `normalize_phone`, `link_sale_customer` and `get_customer_demographics`.
+- Creates trigger `link_sale_customer` on `sales`.
+
+## Security Implications:
+- RLS Status: Enabled on `customers`.
+- Policy Changes: Yes, business members can manage customers.
+- Auth Requirements: `get_customer_demographics` is limited to business members.
+
+## Performance Impact:
+- Indexes: Adds a unique index on `customers(business_id, phone)` and an index on `sales.customer_id`.
+- Triggers: Adds a BEFORE INSERT trigger on `sales`.
+- Estimated Impact: Low. One upsert per sale that has a phone number.
+*/
+
+CREATE TABLE IF NOT EXISTS public.customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  phone text NOT NULL,
+  name text,
+  email text,
+  notes text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (business_id, phone)
+);
+
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS sales_customer_id_idx ON public.sales(customer_id);
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow full access to business members on customers" ON public.customers;
+CREATE POLICY "Allow full access to business members on customers" ON public.customers FOR ALL USING (is_business_member(business_id, auth.uid()));
+
+-- Mirrors normalizeMsisdn in the Daraja client; anything unrecognised is kept as bare digits.
+CREATE OR REPLACE FUNCTION public.normalize_phone(p_phone text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_digits text := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+BEGIN
+    IF v_digits = '' THEN
+        RETURN NULL;
+    ELSIF v_digits LIKE '254%' AND length(v_digits) = 12 THEN
+        RETURN v_digits;
+    ELSIF v_digits LIKE '0%' AND length(v_digits) = 10 THEN
+        RETURN '254' || substr(v_digits, 2);
+    ELSIF length(v_digits) = 9 THEN
+        RETURN '254' || v_digits;
+    END IF;
+    RETURN v_digits;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.link_sale_customer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_phone text;
+BEGIN
+    v_phone := normalize_phone(NEW.customer_phone);
+    IF NEW.customer_id IS NULL AND v_phone IS NOT NULL THEN
+        INSERT INTO customers (business_id, phone, name)
+        VALUES (NEW.business_id, v_phone, NULLIF(trim(NEW.customer_name), ''))
+        ON CONFLICT (business_id, phone) DO UPDATE SET name = COALESCE(customers.name, EXCLUDED.name)
+        RETURNING id INTO NEW.customer_id;
+        NEW.customer_phone := v_phone;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_sale_customer ON public.sales;
+CREATE TRIGGER link_sale_customer BEFORE INSERT ON public.sales
+    FOR EACH ROW EXECUTE FUNCTION public.link_sale_customer();
+
+-- Backfill customers from past sales, naming each after the most recent name given
+INSERT INTO public.customers (business_id, phone, name, created_at)
+SELECT DISTINCT ON (business_id, normalize_phone(customer_phone))
+    business_id,
+    normalize_phone(customer_phone),
+    NULLIF(trim(customer_name), ''),
+    MIN(created_at) OVER (PARTITION BY business_id, normalize_phone(customer_phone))
+FROM public.sales
+WHERE normalize_phone(customer_phone) IS NOT NULL
+ORDER BY business_id, normalize_phone(customer_phone), (NULLIF(trim(customer_name), '') IS NULL), created_at DESC
+ON CONFLICT (business_id, phone) DO NOTHING;
+
+ALTER TABLE public.sales DISABLE TRIGGER prevent_sales_update;
+UPDATE public.sales s
+SET customer_id = c.id
+FROM public.customers c
+WHERE s.customer_id IS NULL
+  AND c.business_id = s.business_id
+  AND c.phone = normalize_phone(s.customer_phone);
+ALTER TABLE public.sales ENABLE TRIGGER prevent_sales_update;
+
+/*
+  Customer metrics for sales in [p_start, p_end]. A customer is "new" in the week of their first ever
+  purchase and "returning" in any later week they buy. Basket figures cover all sales, identified or not.
+*/
+CREATE OR REPLACE FUNCTION public.get_customer_demographics(p_business_id uuid, p_start date, p_end date)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result jsonb;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    WITH period_sales AS (
+        SELECT s.id, s.customer_id, s.total_amount, s.created_at,
+               (SELECT COALESCE(SUM(si.quantity), 0) FROM sale_items si WHERE si.sale_id = s.id) AS items
+        FROM sales s
+        WHERE s.business_id = p_business_id
+          AND s.created_at::date BETWEEN p_start AND p_end
+    ),
+    first_visits AS (
+        SELECT s.customer_id, MIN(s.created_at) AS first_visit
+        FROM sales s
+        WHERE s.business_id = p_business_id AND s.customer_id IS NOT NULL
+        GROUP BY s.customer_id
+    ),
+    per_customer AS (
+        SELECT ps.customer_id, COUNT(*) AS visits, SUM(ps.total_amount) AS spend
+        FROM period_sales ps
+        WHERE ps.customer_id IS NOT NULL
+        GROUP BY ps.customer_id
+    ),
+    top_customers AS (
+        SELECT c.id, c.name, c.phone, pc.visits, pc.spend, fv.first_visit
+        FROM per_customer pc
+        JOIN customers c ON c.id = pc.customer_id
+        JOIN first_visits fv ON fv.customer_id = pc.customer_id
+        ORDER BY pc.spend DESC
+        LIMIT 10
+    ),
+    weekly AS (
+        SELECT
+            date_trunc('week', ps.created_at)::date AS week,
+            COUNT(DISTINCT ps.customer_id) FILTER (WHERE date_trunc('week', fv.first_visit) = date_trunc('week', ps.created_at)) AS new_customers,
+            COUNT(DISTINCT ps.customer_id) FILTER (WHERE date_trunc('week', fv.first_visit) < date_trunc('week', ps.created_at)) AS returning_customers,
+            COUNT(*) FILTER (WHERE ps.customer_id IS NULL) AS anonymous_sales
+        FROM period_sales ps
+        LEFT JOIN first_visits fv ON fv.customer_id = ps.customer_id
+        GROUP BY 1
+    )
+    SELECT jsonb_build_object(
+        'summary', (
+            SELECT jsonb_build_object(
+                'sales_count', COUNT(*),
+                'revenue', COALESCE(SUM(ps.total_amount), 0),
+                'items', COALESCE(SUM(ps.items), 0),
+                'identified_sales', COUNT(ps.customer_id),
+                'customers', (SELECT COUNT(*) FROM per_customer),
+                'repeat_customers', (SELECT COUNT(*) FROM per_customer WHERE visits > 1),
+                'new_customers', (SELECT COUNT(*) FROM first_visits WHERE first_visit::date BETWEEN p_start AND p_end)
+            )
+            FROM period_sales ps
+        ),
+        'top_customers', (SELECT COALESCE(jsonb_agg(t ORDER BY t.spend DESC), '[]'::jsonb) FROM top_customers t),
+        'weekly', (SELECT COALESCE(jsonb_agg(w ORDER BY w.week), '[]'::jsonb) FROM weekly w)
+    )
+    INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_customer_demographics(uuid, date, date) TO authenticated;
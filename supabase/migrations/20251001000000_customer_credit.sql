@@ -0,0 +1,330 @@
+/*
+# [Customer Credit and Accounts Receivable]
+Lets retail businesses sell to known customers on account, up to a credit limit, and take repayments later.
+
+## Query Description:
+Adds an `account` tender. Account tenders post to the customer linked to the sale, and a trigger on `sale_payments` rejects the sale if it would take the customer past their credit limit. This covers checkout, offline sync and M-Pesa splits without changes to those functions. Returns and voids can be credited back to the account. Repayments are recorded in `customer_payments`, and a trigger rejects any repayment larger than what the customer owes. Adds functions for customer balances, aged debtors and statements. No existing data is changed.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds column `credit_limit` to `customers`.
+- Creates table `customer_payments`.
+- Allows `account` in `sale_payments.method` and `sale_returns.refund_method`.
+- Creates functions `get_customer_balance`, `check_account_tender`, `check_customer_payment`, `check_account_refund`, `guard_customer_credit_limit`, `get_aged_debtors` and `get_customer_ledger`.
+
+## Security Implications:
+- RLS Status: Enabled on `customer_payments`.
+- Policy Changes: Yes, business members can view customer payments and record them against their own business's customers.
+- Auth Requirements: Only owners and managers can set credit limits.
+
+## Performance Impact:
+- Indexes: Adds an index on `customer_payments.customer_id`.
+- Triggers: Adds BEFORE INSERT triggers on `sale_payments`, `customer_payments` and `sale_returns` and a BEFORE INSERT OR UPDATE trigger on `customers`.
+- Estimated Impact: Low. The credit check only runs for account tenders.
+*/
+
+ALTER TABLE public.customers ADD COLUMN IF NOT EXISTS credit_limit numeric NOT NULL DEFAULT 0 CHECK (credit_limit >= 0);
+
+ALTER TABLE public.sale_payments DROP CONSTRAINT IF EXISTS sale_payments_method_check;
+ALTER TABLE public.sale_payments ADD CONSTRAINT sale_payments_method_check CHECK (method IN ('cash', 'mpesa', 'card', 'account'));
+
+ALTER TABLE public.sale_returns DROP CONSTRAINT IF EXISTS sale_returns_refund_method_check;
+ALTER TABLE public.sale_returns ADD CONSTRAINT sale_returns_refund_method_check CHECK (refund_method IN ('cash', 'mpesa', 'card', 'account'));
+
+CREATE TABLE IF NOT EXISTS public.customer_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('cash', 'mpesa')),
+  reference text,
+  notes text,
+  received_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS customer_payments_customer_id_idx ON public.customer_payments(customer_id);
+
+ALTER TABLE public.customer_payments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view customer_payments" ON public.customer_payments;
+DROP POLICY IF EXISTS "Allow business members to record customer_payments" ON public.customer_payments;
+CREATE POLICY "Allow business members to view customer_payments" ON public.customer_payments FOR SELECT USING (is_business_member(business_id, auth.uid()));
+CREATE POLICY "Allow business members to record customer_payments" ON public.customer_payments FOR INSERT WITH CHECK (
+  is_business_member(business_id, auth.uid())
+  AND EXISTS (SELECT 1 FROM public.customers c WHERE c.id = customer_id AND c.business_id = customer_payments.business_id)
+);
+
+-- Amount owed: account tenders, less returns credited to the account, less repayments.
+CREATE OR REPLACE FUNCTION public.get_customer_balance(p_customer_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_business_id uuid;
+    v_balance numeric;
+BEGIN
+    SELECT business_id INTO v_business_id FROM customers WHERE id = p_customer_id;
+    IF NOT FOUND OR (auth.uid() IS NOT NULL AND NOT is_business_member(v_business_id, auth.uid())) THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    SELECT
+        COALESCE((
+            SELECT SUM(sp.amount) FROM sale_payments sp JOIN sales s ON s.id = sp.sale_id
+            WHERE s.customer_id = p_customer_id AND sp.method = 'account'
+        ), 0)
+        - COALESCE((
+            SELECT SUM(r.total_amount) FROM sale_returns r JOIN sales s ON s.id = r.sale_id
+            WHERE s.customer_id = p_customer_id AND r.refund_method = 'account' AND r.status = 'completed'
+        ), 0)
+        - COALESCE((SELECT SUM(cp.amount) FROM customer_payments cp WHERE cp.customer_id = p_customer_id), 0)
+    INTO v_balance;
+
+    RETURN v_balance;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_customer_balance(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_account_tender()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_customer public.customers%ROWTYPE;
+    v_balance numeric;
+BEGIN
+    IF NEW.method <> 'account' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock the customer so two tills cannot both spend the last of the credit
+    SELECT c.* INTO v_customer
+    FROM customers c
+    JOIN sales s ON s.customer_id = c.id
+    WHERE s.id = NEW.sale_id
+    FOR UPDATE OF c;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sales on account need a customer phone number';
+    END IF;
+
+    v_balance := get_customer_balance(v_customer.id);
+    IF v_balance + NEW.amount > v_customer.credit_limit THEN
+        RAISE EXCEPTION 'Credit limit exceeded for %: balance would be KSh % against a limit of KSh %',
+            COALESCE(v_customer.name, v_customer.phone), v_balance + NEW.amount, v_customer.credit_limit;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_account_tender ON public.sale_payments;
+CREATE TRIGGER check_account_tender BEFORE INSERT ON public.sale_payments
+    FOR EACH ROW EXECUTE FUNCTION public.check_account_tender();
+
+CREATE OR REPLACE FUNCTION public.check_customer_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_customer public.customers%ROWTYPE;
+    v_balance numeric;
+BEGIN
+    -- Lock the customer so two repayments taken at once cannot both settle the same balance
+    SELECT * INTO v_customer FROM customers WHERE id = NEW.customer_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    v_balance := get_customer_balance(v_customer.id);
+    IF NEW.amount > v_balance THEN
+        RAISE EXCEPTION 'The payment of KSh % is more than the KSh % % owes',
+            NEW.amount, GREATEST(v_balance, 0), COALESCE(v_customer.name, v_customer.phone);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_customer_payment ON public.customer_payments;
+CREATE TRIGGER check_customer_payment BEFORE INSERT ON public.customer_payments
+    FOR EACH ROW EXECUTE FUNCTION public.check_customer_payment();
+
+CREATE OR REPLACE FUNCTION public.check_account_refund()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.refund_method = 'account' AND NOT EXISTS (
+        SELECT 1 FROM sales WHERE id = NEW.sale_id AND customer_id IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Only sales made to a customer can be refunded to an account';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_account_refund ON public.sale_returns;
+CREATE TRIGGER check_account_refund BEFORE INSERT ON public.sale_returns
+    FOR EACH ROW EXECUTE FUNCTION public.check_account_refund();
+
+CREATE OR REPLACE FUNCTION public.guard_customer_credit_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR NEW.credit_limit = COALESCE(CASE WHEN TG_OP = 'UPDATE' THEN OLD.credit_limit END, 0) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = NEW.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only owners and managers can change credit limits';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_customer_credit_limit ON public.customers;
+CREATE TRIGGER guard_customer_credit_limit BEFORE INSERT OR UPDATE OF credit_limit ON public.customers
+    FOR EACH ROW EXECUTE FUNCTION public.guard_customer_credit_limit();
+
+/*
+  Outstanding balance per customer as of p_as_of, aged by sale date. Repayments and account refunds
+  settle the oldest charges first, so what remains is the most recent unpaid credit.
+*/
+CREATE OR REPLACE FUNCTION public.get_aged_debtors(p_business_id uuid, p_as_of date DEFAULT current_date)
+RETURNS TABLE(
+    customer_id uuid,
+    name text,
+    phone text,
+    credit_limit numeric,
+    balance numeric,
+    days_0_30 numeric,
+    days_31_60 numeric,
+    days_61_90 numeric,
+    days_over_90 numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    WITH charges AS (
+        SELECT s.customer_id, s.created_at::date AS charged_on, sp.amount
+        FROM sale_payments sp
+        JOIN sales s ON s.id = sp.sale_id
+        WHERE s.business_id = p_business_id AND sp.method = 'account' AND s.created_at::date <= p_as_of
+    ),
+    credits AS (
+        SELECT x.customer_id, SUM(x.amount) AS amount
+        FROM (
+            SELECT cp.customer_id, cp.amount FROM customer_payments cp
+            WHERE cp.business_id = p_business_id AND cp.created_at::date <= p_as_of
+            UNION ALL
+            SELECT s.customer_id, r.total_amount FROM sale_returns r JOIN sales s ON s.id = r.sale_id
+            WHERE r.business_id = p_business_id AND r.refund_method = 'account' AND r.status = 'completed' AND r.created_at::date <= p_as_of
+        ) x
+        GROUP BY x.customer_id
+    ),
+    open_charges AS (
+        SELECT
+            c.customer_id,
+            p_as_of - c.charged_on AS age,
+            LEAST(c.amount, GREATEST(
+                SUM(c.amount) OVER (PARTITION BY c.customer_id ORDER BY c.charged_on ROWS UNBOUNDED PRECEDING) - COALESCE(cr.amount, 0),
+                0
+            )) AS outstanding
+        FROM charges c
+        LEFT JOIN credits cr ON cr.customer_id = c.customer_id
+    ),
+    totals AS (
+        SELECT cu.id AS customer_id,
+               COALESCE((SELECT SUM(ch.amount) FROM charges ch WHERE ch.customer_id = cu.id), 0)
+                 - COALESCE((SELECT cr.amount FROM credits cr WHERE cr.customer_id = cu.id), 0) AS balance
+        FROM customers cu
+        WHERE cu.business_id = p_business_id
+    )
+    SELECT
+        cu.id,
+        cu.name,
+        cu.phone,
+        cu.credit_limit,
+        t.balance,
+        COALESCE(SUM(oc.outstanding) FILTER (WHERE oc.age <= 30), 0),
+        COALESCE(SUM(oc.outstanding) FILTER (WHERE oc.age BETWEEN 31 AND 60), 0),
+        COALESCE(SUM(oc.outstanding) FILTER (WHERE oc.age BETWEEN 61 AND 90), 0),
+        COALESCE(SUM(oc.outstanding) FILTER (WHERE oc.age > 90), 0)
+    FROM customers cu
+    JOIN totals t ON t.customer_id = cu.id
+    LEFT JOIN open_charges oc ON oc.customer_id = cu.id
+    WHERE t.balance <> 0
+    GROUP BY cu.id, cu.name, cu.phone, cu.credit_limit, t.balance
+    ORDER BY t.balance DESC;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_aged_debtors(uuid, date) TO authenticated;
+
+-- Every charge and credit on a customer's account, oldest first, for statements.
+CREATE OR REPLACE FUNCTION public.get_customer_ledger(p_customer_id uuid)
+RETURNS TABLE(
+    entry_date timestamptz,
+    entry_type text,
+    reference text,
+    debit numeric,
+    credit numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_business_id uuid;
+BEGIN
+    SELECT business_id INTO v_business_id FROM customers WHERE id = p_customer_id;
+    IF NOT FOUND OR NOT is_business_member(v_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM (
+        SELECT s.created_at, 'sale'::text, s.receipt_number, sp.amount, 0::numeric
+        FROM sale_payments sp
+        JOIN sales s ON s.id = sp.sale_id
+        WHERE s.customer_id = p_customer_id AND sp.method = 'account'
+        UNION ALL
+        SELECT r.created_at, r.return_type::text, r.return_number || ' (' || s.receipt_number || ')', 0::numeric, r.total_amount
+        FROM sale_returns r
+        JOIN sales s ON s.id = r.sale_id
+        WHERE s.customer_id = p_customer_id AND r.refund_method = 'account' AND r.status = 'completed'
+        UNION ALL
+        SELECT cp.created_at, 'payment'::text, COALESCE(cp.method || ' ' || cp.reference, cp.method), 0::numeric, cp.amount
+        FROM customer_payments cp
+        WHERE cp.customer_id = p_customer_id
+    ) entries
+    ORDER BY 1;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_customer_ledger(uuid) TO authenticated;
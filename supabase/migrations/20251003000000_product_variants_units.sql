@@ -0,0 +1,725 @@
+/*
+# [Product Variants and Selling Units]
+Adds product variants (sizes, colours) and alternative selling units such as boxes, bags and pallets, each with a conversion factor to the product's base stock unit.
+
+## Query Description:
+A variant is an ordinary product row linked to its parent through `parent_product_id`, so it keeps its own stock, SKU, price and ledger. Selling units live in `product_units`; each has its own price and optional pack barcode. Sale lines record the unit they were sold in and its conversion factor, and every stock movement for a sale, return or void is made in base units (quantity x factor). Cost on sale lines is recorded per unit sold. Existing sale lines get a conversion factor of 1.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds columns `parent_product_id` and `variant_name` to `products`.
+- Creates table `product_units`.
+- Adds columns `product_unit_id`, `unit_name` and `conversion_factor` to `sale_items`.
+- Creates trigger function `set_sale_item_unit` and recreates `set_sale_item_cost`.
+- Recreates `validate_sale_items`, `create_sale_and_items`, `sync_offline_sale`, `create_sale_return`, `review_sale_void` and `get_sale_receipt`.
+
+## Security Implications:
+- RLS Status: Enabled on `product_units`.
+- Policy Changes: Yes, business members can manage selling units.
+- Auth Requirements: None beyond business membership.
+
+## Performance Impact:
+- Indexes: Adds indexes on `products.parent_product_id` and `product_units.product_id`, and a unique index on pack barcodes per business.
+- Triggers: Adds a BEFORE INSERT trigger on `sale_items`.
+- Estimated Impact: Low.
+*/
+
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS parent_product_id uuid REFERENCES public.products(id) ON DELETE SET NULL;
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS variant_name text;
+CREATE INDEX IF NOT EXISTS products_parent_product_id_idx ON public.products(parent_product_id);
+
+-- Stock is held in whole base units, so a selling unit is always a whole number of them
+CREATE TABLE IF NOT EXISTS public.product_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  conversion_factor int NOT NULL CHECK (conversion_factor > 0),
+  selling_price numeric(10,2) NOT NULL CHECK (selling_price >= 0),
+  barcode text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (product_id, name)
+);
+CREATE INDEX IF NOT EXISTS product_units_product_id_idx ON public.product_units(product_id);
+CREATE UNIQUE INDEX IF NOT EXISTS product_units_business_barcode_idx ON public.product_units(business_id, barcode) WHERE barcode IS NOT NULL;
+
+ALTER TABLE public.product_units ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow full access to business members on product_units" ON public.product_units;
+CREATE POLICY "Allow full access to business members on product_units" ON public.product_units FOR ALL USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.sale_items ADD COLUMN IF NOT EXISTS product_unit_id uuid REFERENCES public.product_units(id) ON DELETE SET NULL;
+ALTER TABLE public.sale_items ADD COLUMN IF NOT EXISTS unit_name text;
+ALTER TABLE public.sale_items ADD COLUMN IF NOT EXISTS conversion_factor int NOT NULL DEFAULT 1 CHECK (conversion_factor > 0);
+
+-- The factor is taken from the unit on the server, never from the client
+CREATE OR REPLACE FUNCTION public.set_sale_item_unit()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.product_unit_id IS NULL THEN
+        NEW.conversion_factor := 1;
+        NEW.unit_name := NULL;
+    ELSE
+        SELECT conversion_factor, name INTO NEW.conversion_factor, NEW.unit_name
+        FROM product_units
+        WHERE id = NEW.product_unit_id AND product_id = NEW.product_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Selling unit % does not belong to product %', NEW.product_unit_id, NEW.product_id;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_sale_item_unit ON public.sale_items;
+CREATE TRIGGER set_sale_item_unit BEFORE INSERT ON public.sale_items
+    FOR EACH ROW EXECUTE FUNCTION public.set_sale_item_unit();
+
+-- Cost is recorded per unit sold, so a box carries the cost of all the base units in it
+CREATE OR REPLACE FUNCTION public.set_sale_item_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.unit_cost IS NULL THEN
+        SELECT p.buying_price * COALESCE(pu.conversion_factor, 1) INTO NEW.unit_cost
+        FROM products p
+        LEFT JOIN product_units pu ON pu.id = NEW.product_unit_id AND pu.product_id = p.id
+        WHERE p.id = NEW.product_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+/*
+  Returns the problems with a basket as a JSON array (empty when the sale can go ahead):
+  [{ "product_id", "name", "code": "product_not_found" | "invalid_quantity" | "insufficient_stock" | "price_mismatch"
+     | "unit_not_found" | "invalid_discount" | "discount_exceeds_limit" | "promotion_not_applicable", ... }]
+  Lines sold in another unit carry `product_unit_id`; their `quantity` is in that unit and stock figures
+  in the errors are in base units.
+*/
+CREATE OR REPLACE FUNCTION public.validate_sale_items(p_business_id uuid, p_cashier_id uuid, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_errors jsonb := '[]'::jsonb;
+    v_line record;
+    v_promotion public.promotions%ROWTYPE;
+    v_max_percent numeric;
+    v_line_total numeric;
+    v_manual numeric;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- Stock is checked in base units against the total of each product across all lines and selling units
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, p.stock_quantity
+        FROM (
+            SELECT (x->>'product_id')::uuid AS product_id, SUM((x->>'quantity')::int * COALESCE(pu.conversion_factor, 1)) AS quantity
+            FROM jsonb_array_elements(p_items) x
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = (x->>'product_id')::uuid
+            GROUP BY 1
+        ) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id AND COALESCE(p.is_active, true)
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'code', 'product_not_found');
+        ELSIF v_line.quantity <= 0 THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_quantity', 'requested', v_line.quantity);
+        ELSIF v_line.quantity > v_line.stock_quantity THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'insufficient_stock',
+                'requested', v_line.quantity,
+                'available', GREATEST(v_line.stock_quantity, 0)
+            );
+        END IF;
+    END LOOP;
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id AND pu.is_active
+        WHERE x->>'product_unit_id' IS NOT NULL AND pu.id IS NULL
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'unit_not_found');
+    END LOOP;
+
+    -- Lines sold in another unit are priced at that unit's selling price
+    IF NOT can_override_price(p_business_id, p_cashier_id) THEN
+        FOR v_line IN
+            SELECT p.id AS product_id, p.name, (x->>'unit_price')::numeric AS unit_price, COALESCE(pu.selling_price, p.selling_price) AS selling_price
+            FROM jsonb_array_elements(p_items) x
+            JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id
+            WHERE round((x->>'unit_price')::numeric, 2) <> round(COALESCE(pu.selling_price, p.selling_price), 2)
+        LOOP
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'price_mismatch',
+                'unit_price', v_line.unit_price,
+                'selling_price', v_line.selling_price
+            );
+        END LOOP;
+    END IF;
+
+    v_max_percent := max_discount_percent(p_business_id, p_cashier_id);
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, p.category,
+               (x->>'quantity')::int AS quantity,
+               (x->>'unit_price')::numeric AS unit_price,
+               COALESCE((x->>'discount_amount')::numeric, 0) AS discount_amount,
+               (x->>'promotion_id')::uuid AS promotion_id,
+               COALESCE((x->>'promotion_discount')::numeric, 0) AS promotion_discount
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE COALESCE((x->>'discount_amount')::numeric, 0) <> 0 OR x->>'promotion_id' IS NOT NULL
+    LOOP
+        v_line_total := v_line.quantity * v_line.unit_price;
+
+        IF v_line.discount_amount < 0 OR v_line.discount_amount > v_line_total
+           OR v_line.promotion_discount < 0 OR v_line.promotion_discount > v_line.discount_amount
+           OR (v_line.promotion_id IS NULL AND v_line.promotion_discount > 0) THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_discount', 'discount_amount', v_line.discount_amount);
+            CONTINUE;
+        END IF;
+
+        IF v_line.promotion_id IS NOT NULL THEN
+            SELECT * INTO v_promotion FROM promotions WHERE id = v_line.promotion_id AND business_id = p_business_id;
+            IF NOT FOUND
+               OR NOT promotion_is_live(v_promotion)
+               OR NOT promotion_applies(v_promotion, v_line.product_id, v_line.category)
+               OR round(v_line.promotion_discount, 2) > round(promotion_line_discount(v_promotion, v_line.quantity, v_line.unit_price), 2) THEN
+                v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'promotion_not_applicable');
+                CONTINUE;
+            END IF;
+        END IF;
+
+        -- Basket discounts arrive spread across the lines, so the limit is checked per line
+        v_manual := v_line.discount_amount - v_line.promotion_discount;
+        IF v_manual > 0 AND round(v_manual, 2) > round(v_line_total * v_max_percent / 100, 2) THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'discount_exceeds_limit',
+                'discount_amount', v_manual,
+                'max_percent', v_max_percent
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_errors;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.validate_sale_items(uuid, uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_sale_and_items(
+    p_business_id uuid,
+    p_cashier_id uuid,
+    p_items jsonb,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_payment_method text DEFAULT 'cash',
+    p_mpesa_code text DEFAULT NULL,
+    p_payments jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_receipt_number text;
+    v_payments jsonb;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_errors jsonb;
+    item jsonb;
+    payment jsonb;
+    v_product_id uuid;
+    v_quantity int;
+    v_unit_price numeric;
+    v_discount numeric;
+    v_factor int;
+    v_amount numeric;
+    v_tendered numeric;
+BEGIN
+    -- Signed-in callers record sales as themselves; the M-Pesa callback runs without a user
+    IF auth.uid() IS NOT NULL AND (p_cashier_id IS DISTINCT FROM auth.uid() OR NOT is_business_member(p_business_id, auth.uid())) THEN
+        RAISE EXCEPTION 'Not allowed to record sales for this business';
+    END IF;
+
+    -- Lock the products in a consistent order so concurrent checkouts queue instead of overselling
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT (x->>'product_id')::uuid FROM jsonb_array_elements(p_items) x)
+    ORDER BY id
+    FOR UPDATE;
+
+    v_errors := public.validate_sale_items(p_business_id, p_cashier_id, p_items);
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION USING
+            MESSAGE = 'Some items in this sale cannot be sold as entered',
+            DETAIL = v_errors::text,
+            HINT = 'sale_validation_failed';
+    END IF;
+
+    -- Calculate total amount from the items JSON, net of line discounts
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int) - COALESCE((item->>'discount_amount')::numeric, 0);
+    END LOOP;
+
+    -- Callers that pass a single payment method pay the whole total with it
+    v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+        'method', lower(p_payment_method),
+        'amount', v_total_amount,
+        'tendered', v_total_amount,
+        'reference', p_mpesa_code
+    )));
+
+    IF jsonb_array_length(v_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required';
+    END IF;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero';
+        END IF;
+        IF payment->>'method' = 'cash' AND COALESCE((payment->>'tendered')::numeric, v_amount) < v_amount THEN
+            RAISE EXCEPTION 'Cash tendered (%) is less than the cash amount due (%)', payment->>'tendered', v_amount;
+        END IF;
+        v_paid_amount := v_paid_amount + v_amount;
+    END LOOP;
+
+    IF round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(v_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := v_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(v_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    -- Generate a unique receipt number
+    v_receipt_number := 'RCPT-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6);
+
+    -- Insert the main sale record
+    INSERT INTO public.sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number)
+    VALUES (p_business_id, p_cashier_id, p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, v_receipt_number)
+    RETURNING id INTO v_sale_id;
+
+    -- Record each tender, with change only ever given on cash
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO public.sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    -- Insert sale items and post each line to the stock ledger
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_product_id := (item->>'product_id')::uuid;
+        v_quantity := (item->>'quantity')::int;
+        v_unit_price := (item->>'unit_price')::numeric;
+        v_discount := COALESCE((item->>'discount_amount')::numeric, 0);
+
+        -- set_sale_item_unit fills in the conversion factor of the unit sold
+        INSERT INTO public.sale_items (sale_id, product_id, quantity, unit_price, total_price, discount_amount, promotion_id, product_unit_id)
+        VALUES (v_sale_id, v_product_id, v_quantity, v_unit_price, v_quantity * v_unit_price - v_discount, v_discount, (item->>'promotion_id')::uuid, (item->>'product_unit_id')::uuid)
+        RETURNING conversion_factor INTO v_factor;
+
+        PERFORM public.apply_stock_movement(p_business_id, v_product_id, 'sale', -v_quantity * v_factor, 'sale', v_sale_id);
+    END LOOP;
+
+    RETURN v_sale_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_sale_and_items(uuid, uuid, jsonb, text, text, text, text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+    p_business_id uuid,
+    p_client_sale_id uuid,
+    p_receipt_number text,
+    p_items jsonb,
+    p_payments jsonb,
+    p_sold_at timestamptz,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_existing public.sales%ROWTYPE;
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_conflicts jsonb := '[]'::jsonb;
+    v_line record;
+    item jsonb;
+    payment jsonb;
+    v_amount numeric;
+    v_tendered numeric;
+    v_factor int;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- A retry after a dropped response must not record the sale twice
+    SELECT * INTO v_existing FROM sales WHERE client_sale_id = p_client_sale_id;
+    IF FOUND THEN
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'product_id', c.product_id, 'name', p.name, 'requested', c.requested, 'available', c.available
+        )), '[]'::jsonb)
+        INTO v_conflicts
+        FROM offline_sale_conflicts c
+        JOIN products p ON p.id = c.product_id
+        WHERE c.sale_id = v_existing.id;
+
+        RETURN jsonb_build_object('sale_id', v_existing.id, 'receipt_number', v_existing.receipt_number, 'duplicate', true, 'conflicts', v_conflicts);
+    END IF;
+
+    PERFORM 1
+    FROM products
+    WHERE id IN (SELECT (x->>'product_id')::uuid FROM jsonb_array_elements(p_items) x)
+    ORDER BY id
+    FOR UPDATE;
+
+    -- Stock shortfalls are reported rather than rejected: the goods have already left the shop
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, p.stock_quantity
+        FROM (
+            SELECT (x->>'product_id')::uuid AS product_id, SUM((x->>'quantity')::int * COALESCE(pu.conversion_factor, 1)) AS quantity
+            FROM jsonb_array_elements(p_items) x
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = (x->>'product_id')::uuid
+            GROUP BY 1
+        ) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            RAISE EXCEPTION 'Product % no longer exists in this business', v_line.product_id;
+        END IF;
+        IF v_line.quantity > v_line.stock_quantity THEN
+            v_conflicts := v_conflicts || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'requested', v_line.quantity,
+                'available', v_line.stock_quantity
+            );
+        END IF;
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int) - COALESCE((item->>'discount_amount')::numeric, 0);
+    END LOOP;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_paid_amount := v_paid_amount + (payment->>'amount')::numeric;
+    END LOOP;
+
+    IF jsonb_array_length(p_payments) = 0 OR round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(p_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := p_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(p_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    INSERT INTO sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number, client_sale_id, created_at)
+    VALUES (p_business_id, auth.uid(), p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, p_receipt_number, p_client_sale_id, p_sold_at)
+    RETURNING id INTO v_sale_id;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        -- Discounts given offline are kept as recorded: the customer has already paid the discounted price
+        INSERT INTO sale_items (sale_id, product_id, quantity, unit_price, total_price, discount_amount, promotion_id, product_unit_id)
+        VALUES (
+            v_sale_id,
+            (item->>'product_id')::uuid,
+            (item->>'quantity')::int,
+            (item->>'unit_price')::numeric,
+            (item->>'quantity')::int * (item->>'unit_price')::numeric - COALESCE((item->>'discount_amount')::numeric, 0),
+            COALESCE((item->>'discount_amount')::numeric, 0),
+            (item->>'promotion_id')::uuid,
+            (item->>'product_unit_id')::uuid
+        )
+        RETURNING conversion_factor INTO v_factor;
+
+        PERFORM apply_stock_movement(p_business_id, (item->>'product_id')::uuid, 'sale', -(item->>'quantity')::int * v_factor, 'sale', v_sale_id, 'Offline sale');
+    END LOOP;
+
+    INSERT INTO offline_sale_conflicts (business_id, sale_id, product_id, requested, available)
+    SELECT p_business_id, v_sale_id, (c->>'product_id')::uuid, (c->>'requested')::int, (c->>'available')::int
+    FROM jsonb_array_elements(v_conflicts) c;
+
+    RETURN jsonb_build_object('sale_id', v_sale_id, 'receipt_number', p_receipt_number, 'duplicate', false, 'conflicts', v_conflicts);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.sync_offline_sale(uuid, uuid, text, jsonb, jsonb, timestamptz, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_sale_return(
+    p_sale_id uuid,
+    p_items jsonb,
+    p_reason_code text,
+    p_refund_method text DEFAULT 'cash',
+    p_notes text DEFAULT NULL,
+    p_is_void boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale public.sales%ROWTYPE;
+    v_user_id uuid := auth.uid();
+    v_is_manager boolean;
+    v_return_id uuid;
+    v_status public.sale_return_status_enum;
+    v_total numeric := 0;
+    v_line record;
+    v_requested int;
+    v_refund numeric;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_sale.business_id, v_user_id) THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM sale_returns WHERE sale_id = p_sale_id AND return_type = 'void' AND status <> 'rejected') THEN
+        RAISE EXCEPTION 'Sale % has already been voided', v_sale.receipt_number;
+    END IF;
+
+    SELECT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_sale.business_id AND user_id = v_user_id AND is_active = true AND role IN ('owner', 'manager')
+    ) INTO v_is_manager;
+
+    v_status := CASE WHEN p_is_void AND NOT v_is_manager THEN 'pending_approval' ELSE 'completed' END;
+
+    INSERT INTO sale_returns (business_id, sale_id, return_number, return_type, status, reason_code, notes, total_amount, refund_method, processed_by, approved_by, approved_at)
+    VALUES (
+        v_sale.business_id,
+        p_sale_id,
+        'RTN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        CASE WHEN p_is_void THEN 'void' ELSE 'return' END::public.sale_return_type_enum,
+        v_status,
+        p_reason_code,
+        p_notes,
+        0,
+        p_refund_method,
+        v_user_id,
+        CASE WHEN p_is_void AND v_is_manager THEN v_user_id END,
+        CASE WHEN p_is_void AND v_is_manager THEN now() END
+    )
+    RETURNING id INTO v_return_id;
+
+    -- Quantities still returnable per line exclude completed and pending returns
+    FOR v_line IN
+        SELECT si.id, si.product_id, si.quantity, si.total_price, si.conversion_factor,
+               si.quantity - COALESCE((
+                   SELECT SUM(ri.quantity) FROM sale_return_items ri
+                   JOIN sale_returns r ON r.id = ri.return_id
+                   WHERE ri.sale_item_id = si.id AND r.status <> 'rejected' AND r.id <> v_return_id
+               ), 0) AS returnable
+        FROM sale_items si
+        WHERE si.sale_id = p_sale_id
+    LOOP
+        IF p_is_void THEN
+            v_requested := v_line.returnable;
+        ELSE
+            SELECT COALESCE(SUM((x->>'quantity')::int), 0) INTO v_requested
+            FROM jsonb_array_elements(p_items) x
+            WHERE (x->>'sale_item_id')::uuid = v_line.id;
+        END IF;
+
+        IF v_requested > v_line.returnable THEN
+            RAISE EXCEPTION 'Cannot return % of a line that only has % left to return', v_requested, v_line.returnable;
+        END IF;
+
+        IF v_requested > 0 THEN
+            -- Refund the price actually paid, so discounted lines are refunded net of their discount
+            v_refund := round(v_line.total_price * v_requested / v_line.quantity, 2);
+            INSERT INTO sale_return_items (return_id, sale_item_id, product_id, quantity, unit_price, total_price)
+            VALUES (v_return_id, v_line.id, v_line.product_id, v_requested, round(v_line.total_price / v_line.quantity, 2), v_refund);
+            v_total := v_total + v_refund;
+
+            IF v_status = 'completed' THEN
+                PERFORM apply_stock_movement(v_sale.business_id, v_line.product_id, 'return', v_requested * v_line.conversion_factor, 'sale_return', v_return_id, p_reason_code);
+            END IF;
+        END IF;
+    END LOOP;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION 'Nothing to return on sale %', v_sale.receipt_number;
+    END IF;
+
+    UPDATE sale_returns SET total_amount = v_total WHERE id = v_return_id;
+
+    RETURN v_return_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_sale_return(uuid, jsonb, text, text, text, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.review_sale_void(p_return_id uuid, p_approve boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_return public.sale_returns%ROWTYPE;
+    v_item record;
+BEGIN
+    SELECT * INTO v_return FROM sale_returns WHERE id = p_return_id FOR UPDATE;
+    IF NOT FOUND OR v_return.status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Void request not found or already reviewed';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_return.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can review voids';
+    END IF;
+
+    UPDATE sale_returns
+    SET status = CASE WHEN p_approve THEN 'completed' ELSE 'rejected' END::public.sale_return_status_enum,
+        approved_by = auth.uid(),
+        approved_at = now()
+    WHERE id = p_return_id;
+
+    IF p_approve THEN
+        FOR v_item IN
+            SELECT ri.product_id, ri.quantity * si.conversion_factor AS quantity
+            FROM sale_return_items ri
+            JOIN sale_items si ON si.id = ri.sale_item_id
+            WHERE ri.return_id = p_return_id
+        LOOP
+            PERFORM apply_stock_movement(v_return.business_id, v_item.product_id, 'return', v_item.quantity, 'sale_return', p_return_id, v_return.reason_code);
+        END LOOP;
+    END IF;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.review_sale_void(uuid, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_sale_receipt(p_sale_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale public.sales%ROWTYPE;
+    v_result jsonb;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id;
+
+    IF NOT FOUND OR NOT is_business_member(v_sale.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'sale', to_jsonb(v_sale),
+        'business', (
+            SELECT jsonb_build_object('name', b.name, 'logo_url', b.logo_url, 'phone', b.phone, 'location', b.location)
+            FROM businesses b WHERE b.id = v_sale.business_id
+        ),
+        'items', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'name', p.name,
+                'quantity', si.quantity,
+                'unit_name', si.unit_name,
+                'unit_price', si.unit_price,
+                'discount_amount', si.discount_amount,
+                'promotion_name', pm.name,
+                'total_price', si.total_price
+            ) ORDER BY p.name)
+            FROM sale_items si
+            JOIN products p ON p.id = si.product_id
+            LEFT JOIN promotions pm ON pm.id = si.promotion_id
+            WHERE si.sale_id = v_sale.id
+        ), '[]'::jsonb),
+        'payments', COALESCE((
+            SELECT jsonb_agg(to_jsonb(sp) ORDER BY sp.created_at)
+            FROM sale_payments sp
+            WHERE sp.sale_id = v_sale.id
+        ), '[]'::jsonb),
+        'cashier_name', (SELECT pr.full_name FROM profiles pr WHERE pr.id = v_sale.cashier_id)
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_sale_receipt(uuid) TO authenticated;
@@ -0,0 +1,119 @@
+/*
+# [Bulk Product Import]
+Adds `import_products`, which upserts a batch of products from an imported spreadsheet, matching existing products by SKU.
+
+## Query Description:
+Rows whose SKU matches an existing product update its name, price and other fields; other rows create new products. Blank optional fields leave the existing value alone. When a row carries a stock quantity, stock on hand is set to it through the stock ledger: new products get an opening movement and existing products an adjustment for the difference, with the reason "Bulk import". A batch is applied all-or-nothing, and any invalid row rejects the batch with its SKU in the error.
+
+## Metadata:
+- Schema-Category: ["Data"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates function `import_products`.
+- Adds an index on `products(business_id, sku)`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Only owners and managers can import.
+
+## Performance Impact:
+- Indexes: Adds an index on `products(business_id, sku)` for SKU lookups.
+- Triggers: None.
+- Estimated Impact: Low. One lookup and one write per imported row.
+*/
+
+CREATE INDEX IF NOT EXISTS products_business_sku_idx ON public.products(business_id, sku);
+
+CREATE OR REPLACE FUNCTION public.import_products(p_business_id uuid, p_rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_row jsonb;
+    v_sku text;
+    v_name text;
+    v_price numeric;
+    v_stock integer;
+    v_product_id uuid;
+    v_current_stock integer;
+    v_matches integer;
+    v_created integer := 0;
+    v_updated integer := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = p_business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can import products';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_rows) r
+        GROUP BY trim(r->>'sku') HAVING count(*) > 1
+    ) THEN
+        RAISE EXCEPTION 'The import contains the same SKU more than once';
+    END IF;
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+        v_sku := NULLIF(trim(v_row->>'sku'), '');
+        v_name := NULLIF(trim(v_row->>'name'), '');
+        v_price := (v_row->>'selling_price')::numeric;
+        v_stock := (v_row->>'stock_quantity')::integer;
+
+        IF v_sku IS NULL OR v_name IS NULL OR v_price IS NULL OR v_price < 0 THEN
+            RAISE EXCEPTION 'Row with SKU % needs a name and a selling price', COALESCE(v_sku, '(blank)');
+        END IF;
+        IF v_stock < 0 OR (v_row->>'min_stock_level')::integer < 0 OR (v_row->>'buying_price')::numeric < 0 THEN
+            RAISE EXCEPTION 'Row with SKU % has a negative quantity or price', v_sku;
+        END IF;
+
+        SELECT count(*), min(id::text)::uuid INTO v_matches, v_product_id
+        FROM products WHERE business_id = p_business_id AND sku = v_sku;
+
+        IF v_matches > 1 THEN
+            RAISE EXCEPTION 'SKU % matches more than one product', v_sku;
+        ELSIF v_matches = 1 THEN
+            SELECT stock_quantity INTO v_current_stock FROM products WHERE id = v_product_id FOR UPDATE;
+
+            UPDATE products SET
+                name = v_name,
+                selling_price = v_price,
+                category = COALESCE(NULLIF(trim(v_row->>'category'), ''), category),
+                unit = COALESCE(NULLIF(trim(v_row->>'unit'), ''), unit),
+                buying_price = COALESCE((v_row->>'buying_price')::numeric, buying_price),
+                min_stock_level = COALESCE((v_row->>'min_stock_level')::integer, min_stock_level),
+                updated_at = now()
+            WHERE id = v_product_id;
+
+            IF v_stock IS NOT NULL AND v_stock <> v_current_stock THEN
+                PERFORM apply_stock_movement(p_business_id, v_product_id, 'adjustment', v_stock - v_current_stock, NULL, NULL, 'Bulk import');
+            END IF;
+            v_updated := v_updated + 1;
+        ELSE
+            -- Inserting with stock lets log_direct_stock_change record the opening balance
+            INSERT INTO products (business_id, sku, name, category, unit, buying_price, selling_price, stock_quantity, min_stock_level, is_active)
+            VALUES (
+                p_business_id, v_sku, v_name,
+                NULLIF(trim(v_row->>'category'), ''),
+                COALESCE(NULLIF(trim(v_row->>'unit'), ''), 'piece'),
+                (v_row->>'buying_price')::numeric,
+                v_price,
+                COALESCE(v_stock, 0),
+                COALESCE((v_row->>'min_stock_level')::integer, 0),
+                true
+            );
+            v_created := v_created + 1;
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.import_products(uuid, jsonb) TO authenticated;
@@ -0,0 +1,93 @@
+/*
+# [Internal Barcodes]
+Gives every product something to scan: products saved without a SKU are assigned an internal EAN-13 barcode.
+
+## Query Description:
+Internal codes are `200` (the GS1 prefix reserved for in-store use) followed by a 9-digit running number per business and the EAN-13 check digit, so they never clash with manufacturer barcodes. A trigger assigns the next code whenever a product is inserted or updated with a blank SKU, and existing products without a SKU are assigned one now. Products that already have a SKU are left unchanged.
+
+## Metadata:
+- Schema-Category: ["Data"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates functions `ean13_check_digit` and `next_internal_barcode`.
+- Creates trigger function `set_product_internal_barcode`.
+- Backfills `products.sku` where it is blank.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: None.
+
+## Performance Impact:
+- Indexes: None. Uses the `products(business_id, sku)` index.
+- Triggers: Adds a BEFORE INSERT OR UPDATE OF sku trigger on `products`.
+- Estimated Impact: Low.
+*/
+
+CREATE OR REPLACE FUNCTION public.ean13_check_digit(p_digits text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT (10 - (sum(substr(p_digits, i, 1)::integer * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END) % 10)::integer) % 10
+    FROM generate_series(1, 12) AS i;
+$$;
+
+CREATE OR REPLACE FUNCTION public.next_internal_barcode(p_business_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_next bigint;
+    v_digits text;
+BEGIN
+    -- Serialises code assignment per business until the transaction ends
+    PERFORM pg_advisory_xact_lock(hashtext('internal_barcode:' || p_business_id::text));
+
+    SELECT COALESCE(max(substr(sku, 4, 9)::bigint), 0) + 1 INTO v_next
+    FROM products
+    WHERE business_id = p_business_id AND sku ~ '^200[0-9]{10}$';
+
+    v_digits := '200' || lpad(v_next::text, 9, '0');
+    RETURN v_digits || ean13_check_digit(v_digits);
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.next_internal_barcode(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.set_product_internal_barcode()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF COALESCE(trim(NEW.sku), '') = '' THEN
+        NEW.sku := next_internal_barcode(NEW.business_id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_products_internal_barcode ON public.products;
+CREATE TRIGGER set_products_internal_barcode BEFORE INSERT OR UPDATE OF sku ON public.products
+    FOR EACH ROW EXECUTE FUNCTION public.set_product_internal_barcode();
+
+-- Assign codes to existing products in the order they were created
+DO $$
+DECLARE
+    v_product record;
+BEGIN
+    FOR v_product IN
+        SELECT id, business_id FROM public.products
+        WHERE COALESCE(trim(sku), '') = ''
+        ORDER BY business_id, created_at
+    LOOP
+        UPDATE public.products SET sku = public.next_internal_barcode(v_product.business_id) WHERE id = v_product.id;
+    END LOOP;
+END$$;
@@ -0,0 +1,398 @@
+/*
+# [Cash Drawer Shifts]
+Adds cashier shifts: a cashier opens a shift with a float, records paid-ins and paid-outs, and closes it with a count of the drawer. X reports (shift so far) and Z reports (closed shift) compare expected and counted amounts per tender.
+
+## Query Description:
+Sales, refunds and customer repayments are tagged with the open shift of the staff member who took them, through BEFORE INSERT triggers, so checkout, offline sync, M-Pesa and returns need no changes. Expected cash is the float plus cash sales and repayments and paid-ins, less cash refunds and paid-outs. Other tenders are expected at what was taken in them. When a shift closes, expected and counted amounts per tender are stored, so later changes cannot alter a Z report. Expected amounts and over/short variances are only returned to owners and managers, so the cashier's count is blind. No existing data is changed.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates enum `cash_shift_status_enum`.
+- Creates tables `cash_shifts`, `cash_movements` and `cash_shift_tenders`.
+- Adds column `shift_id` to `sales`, `sale_returns` and `customer_payments`.
+- Creates trigger function `set_shift_from_staff` and functions `open_cash_shift`, `lock_open_cash_shift`, `record_cash_movement`, `get_cash_shift_report` and `close_cash_shift`.
+
+## Security Implications:
+- RLS Status: Enabled on the new tables.
+- Policy Changes: Yes. Cashiers see their own shifts and movements. Managers see every shift and the closing counts.
+- Auth Requirements: A shift can be worked and closed by its cashier or by an owner or manager.
+
+## Performance Impact:
+- Indexes: Adds indexes on `shift_id` in `sales`, `sale_returns` and `customer_payments`, and a unique index allowing one open shift per cashier per business.
+- Triggers: Adds BEFORE INSERT triggers on `sales`, `sale_returns` and `customer_payments`.
+- Estimated Impact: Low. One indexed lookup per sale.
+*/
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'cash_shift_status_enum') THEN
+        CREATE TYPE public.cash_shift_status_enum AS ENUM ('open', 'closed');
+    END IF;
+END$$;
+
+-- cashier_id references profiles so the cashier's name can be embedded
+CREATE TABLE IF NOT EXISTS public.cash_shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  shift_number text UNIQUE NOT NULL,
+  cashier_id uuid NOT NULL REFERENCES public.profiles(id),
+  status public.cash_shift_status_enum NOT NULL DEFAULT 'open',
+  opening_float numeric(12,2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  denomination_counts jsonb,
+  notes text,
+  opened_at timestamptz DEFAULT now() NOT NULL,
+  closed_at timestamptz,
+  closed_by uuid REFERENCES auth.users(id)
+);
+CREATE INDEX IF NOT EXISTS cash_shifts_business_id_opened_at_idx ON public.cash_shifts(business_id, opened_at);
+CREATE UNIQUE INDEX IF NOT EXISTS cash_shifts_one_open_per_cashier ON public.cash_shifts(business_id, cashier_id) WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS public.cash_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id uuid NOT NULL REFERENCES public.cash_shifts(id) ON DELETE CASCADE,
+  movement_type text NOT NULL CHECK (movement_type IN ('paid_in', 'paid_out')),
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS cash_movements_shift_id_idx ON public.cash_movements(shift_id);
+
+-- Written once, when the shift closes
+CREATE TABLE IF NOT EXISTS public.cash_shift_tenders (
+  shift_id uuid NOT NULL REFERENCES public.cash_shifts(id) ON DELETE CASCADE,
+  method text NOT NULL,
+  expected_amount numeric(12,2) NOT NULL,
+  counted_amount numeric(12,2),
+  PRIMARY KEY (shift_id, method)
+);
+
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS shift_id uuid REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS shift_id uuid REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+ALTER TABLE public.customer_payments ADD COLUMN IF NOT EXISTS shift_id uuid REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS sales_shift_id_idx ON public.sales(shift_id);
+CREATE INDEX IF NOT EXISTS sale_returns_shift_id_idx ON public.sale_returns(shift_id);
+CREATE INDEX IF NOT EXISTS customer_payments_shift_id_idx ON public.customer_payments(shift_id);
+
+-- Shifts and movements are only ever written through the functions below.
+ALTER TABLE public.cash_shifts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow cashiers and managers to view cash_shifts" ON public.cash_shifts;
+CREATE POLICY "Allow cashiers and managers to view cash_shifts" ON public.cash_shifts FOR SELECT USING (
+    cashier_id = auth.uid() OR EXISTS (
+        SELECT 1 FROM staff_roles sr
+        WHERE sr.business_id = cash_shifts.business_id AND sr.user_id = auth.uid() AND sr.is_active = true AND sr.role IN ('owner', 'manager')
+    )
+);
+
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow cashiers and managers to view cash_movements" ON public.cash_movements;
+CREATE POLICY "Allow cashiers and managers to view cash_movements" ON public.cash_movements FOR SELECT USING (
+    EXISTS (SELECT 1 FROM cash_shifts cs WHERE cs.id = cash_movements.shift_id)
+);
+
+ALTER TABLE public.cash_shift_tenders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow managers to view cash_shift_tenders" ON public.cash_shift_tenders;
+CREATE POLICY "Allow managers to view cash_shift_tenders" ON public.cash_shift_tenders FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM cash_shifts cs
+        JOIN staff_roles sr ON sr.business_id = cs.business_id
+        WHERE cs.id = cash_shift_tenders.shift_id AND sr.user_id = auth.uid() AND sr.is_active = true AND sr.role IN ('owner', 'manager')
+    )
+);
+
+-- Tags a sale, refund or repayment with the open shift of whoever took it.
+CREATE OR REPLACE FUNCTION public.set_shift_from_staff()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_staff_id uuid;
+BEGIN
+    IF NEW.shift_id IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Each table names the member who took the money differently
+    IF TG_TABLE_NAME = 'sales' THEN
+        v_staff_id := NEW.cashier_id;
+    ELSIF TG_TABLE_NAME = 'sale_returns' THEN
+        v_staff_id := NEW.processed_by;
+    ELSE
+        v_staff_id := NEW.received_by;
+    END IF;
+
+    SELECT id INTO NEW.shift_id
+    FROM cash_shifts
+    WHERE business_id = NEW.business_id AND cashier_id = v_staff_id AND status = 'open';
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_sales_shift ON public.sales;
+CREATE TRIGGER set_sales_shift BEFORE INSERT ON public.sales
+    FOR EACH ROW EXECUTE FUNCTION public.set_shift_from_staff();
+DROP TRIGGER IF EXISTS set_sale_returns_shift ON public.sale_returns;
+CREATE TRIGGER set_sale_returns_shift BEFORE INSERT ON public.sale_returns
+    FOR EACH ROW EXECUTE FUNCTION public.set_shift_from_staff();
+DROP TRIGGER IF EXISTS set_customer_payments_shift ON public.customer_payments;
+CREATE TRIGGER set_customer_payments_shift BEFORE INSERT ON public.customer_payments
+    FOR EACH ROW EXECUTE FUNCTION public.set_shift_from_staff();
+
+CREATE OR REPLACE FUNCTION public.open_cash_shift(p_business_id uuid, p_opening_float numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift_id uuid;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Not a member of this business';
+    END IF;
+
+    IF COALESCE(p_opening_float, -1) < 0 THEN
+        RAISE EXCEPTION 'Opening float cannot be negative';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM cash_shifts WHERE business_id = p_business_id AND cashier_id = auth.uid() AND status = 'open') THEN
+        RAISE EXCEPTION 'You already have an open shift';
+    END IF;
+
+    INSERT INTO cash_shifts (business_id, shift_number, cashier_id, opening_float)
+    VALUES (
+        p_business_id,
+        'SH-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        auth.uid(),
+        round(p_opening_float, 2)
+    )
+    RETURNING id INTO v_shift_id;
+
+    RETURN v_shift_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.open_cash_shift(uuid, numeric) TO authenticated;
+
+-- Locks an open shift that the caller may work on: its own cashier, or an owner or manager.
+CREATE OR REPLACE FUNCTION public.lock_open_cash_shift(p_shift_id uuid)
+RETURNS public.cash_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift cash_shifts;
+BEGIN
+    SELECT * INTO v_shift FROM cash_shifts WHERE id = p_shift_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Shift not found';
+    END IF;
+
+    IF v_shift.cashier_id <> auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_shift.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only the shift''s cashier or a manager can do this';
+    END IF;
+
+    IF v_shift.status <> 'open' THEN
+        RAISE EXCEPTION 'Shift % is already closed', v_shift.shift_number;
+    END IF;
+
+    RETURN v_shift;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.lock_open_cash_shift(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.record_cash_movement(p_shift_id uuid, p_movement_type text, p_amount numeric, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_movement_id uuid;
+BEGIN
+    PERFORM lock_open_cash_shift(p_shift_id);
+
+    IF p_movement_type NOT IN ('paid_in', 'paid_out') OR COALESCE(p_amount, 0) <= 0 OR COALESCE(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'A paid-in or paid-out needs a positive amount and a reason';
+    END IF;
+
+    INSERT INTO cash_movements (shift_id, movement_type, amount, reason, created_by)
+    VALUES (p_shift_id, p_movement_type, round(p_amount, 2), trim(p_reason), auth.uid())
+    RETURNING id INTO v_movement_id;
+
+    RETURN v_movement_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.record_cash_movement(uuid, text, numeric, text) TO authenticated;
+
+/*
+  The X report of an open shift or the Z report of a closed one. Takings per tender are recalculated,
+  but a closed shift's expected and counted amounts come from what was stored when it closed.
+  Expected amounts and variances are left out for anyone who is not an owner or manager.
+*/
+CREATE OR REPLACE FUNCTION public.get_cash_shift_report(p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift cash_shifts;
+    v_is_manager boolean;
+    v_paid_in numeric;
+    v_paid_out numeric;
+    v_tenders jsonb;
+BEGIN
+    SELECT * INTO v_shift FROM cash_shifts WHERE id = p_shift_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Shift not found';
+    END IF;
+
+    v_is_manager := EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_shift.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    );
+    IF v_shift.cashier_id <> auth.uid() AND NOT v_is_manager THEN
+        RAISE EXCEPTION 'Only the shift''s cashier or a manager can view this shift';
+    END IF;
+
+    SELECT COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_in'), 0),
+           COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+    INTO v_paid_in, v_paid_out
+    FROM cash_movements WHERE shift_id = p_shift_id;
+
+    WITH takings AS (
+        SELECT m.method, m.sort_order,
+               COALESCE((SELECT SUM(sp.amount) FROM sale_payments sp JOIN sales s ON s.id = sp.sale_id
+                         WHERE s.shift_id = p_shift_id AND sp.method = m.method), 0) AS sales,
+               COALESCE((SELECT SUM(r.total_amount) FROM sale_returns r
+                         WHERE r.shift_id = p_shift_id AND r.status = 'completed' AND r.refund_method = m.method), 0) AS refunds,
+               COALESCE((SELECT SUM(cp.amount) FROM customer_payments cp
+                         WHERE cp.shift_id = p_shift_id AND cp.method = m.method), 0) AS repayments
+        FROM (VALUES ('cash', 1), ('mpesa', 2), ('card', 3), ('account', 4)) AS m(method, sort_order)
+    ), expected AS (
+        SELECT t.*,
+               CASE
+                   WHEN v_shift.status = 'closed' THEN ct.expected_amount
+                   WHEN t.method = 'cash' THEN v_shift.opening_float + v_paid_in - v_paid_out + t.sales - t.refunds + t.repayments
+                   ELSE t.sales - t.refunds + t.repayments
+               END AS expected_amount,
+               ct.counted_amount
+        FROM takings t
+        LEFT JOIN cash_shift_tenders ct ON ct.shift_id = p_shift_id AND ct.method = t.method
+    )
+    SELECT jsonb_agg(
+        jsonb_build_object(
+            'method', e.method,
+            'sales', e.sales,
+            'refunds', e.refunds,
+            'repayments', e.repayments,
+            'counted', e.counted_amount
+        ) || CASE WHEN v_is_manager THEN jsonb_build_object(
+            'expected', e.expected_amount,
+            'variance', e.counted_amount - e.expected_amount
+        ) ELSE '{}'::jsonb END
+        ORDER BY e.sort_order
+    )
+    INTO v_tenders
+    FROM expected e
+    WHERE e.method = 'cash' OR e.sales <> 0 OR e.refunds <> 0 OR e.repayments <> 0 OR e.counted_amount IS NOT NULL;
+
+    RETURN jsonb_build_object(
+        'shift_id', v_shift.id,
+        'shift_number', v_shift.shift_number,
+        'status', v_shift.status,
+        'cashier_name', (SELECT COALESCE(full_name, email) FROM profiles WHERE id = v_shift.cashier_id),
+        'opened_at', v_shift.opened_at,
+        'closed_at', v_shift.closed_at,
+        'opening_float', v_shift.opening_float,
+        'paid_in', v_paid_in,
+        'paid_out', v_paid_out,
+        'sale_count', (SELECT count(*) FROM sales WHERE shift_id = p_shift_id),
+        'denomination_counts', v_shift.denomination_counts,
+        'notes', v_shift.notes,
+        'can_see_variance', v_is_manager,
+        'tenders', COALESCE(v_tenders, '[]'::jsonb),
+        'movements', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('movement_type', movement_type, 'amount', amount, 'reason', reason, 'created_at', created_at) ORDER BY created_at)
+            FROM cash_movements WHERE shift_id = p_shift_id
+        ), '[]'::jsonb)
+    );
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_cash_shift_report(uuid) TO authenticated;
+
+/*
+  Closes a shift with the drawer count. p_denominations maps each note or coin value to how many were
+  counted, e.g. {"1000": 3, "50": 4}. p_counted holds totals for the other tenders, e.g. {"mpesa": 5200}.
+*/
+CREATE OR REPLACE FUNCTION public.close_cash_shift(p_shift_id uuid, p_denominations jsonb, p_counted jsonb DEFAULT '{}'::jsonb, p_notes text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift cash_shifts;
+    v_paid_in numeric;
+    v_paid_out numeric;
+    v_counted_cash numeric;
+BEGIN
+    v_shift := lock_open_cash_shift(p_shift_id);
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_each_text(COALESCE(p_denominations, '{}'::jsonb)) d
+        WHERE d.key !~ '^[0-9]+(\.[0-9]+)?$' OR d.value !~ '^[0-9]+$'
+    ) THEN
+        RAISE EXCEPTION 'Denomination counts must be whole numbers';
+    END IF;
+
+    SELECT COALESCE(SUM(d.key::numeric * d.value::integer), 0) INTO v_counted_cash
+    FROM jsonb_each_text(COALESCE(p_denominations, '{}'::jsonb)) d;
+
+    SELECT COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_in'), 0),
+           COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+    INTO v_paid_in, v_paid_out
+    FROM cash_movements WHERE shift_id = p_shift_id;
+
+    INSERT INTO cash_shift_tenders (shift_id, method, expected_amount, counted_amount)
+    SELECT p_shift_id,
+           m.method,
+           CASE WHEN m.method = 'cash' THEN v_shift.opening_float + v_paid_in - v_paid_out ELSE 0 END
+             + COALESCE((SELECT SUM(sp.amount) FROM sale_payments sp JOIN sales s ON s.id = sp.sale_id
+                         WHERE s.shift_id = p_shift_id AND sp.method = m.method), 0)
+             - COALESCE((SELECT SUM(r.total_amount) FROM sale_returns r
+                         WHERE r.shift_id = p_shift_id AND r.status = 'completed' AND r.refund_method = m.method), 0)
+             + COALESCE((SELECT SUM(cp.amount) FROM customer_payments cp
+                         WHERE cp.shift_id = p_shift_id AND cp.method = m.method), 0),
+           -- Account sales are owed by customers, not held anywhere, so there is nothing to count
+           CASE
+               WHEN m.method = 'cash' THEN v_counted_cash
+               WHEN m.method = 'account' THEN NULL
+               ELSE (p_counted->>m.method)::numeric
+           END
+    FROM (VALUES ('cash'), ('mpesa'), ('card'), ('account')) AS m(method);
+
+    UPDATE cash_shifts
+    SET status = 'closed',
+        denomination_counts = p_denominations,
+        notes = NULLIF(trim(p_notes), ''),
+        closed_at = now(),
+        closed_by = auth.uid()
+    WHERE id = p_shift_id;
+
+    RETURN get_cash_shift_report(p_shift_id);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.close_cash_shift(uuid, jsonb, jsonb, text) TO authenticated;
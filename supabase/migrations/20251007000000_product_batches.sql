@@ -0,0 +1,383 @@
+/*
+# [Stock Batches and Expiry Dates]
+Tracks stock received in batches with a batch number and expiry date, deducts batches first-expiry-first-out (FEFO) as stock leaves, and reports batches that are expired or about to expire so they can be written off.
+
+## Query Description:
+Receiving a purchase order can record a batch number and expiry date per line; products flagged `track_expiry` must be received with an expiry date. Every stock movement is split across batches by a trigger on `stock_movements`, so sales, returns, stock takes and adjustments need no changes. Stock that no batch accounts for (opening stock, returns, stock received before this migration) is treated as the oldest and is used up first, then batches go out in expiry order. Expired stock is written off per batch through an 'expired' adjustment. No existing data is changed.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds column `track_expiry` to `products`.
+- Adds columns `batch_number` and `expiry_date` to `goods_received_items`.
+- Creates tables `product_batches` and `stock_movement_batches`.
+- Creates trigger function `allocate_stock_movement_batches` and functions `write_off_batch` and `get_expiring_batches`.
+- Replaces `receive_purchase_order` to record batches.
+
+## Security Implications:
+- RLS Status: Enabled on the new tables.
+- Policy Changes: Yes. Business members can view batches and their movements.
+- Auth Requirements: Writing off a batch requires the owner or manager role.
+
+## Performance Impact:
+- Indexes: Adds indexes on `product_batches(product_id, expiry_date)`, `product_batches(business_id, expiry_date)` and `stock_movement_batches.batch_id`.
+- Triggers: Adds an AFTER INSERT trigger on `stock_movements`.
+- Estimated Impact: Low. One indexed scan of a product's open batches per movement.
+*/
+
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS track_expiry boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.goods_received_items ADD COLUMN IF NOT EXISTS batch_number text;
+ALTER TABLE public.goods_received_items ADD COLUMN IF NOT EXISTS expiry_date date;
+
+CREATE TABLE IF NOT EXISTS public.product_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  batch_number text,
+  expiry_date date,
+  quantity_received integer NOT NULL CHECK (quantity_received > 0),
+  quantity_remaining integer NOT NULL CHECK (quantity_remaining >= 0),
+  stock_movement_id uuid REFERENCES public.stock_movements(id) ON DELETE SET NULL,
+  received_at timestamptz DEFAULT now() NOT NULL,
+  created_by uuid REFERENCES auth.users(id)
+);
+CREATE INDEX IF NOT EXISTS product_batches_product_id_expiry_date_idx ON public.product_batches(product_id, expiry_date) WHERE quantity_remaining > 0;
+CREATE INDEX IF NOT EXISTS product_batches_business_id_expiry_date_idx ON public.product_batches(business_id, expiry_date) WHERE quantity_remaining > 0;
+
+-- Which batches each movement drew from or added to
+CREATE TABLE IF NOT EXISTS public.stock_movement_batches (
+  movement_id uuid NOT NULL REFERENCES public.stock_movements(id) ON DELETE CASCADE,
+  batch_id uuid NOT NULL REFERENCES public.product_batches(id) ON DELETE CASCADE,
+  quantity integer NOT NULL,
+  PRIMARY KEY (movement_id, batch_id)
+);
+CREATE INDEX IF NOT EXISTS stock_movement_batches_batch_id_idx ON public.stock_movement_batches(batch_id);
+
+-- Batches are only ever written through the functions below.
+ALTER TABLE public.product_batches ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view product_batches" ON public.product_batches;
+CREATE POLICY "Allow business members to view product_batches" ON public.product_batches FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.stock_movement_batches ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view stock_movement_batches" ON public.stock_movement_batches;
+CREATE POLICY "Allow business members to view stock_movement_batches" ON public.stock_movement_batches FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM product_batches b
+        WHERE b.id = stock_movement_batches.batch_id AND is_business_member(b.business_id, auth.uid())
+    )
+);
+
+/*
+  Splits a stock movement across batches. Stock coming in opens a batch when the caller has set
+  app.stock_batch to {"batch_number", "expiry_date"}; otherwise it stays unbatched. Stock going out
+  comes from the batch in app.stock_batch_id when set, or else from unbatched stock first and then
+  from batches in expiry order.
+*/
+CREATE OR REPLACE FUNCTION public.allocate_stock_movement_batches()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_batch jsonb;
+    v_batch_id uuid;
+    v_batched integer;
+    v_outstanding integer;
+    v_take integer;
+    v_open record;
+BEGIN
+    IF NEW.quantity > 0 THEN
+        v_batch := NULLIF(current_setting('app.stock_batch', true), '')::jsonb;
+        IF v_batch IS NULL THEN
+            RETURN NEW;
+        END IF;
+
+        INSERT INTO product_batches (business_id, product_id, batch_number, expiry_date, quantity_received, quantity_remaining, stock_movement_id, created_by)
+        VALUES (
+            NEW.business_id,
+            NEW.product_id,
+            NULLIF(trim(v_batch->>'batch_number'), ''),
+            NULLIF(v_batch->>'expiry_date', '')::date,
+            NEW.quantity,
+            NEW.quantity,
+            NEW.id,
+            NEW.created_by
+        )
+        RETURNING id INTO v_batch_id;
+
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_batch_id, NEW.quantity);
+        RETURN NEW;
+    END IF;
+
+    IF NEW.quantity = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    v_outstanding := -NEW.quantity;
+
+    v_batch_id := NULLIF(current_setting('app.stock_batch_id', true), '')::uuid;
+    IF v_batch_id IS NOT NULL THEN
+        UPDATE product_batches
+        SET quantity_remaining = quantity_remaining - v_outstanding
+        WHERE id = v_batch_id AND product_id = NEW.product_id AND quantity_remaining >= v_outstanding;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'The batch does not have % left', v_outstanding;
+        END IF;
+
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_batch_id, NEW.quantity);
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity_remaining), 0) INTO v_batched
+    FROM product_batches
+    WHERE product_id = NEW.product_id AND quantity_remaining > 0;
+
+    -- Stock on hand before this movement that no batch accounts for
+    v_outstanding := v_outstanding - LEAST(v_outstanding, GREATEST(NEW.balance_after - NEW.quantity - v_batched, 0));
+
+    FOR v_open IN
+        SELECT id, quantity_remaining
+        FROM product_batches
+        WHERE product_id = NEW.product_id AND quantity_remaining > 0
+        ORDER BY expiry_date NULLS LAST, received_at
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_outstanding = 0;
+        v_take := LEAST(v_outstanding, v_open.quantity_remaining);
+
+        UPDATE product_batches SET quantity_remaining = quantity_remaining - v_take WHERE id = v_open.id;
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_open.id, -v_take);
+
+        v_outstanding := v_outstanding - v_take;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS allocate_stock_movements_batches ON public.stock_movements;
+CREATE TRIGGER allocate_stock_movements_batches AFTER INSERT ON public.stock_movements
+    FOR EACH ROW EXECUTE FUNCTION public.allocate_stock_movement_batches();
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+    p_purchase_order_id uuid,
+    p_items jsonb,
+    p_cost_method text DEFAULT 'latest',
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+    v_line public.purchase_order_items%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_grn_id uuid;
+    v_total numeric := 0;
+    v_quantity int;
+    v_unit_cost numeric;
+    v_batch_number text;
+    v_expiry_date date;
+    item jsonb;
+BEGIN
+    IF p_cost_method NOT IN ('latest', 'weighted_average') THEN
+        RAISE EXCEPTION 'Unknown cost method %', p_cost_method;
+    END IF;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is %', v_order.po_number, v_order.status;
+    END IF;
+
+    INSERT INTO goods_received_notes (business_id, purchase_order_id, supplier_id, grn_number, total_amount, notes, received_by)
+    VALUES (
+        v_order.business_id,
+        v_order.id,
+        v_order.supplier_id,
+        'GRN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        0,
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_grn_id;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_quantity := (item->>'quantity')::int;
+        CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+        SELECT * INTO v_line
+        FROM purchase_order_items
+        WHERE id = (item->>'purchase_order_item_id')::uuid AND purchase_order_id = v_order.id
+        FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is not on purchase order %', item->>'purchase_order_item_id', v_order.po_number;
+        END IF;
+        IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity_ordered THEN
+            RAISE EXCEPTION 'Cannot receive % more of a line with % outstanding', v_quantity, v_line.quantity_ordered - v_line.quantity_received;
+        END IF;
+
+        v_unit_cost := COALESCE((item->>'unit_cost')::numeric, v_line.unit_cost);
+        v_batch_number := NULLIF(trim(item->>'batch_number'), '');
+        v_expiry_date := NULLIF(item->>'expiry_date', '')::date;
+
+        SELECT * INTO v_product FROM products WHERE id = v_line.product_id FOR UPDATE;
+
+        IF v_product.track_expiry AND v_expiry_date IS NULL THEN
+            RAISE EXCEPTION 'Enter an expiry date for %', v_product.name;
+        END IF;
+
+        UPDATE products
+        SET buying_price = CASE
+                WHEN p_cost_method = 'weighted_average' AND v_product.buying_price IS NOT NULL AND GREATEST(v_product.stock_quantity, 0) > 0 THEN
+                    round((GREATEST(v_product.stock_quantity, 0) * v_product.buying_price + v_quantity * v_unit_cost) / (GREATEST(v_product.stock_quantity, 0) + v_quantity), 2)
+                ELSE v_unit_cost
+            END,
+            updated_at = now()
+        WHERE id = v_line.product_id;
+
+        IF v_batch_number IS NOT NULL OR v_expiry_date IS NOT NULL THEN
+            PERFORM set_config('app.stock_batch', jsonb_build_object('batch_number', v_batch_number, 'expiry_date', v_expiry_date)::text, true);
+        END IF;
+        PERFORM apply_stock_movement(v_order.business_id, v_line.product_id, 'receipt', v_quantity, 'goods_received_note', v_grn_id);
+        PERFORM set_config('app.stock_batch', '', true);
+
+        UPDATE purchase_order_items
+        SET quantity_received = quantity_received + v_quantity
+        WHERE id = v_line.id;
+
+        INSERT INTO goods_received_items (grn_id, purchase_order_item_id, product_id, quantity, unit_cost, total_cost, batch_number, expiry_date)
+        VALUES (v_grn_id, v_line.id, v_line.product_id, v_quantity, v_unit_cost, v_quantity * v_unit_cost, v_batch_number, v_expiry_date);
+
+        v_total := v_total + v_quantity * v_unit_cost;
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM goods_received_items WHERE grn_id = v_grn_id) THEN
+        RAISE EXCEPTION 'Enter a quantity for at least one line';
+    END IF;
+
+    UPDATE goods_received_notes SET total_amount = v_total WHERE id = v_grn_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+            WHEN EXISTS (SELECT 1 FROM purchase_order_items WHERE purchase_order_id = v_order.id AND quantity_received < quantity_ordered)
+            THEN 'partially_received'::public.purchase_order_status_enum
+            ELSE 'received'::public.purchase_order_status_enum
+        END,
+        updated_at = now()
+    WHERE id = v_order.id;
+
+    RETURN v_grn_id;
+END;
+$$;
+
+-- Writes off what is left of a batch (or part of it) as expired stock. Returns the product's new balance.
+CREATE OR REPLACE FUNCTION public.write_off_batch(
+    p_batch_id uuid,
+    p_quantity integer DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_batch public.product_batches%ROWTYPE;
+    v_quantity integer;
+    v_balance integer;
+BEGIN
+    SELECT * INTO v_batch FROM product_batches WHERE id = p_batch_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_batch.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Batch not found';
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_batch.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only owners and managers can write off stock';
+    END IF;
+
+    v_quantity := COALESCE(p_quantity, v_batch.quantity_remaining);
+    IF v_quantity <= 0 OR v_quantity > v_batch.quantity_remaining THEN
+        RAISE EXCEPTION 'Cannot write off % from a batch with % left', v_quantity, v_batch.quantity_remaining;
+    END IF;
+
+    PERFORM set_config('app.stock_batch_id', v_batch.id::text, true);
+    v_balance := apply_stock_movement(
+        v_batch.business_id,
+        v_batch.product_id,
+        'adjustment',
+        -v_quantity,
+        'product_batch',
+        v_batch.id,
+        'expired',
+        COALESCE(p_notes, 'Batch ' || COALESCE(v_batch.batch_number, 'without number') || CASE WHEN v_batch.expiry_date IS NOT NULL THEN ', expiry ' || to_char(v_batch.expiry_date, 'DD Mon YYYY') ELSE '' END)
+    );
+    PERFORM set_config('app.stock_batch_id', '', true);
+
+    RETURN v_balance;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.write_off_batch(uuid, integer, text) TO authenticated;
+
+-- Batches with stock left that have expired or expire within p_days days, soonest first.
+CREATE OR REPLACE FUNCTION public.get_expiring_batches(p_business_id uuid, p_days integer DEFAULT 30)
+RETURNS TABLE (
+    batch_id uuid,
+    product_id uuid,
+    product_name text,
+    sku text,
+    category text,
+    unit text,
+    batch_number text,
+    expiry_date date,
+    days_to_expiry integer,
+    quantity_remaining integer,
+    buying_price numeric,
+    selling_price numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        b.id,
+        p.id,
+        p.name::text,
+        p.sku::text,
+        p.category::text,
+        p.unit::text,
+        b.batch_number,
+        b.expiry_date,
+        (b.expiry_date - (now() AT TIME ZONE 'Africa/Nairobi')::date)::integer,
+        b.quantity_remaining,
+        p.buying_price::numeric,
+        p.selling_price::numeric
+    FROM product_batches b
+    JOIN products p ON p.id = b.product_id
+    WHERE b.business_id = p_business_id
+      AND b.quantity_remaining > 0
+      AND b.expiry_date <= (now() AT TIME ZONE 'Africa/Nairobi')::date + p_days
+    ORDER BY b.expiry_date, p.name;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_expiring_batches(uuid, integer) TO authenticated;
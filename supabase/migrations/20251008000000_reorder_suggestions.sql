@@ -0,0 +1,331 @@
+/*
+# [Reorder Suggestions and Draft Purchase Orders]
+Suggests what to reorder from how fast each product sells, and turns the suggestions into draft purchase orders, one per supplier, to be reviewed before they are placed.
+
+## Query Description:
+Average daily sales come from `sale_items` over a lookback window, in stock units and net of completed returns and voids. Days of cover is stock on hand divided by that rate. A product needs reordering once stock on hand plus stock already on order or in a draft would not last the supplier's lead time plus the safety stock days; the suggested quantity tops it up to also cover the chosen order cycle. A product's supplier and cost are taken from its most recent purchase order. Purchase orders gain a `draft` status: drafts can be edited, placed or cancelled, but not received, and they do not count as incoming stock. No existing data is changed.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds value `draft` to enum `purchase_order_status_enum`.
+- Adds column `lead_time_days` to `suppliers`.
+- Replaces `create_purchase_order` with a version that takes `p_draft`, and `cancel_purchase_order` to allow cancelling drafts.
+- Creates functions `update_draft_purchase_order`, `place_purchase_order` and `get_reorder_suggestions`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Business members, as for other purchase order functions.
+
+## Performance Impact:
+- Indexes: None. Sales are read through the existing `sale_items.sale_id` and `sales.business_id` indexes.
+- Triggers: None.
+- Estimated Impact: Low. Suggestions scan the sales in the lookback window once.
+*/
+
+ALTER TYPE public.purchase_order_status_enum ADD VALUE IF NOT EXISTS 'draft' BEFORE 'ordered';
+
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS lead_time_days integer CHECK (lead_time_days >= 0);
+
+DROP FUNCTION IF EXISTS public.create_purchase_order(uuid, uuid, jsonb, date, text);
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+    p_business_id uuid,
+    p_supplier_id uuid,
+    p_items jsonb,
+    p_expected_date date DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_draft boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order_id uuid;
+    v_total numeric := 0;
+    item jsonb;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Supplier not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A purchase order needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        IF NOT EXISTS (SELECT 1 FROM products WHERE id = (item->>'product_id')::uuid AND business_id = p_business_id) THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        v_total := v_total + (item->>'quantity')::int * (item->>'unit_cost')::numeric;
+    END LOOP;
+
+    INSERT INTO purchase_orders (business_id, supplier_id, po_number, status, expected_date, notes, total_amount, created_by)
+    VALUES (
+        p_business_id,
+        p_supplier_id,
+        'PO-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        CASE WHEN p_draft THEN 'draft' ELSE 'ordered' END::public.purchase_order_status_enum,
+        p_expected_date,
+        p_notes,
+        v_total,
+        auth.uid()
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    SELECT v_order_id, (x->>'product_id')::uuid, (x->>'quantity')::int, (x->>'unit_cost')::numeric
+    FROM jsonb_array_elements(p_items) x;
+
+    RETURN v_order_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(uuid, uuid, jsonb, date, text, boolean) TO authenticated;
+
+-- Replaces the supplier, lines, expected date and notes of a draft. p_items as for create_purchase_order.
+CREATE OR REPLACE FUNCTION public.update_draft_purchase_order(
+    p_purchase_order_id uuid,
+    p_supplier_id uuid,
+    p_items jsonb,
+    p_expected_date date DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+    v_total numeric := 0;
+    item jsonb;
+BEGIN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status <> 'draft' THEN
+        RAISE EXCEPTION 'Purchase order % has already been placed', v_order.po_number;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND business_id = v_order.business_id) THEN
+        RAISE EXCEPTION 'Supplier not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A purchase order needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        IF NOT EXISTS (SELECT 1 FROM products WHERE id = (item->>'product_id')::uuid AND business_id = v_order.business_id) THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        v_total := v_total + (item->>'quantity')::int * (item->>'unit_cost')::numeric;
+    END LOOP;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = v_order.id;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    SELECT v_order.id, (x->>'product_id')::uuid, (x->>'quantity')::int, (x->>'unit_cost')::numeric
+    FROM jsonb_array_elements(p_items) x;
+
+    UPDATE purchase_orders
+    SET supplier_id = p_supplier_id,
+        expected_date = p_expected_date,
+        notes = p_notes,
+        total_amount = v_total,
+        updated_at = now()
+    WHERE id = v_order.id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.update_draft_purchase_order(uuid, uuid, jsonb, date, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_purchase_order(p_purchase_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status <> 'draft' THEN
+        RAISE EXCEPTION 'Purchase order % has already been placed', v_order.po_number;
+    END IF;
+
+    UPDATE purchase_orders SET status = 'ordered', updated_at = now() WHERE id = p_purchase_order_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.place_purchase_order(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_purchase_order(p_purchase_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status NOT IN ('draft', 'ordered', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is already %', v_order.po_number, v_order.status;
+    END IF;
+
+    UPDATE purchase_orders SET status = 'cancelled', updated_at = now() WHERE id = p_purchase_order_id;
+END;
+$$;
+
+/*
+  Sales velocity and reorder quantities for every active product. p_lead_time_days is used for
+  products whose supplier has no lead time set; quantities are in stock units.
+*/
+CREATE OR REPLACE FUNCTION public.get_reorder_suggestions(
+    p_business_id uuid,
+    p_lookback_days integer DEFAULT 30,
+    p_lead_time_days integer DEFAULT 7,
+    p_safety_days integer DEFAULT 3,
+    p_cover_days integer DEFAULT 14
+)
+RETURNS TABLE (
+    product_id uuid,
+    product_name text,
+    sku text,
+    unit text,
+    stock_quantity integer,
+    on_order integer,
+    on_draft integer,
+    units_sold integer,
+    avg_daily_sales numeric,
+    days_of_cover numeric,
+    lead_time_days integer,
+    reorder_point integer,
+    suggested_quantity integer,
+    supplier_id uuid,
+    supplier_name text,
+    unit_cost numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+    IF p_lookback_days <= 0 THEN
+        RAISE EXCEPTION 'The lookback window must be at least one day';
+    END IF;
+
+    RETURN QUERY
+    WITH sold AS (
+        SELECT l.product_id, SUM(l.quantity) AS quantity
+        FROM (
+            SELECT si.product_id, si.quantity * si.conversion_factor AS quantity
+            FROM sales s
+            JOIN sale_items si ON si.sale_id = s.id
+            WHERE s.business_id = p_business_id
+              AND s.created_at >= now() - make_interval(days => p_lookback_days)
+            UNION ALL
+            SELECT ri.product_id, -ri.quantity * si.conversion_factor
+            FROM sale_returns r
+            JOIN sale_return_items ri ON ri.return_id = r.id
+            JOIN sale_items si ON si.id = ri.sale_item_id
+            WHERE r.business_id = p_business_id
+              AND r.status = 'completed'
+              AND r.created_at >= now() - make_interval(days => p_lookback_days)
+        ) l
+        GROUP BY l.product_id
+    ),
+    open_lines AS (
+        SELECT poi.product_id,
+               SUM(poi.quantity_ordered - poi.quantity_received) FILTER (WHERE po.status IN ('ordered', 'partially_received')) AS on_order,
+               SUM(poi.quantity_ordered) FILTER (WHERE po.status = 'draft') AS on_draft
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE po.business_id = p_business_id
+          AND po.status IN ('draft', 'ordered', 'partially_received')
+        GROUP BY poi.product_id
+    ),
+    last_supplier AS (
+        SELECT DISTINCT ON (poi.product_id) poi.product_id, po.supplier_id, poi.unit_cost
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE po.business_id = p_business_id
+          AND po.status <> 'cancelled'
+        ORDER BY poi.product_id, po.created_at DESC
+    ),
+    velocity AS (
+        SELECT
+            p.id,
+            p.name,
+            p.sku,
+            p.unit,
+            COALESCE(p.stock_quantity, 0) AS stock_quantity,
+            COALESCE(o.on_order, 0) AS on_order,
+            COALESCE(o.on_draft, 0) AS on_draft,
+            GREATEST(COALESCE(sd.quantity, 0), 0) AS units_sold,
+            GREATEST(COALESCE(sd.quantity, 0), 0)::numeric / p_lookback_days AS daily,
+            COALESCE(su.lead_time_days, p_lead_time_days) AS lead_time,
+            su.id AS supplier_id,
+            su.name AS supplier_name,
+            COALESCE(ls.unit_cost, p.buying_price) AS unit_cost
+        FROM products p
+        LEFT JOIN sold sd ON sd.product_id = p.id
+        LEFT JOIN open_lines o ON o.product_id = p.id
+        LEFT JOIN last_supplier ls ON ls.product_id = p.id
+        LEFT JOIN suppliers su ON su.id = ls.supplier_id
+        WHERE p.business_id = p_business_id
+          AND p.is_active
+    ),
+    targets AS (
+        SELECT
+            v.*,
+            ceil(v.daily * (v.lead_time + p_safety_days))::integer AS reorder_point,
+            ceil(v.daily * (v.lead_time + p_safety_days + p_cover_days))::integer AS target,
+            GREATEST(v.stock_quantity, 0) + v.on_order + v.on_draft AS available
+        FROM velocity v
+    )
+    SELECT
+        t.id,
+        t.name::text,
+        t.sku::text,
+        t.unit::text,
+        t.stock_quantity::integer,
+        t.on_order::integer,
+        t.on_draft::integer,
+        t.units_sold::integer,
+        round(t.daily, 2),
+        CASE WHEN t.daily > 0 THEN round(GREATEST(t.stock_quantity, 0) / t.daily, 1) END,
+        t.lead_time,
+        t.reorder_point,
+        CASE WHEN t.daily > 0 AND t.available <= t.reorder_point THEN (t.target - t.available)::integer ELSE 0 END,
+        t.supplier_id,
+        t.supplier_name::text,
+        t.unit_cost::numeric
+    FROM targets t
+    ORDER BY CASE WHEN t.daily > 0 THEN GREATEST(t.stock_quantity, 0) / t.daily END NULLS LAST, t.name;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_reorder_suggestions(uuid, integer, integer, integer, integer) TO authenticated;
@@ -0,0 +1,1334 @@
+/*
+# [Branches and Inter-Branch Stock Transfers]
+Adds branches (outlets) under a business with their own stock levels, transfer orders that move stock between branches, and branch filters on sales, the dashboard and reports.
+
+## Query Description:
+Every business gets a default branch, and today's stock, sales, purchase orders, stock takes and batches are assigned to it. `products.stock_quantity` stays as the total across branches so existing screens keep working, while `branch_stock` holds the quantity at each branch. `apply_stock_movement` now works out the branch from what the movement refers to: the sale's branch, the purchase order's delivery branch, the stock take's branch, the batch's branch, or the sending or receiving branch of a transfer. Anything else (adjustments, imports, direct edits) goes to the branch in `app.branch_id` or the default branch. A sale belongs to the branch of the cashier's open shift, else the staff member's home branch, else the default branch, and stock availability is checked at that branch. A transfer is requested, then dispatched (stock leaves the sending branch) and received (stock arrives, keeping batch numbers and expiry dates); anything not received was lost in transit.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["High"]
+- Requires-Backup: true
+- Reversible: false
+
+## Structure Details:
+- Creates tables `branches`, `branch_stock`, `stock_transfers` and `stock_transfer_items`, and enum `stock_transfer_status_enum`.
+- Adds `branch_id` to `staff_roles`, `cash_shifts`, `sales`, `purchase_orders`, `stock_takes`, `stock_movements` and `product_batches`, and `branch_balance_after` to `stock_movements`.
+- Creates functions `default_branch_id`, `staff_branch_id`, `set_default_branch`, `create_stock_transfer`, `dispatch_stock_transfer`, `receive_stock_transfer` and `cancel_stock_transfer`.
+- Replaces `apply_stock_movement`, `log_direct_stock_change`, `allocate_stock_movement_batches` and `validate_sale_items`.
+- Adds a `p_branch_id` parameter to `adjust_stock`, `start_stock_take`, `open_cash_shift`, `create_purchase_order`, `update_draft_purchase_order`, `get_dashboard_stats`, `get_revenue_series`, `get_gross_profit` and `get_expiring_batches`.
+
+## Security Implications:
+- RLS Status: Enabled on the new tables.
+- Policy Changes: Yes. Business members can view branches, branch stock and transfers. Owners and managers can add and edit branches.
+- Auth Requirements: Transfers are written only through the functions above.
+
+## Performance Impact:
+- Indexes: Adds indexes on the new `branch_id` columns used for filtering.
+- Triggers: Adds a BEFORE INSERT trigger on `sales` and an AFTER INSERT trigger on `businesses`.
+- Estimated Impact: Medium. Backfills `branch_id` on existing rows; each stock movement writes one extra row.
+*/
+
+CREATE TABLE IF NOT EXISTS public.branches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  code text,
+  address text,
+  phone text,
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS branches_business_id_idx ON public.branches(business_id);
+CREATE UNIQUE INDEX IF NOT EXISTS branches_one_default_per_business ON public.branches(business_id) WHERE is_default;
+
+ALTER TABLE public.branches ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view branches" ON public.branches;
+DROP POLICY IF EXISTS "Allow managers to add branches" ON public.branches;
+DROP POLICY IF EXISTS "Allow managers to edit branches" ON public.branches;
+CREATE POLICY "Allow business members to view branches" ON public.branches FOR SELECT USING (is_business_member(business_id, auth.uid()));
+CREATE POLICY "Allow managers to add branches" ON public.branches FOR INSERT WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM staff_roles sr
+        WHERE sr.business_id = branches.business_id AND sr.user_id = auth.uid() AND sr.is_active = true AND sr.role IN ('owner', 'manager')
+    )
+);
+CREATE POLICY "Allow managers to edit branches" ON public.branches FOR UPDATE USING (
+    EXISTS (
+        SELECT 1 FROM staff_roles sr
+        WHERE sr.business_id = branches.business_id AND sr.user_id = auth.uid() AND sr.is_active = true AND sr.role IN ('owner', 'manager')
+    )
+);
+
+INSERT INTO public.branches (business_id, name, is_default)
+SELECT b.id, 'Main branch', true
+FROM public.businesses b
+WHERE NOT EXISTS (SELECT 1 FROM public.branches br WHERE br.business_id = b.id);
+
+CREATE OR REPLACE FUNCTION public.create_default_branch()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO branches (business_id, name, is_default) VALUES (NEW.id, 'Main branch', true);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_businesses_default_branch ON public.businesses;
+CREATE TRIGGER create_businesses_default_branch AFTER INSERT ON public.businesses
+    FOR EACH ROW EXECUTE FUNCTION public.create_default_branch();
+
+CREATE OR REPLACE FUNCTION public.default_branch_id(p_business_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id FROM branches WHERE business_id = p_business_id AND is_default;
+$$;
+GRANT EXECUTE ON FUNCTION public.default_branch_id(uuid) TO authenticated;
+
+-- Makes a branch the one that unassigned stock, sales and staff fall back to.
+CREATE OR REPLACE FUNCTION public.set_default_branch(p_branch_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_branch public.branches%ROWTYPE;
+BEGIN
+    SELECT * INTO v_branch FROM branches WHERE id = p_branch_id;
+    IF NOT FOUND OR NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_branch.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+    IF NOT v_branch.is_active THEN
+        RAISE EXCEPTION 'An inactive branch cannot be the default';
+    END IF;
+
+    UPDATE branches SET is_default = false, updated_at = now() WHERE business_id = v_branch.business_id AND is_default AND id <> p_branch_id;
+    UPDATE branches SET is_default = true, updated_at = now() WHERE id = p_branch_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.set_default_branch(uuid) TO authenticated;
+
+-- Stock on hand per branch; products.stock_quantity is the total across branches.
+CREATE TABLE IF NOT EXISTS public.branch_stock (
+  branch_id uuid NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (branch_id, product_id)
+);
+CREATE INDEX IF NOT EXISTS branch_stock_product_id_idx ON public.branch_stock(product_id);
+
+ALTER TABLE public.branch_stock ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view branch_stock" ON public.branch_stock;
+CREATE POLICY "Allow business members to view branch_stock" ON public.branch_stock FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+INSERT INTO public.branch_stock (branch_id, product_id, business_id, quantity)
+SELECT public.default_branch_id(p.business_id), p.id, p.business_id, p.stock_quantity
+FROM public.products p
+WHERE COALESCE(p.stock_quantity, 0) <> 0
+ON CONFLICT (branch_id, product_id) DO NOTHING;
+
+-- A staff member's home branch; null means they work wherever they open a shift
+ALTER TABLE public.staff_roles ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id) ON DELETE SET NULL;
+
+ALTER TABLE public.cash_shifts ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.stock_takes ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.product_batches ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS branch_balance_after integer;
+
+CREATE INDEX IF NOT EXISTS sales_branch_id_created_at_idx ON public.sales(branch_id, created_at);
+CREATE INDEX IF NOT EXISTS stock_movements_branch_id_idx ON public.stock_movements(branch_id);
+CREATE INDEX IF NOT EXISTS product_batches_branch_id_idx ON public.product_batches(branch_id);
+
+UPDATE public.cash_shifts SET branch_id = public.default_branch_id(business_id) WHERE branch_id IS NULL;
+UPDATE public.purchase_orders SET branch_id = public.default_branch_id(business_id) WHERE branch_id IS NULL;
+UPDATE public.stock_takes SET branch_id = public.default_branch_id(business_id) WHERE branch_id IS NULL;
+UPDATE public.product_batches SET branch_id = public.default_branch_id(business_id) WHERE branch_id IS NULL;
+
+ALTER TABLE public.sales DISABLE TRIGGER prevent_sales_update;
+UPDATE public.sales SET branch_id = public.default_branch_id(business_id) WHERE branch_id IS NULL;
+ALTER TABLE public.sales ENABLE TRIGGER prevent_sales_update;
+
+ALTER TABLE public.stock_movements DISABLE TRIGGER prevent_stock_movements_update;
+UPDATE public.stock_movements SET branch_id = public.default_branch_id(business_id) WHERE branch_id IS NULL;
+ALTER TABLE public.stock_movements ENABLE TRIGGER prevent_stock_movements_update;
+
+-- The branch a staff member is selling at: their open shift's, else their home branch, else the default.
+CREATE OR REPLACE FUNCTION public.staff_branch_id(p_business_id uuid, p_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT branch_id FROM cash_shifts WHERE business_id = p_business_id AND cashier_id = p_user_id AND status = 'open'),
+        (SELECT br.id FROM staff_roles sr JOIN branches br ON br.id = sr.branch_id AND br.is_active
+         WHERE sr.business_id = p_business_id AND sr.user_id = p_user_id AND sr.is_active = true),
+        default_branch_id(p_business_id)
+    );
+$$;
+GRANT EXECUTE ON FUNCTION public.staff_branch_id(uuid, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_sale_branch()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.branch_id IS NULL THEN
+        NEW.branch_id := staff_branch_id(NEW.business_id, NEW.cashier_id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_sales_branch ON public.sales;
+CREATE TRIGGER set_sales_branch BEFORE INSERT ON public.sales
+    FOR EACH ROW EXECUTE FUNCTION public.set_sale_branch();
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'stock_transfer_status_enum') THEN
+        CREATE TYPE public.stock_transfer_status_enum AS ENUM ('requested', 'in_transit', 'received', 'cancelled');
+    END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.stock_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  transfer_number text UNIQUE NOT NULL,
+  from_branch_id uuid NOT NULL REFERENCES public.branches(id),
+  to_branch_id uuid NOT NULL REFERENCES public.branches(id),
+  status public.stock_transfer_status_enum NOT NULL DEFAULT 'requested',
+  notes text,
+  requested_by uuid REFERENCES auth.users(id),
+  dispatched_by uuid REFERENCES auth.users(id),
+  dispatched_at timestamptz,
+  received_by uuid REFERENCES auth.users(id),
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (from_branch_id <> to_branch_id)
+);
+CREATE INDEX IF NOT EXISTS stock_transfers_business_id_idx ON public.stock_transfers(business_id);
+
+CREATE TABLE IF NOT EXISTS public.stock_transfer_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id uuid NOT NULL REFERENCES public.stock_transfers(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id),
+  quantity_requested integer NOT NULL CHECK (quantity_requested > 0),
+  quantity_dispatched integer NOT NULL DEFAULT 0 CHECK (quantity_dispatched >= 0),
+  quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  UNIQUE (transfer_id, product_id)
+);
+
+-- Transfers are only ever written through the functions below.
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view stock_transfers" ON public.stock_transfers;
+CREATE POLICY "Allow business members to view stock_transfers" ON public.stock_transfers FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.stock_transfer_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view stock_transfer_items" ON public.stock_transfer_items;
+CREATE POLICY "Allow business members to view stock_transfer_items" ON public.stock_transfer_items FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM stock_transfers st
+        WHERE st.id = stock_transfer_items.transfer_id AND is_business_member(st.business_id, auth.uid())
+    )
+);
+
+/*
+  Moves stock at one branch and records the movement. The branch comes from the movement's reference,
+  else app.branch_id, else the business's default branch. Returns the product's new total across branches.
+*/
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+    p_business_id uuid,
+    p_product_id uuid,
+    p_movement_type public.stock_movement_type_enum,
+    p_quantity integer,
+    p_reference_type text DEFAULT NULL,
+    p_reference_id uuid DEFAULT NULL,
+    p_reason text DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_balance integer;
+    v_branch_id uuid;
+    v_branch_balance integer;
+BEGIN
+    v_branch_id := CASE p_reference_type
+        WHEN 'sale' THEN (SELECT branch_id FROM sales WHERE id = p_reference_id)
+        WHEN 'sale_return' THEN (SELECT s.branch_id FROM sale_returns r JOIN sales s ON s.id = r.sale_id WHERE r.id = p_reference_id)
+        WHEN 'goods_received_note' THEN (SELECT po.branch_id FROM goods_received_notes g JOIN purchase_orders po ON po.id = g.purchase_order_id WHERE g.id = p_reference_id)
+        WHEN 'stock_take' THEN (SELECT branch_id FROM stock_takes WHERE id = p_reference_id)
+        WHEN 'product_batch' THEN (SELECT branch_id FROM product_batches WHERE id = p_reference_id)
+        WHEN 'stock_transfer' THEN (SELECT CASE WHEN p_quantity < 0 THEN from_branch_id ELSE to_branch_id END FROM stock_transfers WHERE id = p_reference_id)
+    END;
+    IF v_branch_id IS NULL THEN
+        SELECT id INTO v_branch_id
+        FROM branches
+        WHERE id = NULLIF(current_setting('app.branch_id', true), '')::uuid AND business_id = p_business_id;
+    END IF;
+    v_branch_id := COALESCE(v_branch_id, default_branch_id(p_business_id));
+
+    -- Tells log_direct_stock_change that this update is already being recorded
+    PERFORM set_config('app.stock_movement', 'on', true);
+
+    UPDATE products
+    SET stock_quantity = stock_quantity + p_quantity,
+        updated_at = now()
+    WHERE id = p_product_id AND business_id = p_business_id
+    RETURNING stock_quantity INTO v_balance;
+
+    PERFORM set_config('app.stock_movement', 'off', true);
+
+    IF v_balance IS NULL THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+
+    INSERT INTO branch_stock (branch_id, product_id, business_id, quantity)
+    VALUES (v_branch_id, p_product_id, p_business_id, p_quantity)
+    ON CONFLICT (branch_id, product_id) DO UPDATE SET quantity = branch_stock.quantity + EXCLUDED.quantity
+    RETURNING quantity INTO v_branch_balance;
+
+    INSERT INTO stock_movements (business_id, product_id, movement_type, quantity, balance_after, branch_id, branch_balance_after, reference_type, reference_id, reason, notes, created_by)
+    VALUES (p_business_id, p_product_id, p_movement_type, p_quantity, v_balance, v_branch_id, v_branch_balance, p_reference_type, p_reference_id, p_reason, p_notes, auth.uid());
+
+    RETURN v_balance;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(uuid, uuid, public.stock_movement_type_enum, integer, text, uuid, text, text) FROM PUBLIC;
+
+-- Stock set outside apply_stock_movement (new products, product edits) lands at the default branch.
+CREATE OR REPLACE FUNCTION public.log_direct_stock_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_change integer;
+    v_branch_id uuid;
+    v_branch_balance integer;
+BEGIN
+    IF current_setting('app.stock_movement', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        v_change := COALESCE(NEW.stock_quantity, 0);
+    ELSE
+        v_change := COALESCE(NEW.stock_quantity, 0) - COALESCE(OLD.stock_quantity, 0);
+    END IF;
+    IF v_change = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    v_branch_id := default_branch_id(NEW.business_id);
+
+    INSERT INTO branch_stock (branch_id, product_id, business_id, quantity)
+    VALUES (v_branch_id, NEW.id, NEW.business_id, v_change)
+    ON CONFLICT (branch_id, product_id) DO UPDATE SET quantity = branch_stock.quantity + EXCLUDED.quantity
+    RETURNING quantity INTO v_branch_balance;
+
+    INSERT INTO stock_movements (business_id, product_id, movement_type, quantity, balance_after, branch_id, branch_balance_after, reason, created_by)
+    VALUES (
+        NEW.business_id,
+        NEW.id,
+        CASE WHEN TG_OP = 'INSERT' THEN 'opening' ELSE 'adjustment' END::public.stock_movement_type_enum,
+        v_change,
+        COALESCE(NEW.stock_quantity, 0),
+        v_branch_id,
+        v_branch_balance,
+        CASE WHEN TG_OP = 'INSERT' THEN 'Opening stock' ELSE 'Direct edit' END,
+        auth.uid()
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+-- Batches belong to the branch that received them, so FEFO runs per branch.
+CREATE OR REPLACE FUNCTION public.allocate_stock_movement_batches()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_batch jsonb;
+    v_batch_id uuid;
+    v_batched integer;
+    v_outstanding integer;
+    v_take integer;
+    v_open record;
+BEGIN
+    IF NEW.quantity > 0 THEN
+        v_batch := NULLIF(current_setting('app.stock_batch', true), '')::jsonb;
+        IF v_batch IS NULL THEN
+            RETURN NEW;
+        END IF;
+
+        INSERT INTO product_batches (business_id, product_id, branch_id, batch_number, expiry_date, quantity_received, quantity_remaining, stock_movement_id, created_by)
+        VALUES (
+            NEW.business_id,
+            NEW.product_id,
+            NEW.branch_id,
+            NULLIF(trim(v_batch->>'batch_number'), ''),
+            NULLIF(v_batch->>'expiry_date', '')::date,
+            NEW.quantity,
+            NEW.quantity,
+            NEW.id,
+            NEW.created_by
+        )
+        RETURNING id INTO v_batch_id;
+
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_batch_id, NEW.quantity);
+        RETURN NEW;
+    END IF;
+
+    IF NEW.quantity = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    v_outstanding := -NEW.quantity;
+
+    v_batch_id := NULLIF(current_setting('app.stock_batch_id', true), '')::uuid;
+    IF v_batch_id IS NOT NULL THEN
+        UPDATE product_batches
+        SET quantity_remaining = quantity_remaining - v_outstanding
+        WHERE id = v_batch_id AND product_id = NEW.product_id AND quantity_remaining >= v_outstanding;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'The batch does not have % left', v_outstanding;
+        END IF;
+
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_batch_id, NEW.quantity);
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity_remaining), 0) INTO v_batched
+    FROM product_batches
+    WHERE product_id = NEW.product_id AND branch_id IS NOT DISTINCT FROM NEW.branch_id AND quantity_remaining > 0;
+
+    -- Stock on hand at the branch before this movement that no batch accounts for
+    v_outstanding := v_outstanding - LEAST(v_outstanding, GREATEST(COALESCE(NEW.branch_balance_after, NEW.balance_after) - NEW.quantity - v_batched, 0));
+
+    FOR v_open IN
+        SELECT id, quantity_remaining
+        FROM product_batches
+        WHERE product_id = NEW.product_id AND branch_id IS NOT DISTINCT FROM NEW.branch_id AND quantity_remaining > 0
+        ORDER BY expiry_date NULLS LAST, received_at
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_outstanding = 0;
+        v_take := LEAST(v_outstanding, v_open.quantity_remaining);
+
+        UPDATE product_batches SET quantity_remaining = quantity_remaining - v_take WHERE id = v_open.id;
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_open.id, -v_take);
+
+        v_outstanding := v_outstanding - v_take;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.adjust_stock(uuid, integer, text, text);
+
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+    p_product_id uuid,
+    p_quantity integer,
+    p_reason text,
+    p_notes text DEFAULT NULL,
+    p_branch_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_business_id uuid;
+    v_balance integer;
+BEGIN
+    SELECT business_id INTO v_business_id FROM products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can adjust stock';
+    END IF;
+
+    IF p_quantity = 0 OR COALESCE(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'An adjustment needs a non-zero quantity and a reason';
+    END IF;
+
+    IF p_branch_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM branches WHERE id = p_branch_id AND business_id = v_business_id) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    PERFORM set_config('app.branch_id', COALESCE(p_branch_id::text, ''), true);
+    v_balance := apply_stock_movement(v_business_id, p_product_id, 'adjustment', p_quantity, NULL, NULL, p_reason, p_notes);
+    PERFORM set_config('app.branch_id', '', true);
+
+    RETURN v_balance;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.adjust_stock(uuid, integer, text, text, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.start_stock_take(uuid, text, text);
+
+-- Snapshots the expected quantity at one branch of every active product (optionally one category).
+CREATE OR REPLACE FUNCTION public.start_stock_take(
+    p_business_id uuid,
+    p_category text DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_branch_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stock_take_id uuid;
+    v_branch_id uuid;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    v_branch_id := COALESCE(p_branch_id, staff_branch_id(p_business_id, auth.uid()));
+    IF NOT EXISTS (SELECT 1 FROM branches WHERE id = v_branch_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    INSERT INTO stock_takes (business_id, branch_id, stock_take_number, category, notes, created_by)
+    VALUES (
+        p_business_id,
+        v_branch_id,
+        'ST-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        NULLIF(p_category, ''),
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_stock_take_id;
+
+    INSERT INTO stock_take_items (stock_take_id, product_id, expected_quantity)
+    SELECT v_stock_take_id, p.id, COALESCE(bs.quantity, 0)
+    FROM products p
+    LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = v_branch_id
+    WHERE p.business_id = p_business_id
+      AND COALESCE(p.is_active, true)
+      AND (NULLIF(p_category, '') IS NULL OR p.category = p_category);
+
+    RETURN v_stock_take_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.start_stock_take(uuid, text, text, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.open_cash_shift(uuid, numeric);
+
+CREATE OR REPLACE FUNCTION public.open_cash_shift(p_business_id uuid, p_opening_float numeric, p_branch_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift_id uuid;
+    v_branch_id uuid;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Not a member of this business';
+    END IF;
+
+    IF COALESCE(p_opening_float, -1) < 0 THEN
+        RAISE EXCEPTION 'Opening float cannot be negative';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM cash_shifts WHERE business_id = p_business_id AND cashier_id = auth.uid() AND status = 'open') THEN
+        RAISE EXCEPTION 'You already have an open shift';
+    END IF;
+
+    v_branch_id := COALESCE(p_branch_id, staff_branch_id(p_business_id, auth.uid()));
+    IF NOT EXISTS (SELECT 1 FROM branches WHERE id = v_branch_id AND business_id = p_business_id AND is_active) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    INSERT INTO cash_shifts (business_id, branch_id, shift_number, cashier_id, opening_float)
+    VALUES (
+        p_business_id,
+        v_branch_id,
+        'SH-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        auth.uid(),
+        round(p_opening_float, 2)
+    )
+    RETURNING id INTO v_shift_id;
+
+    RETURN v_shift_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.open_cash_shift(uuid, numeric, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.validate_sale_items(p_business_id uuid, p_cashier_id uuid, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_errors jsonb := '[]'::jsonb;
+    v_line record;
+    v_promotion public.promotions%ROWTYPE;
+    v_max_percent numeric;
+    v_line_total numeric;
+    v_manual numeric;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- Stock is checked in base units, at the cashier's branch, against the total of each product across all lines and selling units
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, COALESCE(bs.quantity, 0) AS stock_quantity
+        FROM (
+            SELECT (x->>'product_id')::uuid AS product_id, SUM((x->>'quantity')::int * COALESCE(pu.conversion_factor, 1)) AS quantity
+            FROM jsonb_array_elements(p_items) x
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = (x->>'product_id')::uuid
+            GROUP BY 1
+        ) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id AND COALESCE(p.is_active, true)
+        LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = staff_branch_id(p_business_id, p_cashier_id)
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'code', 'product_not_found');
+        ELSIF v_line.quantity <= 0 THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_quantity', 'requested', v_line.quantity);
+        ELSIF v_line.quantity > v_line.stock_quantity THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'insufficient_stock',
+                'requested', v_line.quantity,
+                'available', GREATEST(v_line.stock_quantity, 0)
+            );
+        END IF;
+    END LOOP;
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id AND pu.is_active
+        WHERE x->>'product_unit_id' IS NOT NULL AND pu.id IS NULL
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'unit_not_found');
+    END LOOP;
+
+    -- Lines sold in another unit are priced at that unit's selling price
+    IF NOT can_override_price(p_business_id, p_cashier_id) THEN
+        FOR v_line IN
+            SELECT p.id AS product_id, p.name, (x->>'unit_price')::numeric AS unit_price, COALESCE(pu.selling_price, p.selling_price) AS selling_price
+            FROM jsonb_array_elements(p_items) x
+            JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id
+            WHERE round((x->>'unit_price')::numeric, 2) <> round(COALESCE(pu.selling_price, p.selling_price), 2)
+        LOOP
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'price_mismatch',
+                'unit_price', v_line.unit_price,
+                'selling_price', v_line.selling_price
+            );
+        END LOOP;
+    END IF;
+
+    v_max_percent := max_discount_percent(p_business_id, p_cashier_id);
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, p.category,
+               (x->>'quantity')::int AS quantity,
+               (x->>'unit_price')::numeric AS unit_price,
+               COALESCE((x->>'discount_amount')::numeric, 0) AS discount_amount,
+               (x->>'promotion_id')::uuid AS promotion_id,
+               COALESCE((x->>'promotion_discount')::numeric, 0) AS promotion_discount
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE COALESCE((x->>'discount_amount')::numeric, 0) <> 0 OR x->>'promotion_id' IS NOT NULL
+    LOOP
+        v_line_total := v_line.quantity * v_line.unit_price;
+
+        IF v_line.discount_amount < 0 OR v_line.discount_amount > v_line_total
+           OR v_line.promotion_discount < 0 OR v_line.promotion_discount > v_line.discount_amount
+           OR (v_line.promotion_id IS NULL AND v_line.promotion_discount > 0) THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_discount', 'discount_amount', v_line.discount_amount);
+            CONTINUE;
+        END IF;
+
+        IF v_line.promotion_id IS NOT NULL THEN
+            SELECT * INTO v_promotion FROM promotions WHERE id = v_line.promotion_id AND business_id = p_business_id;
+            IF NOT FOUND
+               OR NOT promotion_is_live(v_promotion)
+               OR NOT promotion_applies(v_promotion, v_line.product_id, v_line.category)
+               OR round(v_line.promotion_discount, 2) > round(promotion_line_discount(v_promotion, v_line.quantity, v_line.unit_price), 2) THEN
+                v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'promotion_not_applicable');
+                CONTINUE;
+            END IF;
+        END IF;
+
+        -- Basket discounts arrive spread across the lines, so the limit is checked per line
+        v_manual := v_line.discount_amount - v_line.promotion_discount;
+        IF v_manual > 0 AND round(v_manual, 2) > round(v_line_total * v_max_percent / 100, 2) THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'discount_exceeds_limit',
+                'discount_amount', v_manual,
+                'max_percent', v_max_percent
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_errors;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.validate_sale_items(uuid, uuid, jsonb) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.create_purchase_order(uuid, uuid, jsonb, date, text, boolean);
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+    p_business_id uuid,
+    p_supplier_id uuid,
+    p_items jsonb,
+    p_expected_date date DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_draft boolean DEFAULT false,
+    p_branch_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order_id uuid;
+    v_branch_id uuid;
+    v_total numeric := 0;
+    item jsonb;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Supplier not found';
+    END IF;
+
+    v_branch_id := COALESCE(p_branch_id, staff_branch_id(p_business_id, auth.uid()));
+    IF NOT EXISTS (SELECT 1 FROM branches WHERE id = v_branch_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A purchase order needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        IF NOT EXISTS (SELECT 1 FROM products WHERE id = (item->>'product_id')::uuid AND business_id = p_business_id) THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        v_total := v_total + (item->>'quantity')::int * (item->>'unit_cost')::numeric;
+    END LOOP;
+
+    INSERT INTO purchase_orders (business_id, supplier_id, branch_id, po_number, status, expected_date, notes, total_amount, created_by)
+    VALUES (
+        p_business_id,
+        p_supplier_id,
+        v_branch_id,
+        'PO-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        CASE WHEN p_draft THEN 'draft' ELSE 'ordered' END::public.purchase_order_status_enum,
+        p_expected_date,
+        p_notes,
+        v_total,
+        auth.uid()
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    SELECT v_order_id, (x->>'product_id')::uuid, (x->>'quantity')::int, (x->>'unit_cost')::numeric
+    FROM jsonb_array_elements(p_items) x;
+
+    RETURN v_order_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(uuid, uuid, jsonb, date, text, boolean, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.update_draft_purchase_order(uuid, uuid, jsonb, date, text);
+
+-- Replaces the supplier, lines, expected date, notes and delivery branch of a draft. p_items as for create_purchase_order.
+CREATE OR REPLACE FUNCTION public.update_draft_purchase_order(
+    p_purchase_order_id uuid,
+    p_supplier_id uuid,
+    p_items jsonb,
+    p_expected_date date DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_branch_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+    v_total numeric := 0;
+    item jsonb;
+BEGIN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status <> 'draft' THEN
+        RAISE EXCEPTION 'Purchase order % has already been placed', v_order.po_number;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND business_id = v_order.business_id) THEN
+        RAISE EXCEPTION 'Supplier not found';
+    END IF;
+
+    IF p_branch_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM branches WHERE id = p_branch_id AND business_id = v_order.business_id) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A purchase order needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        IF NOT EXISTS (SELECT 1 FROM products WHERE id = (item->>'product_id')::uuid AND business_id = v_order.business_id) THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        v_total := v_total + (item->>'quantity')::int * (item->>'unit_cost')::numeric;
+    END LOOP;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = v_order.id;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    SELECT v_order.id, (x->>'product_id')::uuid, (x->>'quantity')::int, (x->>'unit_cost')::numeric
+    FROM jsonb_array_elements(p_items) x;
+
+    UPDATE purchase_orders
+    SET supplier_id = p_supplier_id,
+        branch_id = COALESCE(p_branch_id, branch_id),
+        expected_date = p_expected_date,
+        notes = p_notes,
+        total_amount = v_total,
+        updated_at = now()
+    WHERE id = v_order.id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.update_draft_purchase_order(uuid, uuid, jsonb, date, text, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_dashboard_stats(uuid);
+
+-- With a branch, only that branch's sales and returns count; rent, fees and bookings belong to no branch.
+CREATE OR REPLACE FUNCTION public.get_dashboard_stats(p_business_id uuid, p_branch_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    revenue_data jsonb;
+    tender_data jsonb;
+    customer_count int;
+BEGIN
+    -- Aggregate revenue data, with completed returns as negative entries
+    SELECT jsonb_agg(jsonb_build_object('amount', amount, 'created_at', created_at))
+    INTO revenue_data
+    FROM (
+        SELECT total_amount AS amount, created_at FROM sales WHERE business_id = p_business_id AND (p_branch_id IS NULL OR branch_id = p_branch_id)
+        UNION ALL
+        SELECT -r.total_amount AS amount, r.created_at
+        FROM sale_returns r
+        JOIN sales s ON s.id = r.sale_id
+        WHERE r.business_id = p_business_id AND r.status = 'completed' AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+        UNION ALL
+        SELECT amount, created_at FROM rent_payments WHERE business_id = p_business_id AND p_branch_id IS NULL
+        UNION ALL
+        SELECT amount, created_at FROM fee_payments WHERE business_id = p_business_id AND p_branch_id IS NULL
+        UNION ALL
+        SELECT total_amount AS amount, created_at FROM bookings WHERE business_id = p_business_id AND p_branch_id IS NULL
+    ) AS all_revenue;
+
+    -- Break sales revenue down by tender, net of refunds
+    SELECT jsonb_agg(jsonb_build_object('method', method, 'amount', amount, 'created_at', created_at))
+    INTO tender_data
+    FROM (
+        SELECT sp.method, sp.amount, s.created_at
+        FROM sale_payments sp
+        JOIN sales s ON s.id = sp.sale_id
+        WHERE s.business_id = p_business_id AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+        UNION ALL
+        SELECT r.refund_method AS method, -r.total_amount AS amount, r.created_at
+        FROM sale_returns r
+        JOIN sales s ON s.id = r.sale_id
+        WHERE r.business_id = p_business_id AND r.status = 'completed' AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+    ) AS all_tenders;
+
+    -- Aggregate customer count
+    SELECT SUM(count) INTO customer_count FROM (
+        SELECT COUNT(DISTINCT id) FROM tenants WHERE business_id = p_business_id
+        UNION ALL
+        SELECT COUNT(DISTINCT id) FROM students WHERE business_id = p_business_id
+        UNION ALL
+        SELECT COUNT(DISTINCT guest_phone) FROM bookings WHERE business_id = p_business_id
+    ) AS counts;
+
+    RETURN jsonb_build_object(
+        'revenue_data', COALESCE(revenue_data, '[]'::jsonb),
+        'tender_data', COALESCE(tender_data, '[]'::jsonb),
+        'customer_count', COALESCE(customer_count, 0)
+    );
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_dashboard_stats(uuid, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_revenue_series(uuid, date, date, text);
+
+CREATE OR REPLACE FUNCTION public.get_revenue_series(p_business_id uuid, p_start date, p_end date, p_bucket text DEFAULT 'day', p_branch_id uuid DEFAULT NULL)
+RETURNS TABLE(
+    bucket date,
+    sales_revenue numeric,
+    rent_revenue numeric,
+    fee_revenue numeric,
+    booking_revenue numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF p_bucket NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Unknown bucket %, expected day, week or month', p_bucket;
+    END IF;
+
+    RETURN QUERY
+    WITH revenue AS (
+        SELECT 'sales' AS source, s.total_amount AS amount, s.created_at FROM sales s WHERE s.business_id = p_business_id AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+        UNION ALL
+        SELECT 'sales', -r.total_amount, r.created_at
+        FROM sale_returns r
+        JOIN sales s ON s.id = r.sale_id
+        WHERE r.business_id = p_business_id AND r.status = 'completed' AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+        UNION ALL
+        SELECT 'rent', rp.amount, rp.created_at FROM rent_payments rp WHERE rp.business_id = p_business_id AND p_branch_id IS NULL
+        UNION ALL
+        SELECT 'fees', fp.amount, fp.created_at FROM fee_payments fp WHERE fp.business_id = p_business_id AND p_branch_id IS NULL
+        UNION ALL
+        SELECT 'bookings', b.total_amount, b.created_at FROM bookings b WHERE b.business_id = p_business_id AND p_branch_id IS NULL
+    ),
+    buckets AS (
+        SELECT generate_series(
+            date_trunc(p_bucket, p_start::timestamp),
+            date_trunc(p_bucket, p_end::timestamp),
+            ('1 ' || p_bucket)::interval
+        )::date AS bucket_start
+    )
+    SELECT
+        bk.bucket_start,
+        COALESCE(SUM(rv.amount) FILTER (WHERE rv.source = 'sales'), 0),
+        COALESCE(SUM(rv.amount) FILTER (WHERE rv.source = 'rent'), 0),
+        COALESCE(SUM(rv.amount) FILTER (WHERE rv.source = 'fees'), 0),
+        COALESCE(SUM(rv.amount) FILTER (WHERE rv.source = 'bookings'), 0)
+    FROM buckets bk
+    LEFT JOIN revenue rv
+        ON date_trunc(p_bucket, rv.created_at)::date = bk.bucket_start
+       AND rv.created_at::date BETWEEN p_start AND p_end
+    GROUP BY bk.bucket_start
+    ORDER BY bk.bucket_start;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_revenue_series(uuid, date, date, text, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_gross_profit(uuid, date, date);
+
+CREATE OR REPLACE FUNCTION public.get_gross_profit(p_business_id uuid, p_start date, p_end date, p_branch_id uuid DEFAULT NULL)
+RETURNS TABLE(
+    day date,
+    product_id uuid,
+    product_name text,
+    category text,
+    quantity bigint,
+    revenue numeric,
+    cost numeric,
+    uncosted_quantity bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    WITH lines AS (
+        SELECT s.created_at::date AS day, si.product_id, si.quantity, si.total_price AS revenue, si.unit_cost
+        FROM sales s
+        JOIN sale_items si ON si.sale_id = s.id
+        WHERE s.business_id = p_business_id
+          AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+          AND s.created_at::date BETWEEN p_start AND p_end
+        UNION ALL
+        SELECT r.created_at::date, ri.product_id, -ri.quantity, -ri.total_price, si.unit_cost
+        FROM sale_returns r
+        JOIN sale_return_items ri ON ri.return_id = r.id
+        JOIN sale_items si ON si.id = ri.sale_item_id
+        JOIN sales s ON s.id = r.sale_id
+        WHERE r.business_id = p_business_id
+          AND r.status = 'completed'
+          AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+          AND r.created_at::date BETWEEN p_start AND p_end
+    )
+    SELECT
+        l.day,
+        l.product_id,
+        p.name,
+        p.category,
+        SUM(l.quantity)::bigint,
+        SUM(l.revenue),
+        SUM(l.quantity * COALESCE(l.unit_cost, 0)),
+        (SUM(l.quantity) FILTER (WHERE l.unit_cost IS NULL))::bigint
+    FROM lines l
+    JOIN products p ON p.id = l.product_id
+    GROUP BY l.day, l.product_id, p.name, p.category
+    ORDER BY l.day, p.name;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_gross_profit(uuid, date, date, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_expiring_batches(uuid, integer);
+
+-- Batches with stock left that have expired or expire within p_days days, soonest first.
+CREATE OR REPLACE FUNCTION public.get_expiring_batches(p_business_id uuid, p_days integer DEFAULT 30, p_branch_id uuid DEFAULT NULL)
+RETURNS TABLE (
+    batch_id uuid,
+    product_id uuid,
+    product_name text,
+    sku text,
+    category text,
+    unit text,
+    branch_name text,
+    batch_number text,
+    expiry_date date,
+    days_to_expiry integer,
+    quantity_remaining integer,
+    buying_price numeric,
+    selling_price numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        b.id,
+        p.id,
+        p.name::text,
+        p.sku::text,
+        p.category::text,
+        p.unit::text,
+        br.name,
+        b.batch_number,
+        b.expiry_date,
+        (b.expiry_date - (now() AT TIME ZONE 'Africa/Nairobi')::date)::integer,
+        b.quantity_remaining,
+        p.buying_price::numeric,
+        p.selling_price::numeric
+    FROM product_batches b
+    JOIN products p ON p.id = b.product_id
+    LEFT JOIN branches br ON br.id = b.branch_id
+    WHERE b.business_id = p_business_id
+      AND (p_branch_id IS NULL OR b.branch_id = p_branch_id)
+      AND b.quantity_remaining > 0
+      AND b.expiry_date <= (now() AT TIME ZONE 'Africa/Nairobi')::date + p_days
+    ORDER BY b.expiry_date, p.name;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_expiring_batches(uuid, integer, uuid) TO authenticated;
+
+/*
+  p_items: [{ "product_id": uuid, "quantity": int }]. Any member can request stock from another branch;
+  nothing moves until the transfer is dispatched.
+*/
+CREATE OR REPLACE FUNCTION public.create_stock_transfer(
+    p_business_id uuid,
+    p_from_branch_id uuid,
+    p_to_branch_id uuid,
+    p_items jsonb,
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer_id uuid;
+    item jsonb;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF p_from_branch_id = p_to_branch_id THEN
+        RAISE EXCEPTION 'A transfer needs two different branches';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM branches WHERE id IN (p_from_branch_id, p_to_branch_id) AND business_id = p_business_id AND is_active) <> 2 THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A transfer needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        IF NOT EXISTS (SELECT 1 FROM products WHERE id = (item->>'product_id')::uuid AND business_id = p_business_id) THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        IF COALESCE((item->>'quantity')::int, 0) <= 0 THEN
+            RAISE EXCEPTION 'Transfer quantities must be positive';
+        END IF;
+    END LOOP;
+
+    INSERT INTO stock_transfers (business_id, transfer_number, from_branch_id, to_branch_id, notes, requested_by)
+    VALUES (
+        p_business_id,
+        'TR-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        p_from_branch_id,
+        p_to_branch_id,
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_transfer_id;
+
+    INSERT INTO stock_transfer_items (transfer_id, product_id, quantity_requested)
+    SELECT v_transfer_id, (x->>'product_id')::uuid, SUM((x->>'quantity')::int)
+    FROM jsonb_array_elements(p_items) x
+    GROUP BY 2;
+
+    RETURN v_transfer_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_stock_transfer(uuid, uuid, uuid, jsonb, text) TO authenticated;
+
+/*
+  Takes the stock out of the sending branch. p_items: [{ "product_id": uuid, "quantity": int }] to send less
+  than was requested; lines left out are sent in full. The batches drawn are recorded on the movements so
+  receive_stock_transfer can carry them across.
+*/
+CREATE OR REPLACE FUNCTION public.dispatch_stock_transfer(p_transfer_id uuid, p_items jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+    v_line record;
+    v_available integer;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF v_transfer.status <> 'requested' THEN
+        RAISE EXCEPTION 'Stock transfer % has already been dispatched or cancelled', v_transfer.transfer_number;
+    END IF;
+
+    FOR v_line IN
+        SELECT ti.id, ti.product_id, p.name,
+               COALESCE((SELECT SUM((x->>'quantity')::int) FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) x
+                         WHERE (x->>'product_id')::uuid = ti.product_id), ti.quantity_requested) AS quantity
+        FROM stock_transfer_items ti
+        JOIN products p ON p.id = ti.product_id
+        WHERE ti.transfer_id = v_transfer.id
+        FOR UPDATE OF ti
+    LOOP
+        IF v_line.quantity < 0 THEN
+            RAISE EXCEPTION 'Dispatched quantities cannot be negative';
+        END IF;
+        CONTINUE WHEN v_line.quantity = 0;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_available
+        FROM branch_stock
+        WHERE branch_id = v_transfer.from_branch_id AND product_id = v_line.product_id;
+        IF v_line.quantity > v_available THEN
+            RAISE EXCEPTION 'Only % of % left at the sending branch', GREATEST(v_available, 0), v_line.name;
+        END IF;
+
+        UPDATE stock_transfer_items SET quantity_dispatched = v_line.quantity WHERE id = v_line.id;
+
+        PERFORM apply_stock_movement(
+            v_transfer.business_id, v_line.product_id, 'transfer', -v_line.quantity,
+            'stock_transfer', v_transfer.id, 'Transfer out', v_transfer.transfer_number
+        );
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM stock_transfer_items WHERE transfer_id = v_transfer.id AND quantity_dispatched > 0) THEN
+        RAISE EXCEPTION 'Nothing to dispatch';
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'in_transit', dispatched_by = auth.uid(), dispatched_at = now()
+    WHERE id = v_transfer.id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.dispatch_stock_transfer(uuid, jsonb) TO authenticated;
+
+/*
+  Puts the stock into the receiving branch. p_items: [{ "product_id": uuid, "quantity": int }] to record less
+  than was dispatched; lines left out arrive in full. Stock that left in batches arrives in the same batches,
+  soonest expiry first, and anything not received is treated as lost in transit.
+*/
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(p_transfer_id uuid, p_items jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+    v_line record;
+    v_batch record;
+    v_outstanding integer;
+    v_take integer;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Stock transfer % is not in transit', v_transfer.transfer_number;
+    END IF;
+
+    FOR v_line IN
+        SELECT ti.id, ti.product_id, p.name, ti.quantity_dispatched,
+               COALESCE((SELECT SUM((x->>'quantity')::int) FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) x
+                         WHERE (x->>'product_id')::uuid = ti.product_id), ti.quantity_dispatched) AS quantity
+        FROM stock_transfer_items ti
+        JOIN products p ON p.id = ti.product_id
+        WHERE ti.transfer_id = v_transfer.id AND ti.quantity_dispatched > 0
+        FOR UPDATE OF ti
+    LOOP
+        IF v_line.quantity < 0 OR v_line.quantity > v_line.quantity_dispatched THEN
+            RAISE EXCEPTION 'Received quantity for % must be between 0 and %', v_line.name, v_line.quantity_dispatched;
+        END IF;
+        CONTINUE WHEN v_line.quantity = 0;
+
+        UPDATE stock_transfer_items SET quantity_received = v_line.quantity WHERE id = v_line.id;
+
+        v_outstanding := v_line.quantity;
+        FOR v_batch IN
+            SELECT b.batch_number, b.expiry_date, -SUM(mb.quantity) AS quantity
+            FROM stock_movements m
+            JOIN stock_movement_batches mb ON mb.movement_id = m.id
+            JOIN product_batches b ON b.id = mb.batch_id
+            WHERE m.reference_type = 'stock_transfer' AND m.reference_id = v_transfer.id
+              AND m.product_id = v_line.product_id AND m.quantity < 0
+            GROUP BY b.batch_number, b.expiry_date
+            ORDER BY b.expiry_date NULLS LAST
+        LOOP
+            EXIT WHEN v_outstanding = 0;
+            v_take := LEAST(v_outstanding, v_batch.quantity);
+
+            PERFORM set_config('app.stock_batch', jsonb_build_object('batch_number', v_batch.batch_number, 'expiry_date', v_batch.expiry_date)::text, true);
+            PERFORM apply_stock_movement(
+                v_transfer.business_id, v_line.product_id, 'transfer', v_take,
+                'stock_transfer', v_transfer.id, 'Transfer in', v_transfer.transfer_number
+            );
+            PERFORM set_config('app.stock_batch', '', true);
+
+            v_outstanding := v_outstanding - v_take;
+        END LOOP;
+
+        IF v_outstanding > 0 THEN
+            PERFORM apply_stock_movement(
+                v_transfer.business_id, v_line.product_id, 'transfer', v_outstanding,
+                'stock_transfer', v_transfer.id, 'Transfer in', v_transfer.transfer_number
+            );
+        END IF;
+    END LOOP;
+
+    UPDATE stock_transfers
+    SET status = 'received', received_by = auth.uid(), received_at = now()
+    WHERE id = v_transfer.id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.receive_stock_transfer(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_stock_transfer(p_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF v_transfer.status <> 'requested' THEN
+        RAISE EXCEPTION 'Only a transfer that has not been dispatched can be cancelled';
+    END IF;
+
+    UPDATE stock_transfers SET status = 'cancelled' WHERE id = v_transfer.id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.cancel_stock_transfer(uuid) TO authenticated;
@@ -0,0 +1,402 @@
+/*
+# [VAT Tax Classes and KRA eTIMS Invoices]
+Adds per-product VAT classes, tax-inclusive or tax-exclusive shelf prices, tax totals on every sale, signed eTIMS invoices and a monthly VAT summary.
+
+## Query Description:
+Products are standard rated (16%), zero rated or exempt. A business that is registered for VAT either quotes shelf prices with VAT included (the default) or before VAT, in which case the till charges the price plus VAT and `validate_sale_items` checks against that. Amounts on sales and sale lines are always what the customer paid; each sale line records its class, rate and the VAT contained in its total, and the sale keeps the VAT total and the net amount. Lines sold before the business registered for VAT carry no VAT. eTIMS invoices are signed by the `etims-submit` edge function and kept one per sale; the control unit invoice number and QR data are printed on the receipt. `get_vat_summary` reports taxable value and output VAT by month and class, net of completed returns and voids.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates enums `tax_class_enum` and `etims_invoice_status_enum`, and table `etims_invoices`.
+- Adds `vat_registered`, `kra_pin`, `prices_include_vat` and `etims_enabled` to `businesses`.
+- Adds `tax_class` to `products`, `tax_class`, `tax_rate` and `tax_amount` to `sale_items`, and `tax_amount` and `net_amount` to `sales`.
+- Creates functions `tax_class_rate`, `vat_inclusive_price` and `get_vat_summary`, and triggers `set_sale_item_tax` and `add_sale_item_tax`.
+- Replaces `prevent_sale_mutation`, `validate_sale_items` and `get_sale_receipt`.
+
+## Security Implications:
+- RLS Status: Enabled on `etims_invoices`.
+- Policy Changes: Yes. Business members can view eTIMS invoices; they are written only by the edge function using the service role.
+- Auth Requirements: `get_vat_summary` is limited to business members.
+
+## Performance Impact:
+- Indexes: None beyond the unique sale on `etims_invoices`.
+- Triggers: Adds a BEFORE INSERT and an AFTER INSERT trigger on `sale_items`.
+- Estimated Impact: Low. Two primary key lookups and one update per sale line.
+*/
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'tax_class_enum') THEN
+        CREATE TYPE public.tax_class_enum AS ENUM ('vat_standard', 'zero_rated', 'exempt');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'etims_invoice_status_enum') THEN
+        CREATE TYPE public.etims_invoice_status_enum AS ENUM ('signed', 'failed');
+    END IF;
+END$$;
+
+ALTER TABLE public.businesses ADD COLUMN IF NOT EXISTS vat_registered boolean NOT NULL DEFAULT false;
+ALTER TABLE public.businesses ADD COLUMN IF NOT EXISTS kra_pin text;
+ALTER TABLE public.businesses ADD COLUMN IF NOT EXISTS prices_include_vat boolean NOT NULL DEFAULT true;
+ALTER TABLE public.businesses ADD COLUMN IF NOT EXISTS etims_enabled boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS tax_class public.tax_class_enum NOT NULL DEFAULT 'vat_standard';
+
+-- Lines recorded before this migration have no class and no VAT
+ALTER TABLE public.sale_items ADD COLUMN IF NOT EXISTS tax_class public.tax_class_enum;
+ALTER TABLE public.sale_items ADD COLUMN IF NOT EXISTS tax_rate numeric(5, 2) NOT NULL DEFAULT 0;
+ALTER TABLE public.sale_items ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS net_amount numeric(10, 2) GENERATED ALWAYS AS (total_amount - tax_amount) STORED;
+
+CREATE OR REPLACE FUNCTION public.tax_class_rate(p_tax_class public.tax_class_enum)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_tax_class WHEN 'vat_standard' THEN 16::numeric ELSE 0::numeric END;
+$$;
+GRANT EXECUTE ON FUNCTION public.tax_class_rate(public.tax_class_enum) TO authenticated;
+
+-- The price the customer pays for a shelf price: unchanged unless the business quotes prices before VAT.
+CREATE OR REPLACE FUNCTION public.vat_inclusive_price(p_business_id uuid, p_tax_class public.tax_class_enum, p_price numeric)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN b.vat_registered AND NOT b.prices_include_vat THEN round(p_price * (100 + tax_class_rate(p_tax_class)) / 100, 2)
+        ELSE p_price
+    END
+    FROM businesses b
+    WHERE b.id = p_business_id;
+$$;
+GRANT EXECUTE ON FUNCTION public.vat_inclusive_price(uuid, public.tax_class_enum, numeric) TO authenticated;
+
+-- Every sale path inserts lines at the price paid, so the VAT is always the part of the total above the net.
+CREATE OR REPLACE FUNCTION public.set_sale_item_tax()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_vat_registered boolean;
+BEGIN
+    SELECT p.tax_class, b.vat_registered INTO NEW.tax_class, v_vat_registered
+    FROM products p
+    JOIN businesses b ON b.id = p.business_id
+    WHERE p.id = NEW.product_id;
+
+    NEW.tax_rate := CASE WHEN v_vat_registered THEN tax_class_rate(NEW.tax_class) ELSE 0 END;
+    NEW.tax_amount := round(NEW.total_price * NEW.tax_rate / (100 + NEW.tax_rate), 2);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_sale_item_tax ON public.sale_items;
+CREATE TRIGGER set_sale_item_tax BEFORE INSERT ON public.sale_items
+    FOR EACH ROW EXECUTE FUNCTION public.set_sale_item_tax();
+
+CREATE OR REPLACE FUNCTION public.add_sale_item_tax()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.tax_amount <> 0 THEN
+        PERFORM set_config('app.sale_totals', 'on', true);
+        UPDATE sales SET tax_amount = tax_amount + NEW.tax_amount WHERE id = NEW.sale_id;
+        PERFORM set_config('app.sale_totals', 'off', true);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_sale_item_tax ON public.sale_items;
+CREATE TRIGGER add_sale_item_tax AFTER INSERT ON public.sale_items
+    FOR EACH ROW EXECUTE FUNCTION public.add_sale_item_tax();
+
+-- Sales stay immutable; the only exception is the VAT total kept in step with the lines as they are inserted.
+CREATE OR REPLACE FUNCTION public.prevent_sale_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'sales' AND current_setting('app.sale_totals', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Recorded sales cannot be changed. Process a return or void instead.';
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.etims_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  sale_id uuid NOT NULL UNIQUE REFERENCES public.sales(id) ON DELETE CASCADE,
+  status public.etims_invoice_status_enum NOT NULL,
+  adapter text NOT NULL,
+  cu_invoice_number text,
+  qr_data text,
+  error text,
+  submitted_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS etims_invoices_business_id_idx ON public.etims_invoices(business_id);
+
+-- Written only by the etims-submit edge function with the service role.
+ALTER TABLE public.etims_invoices ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view etims_invoices" ON public.etims_invoices;
+CREATE POLICY "Allow business members to view etims_invoices" ON public.etims_invoices FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.validate_sale_items(p_business_id uuid, p_cashier_id uuid, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_errors jsonb := '[]'::jsonb;
+    v_line record;
+    v_promotion public.promotions%ROWTYPE;
+    v_max_percent numeric;
+    v_line_total numeric;
+    v_manual numeric;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- Stock is checked in base units, at the cashier's branch, against the total of each product across all lines and selling units
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, COALESCE(bs.quantity, 0) AS stock_quantity
+        FROM (
+            SELECT (x->>'product_id')::uuid AS product_id, SUM((x->>'quantity')::int * COALESCE(pu.conversion_factor, 1)) AS quantity
+            FROM jsonb_array_elements(p_items) x
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = (x->>'product_id')::uuid
+            GROUP BY 1
+        ) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id AND COALESCE(p.is_active, true)
+        LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = staff_branch_id(p_business_id, p_cashier_id)
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'code', 'product_not_found');
+        ELSIF v_line.quantity <= 0 THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_quantity', 'requested', v_line.quantity);
+        ELSIF v_line.quantity > v_line.stock_quantity THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'insufficient_stock',
+                'requested', v_line.quantity,
+                'available', GREATEST(v_line.stock_quantity, 0)
+            );
+        END IF;
+    END LOOP;
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id AND pu.is_active
+        WHERE x->>'product_unit_id' IS NOT NULL AND pu.id IS NULL
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'unit_not_found');
+    END LOOP;
+
+    -- Lines sold in another unit are priced at that unit's selling price, plus VAT where prices are quoted before VAT
+    IF NOT can_override_price(p_business_id, p_cashier_id) THEN
+        FOR v_line IN
+            SELECT p.id AS product_id, p.name, (x->>'unit_price')::numeric AS unit_price,
+                   vat_inclusive_price(p_business_id, p.tax_class, COALESCE(pu.selling_price, p.selling_price)) AS selling_price
+            FROM jsonb_array_elements(p_items) x
+            JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id
+            WHERE round((x->>'unit_price')::numeric, 2) <> round(vat_inclusive_price(p_business_id, p.tax_class, COALESCE(pu.selling_price, p.selling_price)), 2)
+        LOOP
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'price_mismatch',
+                'unit_price', v_line.unit_price,
+                'selling_price', v_line.selling_price
+            );
+        END LOOP;
+    END IF;
+
+    v_max_percent := max_discount_percent(p_business_id, p_cashier_id);
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, p.category,
+               (x->>'quantity')::int AS quantity,
+               (x->>'unit_price')::numeric AS unit_price,
+               COALESCE((x->>'discount_amount')::numeric, 0) AS discount_amount,
+               (x->>'promotion_id')::uuid AS promotion_id,
+               COALESCE((x->>'promotion_discount')::numeric, 0) AS promotion_discount
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE COALESCE((x->>'discount_amount')::numeric, 0) <> 0 OR x->>'promotion_id' IS NOT NULL
+    LOOP
+        v_line_total := v_line.quantity * v_line.unit_price;
+
+        IF v_line.discount_amount < 0 OR v_line.discount_amount > v_line_total
+           OR v_line.promotion_discount < 0 OR v_line.promotion_discount > v_line.discount_amount
+           OR (v_line.promotion_id IS NULL AND v_line.promotion_discount > 0) THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_discount', 'discount_amount', v_line.discount_amount);
+            CONTINUE;
+        END IF;
+
+        IF v_line.promotion_id IS NOT NULL THEN
+            SELECT * INTO v_promotion FROM promotions WHERE id = v_line.promotion_id AND business_id = p_business_id;
+            IF NOT FOUND
+               OR NOT promotion_is_live(v_promotion)
+               OR NOT promotion_applies(v_promotion, v_line.product_id, v_line.category)
+               OR round(v_line.promotion_discount, 2) > round(promotion_line_discount(v_promotion, v_line.quantity, v_line.unit_price), 2) THEN
+                v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'promotion_not_applicable');
+                CONTINUE;
+            END IF;
+        END IF;
+
+        -- Basket discounts arrive spread across the lines, so the limit is checked per line
+        v_manual := v_line.discount_amount - v_line.promotion_discount;
+        IF v_manual > 0 AND round(v_manual, 2) > round(v_line_total * v_max_percent / 100, 2) THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'discount_exceeds_limit',
+                'discount_amount', v_manual,
+                'max_percent', v_max_percent
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_errors;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.validate_sale_items(uuid, uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_sale_receipt(p_sale_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale public.sales%ROWTYPE;
+    v_result jsonb;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id;
+
+    IF NOT FOUND OR NOT is_business_member(v_sale.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'sale', to_jsonb(v_sale),
+        'business', (
+            SELECT jsonb_build_object(
+                'name', b.name,
+                'logo_url', b.logo_url,
+                'phone', b.phone,
+                'location', b.location,
+                'kra_pin', b.kra_pin,
+                'vat_registered', b.vat_registered,
+                'etims_enabled', b.etims_enabled
+            )
+            FROM businesses b WHERE b.id = v_sale.business_id
+        ),
+        'items', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'name', p.name,
+                'quantity', si.quantity,
+                'unit_name', si.unit_name,
+                'unit_price', si.unit_price,
+                'discount_amount', si.discount_amount,
+                'promotion_name', pm.name,
+                'total_price', si.total_price,
+                'tax_class', si.tax_class,
+                'tax_rate', si.tax_rate,
+                'tax_amount', si.tax_amount
+            ) ORDER BY p.name)
+            FROM sale_items si
+            JOIN products p ON p.id = si.product_id
+            LEFT JOIN promotions pm ON pm.id = si.promotion_id
+            WHERE si.sale_id = v_sale.id
+        ), '[]'::jsonb),
+        'payments', COALESCE((
+            SELECT jsonb_agg(to_jsonb(sp) ORDER BY sp.created_at)
+            FROM sale_payments sp
+            WHERE sp.sale_id = v_sale.id
+        ), '[]'::jsonb),
+        'cashier_name', (SELECT pr.full_name FROM profiles pr WHERE pr.id = v_sale.cashier_id),
+        'etims', (SELECT to_jsonb(ei) FROM etims_invoices ei WHERE ei.sale_id = v_sale.id)
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_sale_receipt(uuid) TO authenticated;
+
+/*
+  Returns one row per month and tax class with the VAT-inclusive sales, the taxable value and the output VAT.
+  Completed returns and voids are subtracted in the month they happened, at the rate recorded on the original line.
+  Lines sold before tax classes were recorded have a null tax_class.
+*/
+CREATE OR REPLACE FUNCTION public.get_vat_summary(p_business_id uuid, p_start date, p_end date)
+RETURNS TABLE(
+    month date,
+    tax_class public.tax_class_enum,
+    tax_rate numeric,
+    gross_sales numeric,
+    gross_returns numeric,
+    taxable_value numeric,
+    output_vat numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    WITH lines AS (
+        SELECT date_trunc('month', s.created_at)::date AS month, si.tax_class, si.tax_rate,
+               si.total_price AS sold, 0::numeric AS returned, si.tax_amount AS vat
+        FROM sales s
+        JOIN sale_items si ON si.sale_id = s.id
+        WHERE s.business_id = p_business_id
+          AND s.created_at::date BETWEEN p_start AND p_end
+        UNION ALL
+        SELECT date_trunc('month', r.created_at)::date, si.tax_class, si.tax_rate,
+               0::numeric, ri.total_price, -round(ri.total_price * si.tax_rate / (100 + si.tax_rate), 2)
+        FROM sale_returns r
+        JOIN sale_return_items ri ON ri.return_id = r.id
+        JOIN sale_items si ON si.id = ri.sale_item_id
+        WHERE r.business_id = p_business_id
+          AND r.status = 'completed'
+          AND r.created_at::date BETWEEN p_start AND p_end
+    )
+    SELECT
+        l.month,
+        l.tax_class,
+        l.tax_rate,
+        SUM(l.sold),
+        SUM(l.returned),
+        SUM(l.sold) - SUM(l.returned) - SUM(l.vat),
+        SUM(l.vat)
+    FROM lines l
+    GROUP BY l.month, l.tax_class, l.tax_rate
+    ORDER BY l.month, l.tax_class, l.tax_rate DESC;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_vat_summary(uuid, date, date) TO authenticated;
@@ -0,0 +1,844 @@
+/*
+# [Product Bundles and Kits]
+Lets a product be a bundle (a kit or hamper) made up of other products, sold through the normal sale flow and taking stock from its components.
+
+## Query Description:
+A bundle holds no stock of its own. Its components and quantities live in `product_bundle_components`, and how many bundles can be sold is worked out from the components' stock. Selling a bundle takes each component out of stock at the sale's branch, and returning or voiding it puts them back, so the ledger, batches and branch stock only ever move for real products. Sale validation, the offline sync shortfall check and the row locks taken by `create_sale_and_items` all count bundle lines as their components. A bundle's cost is the sum of its components' buying prices. Components cannot themselves be bundles. Bundles are left out of stock takes and reorder suggestions, and the components' sales velocity includes what was sold inside bundles.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds column `is_bundle` to `products` and creates table `product_bundle_components`.
+- Creates functions `sale_stock_demand`, `bundle_available_quantity` and `set_bundle_components`.
+- Replaces `apply_stock_movement`, `set_sale_item_cost`, `validate_sale_items`, `create_sale_and_items`, `sync_offline_sale`, `start_stock_take` and `get_reorder_suggestions`.
+
+## Security Implications:
+- RLS Status: Enabled on `product_bundle_components`.
+- Policy Changes: Yes. Business members can view bundle components; they are written through `set_bundle_components`.
+- Auth Requirements: `set_bundle_components` is limited to business members.
+
+## Performance Impact:
+- Indexes: Adds an index on `product_bundle_components.component_product_id`.
+- Triggers: None.
+- Estimated Impact: Low. Bundle lines add one movement per component.
+*/
+
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS is_bundle boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.product_bundle_components (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  component_product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  UNIQUE (bundle_product_id, component_product_id),
+  CHECK (bundle_product_id <> component_product_id)
+);
+CREATE INDEX IF NOT EXISTS product_bundle_components_component_idx ON public.product_bundle_components(component_product_id);
+
+-- Components are only ever written through set_bundle_components.
+ALTER TABLE public.product_bundle_components ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view product_bundle_components" ON public.product_bundle_components;
+CREATE POLICY "Allow business members to view product_bundle_components" ON public.product_bundle_components FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM products p
+        WHERE p.id = product_bundle_components.bundle_product_id AND is_business_member(p.business_id, auth.uid())
+    )
+);
+
+/*
+  Replaces a bundle's components. p_components: [{ "product_id": uuid, "quantity": int }].
+  Components must be products of the same business that are not bundles themselves.
+*/
+CREATE OR REPLACE FUNCTION public.set_bundle_components(p_bundle_id uuid, p_components jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_bundle public.products%ROWTYPE;
+BEGIN
+    SELECT * INTO v_bundle FROM products WHERE id = p_bundle_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_bundle.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+    IF NOT v_bundle.is_bundle THEN
+        RAISE EXCEPTION '% is not a bundle', v_bundle.name;
+    END IF;
+    IF jsonb_array_length(COALESCE(p_components, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A bundle needs at least one component';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_components) x
+        LEFT JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = v_bundle.business_id
+        WHERE p.id IS NULL OR p.is_bundle OR p.id = p_bundle_id OR COALESCE((x->>'quantity')::int, 0) <= 0
+    ) THEN
+        RAISE EXCEPTION 'Components must be other products of this business, each with a quantity of at least 1';
+    END IF;
+
+    DELETE FROM product_bundle_components WHERE bundle_product_id = p_bundle_id;
+
+    INSERT INTO product_bundle_components (bundle_product_id, component_product_id, quantity)
+    SELECT p_bundle_id, (x->>'product_id')::uuid, SUM((x->>'quantity')::int)
+    FROM jsonb_array_elements(p_components) x
+    GROUP BY 2;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.set_bundle_components(uuid, jsonb) TO authenticated;
+
+-- How many of a bundle the components' stock can make up, at one branch or across all of them.
+CREATE OR REPLACE FUNCTION public.bundle_available_quantity(p_bundle_id uuid, p_branch_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(MIN(GREATEST(CASE WHEN p_branch_id IS NULL THEN cp.stock_quantity ELSE COALESCE(bs.quantity, 0) END, 0) / c.quantity), 0)::integer
+    FROM product_bundle_components c
+    JOIN products cp ON cp.id = c.component_product_id
+    LEFT JOIN branch_stock bs ON bs.product_id = c.component_product_id AND bs.branch_id = p_branch_id
+    WHERE c.bundle_product_id = p_bundle_id;
+$$;
+GRANT EXECUTE ON FUNCTION public.bundle_available_quantity(uuid, uuid) TO authenticated;
+
+/*
+  The stock a basket takes, in base units per product. Bundle lines count as their components, and
+  bundle_ids lists the bundles in the basket that use each component. A bundle with no components
+  stays as itself, so it shows up as out of stock.
+*/
+CREATE OR REPLACE FUNCTION public.sale_stock_demand(p_items jsonb)
+RETURNS TABLE(product_id uuid, quantity bigint, bundle_ids uuid[])
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH lines AS (
+        SELECT (x->>'product_id')::uuid AS product_id, (x->>'quantity')::int * COALESCE(pu.conversion_factor, 1) AS quantity
+        FROM jsonb_array_elements(p_items) x
+        LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = (x->>'product_id')::uuid
+    )
+    SELECT
+        COALESCE(c.component_product_id, l.product_id),
+        SUM(l.quantity * COALESCE(c.quantity, 1))::bigint,
+        array_remove(array_agg(DISTINCT c.bundle_product_id), NULL)
+    FROM lines l
+    LEFT JOIN products b ON b.id = l.product_id AND b.is_bundle AND COALESCE(b.is_active, true)
+    LEFT JOIN product_bundle_components c ON c.bundle_product_id = b.id
+    GROUP BY 1;
+$$;
+
+/*
+  Moves stock at one branch and records the movement. The branch comes from the movement's reference,
+  else app.branch_id, else the business's default branch. Returns the product's new total across branches.
+  Sales and returns of a bundle move each of its components instead and return how many bundles are left.
+*/
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+    p_business_id uuid,
+    p_product_id uuid,
+    p_movement_type public.stock_movement_type_enum,
+    p_quantity integer,
+    p_reference_type text DEFAULT NULL,
+    p_reference_id uuid DEFAULT NULL,
+    p_reason text DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_balance integer;
+    v_branch_id uuid;
+    v_branch_balance integer;
+    v_bundle_name text;
+    v_component record;
+BEGIN
+    SELECT name INTO v_bundle_name FROM products WHERE id = p_product_id AND business_id = p_business_id AND is_bundle;
+    IF FOUND THEN
+        IF p_movement_type NOT IN ('sale', 'return') THEN
+            RAISE EXCEPTION '% is a bundle and holds no stock of its own. Adjust its components instead.', v_bundle_name;
+        END IF;
+        FOR v_component IN
+            SELECT component_product_id, quantity FROM product_bundle_components WHERE bundle_product_id = p_product_id ORDER BY component_product_id
+        LOOP
+            PERFORM apply_stock_movement(
+                p_business_id, v_component.component_product_id, p_movement_type, p_quantity * v_component.quantity,
+                p_reference_type, p_reference_id, COALESCE(p_reason, 'Bundle: ' || v_bundle_name), p_notes
+            );
+        END LOOP;
+        RETURN bundle_available_quantity(p_product_id);
+    END IF;
+
+    v_branch_id := CASE p_reference_type
+        WHEN 'sale' THEN (SELECT branch_id FROM sales WHERE id = p_reference_id)
+        WHEN 'sale_return' THEN (SELECT s.branch_id FROM sale_returns r JOIN sales s ON s.id = r.sale_id WHERE r.id = p_reference_id)
+        WHEN 'goods_received_note' THEN (SELECT po.branch_id FROM goods_received_notes g JOIN purchase_orders po ON po.id = g.purchase_order_id WHERE g.id = p_reference_id)
+        WHEN 'stock_take' THEN (SELECT branch_id FROM stock_takes WHERE id = p_reference_id)
+        WHEN 'product_batch' THEN (SELECT branch_id FROM product_batches WHERE id = p_reference_id)
+        WHEN 'stock_transfer' THEN (SELECT CASE WHEN p_quantity < 0 THEN from_branch_id ELSE to_branch_id END FROM stock_transfers WHERE id = p_reference_id)
+    END;
+    IF v_branch_id IS NULL THEN
+        SELECT id INTO v_branch_id
+        FROM branches
+        WHERE id = NULLIF(current_setting('app.branch_id', true), '')::uuid AND business_id = p_business_id;
+    END IF;
+    v_branch_id := COALESCE(v_branch_id, default_branch_id(p_business_id));
+
+    -- Tells log_direct_stock_change that this update is already being recorded
+    PERFORM set_config('app.stock_movement', 'on', true);
+
+    UPDATE products
+    SET stock_quantity = stock_quantity + p_quantity,
+        updated_at = now()
+    WHERE id = p_product_id AND business_id = p_business_id
+    RETURNING stock_quantity INTO v_balance;
+
+    PERFORM set_config('app.stock_movement', 'off', true);
+
+    IF v_balance IS NULL THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+
+    INSERT INTO branch_stock (branch_id, product_id, business_id, quantity)
+    VALUES (v_branch_id, p_product_id, p_business_id, p_quantity)
+    ON CONFLICT (branch_id, product_id) DO UPDATE SET quantity = branch_stock.quantity + EXCLUDED.quantity
+    RETURNING quantity INTO v_branch_balance;
+
+    INSERT INTO stock_movements (business_id, product_id, movement_type, quantity, balance_after, branch_id, branch_balance_after, reference_type, reference_id, reason, notes, created_by)
+    VALUES (p_business_id, p_product_id, p_movement_type, p_quantity, v_balance, v_branch_id, v_branch_balance, p_reference_type, p_reference_id, p_reason, p_notes, auth.uid());
+
+    RETURN v_balance;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(uuid, uuid, public.stock_movement_type_enum, integer, text, uuid, text, text) FROM PUBLIC;
+
+-- A bundle costs what its components cost; it has no cost when any component has no buying price
+CREATE OR REPLACE FUNCTION public.set_sale_item_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.unit_cost IS NULL THEN
+        SELECT
+            CASE WHEN p.is_bundle THEN bc.cost ELSE p.buying_price END * COALESCE(pu.conversion_factor, 1)
+        INTO NEW.unit_cost
+        FROM products p
+        LEFT JOIN product_units pu ON pu.id = NEW.product_unit_id AND pu.product_id = p.id
+        LEFT JOIN LATERAL (
+            SELECT CASE WHEN COUNT(*) = COUNT(cp.buying_price) THEN SUM(c.quantity * cp.buying_price) END AS cost
+            FROM product_bundle_components c
+            JOIN products cp ON cp.id = c.component_product_id
+            WHERE c.bundle_product_id = p.id
+        ) bc ON true
+        WHERE p.id = NEW.product_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_sale_items(p_business_id uuid, p_cashier_id uuid, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_errors jsonb := '[]'::jsonb;
+    v_line record;
+    v_promotion public.promotions%ROWTYPE;
+    v_max_percent numeric;
+    v_line_total numeric;
+    v_manual numeric;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- Stock is checked in base units, at the cashier's branch, against the total of each product across all lines,
+    -- selling units and bundles; a component's shortfall is reported against the bundles that use it too
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, r.bundle_ids, p.id AS found_id, p.name, COALESCE(bs.quantity, 0) AS stock_quantity
+        FROM sale_stock_demand(p_items) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id AND COALESCE(p.is_active, true)
+        LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = staff_branch_id(p_business_id, p_cashier_id)
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'code', 'product_not_found');
+        ELSIF v_line.quantity <= 0 THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_quantity', 'requested', v_line.quantity);
+        ELSIF v_line.quantity > v_line.stock_quantity THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'insufficient_stock',
+                'requested', v_line.quantity,
+                'available', GREATEST(v_line.stock_quantity, 0),
+                'bundle_ids', to_jsonb(v_line.bundle_ids)
+            );
+        END IF;
+    END LOOP;
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id AND pu.is_active
+        WHERE x->>'product_unit_id' IS NOT NULL AND pu.id IS NULL
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'unit_not_found');
+    END LOOP;
+
+    -- Lines sold in another unit are priced at that unit's selling price, plus VAT where prices are quoted before VAT
+    IF NOT can_override_price(p_business_id, p_cashier_id) THEN
+        FOR v_line IN
+            SELECT p.id AS product_id, p.name, (x->>'unit_price')::numeric AS unit_price,
+                   vat_inclusive_price(p_business_id, p.tax_class, COALESCE(pu.selling_price, p.selling_price)) AS selling_price
+            FROM jsonb_array_elements(p_items) x
+            JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id
+            WHERE round((x->>'unit_price')::numeric, 2) <> round(vat_inclusive_price(p_business_id, p.tax_class, COALESCE(pu.selling_price, p.selling_price)), 2)
+        LOOP
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'price_mismatch',
+                'unit_price', v_line.unit_price,
+                'selling_price', v_line.selling_price
+            );
+        END LOOP;
+    END IF;
+
+    v_max_percent := max_discount_percent(p_business_id, p_cashier_id);
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, p.category,
+               (x->>'quantity')::int AS quantity,
+               (x->>'unit_price')::numeric AS unit_price,
+               COALESCE((x->>'discount_amount')::numeric, 0) AS discount_amount,
+               (x->>'promotion_id')::uuid AS promotion_id,
+               COALESCE((x->>'promotion_discount')::numeric, 0) AS promotion_discount
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE COALESCE((x->>'discount_amount')::numeric, 0) <> 0 OR x->>'promotion_id' IS NOT NULL
+    LOOP
+        v_line_total := v_line.quantity * v_line.unit_price;
+
+        IF v_line.discount_amount < 0 OR v_line.discount_amount > v_line_total
+           OR v_line.promotion_discount < 0 OR v_line.promotion_discount > v_line.discount_amount
+           OR (v_line.promotion_id IS NULL AND v_line.promotion_discount > 0) THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_discount', 'discount_amount', v_line.discount_amount);
+            CONTINUE;
+        END IF;
+
+        IF v_line.promotion_id IS NOT NULL THEN
+            SELECT * INTO v_promotion FROM promotions WHERE id = v_line.promotion_id AND business_id = p_business_id;
+            IF NOT FOUND
+               OR NOT promotion_is_live(v_promotion)
+               OR NOT promotion_applies(v_promotion, v_line.product_id, v_line.category)
+               OR round(v_line.promotion_discount, 2) > round(promotion_line_discount(v_promotion, v_line.quantity, v_line.unit_price), 2) THEN
+                v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'promotion_not_applicable');
+                CONTINUE;
+            END IF;
+        END IF;
+
+        -- Basket discounts arrive spread across the lines, so the limit is checked per line
+        v_manual := v_line.discount_amount - v_line.promotion_discount;
+        IF v_manual > 0 AND round(v_manual, 2) > round(v_line_total * v_max_percent / 100, 2) THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'discount_exceeds_limit',
+                'discount_amount', v_manual,
+                'max_percent', v_max_percent
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_errors;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.validate_sale_items(uuid, uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_sale_and_items(
+    p_business_id uuid,
+    p_cashier_id uuid,
+    p_items jsonb,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_payment_method text DEFAULT 'cash',
+    p_mpesa_code text DEFAULT NULL,
+    p_payments jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_receipt_number text;
+    v_payments jsonb;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_errors jsonb;
+    item jsonb;
+    payment jsonb;
+    v_product_id uuid;
+    v_quantity int;
+    v_unit_price numeric;
+    v_discount numeric;
+    v_factor int;
+    v_amount numeric;
+    v_tendered numeric;
+BEGIN
+    -- Signed-in callers record sales as themselves; the M-Pesa callback runs without a user
+    IF auth.uid() IS NOT NULL AND (p_cashier_id IS DISTINCT FROM auth.uid() OR NOT is_business_member(p_business_id, auth.uid())) THEN
+        RAISE EXCEPTION 'Not allowed to record sales for this business';
+    END IF;
+
+    -- Lock the products whose stock moves, bundle components included, in a consistent order so concurrent checkouts queue instead of overselling
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT d.product_id FROM public.sale_stock_demand(p_items) d)
+    ORDER BY id
+    FOR UPDATE;
+
+    v_errors := public.validate_sale_items(p_business_id, p_cashier_id, p_items);
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION USING
+            MESSAGE = 'Some items in this sale cannot be sold as entered',
+            DETAIL = v_errors::text,
+            HINT = 'sale_validation_failed';
+    END IF;
+
+    -- Calculate total amount from the items JSON, net of line discounts
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int) - COALESCE((item->>'discount_amount')::numeric, 0);
+    END LOOP;
+
+    -- Callers that pass a single payment method pay the whole total with it
+    v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+        'method', lower(p_payment_method),
+        'amount', v_total_amount,
+        'tendered', v_total_amount,
+        'reference', p_mpesa_code
+    )));
+
+    IF jsonb_array_length(v_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required';
+    END IF;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero';
+        END IF;
+        IF payment->>'method' = 'cash' AND COALESCE((payment->>'tendered')::numeric, v_amount) < v_amount THEN
+            RAISE EXCEPTION 'Cash tendered (%) is less than the cash amount due (%)', payment->>'tendered', v_amount;
+        END IF;
+        v_paid_amount := v_paid_amount + v_amount;
+    END LOOP;
+
+    IF round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(v_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := v_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(v_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    -- Generate a unique receipt number
+    v_receipt_number := 'RCPT-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6);
+
+    -- Insert the main sale record
+    INSERT INTO public.sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number)
+    VALUES (p_business_id, p_cashier_id, p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, v_receipt_number)
+    RETURNING id INTO v_sale_id;
+
+    -- Record each tender, with change only ever given on cash
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO public.sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    -- Insert sale items and post each line to the stock ledger; a bundle line takes stock from each of its components
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_product_id := (item->>'product_id')::uuid;
+        v_quantity := (item->>'quantity')::int;
+        v_unit_price := (item->>'unit_price')::numeric;
+        v_discount := COALESCE((item->>'discount_amount')::numeric, 0);
+
+        -- set_sale_item_unit fills in the conversion factor of the unit sold
+        INSERT INTO public.sale_items (sale_id, product_id, quantity, unit_price, total_price, discount_amount, promotion_id, product_unit_id)
+        VALUES (v_sale_id, v_product_id, v_quantity, v_unit_price, v_quantity * v_unit_price - v_discount, v_discount, (item->>'promotion_id')::uuid, (item->>'product_unit_id')::uuid)
+        RETURNING conversion_factor INTO v_factor;
+
+        PERFORM public.apply_stock_movement(p_business_id, v_product_id, 'sale', -v_quantity * v_factor, 'sale', v_sale_id);
+    END LOOP;
+
+    RETURN v_sale_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_sale_and_items(uuid, uuid, jsonb, text, text, text, text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+    p_business_id uuid,
+    p_client_sale_id uuid,
+    p_receipt_number text,
+    p_items jsonb,
+    p_payments jsonb,
+    p_sold_at timestamptz,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_existing public.sales%ROWTYPE;
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_conflicts jsonb := '[]'::jsonb;
+    v_line record;
+    item jsonb;
+    payment jsonb;
+    v_amount numeric;
+    v_tendered numeric;
+    v_factor int;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- A retry after a dropped response must not record the sale twice
+    SELECT * INTO v_existing FROM sales WHERE client_sale_id = p_client_sale_id;
+    IF FOUND THEN
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'product_id', c.product_id, 'name', p.name, 'requested', c.requested, 'available', c.available
+        )), '[]'::jsonb)
+        INTO v_conflicts
+        FROM offline_sale_conflicts c
+        JOIN products p ON p.id = c.product_id
+        WHERE c.sale_id = v_existing.id;
+
+        RETURN jsonb_build_object('sale_id', v_existing.id, 'receipt_number', v_existing.receipt_number, 'duplicate', true, 'conflicts', v_conflicts);
+    END IF;
+
+    PERFORM 1
+    FROM products
+    WHERE id IN (SELECT d.product_id FROM sale_stock_demand(p_items) d)
+    ORDER BY id
+    FOR UPDATE;
+
+    -- Stock shortfalls are reported rather than rejected: the goods have already left the shop.
+    -- Bundles are checked through their components.
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, p.stock_quantity
+        FROM sale_stock_demand(p_items) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            RAISE EXCEPTION 'Product % no longer exists in this business', v_line.product_id;
+        END IF;
+        IF v_line.quantity > v_line.stock_quantity THEN
+            v_conflicts := v_conflicts || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'requested', v_line.quantity,
+                'available', v_line.stock_quantity
+            );
+        END IF;
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + ((item->>'unit_price')::numeric * (item->>'quantity')::int) - COALESCE((item->>'discount_amount')::numeric, 0);
+    END LOOP;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_paid_amount := v_paid_amount + (payment->>'amount')::numeric;
+    END LOOP;
+
+    IF jsonb_array_length(p_payments) = 0 OR round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(p_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := p_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(p_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    INSERT INTO sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number, client_sale_id, created_at)
+    VALUES (p_business_id, auth.uid(), p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, p_receipt_number, p_client_sale_id, p_sold_at)
+    RETURNING id INTO v_sale_id;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        -- Discounts given offline are kept as recorded: the customer has already paid the discounted price
+        INSERT INTO sale_items (sale_id, product_id, quantity, unit_price, total_price, discount_amount, promotion_id, product_unit_id)
+        VALUES (
+            v_sale_id,
+            (item->>'product_id')::uuid,
+            (item->>'quantity')::int,
+            (item->>'unit_price')::numeric,
+            (item->>'quantity')::int * (item->>'unit_price')::numeric - COALESCE((item->>'discount_amount')::numeric, 0),
+            COALESCE((item->>'discount_amount')::numeric, 0),
+            (item->>'promotion_id')::uuid,
+            (item->>'product_unit_id')::uuid
+        )
+        RETURNING conversion_factor INTO v_factor;
+
+        PERFORM apply_stock_movement(p_business_id, (item->>'product_id')::uuid, 'sale', -(item->>'quantity')::int * v_factor, 'sale', v_sale_id, 'Offline sale');
+    END LOOP;
+
+    INSERT INTO offline_sale_conflicts (business_id, sale_id, product_id, requested, available)
+    SELECT p_business_id, v_sale_id, (c->>'product_id')::uuid, (c->>'requested')::int, (c->>'available')::int
+    FROM jsonb_array_elements(v_conflicts) c;
+
+    RETURN jsonb_build_object('sale_id', v_sale_id, 'receipt_number', p_receipt_number, 'duplicate', false, 'conflicts', v_conflicts);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.sync_offline_sale(uuid, uuid, text, jsonb, jsonb, timestamptz, text, text) TO authenticated;
+
+-- Snapshots the expected quantity at one branch of every active product (optionally one category). Bundles have no stock to count.
+CREATE OR REPLACE FUNCTION public.start_stock_take(
+    p_business_id uuid,
+    p_category text DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_branch_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stock_take_id uuid;
+    v_branch_id uuid;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    v_branch_id := COALESCE(p_branch_id, staff_branch_id(p_business_id, auth.uid()));
+    IF NOT EXISTS (SELECT 1 FROM branches WHERE id = v_branch_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    INSERT INTO stock_takes (business_id, branch_id, stock_take_number, category, notes, created_by)
+    VALUES (
+        p_business_id,
+        v_branch_id,
+        'ST-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        NULLIF(p_category, ''),
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_stock_take_id;
+
+    INSERT INTO stock_take_items (stock_take_id, product_id, expected_quantity)
+    SELECT v_stock_take_id, p.id, COALESCE(bs.quantity, 0)
+    FROM products p
+    LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = v_branch_id
+    WHERE p.business_id = p_business_id
+      AND COALESCE(p.is_active, true)
+      AND NOT p.is_bundle
+      AND (NULLIF(p_category, '') IS NULL OR p.category = p_category);
+
+    RETURN v_stock_take_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.start_stock_take(uuid, text, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_reorder_suggestions(
+    p_business_id uuid,
+    p_lookback_days integer DEFAULT 30,
+    p_lead_time_days integer DEFAULT 7,
+    p_safety_days integer DEFAULT 3,
+    p_cover_days integer DEFAULT 14
+)
+RETURNS TABLE (
+    product_id uuid,
+    product_name text,
+    sku text,
+    unit text,
+    stock_quantity integer,
+    on_order integer,
+    on_draft integer,
+    units_sold integer,
+    avg_daily_sales numeric,
+    days_of_cover numeric,
+    lead_time_days integer,
+    reorder_point integer,
+    suggested_quantity integer,
+    supplier_id uuid,
+    supplier_name text,
+    unit_cost numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+    IF p_lookback_days <= 0 THEN
+        RAISE EXCEPTION 'The lookback window must be at least one day';
+    END IF;
+
+    -- Bundles sold count towards their components, using each bundle's current make-up
+    RETURN QUERY
+    WITH sold AS (
+        SELECT COALESCE(c.component_product_id, l.product_id) AS product_id, SUM(l.quantity * COALESCE(c.quantity, 1)) AS quantity
+        FROM (
+            SELECT si.product_id, si.quantity * si.conversion_factor AS quantity
+            FROM sales s
+            JOIN sale_items si ON si.sale_id = s.id
+            WHERE s.business_id = p_business_id
+              AND s.created_at >= now() - make_interval(days => p_lookback_days)
+            UNION ALL
+            SELECT ri.product_id, -ri.quantity * si.conversion_factor
+            FROM sale_returns r
+            JOIN sale_return_items ri ON ri.return_id = r.id
+            JOIN sale_items si ON si.id = ri.sale_item_id
+            WHERE r.business_id = p_business_id
+              AND r.status = 'completed'
+              AND r.created_at >= now() - make_interval(days => p_lookback_days)
+        ) l
+        LEFT JOIN product_bundle_components c ON c.bundle_product_id = l.product_id
+        GROUP BY 1
+    ),
+    open_lines AS (
+        SELECT poi.product_id,
+               SUM(poi.quantity_ordered - poi.quantity_received) FILTER (WHERE po.status IN ('ordered', 'partially_received')) AS on_order,
+               SUM(poi.quantity_ordered) FILTER (WHERE po.status = 'draft') AS on_draft
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE po.business_id = p_business_id
+          AND po.status IN ('draft', 'ordered', 'partially_received')
+        GROUP BY poi.product_id
+    ),
+    last_supplier AS (
+        SELECT DISTINCT ON (poi.product_id) poi.product_id, po.supplier_id, poi.unit_cost
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE po.business_id = p_business_id
+          AND po.status <> 'cancelled'
+        ORDER BY poi.product_id, po.created_at DESC
+    ),
+    velocity AS (
+        SELECT
+            p.id,
+            p.name,
+            p.sku,
+            p.unit,
+            COALESCE(p.stock_quantity, 0) AS stock_quantity,
+            COALESCE(o.on_order, 0) AS on_order,
+            COALESCE(o.on_draft, 0) AS on_draft,
+            GREATEST(COALESCE(sd.quantity, 0), 0) AS units_sold,
+            GREATEST(COALESCE(sd.quantity, 0), 0)::numeric / p_lookback_days AS daily,
+            COALESCE(su.lead_time_days, p_lead_time_days) AS lead_time,
+            su.id AS supplier_id,
+            su.name AS supplier_name,
+            COALESCE(ls.unit_cost, p.buying_price) AS unit_cost
+        FROM products p
+        LEFT JOIN sold sd ON sd.product_id = p.id
+        LEFT JOIN open_lines o ON o.product_id = p.id
+        LEFT JOIN last_supplier ls ON ls.product_id = p.id
+        LEFT JOIN suppliers su ON su.id = ls.supplier_id
+        WHERE p.business_id = p_business_id
+          AND p.is_active
+          AND NOT p.is_bundle
+    ),
+    targets AS (
+        SELECT
+            v.*,
+            ceil(v.daily * (v.lead_time + p_safety_days))::integer AS reorder_point,
+            ceil(v.daily * (v.lead_time + p_safety_days + p_cover_days))::integer AS target,
+            GREATEST(v.stock_quantity, 0) + v.on_order + v.on_draft AS available
+        FROM velocity v
+    )
+    SELECT
+        t.id,
+        t.name::text,
+        t.sku::text,
+        t.unit::text,
+        t.stock_quantity::integer,
+        t.on_order::integer,
+        t.on_draft::integer,
+        t.units_sold::integer,
+        round(t.daily, 2),
+        CASE WHEN t.daily > 0 THEN round(GREATEST(t.stock_quantity, 0) / t.daily, 1) END,
+        t.lead_time,
+        t.reorder_point,
+        CASE WHEN t.daily > 0 AND t.available <= t.reorder_point THEN (t.target - t.available)::integer ELSE 0 END,
+        t.supplier_id,
+        t.supplier_name::text,
+        t.unit_cost::numeric
+    FROM targets t
+    ORDER BY CASE WHEN t.daily > 0 THEN GREATEST(t.stock_quantity, 0) / t.daily END NULLS LAST, t.name;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_reorder_suggestions(uuid, integer, integer, integer, integer) TO authenticated;
@@ -0,0 +1,28 @@
+/*
+# [POS Quick Keys]
+Lets a business pick the favourite products shown as one-tap quick keys on the full-screen POS.
+
+## Query Description:
+Adds a flag to `products`. Flagged products are laid out as a grid of buttons on the POS screen, in name order, for loose items without a barcode and fast sellers the cashier would otherwise have to search for. The flag is set from the Products page and has no effect on pricing or stock.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds column `is_quick_key` to `products`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: None.
+
+## Performance Impact:
+- Indexes: None.
+- Triggers: None.
+- Estimated Impact: Negligible.
+*/
+
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS is_quick_key boolean NOT NULL DEFAULT false;
@@ -0,0 +1,1514 @@
+/*
+# [Weighed Items and Scale Barcodes]
+Lets deli, butchery and produce counters sell by weight, and lets the till read the price- and weight-embedded labels printed by their scales.
+
+## Query Description:
+Quantities sold, returned, counted and held in stock become decimals to the gram (three places), on sales, returns, the stock ledger, batches, branch stock, stock takes and offline sale conflicts. Only products marked as weighed may be sold in fractions, and only loose (not in another selling unit); `validate_sale_items` reports any other fractional line as `fractional_quantity`. Line totals are quantity times price rounded to the cent, the same as at the till, except for lines rung up from a price-embedded label: those carry the printed price as `line_total` and are charged exactly that, and `validate_sale_items` reports a `line_total` more than half a gram's worth away from the weight as `invalid_line_total`. Products get a PLU, the item number a scale prints on its labels, unique within a business. Each business keeps the label layouts its scales print in `scale_barcode_formats`: EAN-13 codes starting with a two-digit prefix from 21 to 29, then the PLU, then the weight or price, then the check digit. Prefix 20 stays with internal barcodes. Labels are decoded at the till, which looks the product up by PLU and rings it up with the weight, or the weight the price works out to. Purchase orders, transfers and bundle components are still counted in whole units.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: true
+- Reversible: false
+
+## Structure Details:
+- Adds columns `is_weighed` and `plu` to `products` and `scale_barcode_formats` to `businesses`.
+- Creates function `sale_line_gross`.
+- Changes the quantity columns of `products`, `sale_items`, `sale_return_items`, `stock_movements`, `stock_movement_batches`, `product_batches`, `branch_stock`, `stock_take_items` and `offline_sale_conflicts` to `numeric(12, 3)`.
+- Replaces `apply_stock_movement`, `adjust_stock`, `write_off_batch`, `sale_stock_demand`, `promotion_line_discount`, `get_stock_discrepancies`, `get_expiring_batches`, `get_gross_profit` and `get_reorder_suggestions` with decimal quantities, and `allocate_stock_movement_batches`, `log_direct_stock_change`, `bundle_available_quantity`, `validate_sale_items`, `create_sale_and_items`, `sync_offline_sale`, `create_sale_return`, `record_stock_counts`, `import_products`, `dispatch_stock_transfer` and `receive_stock_transfer` to match.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Unchanged.
+
+## Performance Impact:
+- Indexes: Adds a unique index on `products(business_id, plu)`. Indexes on the changed columns are rebuilt.
+- Triggers: `log_products_stock_change` is recreated unchanged around the column change.
+- Estimated Impact: Medium while the tables are rewritten; negligible afterwards.
+*/
+
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS is_weighed boolean NOT NULL DEFAULT false;
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS plu text;
+CREATE UNIQUE INDEX IF NOT EXISTS products_business_plu_key ON public.products(business_id, plu) WHERE plu IS NOT NULL;
+
+-- [{ "prefix": "21".."29", "embedded": "weight" | "price", "plu_length": int, "decimals": int }]
+ALTER TABLE public.businesses ADD COLUMN IF NOT EXISTS scale_barcode_formats jsonb NOT NULL DEFAULT '[
+  { "prefix": "21", "embedded": "weight", "plu_length": 5, "decimals": 3 },
+  { "prefix": "22", "embedded": "price", "plu_length": 5, "decimals": 0 }
+]'::jsonb;
+
+-- The trigger depends on the column, so it is dropped for the type change
+DROP TRIGGER IF EXISTS log_products_stock_change ON public.products;
+
+ALTER TABLE public.products ALTER COLUMN stock_quantity TYPE numeric(12, 3);
+ALTER TABLE public.sale_items ALTER COLUMN quantity TYPE numeric(12, 3);
+ALTER TABLE public.sale_return_items ALTER COLUMN quantity TYPE numeric(12, 3);
+ALTER TABLE public.stock_movements
+    ALTER COLUMN quantity TYPE numeric(12, 3),
+    ALTER COLUMN balance_after TYPE numeric(12, 3),
+    ALTER COLUMN branch_balance_after TYPE numeric(12, 3);
+ALTER TABLE public.stock_movement_batches ALTER COLUMN quantity TYPE numeric(12, 3);
+ALTER TABLE public.product_batches
+    ALTER COLUMN quantity_received TYPE numeric(12, 3),
+    ALTER COLUMN quantity_remaining TYPE numeric(12, 3);
+ALTER TABLE public.branch_stock ALTER COLUMN quantity TYPE numeric(12, 3);
+ALTER TABLE public.stock_take_items
+    ALTER COLUMN expected_quantity TYPE numeric(12, 3),
+    ALTER COLUMN counted_quantity TYPE numeric(12, 3);
+ALTER TABLE public.offline_sale_conflicts
+    ALTER COLUMN requested TYPE numeric(12, 3),
+    ALTER COLUMN available TYPE numeric(12, 3);
+
+DROP FUNCTION IF EXISTS public.apply_stock_movement(uuid, uuid, public.stock_movement_type_enum, integer, text, uuid, text, text);
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+    p_business_id uuid,
+    p_product_id uuid,
+    p_movement_type public.stock_movement_type_enum,
+    p_quantity numeric,
+    p_reference_type text DEFAULT NULL,
+    p_reference_id uuid DEFAULT NULL,
+    p_reason text DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_balance numeric;
+    v_branch_id uuid;
+    v_branch_balance numeric;
+    v_bundle_name text;
+    v_component record;
+BEGIN
+    SELECT name INTO v_bundle_name FROM products WHERE id = p_product_id AND business_id = p_business_id AND is_bundle;
+    IF FOUND THEN
+        IF p_movement_type NOT IN ('sale', 'return') THEN
+            RAISE EXCEPTION '% is a bundle and holds no stock of its own. Adjust its components instead.', v_bundle_name;
+        END IF;
+        FOR v_component IN
+            SELECT component_product_id, quantity FROM product_bundle_components WHERE bundle_product_id = p_product_id ORDER BY component_product_id
+        LOOP
+            PERFORM apply_stock_movement(
+                p_business_id, v_component.component_product_id, p_movement_type, p_quantity * v_component.quantity,
+                p_reference_type, p_reference_id, COALESCE(p_reason, 'Bundle: ' || v_bundle_name), p_notes
+            );
+        END LOOP;
+        RETURN bundle_available_quantity(p_product_id);
+    END IF;
+
+    v_branch_id := CASE p_reference_type
+        WHEN 'sale' THEN (SELECT branch_id FROM sales WHERE id = p_reference_id)
+        WHEN 'sale_return' THEN (SELECT s.branch_id FROM sale_returns r JOIN sales s ON s.id = r.sale_id WHERE r.id = p_reference_id)
+        WHEN 'goods_received_note' THEN (SELECT po.branch_id FROM goods_received_notes g JOIN purchase_orders po ON po.id = g.purchase_order_id WHERE g.id = p_reference_id)
+        WHEN 'stock_take' THEN (SELECT branch_id FROM stock_takes WHERE id = p_reference_id)
+        WHEN 'product_batch' THEN (SELECT branch_id FROM product_batches WHERE id = p_reference_id)
+        WHEN 'stock_transfer' THEN (SELECT CASE WHEN p_quantity < 0 THEN from_branch_id ELSE to_branch_id END FROM stock_transfers WHERE id = p_reference_id)
+    END;
+    IF v_branch_id IS NULL THEN
+        SELECT id INTO v_branch_id
+        FROM branches
+        WHERE id = NULLIF(current_setting('app.branch_id', true), '')::uuid AND business_id = p_business_id;
+    END IF;
+    v_branch_id := COALESCE(v_branch_id, default_branch_id(p_business_id));
+
+    -- Tells log_direct_stock_change that this update is already being recorded
+    PERFORM set_config('app.stock_movement', 'on', true);
+
+    UPDATE products
+    SET stock_quantity = stock_quantity + p_quantity,
+        updated_at = now()
+    WHERE id = p_product_id AND business_id = p_business_id
+    RETURNING stock_quantity INTO v_balance;
+
+    PERFORM set_config('app.stock_movement', 'off', true);
+
+    IF v_balance IS NULL THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+
+    INSERT INTO branch_stock (branch_id, product_id, business_id, quantity)
+    VALUES (v_branch_id, p_product_id, p_business_id, p_quantity)
+    ON CONFLICT (branch_id, product_id) DO UPDATE SET quantity = branch_stock.quantity + EXCLUDED.quantity
+    RETURNING quantity INTO v_branch_balance;
+
+    INSERT INTO stock_movements (business_id, product_id, movement_type, quantity, balance_after, branch_id, branch_balance_after, reference_type, reference_id, reason, notes, created_by)
+    VALUES (p_business_id, p_product_id, p_movement_type, p_quantity, v_balance, v_branch_id, v_branch_balance, p_reference_type, p_reference_id, p_reason, p_notes, auth.uid());
+
+    RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(uuid, uuid, public.stock_movement_type_enum, numeric, text, uuid, text, text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.allocate_stock_movement_batches()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_batch jsonb;
+    v_batch_id uuid;
+    v_batched numeric;
+    v_outstanding numeric;
+    v_take numeric;
+    v_open record;
+BEGIN
+    IF NEW.quantity > 0 THEN
+        v_batch := NULLIF(current_setting('app.stock_batch', true), '')::jsonb;
+        IF v_batch IS NULL THEN
+            RETURN NEW;
+        END IF;
+
+        INSERT INTO product_batches (business_id, product_id, branch_id, batch_number, expiry_date, quantity_received, quantity_remaining, stock_movement_id, created_by)
+        VALUES (
+            NEW.business_id,
+            NEW.product_id,
+            NEW.branch_id,
+            NULLIF(trim(v_batch->>'batch_number'), ''),
+            NULLIF(v_batch->>'expiry_date', '')::date,
+            NEW.quantity,
+            NEW.quantity,
+            NEW.id,
+            NEW.created_by
+        )
+        RETURNING id INTO v_batch_id;
+
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_batch_id, NEW.quantity);
+        RETURN NEW;
+    END IF;
+
+    IF NEW.quantity = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    v_outstanding := -NEW.quantity;
+
+    v_batch_id := NULLIF(current_setting('app.stock_batch_id', true), '')::uuid;
+    IF v_batch_id IS NOT NULL THEN
+        UPDATE product_batches
+        SET quantity_remaining = quantity_remaining - v_outstanding
+        WHERE id = v_batch_id AND product_id = NEW.product_id AND quantity_remaining >= v_outstanding;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'The batch does not have % left', v_outstanding;
+        END IF;
+
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_batch_id, NEW.quantity);
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity_remaining), 0) INTO v_batched
+    FROM product_batches
+    WHERE product_id = NEW.product_id AND branch_id IS NOT DISTINCT FROM NEW.branch_id AND quantity_remaining > 0;
+
+    -- Stock on hand at the branch before this movement that no batch accounts for
+    v_outstanding := v_outstanding - LEAST(v_outstanding, GREATEST(COALESCE(NEW.branch_balance_after, NEW.balance_after) - NEW.quantity - v_batched, 0));
+
+    FOR v_open IN
+        SELECT id, quantity_remaining
+        FROM product_batches
+        WHERE product_id = NEW.product_id AND branch_id IS NOT DISTINCT FROM NEW.branch_id AND quantity_remaining > 0
+        ORDER BY expiry_date NULLS LAST, received_at
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_outstanding = 0;
+        v_take := LEAST(v_outstanding, v_open.quantity_remaining);
+
+        UPDATE product_batches SET quantity_remaining = quantity_remaining - v_take WHERE id = v_open.id;
+        INSERT INTO stock_movement_batches (movement_id, batch_id, quantity) VALUES (NEW.id, v_open.id, -v_take);
+
+        v_outstanding := v_outstanding - v_take;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_direct_stock_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_change numeric;
+    v_branch_id uuid;
+    v_branch_balance numeric;
+BEGIN
+    IF current_setting('app.stock_movement', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        v_change := COALESCE(NEW.stock_quantity, 0);
+    ELSE
+        v_change := COALESCE(NEW.stock_quantity, 0) - COALESCE(OLD.stock_quantity, 0);
+    END IF;
+    IF v_change = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    v_branch_id := default_branch_id(NEW.business_id);
+
+    INSERT INTO branch_stock (branch_id, product_id, business_id, quantity)
+    VALUES (v_branch_id, NEW.id, NEW.business_id, v_change)
+    ON CONFLICT (branch_id, product_id) DO UPDATE SET quantity = branch_stock.quantity + EXCLUDED.quantity
+    RETURNING quantity INTO v_branch_balance;
+
+    INSERT INTO stock_movements (business_id, product_id, movement_type, quantity, balance_after, branch_id, branch_balance_after, reason, created_by)
+    VALUES (
+        NEW.business_id,
+        NEW.id,
+        CASE WHEN TG_OP = 'INSERT' THEN 'opening' ELSE 'adjustment' END::public.stock_movement_type_enum,
+        v_change,
+        COALESCE(NEW.stock_quantity, 0),
+        v_branch_id,
+        v_branch_balance,
+        CASE WHEN TG_OP = 'INSERT' THEN 'Opening stock' ELSE 'Direct edit' END,
+        auth.uid()
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_products_stock_change AFTER INSERT OR UPDATE OF stock_quantity ON public.products
+    FOR EACH ROW EXECUTE FUNCTION public.log_direct_stock_change();
+
+-- Rounded down: components held in fractions of a unit still only make up whole bundles
+CREATE OR REPLACE FUNCTION public.bundle_available_quantity(p_bundle_id uuid, p_branch_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(MIN(floor(GREATEST(CASE WHEN p_branch_id IS NULL THEN cp.stock_quantity ELSE COALESCE(bs.quantity, 0) END, 0) / c.quantity)), 0)::integer
+    FROM product_bundle_components c
+    JOIN products cp ON cp.id = c.component_product_id
+    LEFT JOIN branch_stock bs ON bs.product_id = c.component_product_id AND bs.branch_id = p_branch_id
+    WHERE c.bundle_product_id = p_bundle_id;
+$$;
+
+DROP FUNCTION IF EXISTS public.sale_stock_demand(jsonb);
+CREATE OR REPLACE FUNCTION public.sale_stock_demand(p_items jsonb)
+RETURNS TABLE(product_id uuid, quantity numeric, bundle_ids uuid[])
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH lines AS (
+        SELECT (x->>'product_id')::uuid AS product_id, (x->>'quantity')::numeric * COALESCE(pu.conversion_factor, 1) AS quantity
+        FROM jsonb_array_elements(p_items) x
+        LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = (x->>'product_id')::uuid
+    )
+    SELECT
+        COALESCE(c.component_product_id, l.product_id),
+        SUM(l.quantity * COALESCE(c.quantity, 1)),
+        array_remove(array_agg(DISTINCT c.bundle_product_id), NULL)
+    FROM lines l
+    LEFT JOIN products b ON b.id = l.product_id AND b.is_bundle AND COALESCE(b.is_active, true)
+    LEFT JOIN product_bundle_components c ON c.bundle_product_id = b.id
+    GROUP BY 1;
+$$;
+
+-- What a line charges before discounts: the quantity times the price, to the cent, or the price printed on a
+-- price-embedded scale label, which validate_sale_items holds to the weight it was rung up at
+CREATE OR REPLACE FUNCTION public.sale_line_gross(p_item jsonb)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT COALESCE((p_item->>'line_total')::numeric, round((p_item->>'quantity')::numeric * (p_item->>'unit_price')::numeric, 2));
+$$;
+
+DROP FUNCTION IF EXISTS public.promotion_line_discount(public.promotions, integer, numeric);
+CREATE OR REPLACE FUNCTION public.promotion_line_discount(p_promotion public.promotions, p_quantity numeric, p_unit_price numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_promotion.promotion_type
+    WHEN 'percent_off' THEN round(p_quantity * p_unit_price * p_promotion.percent / 100, 2)
+    WHEN 'buy_x_get_y' THEN floor(p_quantity / (p_promotion.buy_quantity + p_promotion.free_quantity)) * p_promotion.free_quantity * p_unit_price
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_sale_items(p_business_id uuid, p_cashier_id uuid, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_errors jsonb := '[]'::jsonb;
+    v_line record;
+    v_promotion public.promotions%ROWTYPE;
+    v_max_percent numeric;
+    v_line_total numeric;
+    v_manual numeric;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- Stock is checked in base units, at the cashier's branch, against the total of each product across all lines,
+    -- selling units and bundles; a component's shortfall is reported against the bundles that use it too
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, r.bundle_ids, p.id AS found_id, p.name, COALESCE(bs.quantity, 0) AS stock_quantity
+        FROM sale_stock_demand(p_items) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id AND COALESCE(p.is_active, true)
+        LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = staff_branch_id(p_business_id, p_cashier_id)
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'code', 'product_not_found');
+        ELSIF v_line.quantity <= 0 THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_quantity', 'requested', v_line.quantity);
+        ELSIF v_line.quantity > v_line.stock_quantity THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'insufficient_stock',
+                'requested', v_line.quantity,
+                'available', GREATEST(v_line.stock_quantity, 0),
+                'bundle_ids', to_jsonb(v_line.bundle_ids)
+            );
+        END IF;
+    END LOOP;
+
+    -- Only weighed products sold loose may be sold in fractions, to the gram
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, (x->>'quantity')::numeric AS quantity
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE (x->>'quantity')::numeric <> trunc((x->>'quantity')::numeric)
+          AND (NOT p.is_weighed OR x->>'product_unit_id' IS NOT NULL OR (x->>'quantity')::numeric <> round((x->>'quantity')::numeric, 3))
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'fractional_quantity', 'requested', v_line.quantity);
+    END LOOP;
+
+    -- A price-embedded scale label charges the price printed on it, which may differ from the weight times the price
+    -- per kilo by up to half a gram's worth, since the weight it works out to is rounded to the gram
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, (x->>'line_total')::numeric AS line_total
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE x->>'line_total' IS NOT NULL
+          AND (NOT p.is_weighed OR x->>'product_unit_id' IS NOT NULL OR (x->>'line_total')::numeric < 0
+               OR abs((x->>'line_total')::numeric - (x->>'quantity')::numeric * (x->>'unit_price')::numeric) > (x->>'unit_price')::numeric * 0.0005 + 0.005)
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_line_total', 'line_total', v_line.line_total);
+    END LOOP;
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id AND pu.is_active
+        WHERE x->>'product_unit_id' IS NOT NULL AND pu.id IS NULL
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'unit_not_found');
+    END LOOP;
+
+    -- Lines sold in another unit are priced at that unit's selling price, plus VAT where prices are quoted before VAT
+    IF NOT can_override_price(p_business_id, p_cashier_id) THEN
+        FOR v_line IN
+            SELECT p.id AS product_id, p.name, (x->>'unit_price')::numeric AS unit_price,
+                   vat_inclusive_price(p_business_id, p.tax_class, COALESCE(pu.selling_price, p.selling_price)) AS selling_price
+            FROM jsonb_array_elements(p_items) x
+            JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id
+            WHERE round((x->>'unit_price')::numeric, 2) <> round(vat_inclusive_price(p_business_id, p.tax_class, COALESCE(pu.selling_price, p.selling_price)), 2)
+        LOOP
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'price_mismatch',
+                'unit_price', v_line.unit_price,
+                'selling_price', v_line.selling_price
+            );
+        END LOOP;
+    END IF;
+
+    v_max_percent := max_discount_percent(p_business_id, p_cashier_id);
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, p.category,
+               (x->>'quantity')::numeric AS quantity,
+               (x->>'unit_price')::numeric AS unit_price,
+               COALESCE((x->>'discount_amount')::numeric, 0) AS discount_amount,
+               (x->>'promotion_id')::uuid AS promotion_id,
+               COALESCE((x->>'promotion_discount')::numeric, 0) AS promotion_discount,
+               sale_line_gross(x) AS gross
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE COALESCE((x->>'discount_amount')::numeric, 0) <> 0 OR x->>'promotion_id' IS NOT NULL
+    LOOP
+        v_line_total := v_line.gross;
+
+        IF v_line.discount_amount < 0 OR v_line.discount_amount > v_line_total
+           OR v_line.promotion_discount < 0 OR v_line.promotion_discount > v_line.discount_amount
+           OR (v_line.promotion_id IS NULL AND v_line.promotion_discount > 0) THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_discount', 'discount_amount', v_line.discount_amount);
+            CONTINUE;
+        END IF;
+
+        IF v_line.promotion_id IS NOT NULL THEN
+            SELECT * INTO v_promotion FROM promotions WHERE id = v_line.promotion_id AND business_id = p_business_id;
+            IF NOT FOUND
+               OR NOT promotion_is_live(v_promotion)
+               OR NOT promotion_applies(v_promotion, v_line.product_id, v_line.category)
+               OR round(v_line.promotion_discount, 2) > round(promotion_line_discount(v_promotion, v_line.quantity, v_line.unit_price), 2) THEN
+                v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'promotion_not_applicable');
+                CONTINUE;
+            END IF;
+        END IF;
+
+        -- Basket discounts arrive spread across the lines, so the limit is checked per line
+        v_manual := v_line.discount_amount - v_line.promotion_discount;
+        IF v_manual > 0 AND round(v_manual, 2) > round(v_line_total * v_max_percent / 100, 2) THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'discount_exceeds_limit',
+                'discount_amount', v_manual,
+                'max_percent', v_max_percent
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_errors;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_sale_items(uuid, uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_sale_and_items(
+    p_business_id uuid,
+    p_cashier_id uuid,
+    p_items jsonb,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL,
+    p_payment_method text DEFAULT 'cash',
+    p_mpesa_code text DEFAULT NULL,
+    p_payments jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_receipt_number text;
+    v_payments jsonb;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_errors jsonb;
+    item jsonb;
+    payment jsonb;
+    v_product_id uuid;
+    v_quantity numeric;
+    v_unit_price numeric;
+    v_discount numeric;
+    v_factor int;
+    v_amount numeric;
+    v_tendered numeric;
+BEGIN
+    -- Signed-in callers record sales as themselves; the M-Pesa callback runs without a user
+    IF auth.uid() IS NOT NULL AND (p_cashier_id IS DISTINCT FROM auth.uid() OR NOT is_business_member(p_business_id, auth.uid())) THEN
+        RAISE EXCEPTION 'Not allowed to record sales for this business';
+    END IF;
+
+    -- Lock the products whose stock moves, bundle components included, in a consistent order so concurrent checkouts queue instead of overselling
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT d.product_id FROM public.sale_stock_demand(p_items) d)
+    ORDER BY id
+    FOR UPDATE;
+
+    v_errors := public.validate_sale_items(p_business_id, p_cashier_id, p_items);
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION USING
+            MESSAGE = 'Some items in this sale cannot be sold as entered',
+            DETAIL = v_errors::text,
+            HINT = 'sale_validation_failed';
+    END IF;
+
+    -- Calculate total amount from the items JSON, net of line discounts; weighed lines are rounded to the cent
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + sale_line_gross(item) - COALESCE((item->>'discount_amount')::numeric, 0);
+    END LOOP;
+
+    -- Callers that pass a single payment method pay the whole total with it
+    v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+        'method', lower(p_payment_method),
+        'amount', v_total_amount,
+        'tendered', v_total_amount,
+        'reference', p_mpesa_code
+    )));
+
+    IF jsonb_array_length(v_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required';
+    END IF;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero';
+        END IF;
+        IF payment->>'method' = 'cash' AND COALESCE((payment->>'tendered')::numeric, v_amount) < v_amount THEN
+            RAISE EXCEPTION 'Cash tendered (%) is less than the cash amount due (%)', payment->>'tendered', v_amount;
+        END IF;
+        v_paid_amount := v_paid_amount + v_amount;
+    END LOOP;
+
+    IF round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(v_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := v_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(v_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    -- Generate a unique receipt number
+    v_receipt_number := 'RCPT-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6);
+
+    -- Insert the main sale record
+    INSERT INTO public.sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number)
+    VALUES (p_business_id, p_cashier_id, p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, v_receipt_number)
+    RETURNING id INTO v_sale_id;
+
+    -- Record each tender, with change only ever given on cash
+    FOR payment IN SELECT * FROM jsonb_array_elements(v_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO public.sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    -- Insert sale items and post each line to the stock ledger; a bundle line takes stock from each of its components
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_product_id := (item->>'product_id')::uuid;
+        v_quantity := (item->>'quantity')::numeric;
+        v_unit_price := (item->>'unit_price')::numeric;
+        v_discount := COALESCE((item->>'discount_amount')::numeric, 0);
+
+        -- set_sale_item_unit fills in the conversion factor of the unit sold
+        INSERT INTO public.sale_items (sale_id, product_id, quantity, unit_price, total_price, discount_amount, promotion_id, product_unit_id)
+        VALUES (v_sale_id, v_product_id, v_quantity, v_unit_price, sale_line_gross(item) - v_discount, v_discount, (item->>'promotion_id')::uuid, (item->>'product_unit_id')::uuid)
+        RETURNING conversion_factor INTO v_factor;
+
+        PERFORM public.apply_stock_movement(p_business_id, v_product_id, 'sale', -v_quantity * v_factor, 'sale', v_sale_id);
+    END LOOP;
+
+    RETURN v_sale_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_sale_and_items(uuid, uuid, jsonb, text, text, text, text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+    p_business_id uuid,
+    p_client_sale_id uuid,
+    p_receipt_number text,
+    p_items jsonb,
+    p_payments jsonb,
+    p_sold_at timestamptz,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_existing public.sales%ROWTYPE;
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_conflicts jsonb := '[]'::jsonb;
+    v_line record;
+    item jsonb;
+    payment jsonb;
+    v_amount numeric;
+    v_tendered numeric;
+    v_factor int;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- A retry after a dropped response must not record the sale twice
+    SELECT * INTO v_existing FROM sales WHERE client_sale_id = p_client_sale_id;
+    IF FOUND THEN
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'product_id', c.product_id, 'name', p.name, 'requested', c.requested, 'available', c.available
+        )), '[]'::jsonb)
+        INTO v_conflicts
+        FROM offline_sale_conflicts c
+        JOIN products p ON p.id = c.product_id
+        WHERE c.sale_id = v_existing.id;
+
+        RETURN jsonb_build_object('sale_id', v_existing.id, 'receipt_number', v_existing.receipt_number, 'duplicate', true, 'conflicts', v_conflicts);
+    END IF;
+
+    PERFORM 1
+    FROM products
+    WHERE id IN (SELECT d.product_id FROM sale_stock_demand(p_items) d)
+    ORDER BY id
+    FOR UPDATE;
+
+    -- Stock shortfalls are reported rather than rejected: the goods have already left the shop.
+    -- Bundles are checked through their components.
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, p.id AS found_id, p.name, p.stock_quantity
+        FROM sale_stock_demand(p_items) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            RAISE EXCEPTION 'Product % no longer exists in this business', v_line.product_id;
+        END IF;
+        IF v_line.quantity > v_line.stock_quantity THEN
+            v_conflicts := v_conflicts || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'requested', v_line.quantity,
+                'available', v_line.stock_quantity
+            );
+        END IF;
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + sale_line_gross(item) - COALESCE((item->>'discount_amount')::numeric, 0);
+    END LOOP;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_paid_amount := v_paid_amount + (payment->>'amount')::numeric;
+    END LOOP;
+
+    IF jsonb_array_length(p_payments) = 0 OR round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(p_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := p_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(p_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    INSERT INTO sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number, client_sale_id, created_at)
+    VALUES (p_business_id, auth.uid(), p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, p_receipt_number, p_client_sale_id, p_sold_at)
+    RETURNING id INTO v_sale_id;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        -- Discounts given offline are kept as recorded: the customer has already paid the discounted price
+        INSERT INTO sale_items (sale_id, product_id, quantity, unit_price, total_price, discount_amount, promotion_id, product_unit_id)
+        VALUES (
+            v_sale_id,
+            (item->>'product_id')::uuid,
+            (item->>'quantity')::numeric,
+            (item->>'unit_price')::numeric,
+            sale_line_gross(item) - COALESCE((item->>'discount_amount')::numeric, 0),
+            COALESCE((item->>'discount_amount')::numeric, 0),
+            (item->>'promotion_id')::uuid,
+            (item->>'product_unit_id')::uuid
+        )
+        RETURNING conversion_factor INTO v_factor;
+
+        PERFORM apply_stock_movement(p_business_id, (item->>'product_id')::uuid, 'sale', -(item->>'quantity')::numeric * v_factor, 'sale', v_sale_id, 'Offline sale');
+    END LOOP;
+
+    INSERT INTO offline_sale_conflicts (business_id, sale_id, product_id, requested, available)
+    SELECT p_business_id, v_sale_id, (c->>'product_id')::uuid, (c->>'requested')::numeric, (c->>'available')::numeric
+    FROM jsonb_array_elements(v_conflicts) c;
+
+    RETURN jsonb_build_object('sale_id', v_sale_id, 'receipt_number', p_receipt_number, 'duplicate', false, 'conflicts', v_conflicts);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sync_offline_sale(uuid, uuid, text, jsonb, jsonb, timestamptz, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_sale_return(
+    p_sale_id uuid,
+    p_items jsonb,
+    p_reason_code text,
+    p_refund_method text DEFAULT 'cash',
+    p_notes text DEFAULT NULL,
+    p_is_void boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale public.sales%ROWTYPE;
+    v_user_id uuid := auth.uid();
+    v_is_manager boolean;
+    v_return_id uuid;
+    v_status public.sale_return_status_enum;
+    v_total numeric := 0;
+    v_line record;
+    v_requested numeric;
+    v_refund numeric;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_sale.business_id, v_user_id) THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM sale_returns WHERE sale_id = p_sale_id AND return_type = 'void' AND status <> 'rejected') THEN
+        RAISE EXCEPTION 'Sale % has already been voided', v_sale.receipt_number;
+    END IF;
+
+    SELECT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_sale.business_id AND user_id = v_user_id AND is_active = true AND role IN ('owner', 'manager')
+    ) INTO v_is_manager;
+
+    v_status := CASE WHEN p_is_void AND NOT v_is_manager THEN 'pending_approval' ELSE 'completed' END;
+
+    INSERT INTO sale_returns (business_id, sale_id, return_number, return_type, status, reason_code, notes, total_amount, refund_method, processed_by, approved_by, approved_at)
+    VALUES (
+        v_sale.business_id,
+        p_sale_id,
+        'RTN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        CASE WHEN p_is_void THEN 'void' ELSE 'return' END::public.sale_return_type_enum,
+        v_status,
+        p_reason_code,
+        p_notes,
+        0,
+        p_refund_method,
+        v_user_id,
+        CASE WHEN p_is_void AND v_is_manager THEN v_user_id END,
+        CASE WHEN p_is_void AND v_is_manager THEN now() END
+    )
+    RETURNING id INTO v_return_id;
+
+    -- Quantities still returnable per line exclude completed and pending returns
+    FOR v_line IN
+        SELECT si.id, si.product_id, si.quantity, si.total_price, si.conversion_factor,
+               si.quantity - COALESCE((
+                   SELECT SUM(ri.quantity) FROM sale_return_items ri
+                   JOIN sale_returns r ON r.id = ri.return_id
+                   WHERE ri.sale_item_id = si.id AND r.status <> 'rejected' AND r.id <> v_return_id
+               ), 0) AS returnable
+        FROM sale_items si
+        WHERE si.sale_id = p_sale_id
+    LOOP
+        IF p_is_void THEN
+            v_requested := v_line.returnable;
+        ELSE
+            SELECT COALESCE(SUM((x->>'quantity')::numeric), 0) INTO v_requested
+            FROM jsonb_array_elements(p_items) x
+            WHERE (x->>'sale_item_id')::uuid = v_line.id;
+        END IF;
+
+        IF v_requested > v_line.returnable THEN
+            RAISE EXCEPTION 'Cannot return % of a line that only has % left to return', v_requested, v_line.returnable;
+        END IF;
+
+        IF v_requested > 0 THEN
+            -- Refund the price actually paid, so discounted lines are refunded net of their discount
+            v_refund := round(v_line.total_price * v_requested / v_line.quantity, 2);
+            INSERT INTO sale_return_items (return_id, sale_item_id, product_id, quantity, unit_price, total_price)
+            VALUES (v_return_id, v_line.id, v_line.product_id, v_requested, round(v_line.total_price / v_line.quantity, 2), v_refund);
+            v_total := v_total + v_refund;
+
+            IF v_status = 'completed' THEN
+                PERFORM apply_stock_movement(v_sale.business_id, v_line.product_id, 'return', v_requested * v_line.conversion_factor, 'sale_return', v_return_id, p_reason_code);
+            END IF;
+        END IF;
+    END LOOP;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION 'Nothing to return on sale %', v_sale.receipt_number;
+    END IF;
+
+    UPDATE sale_returns SET total_amount = v_total WHERE id = v_return_id;
+
+    RETURN v_return_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_sale_return(uuid, jsonb, text, text, text, boolean) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.adjust_stock(uuid, integer, text, text, uuid);
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+    p_product_id uuid,
+    p_quantity numeric,
+    p_reason text,
+    p_notes text DEFAULT NULL,
+    p_branch_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_business_id uuid;
+    v_balance numeric;
+BEGIN
+    SELECT business_id INTO v_business_id FROM products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can adjust stock';
+    END IF;
+
+    IF p_quantity = 0 OR COALESCE(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'An adjustment needs a non-zero quantity and a reason';
+    END IF;
+
+    IF p_branch_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM branches WHERE id = p_branch_id AND business_id = v_business_id) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    PERFORM set_config('app.branch_id', COALESCE(p_branch_id::text, ''), true);
+    v_balance := apply_stock_movement(v_business_id, p_product_id, 'adjustment', p_quantity, NULL, NULL, p_reason, p_notes);
+    PERFORM set_config('app.branch_id', '', true);
+
+    RETURN v_balance;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_stock(uuid, numeric, text, text, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.write_off_batch(uuid, integer, text);
+CREATE OR REPLACE FUNCTION public.write_off_batch(
+    p_batch_id uuid,
+    p_quantity numeric DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_batch public.product_batches%ROWTYPE;
+    v_quantity numeric;
+    v_balance numeric;
+BEGIN
+    SELECT * INTO v_batch FROM product_batches WHERE id = p_batch_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_batch.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Batch not found';
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_batch.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only owners and managers can write off stock';
+    END IF;
+
+    v_quantity := COALESCE(p_quantity, v_batch.quantity_remaining);
+    IF v_quantity <= 0 OR v_quantity > v_batch.quantity_remaining THEN
+        RAISE EXCEPTION 'Cannot write off % from a batch with % left', v_quantity, v_batch.quantity_remaining;
+    END IF;
+
+    PERFORM set_config('app.stock_batch_id', v_batch.id::text, true);
+    v_balance := apply_stock_movement(
+        v_batch.business_id,
+        v_batch.product_id,
+        'adjustment',
+        -v_quantity,
+        'product_batch',
+        v_batch.id,
+        'expired',
+        COALESCE(p_notes, 'Batch ' || COALESCE(v_batch.batch_number, 'without number') || CASE WHEN v_batch.expiry_date IS NOT NULL THEN ', expiry ' || to_char(v_batch.expiry_date, 'DD Mon YYYY') ELSE '' END)
+    );
+    PERFORM set_config('app.stock_batch_id', '', true);
+
+    RETURN v_balance;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.write_off_batch(uuid, numeric, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_stock_counts(p_stock_take_id uuid, p_counts jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stock_take public.stock_takes%ROWTYPE;
+BEGIN
+    SELECT * INTO v_stock_take FROM stock_takes WHERE id = p_stock_take_id;
+    IF NOT FOUND OR NOT is_business_member(v_stock_take.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock take not found';
+    END IF;
+    IF v_stock_take.status <> 'counting' THEN
+        RAISE EXCEPTION 'Stock take % is %', v_stock_take.stock_take_number, v_stock_take.status;
+    END IF;
+
+    UPDATE stock_take_items sti
+    SET counted_quantity = (c->>'counted_quantity')::numeric,
+        reason = NULLIF(c->>'reason', '')
+    FROM jsonb_array_elements(p_counts) c
+    WHERE sti.stock_take_id = p_stock_take_id
+      AND sti.product_id = (c->>'product_id')::uuid;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_stock_counts(uuid, jsonb) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_stock_discrepancies(uuid);
+CREATE OR REPLACE FUNCTION public.get_stock_discrepancies(p_business_id uuid)
+RETURNS TABLE (product_id uuid, name text, stock_quantity numeric, ledger_quantity numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.id, p.name::text, p.stock_quantity, COALESCE(SUM(m.quantity), 0)
+    FROM products p
+    LEFT JOIN stock_movements m ON m.product_id = p.id
+    WHERE p.business_id = p_business_id
+    GROUP BY p.id, p.name, p.stock_quantity
+    HAVING COALESCE(SUM(m.quantity), 0) <> COALESCE(p.stock_quantity, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_stock_discrepancies(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_expiring_batches(uuid, integer, uuid);
+CREATE OR REPLACE FUNCTION public.get_expiring_batches(p_business_id uuid, p_days integer DEFAULT 30, p_branch_id uuid DEFAULT NULL)
+RETURNS TABLE (
+    batch_id uuid,
+    product_id uuid,
+    product_name text,
+    sku text,
+    category text,
+    unit text,
+    branch_name text,
+    batch_number text,
+    expiry_date date,
+    days_to_expiry integer,
+    quantity_remaining numeric,
+    buying_price numeric,
+    selling_price numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        b.id,
+        p.id,
+        p.name::text,
+        p.sku::text,
+        p.category::text,
+        p.unit::text,
+        br.name,
+        b.batch_number,
+        b.expiry_date,
+        (b.expiry_date - (now() AT TIME ZONE 'Africa/Nairobi')::date)::integer,
+        b.quantity_remaining,
+        p.buying_price::numeric,
+        p.selling_price::numeric
+    FROM product_batches b
+    JOIN products p ON p.id = b.product_id
+    LEFT JOIN branches br ON br.id = b.branch_id
+    WHERE b.business_id = p_business_id
+      AND (p_branch_id IS NULL OR b.branch_id = p_branch_id)
+      AND b.quantity_remaining > 0
+      AND b.expiry_date <= (now() AT TIME ZONE 'Africa/Nairobi')::date + p_days
+    ORDER BY b.expiry_date, p.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expiring_batches(uuid, integer, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_gross_profit(uuid, date, date, uuid);
+CREATE OR REPLACE FUNCTION public.get_gross_profit(p_business_id uuid, p_start date, p_end date, p_branch_id uuid DEFAULT NULL)
+RETURNS TABLE(
+    day date,
+    product_id uuid,
+    product_name text,
+    category text,
+    quantity numeric,
+    revenue numeric,
+    cost numeric,
+    uncosted_quantity numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    RETURN QUERY
+    WITH lines AS (
+        SELECT s.created_at::date AS day, si.product_id, si.quantity, si.total_price AS revenue, si.unit_cost
+        FROM sales s
+        JOIN sale_items si ON si.sale_id = s.id
+        WHERE s.business_id = p_business_id
+          AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+          AND s.created_at::date BETWEEN p_start AND p_end
+        UNION ALL
+        SELECT r.created_at::date, ri.product_id, -ri.quantity, -ri.total_price, si.unit_cost
+        FROM sale_returns r
+        JOIN sale_return_items ri ON ri.return_id = r.id
+        JOIN sale_items si ON si.id = ri.sale_item_id
+        JOIN sales s ON s.id = r.sale_id
+        WHERE r.business_id = p_business_id
+          AND r.status = 'completed'
+          AND (p_branch_id IS NULL OR s.branch_id = p_branch_id)
+          AND r.created_at::date BETWEEN p_start AND p_end
+    )
+    SELECT
+        l.day,
+        l.product_id,
+        p.name,
+        p.category,
+        SUM(l.quantity),
+        SUM(l.revenue),
+        SUM(l.quantity * COALESCE(l.unit_cost, 0)),
+        SUM(l.quantity) FILTER (WHERE l.unit_cost IS NULL)
+    FROM lines l
+    JOIN products p ON p.id = l.product_id
+    GROUP BY l.day, l.product_id, p.name, p.category
+    ORDER BY l.day, p.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_gross_profit(uuid, date, date, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_reorder_suggestions(uuid, integer, integer, integer, integer);
+CREATE OR REPLACE FUNCTION public.get_reorder_suggestions(
+    p_business_id uuid,
+    p_lookback_days integer DEFAULT 30,
+    p_lead_time_days integer DEFAULT 7,
+    p_safety_days integer DEFAULT 3,
+    p_cover_days integer DEFAULT 14
+)
+RETURNS TABLE (
+    product_id uuid,
+    product_name text,
+    sku text,
+    unit text,
+    stock_quantity numeric,
+    on_order numeric,
+    on_draft numeric,
+    units_sold numeric,
+    avg_daily_sales numeric,
+    days_of_cover numeric,
+    lead_time_days integer,
+    reorder_point numeric,
+    suggested_quantity numeric,
+    supplier_id uuid,
+    supplier_name text,
+    unit_cost numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+    IF p_lookback_days <= 0 THEN
+        RAISE EXCEPTION 'The lookback window must be at least one day';
+    END IF;
+
+    -- Bundles sold count towards their components, using each bundle's current make-up.
+    -- Stock and sales may be fractions of a kilogram; suggestions round up to whole units, as purchase orders are.
+    RETURN QUERY
+    WITH sold AS (
+        SELECT COALESCE(c.component_product_id, l.product_id) AS product_id, SUM(l.quantity * COALESCE(c.quantity, 1)) AS quantity
+        FROM (
+            SELECT si.product_id, si.quantity * si.conversion_factor AS quantity
+            FROM sales s
+            JOIN sale_items si ON si.sale_id = s.id
+            WHERE s.business_id = p_business_id
+              AND s.created_at >= now() - make_interval(days => p_lookback_days)
+            UNION ALL
+            SELECT ri.product_id, -ri.quantity * si.conversion_factor
+            FROM sale_returns r
+            JOIN sale_return_items ri ON ri.return_id = r.id
+            JOIN sale_items si ON si.id = ri.sale_item_id
+            WHERE r.business_id = p_business_id
+              AND r.status = 'completed'
+              AND r.created_at >= now() - make_interval(days => p_lookback_days)
+        ) l
+        LEFT JOIN product_bundle_components c ON c.bundle_product_id = l.product_id
+        GROUP BY 1
+    ),
+    open_lines AS (
+        SELECT poi.product_id,
+               SUM(poi.quantity_ordered - poi.quantity_received) FILTER (WHERE po.status IN ('ordered', 'partially_received')) AS on_order,
+               SUM(poi.quantity_ordered) FILTER (WHERE po.status = 'draft') AS on_draft
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE po.business_id = p_business_id
+          AND po.status IN ('draft', 'ordered', 'partially_received')
+        GROUP BY poi.product_id
+    ),
+    last_supplier AS (
+        SELECT DISTINCT ON (poi.product_id) poi.product_id, po.supplier_id, poi.unit_cost
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE po.business_id = p_business_id
+          AND po.status <> 'cancelled'
+        ORDER BY poi.product_id, po.created_at DESC
+    ),
+    velocity AS (
+        SELECT
+            p.id,
+            p.name,
+            p.sku,
+            p.unit,
+            COALESCE(p.stock_quantity, 0) AS stock_quantity,
+            COALESCE(o.on_order, 0) AS on_order,
+            COALESCE(o.on_draft, 0) AS on_draft,
+            GREATEST(COALESCE(sd.quantity, 0), 0) AS units_sold,
+            GREATEST(COALESCE(sd.quantity, 0), 0)::numeric / p_lookback_days AS daily,
+            COALESCE(su.lead_time_days, p_lead_time_days) AS lead_time,
+            su.id AS supplier_id,
+            su.name AS supplier_name,
+            COALESCE(ls.unit_cost, p.buying_price) AS unit_cost
+        FROM products p
+        LEFT JOIN sold sd ON sd.product_id = p.id
+        LEFT JOIN open_lines o ON o.product_id = p.id
+        LEFT JOIN last_supplier ls ON ls.product_id = p.id
+        LEFT JOIN suppliers su ON su.id = ls.supplier_id
+        WHERE p.business_id = p_business_id
+          AND p.is_active
+          AND NOT p.is_bundle
+    ),
+    targets AS (
+        SELECT
+            v.*,
+            ceil(v.daily * (v.lead_time + p_safety_days)) AS reorder_point,
+            ceil(v.daily * (v.lead_time + p_safety_days + p_cover_days)) AS target,
+            GREATEST(v.stock_quantity, 0) + v.on_order + v.on_draft AS available
+        FROM velocity v
+    )
+    SELECT
+        t.id,
+        t.name::text,
+        t.sku::text,
+        t.unit::text,
+        t.stock_quantity::numeric,
+        t.on_order::numeric,
+        t.on_draft::numeric,
+        t.units_sold::numeric,
+        round(t.daily, 2),
+        CASE WHEN t.daily > 0 THEN round(GREATEST(t.stock_quantity, 0) / t.daily, 1) END,
+        t.lead_time,
+        t.reorder_point,
+        CASE WHEN t.daily > 0 AND t.available <= t.reorder_point THEN ceil(t.target - t.available) ELSE 0 END,
+        t.supplier_id,
+        t.supplier_name::text,
+        t.unit_cost::numeric
+    FROM targets t
+    ORDER BY CASE WHEN t.daily > 0 THEN GREATEST(t.stock_quantity, 0) / t.daily END NULLS LAST, t.name;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_reorder_suggestions(uuid, integer, integer, integer, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.import_products(p_business_id uuid, p_rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_row jsonb;
+    v_sku text;
+    v_name text;
+    v_price numeric;
+    v_stock numeric;
+    v_product_id uuid;
+    v_current_stock numeric;
+    v_matches integer;
+    v_created integer := 0;
+    v_updated integer := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = p_business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can import products';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_rows) r
+        GROUP BY trim(r->>'sku') HAVING count(*) > 1
+    ) THEN
+        RAISE EXCEPTION 'The import contains the same SKU more than once';
+    END IF;
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+        v_sku := NULLIF(trim(v_row->>'sku'), '');
+        v_name := NULLIF(trim(v_row->>'name'), '');
+        v_price := (v_row->>'selling_price')::numeric;
+        v_stock := (v_row->>'stock_quantity')::numeric;
+
+        IF v_sku IS NULL OR v_name IS NULL OR v_price IS NULL OR v_price < 0 THEN
+            RAISE EXCEPTION 'Row with SKU % needs a name and a selling price', COALESCE(v_sku, '(blank)');
+        END IF;
+        IF v_stock < 0 OR (v_row->>'min_stock_level')::integer < 0 OR (v_row->>'buying_price')::numeric < 0 THEN
+            RAISE EXCEPTION 'Row with SKU % has a negative quantity or price', v_sku;
+        END IF;
+
+        SELECT count(*), min(id::text)::uuid INTO v_matches, v_product_id
+        FROM products WHERE business_id = p_business_id AND sku = v_sku;
+
+        IF v_matches > 1 THEN
+            RAISE EXCEPTION 'SKU % matches more than one product', v_sku;
+        ELSIF v_matches = 1 THEN
+            SELECT stock_quantity INTO v_current_stock FROM products WHERE id = v_product_id FOR UPDATE;
+
+            UPDATE products SET
+                name = v_name,
+                selling_price = v_price,
+                category = COALESCE(NULLIF(trim(v_row->>'category'), ''), category),
+                unit = COALESCE(NULLIF(trim(v_row->>'unit'), ''), unit),
+                buying_price = COALESCE((v_row->>'buying_price')::numeric, buying_price),
+                min_stock_level = COALESCE((v_row->>'min_stock_level')::integer, min_stock_level),
+                updated_at = now()
+            WHERE id = v_product_id;
+
+            IF v_stock IS NOT NULL AND v_stock <> v_current_stock THEN
+                PERFORM apply_stock_movement(p_business_id, v_product_id, 'adjustment', v_stock - v_current_stock, NULL, NULL, 'Bulk import');
+            END IF;
+            v_updated := v_updated + 1;
+        ELSE
+            -- Inserting with stock lets log_direct_stock_change record the opening balance
+            INSERT INTO products (business_id, sku, name, category, unit, buying_price, selling_price, stock_quantity, min_stock_level, is_active)
+            VALUES (
+                p_business_id, v_sku, v_name,
+                NULLIF(trim(v_row->>'category'), ''),
+                COALESCE(NULLIF(trim(v_row->>'unit'), ''), 'piece'),
+                (v_row->>'buying_price')::numeric,
+                v_price,
+                COALESCE(v_stock, 0),
+                COALESCE((v_row->>'min_stock_level')::integer, 0),
+                true
+            );
+            v_created := v_created + 1;
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_products(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.dispatch_stock_transfer(p_transfer_id uuid, p_items jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+    v_line record;
+    v_available numeric;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF v_transfer.status <> 'requested' THEN
+        RAISE EXCEPTION 'Stock transfer % has already been dispatched or cancelled', v_transfer.transfer_number;
+    END IF;
+
+    FOR v_line IN
+        SELECT ti.id, ti.product_id, p.name,
+               COALESCE((SELECT SUM((x->>'quantity')::int) FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) x
+                         WHERE (x->>'product_id')::uuid = ti.product_id), ti.quantity_requested) AS quantity
+        FROM stock_transfer_items ti
+        JOIN products p ON p.id = ti.product_id
+        WHERE ti.transfer_id = v_transfer.id
+        FOR UPDATE OF ti
+    LOOP
+        IF v_line.quantity < 0 THEN
+            RAISE EXCEPTION 'Dispatched quantities cannot be negative';
+        END IF;
+        CONTINUE WHEN v_line.quantity = 0;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_available
+        FROM branch_stock
+        WHERE branch_id = v_transfer.from_branch_id AND product_id = v_line.product_id;
+        IF v_line.quantity > v_available THEN
+            RAISE EXCEPTION 'Only % of % left at the sending branch', GREATEST(v_available, 0), v_line.name;
+        END IF;
+
+        UPDATE stock_transfer_items SET quantity_dispatched = v_line.quantity WHERE id = v_line.id;
+
+        PERFORM apply_stock_movement(
+            v_transfer.business_id, v_line.product_id, 'transfer', -v_line.quantity,
+            'stock_transfer', v_transfer.id, 'Transfer out', v_transfer.transfer_number
+        );
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM stock_transfer_items WHERE transfer_id = v_transfer.id AND quantity_dispatched > 0) THEN
+        RAISE EXCEPTION 'Nothing to dispatch';
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'in_transit', dispatched_by = auth.uid(), dispatched_at = now()
+    WHERE id = v_transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.dispatch_stock_transfer(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(p_transfer_id uuid, p_items jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+    v_line record;
+    v_batch record;
+    v_outstanding numeric;
+    v_take numeric;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Stock transfer % is not in transit', v_transfer.transfer_number;
+    END IF;
+
+    FOR v_line IN
+        SELECT ti.id, ti.product_id, p.name, ti.quantity_dispatched,
+               COALESCE((SELECT SUM((x->>'quantity')::int) FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) x
+                         WHERE (x->>'product_id')::uuid = ti.product_id), ti.quantity_dispatched) AS quantity
+        FROM stock_transfer_items ti
+        JOIN products p ON p.id = ti.product_id
+        WHERE ti.transfer_id = v_transfer.id AND ti.quantity_dispatched > 0
+        FOR UPDATE OF ti
+    LOOP
+        IF v_line.quantity < 0 OR v_line.quantity > v_line.quantity_dispatched THEN
+            RAISE EXCEPTION 'Received quantity for % must be between 0 and %', v_line.name, v_line.quantity_dispatched;
+        END IF;
+        CONTINUE WHEN v_line.quantity = 0;
+
+        UPDATE stock_transfer_items SET quantity_received = v_line.quantity WHERE id = v_line.id;
+
+        v_outstanding := v_line.quantity;
+        FOR v_batch IN
+            SELECT b.batch_number, b.expiry_date, -SUM(mb.quantity) AS quantity
+            FROM stock_movements m
+            JOIN stock_movement_batches mb ON mb.movement_id = m.id
+            JOIN product_batches b ON b.id = mb.batch_id
+            WHERE m.reference_type = 'stock_transfer' AND m.reference_id = v_transfer.id
+              AND m.product_id = v_line.product_id AND m.quantity < 0
+            GROUP BY b.batch_number, b.expiry_date
+            ORDER BY b.expiry_date NULLS LAST
+        LOOP
+            EXIT WHEN v_outstanding = 0;
+            v_take := LEAST(v_outstanding, v_batch.quantity);
+
+            PERFORM set_config('app.stock_batch', jsonb_build_object('batch_number', v_batch.batch_number, 'expiry_date', v_batch.expiry_date)::text, true);
+            PERFORM apply_stock_movement(
+                v_transfer.business_id, v_line.product_id, 'transfer', v_take,
+                'stock_transfer', v_transfer.id, 'Transfer in', v_transfer.transfer_number
+            );
+            PERFORM set_config('app.stock_batch', '', true);
+
+            v_outstanding := v_outstanding - v_take;
+        END LOOP;
+
+        IF v_outstanding > 0 THEN
+            PERFORM apply_stock_movement(
+                v_transfer.business_id, v_line.product_id, 'transfer', v_outstanding,
+                'stock_transfer', v_transfer.id, 'Transfer in', v_transfer.transfer_number
+            );
+        END IF;
+    END LOOP;
+
+    UPDATE stock_transfers
+    SET status = 'received', received_by = auth.uid(), received_at = now()
+    WHERE id = v_transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_stock_transfer(uuid, jsonb) TO authenticated;
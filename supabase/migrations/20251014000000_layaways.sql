@@ -0,0 +1,788 @@
+/*
+# [Layaway Orders]
+Lets a customer pay a deposit to reserve goods, pay the rest in instalments and collect the goods once paid in full.
+
+## Query Description:
+A layaway order is priced and checked like a sale, then its goods are reserved at the branch: they stay on the shelf and in the branch's stock, so stock takes count them as usual, but `validate_sale_items` takes them off what can be sold until the order is collected, cancelled or expires. The customer's name and phone are required so the order can be followed up. The deposit and each later instalment are recorded in `layaway_payments` against the shift of the member who took them, and show up on the shift report as deposits. The final payment turns the order into a completed sale with a receipt, and the goods leave stock then, like any other sale. The sale is left out of the shift's sales takings because the money was counted as deposits when it came in. An order that is not paid off within the business's layaway period (30 days unless changed) stops holding its goods as soon as the period ends and can take no more payments; its status is moved to expired the next time the business's layaways are listed or changed. Owners and managers can cancel an order, refunding what was paid if they choose.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Creates tables `layaway_orders`, `layaway_items` and `layaway_payments`, and enum `layaway_status_enum`.
+- Adds column `layaway_days` to `businesses`.
+- Creates functions `layaway_reserved_stock`, `create_layaway`, `record_layaway_payment`, `cancel_layaway` and `expire_layaway_orders`.
+- Replaces `validate_sale_items`, `get_cash_shift_report` and `close_cash_shift`.
+
+## Security Implications:
+- RLS Status: Enabled on the new tables.
+- Policy Changes: Yes. Business members can view layaway orders, their items and payments.
+- Auth Requirements: Layaways are written only through the functions above; only owners and managers can cancel one.
+
+## Performance Impact:
+- Indexes: Adds indexes on `layaway_orders(business_id, status)`, `layaway_orders.sale_id` and `layaway_payments.layaway_id`.
+- Triggers: Adds a BEFORE INSERT trigger on `layaway_payments`.
+- Estimated Impact: Low. Sale checks add up the branch's active layaways; shift totals check each sale for a layaway order.
+*/
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'layaway_status_enum') THEN
+        CREATE TYPE public.layaway_status_enum AS ENUM ('active', 'completed', 'cancelled', 'expired');
+    END IF;
+END$$;
+
+ALTER TABLE public.businesses ADD COLUMN IF NOT EXISTS layaway_days integer NOT NULL DEFAULT 30 CHECK (layaway_days > 0);
+
+CREATE TABLE IF NOT EXISTS public.layaway_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL REFERENCES public.branches(id),
+  layaway_number text UNIQUE NOT NULL,
+  status public.layaway_status_enum NOT NULL DEFAULT 'active',
+  customer_name text NOT NULL,
+  customer_phone text NOT NULL,
+  total_amount numeric NOT NULL CHECK (total_amount > 0),
+  paid_amount numeric NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  sale_id uuid REFERENCES public.sales(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  closed_at timestamptz
+);
+CREATE INDEX IF NOT EXISTS layaway_orders_business_status_idx ON public.layaway_orders(business_id, status);
+CREATE INDEX IF NOT EXISTS layaway_orders_sale_id_idx ON public.layaway_orders(sale_id);
+
+-- Prices are fixed when the goods are reserved; conversion_factor is the base units held per unit reserved
+CREATE TABLE IF NOT EXISTS public.layaway_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  layaway_id uuid NOT NULL REFERENCES public.layaway_orders(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id),
+  product_unit_id uuid REFERENCES public.product_units(id),
+  conversion_factor integer NOT NULL DEFAULT 1,
+  quantity numeric(12, 3) NOT NULL CHECK (quantity > 0),
+  unit_price numeric NOT NULL,
+  discount_amount numeric NOT NULL DEFAULT 0,
+  promotion_id uuid REFERENCES public.promotions(id) ON DELETE SET NULL,
+  total_price numeric NOT NULL
+);
+CREATE INDEX IF NOT EXISTS layaway_items_layaway_id_idx ON public.layaway_items(layaway_id);
+
+-- A negative amount is a refund made when the order was cancelled
+CREATE TABLE IF NOT EXISTS public.layaway_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  layaway_id uuid NOT NULL REFERENCES public.layaway_orders(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  method text NOT NULL CHECK (method IN ('cash', 'mpesa', 'card')),
+  amount numeric NOT NULL CHECK (amount <> 0),
+  reference text,
+  received_by uuid REFERENCES auth.users(id),
+  shift_id uuid REFERENCES public.cash_shifts(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS layaway_payments_layaway_id_idx ON public.layaway_payments(layaway_id);
+CREATE INDEX IF NOT EXISTS layaway_payments_shift_id_idx ON public.layaway_payments(shift_id);
+
+DROP TRIGGER IF EXISTS set_layaway_payments_shift ON public.layaway_payments;
+CREATE TRIGGER set_layaway_payments_shift BEFORE INSERT ON public.layaway_payments
+    FOR EACH ROW EXECUTE FUNCTION public.set_shift_from_staff();
+
+-- Layaways are only ever written through the functions below.
+ALTER TABLE public.layaway_orders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view layaway_orders" ON public.layaway_orders;
+CREATE POLICY "Allow business members to view layaway_orders" ON public.layaway_orders FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+ALTER TABLE public.layaway_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view layaway_items" ON public.layaway_items;
+CREATE POLICY "Allow business members to view layaway_items" ON public.layaway_items FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM layaway_orders lo
+        WHERE lo.id = layaway_items.layaway_id AND is_business_member(lo.business_id, auth.uid())
+    )
+);
+
+ALTER TABLE public.layaway_payments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow business members to view layaway_payments" ON public.layaway_payments;
+CREATE POLICY "Allow business members to view layaway_payments" ON public.layaway_payments FOR SELECT USING (is_business_member(business_id, auth.uid()));
+
+/*
+  Goods held for active layaways at each branch, in base units, with bundles broken down into their
+  components. An order stops holding its goods the moment it expires, whether or not its status has
+  been updated yet.
+*/
+CREATE OR REPLACE FUNCTION public.layaway_reserved_stock(p_business_id uuid)
+RETURNS TABLE(branch_id uuid, product_id uuid, quantity numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT lo.branch_id, COALESCE(c.component_product_id, li.product_id), SUM(li.quantity * li.conversion_factor * COALESCE(c.quantity, 1))
+    FROM layaway_orders lo
+    JOIN layaway_items li ON li.layaway_id = lo.id
+    LEFT JOIN products b ON b.id = li.product_id AND b.is_bundle
+    LEFT JOIN product_bundle_components c ON c.bundle_product_id = b.id
+    WHERE lo.business_id = p_business_id
+      AND lo.status = 'active'
+      AND lo.expires_at > now()
+      AND (auth.uid() IS NULL OR is_business_member(p_business_id, auth.uid()))
+    GROUP BY 1, 2;
+$$;
+GRANT EXECUTE ON FUNCTION public.layaway_reserved_stock(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.validate_sale_items(p_business_id uuid, p_cashier_id uuid, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_errors jsonb := '[]'::jsonb;
+    v_line record;
+    v_promotion public.promotions%ROWTYPE;
+    v_max_percent numeric;
+    v_line_total numeric;
+    v_manual numeric;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- Stock is checked in base units, at the cashier's branch less goods held there for layaways, against the total of each product across all lines,
+    -- selling units and bundles; a component's shortfall is reported against the bundles that use it too
+    FOR v_line IN
+        SELECT r.product_id, r.quantity, r.bundle_ids, p.id AS found_id, p.name, COALESCE(bs.quantity, 0) - COALESCE(lr.quantity, 0) AS stock_quantity
+        FROM sale_stock_demand(p_items) r
+        LEFT JOIN products p ON p.id = r.product_id AND p.business_id = p_business_id AND COALESCE(p.is_active, true)
+        LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = staff_branch_id(p_business_id, p_cashier_id)
+        LEFT JOIN layaway_reserved_stock(p_business_id) lr ON lr.product_id = p.id AND lr.branch_id = staff_branch_id(p_business_id, p_cashier_id)
+    LOOP
+        IF v_line.found_id IS NULL THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'code', 'product_not_found');
+        ELSIF v_line.quantity <= 0 THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_quantity', 'requested', v_line.quantity);
+        ELSIF v_line.quantity > v_line.stock_quantity THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'insufficient_stock',
+                'requested', v_line.quantity,
+                'available', GREATEST(v_line.stock_quantity, 0),
+                'bundle_ids', to_jsonb(v_line.bundle_ids)
+            );
+        END IF;
+    END LOOP;
+
+    -- Only weighed products sold loose may be sold in fractions, to the gram
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, (x->>'quantity')::numeric AS quantity
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE (x->>'quantity')::numeric <> trunc((x->>'quantity')::numeric)
+          AND (NOT p.is_weighed OR x->>'product_unit_id' IS NOT NULL OR (x->>'quantity')::numeric <> round((x->>'quantity')::numeric, 3))
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'fractional_quantity', 'requested', v_line.quantity);
+    END LOOP;
+
+    -- A price-embedded scale label charges the price printed on it, which may differ from the weight times the price
+    -- per kilo by up to half a gram's worth, since the weight it works out to is rounded to the gram
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, (x->>'line_total')::numeric AS line_total
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE x->>'line_total' IS NOT NULL
+          AND (NOT p.is_weighed OR x->>'product_unit_id' IS NOT NULL OR (x->>'line_total')::numeric < 0
+               OR abs((x->>'line_total')::numeric - (x->>'quantity')::numeric * (x->>'unit_price')::numeric) > (x->>'unit_price')::numeric * 0.0005 + 0.005)
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_line_total', 'line_total', v_line.line_total);
+    END LOOP;
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id AND pu.is_active
+        WHERE x->>'product_unit_id' IS NOT NULL AND pu.id IS NULL
+    LOOP
+        v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'unit_not_found');
+    END LOOP;
+
+    -- Lines sold in another unit are priced at that unit's selling price, plus VAT where prices are quoted before VAT
+    IF NOT can_override_price(p_business_id, p_cashier_id) THEN
+        FOR v_line IN
+            SELECT p.id AS product_id, p.name, (x->>'unit_price')::numeric AS unit_price,
+                   vat_inclusive_price(p_business_id, p.tax_class, COALESCE(pu.selling_price, p.selling_price)) AS selling_price
+            FROM jsonb_array_elements(p_items) x
+            JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+            LEFT JOIN product_units pu ON pu.id = (x->>'product_unit_id')::uuid AND pu.product_id = p.id
+            WHERE round((x->>'unit_price')::numeric, 2) <> round(vat_inclusive_price(p_business_id, p.tax_class, COALESCE(pu.selling_price, p.selling_price)), 2)
+        LOOP
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'price_mismatch',
+                'unit_price', v_line.unit_price,
+                'selling_price', v_line.selling_price
+            );
+        END LOOP;
+    END IF;
+
+    v_max_percent := max_discount_percent(p_business_id, p_cashier_id);
+
+    FOR v_line IN
+        SELECT p.id AS product_id, p.name, p.category,
+               (x->>'quantity')::numeric AS quantity,
+               (x->>'unit_price')::numeric AS unit_price,
+               COALESCE((x->>'discount_amount')::numeric, 0) AS discount_amount,
+               (x->>'promotion_id')::uuid AS promotion_id,
+               COALESCE((x->>'promotion_discount')::numeric, 0) AS promotion_discount,
+               sale_line_gross(x) AS gross
+        FROM jsonb_array_elements(p_items) x
+        JOIN products p ON p.id = (x->>'product_id')::uuid AND p.business_id = p_business_id
+        WHERE COALESCE((x->>'discount_amount')::numeric, 0) <> 0 OR x->>'promotion_id' IS NOT NULL
+    LOOP
+        v_line_total := v_line.gross;
+
+        IF v_line.discount_amount < 0 OR v_line.discount_amount > v_line_total
+           OR v_line.promotion_discount < 0 OR v_line.promotion_discount > v_line.discount_amount
+           OR (v_line.promotion_id IS NULL AND v_line.promotion_discount > 0) THEN
+            v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'invalid_discount', 'discount_amount', v_line.discount_amount);
+            CONTINUE;
+        END IF;
+
+        IF v_line.promotion_id IS NOT NULL THEN
+            SELECT * INTO v_promotion FROM promotions WHERE id = v_line.promotion_id AND business_id = p_business_id;
+            IF NOT FOUND
+               OR NOT promotion_is_live(v_promotion)
+               OR NOT promotion_applies(v_promotion, v_line.product_id, v_line.category)
+               OR round(v_line.promotion_discount, 2) > round(promotion_line_discount(v_promotion, v_line.quantity, v_line.unit_price), 2) THEN
+                v_errors := v_errors || jsonb_build_object('product_id', v_line.product_id, 'name', v_line.name, 'code', 'promotion_not_applicable');
+                CONTINUE;
+            END IF;
+        END IF;
+
+        -- Basket discounts arrive spread across the lines, so the limit is checked per line
+        v_manual := v_line.discount_amount - v_line.promotion_discount;
+        IF v_manual > 0 AND round(v_manual, 2) > round(v_line_total * v_max_percent / 100, 2) THEN
+            v_errors := v_errors || jsonb_build_object(
+                'product_id', v_line.product_id,
+                'name', v_line.name,
+                'code', 'discount_exceeds_limit',
+                'discount_amount', v_manual,
+                'max_percent', v_max_percent
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_errors;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.validate_sale_items(uuid, uuid, jsonb) TO authenticated;
+
+/*
+  Reserves goods against a deposit. p_items is the same as for create_sale_and_items and is checked the
+  same way, at the member's branch. p_deposit: { "method": "cash" | "mpesa" | "card", "amount": numeric,
+  "reference": text }. The deposit must be less than the total; paying it all at once is a sale.
+*/
+CREATE OR REPLACE FUNCTION public.create_layaway(
+    p_business_id uuid,
+    p_items jsonb,
+    p_customer_name text,
+    p_customer_phone text,
+    p_deposit jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_layaway_id uuid;
+    v_branch_id uuid;
+    v_total_amount numeric := 0;
+    v_deposit numeric;
+    v_method text;
+    v_errors jsonb;
+    item jsonb;
+    v_quantity numeric;
+    v_unit_price numeric;
+    v_discount numeric;
+    v_factor int;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF NULLIF(trim(p_customer_name), '') IS NULL OR NULLIF(trim(p_customer_phone), '') IS NULL THEN
+        RAISE EXCEPTION 'A layaway needs the customer''s name and phone number';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A layaway needs at least one item';
+    END IF;
+
+    PERFORM expire_layaway_orders(p_business_id);
+
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT d.product_id FROM public.sale_stock_demand(p_items) d)
+    ORDER BY id
+    FOR UPDATE;
+
+    v_errors := public.validate_sale_items(p_business_id, auth.uid(), p_items);
+    IF jsonb_array_length(v_errors) > 0 THEN
+        RAISE EXCEPTION USING
+            MESSAGE = 'Some items in this sale cannot be sold as entered',
+            DETAIL = v_errors::text,
+            HINT = 'sale_validation_failed';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + sale_line_gross(item) - COALESCE((item->>'discount_amount')::numeric, 0);
+    END LOOP;
+
+    v_method := p_deposit->>'method';
+    v_deposit := round((p_deposit->>'amount')::numeric, 2);
+    IF v_method IS NULL OR v_method NOT IN ('cash', 'mpesa', 'card') THEN
+        RAISE EXCEPTION 'Deposits are taken in cash, M-Pesa or card';
+    END IF;
+    IF v_deposit IS NULL OR v_deposit <= 0 THEN
+        RAISE EXCEPTION 'A layaway needs a deposit';
+    END IF;
+    IF v_deposit >= v_total_amount THEN
+        RAISE EXCEPTION 'The deposit (%) covers the whole total (%); record a sale instead', v_deposit, v_total_amount;
+    END IF;
+    IF v_method = 'mpesa' AND NULLIF(trim(p_deposit->>'reference'), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter the M-Pesa transaction code';
+    END IF;
+
+    v_branch_id := staff_branch_id(p_business_id, auth.uid());
+
+    INSERT INTO layaway_orders (business_id, branch_id, layaway_number, customer_name, customer_phone, total_amount, paid_amount, expires_at, created_by)
+    SELECT
+        p_business_id,
+        v_branch_id,
+        'LAY-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        trim(p_customer_name),
+        trim(p_customer_phone),
+        v_total_amount,
+        v_deposit,
+        now() + make_interval(days => b.layaway_days),
+        auth.uid()
+    FROM businesses b
+    WHERE b.id = p_business_id
+    RETURNING id INTO v_layaway_id;
+
+    -- The goods stay in stock; layaway_reserved_stock keeps them from being sold to someone else
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_quantity := (item->>'quantity')::numeric;
+        v_unit_price := (item->>'unit_price')::numeric;
+        v_discount := COALESCE((item->>'discount_amount')::numeric, 0);
+        SELECT COALESCE((SELECT conversion_factor FROM product_units WHERE id = (item->>'product_unit_id')::uuid AND product_id = (item->>'product_id')::uuid), 1)
+        INTO v_factor;
+
+        INSERT INTO layaway_items (layaway_id, product_id, product_unit_id, conversion_factor, quantity, unit_price, discount_amount, promotion_id, total_price)
+        VALUES (
+            v_layaway_id,
+            (item->>'product_id')::uuid,
+            (item->>'product_unit_id')::uuid,
+            v_factor,
+            v_quantity,
+            v_unit_price,
+            v_discount,
+            (item->>'promotion_id')::uuid,
+            sale_line_gross(item) - v_discount
+        );
+    END LOOP;
+
+    INSERT INTO layaway_payments (layaway_id, business_id, method, amount, reference, received_by)
+    VALUES (v_layaway_id, p_business_id, v_method, v_deposit, NULLIF(trim(p_deposit->>'reference'), ''), auth.uid());
+
+    RETURN v_layaway_id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.create_layaway(uuid, jsonb, text, text, jsonb) TO authenticated;
+
+/*
+  Takes an instalment. The payment that clears the balance completes the order: a sale is recorded with the
+  reserved goods and every payment made towards them, the goods leave stock, and the sale's id is returned
+  so a receipt can be printed. If the branch no longer has the goods, the final payment is refused.
+*/
+CREATE OR REPLACE FUNCTION public.record_layaway_payment(p_layaway_id uuid, p_method text, p_amount numeric, p_reference text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.layaway_orders%ROWTYPE;
+    v_amount numeric := round(p_amount, 2);
+    v_balance numeric;
+    v_sale_id uuid;
+    v_payment_method text;
+    v_item record;
+    v_factor int;
+    v_short record;
+BEGIN
+    SELECT * INTO v_order FROM layaway_orders WHERE id = p_layaway_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Layaway not found';
+    END IF;
+    IF v_order.status <> 'active' THEN
+        RAISE EXCEPTION 'Layaway % is %', v_order.layaway_number, v_order.status;
+    END IF;
+    IF v_order.expires_at < now() THEN
+        RAISE EXCEPTION 'Layaway % expired on %', v_order.layaway_number, to_char(v_order.expires_at, 'DD Mon YYYY');
+    END IF;
+
+    IF p_method IS NULL OR p_method NOT IN ('cash', 'mpesa', 'card') THEN
+        RAISE EXCEPTION 'Layaway payments are taken in cash, M-Pesa or card';
+    END IF;
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment amounts must be greater than zero';
+    END IF;
+    IF p_method = 'mpesa' AND NULLIF(trim(p_reference), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter the M-Pesa transaction code';
+    END IF;
+
+    v_balance := v_order.total_amount - v_order.paid_amount;
+    IF v_amount > v_balance THEN
+        RAISE EXCEPTION 'The payment (%) is more than the balance of % on layaway %', v_amount, v_balance, v_order.layaway_number;
+    END IF;
+
+    INSERT INTO layaway_payments (layaway_id, business_id, method, amount, reference, received_by)
+    VALUES (v_order.id, v_order.business_id, p_method, v_amount, NULLIF(trim(p_reference), ''), auth.uid());
+
+    v_balance := v_balance - v_amount;
+    UPDATE layaway_orders SET paid_amount = paid_amount + v_amount WHERE id = v_order.id;
+
+    IF v_balance = 0 THEN
+        -- Stock can be adjusted, counted or transferred away while goods are held, so check the branch still
+        -- has them. Products and then branch stock are locked in product order, as sales lock them, so a
+        -- checkout or dispatch running alongside waits instead of taking the same goods.
+        PERFORM 1
+        FROM products
+        WHERE id IN (SELECT r.product_id FROM layaway_reserved_stock(v_order.business_id) r WHERE r.branch_id = v_order.branch_id)
+        ORDER BY id
+        FOR UPDATE;
+        PERFORM 1
+        FROM branch_stock
+        WHERE branch_id = v_order.branch_id
+          AND product_id IN (SELECT r.product_id FROM layaway_reserved_stock(v_order.business_id) r WHERE r.branch_id = v_order.branch_id)
+        ORDER BY product_id
+        FOR UPDATE;
+
+        -- What this order needs against what the branch holds less the goods other orders are holding
+        SELECT p.name, n.quantity AS needed, COALESCE(bs.quantity, 0) - (r.quantity - n.quantity) AS available
+        INTO v_short
+        FROM (
+            SELECT COALESCE(c.component_product_id, li.product_id) AS product_id, SUM(li.quantity * li.conversion_factor * COALESCE(c.quantity, 1)) AS quantity
+            FROM layaway_items li
+            LEFT JOIN products b ON b.id = li.product_id AND b.is_bundle
+            LEFT JOIN product_bundle_components c ON c.bundle_product_id = b.id
+            WHERE li.layaway_id = v_order.id
+            GROUP BY 1
+        ) n
+        JOIN products p ON p.id = n.product_id
+        JOIN layaway_reserved_stock(v_order.business_id) r ON r.product_id = n.product_id AND r.branch_id = v_order.branch_id
+        LEFT JOIN branch_stock bs ON bs.product_id = n.product_id AND bs.branch_id = v_order.branch_id
+        WHERE COALESCE(bs.quantity, 0) - (r.quantity - n.quantity) < n.quantity
+        ORDER BY p.name
+        LIMIT 1;
+        IF FOUND THEN
+            RAISE EXCEPTION 'Layaway % needs % of % but the branch only has % left for it. Restock or transfer it in before taking the final payment.',
+                v_order.layaway_number, v_short.needed, v_short.name, GREATEST(v_short.available, 0);
+        END IF;
+
+        SELECT CASE WHEN COUNT(DISTINCT method) > 1 THEN 'split' ELSE MIN(method) END
+        INTO v_payment_method
+        FROM layaway_payments WHERE layaway_id = v_order.id;
+
+        INSERT INTO sales (business_id, cashier_id, branch_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number)
+        VALUES (
+            v_order.business_id,
+            auth.uid(),
+            v_order.branch_id,
+            v_order.customer_name,
+            v_order.customer_phone,
+            v_order.total_amount,
+            v_payment_method,
+            (SELECT reference FROM layaway_payments WHERE layaway_id = v_order.id AND method = 'mpesa' ORDER BY created_at DESC LIMIT 1),
+            'RCPT-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6)
+        )
+        RETURNING id INTO v_sale_id;
+
+        INSERT INTO sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        SELECT v_sale_id, method, amount, amount, 0, reference
+        FROM layaway_payments
+        WHERE layaway_id = v_order.id
+        ORDER BY created_at;
+
+        -- Completing the order releases its reservation in the same step as the goods leave stock
+        UPDATE layaway_orders
+        SET status = 'completed', sale_id = v_sale_id, closed_at = now()
+        WHERE id = v_order.id;
+
+        FOR v_item IN SELECT * FROM layaway_items WHERE layaway_id = v_order.id ORDER BY product_id
+        LOOP
+            INSERT INTO sale_items (sale_id, product_id, quantity, unit_price, total_price, discount_amount, promotion_id, product_unit_id)
+            VALUES (v_sale_id, v_item.product_id, v_item.quantity, v_item.unit_price, v_item.total_price, v_item.discount_amount, v_item.promotion_id, v_item.product_unit_id)
+            RETURNING conversion_factor INTO v_factor;
+
+            PERFORM apply_stock_movement(v_order.business_id, v_item.product_id, 'sale', -v_item.quantity * v_factor, 'sale', v_sale_id);
+        END LOOP;
+    END IF;
+
+    RETURN jsonb_build_object('paid_amount', v_order.paid_amount + v_amount, 'balance', v_balance, 'sale_id', v_sale_id);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.record_layaway_payment(uuid, text, numeric, text) TO authenticated;
+
+/*
+  Cancels an active or expired order, which puts any goods it still holds back on sale. When p_refund_method is given,
+  everything paid is refunded with it and shows as a negative deposit on the refunding member's shift.
+*/
+CREATE OR REPLACE FUNCTION public.cancel_layaway(p_layaway_id uuid, p_refund_method text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.layaway_orders%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order FROM layaway_orders WHERE id = p_layaway_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Layaway not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_order.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only owners and managers can cancel a layaway';
+    END IF;
+
+    IF v_order.status NOT IN ('active', 'expired') THEN
+        RAISE EXCEPTION 'Layaway % is %', v_order.layaway_number, v_order.status;
+    END IF;
+
+    IF p_refund_method IS NOT NULL AND p_refund_method NOT IN ('cash', 'mpesa', 'card') THEN
+        RAISE EXCEPTION 'Refunds are made in cash, M-Pesa or card';
+    END IF;
+
+    IF p_refund_method IS NOT NULL AND v_order.paid_amount > 0 THEN
+        INSERT INTO layaway_payments (layaway_id, business_id, method, amount, received_by)
+        VALUES (v_order.id, v_order.business_id, p_refund_method, -v_order.paid_amount, auth.uid());
+        v_order.paid_amount := 0;
+    END IF;
+
+    UPDATE layaway_orders
+    SET status = 'cancelled', paid_amount = v_order.paid_amount, closed_at = now()
+    WHERE id = v_order.id;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.cancel_layaway(uuid, text) TO authenticated;
+
+/*
+  Marks the business's orders that were not paid off in time as expired. Their goods went back on sale when
+  the period ended; this only brings the status up to date, and runs whenever layaways are listed or created.
+  Deposits are kept until a manager cancels the order with a refund. Returns how many orders expired.
+*/
+CREATE OR REPLACE FUNCTION public.expire_layaway_orders(p_business_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count integer;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    UPDATE layaway_orders
+    SET status = 'expired', closed_at = expires_at
+    WHERE business_id = p_business_id AND status = 'active' AND expires_at <= now();
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN v_count;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.expire_layaway_orders(uuid) TO authenticated;
+
+/*
+  The X report of an open shift or the Z report of a closed one. Takings per tender are recalculated,
+  but a closed shift's expected and counted amounts come from what was stored when it closed.
+  Expected amounts and variances are left out for anyone who is not an owner or manager.
+  Layaway payments are counted as deposits when taken, so the sales that complete layaways are left out.
+*/
+CREATE OR REPLACE FUNCTION public.get_cash_shift_report(p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift cash_shifts;
+    v_is_manager boolean;
+    v_paid_in numeric;
+    v_paid_out numeric;
+    v_tenders jsonb;
+BEGIN
+    SELECT * INTO v_shift FROM cash_shifts WHERE id = p_shift_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Shift not found';
+    END IF;
+
+    v_is_manager := EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_shift.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    );
+    IF v_shift.cashier_id <> auth.uid() AND NOT v_is_manager THEN
+        RAISE EXCEPTION 'Only the shift''s cashier or a manager can view this shift';
+    END IF;
+
+    SELECT COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_in'), 0),
+           COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+    INTO v_paid_in, v_paid_out
+    FROM cash_movements WHERE shift_id = p_shift_id;
+
+    WITH takings AS (
+        SELECT m.method, m.sort_order,
+               COALESCE((SELECT SUM(sp.amount) FROM sale_payments sp JOIN sales s ON s.id = sp.sale_id
+                         WHERE s.shift_id = p_shift_id AND sp.method = m.method
+                           AND NOT EXISTS (SELECT 1 FROM layaway_orders lo WHERE lo.sale_id = s.id)), 0) AS sales,
+               COALESCE((SELECT SUM(r.total_amount) FROM sale_returns r
+                         WHERE r.shift_id = p_shift_id AND r.status = 'completed' AND r.refund_method = m.method), 0) AS refunds,
+               COALESCE((SELECT SUM(cp.amount) FROM customer_payments cp
+                         WHERE cp.shift_id = p_shift_id AND cp.method = m.method), 0) AS repayments,
+               COALESCE((SELECT SUM(lp.amount) FROM layaway_payments lp
+                         WHERE lp.shift_id = p_shift_id AND lp.method = m.method), 0) AS deposits
+        FROM (VALUES ('cash', 1), ('mpesa', 2), ('card', 3), ('account', 4)) AS m(method, sort_order)
+    ), expected AS (
+        SELECT t.*,
+               CASE
+                   WHEN v_shift.status = 'closed' THEN ct.expected_amount
+                   WHEN t.method = 'cash' THEN v_shift.opening_float + v_paid_in - v_paid_out + t.sales - t.refunds + t.repayments + t.deposits
+                   ELSE t.sales - t.refunds + t.repayments + t.deposits
+               END AS expected_amount,
+               ct.counted_amount
+        FROM takings t
+        LEFT JOIN cash_shift_tenders ct ON ct.shift_id = p_shift_id AND ct.method = t.method
+    )
+    SELECT jsonb_agg(
+        jsonb_build_object(
+            'method', e.method,
+            'sales', e.sales,
+            'refunds', e.refunds,
+            'repayments', e.repayments,
+            'deposits', e.deposits,
+            'counted', e.counted_amount
+        ) || CASE WHEN v_is_manager THEN jsonb_build_object(
+            'expected', e.expected_amount,
+            'variance', e.counted_amount - e.expected_amount
+        ) ELSE '{}'::jsonb END
+        ORDER BY e.sort_order
+    )
+    INTO v_tenders
+    FROM expected e
+    WHERE e.method = 'cash' OR e.sales <> 0 OR e.refunds <> 0 OR e.repayments <> 0 OR e.deposits <> 0 OR e.counted_amount IS NOT NULL;
+
+    RETURN jsonb_build_object(
+        'shift_id', v_shift.id,
+        'shift_number', v_shift.shift_number,
+        'status', v_shift.status,
+        'cashier_name', (SELECT COALESCE(full_name, email) FROM profiles WHERE id = v_shift.cashier_id),
+        'opened_at', v_shift.opened_at,
+        'closed_at', v_shift.closed_at,
+        'opening_float', v_shift.opening_float,
+        'paid_in', v_paid_in,
+        'paid_out', v_paid_out,
+        'sale_count', (SELECT count(*) FROM sales WHERE shift_id = p_shift_id),
+        'denomination_counts', v_shift.denomination_counts,
+        'notes', v_shift.notes,
+        'can_see_variance', v_is_manager,
+        'tenders', COALESCE(v_tenders, '[]'::jsonb),
+        'movements', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('movement_type', movement_type, 'amount', amount, 'reason', reason, 'created_at', created_at) ORDER BY created_at)
+            FROM cash_movements WHERE shift_id = p_shift_id
+        ), '[]'::jsonb)
+    );
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.get_cash_shift_report(uuid) TO authenticated;
+
+/*
+  Closes a shift with the drawer count. p_denominations maps each note or coin value to how many were
+  counted, e.g. {"1000": 3, "50": 4}. p_counted holds totals for the other tenders, e.g. {"mpesa": 5200}.
+*/
+CREATE OR REPLACE FUNCTION public.close_cash_shift(p_shift_id uuid, p_denominations jsonb, p_counted jsonb DEFAULT '{}'::jsonb, p_notes text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift cash_shifts;
+    v_paid_in numeric;
+    v_paid_out numeric;
+    v_counted_cash numeric;
+BEGIN
+    v_shift := lock_open_cash_shift(p_shift_id);
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_each_text(COALESCE(p_denominations, '{}'::jsonb)) d
+        WHERE d.key !~ '^[0-9]+(\.[0-9]+)?$' OR d.value !~ '^[0-9]+$'
+    ) THEN
+        RAISE EXCEPTION 'Denomination counts must be whole numbers';
+    END IF;
+
+    SELECT COALESCE(SUM(d.key::numeric * d.value::integer), 0) INTO v_counted_cash
+    FROM jsonb_each_text(COALESCE(p_denominations, '{}'::jsonb)) d;
+
+    SELECT COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_in'), 0),
+           COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+    INTO v_paid_in, v_paid_out
+    FROM cash_movements WHERE shift_id = p_shift_id;
+
+    INSERT INTO cash_shift_tenders (shift_id, method, expected_amount, counted_amount)
+    SELECT p_shift_id,
+           m.method,
+           CASE WHEN m.method = 'cash' THEN v_shift.opening_float + v_paid_in - v_paid_out ELSE 0 END
+             + COALESCE((SELECT SUM(sp.amount) FROM sale_payments sp JOIN sales s ON s.id = sp.sale_id
+                         WHERE s.shift_id = p_shift_id AND sp.method = m.method
+                           AND NOT EXISTS (SELECT 1 FROM layaway_orders lo WHERE lo.sale_id = s.id)), 0)
+             - COALESCE((SELECT SUM(r.total_amount) FROM sale_returns r
+                         WHERE r.shift_id = p_shift_id AND r.status = 'completed' AND r.refund_method = m.method), 0)
+             + COALESCE((SELECT SUM(cp.amount) FROM customer_payments cp
+                         WHERE cp.shift_id = p_shift_id AND cp.method = m.method), 0)
+             + COALESCE((SELECT SUM(lp.amount) FROM layaway_payments lp
+                         WHERE lp.shift_id = p_shift_id AND lp.method = m.method), 0),
+           -- Account sales are owed by customers, not held anywhere, so there is nothing to count
+           CASE
+               WHEN m.method = 'cash' THEN v_counted_cash
+               WHEN m.method = 'account' THEN NULL
+               ELSE (p_counted->>m.method)::numeric
+           END
+    FROM (VALUES ('cash'), ('mpesa'), ('card'), ('account')) AS m(method);
+
+    UPDATE cash_shifts
+    SET status = 'closed',
+        denomination_counts = p_denominations,
+        notes = NULLIF(trim(p_notes), ''),
+        closed_at = now(),
+        closed_by = auth.uid()
+    WHERE id = p_shift_id;
+
+    RETURN get_cash_shift_report(p_shift_id);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.close_cash_shift(uuid, jsonb, jsonb, text) TO authenticated;
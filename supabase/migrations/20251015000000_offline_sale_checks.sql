@@ -0,0 +1,195 @@
+/*
+# [Offline Sale Checks]
+Checks sales synced from the offline outbox against the same price, discount and stock rules as sales made online.
+
+## Query Description:
+`sync_offline_sale` now runs `validate_sale_items` on each uploaded sale, as the cashier who rang it up and at their branch. Lines that could never be recorded (quantities of zero or less, fractions of products not sold by weight, scale label prices that do not match their weight, selling units that do not exist, discounts larger than the line) reject the sale, and it stays in the device's outbox with the error. A sale that happened but broke a rule the till could not check offline is still recorded, and each broken rule is logged in `offline_sale_conflicts` for a manager to review: stock short at the branch (after goods held for layaways), a price other than the selling price for a cashier who may not override prices, a manual discount above the cashier's limit, or a promotion that was not running. Before this, shortfalls were checked against stock across all branches and prices and discounts were not checked at all. Payments must each be more than zero, and cash tendered must cover the cash amount. Existing conflicts are kept as stock conflicts.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds columns `code` and `details` to `offline_sale_conflicts`; `requested` and `available` become optional.
+- Replaces `sync_offline_sale`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Prices, discounts and promotions on synced sales are held to the syncing member's role, as at checkout.
+
+## Performance Impact:
+- Indexes: None.
+- Triggers: None.
+- Estimated Impact: Low. Syncing a sale runs the same checks as checkout.
+*/
+
+ALTER TABLE public.offline_sale_conflicts ADD COLUMN IF NOT EXISTS code text NOT NULL DEFAULT 'insufficient_stock'
+    CHECK (code IN ('insufficient_stock', 'price_mismatch', 'discount_exceeds_limit', 'promotion_not_applicable'));
+ALTER TABLE public.offline_sale_conflicts ADD COLUMN IF NOT EXISTS details jsonb;
+ALTER TABLE public.offline_sale_conflicts ALTER COLUMN requested DROP NOT NULL, ALTER COLUMN available DROP NOT NULL;
+
+/*
+  Records a sale that was queued offline. Returns
+  { "sale_id", "receipt_number", "duplicate": bool, "conflicts": [{ "product_id", "name", "code", ... }] }
+  where each conflict carries the fields `validate_sale_items` reports for its code.
+*/
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+    p_business_id uuid,
+    p_client_sale_id uuid,
+    p_receipt_number text,
+    p_items jsonb,
+    p_payments jsonb,
+    p_sold_at timestamptz,
+    p_customer_name text DEFAULT NULL,
+    p_customer_phone text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_existing public.sales%ROWTYPE;
+    v_sale_id uuid;
+    v_total_amount numeric := 0;
+    v_paid_amount numeric := 0;
+    v_payment_method text;
+    v_mpesa_code text;
+    v_conflicts jsonb := '[]'::jsonb;
+    v_errors jsonb;
+    item jsonb;
+    payment jsonb;
+    v_amount numeric;
+    v_tendered numeric;
+    v_factor int;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    -- A retry after a dropped response must not record the sale twice
+    SELECT * INTO v_existing FROM sales WHERE client_sale_id = p_client_sale_id;
+    IF FOUND THEN
+        SELECT COALESCE(jsonb_agg(COALESCE(c.details, '{}'::jsonb) || jsonb_build_object(
+            'product_id', c.product_id, 'name', p.name, 'code', c.code, 'requested', c.requested, 'available', c.available
+        )), '[]'::jsonb)
+        INTO v_conflicts
+        FROM offline_sale_conflicts c
+        JOIN products p ON p.id = c.product_id
+        WHERE c.sale_id = v_existing.id;
+
+        RETURN jsonb_build_object('sale_id', v_existing.id, 'receipt_number', v_existing.receipt_number, 'duplicate', true, 'conflicts', v_conflicts);
+    END IF;
+
+    PERFORM 1
+    FROM products
+    WHERE id IN (SELECT d.product_id FROM sale_stock_demand(p_items) d)
+    ORDER BY id
+    FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM sale_stock_demand(p_items) r
+        WHERE NOT EXISTS (SELECT 1 FROM products p WHERE p.id = r.product_id AND p.business_id = p_business_id)
+    ) THEN
+        RAISE EXCEPTION 'A product in this sale no longer exists in this business';
+    END IF;
+
+    -- The sale is checked as if it were rung up now, at the cashier's branch. Lines that could never be
+    -- recorded are rejected. Stock shortfalls, prices, discounts and promotions that differ from the
+    -- server's rules are recorded for a manager to review rather than rejected: the goods have already
+    -- left the shop at the price the customer paid. Products deactivated since are not checked further.
+    v_errors := validate_sale_items(p_business_id, auth.uid(), p_items);
+
+    IF EXISTS (SELECT 1 FROM jsonb_array_elements(v_errors) e WHERE e->>'code' IN ('invalid_quantity', 'fractional_quantity', 'invalid_line_total', 'unit_not_found', 'invalid_discount')) THEN
+        RAISE EXCEPTION USING
+            MESSAGE = 'Some items in this sale cannot be recorded as entered',
+            DETAIL = v_errors::text,
+            HINT = 'sale_validation_failed';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(e), '[]'::jsonb) INTO v_conflicts
+    FROM jsonb_array_elements(v_errors) e
+    WHERE e->>'code' IN ('insufficient_stock', 'price_mismatch', 'discount_exceeds_limit', 'promotion_not_applicable');
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_total_amount := v_total_amount + sale_line_gross(item) - COALESCE((item->>'discount_amount')::numeric, 0);
+    END LOOP;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero';
+        END IF;
+        IF payment->>'method' = 'cash' AND COALESCE((payment->>'tendered')::numeric, v_amount) < v_amount THEN
+            RAISE EXCEPTION 'Cash tendered (%) is less than the cash amount due (%)', payment->>'tendered', v_amount;
+        END IF;
+        v_paid_amount := v_paid_amount + v_amount;
+    END LOOP;
+
+    IF jsonb_array_length(p_payments) = 0 OR round(v_paid_amount, 2) <> round(v_total_amount, 2) THEN
+        RAISE EXCEPTION 'Payments (%) do not add up to the sale total (%)', v_paid_amount, v_total_amount;
+    END IF;
+
+    IF jsonb_array_length(p_payments) > 1 THEN
+        v_payment_method := 'split';
+    ELSE
+        v_payment_method := p_payments->0->>'method';
+    END IF;
+
+    SELECT p->>'reference' INTO v_mpesa_code
+    FROM jsonb_array_elements(p_payments) p
+    WHERE p->>'method' = 'mpesa'
+    LIMIT 1;
+
+    INSERT INTO sales (business_id, cashier_id, customer_name, customer_phone, total_amount, payment_method, mpesa_code, receipt_number, client_sale_id, created_at)
+    VALUES (p_business_id, auth.uid(), p_customer_name, p_customer_phone, v_total_amount, v_payment_method, v_mpesa_code, p_receipt_number, p_client_sale_id, p_sold_at)
+    RETURNING id INTO v_sale_id;
+
+    FOR payment IN SELECT * FROM jsonb_array_elements(p_payments)
+    LOOP
+        v_amount := (payment->>'amount')::numeric;
+        v_tendered := COALESCE((payment->>'tendered')::numeric, v_amount);
+
+        INSERT INTO sale_payments (sale_id, method, amount, tendered_amount, change_amount, reference)
+        VALUES (
+            v_sale_id,
+            payment->>'method',
+            v_amount,
+            v_tendered,
+            CASE WHEN payment->>'method' = 'cash' THEN v_tendered - v_amount ELSE 0 END,
+            payment->>'reference'
+        );
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        -- Prices and discounts given offline are kept as recorded, and any outside the rules are in v_conflicts
+        INSERT INTO sale_items (sale_id, product_id, quantity, unit_price, total_price, discount_amount, promotion_id, product_unit_id)
+        VALUES (
+            v_sale_id,
+            (item->>'product_id')::uuid,
+            (item->>'quantity')::numeric,
+            (item->>'unit_price')::numeric,
+            sale_line_gross(item) - COALESCE((item->>'discount_amount')::numeric, 0),
+            COALESCE((item->>'discount_amount')::numeric, 0),
+            (item->>'promotion_id')::uuid,
+            (item->>'product_unit_id')::uuid
+        )
+        RETURNING conversion_factor INTO v_factor;
+
+        PERFORM apply_stock_movement(p_business_id, (item->>'product_id')::uuid, 'sale', -(item->>'quantity')::numeric * v_factor, 'sale', v_sale_id, 'Offline sale');
+    END LOOP;
+
+    INSERT INTO offline_sale_conflicts (business_id, sale_id, product_id, code, requested, available, details)
+    SELECT p_business_id, v_sale_id, (c->>'product_id')::uuid, c->>'code', (c->>'requested')::numeric, (c->>'available')::numeric, c
+    FROM jsonb_array_elements(v_conflicts) c;
+
+    RETURN jsonb_build_object('sale_id', v_sale_id, 'receipt_number', p_receipt_number, 'duplicate', false, 'conflicts', v_conflicts);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.sync_offline_sale(uuid, uuid, text, jsonb, jsonb, timestamptz, text, text) TO authenticated;
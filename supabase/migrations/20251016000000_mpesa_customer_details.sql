@@ -0,0 +1,109 @@
+/*
+# [M-Pesa Sale Customers]
+Keeps the customer entered at checkout on sales paid by M-Pesa.
+
+## Query Description:
+M-Pesa requests now store the customer name and phone entered at checkout, and `complete_mpesa_payment` records the sale against them. Before this, the sale was linked to the phone that paid, which is often not the customer's (a relative or an employer paying), and the name was dropped. The paying phone is still used when no customer was entered. Existing requests are unchanged.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Adds columns `customer_name` and `customer_phone` to `mpesa_payment_requests`.
+- Replaces `complete_mpesa_payment`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Unchanged.
+
+## Performance Impact:
+- Indexes: None.
+- Triggers: None.
+- Estimated Impact: Negligible.
+*/
+
+ALTER TABLE public.mpesa_payment_requests ADD COLUMN IF NOT EXISTS customer_name text;
+ALTER TABLE public.mpesa_payment_requests ADD COLUMN IF NOT EXISTS customer_phone text;
+
+CREATE OR REPLACE FUNCTION public.complete_mpesa_payment(
+    p_checkout_request_id text,
+    p_result_code integer,
+    p_result_desc text,
+    p_mpesa_receipt_number text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_request public.mpesa_payment_requests%ROWTYPE;
+    v_sale_id uuid;
+BEGIN
+    SELECT * INTO v_request
+    FROM public.mpesa_payment_requests
+    WHERE checkout_request_id = p_checkout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No M-Pesa request found for checkout request %', p_checkout_request_id;
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RETURN v_request.sale_id;
+    END IF;
+
+    IF p_result_code = 0 THEN
+        BEGIN
+            v_sale_id := public.create_sale_and_items(
+                p_business_id => v_request.business_id,
+                p_cashier_id => v_request.cashier_id,
+                p_items => v_request.items,
+                -- The payer's phone only stands in for the customer when none was entered at checkout
+                p_customer_name => v_request.customer_name,
+                p_customer_phone => COALESCE(NULLIF(v_request.customer_phone, ''), v_request.phone),
+                p_payments => v_request.payments || jsonb_build_array(jsonb_build_object(
+                    'method', 'mpesa',
+                    'amount', v_request.amount,
+                    'reference', p_mpesa_receipt_number
+                ))
+            );
+        EXCEPTION WHEN OTHERS THEN
+            -- The customer has paid but stock ran out meanwhile; keep the receipt so it can be refunded.
+            UPDATE public.mpesa_payment_requests
+            SET status = 'failed',
+                result_code = p_result_code,
+                result_desc = 'Paid but the sale could not be recorded: ' || SQLERRM,
+                mpesa_receipt_number = p_mpesa_receipt_number,
+                updated_at = now()
+            WHERE id = v_request.id;
+            RETURN NULL;
+        END;
+
+        UPDATE public.mpesa_payment_requests
+        SET status = 'completed',
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            mpesa_receipt_number = p_mpesa_receipt_number,
+            sale_id = v_sale_id,
+            updated_at = now()
+        WHERE id = v_request.id;
+    ELSE
+        -- 1032 is Daraja's "request cancelled by user" result code.
+        UPDATE public.mpesa_payment_requests
+        SET status = CASE WHEN p_result_code = 1032 THEN 'cancelled'::public.mpesa_request_status_enum ELSE 'failed'::public.mpesa_request_status_enum END,
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            updated_at = now()
+        WHERE id = v_request.id;
+    END IF;
+
+    RETURN v_sale_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_mpesa_payment(text, integer, text, text) TO service_role;
@@ -0,0 +1,135 @@
+/*
+# [Product Import by Branch]
+Makes the stock column of a product import the stock at one branch.
+
+## Query Description:
+`import_products` takes the branch the file was counted at, defaulting to the default branch. Each product's stock in the file is compared with what `branch_stock` holds at that branch, and the difference is posted there as an adjustment; opening stock for new products is posted there too. Before this, the file was compared with the total across branches and the difference posted to the default branch, so with more than one branch, importing an unchanged export moved stock between branches. The export now writes one branch's stock to match. Single-branch businesses see no change.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Replaces `import_products(uuid, jsonb)` with `import_products(uuid, jsonb, uuid)`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Unchanged; only owners and managers can import.
+
+## Performance Impact:
+- Indexes: None.
+- Triggers: None.
+- Estimated Impact: Negligible.
+*/
+
+DROP FUNCTION IF EXISTS public.import_products(uuid, jsonb);
+CREATE OR REPLACE FUNCTION public.import_products(p_business_id uuid, p_rows jsonb, p_branch_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_row jsonb;
+    v_sku text;
+    v_name text;
+    v_price numeric;
+    v_stock numeric;
+    v_product_id uuid;
+    v_current_stock numeric;
+    v_matches integer;
+    v_branch_id uuid;
+    v_created integer := 0;
+    v_updated integer := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = p_business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) THEN
+        RAISE EXCEPTION 'Only an owner or manager can import products';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_rows) r
+        GROUP BY trim(r->>'sku') HAVING count(*) > 1
+    ) THEN
+        RAISE EXCEPTION 'The import contains the same SKU more than once';
+    END IF;
+
+    v_branch_id := COALESCE(p_branch_id, default_branch_id(p_business_id));
+    IF NOT EXISTS (SELECT 1 FROM branches WHERE id = v_branch_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Branch not found in this business';
+    END IF;
+    -- Stock quantities in the file are what is on hand at this branch; the differences are posted there
+    PERFORM set_config('app.branch_id', v_branch_id::text, true);
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+        v_sku := NULLIF(trim(v_row->>'sku'), '');
+        v_name := NULLIF(trim(v_row->>'name'), '');
+        v_price := (v_row->>'selling_price')::numeric;
+        v_stock := (v_row->>'stock_quantity')::numeric;
+
+        IF v_sku IS NULL OR v_name IS NULL OR v_price IS NULL OR v_price < 0 THEN
+            RAISE EXCEPTION 'Row with SKU % needs a name and a selling price', COALESCE(v_sku, '(blank)');
+        END IF;
+        IF v_stock < 0 OR (v_row->>'min_stock_level')::integer < 0 OR (v_row->>'buying_price')::numeric < 0 THEN
+            RAISE EXCEPTION 'Row with SKU % has a negative quantity or price', v_sku;
+        END IF;
+
+        SELECT count(*), min(id::text)::uuid INTO v_matches, v_product_id
+        FROM products WHERE business_id = p_business_id AND sku = v_sku;
+
+        IF v_matches > 1 THEN
+            RAISE EXCEPTION 'SKU % matches more than one product', v_sku;
+        ELSIF v_matches = 1 THEN
+            PERFORM 1 FROM products WHERE id = v_product_id FOR UPDATE;
+            SELECT COALESCE((SELECT quantity FROM branch_stock WHERE branch_id = v_branch_id AND product_id = v_product_id), 0)
+            INTO v_current_stock;
+
+            UPDATE products SET
+                name = v_name,
+                selling_price = v_price,
+                category = COALESCE(NULLIF(trim(v_row->>'category'), ''), category),
+                unit = COALESCE(NULLIF(trim(v_row->>'unit'), ''), unit),
+                buying_price = COALESCE((v_row->>'buying_price')::numeric, buying_price),
+                min_stock_level = COALESCE((v_row->>'min_stock_level')::integer, min_stock_level),
+                updated_at = now()
+            WHERE id = v_product_id;
+
+            IF v_stock IS NOT NULL AND v_stock <> v_current_stock THEN
+                PERFORM apply_stock_movement(p_business_id, v_product_id, 'adjustment', v_stock - v_current_stock, NULL, NULL, 'Bulk import');
+            END IF;
+            v_updated := v_updated + 1;
+        ELSE
+            INSERT INTO products (business_id, sku, name, category, unit, buying_price, selling_price, stock_quantity, min_stock_level, is_active)
+            VALUES (
+                p_business_id, v_sku, v_name,
+                NULLIF(trim(v_row->>'category'), ''),
+                COALESCE(NULLIF(trim(v_row->>'unit'), ''), 'piece'),
+                (v_row->>'buying_price')::numeric,
+                v_price,
+                0,
+                COALESCE((v_row->>'min_stock_level')::integer, 0),
+                true
+            )
+            RETURNING id INTO v_product_id;
+
+            -- Opening stock goes through the ledger so it lands at the import's branch
+            IF COALESCE(v_stock, 0) > 0 THEN
+                PERFORM apply_stock_movement(p_business_id, v_product_id, 'opening', v_stock, NULL, NULL, 'Opening stock');
+            END IF;
+            v_created := v_created + 1;
+        END IF;
+    END LOOP;
+
+    PERFORM set_config('app.branch_id', '', true);
+
+    RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_products(uuid, jsonb, uuid) TO authenticated;
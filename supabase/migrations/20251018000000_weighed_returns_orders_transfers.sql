@@ -0,0 +1,636 @@
+/*
+# [Weighed Returns, Orders and Transfers]
+Checks returned quantities the way sales are checked, and lets weighed goods be ordered, received and transferred by weight.
+
+## Query Description:
+`create_sale_return` now applies the rule `validate_sale_items` uses for sales: a fractional quantity is only accepted for a weighed product sold loose, to the gram. Before this, half a bottle of a product sold in whole units could be returned and restocked. Negative return quantities are refused as well. Purchase order lines, goods received and stock transfer lines become decimals to the gram, so a butchery can order 12.5 kg and a branch can send 3.250 kg to another; products that are not weighed are still ordered, received and transferred in whole units, and any other fraction is refused with the product's name. Goods received and order totals round each line to the cent.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Medium"]
+- Requires-Backup: true
+- Reversible: false
+
+## Structure Details:
+- Changes `purchase_order_items.quantity_ordered`, `purchase_order_items.quantity_received`, `goods_received_items.quantity`, `stock_transfer_items.quantity_requested`, `stock_transfer_items.quantity_dispatched` and `stock_transfer_items.quantity_received` to `numeric(12, 3)`.
+- Replaces `create_sale_return`, `create_purchase_order`, `update_draft_purchase_order`, `receive_purchase_order`, `create_stock_transfer`, `dispatch_stock_transfer` and `receive_stock_transfer`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Unchanged.
+
+## Performance Impact:
+- Indexes: None.
+- Triggers: None.
+- Estimated Impact: Low while the tables are rewritten; negligible afterwards.
+*/
+
+ALTER TABLE public.purchase_order_items
+    ALTER COLUMN quantity_ordered TYPE numeric(12, 3),
+    ALTER COLUMN quantity_received TYPE numeric(12, 3);
+ALTER TABLE public.goods_received_items ALTER COLUMN quantity TYPE numeric(12, 3);
+ALTER TABLE public.stock_transfer_items
+    ALTER COLUMN quantity_requested TYPE numeric(12, 3),
+    ALTER COLUMN quantity_dispatched TYPE numeric(12, 3),
+    ALTER COLUMN quantity_received TYPE numeric(12, 3);
+
+CREATE OR REPLACE FUNCTION public.create_sale_return(
+    p_sale_id uuid,
+    p_items jsonb,
+    p_reason_code text,
+    p_refund_method text DEFAULT 'cash',
+    p_notes text DEFAULT NULL,
+    p_is_void boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale public.sales%ROWTYPE;
+    v_user_id uuid := auth.uid();
+    v_is_manager boolean;
+    v_return_id uuid;
+    v_status public.sale_return_status_enum;
+    v_total numeric := 0;
+    v_line record;
+    v_requested numeric;
+    v_refund numeric;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_sale.business_id, v_user_id) THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM sale_returns WHERE sale_id = p_sale_id AND return_type = 'void' AND status <> 'rejected') THEN
+        RAISE EXCEPTION 'Sale % has already been voided', v_sale.receipt_number;
+    END IF;
+
+    SELECT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_sale.business_id AND user_id = v_user_id AND is_active = true AND role IN ('owner', 'manager')
+    ) INTO v_is_manager;
+
+    v_status := CASE WHEN p_is_void AND NOT v_is_manager THEN 'pending_approval' ELSE 'completed' END;
+
+    INSERT INTO sale_returns (business_id, sale_id, return_number, return_type, status, reason_code, notes, total_amount, refund_method, processed_by, approved_by, approved_at)
+    VALUES (
+        v_sale.business_id,
+        p_sale_id,
+        'RTN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        CASE WHEN p_is_void THEN 'void' ELSE 'return' END::public.sale_return_type_enum,
+        v_status,
+        p_reason_code,
+        p_notes,
+        0,
+        p_refund_method,
+        v_user_id,
+        CASE WHEN p_is_void AND v_is_manager THEN v_user_id END,
+        CASE WHEN p_is_void AND v_is_manager THEN now() END
+    )
+    RETURNING id INTO v_return_id;
+
+    -- Quantities still returnable per line exclude completed and pending returns
+    FOR v_line IN
+        SELECT si.id, si.product_id, si.quantity, si.total_price, si.conversion_factor, si.product_unit_id, p.name, p.is_weighed,
+               si.quantity - COALESCE((
+                   SELECT SUM(ri.quantity) FROM sale_return_items ri
+                   JOIN sale_returns r ON r.id = ri.return_id
+                   WHERE ri.sale_item_id = si.id AND r.status <> 'rejected' AND r.id <> v_return_id
+               ), 0) AS returnable
+        FROM sale_items si
+        JOIN products p ON p.id = si.product_id
+        WHERE si.sale_id = p_sale_id
+    LOOP
+        IF p_is_void THEN
+            v_requested := v_line.returnable;
+        ELSE
+            SELECT COALESCE(SUM((x->>'quantity')::numeric), 0) INTO v_requested
+            FROM jsonb_array_elements(p_items) x
+            WHERE (x->>'sale_item_id')::uuid = v_line.id;
+        END IF;
+
+        IF v_requested < 0 THEN
+            RAISE EXCEPTION 'Returned quantities cannot be negative';
+        END IF;
+        -- The same rule as validate_sale_items: only loose weighed products come back in fractions
+        IF v_requested <> trunc(v_requested)
+           AND (NOT v_line.is_weighed OR v_line.product_unit_id IS NOT NULL OR v_requested <> round(v_requested, 3)) THEN
+            RAISE EXCEPTION '% is returned in whole units', v_line.name;
+        END IF;
+
+        IF v_requested > v_line.returnable THEN
+            RAISE EXCEPTION 'Cannot return % of a line that only has % left to return', v_requested, v_line.returnable;
+        END IF;
+
+        IF v_requested > 0 THEN
+            -- Refund the price actually paid, so discounted lines are refunded net of their discount
+            v_refund := round(v_line.total_price * v_requested / v_line.quantity, 2);
+            INSERT INTO sale_return_items (return_id, sale_item_id, product_id, quantity, unit_price, total_price)
+            VALUES (v_return_id, v_line.id, v_line.product_id, v_requested, round(v_line.total_price / v_line.quantity, 2), v_refund);
+            v_total := v_total + v_refund;
+
+            IF v_status = 'completed' THEN
+                PERFORM apply_stock_movement(v_sale.business_id, v_line.product_id, 'return', v_requested * v_line.conversion_factor, 'sale_return', v_return_id, p_reason_code);
+            END IF;
+        END IF;
+    END LOOP;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION 'Nothing to return on sale %', v_sale.receipt_number;
+    END IF;
+
+    UPDATE sale_returns SET total_amount = v_total WHERE id = v_return_id;
+
+    RETURN v_return_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_sale_return(uuid, jsonb, text, text, text, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+    p_business_id uuid,
+    p_supplier_id uuid,
+    p_items jsonb,
+    p_expected_date date DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_draft boolean DEFAULT false,
+    p_branch_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order_id uuid;
+    v_branch_id uuid;
+    v_total numeric := 0;
+    item jsonb;
+    v_product public.products%ROWTYPE;
+    v_quantity numeric;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Supplier not found';
+    END IF;
+
+    v_branch_id := COALESCE(p_branch_id, staff_branch_id(p_business_id, auth.uid()));
+    IF NOT EXISTS (SELECT 1 FROM branches WHERE id = v_branch_id AND business_id = p_business_id) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A purchase order needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        SELECT * INTO v_product FROM products WHERE id = (item->>'product_id')::uuid AND business_id = p_business_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        v_quantity := (item->>'quantity')::numeric;
+        IF v_quantity <> trunc(v_quantity) AND (NOT v_product.is_weighed OR v_quantity <> round(v_quantity, 3)) THEN
+            RAISE EXCEPTION '% is ordered in whole units', v_product.name;
+        END IF;
+        v_total := v_total + round(v_quantity * (item->>'unit_cost')::numeric, 2);
+    END LOOP;
+
+    INSERT INTO purchase_orders (business_id, supplier_id, branch_id, po_number, status, expected_date, notes, total_amount, created_by)
+    VALUES (
+        p_business_id,
+        p_supplier_id,
+        v_branch_id,
+        'PO-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        CASE WHEN p_draft THEN 'draft' ELSE 'ordered' END::public.purchase_order_status_enum,
+        p_expected_date,
+        p_notes,
+        v_total,
+        auth.uid()
+    )
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    SELECT v_order_id, (x->>'product_id')::uuid, (x->>'quantity')::numeric, (x->>'unit_cost')::numeric
+    FROM jsonb_array_elements(p_items) x;
+
+    RETURN v_order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(uuid, uuid, jsonb, date, text, boolean, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_draft_purchase_order(
+    p_purchase_order_id uuid,
+    p_supplier_id uuid,
+    p_items jsonb,
+    p_expected_date date DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_branch_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+    v_total numeric := 0;
+    item jsonb;
+    v_product public.products%ROWTYPE;
+    v_quantity numeric;
+BEGIN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status <> 'draft' THEN
+        RAISE EXCEPTION 'Purchase order % has already been placed', v_order.po_number;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND business_id = v_order.business_id) THEN
+        RAISE EXCEPTION 'Supplier not found';
+    END IF;
+
+    IF p_branch_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM branches WHERE id = p_branch_id AND business_id = v_order.business_id) THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A purchase order needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        SELECT * INTO v_product FROM products WHERE id = (item->>'product_id')::uuid AND business_id = v_order.business_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        v_quantity := (item->>'quantity')::numeric;
+        IF v_quantity <> trunc(v_quantity) AND (NOT v_product.is_weighed OR v_quantity <> round(v_quantity, 3)) THEN
+            RAISE EXCEPTION '% is ordered in whole units', v_product.name;
+        END IF;
+        v_total := v_total + round(v_quantity * (item->>'unit_cost')::numeric, 2);
+    END LOOP;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = v_order.id;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    SELECT v_order.id, (x->>'product_id')::uuid, (x->>'quantity')::numeric, (x->>'unit_cost')::numeric
+    FROM jsonb_array_elements(p_items) x;
+
+    UPDATE purchase_orders
+    SET supplier_id = p_supplier_id,
+        branch_id = COALESCE(p_branch_id, branch_id),
+        expected_date = p_expected_date,
+        notes = p_notes,
+        total_amount = v_total,
+        updated_at = now()
+    WHERE id = v_order.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_draft_purchase_order(uuid, uuid, jsonb, date, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+    p_purchase_order_id uuid,
+    p_items jsonb,
+    p_cost_method text DEFAULT 'latest',
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order public.purchase_orders%ROWTYPE;
+    v_line public.purchase_order_items%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_grn_id uuid;
+    v_total numeric := 0;
+    v_quantity numeric;
+    v_unit_cost numeric;
+    v_batch_number text;
+    v_expiry_date date;
+    item jsonb;
+BEGIN
+    IF p_cost_method NOT IN ('latest', 'weighted_average') THEN
+        RAISE EXCEPTION 'Unknown cost method %', p_cost_method;
+    END IF;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_order.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is %', v_order.po_number, v_order.status;
+    END IF;
+
+    INSERT INTO goods_received_notes (business_id, purchase_order_id, supplier_id, grn_number, total_amount, notes, received_by)
+    VALUES (
+        v_order.business_id,
+        v_order.id,
+        v_order.supplier_id,
+        'GRN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        0,
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_grn_id;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        v_quantity := (item->>'quantity')::numeric;
+        CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+        SELECT * INTO v_line
+        FROM purchase_order_items
+        WHERE id = (item->>'purchase_order_item_id')::uuid AND purchase_order_id = v_order.id
+        FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is not on purchase order %', item->>'purchase_order_item_id', v_order.po_number;
+        END IF;
+        IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity_ordered THEN
+            RAISE EXCEPTION 'Cannot receive % more of a line with % outstanding', v_quantity, v_line.quantity_ordered - v_line.quantity_received;
+        END IF;
+
+        v_unit_cost := COALESCE((item->>'unit_cost')::numeric, v_line.unit_cost);
+        v_batch_number := NULLIF(trim(item->>'batch_number'), '');
+        v_expiry_date := NULLIF(item->>'expiry_date', '')::date;
+
+        SELECT * INTO v_product FROM products WHERE id = v_line.product_id FOR UPDATE;
+
+        IF v_quantity <> trunc(v_quantity) AND (NOT v_product.is_weighed OR v_quantity <> round(v_quantity, 3)) THEN
+            RAISE EXCEPTION '% is received in whole units', v_product.name;
+        END IF;
+
+        IF v_product.track_expiry AND v_expiry_date IS NULL THEN
+            RAISE EXCEPTION 'Enter an expiry date for %', v_product.name;
+        END IF;
+
+        UPDATE products
+        SET buying_price = CASE
+                WHEN p_cost_method = 'weighted_average' AND v_product.buying_price IS NOT NULL AND GREATEST(v_product.stock_quantity, 0) > 0 THEN
+                    round((GREATEST(v_product.stock_quantity, 0) * v_product.buying_price + v_quantity * v_unit_cost) / (GREATEST(v_product.stock_quantity, 0) + v_quantity), 2)
+                ELSE v_unit_cost
+            END,
+            updated_at = now()
+        WHERE id = v_line.product_id;
+
+        IF v_batch_number IS NOT NULL OR v_expiry_date IS NOT NULL THEN
+            PERFORM set_config('app.stock_batch', jsonb_build_object('batch_number', v_batch_number, 'expiry_date', v_expiry_date)::text, true);
+        END IF;
+        PERFORM apply_stock_movement(v_order.business_id, v_line.product_id, 'receipt', v_quantity, 'goods_received_note', v_grn_id);
+        PERFORM set_config('app.stock_batch', '', true);
+
+        UPDATE purchase_order_items
+        SET quantity_received = quantity_received + v_quantity
+        WHERE id = v_line.id;
+
+        INSERT INTO goods_received_items (grn_id, purchase_order_item_id, product_id, quantity, unit_cost, total_cost, batch_number, expiry_date)
+        VALUES (v_grn_id, v_line.id, v_line.product_id, v_quantity, v_unit_cost, round(v_quantity * v_unit_cost, 2), v_batch_number, v_expiry_date);
+
+        v_total := v_total + round(v_quantity * v_unit_cost, 2);
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM goods_received_items WHERE grn_id = v_grn_id) THEN
+        RAISE EXCEPTION 'Enter a quantity for at least one line';
+    END IF;
+
+    UPDATE goods_received_notes SET total_amount = v_total WHERE id = v_grn_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+            WHEN EXISTS (SELECT 1 FROM purchase_order_items WHERE purchase_order_id = v_order.id AND quantity_received < quantity_ordered)
+            THEN 'partially_received'::public.purchase_order_status_enum
+            ELSE 'received'::public.purchase_order_status_enum
+        END,
+        updated_at = now()
+    WHERE id = v_order.id;
+
+    RETURN v_grn_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(uuid, jsonb, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_stock_transfer(
+    p_business_id uuid,
+    p_from_branch_id uuid,
+    p_to_branch_id uuid,
+    p_items jsonb,
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer_id uuid;
+    item jsonb;
+    v_product public.products%ROWTYPE;
+    v_quantity numeric;
+BEGIN
+    IF NOT is_business_member(p_business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'User is not a member of this business';
+    END IF;
+
+    IF p_from_branch_id = p_to_branch_id THEN
+        RAISE EXCEPTION 'A transfer needs two different branches';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM branches WHERE id IN (p_from_branch_id, p_to_branch_id) AND business_id = p_business_id AND is_active) <> 2 THEN
+        RAISE EXCEPTION 'Branch not found';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A transfer needs at least one line';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        SELECT * INTO v_product FROM products WHERE id = (item->>'product_id')::uuid AND business_id = p_business_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found', item->>'product_id';
+        END IF;
+        v_quantity := COALESCE((item->>'quantity')::numeric, 0);
+        IF v_quantity <= 0 THEN
+            RAISE EXCEPTION 'Transfer quantities must be positive';
+        END IF;
+        IF v_quantity <> trunc(v_quantity) AND (NOT v_product.is_weighed OR v_quantity <> round(v_quantity, 3)) THEN
+            RAISE EXCEPTION '% is transferred in whole units', v_product.name;
+        END IF;
+    END LOOP;
+
+    INSERT INTO stock_transfers (business_id, transfer_number, from_branch_id, to_branch_id, notes, requested_by)
+    VALUES (
+        p_business_id,
+        'TR-' || to_char(now(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+        p_from_branch_id,
+        p_to_branch_id,
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_transfer_id;
+
+    INSERT INTO stock_transfer_items (transfer_id, product_id, quantity_requested)
+    SELECT v_transfer_id, (x->>'product_id')::uuid, SUM((x->>'quantity')::numeric)
+    FROM jsonb_array_elements(p_items) x
+    GROUP BY 2;
+
+    RETURN v_transfer_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_stock_transfer(uuid, uuid, uuid, jsonb, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.dispatch_stock_transfer(p_transfer_id uuid, p_items jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+    v_line record;
+    v_available numeric;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF v_transfer.status <> 'requested' THEN
+        RAISE EXCEPTION 'Stock transfer % has already been dispatched or cancelled', v_transfer.transfer_number;
+    END IF;
+
+    FOR v_line IN
+        SELECT ti.id, ti.product_id, p.name, p.is_weighed,
+               COALESCE((SELECT SUM((x->>'quantity')::numeric) FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) x
+                         WHERE (x->>'product_id')::uuid = ti.product_id), ti.quantity_requested) AS quantity
+        FROM stock_transfer_items ti
+        JOIN products p ON p.id = ti.product_id
+        WHERE ti.transfer_id = v_transfer.id
+        FOR UPDATE OF ti
+    LOOP
+        IF v_line.quantity < 0 THEN
+            RAISE EXCEPTION 'Dispatched quantities cannot be negative';
+        END IF;
+        IF v_line.quantity <> trunc(v_line.quantity) AND (NOT v_line.is_weighed OR v_line.quantity <> round(v_line.quantity, 3)) THEN
+            RAISE EXCEPTION '% is transferred in whole units', v_line.name;
+        END IF;
+        CONTINUE WHEN v_line.quantity = 0;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_available
+        FROM branch_stock
+        WHERE branch_id = v_transfer.from_branch_id AND product_id = v_line.product_id;
+        IF v_line.quantity > v_available THEN
+            RAISE EXCEPTION 'Only % of % left at the sending branch', GREATEST(v_available, 0), v_line.name;
+        END IF;
+
+        UPDATE stock_transfer_items SET quantity_dispatched = v_line.quantity WHERE id = v_line.id;
+
+        PERFORM apply_stock_movement(
+            v_transfer.business_id, v_line.product_id, 'transfer', -v_line.quantity,
+            'stock_transfer', v_transfer.id, 'Transfer out', v_transfer.transfer_number
+        );
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM stock_transfer_items WHERE transfer_id = v_transfer.id AND quantity_dispatched > 0) THEN
+        RAISE EXCEPTION 'Nothing to dispatch';
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'in_transit', dispatched_by = auth.uid(), dispatched_at = now()
+    WHERE id = v_transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.dispatch_stock_transfer(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(p_transfer_id uuid, p_items jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+    v_line record;
+    v_batch record;
+    v_outstanding numeric;
+    v_take numeric;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Stock transfer % is not in transit', v_transfer.transfer_number;
+    END IF;
+
+    FOR v_line IN
+        SELECT ti.id, ti.product_id, p.name, p.is_weighed, ti.quantity_dispatched,
+               COALESCE((SELECT SUM((x->>'quantity')::numeric) FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) x
+                         WHERE (x->>'product_id')::uuid = ti.product_id), ti.quantity_dispatched) AS quantity
+        FROM stock_transfer_items ti
+        JOIN products p ON p.id = ti.product_id
+        WHERE ti.transfer_id = v_transfer.id AND ti.quantity_dispatched > 0
+        FOR UPDATE OF ti
+    LOOP
+        IF v_line.quantity < 0 OR v_line.quantity > v_line.quantity_dispatched THEN
+            RAISE EXCEPTION 'Received quantity for % must be between 0 and %', v_line.name, v_line.quantity_dispatched;
+        END IF;
+        IF v_line.quantity <> trunc(v_line.quantity) AND (NOT v_line.is_weighed OR v_line.quantity <> round(v_line.quantity, 3)) THEN
+            RAISE EXCEPTION '% is transferred in whole units', v_line.name;
+        END IF;
+        CONTINUE WHEN v_line.quantity = 0;
+
+        UPDATE stock_transfer_items SET quantity_received = v_line.quantity WHERE id = v_line.id;
+
+        v_outstanding := v_line.quantity;
+        FOR v_batch IN
+            SELECT b.batch_number, b.expiry_date, -SUM(mb.quantity) AS quantity
+            FROM stock_movements m
+            JOIN stock_movement_batches mb ON mb.movement_id = m.id
+            JOIN product_batches b ON b.id = mb.batch_id
+            WHERE m.reference_type = 'stock_transfer' AND m.reference_id = v_transfer.id
+              AND m.product_id = v_line.product_id AND m.quantity < 0
+            GROUP BY b.batch_number, b.expiry_date
+            ORDER BY b.expiry_date NULLS LAST
+        LOOP
+            EXIT WHEN v_outstanding = 0;
+            v_take := LEAST(v_outstanding, v_batch.quantity);
+
+            PERFORM set_config('app.stock_batch', jsonb_build_object('batch_number', v_batch.batch_number, 'expiry_date', v_batch.expiry_date)::text, true);
+            PERFORM apply_stock_movement(
+                v_transfer.business_id, v_line.product_id, 'transfer', v_take,
+                'stock_transfer', v_transfer.id, 'Transfer in', v_transfer.transfer_number
+            );
+            PERFORM set_config('app.stock_batch', '', true);
+
+            v_outstanding := v_outstanding - v_take;
+        END LOOP;
+
+        IF v_outstanding > 0 THEN
+            PERFORM apply_stock_movement(
+                v_transfer.business_id, v_line.product_id, 'transfer', v_outstanding,
+                'stock_transfer', v_transfer.id, 'Transfer in', v_transfer.transfer_number
+            );
+        END IF;
+    END LOOP;
+
+    UPDATE stock_transfers
+    SET status = 'received', received_by = auth.uid(), received_at = now()
+    WHERE id = v_transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_stock_transfer(uuid, jsonb) TO authenticated;
@@ -0,0 +1,53 @@
+/*
+# [eTIMS Submission Claim]
+Stops two submissions of the same sale from both reaching eTIMS.
+
+## Query Description:
+`etims-submit` used to look for a signed invoice, call the eTIMS adapter, then upsert the result, so two receipt screens opening the same sale at once could each get the sale signed. It now claims the sale first through `claim_etims_submission`, which inserts or takes over the sale's `etims_invoices` row as `pending` in one statement and reports whether it won. Only a sale with no invoice, a failed one, or a pending one left behind for more than five minutes by a submission that never finished can be claimed. Whoever loses gets the current invoice back instead of signing.
+
+## Metadata:
+- Schema-Category: ["Structural"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: false
+
+## Structure Details:
+- Adds value `pending` to `etims_invoice_status_enum`.
+- Creates function `claim_etims_submission`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Service role only; called by the `etims-submit` edge function.
+
+## Performance Impact:
+- Indexes: None; uses the unique index on `etims_invoices(sale_id)`.
+- Triggers: None.
+- Estimated Impact: Negligible.
+*/
+
+ALTER TYPE public.etims_invoice_status_enum ADD VALUE IF NOT EXISTS 'pending' BEFORE 'signed';
+
+CREATE OR REPLACE FUNCTION public.claim_etims_submission(p_business_id uuid, p_sale_id uuid, p_adapter text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_claimed uuid;
+BEGIN
+    INSERT INTO etims_invoices (business_id, sale_id, status, adapter, submitted_at)
+    VALUES (p_business_id, p_sale_id, 'pending', p_adapter, now())
+    ON CONFLICT (sale_id) DO UPDATE
+    SET status = 'pending', adapter = EXCLUDED.adapter, cu_invoice_number = NULL, qr_data = NULL, error = NULL, submitted_at = now()
+    WHERE etims_invoices.status = 'failed'
+       OR (etims_invoices.status = 'pending' AND etims_invoices.submitted_at < now() - interval '5 minutes')
+    RETURNING id INTO v_claimed;
+
+    RETURN v_claimed IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_etims_submission(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_etims_submission(uuid, uuid, text) TO service_role;
@@ -0,0 +1,197 @@
+/*
+# [Stock Transfer Locks and Permissions]
+Stops two dispatches from sending the same stock, and limits who can move stock between branches.
+
+## Query Description:
+`dispatch_stock_transfer` checked what the sending branch held without locking anything, so a sale or another dispatch running at the same time could take the same stock and leave the branch below zero. It now locks the transfer's products and the sending branch's stock rows, in product order as checkouts lock products, before the check. Dispatching was open to any member of the business, and so was receiving; now a transfer can only be dispatched by owners, managers and staff working at the sending branch, and only received by owners, managers and staff working at the receiving branch. Staff work at the branch of their open shift, else the branch on their staff role, else the default branch, as at the till.
+
+## Metadata:
+- Schema-Category: ["Safe"]
+- Impact-Level: ["Low"]
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Replaces `dispatch_stock_transfer` and `receive_stock_transfer`.
+
+## Security Implications:
+- RLS Status: Unchanged.
+- Policy Changes: No.
+- Auth Requirements: Dispatching needs an owner, a manager or staff at the sending branch; receiving needs an owner, a manager or staff at the receiving branch.
+
+## Performance Impact:
+- Indexes: None.
+- Triggers: None.
+- Estimated Impact: Negligible. Checkouts of the products being dispatched wait for the dispatch to finish.
+*/
+
+CREATE OR REPLACE FUNCTION public.dispatch_stock_transfer(p_transfer_id uuid, p_items jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+    v_line record;
+    v_available numeric;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_transfer.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) AND staff_branch_id(v_transfer.business_id, auth.uid()) IS DISTINCT FROM v_transfer.from_branch_id THEN
+        RAISE EXCEPTION 'Only owners, managers and staff at % can dispatch transfer %',
+            (SELECT name FROM branches WHERE id = v_transfer.from_branch_id), v_transfer.transfer_number;
+    END IF;
+    IF v_transfer.status <> 'requested' THEN
+        RAISE EXCEPTION 'Stock transfer % has already been dispatched or cancelled', v_transfer.transfer_number;
+    END IF;
+
+    -- Lock the products and the sending branch's stock in product order, as checkouts do, so a sale or
+    -- another dispatch cannot take the same stock between the check below and the movement out
+    PERFORM 1
+    FROM products
+    WHERE id IN (SELECT product_id FROM stock_transfer_items WHERE transfer_id = v_transfer.id)
+    ORDER BY id
+    FOR UPDATE;
+    PERFORM 1
+    FROM branch_stock
+    WHERE branch_id = v_transfer.from_branch_id
+      AND product_id IN (SELECT product_id FROM stock_transfer_items WHERE transfer_id = v_transfer.id)
+    ORDER BY product_id
+    FOR UPDATE;
+
+    FOR v_line IN
+        SELECT ti.id, ti.product_id, p.name, p.is_weighed,
+               COALESCE((SELECT SUM((x->>'quantity')::numeric) FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) x
+                         WHERE (x->>'product_id')::uuid = ti.product_id), ti.quantity_requested) AS quantity
+        FROM stock_transfer_items ti
+        JOIN products p ON p.id = ti.product_id
+        WHERE ti.transfer_id = v_transfer.id
+        FOR UPDATE OF ti
+    LOOP
+        IF v_line.quantity < 0 THEN
+            RAISE EXCEPTION 'Dispatched quantities cannot be negative';
+        END IF;
+        IF v_line.quantity <> trunc(v_line.quantity) AND (NOT v_line.is_weighed OR v_line.quantity <> round(v_line.quantity, 3)) THEN
+            RAISE EXCEPTION '% is transferred in whole units', v_line.name;
+        END IF;
+        CONTINUE WHEN v_line.quantity = 0;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_available
+        FROM branch_stock
+        WHERE branch_id = v_transfer.from_branch_id AND product_id = v_line.product_id;
+        IF v_line.quantity > v_available THEN
+            RAISE EXCEPTION 'Only % of % left at the sending branch', GREATEST(v_available, 0), v_line.name;
+        END IF;
+
+        UPDATE stock_transfer_items SET quantity_dispatched = v_line.quantity WHERE id = v_line.id;
+
+        PERFORM apply_stock_movement(
+            v_transfer.business_id, v_line.product_id, 'transfer', -v_line.quantity,
+            'stock_transfer', v_transfer.id, 'Transfer out', v_transfer.transfer_number
+        );
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM stock_transfer_items WHERE transfer_id = v_transfer.id AND quantity_dispatched > 0) THEN
+        RAISE EXCEPTION 'Nothing to dispatch';
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'in_transit', dispatched_by = auth.uid(), dispatched_at = now()
+    WHERE id = v_transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.dispatch_stock_transfer(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(p_transfer_id uuid, p_items jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transfer public.stock_transfers%ROWTYPE;
+    v_line record;
+    v_batch record;
+    v_outstanding numeric;
+    v_take numeric;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_business_member(v_transfer.business_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Stock transfer not found';
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM staff_roles
+        WHERE business_id = v_transfer.business_id AND user_id = auth.uid() AND is_active = true AND role IN ('owner', 'manager')
+    ) AND staff_branch_id(v_transfer.business_id, auth.uid()) IS DISTINCT FROM v_transfer.to_branch_id THEN
+        RAISE EXCEPTION 'Only owners, managers and staff at % can receive transfer %',
+            (SELECT name FROM branches WHERE id = v_transfer.to_branch_id), v_transfer.transfer_number;
+    END IF;
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Stock transfer % is not in transit', v_transfer.transfer_number;
+    END IF;
+
+    FOR v_line IN
+        SELECT ti.id, ti.product_id, p.name, p.is_weighed, ti.quantity_dispatched,
+               COALESCE((SELECT SUM((x->>'quantity')::numeric) FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) x
+                         WHERE (x->>'product_id')::uuid = ti.product_id), ti.quantity_dispatched) AS quantity
+        FROM stock_transfer_items ti
+        JOIN products p ON p.id = ti.product_id
+        WHERE ti.transfer_id = v_transfer.id AND ti.quantity_dispatched > 0
+        FOR UPDATE OF ti
+    LOOP
+        IF v_line.quantity < 0 OR v_line.quantity > v_line.quantity_dispatched THEN
+            RAISE EXCEPTION 'Received quantity for % must be between 0 and %', v_line.name, v_line.quantity_dispatched;
+        END IF;
+        IF v_line.quantity <> trunc(v_line.quantity) AND (NOT v_line.is_weighed OR v_line.quantity <> round(v_line.quantity, 3)) THEN
+            RAISE EXCEPTION '% is transferred in whole units', v_line.name;
+        END IF;
+        CONTINUE WHEN v_line.quantity = 0;
+
+        UPDATE stock_transfer_items SET quantity_received = v_line.quantity WHERE id = v_line.id;
+
+        v_outstanding := v_line.quantity;
+        FOR v_batch IN
+            SELECT b.batch_number, b.expiry_date, -SUM(mb.quantity) AS quantity
+            FROM stock_movements m
+            JOIN stock_movement_batches mb ON mb.movement_id = m.id
+            JOIN product_batches b ON b.id = mb.batch_id
+            WHERE m.reference_type = 'stock_transfer' AND m.reference_id = v_transfer.id
+              AND m.product_id = v_line.product_id AND m.quantity < 0
+            GROUP BY b.batch_number, b.expiry_date
+            ORDER BY b.expiry_date NULLS LAST
+        LOOP
+            EXIT WHEN v_outstanding = 0;
+            v_take := LEAST(v_outstanding, v_batch.quantity);
+
+            PERFORM set_config('app.stock_batch', jsonb_build_object('batch_number', v_batch.batch_number, 'expiry_date', v_batch.expiry_date)::text, true);
+            PERFORM apply_stock_movement(
+                v_transfer.business_id, v_line.product_id, 'transfer', v_take,
+                'stock_transfer', v_transfer.id, 'Transfer in', v_transfer.transfer_number
+            );
+            PERFORM set_config('app.stock_batch', '', true);
+
+            v_outstanding := v_outstanding - v_take;
+        END LOOP;
+
+        IF v_outstanding > 0 THEN
+            PERFORM apply_stock_movement(
+                v_transfer.business_id, v_line.product_id, 'transfer', v_outstanding,
+                'stock_transfer', v_transfer.id, 'Transfer in', v_transfer.transfer_number
+            );
+        END IF;
+    END LOOP;
+
+    UPDATE stock_transfers
+    SET status = 'received', received_by = auth.uid(), received_at = now()
+    WHERE id = v_transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_stock_transfer(uuid, jsonb) TO authenticated;